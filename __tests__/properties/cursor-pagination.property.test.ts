@@ -0,0 +1,175 @@
+/**
+ * Property-Based Tests for Cursor Pagination
+ *
+ * Feature: public-api-v1
+ * Property: Cursor Pagination
+ *
+ * These tests verify that /api/v1 cursors round-trip, that malformed cursors
+ * are rejected, and that paging through a list visits every row exactly once.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+
+import {
+  applyCursor,
+  buildCursorPage,
+  decodeCursor,
+  encodeCursor,
+  MAX_CURSOR_LIMIT,
+  normalizeCursorLimit,
+  type CursorPage,
+} from "@/lib/db/query-helpers";
+
+interface Row {
+  id: string;
+  created_at: string;
+}
+
+/**
+ * Simulates the keyset query applyCursor builds: newest first, id as tie-breaker,
+ * rows strictly after the cursor, one extra row fetched
+ */
+function fetchPage(rows: Row[], cursor: string | null, limit: number): Row[] {
+  const sorted = [...rows].sort((a, b) =>
+    a.created_at === b.created_at
+      ? b.id.localeCompare(a.id)
+      : b.created_at.localeCompare(a.created_at)
+  );
+  const after = cursor ? decodeCursor(cursor) : null;
+  const filtered = after
+    ? sorted.filter(
+        (row) =>
+          row.created_at < after.value ||
+          (row.created_at === after.value && row.id < after.id)
+      )
+    : sorted;
+  return filtered.slice(0, normalizeCursorLimit(limit) + 1);
+}
+
+/** Query builder that records the filters applyCursor adds */
+function recordingQuery() {
+  const filters: string[] = [];
+  const query = {
+    filters,
+    order: () => query,
+    or: (filter: string) => {
+      filters.push(filter);
+      return query;
+    },
+    limit: () => query,
+  };
+  return query;
+}
+
+const rowArb = fc.record({
+  id: fc.uuid(),
+  // A small set of timestamps forces plenty of ties
+  created_at: fc.constantFrom(
+    "2025-01-01T00:00:00+00:00",
+    "2025-01-02T00:00:00+00:00",
+    "2025-01-03T00:00:00+00:00"
+  ),
+});
+
+describe("Cursor Pagination Properties", () => {
+  it("Property: encodeCursor and decodeCursor round-trip", () => {
+    fc.assert(
+      fc.property(fc.string(), fc.uuid(), (value, id) => {
+        expect(decodeCursor(encodeCursor({ value, id }))).toEqual({ value, id });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: malformed cursors are rejected with a 400", () => {
+    fc.assert(
+      fc.property(fc.string({ minLength: 1 }), (garbage) => {
+        let decoded: unknown = null;
+        try {
+          decoded = decodeCursor(garbage);
+        } catch (error) {
+          expect(error).toMatchObject({ status: 400 });
+          return;
+        }
+        // Only strings that happen to decode to [string, string] are accepted
+        expect(decoded).toMatchObject({
+          value: expect.any(String),
+          id: expect.any(String),
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: page size is always clamped to 1..MAX_CURSOR_LIMIT", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -1000, max: 1000 }), (limit) => {
+        const normalized = normalizeCursorLimit(limit);
+        expect(normalized).toBeGreaterThanOrEqual(1);
+        expect(normalized).toBeLessThanOrEqual(MAX_CURSOR_LIMIT);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: following next_cursor visits every row exactly once", () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(rowArb, { selector: (row) => row.id, maxLength: 60 }),
+        fc.integer({ min: 1, max: 10 }),
+        (rows, limit) => {
+          const seen: string[] = [];
+          let cursor: string | null = null;
+
+          do {
+            const page: CursorPage<Row> = buildCursorPage(fetchPage(rows, cursor, limit), "created_at", limit);
+            expect(page.items.length).toBeLessThanOrEqual(limit);
+            seen.push(...page.items.map((row) => row.id));
+            cursor = page.nextCursor;
+            expect(page.hasMore).toBe(cursor !== null);
+          } while (cursor);
+
+          expect(seen.sort()).toEqual(rows.map((row) => row.id).sort());
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: applyCursor only builds filters from a timestamp and a UUID", () => {
+    fc.assert(
+      fc.property(rowArb, (row) => {
+        const query = recordingQuery();
+        applyCursor(query, "created_at", { cursor: encodeCursor({ value: row.created_at, id: row.id }) });
+        expect(query.filters).toEqual([
+          `created_at.lt."${row.created_at}",and(created_at.eq."${row.created_at}",id.lt."${row.id}")`,
+        ]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: applyCursor rejects cursors that could inject filter clauses with a 400", () => {
+    const injected = fc.oneof(
+      fc.string({ maxLength: 20 }).map((value) => ({ value, id: "4f0c2a8e-1b2c-4d3e-8f9a-0b1c2d3e4f5a" })),
+      fc.string({ maxLength: 20 }).map((id) => ({ value: "2025-01-01T00:00:00+00:00", id })),
+      fc.constant({ value: '2025-01-01T00:00:00+00:00"),organization_id.neq.("', id: "x" })
+    );
+
+    fc.assert(
+      fc.property(injected, (position) => {
+        const query = recordingQuery();
+        let rejection: unknown = null;
+        try {
+          applyCursor(query, "created_at", { cursor: encodeCursor(position) });
+        } catch (error) {
+          rejection = error;
+        }
+        expect(rejection).toMatchObject({ status: 400 });
+        expect(query.filters).toEqual([]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Property-Based Tests for Diagnostic Scoring
+ *
+ * Feature: diagnostic-scoring
+ * Property: Scores, Aggregates and Privacy Thresholds
+ *
+ * These tests verify that response scores stay on the 0-100 scale, that
+ * element shares add up, that aggregates only count completed responses and
+ * that min_participants and anonymous_results hide participant-level data.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+
+import {
+  buildDiagnosticReport,
+  DIAGNOSTIC_ELEMENTS,
+  scoreDiagnosticResponse,
+} from "@/lib/diagnostics/scoring";
+import type { DiagnosticQuestion, DiagnosticResponse } from "@/lib/db/diagnostics";
+
+const OPTIONS = ["Quickly", "Carefully", "Together", "From experience"];
+
+const questions: DiagnosticQuestion[] = [
+  { id: 1, text: "How do you decide?", type: "scale", options: OPTIONS },
+  { id: 2, text: "Pick all that apply", type: "multiple_choice", options: OPTIONS },
+  { id: 3, text: "Rank these", type: "ranking", options: OPTIONS },
+  { id: 4, text: "How energized are you?", type: "scale" },
+  { id: 5, text: "Anything else?", type: "text" },
+];
+
+const optionRules = {
+  Quickly: { value: 100, element: "fiery" as const },
+  Carefully: { value: 40, element: "airy" as const },
+  Together: { value: 20, element: "aquatic" as const },
+  "From experience": { value: 70, element: "earthly" as const },
+};
+
+const scoringConfig = {
+  dimensions: [
+    { id: "decisiveness", label: "Decisiveness" },
+    { id: "energy", label: "Energy" },
+  ],
+  questions: {
+    "1": { dimension: "decisiveness", options: optionRules },
+    "2": { dimension: "decisiveness", options: optionRules },
+    "3": { dimension: "decisiveness", options: optionRules },
+    "4": { dimension: "energy" },
+  },
+  scale: { min: 1, max: 5 },
+};
+
+const template = {
+  questions,
+  scoring_config: scoringConfig,
+  report_template: {},
+  min_participants: 3,
+};
+
+const answersArb = fc.record(
+  {
+    "1": fc.oneof(fc.constantFrom(...OPTIONS), fc.integer({ min: 0, max: 3 })),
+    "2": fc.subarray(OPTIONS, { minLength: 1 }),
+    "3": fc.shuffledSubarray(OPTIONS, { minLength: OPTIONS.length }),
+    "4": fc.integer({ min: 1, max: 5 }),
+    "5": fc.string(),
+  },
+  { requiredKeys: [] }
+);
+
+const responseArb = fc.record({
+  id: fc.uuid(),
+  user_id: fc.uuid(),
+  answers: answersArb,
+  is_complete: fc.boolean(),
+}).map(
+  (response): DiagnosticResponse => ({
+    ...response,
+    diagnostic_id: "diagnostic-1",
+    scores: {},
+    started_at: "2025-01-01T00:00:00Z",
+    completed_at: null,
+    time_spent_seconds: null,
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+  })
+);
+
+describe("Diagnostic Scoring Properties", () => {
+  it("Property: dimension scores stay within 0-100 and element shares add up to 100", () => {
+    fc.assert(
+      fc.property(answersArb, (answers) => {
+        const scores = scoreDiagnosticResponse(template, answers);
+
+        for (const value of Object.values(scores.dimensions)) {
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThanOrEqual(100);
+        }
+
+        const shares = Object.values(scores.elements).reduce((sum, share) => sum + (share ?? 0), 0);
+        if (scores.primary_element) {
+          expect(Math.abs(shares - 100)).toBeLessThan(0.5);
+          expect(scores.elements[scores.primary_element]).toBe(
+            Math.max(...Object.values(scores.elements).map((share) => share ?? 0))
+          );
+        } else {
+          expect(shares).toBe(0);
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it("Property: a numeric scale answer maps linearly onto 0-100", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 5 }), (value) => {
+        const scores = scoreDiagnosticResponse(template, { "4": value });
+        expect(scores.dimensions.energy).toBe(((value - 1) / 4) * 100);
+      })
+    );
+  });
+
+  it("ranks the first-placed option highest", () => {
+    const scores = scoreDiagnosticResponse(template, {
+      "3": ["Quickly", "Carefully", "Together", "From experience"],
+    });
+
+    // Weighted 4, 3, 2, 1
+    expect(scores.dimensions.decisiveness).toBe(
+      Math.round(((100 * 4 + 40 * 3 + 20 * 2 + 70 * 1) / 10) * 10) / 10
+    );
+    expect(scores.primary_element).toBe("fiery");
+  });
+
+  it("Property: only completed responses are aggregated", () => {
+    fc.assert(
+      fc.property(fc.array(responseArb, { maxLength: 15 }), fc.boolean(), (responses, anonymous) => {
+        const { results, responseScores } = buildDiagnosticReport(
+          { anonymous_results: anonymous, template },
+          responses
+        );
+        const completed = responses.filter((response) => response.is_complete);
+
+        expect(results.participants).toBe(completed.length);
+        expect(responseScores.size).toBe(new Set(completed.map((response) => response.id)).size);
+
+        if (results.status === "ready") {
+          for (const dimension of results.dimensions) {
+            expect(dimension.distribution.reduce((sum, count) => sum + count, 0)).toBe(dimension.respondents);
+            expect(dimension.respondents).toBeLessThanOrEqual(completed.length);
+          }
+          for (const question of results.questions) {
+            expect(question.responses).toBeLessThanOrEqual(completed.length);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: below min_participants no scores or answers are reported", () => {
+    fc.assert(
+      fc.property(
+        fc.array(responseArb.map((response) => ({ ...response, is_complete: true })), { maxLength: 2 }),
+        (responses) => {
+          const { results, insights } = buildDiagnosticReport(
+            { anonymous_results: false, template },
+            responses
+          );
+
+          expect(results.status).toBe("insufficient_participants");
+          expect(results.dimensions).toEqual([]);
+          expect(results.questions).toEqual([]);
+          expect(results.individual).toBeUndefined();
+          expect(DIAGNOSTIC_ELEMENTS.every((element) => results.element_mix[element] === 0)).toBe(true);
+          expect(insights).toHaveLength(1);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it("Property: anonymous results never contain participant-level data", () => {
+    fc.assert(
+      fc.property(
+        fc.array(responseArb.map((response) => ({ ...response, is_complete: true })), {
+          minLength: 3,
+          maxLength: 12,
+        }),
+        (responses) => {
+          const { results } = buildDiagnosticReport({ anonymous_results: true, template }, responses);
+          const serialized = JSON.stringify(results);
+
+          expect(results.status).toBe("ready");
+          expect(results.individual).toBeUndefined();
+          for (const response of responses) {
+            expect(serialized).not.toContain(response.user_id);
+          }
+          for (const dimension of results.dimensions) {
+            expect(dimension.min).toBeUndefined();
+            expect(dimension.max).toBeUndefined();
+          }
+          // Free text is never part of the report
+          const textQuestion = results.questions.find((question) => question.type === "text");
+          expect(textQuestion?.options).toBeUndefined();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it("Property: the element mix of a ready report adds up to 100", () => {
+    fc.assert(
+      fc.property(
+        fc.array(responseArb.map((response) => ({ ...response, is_complete: true })), {
+          minLength: 3,
+          maxLength: 12,
+        }),
+        (responses) => {
+          const { results } = buildDiagnosticReport({ anonymous_results: false, template }, responses);
+          const total = DIAGNOSTIC_ELEMENTS.reduce((sum, element) => sum + results.element_mix[element], 0);
+          const primaries = DIAGNOSTIC_ELEMENTS.reduce(
+            (sum, element) => sum + results.primary_elements[element],
+            0
+          );
+
+          if (primaries > 0) {
+            expect(Math.abs(total - 100)).toBeLessThan(1);
+          }
+          expect(primaries).toBeLessThanOrEqual(responses.length);
+          expect(results.individual).toHaveLength(responses.length);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Property-Based Tests for SAML Response Validation
+ *
+ * Feature: sso-saml-hardening
+ * Property: Signature and Condition Validation
+ *
+ * These tests verify that only responses signed with the configured IdP key
+ * are accepted, that any change after signing is detected, and that audience,
+ * recipient, validity window and InResponseTo are enforced.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { generateKeyPairSync } from "crypto";
+import { SignedXml } from "xml-crypto";
+
+import {
+  parseSAMLAssertion,
+  parseSAMLResponseEnvelope,
+  SAML_CLOCK_SKEW_MS,
+  validateSAMLConditions,
+  validateSAMLSignature,
+} from "@/lib/sso/saml";
+
+const SP_ENTITY_ID = "https://app.example.com/api/sso/saml/sp/org-1";
+const ACS_URL = "https://app.example.com/api/sso/saml/acs";
+const IDP_ENTITY_ID = "https://idp.example.com";
+const NOW = new Date("2025-06-01T12:00:00Z");
+
+const idpKeys = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: "spki", format: "pem" },
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+
+const attackerKeys = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: "spki", format: "pem" },
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Build an unsigned SAML response for the given user
+ */
+function buildResponse(email: string, requestId = "_req1"): string {
+  const notOnOrAfter = new Date(NOW.getTime() + 5 * 60 * 1000).toISOString();
+  return `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_resp1" Version="2.0" IssueInstant="${NOW.toISOString()}" Destination="${ACS_URL}" InResponseTo="${requestId}"><saml:Issuer>${IDP_ENTITY_ID}</saml:Issuer><samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status><saml:Assertion ID="_assert1" Version="2.0" IssueInstant="${NOW.toISOString()}"><saml:Issuer>${IDP_ENTITY_ID}</saml:Issuer><saml:Subject><saml:NameID>${escapeXml(email)}</saml:NameID><saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer"><saml:SubjectConfirmationData Recipient="${ACS_URL}" NotOnOrAfter="${notOnOrAfter}" InResponseTo="${requestId}"/></saml:SubjectConfirmation></saml:Subject><saml:Conditions NotBefore="${NOW.toISOString()}" NotOnOrAfter="${notOnOrAfter}"><saml:AudienceRestriction><saml:Audience>${SP_ENTITY_ID}</saml:Audience></saml:AudienceRestriction></saml:Conditions><saml:AuthnStatement SessionIndex="_session1"/><saml:AttributeStatement><saml:Attribute Name="email"><saml:AttributeValue>${escapeXml(email)}</saml:AttributeValue></saml:Attribute></saml:AttributeStatement></saml:Assertion></samlp:Response>`;
+}
+
+/**
+ * Sign the assertion inside a response the way an IdP does
+ */
+function signAssertion(
+  xml: string,
+  privateKey: string = idpKeys.privateKey,
+  algorithm = "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"
+): string {
+  const sig = new SignedXml({
+    privateKey,
+    signatureAlgorithm: algorithm,
+    canonicalizationAlgorithm: "http://www.w3.org/2001/10/xml-exc-c14n#",
+  });
+  sig.addReference({
+    xpath: "//*[local-name(.)='Assertion']",
+    digestAlgorithm: "http://www.w3.org/2001/04/xmlenc#sha256",
+    transforms: [
+      "http://www.w3.org/2000/09/xmldsig#enveloped-signature",
+      "http://www.w3.org/2001/10/xml-exc-c14n#",
+    ],
+  });
+  sig.computeSignature(xml, {
+    location: {
+      reference: "//*[local-name(.)='Assertion']/*[local-name(.)='Issuer']",
+      action: "after",
+    },
+  });
+  return sig.getSignedXml();
+}
+
+const emailArb = fc
+  .tuple(
+    fc.stringMatching(/^[a-z][a-z0-9.]{0,15}$/),
+    fc.constantFrom("acme.com", "example.org")
+  )
+  .map(([local, domain]) => `${local}@${domain}`);
+
+describe("SAML Validation Properties", () => {
+  it("Property: responses signed with the configured key are accepted", () => {
+    fc.assert(
+      fc.property(emailArb, (email) => {
+        const result = validateSAMLSignature(
+          signAssertion(buildResponse(email)),
+          idpKeys.publicKey
+        );
+
+        expect(result.valid).toBe(true);
+        expect(parseSAMLAssertion(result.signedXml!).nameID).toBe(email);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it("Property: changing the signed assertion invalidates the signature", () => {
+    fc.assert(
+      fc.property(emailArb, emailArb, (email, forged) => {
+        fc.pre(email !== forged);
+        const tampered = signAssertion(buildResponse(email)).replace(
+          `<saml:NameID>${email}</saml:NameID>`,
+          `<saml:NameID>${forged}</saml:NameID>`
+        );
+
+        const result = validateSAMLSignature(tampered, idpKeys.publicKey);
+        expect(result.valid).toBe(false);
+        expect(result.errorCode).toBe("invalid_signature");
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it("Property: responses signed with another key are rejected", () => {
+    fc.assert(
+      fc.property(emailArb, (email) => {
+        const result = validateSAMLSignature(
+          signAssertion(buildResponse(email), attackerKeys.privateKey),
+          idpKeys.publicKey
+        );
+        expect(result.valid).toBe(false);
+        expect(result.errorCode).toBe("invalid_signature");
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  it("rejects unsigned responses even when a certificate is configured", () => {
+    const result = validateSAMLSignature(
+      buildResponse("user@acme.com"),
+      "-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----"
+    );
+    expect(result.valid).toBe(false);
+    expect(result.errorCode).toBe("missing_signature");
+  });
+
+  it("rejects SHA-1 signatures", () => {
+    const result = validateSAMLSignature(
+      signAssertion(
+        buildResponse("user@acme.com"),
+        idpKeys.privateKey,
+        "http://www.w3.org/2000/09/xmldsig#rsa-sha1"
+      ),
+      idpKeys.publicKey
+    );
+    expect(result.valid).toBe(false);
+    expect(result.errorCode).toBe("unsupported_signature_algorithm");
+  });
+
+  it("rejects a wrapped second assertion next to the signed one", () => {
+    const signed = signAssertion(buildResponse("user@acme.com"));
+    const injected = buildResponse("attacker@acme.com")
+      .match(/<saml:Assertion[\s\S]*<\/saml:Assertion>/)![0]
+      .replace('ID="_assert1"', 'ID="_evil"');
+    const wrapped = signed.replace("</samlp:Response>", `${injected}</samlp:Response>`);
+
+    const result = validateSAMLSignature(wrapped, idpKeys.publicKey);
+    expect(result.valid).toBe(false);
+  });
+
+  it("rejects documents with a DOCTYPE", () => {
+    const result = validateSAMLSignature(
+      `<!DOCTYPE x [<!ENTITY a "a">]>${signAssertion(buildResponse("user@acme.com"))}`,
+      idpKeys.publicKey
+    );
+    expect(result.valid).toBe(false);
+  });
+
+  it("Property: conditions are only valid inside the validity window", () => {
+    const xml = buildResponse("user@acme.com");
+    const assertion = parseSAMLAssertion(xml);
+    const envelope = parseSAMLResponseEnvelope(xml);
+    const windowEnd = NOW.getTime() + 5 * 60 * 1000;
+
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -30 * 60 * 1000, max: 30 * 60 * 1000 }),
+        (offset) => {
+          const now = new Date(NOW.getTime() + offset);
+          const result = validateSAMLConditions(assertion, envelope, {
+            audience: SP_ENTITY_ID,
+            recipient: ACS_URL,
+            issuer: IDP_ENTITY_ID,
+            now,
+          });
+
+          const inWindow =
+            now.getTime() + SAML_CLOCK_SKEW_MS >= NOW.getTime() &&
+            now.getTime() - SAML_CLOCK_SKEW_MS < windowEnd;
+          expect(result.valid).toBe(inWindow);
+          if (!inWindow) {
+            expect(["assertion_not_yet_valid", "assertion_expired"]).toContain(
+              result.errorCode
+            );
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: audience, recipient and issuer must match", () => {
+    const xml = buildResponse("user@acme.com");
+    const assertion = parseSAMLAssertion(xml);
+    const envelope = parseSAMLResponseEnvelope(xml);
+
+    fc.assert(
+      fc.property(
+        fc.webUrl(),
+        fc.constantFrom("audience", "recipient", "issuer"),
+        (otherUrl, field) => {
+          const expected = {
+            audience: SP_ENTITY_ID,
+            recipient: ACS_URL,
+            issuer: IDP_ENTITY_ID,
+            now: NOW,
+            [field]: otherUrl,
+          };
+          fc.pre(otherUrl !== SP_ENTITY_ID && otherUrl !== ACS_URL && otherUrl !== IDP_ENTITY_ID);
+
+          const result = validateSAMLConditions(assertion, envelope, expected);
+          expect(result.valid).toBe(false);
+          expect(result.errorCode).toBe(`${field}_mismatch`);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it("requires InResponseTo and that it agrees with the response envelope", () => {
+    const expected = {
+      audience: SP_ENTITY_ID,
+      recipient: ACS_URL,
+      issuer: IDP_ENTITY_ID,
+      now: NOW,
+    };
+    const xml = buildResponse("user@acme.com");
+    const assertion = parseSAMLAssertion(xml);
+
+    expect(
+      validateSAMLConditions({ ...assertion, inResponseTo: undefined }, {
+        statusCode: null,
+      }, expected).errorCode
+    ).toBe("missing_in_response_to");
+
+    expect(
+      validateSAMLConditions(assertion, {
+        statusCode: null,
+        inResponseTo: "_other",
+      }, expected).errorCode
+    ).toBe("in_response_to_mismatch");
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Property-Based Tests for SCIM Filtering and PATCH
+ *
+ * Feature: scim-provisioning
+ * Property: Filter Evaluation and Patch Application
+ *
+ * These tests verify that SCIM filters select exactly the resources an
+ * identity provider asks for, that pagination never loses or duplicates
+ * results, and that PATCH operations in the shapes sent by common IdPs
+ * produce the intended resource.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+
+import {
+  applyScimPatch,
+  buildScimListResponse,
+  matchesScimFilter,
+  parseScimFilter,
+} from "@/lib/sso/scim";
+
+interface TestUser {
+  id: string;
+  userName: string;
+  active: boolean;
+  name: { givenName?: string; familyName?: string };
+  emails: { value: string; primary?: boolean; type?: string }[];
+}
+
+interface TestGroup {
+  id: string;
+  displayName: string;
+  members: { value: string; display?: string }[];
+}
+
+const userArb: fc.Arbitrary<TestUser> = fc
+  .record({
+    id: fc.uuid(),
+    local: fc.stringMatching(/^[a-z][a-z0-9.]{0,12}$/),
+    domain: fc.constantFrom("acme.com", "example.org"),
+    active: fc.boolean(),
+    givenName: fc.stringMatching(/^[A-Z][a-z]{1,8}$/),
+  })
+  .map(({ id, local, domain, active, givenName }) => ({
+    id,
+    userName: `${local}@${domain}`,
+    active,
+    name: { givenName },
+    emails: [{ value: `${local}@${domain}`, primary: true, type: "work" }],
+  }));
+
+const usersArb = fc.uniqueArray(userArb, {
+  minLength: 0,
+  maxLength: 20,
+  selector: (user) => user.userName,
+});
+
+const isApiError = (scimType: string) => (error: unknown) =>
+  (error as { status?: number }).status === 400 &&
+  (error as { details?: { scimType?: string } }).details?.scimType === scimType;
+
+describe("SCIM Filter Properties", () => {
+  it("Property: userName eq matches exactly the user with that userName, case-insensitively", () => {
+    fc.assert(
+      fc.property(usersArb.filter((users) => users.length > 0), fc.nat(), (users, index) => {
+        const target = users[index % users.length];
+        const filter = parseScimFilter(`userName eq "${target.userName.toUpperCase()}"`);
+
+        const matched = users.filter((user) => matchesScimFilter(user, filter));
+        expect(matched).toEqual([target]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: and/or filters agree with the equivalent predicate", () => {
+    fc.assert(
+      fc.property(
+        usersArb,
+        fc.constantFrom("acme.com", "example.org"),
+        fc.boolean(),
+        fc.constantFrom("and", "or"),
+        (users, domain, active, logical) => {
+          const filter = parseScimFilter(
+            `emails.value ew "@${domain}" ${logical} active eq ${active}`
+          );
+          const expected = users.filter((user) =>
+            logical === "and"
+              ? user.userName.endsWith(`@${domain}`) && user.active === active
+              : user.userName.endsWith(`@${domain}`) || user.active === active
+          );
+
+          expect(users.filter((user) => matchesScimFilter(user, filter))).toEqual(expected);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: ne selects the complement of eq", () => {
+    fc.assert(
+      fc.property(usersArb, fc.string({ maxLength: 10 }), (users, prefix) => {
+        const value = JSON.stringify(prefix);
+        const eq = parseScimFilter(`name.givenName eq ${value}`);
+        const ne = parseScimFilter(`name.givenName ne ${value}`);
+
+        for (const user of users) {
+          expect(matchesScimFilter(user, ne)).toBe(!matchesScimFilter(user, eq));
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("accepts core schema URN prefixes and presence filters", () => {
+    const user = {
+      userName: "jane@acme.com",
+      externalId: "00u1",
+      name: { givenName: "Jane" },
+    };
+
+    expect(
+      matchesScimFilter(
+        user,
+        parseScimFilter('urn:ietf:params:scim:schemas:core:2.0:User:userName sw "JANE"')
+      )
+    ).toBe(true);
+    expect(matchesScimFilter(user, parseScimFilter("externalId pr"))).toBe(true);
+    expect(matchesScimFilter(user, parseScimFilter("name.familyName pr"))).toBe(false);
+  });
+
+  it("rejects unsupported and malformed filters with invalidFilter", () => {
+    for (const filter of [
+      "",
+      'userName eq',
+      '(userName eq "a")',
+      'not (userName eq "a")',
+      'userName eq "a" xor active eq true',
+      'userName like "a"',
+    ]) {
+      expect(() => parseScimFilter(filter)).toThrow();
+      try {
+        parseScimFilter(filter);
+      } catch (error) {
+        expect(isApiError("invalidFilter")(error)).toBe(true);
+      }
+    }
+  });
+
+  it("Property: paging through a list returns every match exactly once", () => {
+    fc.assert(
+      fc.property(usersArb, fc.integer({ min: 1, max: 7 }), (users, count) => {
+        const seen: string[] = [];
+        let startIndex = 1;
+        let total = 0;
+
+        for (;;) {
+          const page = buildScimListResponse(users, { startIndex, count });
+          total = page.totalResults;
+          seen.push(...page.Resources.map((user) => user.id));
+          expect(page.itemsPerPage).toBe(page.Resources.length);
+          if (page.Resources.length < count) break;
+          startIndex += count;
+        }
+
+        expect(total).toBe(users.length);
+        expect(seen).toEqual(users.map((user) => user.id));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe("SCIM Patch Properties", () => {
+  it("Property: replace active works with booleans, path-less values and Azure string values", () => {
+    fc.assert(
+      fc.property(userArb, fc.boolean(), fc.constantFrom("path", "value", "azure"), (user, active, shape) => {
+        const operation =
+          shape === "path"
+            ? { op: "replace", path: "active", value: active }
+            : shape === "value"
+              ? { op: "replace", value: { active } }
+              : { op: "Replace", path: "active", value: active ? "True" : "False" };
+
+        const patched = applyScimPatch(user, [operation]);
+        const value = patched.active as unknown;
+
+        expect(value === true || value === "True").toBe(active);
+        expect(patched.userName).toBe(user.userName);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("Property: patching never mutates the original resource", () => {
+    fc.assert(
+      fc.property(userArb, fc.string({ maxLength: 10 }), (user, givenName) => {
+        const snapshot = structuredClone(user);
+        applyScimPatch(user, [
+          { op: "replace", path: "name.givenName", value: givenName },
+          { op: "replace", path: 'emails[type eq "work"].value', value: "x@acme.com" },
+          { op: "remove", path: "active" },
+        ]);
+
+        expect(user).toEqual(snapshot);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("Property: adding and removing group members behaves like set operations", () => {
+    const groupArb: fc.Arbitrary<TestGroup> = fc.record({
+      id: fc.uuid(),
+      displayName: fc.constant("Engineering"),
+      members: fc.uniqueArray(fc.uuid(), { maxLength: 8 }).map((ids) => ids.map((value) => ({ value }))),
+    });
+
+    fc.assert(
+      fc.property(
+        groupArb,
+        fc.uniqueArray(fc.uuid(), { maxLength: 5 }),
+        fc.uniqueArray(fc.uuid(), { maxLength: 5 }),
+        (group, added, removed) => {
+          const current = group.members.map((member) => member.value);
+          const withRemovals = [...removed, ...current.slice(0, 2)];
+
+          const patched = applyScimPatch(group, [
+            { op: "add", path: "members", value: added.map((value) => ({ value })) },
+            ...withRemovals.map((value) => ({ op: "remove", path: `members[value eq "${value}"]` })),
+          ]);
+
+          const expected = new Set([...current, ...added]);
+          withRemovals.forEach((value) => expected.delete(value));
+
+          const result = patched.members.map((member) => member.value);
+          expect(new Set(result)).toEqual(expected);
+          expect(result.length).toBe(expected.size);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it("removes members given as a value list (Azure AD)", () => {
+    const group: TestGroup = {
+      id: "g1",
+      displayName: "Sales",
+      members: [{ value: "u1" }, { value: "u2" }, { value: "u3" }],
+    };
+
+    const patched = applyScimPatch(group, [
+      { op: "Remove", path: "members", value: [{ value: "u1" }, { value: "u3" }] },
+    ]);
+
+    expect(patched.members).toEqual([{ value: "u2" }]);
+  });
+
+  it("updates and creates filtered multi-valued entries", () => {
+    const user = {
+      userName: "jane@acme.com",
+      emails: [{ value: "jane@acme.com", type: "work" }],
+    };
+
+    const patched = applyScimPatch(user, [
+      { op: "replace", path: 'emails[type eq "work"].value', value: "jane.doe@acme.com" },
+      { op: "add", path: 'emails[type eq "home"].value', value: "jane@home.org" },
+    ]);
+
+    expect(patched.emails).toEqual([
+      { value: "jane.doe@acme.com", type: "work" },
+      { value: "jane@home.org", type: "home" },
+    ]);
+  });
+
+  it("rejects unknown operations and remove without a path", () => {
+    expect(() => applyScimPatch({}, [{ op: "move", path: "a" }])).toThrow();
+    expect(() => applyScimPatch({}, [{ op: "remove" }])).toThrow();
+
+    try {
+      applyScimPatch({}, [{ op: "remove" }]);
+    } catch (error) {
+      expect(isApiError("noTarget")(error)).toBe(true);
+    }
+  });
+});
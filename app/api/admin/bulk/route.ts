@@ -4,6 +4,7 @@ import {
   badRequestError,
   notFoundError,
 } from "@/lib/api";
+import { invalidateSearchIndex } from "@/lib/search";
 import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
 
@@ -142,6 +143,8 @@ export const POST = createAdminRoute(async (req) => {
     }
   }
 
+  await invalidateSearchIndex();
+
   return successResponse(result);
 });
 
@@ -0,0 +1,56 @@
+/**
+ * Admin Email Campaign Item API
+ * GET - Campaign with steps, enrollment counts and per-step stats
+ * PATCH - Update the campaign, its steps and/or its status
+ * DELETE - Delete the campaign, its enrollments and pending emails
+ */
+
+import { createAdminRoute, notFoundError, successResponse, validateRequest } from '@/lib/api';
+import { emailCampaignRepository } from '@/lib/db';
+import { emailCampaignUpdateSchema } from '@/lib/validation/schemas';
+
+/**
+ * GET /api/admin/email-campaigns/[id]
+ */
+export const GET = createAdminRoute<{ id: string }>(async (_request, context) => {
+  const { id } = await context.params;
+
+  const campaign = await emailCampaignRepository.findWithSteps(id);
+  if (!campaign) {
+    throw notFoundError('Email campaign');
+  }
+
+  const stats = await emailCampaignRepository.getStats(campaign);
+  return successResponse({ campaign, stats });
+});
+
+/**
+ * PATCH /api/admin/email-campaigns/[id]
+ */
+export const PATCH = createAdminRoute<{ id: string }>(async (request, context) => {
+  const { id } = await context.params;
+
+  const validation = await validateRequest(request, emailCampaignUpdateSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const { status, ...fields } = validation.data;
+  let campaign = await emailCampaignRepository.updateCampaign(id, fields);
+  if (status && status !== campaign.status) {
+    campaign = await emailCampaignRepository.setStatus(id, status);
+  }
+
+  return successResponse({ campaign, message: 'Campaign updated' });
+});
+
+/**
+ * DELETE /api/admin/email-campaigns/[id]
+ */
+export const DELETE = createAdminRoute<{ id: string }>(async (_request, context) => {
+  const { id } = await context.params;
+
+  await emailCampaignRepository.delete(id);
+
+  return successResponse({ message: 'Campaign deleted' });
+});
@@ -0,0 +1,32 @@
+/**
+ * Admin Email Campaigns API
+ * GET - List lifecycle campaigns with their steps
+ * POST - Create a draft campaign
+ */
+
+import { createAdminRoute, successResponse, validateRequest } from '@/lib/api';
+import { emailCampaignRepository } from '@/lib/db';
+import { emailCampaignSchema } from '@/lib/validation/schemas';
+
+/**
+ * GET /api/admin/email-campaigns
+ */
+export const GET = createAdminRoute(async () => {
+  const campaigns = await emailCampaignRepository.listWithSteps();
+  return successResponse({ campaigns });
+});
+
+/**
+ * POST /api/admin/email-campaigns
+ * Campaigns start as drafts; activate them with a PATCH
+ */
+export const POST = createAdminRoute(async (request, _context, { userId }) => {
+  const validation = await validateRequest(request, emailCampaignSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const campaign = await emailCampaignRepository.createCampaign(validation.data, userId);
+
+  return successResponse({ campaign, message: 'Campaign created' }, 201);
+});
@@ -0,0 +1,21 @@
+/**
+ * Admin Email Delivery API
+ * GET /api/admin/email-deliveries/[id] - A sent email with its delivery events
+ */
+
+import { createAdminRoute, notFoundError, successResponse } from '@/lib/api';
+import { emailDeliveryRepository } from '@/lib/db';
+
+/**
+ * GET /api/admin/email-deliveries/[id]
+ */
+export const GET = createAdminRoute<{ id: string }>(async (_request, context) => {
+  const { id } = await context.params;
+
+  const delivery = await emailDeliveryRepository.findWithEvents(id);
+  if (!delivery) {
+    throw notFoundError('Email delivery');
+  }
+
+  return successResponse({ delivery });
+});
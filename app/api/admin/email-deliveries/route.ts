@@ -0,0 +1,33 @@
+/**
+ * Admin Email Deliveries API
+ * GET /api/admin/email-deliveries - Log of sent emails, newest first
+ */
+
+import { createAdminRoute, getPaginationParams, getQueryParam, paginatedResponse } from '@/lib/api';
+import { emailDeliveryRepository } from '@/lib/db';
+import { EMAIL_DELIVERY_STATUSES, type EmailDeliveryStatus } from '@/lib/email/delivery-events';
+
+/**
+ * GET /api/admin/email-deliveries
+ * Query params:
+ * - status: delivery status (default: all)
+ * - template: e.g. password-reset (default: all)
+ * - recipient: exact email address
+ * - page, limit
+ */
+export const GET = createAdminRoute(async (request) => {
+  const { page, limit, offset } = getPaginationParams(request, { limit: 25 });
+  const status = getQueryParam(request, 'status');
+  const template = getQueryParam(request, 'template');
+  const recipient = getQueryParam(request, 'recipient')?.trim();
+
+  const { deliveries, total } = await emailDeliveryRepository.list({
+    status: status && status in EMAIL_DELIVERY_STATUSES ? (status as EmailDeliveryStatus) : undefined,
+    template: template || undefined,
+    recipient: recipient || undefined,
+    limit,
+    offset,
+  });
+
+  return paginatedResponse(deliveries, total, page, limit);
+});
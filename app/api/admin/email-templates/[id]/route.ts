@@ -7,6 +7,8 @@
 
 import { badRequestError, createAdminRoute, successResponse } from "@/lib/api";
 import { emailTemplatesRepository } from "@/lib/db/email-templates";
+import { deliverEmail } from "@/lib/email/delivery";
+import { emailTemplateVariablesSchema } from "@/lib/validation/schemas";
 import { z } from "zod";
 
 const templateUpdateSchema = z.object({
@@ -16,14 +18,7 @@ const templateUpdateSchema = z.object({
   preview_text: z.string().max(200).optional().nullable(),
   html_content: z.string().min(1).optional(),
   text_content: z.string().optional().nullable(),
-  variables: z
-    .array(
-      z.object({
-        name: z.string(),
-        description: z.string(),
-      })
-    )
-    .optional(),
+  variables: emailTemplateVariablesSchema.optional(),
   category: z
     .enum(["transactional", "marketing", "notification", "system"])
     .optional(),
@@ -31,12 +26,12 @@ const templateUpdateSchema = z.object({
 });
 
 const previewSchema = z.object({
-  sample_data: z.record(z.string(), z.string()),
+  sample_data: z.record(z.string(), z.unknown()),
 });
 
 const testEmailSchema = z.object({
   email: z.string().email(),
-  sample_data: z.record(z.string(), z.string()).optional(),
+  sample_data: z.record(z.string(), z.unknown()).optional(),
 });
 
 /**
@@ -94,17 +89,21 @@ export const PATCH = createAdminRoute<{ id: string }>(
         parsed.data.sample_data || {}
       );
 
-      // Send test email using Resend
-      const { Resend } = await import("resend");
-      const resend = new Resend(process.env.RESEND_API_KEY);
-      
-      await resend.emails.send({
-        from: process.env.EMAIL_FROM || "NeuroElemental <noreply@neuroelemental.com>",
-        to: parsed.data.email,
-        subject: `[TEST] ${preview.subject}`,
-        html: preview.html,
-        text: preview.text || undefined,
-      });
+      const result = await deliverEmail(
+        {
+          from:
+            process.env.EMAIL_FROM ||
+            "NeuroElemental <noreply@neuroelemental.com>",
+          to: [parsed.data.email],
+          subject: `[TEST] ${preview.subject}`,
+          html: preview.html,
+          text: preview.text || undefined,
+        },
+        template.slug
+      );
+      if (!result.success) {
+        throw badRequestError(result.error || "Failed to send test email");
+      }
 
       return successResponse({ 
         success: true, 
@@ -6,6 +6,7 @@
 
 import { badRequestError, createAdminRoute, successResponse } from "@/lib/api";
 import { emailTemplatesRepository } from "@/lib/db/email-templates";
+import { emailTemplateVariablesSchema } from "@/lib/validation/schemas";
 import { z } from "zod";
 
 const templateSchema = z.object({
@@ -20,14 +21,7 @@ const templateSchema = z.object({
   preview_text: z.string().max(200).optional(),
   html_content: z.string().min(1),
   text_content: z.string().optional(),
-  variables: z
-    .array(
-      z.object({
-        name: z.string(),
-        description: z.string(),
-      })
-    )
-    .optional(),
+  variables: emailTemplateVariablesSchema.optional(),
   category: z
     .enum(["transactional", "marketing", "notification", "system"])
     .default("transactional"),
@@ -7,6 +7,7 @@
 
 import { badRequestError, createAdminRoute, successResponse } from "@/lib/api";
 import { faqsRepository } from "@/lib/db/faqs";
+import { invalidateSearchIndex } from "@/lib/search";
 import { z } from "zod";
 
 const faqUpdateSchema = z.object({
@@ -49,6 +50,8 @@ export const PATCH = createAdminRoute<{ id: string }>(
 
     const faq = await faqsRepository.update(id, parsed.data);
 
+    await invalidateSearchIndex();
+
     return successResponse({ faq, message: "FAQ updated" });
   }
 );
@@ -63,6 +66,8 @@ export const DELETE = createAdminRoute<{ id: string }>(
 
     await faqsRepository.delete(id);
 
+    await invalidateSearchIndex();
+
     return successResponse({ message: "FAQ deleted" });
   }
 );
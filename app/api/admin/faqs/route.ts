@@ -6,6 +6,7 @@
 
 import { badRequestError, createAdminRoute, successResponse } from "@/lib/api";
 import { faqsRepository } from "@/lib/db/faqs";
+import { invalidateSearchIndex } from "@/lib/search";
 import { z } from "zod";
 
 const faqSchema = z.object({
@@ -43,5 +44,7 @@ export const POST = createAdminRoute(async (request) => {
 
   const faq = await faqsRepository.create(parsed.data);
 
+  await invalidateSearchIndex();
+
   return successResponse({ faq, message: "FAQ created" }, 201);
 });
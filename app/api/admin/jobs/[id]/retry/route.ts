@@ -0,0 +1,22 @@
+/**
+ * Admin Job Retry API
+ * POST /api/admin/jobs/[id]/retry - Run a failed or waiting job again now
+ */
+
+import { conflictError, createAdminRoute, successResponse } from '@/lib/api';
+import { retryJob } from '@/lib/jobs';
+
+/**
+ * POST /api/admin/jobs/[id]/retry
+ * Requeues the job with a fresh set of attempts
+ */
+export const POST = createAdminRoute<{ id: string }>(async (_request, context) => {
+  const { id } = await context.params;
+
+  const job = await retryJob(id);
+  if (!job) {
+    throw conflictError('Only failed or queued jobs can be retried, and not while a copy is queued');
+  }
+
+  return successResponse({ job, message: 'Job queued' });
+});
@@ -0,0 +1,27 @@
+/**
+ * Admin Background Jobs Overview API
+ * GET /api/admin/jobs/overview - Job counts by status and the recurring job schedules
+ */
+
+import { createAdminRoute, successResponse } from '@/lib/api';
+import { jobRepository } from '@/lib/db';
+import { JOB_TYPES, RECURRING_JOBS } from '@/lib/jobs';
+
+/**
+ * GET /api/admin/jobs/overview
+ */
+export const GET = createAdminRoute(async () => {
+  const [counts, schedules] = await Promise.all([jobRepository.countByStatus(), jobRepository.getSchedules()]);
+  const schedulesByName = new Map(schedules.map((schedule) => [schedule.name, schedule]));
+
+  const recurring = RECURRING_JOBS.map((job) => ({
+    name: job.name,
+    type: job.type,
+    description: JOB_TYPES[job.type],
+    cron: job.cron,
+    last_enqueued_at: schedulesByName.get(job.name)?.last_enqueued_at ?? null,
+    next_run_at: schedulesByName.get(job.name)?.next_run_at ?? null,
+  }));
+
+  return successResponse({ counts, recurring });
+});
@@ -0,0 +1,30 @@
+/**
+ * Admin Recurring Job API
+ * POST /api/admin/jobs/recurring/[name] - Enqueue a recurring job now, outside its schedule
+ */
+
+import { conflictError, createAdminRoute, notFoundError, successResponse } from '@/lib/api';
+import { enqueueJob, RECURRING_JOBS } from '@/lib/jobs';
+
+/**
+ * POST /api/admin/jobs/recurring/[name]
+ */
+export const POST = createAdminRoute<{ name: string }>(async (_request, context, admin) => {
+  const { name } = await context.params;
+
+  const recurring = RECURRING_JOBS.find((job) => job.name === name);
+  if (!recurring) {
+    throw notFoundError('Recurring job');
+  }
+
+  const job = await enqueueJob(recurring.type, recurring.payload, {
+    dedupeKey: `recurring:${recurring.name}`,
+    recurringName: recurring.name,
+    createdBy: admin.userId,
+  });
+  if (!job) {
+    throw conflictError('This job is already queued or running');
+  }
+
+  return successResponse({ job, message: 'Job queued' }, 201);
+});
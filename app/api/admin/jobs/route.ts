@@ -0,0 +1,30 @@
+/**
+ * Admin Background Jobs API
+ * GET /api/admin/jobs - Jobs in the queue, newest first
+ */
+
+import { createAdminRoute, getPaginationParams, getQueryParam, paginatedResponse } from '@/lib/api';
+import { jobRepository } from '@/lib/db';
+import { JOB_STATUSES, type JobStatus } from '@/lib/jobs';
+
+/**
+ * GET /api/admin/jobs
+ * Query params:
+ * - status: queued, running, succeeded or dead (default: all)
+ * - type: job type, e.g. webhooks.retry (default: all)
+ * - page, limit
+ */
+export const GET = createAdminRoute(async (request) => {
+  const { page, limit, offset } = getPaginationParams(request, { limit: 25 });
+  const status = getQueryParam(request, 'status');
+  const type = getQueryParam(request, 'type');
+
+  const { jobs, total } = await jobRepository.list({
+    status: status && status in JOB_STATUSES ? (status as JobStatus) : undefined,
+    type: type || undefined,
+    limit,
+    offset,
+  });
+
+  return paginatedResponse(jobs, total, page, limit);
+});
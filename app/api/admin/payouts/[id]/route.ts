@@ -0,0 +1,52 @@
+/**
+ * Admin Payout Statement API
+ * GET /api/admin/payouts/[id] - Statement with its ledger entries
+ * PATCH /api/admin/payouts/[id] - Approve, reject or mark a statement as paid
+ */
+
+import {
+  createAdminRoute,
+  notFoundError,
+  successResponse,
+  validateRequest,
+} from '@/lib/api';
+import { instructorEarningsRepository, instructorPayoutStatementRepository } from '@/lib/db';
+import { reviewPayoutStatement } from '@/lib/earnings';
+import { payoutReviewSchema } from '@/lib/validation/schemas';
+
+/**
+ * GET /api/admin/payouts/[id]
+ */
+export const GET = createAdminRoute<{ id: string }>(async (_request, context) => {
+  const { id } = await context.params;
+
+  const statement = await instructorPayoutStatementRepository.findWithInstructor(id);
+  if (!statement) {
+    throw notFoundError('Payout statement');
+  }
+
+  const entries = await instructorEarningsRepository.getByStatement(id);
+
+  return successResponse({ statement, entries });
+});
+
+/**
+ * PATCH /api/admin/payouts/[id]
+ */
+export const PATCH = createAdminRoute<{ id: string }>(async (request, context, admin) => {
+  const { id } = await context.params;
+
+  const validation = await validateRequest(request, payoutReviewSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const statement = await reviewPayoutStatement(
+    id,
+    validation.data.action,
+    admin.userId,
+    validation.data.notes
+  );
+
+  return successResponse({ statement });
+});
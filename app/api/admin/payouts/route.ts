@@ -0,0 +1,36 @@
+/**
+ * Admin Payouts API
+ * GET /api/admin/payouts - Instructor payout statements for approval
+ * POST /api/admin/payouts - Sync the earnings ledger and generate statements for closed months
+ */
+
+import { createAdminRoute, getQueryParam, successResponse } from '@/lib/api';
+import { instructorPayoutStatementRepository } from '@/lib/db';
+import { generatePayoutStatements, getRevenueShareSettings, type PayoutStatementStatus } from '@/lib/earnings';
+
+const STATUSES: PayoutStatementStatus[] = ['pending', 'approved', 'rejected', 'paid'];
+
+/**
+ * GET /api/admin/payouts
+ * Query params:
+ * - status: 'pending' | 'approved' | 'rejected' | 'paid' (default: all)
+ */
+export const GET = createAdminRoute(async (request) => {
+  const status = getQueryParam(request, 'status') as PayoutStatementStatus | null;
+
+  const [statements, settings] = await Promise.all([
+    instructorPayoutStatementRepository.list(status && STATUSES.includes(status) ? status : undefined),
+    getRevenueShareSettings(),
+  ]);
+
+  return successResponse({ statements, settings });
+});
+
+/**
+ * POST /api/admin/payouts
+ */
+export const POST = createAdminRoute(async () => {
+  const statements = await generatePayoutStatements();
+
+  return successResponse({ statements, created: statements.length }, 201);
+});
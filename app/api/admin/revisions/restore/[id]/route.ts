@@ -5,6 +5,7 @@
 
 import { createAdminRoute, successResponse } from "@/lib/api";
 import { restoreRevision } from "@/lib/db/content-revisions";
+import { invalidateSearchIndex } from "@/lib/search";
 
 /**
  * POST /api/admin/revisions/restore/[id]
@@ -16,6 +17,8 @@ export const POST = createAdminRoute<{ id: string }>(
 
     const result = await restoreRevision(id, userId);
 
+    await invalidateSearchIndex();
+
     return successResponse({
       success: true,
       entityType: result.entityType,
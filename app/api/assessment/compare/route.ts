@@ -0,0 +1,75 @@
+/**
+ * Assessment Comparison API
+ * GET - Compare the user's assessments over time
+ *
+ * Query parameters:
+ * - ids: comma-separated assessment IDs to compare (2-10)
+ * - limit: otherwise, compare the most recent N assessments (default: 10)
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  getArrayParam,
+  getIntParam,
+  notFoundError,
+  successResponse,
+} from '@/lib/api';
+import {
+  buildAssessmentTimeline,
+  getStoredAssessmentResult,
+  type AssessmentSnapshot,
+} from '@/lib/content/assessment-comparison';
+import { assessmentRepository } from '@/lib/db/assessments';
+import { assessmentCompareIdsSchema } from '@/lib/validation/schemas';
+
+/** Most assessments that can be compared at once */
+const MAX_COMPARED = 10;
+
+export const GET = createAuthenticatedRoute(async (request, _context, user) => {
+  const ids = getArrayParam(request, 'ids');
+  const limit = getIntParam(request, 'limit', { defaultValue: MAX_COMPARED, min: 2, max: MAX_COMPARED }) ?? MAX_COMPARED;
+
+  if (ids.length === 1 || ids.length > MAX_COMPARED) {
+    throw badRequestError(`Between 2 and ${MAX_COMPARED} assessment ids are required`);
+  }
+  if (!assessmentCompareIdsSchema.safeParse(ids).success) {
+    throw badRequestError('Assessment ids must be UUIDs');
+  }
+
+  const assessments =
+    ids.length > 0
+      ? await assessmentRepository.getUserAssessmentsByIds(user.id, ids)
+      : await assessmentRepository.getUserHistory(user.id, limit);
+
+  if (ids.length > 0 && assessments.length !== new Set(ids).size) {
+    throw notFoundError('Assessment');
+  }
+
+  // Older rows without stored answers can't be re-scored and are skipped
+  const snapshots: AssessmentSnapshot[] = [];
+  assessments.forEach((assessment) => {
+    const result = getStoredAssessmentResult(assessment.answers, assessment.version);
+    if (result) {
+      snapshots.push({ id: assessment.id, completedAt: assessment.completed_at, result });
+    }
+  });
+
+  const timeline = buildAssessmentTimeline(snapshots);
+
+  return successResponse({
+    assessments: timeline.snapshots.map(({ id, completedAt, result }) => ({
+      id,
+      completedAt,
+      scores: Object.fromEntries(
+        Object.entries(result.scores).map(([element, score]) => [element, score.percentage])
+      ),
+      topElements: result.topElements,
+      blendType: result.patterns.blendType,
+      energyStyle: result.patterns.energyStyle,
+    })),
+    overall: timeline.overall,
+    steps: timeline.steps,
+    drift: timeline.drift,
+  });
+});
@@ -1,4 +1,5 @@
 import { createPublicRoute, successResponse, validateRequest } from '@/lib/api';
+import { getAdaptiveAssessmentState } from '@/lib/content/adaptive-assessment';
 import { scheduledEmailRepository } from '@/lib/db/scheduled-emails';
 import { logger } from '@/lib/logging';
 import { z } from 'zod';
@@ -6,11 +7,15 @@ import { z } from 'zod';
 const saveProgressSchema = z.object({
   email: z.string().email('Invalid email address'),
   answers: z.record(z.string(), z.number()).optional(),
+  mode: z.enum(['full', 'adaptive']).optional().default('full'),
 });
 
 /**
  * POST /api/assessment/save-progress
  * Save assessment progress with email for later completion
+ *
+ * Adaptive sessions also get their next question back, so a resumed session
+ * carries on where it stopped.
  */
 export const POST = createPublicRoute(async (req) => {
   const validation = await validateRequest(req, saveProgressSchema);
@@ -18,21 +23,38 @@ export const POST = createPublicRoute(async (req) => {
     throw validation.error;
   }
 
-  const { email, answers } = validation.data;
+  const { email, answers, mode } = validation.data;
+
+  const adaptive =
+    mode === 'adaptive'
+      ? getAdaptiveAssessmentState(
+          Object.fromEntries(
+            Object.entries(answers || {}).map(([id, value]) => [Number(id), value])
+          )
+        )
+      : null;
 
   // Schedule reminder email using repository
   await scheduledEmailRepository.scheduleEmail({
     to: email,
     type: 'assessment_reminder',
-    props: { answers: answers || {}, progress: Object.keys(answers || {}).length },
+    props: { answers: answers || {}, progress: Object.keys(answers || {}).length, mode },
     scheduled_for: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(), // 2 hours from now
     status: 'pending',
   });
 
-  logger.info('Assessment progress saved', { email, questionCount: Object.keys(answers || {}).length });
+  logger.info('Assessment progress saved', { email, questionCount: Object.keys(answers || {}).length, mode });
 
   return successResponse({
     message: 'Progress saved successfully',
     email,
+    ...(adaptive && {
+      adaptive: {
+        nextQuestionId: adaptive.nextQuestion?.id ?? null,
+        isComplete: adaptive.isComplete,
+        answeredCount: adaptive.answeredCount,
+        maxRemaining: adaptive.maxRemaining,
+      },
+    }),
   });
 });
@@ -1,45 +1,74 @@
 import {
   badRequestError,
   createOptionalAuthRoute,
+  getClientIP,
+  rateLimitError,
   successResponse,
   validateRequest,
 } from "@/lib/api";
+import {
+  calculateAdaptiveAssessmentResult,
+  getAdaptiveAssessmentState,
+  type AdaptiveAssessmentResult,
+} from "@/lib/content/adaptive-assessment";
 import {
   calculateAssessmentResult,
   validateAnswers,
+  type AssessmentResult,
 } from "@/lib/content/assessment-questions";
 import { getSupabaseServer } from "@/lib/db";
 import { checkAssessmentAchievement } from "@/lib/gamification/achievement-service";
 import { logger } from "@/lib/logging";
-import { rateLimit } from "@/lib/rate-limit";
+import { recordAssessmentCompletion } from "@/lib/organizations/assignment-tracking";
+import {
+  getRateLimitHeaders,
+  getViolationContext,
+  rateLimiter,
+  type RateLimitRule,
+} from "@/lib/rate-limit";
 import { getCurrentTimestamp } from "@/lib/utils";
 import { z } from "zod";
 
 /**
  * Validation schema for assessment submission
- * Supports both old 30-question format and new 36-question format
+ * Supports both old 30-question format and new 36-question format, plus
+ * adaptive sessions (which are checked for completeness separately)
  */
-const assessmentSubmitSchema = z.object({
-  answers: z
-    .record(z.string().regex(/^\d+$/), z.number().int().min(1).max(5))
-    .refine(
-      (answers) => {
-        const keys = Object.keys(answers).map(Number);
-        // Must have at least 30 questions answered (backwards compatibility)
-        return keys.length >= 30;
-      },
-      { message: `At least 30 questions must be answered` }
+const assessmentSubmitSchema = z
+  .object({
+    answers: z.record(
+      z.string().regex(/^\d+$/),
+      z.number().int().min(1).max(5)
     ),
-});
+    mode: z.enum(["full", "adaptive"]).optional().default("full"),
+  })
+  .refine(
+    ({ answers, mode }) =>
+      // Must have at least 30 questions answered (backwards compatibility)
+      mode === "adaptive" || Object.keys(answers).length >= 30,
+    { message: `At least 30 questions must be answered`, path: ["answers"] }
+  );
+
+/** Submissions allowed per client IP */
+const SUBMIT_RATE_LIMIT: RateLimitRule = {
+  name: "per_minute",
+  limit: 20,
+  windowMs: 60 * 1000,
+};
 
 export const POST = createOptionalAuthRoute(async (request, _context, user) => {
-  const ip = request.headers.get("x-forwarded-for") || "unknown";
-  const { success } = rateLimit(ip, { limit: 20, windowMs: 60 * 1000 });
-
-  if (!success) {
+  const ip = getClientIP(request) || "unknown";
+  const rateLimit = await rateLimiter.check(
+    `ip:${ip}:assessment-submit`,
+    [SUBMIT_RATE_LIMIT],
+    { violation: getViolationContext(request, "ip", { userId: user?.id }) }
+  );
+
+  if (!rateLimit.allowed) {
     logger.warn("Assessment rate limit hit", { ip });
-    throw badRequestError(
-      "Too many requests. Please wait a minute and try again."
+    throw rateLimitError(
+      "Too many requests. Please wait a minute and try again.",
+      getRateLimitHeaders(rateLimit)
     );
   }
 
@@ -49,7 +78,7 @@ export const POST = createOptionalAuthRoute(async (request, _context, user) => {
     throw validation.error;
   }
 
-  const { answers: rawAnswers } = validation.data;
+  const { answers: rawAnswers, mode } = validation.data;
 
   // Convert string keys to numbers
   const answers: Record<number, number> = {};
@@ -57,22 +86,44 @@ export const POST = createOptionalAuthRoute(async (request, _context, user) => {
     answers[parseInt(key)] = value;
   });
 
-  // Validate answers
-  const answerValidation = validateAnswers(answers);
+  const isAdaptive = mode === "adaptive";
+  let result: AssessmentResult;
+  let adaptive: AdaptiveAssessmentResult["adaptive"] | undefined;
 
-  // For backwards compatibility, allow 30-question submissions
-  // but use the new system for 36-question submissions
-  const isNewFormat = Object.keys(answers).some((k) => parseInt(k) > 30);
-
-  if (isNewFormat && !answerValidation.valid) {
-    logger.warn("Invalid assessment submission", {
-      missingQuestions: answerValidation.missingQuestions,
-      invalidAnswers: answerValidation.invalidAnswers,
-    });
+  if (isAdaptive) {
+    // Adaptive sessions decide their own length; only accept finished ones
+    const state = getAdaptiveAssessmentState(answers);
+    if (!state.isComplete) {
+      throw badRequestError("Adaptive assessment is not complete", {
+        nextQuestionId: state.nextQuestion?.id,
+      });
+    }
+
+    const adaptiveResult = calculateAdaptiveAssessmentResult(answers);
+    result = adaptiveResult;
+    adaptive = adaptiveResult.adaptive;
+  } else {
+    // Validate answers
+    const answerValidation = validateAnswers(answers);
+
+    if (
+      Object.keys(answers).some((k) => parseInt(k) > 30) &&
+      !answerValidation.valid
+    ) {
+      logger.warn("Invalid assessment submission", {
+        missingQuestions: answerValidation.missingQuestions,
+        invalidAnswers: answerValidation.invalidAnswers,
+      });
+    }
+
+    // Calculate comprehensive result
+    result = calculateAssessmentResult(answers);
   }
 
-  // Calculate comprehensive result
-  const result = calculateAssessmentResult(answers);
+  // For backwards compatibility, allow 30-question submissions
+  // but use the new system for 36-question and adaptive submissions
+  const isNewFormat =
+    isAdaptive || Object.keys(answers).some((k) => parseInt(k) > 30);
 
   // Extract percentage scores for backwards compatibility
   const percentageScores: Record<string, number> = {};
@@ -88,7 +139,7 @@ export const POST = createOptionalAuthRoute(async (request, _context, user) => {
       user_id: user.id,
       scores: percentageScores,
       answers: answers,
-      version: isNewFormat ? "2.0" : "1.0",
+      version: isAdaptive ? "2.0-adaptive" : isNewFormat ? "2.0" : "1.0",
       completed_at: getCurrentTimestamp(),
       // Extended data for v2
       ...(isNewFormat && {
@@ -110,6 +161,11 @@ export const POST = createOptionalAuthRoute(async (request, _context, user) => {
       checkAssessmentAchievement(user.id).catch((err) => {
         logger.error("Error checking assessment achievement:", err as Error);
       });
+
+      // Complete any organization assessment assignments (async, don't block response)
+      recordAssessmentCompletion(user.id, assessmentData.completed_at).catch((err) => {
+        logger.error("Error recording assignment completion:", err as Error);
+      });
     }
   }
 
@@ -126,6 +182,7 @@ export const POST = createOptionalAuthRoute(async (request, _context, user) => {
       patterns: result.patterns,
       validity: result.validity,
       shadowIndicators: result.shadowIndicators,
+      ...(adaptive && { adaptive }),
     },
     // Shortcuts for easy access
     patterns: result.patterns,
@@ -2,6 +2,7 @@ import { badRequestError, createAuthenticatedRoute, forbiddenError, internalErro
 import { getSupabaseServer } from '@/lib/db';
 import { logger } from '@/lib/logging';
 import { getUserRole } from '@/lib/middleware';
+import { sendNotification } from '@/lib/notifications/dispatcher';
 import { getCompletionTimestamp, getCurrentTimestamp } from '@/lib/utils';
 import { assignmentGradeSchema } from '@/lib/validation/schemas';
 
@@ -43,15 +44,6 @@ interface LessonCompletionUpsert {
   completed_at: string;
 }
 
-/** Notification insert data */
-interface NotificationInsert {
-  user_id: string;
-  title: string;
-  message: string;
-  type: string;
-  action_url: string;
-}
-
 export const POST = createAuthenticatedRoute<{ submissionId: string }>(async (request, context, user) => {
   const { submissionId } = await context.params;
   const supabase = await getSupabaseServer();
@@ -132,17 +124,11 @@ export const POST = createAuthenticatedRoute<{ submissionId: string }>(async (re
       .upsert(completionData);
   }
 
-  // Create notification for student
-  const notificationData: NotificationInsert = {
-    user_id: submission.user_id,
+  await sendNotification(submission.user_id, 'assignment_graded', {
     title: 'Assignment Graded',
     message: `Your assignment has been graded. Score: ${score}/${maxScore}`,
-    type: 'info',
-    action_url: `/assignments/${submission.assignment_id}`,
-  };
-  await (supabase as any)
-    .from('notifications')
-    .insert(notificationData);
+    actionUrl: `/assignments/${submission.assignment_id}`,
+  });
 
   return successResponse({
     submission: gradedSubmission,
@@ -1,5 +1,6 @@
 import { createAdminRoute, successResponse, validateRequest } from '@/lib/api';
 import { blogRepository } from '@/lib/db';
+import { invalidateSearchIndex } from '@/lib/search';
 import { blogPostPublishSchema } from '@/lib/validation/schemas';
 
 export const PATCH = createAdminRoute<{ id: string }>(async (request, context) => {
@@ -13,5 +14,7 @@ export const PATCH = createAdminRoute<{ id: string }>(async (request, context) =
 
   const data = await blogRepository.toggleBlogPostPublish(id, validation.data.is_published);
 
+  await invalidateSearchIndex();
+
   return successResponse(data);
 });
@@ -1,6 +1,7 @@
 import { createAdminRoute, createPublicRoute, successResponse, validateRequest } from '@/lib/api';
 import { blogRepository } from '@/lib/db';
 import { createRevision, compareRevisions } from '@/lib/db/content-revisions';
+import { invalidateSearchIndex } from '@/lib/search';
 import { blogPostUpdateSchema } from '@/lib/validation/schemas';
 import { logger } from '@/lib/logging';
 
@@ -41,6 +42,8 @@ export const PATCH = createAdminRoute<{ id: string }>(async (request, context, a
     }
   }
 
+  await invalidateSearchIndex();
+
   return successResponse(data);
 });
 
@@ -49,5 +52,7 @@ export const DELETE = createAdminRoute<{ id: string }>(async (_request, context,
 
   await blogRepository.delete(id);
 
+  await invalidateSearchIndex();
+
   return successResponse({ success: true, message: 'Blog post deleted successfully' });
 });
@@ -1,5 +1,6 @@
 import { createAdminRoute, createPublicRoute, successResponse, validateRequest } from '@/lib/api';
 import { blogRepository } from '@/lib/db';
+import { invalidateSearchIndex } from '@/lib/search';
 import { blogPostCreateSchema } from '@/lib/validation/schemas';
 
 /**
@@ -47,5 +48,7 @@ export const POST = createAdminRoute(async (request, _context, { userId }) => {
     author_id: userId,
   });
 
+  await invalidateSearchIndex();
+
   return successResponse(data, 201);
 });
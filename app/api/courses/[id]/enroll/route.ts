@@ -1,6 +1,8 @@
 import { badRequestError, conflictError, createAuthenticatedRoute, internalError, notFoundError, successResponse, validateRequest } from '@/lib/api';
+import { requireCoursePrerequisites } from '@/lib/courses';
 import { getSupabaseServer } from '@/lib/db';
 import { logger } from '@/lib/logging';
+import { sendNotification } from '@/lib/notifications/dispatcher';
 import { getCurrentTimestamp } from '@/lib/utils';
 import { courseEnrollmentRequestSchema } from '@/lib/validation/schemas';
 
@@ -61,6 +63,9 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     }
   }
 
+  // Courses that must be completed first
+  await requireCoursePrerequisites(user.id, params.id);
+
   // Validate request body
   const validation = await validateRequest(request, courseEnrollmentRequestSchema);
   if (!validation.success) {
@@ -121,16 +126,11 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     }
   }
 
-  // Create a notification for the user
-  await (supabase as any)
-    .from('notifications')
-    .insert({
-      user_id: user.id,
-      title: 'Course Enrollment Successful',
-      message: `You have successfully enrolled in ${course.title}`,
-      type: 'success',
-      action_url: `/courses/${params.id}/modules`,
-    });
+  await sendNotification(user.id, 'course_enrollment', {
+    title: 'Course Enrollment Successful',
+    message: `You have successfully enrolled in ${course.title}`,
+    actionUrl: `/courses/${params.id}/modules`,
+  });
 
   // Update course enrollment count
   await (supabase as any)
@@ -1,6 +1,8 @@
-import { badRequestError, createAuthenticatedRoute, createPublicRoute, forbiddenError, successResponse, validateRequest } from '@/lib/api';
+import { badRequestError, createAuthenticatedRoute, createOptionalAuthRoute, forbiddenError, successResponse, validateRequest } from '@/lib/api';
+import { getCourseAccess } from '@/lib/courses';
 import { getSupabaseServer } from '@/lib/db';
 import { getUserRole } from '@/lib/middleware';
+import { invalidateSearchIndex } from '@/lib/search';
 import { lessonCreateSchema } from '@/lib/validation/schemas';
 
 /** Course lesson record */
@@ -27,47 +29,36 @@ interface LessonInsert {
   duration_minutes?: number;
   order_index: number;
   is_preview?: boolean;
+  release_offset_days?: number | null;
+  release_at?: string | null;
 }
 
-export const GET = createPublicRoute<{ id: string }>(async (request, context) => {
+/**
+ * GET /api/courses/[id]/lessons
+ * List a course's lessons with the current user's access. Locked lessons
+ * come without their content, with the reasons and any unlock date.
+ */
+export const GET = createOptionalAuthRoute<{ id: string }>(async (_request, context, user) => {
   const params = await context.params;
-  const supabase = await getSupabaseServer();
-
-  // Get course modules first
-  const { data: modules, error: modulesError } = await (supabase as any)
-    .from('course_modules')
-    .select('id')
-    .eq('course_id', params.id) as { data: Array<{ id: string }> | null; error: { message: string } | null };
-
-  if (modulesError) {
-    throw badRequestError(modulesError.message);
-  }
-
-  const moduleIds = modules?.map((m: { id: string }) => m.id) || [];
-
-  if (moduleIds.length === 0) {
-    return successResponse({ lessons: [] });
-  }
 
-  // Get lessons for all modules in this course
-  const { data: lessons, error } = await supabase
-    .from('course_lessons')
-    .select('*')
-    .in('module_id', moduleIds)
-    .order('order_index', { ascending: true }) as { data: LessonRecord[] | null; error: { message: string } | null };
+  const { structure, access, progress } = await getCourseAccess(params.id, user?.id ?? null);
 
-  if (error) {
-    throw badRequestError(error.message);
-  }
+  const lessons = structure.lessons.map((lesson) => {
+    const lessonAccess = access.lessons.get(lesson.id);
+    const hasAccess = lessonAccess?.hasAccess ?? false;
 
-  // Mark preview lessons
-  const lessonsWithAccess = lessons?.map((lesson) => ({
-    ...lesson,
-    hasAccess: lesson.is_preview, // Public can see which are preview
-    isCompleted: false, // No completion status without auth
-  }));
+    return {
+      ...lesson,
+      content_text: hasAccess ? lesson.content_text : null,
+      content_url: hasAccess ? lesson.content_url : null,
+      hasAccess,
+      isCompleted: progress.completedLessonIds.has(lesson.id),
+      unlockAt: lessonAccess?.unlockAt ?? null,
+      lockReasons: lessonAccess?.lockReasons ?? [],
+    };
+  });
 
-  return successResponse({ lessons: lessonsWithAccess });
+  return successResponse({ lessons });
 });
 
 export const POST = createAuthenticatedRoute<{ id: string }>(async (request, context, _user) => {
@@ -86,7 +77,7 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     throw validation.error;
   }
 
-  const { title, content_text, video_url, duration_minutes, order_index, is_preview, content_type } = validation.data;
+  const { title, content_text, video_url, duration_minutes, order_index, is_preview, content_type, release_offset_days, release_at } = validation.data;
 
   // module_id is required but not in the schema - get from request body
   const body = await request.clone().json();
@@ -105,6 +96,8 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     duration_minutes,
     order_index,
     is_preview,
+    release_offset_days,
+    release_at,
   };
 
   const { data, error } = await (supabase as any)
@@ -117,5 +110,7 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     throw badRequestError(error.message);
   }
 
+  await invalidateSearchIndex();
+
   return successResponse({ lesson: data }, 201);
 });
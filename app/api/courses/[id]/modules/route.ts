@@ -1,29 +1,49 @@
-import { createAuthenticatedRoute, createPublicRoute, forbiddenError, successResponse, validateRequest } from '@/lib/api';
+import { createAuthenticatedRoute, createOptionalAuthRoute, forbiddenError, successResponse, validateRequest } from '@/lib/api';
+import { getCourseAccess } from '@/lib/courses';
 import { moduleRepository } from '@/lib/db/modules';
 import { getUserRole } from '@/lib/middleware';
 import { moduleCreateSchema } from '@/lib/validation/schemas';
 
-export const GET = createPublicRoute<{ id: string }>(async (_request, context) => {
+/**
+ * GET /api/courses/[id]/modules
+ * Get a course's modules and lessons with the current user's progress and
+ * access. Locked lessons come without their content.
+ */
+export const GET = createOptionalAuthRoute<{ id: string }>(async (_request, context, user) => {
   const params = await context.params;
 
-  // Get course modules with nested lessons using repository
-  const modules = await moduleRepository.getWithLessons(params.id);
+  const { structure, access, progress } = await getCourseAccess(params.id, user?.id ?? null);
 
-  // Enrich with computed fields
-  const enrichedModules = modules.map((module) => {
-    const sortedLessons = module.lessons.map((lesson, index) => ({
-      ...lesson,
-      completed: false,
-      locked: !lesson.is_preview && index > 0, // Lock non-preview lessons except first one
-    }));
+  const enrichedModules = structure.modules.map((module) => {
+    const moduleAccess = access.modules.get(module.id);
+    const lessons = structure.lessons
+      .filter((lesson) => lesson.module_id === module.id)
+      .map((lesson) => {
+        const lessonAccess = access.lessons.get(lesson.id);
+        const locked = !lessonAccess?.hasAccess;
 
-    const total_duration = sortedLessons.reduce((acc, l) => acc + (l.duration_minutes || 0), 0);
+        return {
+          ...lesson,
+          content_text: locked ? null : lesson.content_text,
+          content_url: locked ? null : lesson.content_url,
+          completed: progress.completedLessonIds.has(lesson.id),
+          locked,
+          unlock_at: lessonAccess?.unlockAt ?? null,
+          lock_reasons: lessonAccess?.lockReasons ?? [],
+        };
+      });
+
+    const total_duration = lessons.reduce((acc, l) => acc + (l.duration_minutes || 0), 0);
+    const completedCount = lessons.filter((lesson) => lesson.completed).length;
 
     return {
       ...module,
-      lessons: sortedLessons,
+      lessons,
       total_duration,
-      completion_percentage: 0, // No completion for public
+      completion_percentage: lessons.length > 0 ? Math.round((completedCount / lessons.length) * 100) : 0,
+      locked: !(moduleAccess?.hasAccess ?? true),
+      unlock_at: moduleAccess?.unlockAt ?? null,
+      lock_reasons: moduleAccess?.lockReasons ?? [],
     };
   });
 
@@ -45,7 +65,7 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     throw validation.error;
   }
 
-  const { title, description, order_index } = validation.data;
+  const { title, description, order_index, release_offset_days, release_at } = validation.data;
 
   // Create module using repository
   const module = await moduleRepository.createModule({
@@ -53,6 +73,8 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     title,
     description,
     order_index,
+    release_offset_days,
+    release_at,
   });
 
   return successResponse({ module }, 201);
@@ -0,0 +1,26 @@
+/**
+ * Content Prerequisite API
+ * DELETE - Remove a module or lesson prerequisite (instructor/admin only)
+ */
+
+import { createAuthenticatedRoute, successResponse } from "@/lib/api";
+import { requireCourseStaff } from "@/lib/courses";
+import { contentPrerequisiteRepository } from "@/lib/db/content-prerequisites";
+
+type PrerequisiteParams = { id: string; prerequisiteId: string };
+
+/**
+ * DELETE /api/courses/[id]/prerequisites/content/[prerequisiteId]
+ * Remove a prerequisite from a module or lesson
+ */
+export const DELETE = createAuthenticatedRoute<PrerequisiteParams>(
+  async (_request, context, user) => {
+    const { id: courseId, prerequisiteId } = await context.params;
+
+    await requireCourseStaff(user.id, courseId);
+
+    await contentPrerequisiteRepository.removePrerequisite(courseId, prerequisiteId);
+
+    return successResponse({ deleted: true });
+  }
+);
@@ -0,0 +1,74 @@
+/**
+ * Content Prerequisites API
+ * POST - Require a lesson, module or quiz score before a module or lesson unlocks
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  successResponse,
+  validateRequest,
+} from "@/lib/api";
+import {
+  createsPrerequisiteCycle,
+  loadCourseStructure,
+  requireCourseStaff,
+  type CourseStructure,
+  type PrerequisiteRequirementType,
+} from "@/lib/courses";
+import { contentPrerequisiteRepository } from "@/lib/db/content-prerequisites";
+import { contentPrerequisiteCreateSchema } from "@/lib/validation/schemas";
+
+/**
+ * Whether a module, lesson or quiz ID belongs to the course
+ */
+function belongsToCourse(
+  structure: CourseStructure,
+  type: "module" | "lesson" | PrerequisiteRequirementType,
+  id: string
+): boolean {
+  switch (type) {
+    case "module":
+    case "module_complete":
+      return structure.modules.some((module) => module.id === id);
+    case "lesson":
+    case "lesson_complete":
+      return structure.lessons.some((lesson) => lesson.id === id);
+    case "quiz_pass":
+      return structure.quizzes.some((quiz) => quiz.id === id);
+  }
+}
+
+/**
+ * POST /api/courses/[id]/prerequisites/content
+ * Add a prerequisite to a module or lesson of the course
+ */
+export const POST = createAuthenticatedRoute<{ id: string }>(
+  async (request, context, user) => {
+    const { id: courseId } = await context.params;
+
+    await requireCourseStaff(user.id, courseId);
+
+    const validation = await validateRequest(request, contentPrerequisiteCreateSchema);
+    if (!validation.success) {
+      throw validation.error;
+    }
+
+    const prerequisite = validation.data;
+    const structure = await loadCourseStructure(courseId);
+
+    if (!belongsToCourse(structure, prerequisite.target_type, prerequisite.target_id)) {
+      throw badRequestError(`The ${prerequisite.target_type} is not part of this course`);
+    }
+    if (!belongsToCourse(structure, prerequisite.requirement_type, prerequisite.requirement_id)) {
+      throw badRequestError("The required lesson, module or quiz is not part of this course");
+    }
+    if (createsPrerequisiteCycle(structure, prerequisite)) {
+      throw badRequestError("This prerequisite would make the content impossible to unlock");
+    }
+
+    const created = await contentPrerequisiteRepository.addPrerequisite(courseId, prerequisite);
+
+    return successResponse({ prerequisite: created }, 201);
+  }
+);
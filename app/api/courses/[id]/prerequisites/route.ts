@@ -0,0 +1,67 @@
+/**
+ * Course Prerequisites API
+ * GET - Courses required before enrolling, and the course's content prerequisites
+ * PUT - Replace the courses required before enrolling (instructor/admin only)
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  createPublicRoute,
+  successResponse,
+  validateRequest,
+} from "@/lib/api";
+import { createsCoursePrerequisiteCycle, requireCourseStaff } from "@/lib/courses";
+import { contentPrerequisiteRepository } from "@/lib/db/content-prerequisites";
+import { coursePrerequisiteRepository } from "@/lib/db/course-prerequisites";
+import { coursePrerequisitesUpdateSchema } from "@/lib/validation/schemas";
+
+/**
+ * GET /api/courses/[id]/prerequisites
+ * Get the courses to complete before enrolling and the rules that gate
+ * modules and lessons
+ */
+export const GET = createPublicRoute<{ id: string }>(
+  async (_request, context) => {
+    const { id: courseId } = await context.params;
+
+    const [requiredCourses, contentPrerequisites] = await Promise.all([
+      coursePrerequisiteRepository.getRequiredCourses(courseId),
+      contentPrerequisiteRepository.getByCourse(courseId),
+    ]);
+
+    return successResponse({
+      required_courses: requiredCourses,
+      content_prerequisites: contentPrerequisites,
+    });
+  }
+);
+
+/**
+ * PUT /api/courses/[id]/prerequisites
+ * Replace the courses a student must complete before enrolling
+ */
+export const PUT = createAuthenticatedRoute<{ id: string }>(
+  async (request, context, user) => {
+    const { id: courseId } = await context.params;
+
+    await requireCourseStaff(user.id, courseId);
+
+    const validation = await validateRequest(request, coursePrerequisitesUpdateSchema);
+    if (!validation.success) {
+      throw validation.error;
+    }
+
+    const requiredCourseIds = [...new Set(validation.data.required_course_ids)];
+
+    const edges = await coursePrerequisiteRepository.getAllEdges();
+    if (createsCoursePrerequisiteCycle(edges, courseId, requiredCourseIds)) {
+      throw badRequestError("These prerequisites would make the course impossible to enroll in");
+    }
+
+    await coursePrerequisiteRepository.replaceForCourse(courseId, requiredCourseIds);
+    const requiredCourses = await coursePrerequisiteRepository.getRequiredCourses(courseId);
+
+    return successResponse({ required_courses: requiredCourses });
+  }
+);
@@ -1,5 +1,6 @@
 import { createAdminRoute, createPublicRoute, successResponse, validateRequest, notFoundError } from '@/lib/api';
 import { courseRepository } from '@/lib/db';
+import { invalidateSearchIndex } from '@/lib/search';
 import { courseUpdateSchema } from '@/lib/validation/schemas';
 
 export const GET = createPublicRoute<{ id: string }>(async (_request, context) => {
@@ -24,6 +25,8 @@ export const PUT = createAdminRoute<{ id: string }>(async (request, context, _us
 
   const data = await courseRepository.update(id, validation.data);
 
+  await invalidateSearchIndex();
+
   return successResponse(data);
 });
 
@@ -38,6 +41,8 @@ export const PATCH = createAdminRoute<{ id: string }>(async (request, context, _
 
   const data = await courseRepository.update(id, validation.data);
 
+  await invalidateSearchIndex();
+
   return successResponse(data);
 });
 
@@ -45,5 +50,7 @@ export const DELETE = createAdminRoute<{ id: string }>(async (_request, context,
   const { id } = await context.params;
   await courseRepository.delete(id);
 
+  await invalidateSearchIndex();
+
   return successResponse({ success: true, message: 'Course deleted successfully' });
 });
@@ -6,6 +6,7 @@
 import { createAdminRoute, createPublicRoute, formatPaginationMeta, getPaginationParams, getQueryParam, internalError, successResponse, validateRequest } from '@/lib/api';
 import { courseRepository, getSupabaseServer } from '@/lib/db';
 import { logger } from '@/lib/logging';
+import { invalidateSearchIndex } from '@/lib/search';
 import { getTimestampFields } from '@/lib/utils';
 import { courseCreateSchema } from '@/lib/validation/schemas';
 
@@ -74,6 +75,8 @@ export const POST = createAdminRoute(async (request, _context, { userId }) => {
     throw internalError('Failed to create course');
   }
 
+  await invalidateSearchIndex();
+
   return successResponse({ course }, 201);
 });
 
@@ -0,0 +1,26 @@
+/**
+ * Cron Job: Run Background Jobs
+ * Enqueues recurring jobs that are due and runs queued jobs
+ * Should run every minute via cron
+ * Requires x-cron-secret header with CRON_SECRET value
+ */
+
+import { createCronRoute, successResponse } from '@/lib/api'
+import { runJobs } from '@/lib/jobs'
+import { getCurrentTimestamp } from '@/lib/utils'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/run-jobs
+ * Run the background job queue (requires x-cron-secret header)
+ */
+export const GET = createCronRoute(async (_request, _context) => {
+  const result = await runJobs()
+
+  return successResponse({
+    success: result.dead === 0,
+    ...result,
+    timestamp: getCurrentTimestamp(),
+  })
+})
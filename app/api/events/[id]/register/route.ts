@@ -8,6 +8,7 @@ import {
 } from "@/lib/api";
 import { getSupabaseServer } from "@/lib/db";
 import { logger } from "@/lib/logging";
+import { sendNotification } from "@/lib/notifications/dispatcher";
 import { stripe } from "@/lib/stripe/config";
 import { RouteContext } from "@/lib/types/api";
 import { getCurrentTimestamp } from "@/lib/utils";
@@ -213,13 +214,10 @@ export const POST = createAuthenticatedRoute<{ id: string }>(
         await sendEventRegistrationEmail(user.email, event, registration);
       }
 
-      // Create notification
-      await (supabase as any).from("notifications").insert({
-        user_id: user.id,
+      await sendNotification(user.id, "event_registration", {
         title: "Event Registration Confirmed",
         message: `You're registered for ${event.title}`,
-        type: "success",
-        action_url: `/events/${event.slug}`,
+        actionUrl: `/events/${event.slug}`,
       });
 
       return successResponse({ registration }, 201);
@@ -6,6 +6,7 @@
 import { createAdminRoute, successResponse, validateRequest, notFoundError } from '@/lib/api';
 import { cacheManager } from '@/lib/cache/cache-manager';
 import { eventRepository } from '@/lib/db';
+import { invalidateSearchIndex } from '@/lib/search';
 import { eventUpdateSchema } from '@/lib/validation/schemas';
 
 /**
@@ -36,6 +37,7 @@ export const PATCH = createAdminRoute<{ id: string }>(async (request, context, _
 
   // Invalidate events cache
   await cacheManager.clear('events');
+  await invalidateSearchIndex();
 
   return successResponse(event);
 });
@@ -46,6 +48,7 @@ export const DELETE = createAdminRoute<{ id: string }>(async (_request, context,
 
   // Invalidate events cache
   await cacheManager.clear('events');
+  await invalidateSearchIndex();
 
   return successResponse({ success: true, message: 'Event deleted successfully' });
 });
@@ -6,6 +6,7 @@
 import { createAdminRoute, createPublicRoute, successResponse, validateRequest } from '@/lib/api';
 import { cacheKeys, cacheManager } from '@/lib/cache/cache-manager';
 import { eventRepository } from '@/lib/db';
+import { invalidateSearchIndex } from '@/lib/search';
 import { eventCreateSchema } from '@/lib/validation/schemas';
 
 // Cache events for 5 minutes (public content)
@@ -36,6 +37,7 @@ export const POST = createAdminRoute(async (request, _context, { userId }) => {
 
   // Invalidate events cache
   await cacheManager.clear('events');
+  await invalidateSearchIndex();
 
   return successResponse(event, 201);
 });
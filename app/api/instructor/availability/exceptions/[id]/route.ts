@@ -0,0 +1,32 @@
+/**
+ * Instructor Availability Exception API
+ * DELETE /api/instructor/availability/exceptions/[id] - Remove an exception
+ */
+
+import {
+  createAuthenticatedRoute,
+  forbiddenError,
+  notFoundError,
+  successResponse,
+} from '@/lib/api';
+import { instructorAvailabilityRepository } from '@/lib/db';
+
+/**
+ * DELETE /api/instructor/availability/exceptions/[id]
+ */
+export const DELETE = createAuthenticatedRoute<{ id: string }>(async (_request, context, user) => {
+  const { id } = await context.params;
+
+  const exception = await instructorAvailabilityRepository.getException(id);
+  if (!exception) {
+    throw notFoundError('Availability exception');
+  }
+
+  if (exception.instructor_id !== user.id) {
+    throw forbiddenError('You can only remove your own availability exceptions');
+  }
+
+  await instructorAvailabilityRepository.deleteException(id);
+
+  return successResponse({ deleted: true });
+});
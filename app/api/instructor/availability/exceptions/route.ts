@@ -0,0 +1,33 @@
+/**
+ * Instructor Availability Exceptions API
+ * POST /api/instructor/availability/exceptions - Block time or add an opening on a date
+ */
+
+import {
+  createAuthenticatedRoute,
+  forbiddenError,
+  successResponse,
+  validateRequest,
+} from '@/lib/api';
+import { instructorAvailabilityRepository } from '@/lib/db';
+import { getUserRole } from '@/lib/middleware';
+import { availabilityExceptionSchema } from '@/lib/validation/schemas';
+
+/**
+ * POST /api/instructor/availability/exceptions
+ */
+export const POST = createAuthenticatedRoute(async (request, _context, user) => {
+  const role = await getUserRole();
+  if (role !== 'instructor' && role !== 'admin') {
+    throw forbiddenError('Instructor or admin access required');
+  }
+
+  const validation = await validateRequest(request, availabilityExceptionSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const exception = await instructorAvailabilityRepository.addException(user.id, validation.data);
+
+  return successResponse({ exception }, 201);
+});
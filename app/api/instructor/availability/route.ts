@@ -0,0 +1,83 @@
+/**
+ * Instructor Availability API
+ * GET /api/instructor/availability - Weekly rules, upcoming exceptions and booking settings
+ * PUT /api/instructor/availability - Replace weekly rules
+ * PATCH /api/instructor/availability - Update booking settings
+ */
+
+import {
+  createAuthenticatedRoute,
+  forbiddenError,
+  successResponse,
+  validateRequest,
+} from '@/lib/api';
+import { instructorAvailabilityRepository } from '@/lib/db';
+import { getUserRole } from '@/lib/middleware';
+import { availabilityRulesSchema, bookingSettingsSchema } from '@/lib/validation/schemas';
+
+/** Days of upcoming exceptions returned */
+const EXCEPTION_HORIZON_DAYS = 90;
+
+async function requireInstructor(): Promise<void> {
+  const role = await getUserRole();
+  if (role !== 'instructor' && role !== 'admin') {
+    throw forbiddenError('Instructor or admin access required');
+  }
+}
+
+/**
+ * GET /api/instructor/availability
+ */
+export const GET = createAuthenticatedRoute(async (_request, _context, user) => {
+  await requireInstructor();
+
+  const today = new Date();
+  const horizon = new Date(today.getTime() + EXCEPTION_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+
+  const { rules, exceptions, policy } = await instructorAvailabilityRepository.getSchedule(
+    user.id,
+    today.toISOString().slice(0, 10),
+    horizon.toISOString().slice(0, 10)
+  );
+
+  return successResponse({ rules, exceptions, settings: policy });
+});
+
+/**
+ * PUT /api/instructor/availability
+ * Replace the weekly rules (times in the instructor's timezone, which can be set at the same time)
+ */
+export const PUT = createAuthenticatedRoute(async (request, _context, user) => {
+  await requireInstructor();
+
+  const validation = await validateRequest(request, availabilityRulesSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const { rules, timezone } = validation.data;
+
+  if (timezone) {
+    await instructorAvailabilityRepository.updateBookingSettings(user.id, { timezone });
+  }
+  const saved = await instructorAvailabilityRepository.replaceRules(user.id, rules);
+
+  return successResponse({ rules: saved });
+});
+
+/**
+ * PATCH /api/instructor/availability
+ * Update timezone, buffers, notice, booking horizon and cancellation window
+ */
+export const PATCH = createAuthenticatedRoute(async (request, _context, user) => {
+  await requireInstructor();
+
+  const validation = await validateRequest(request, bookingSettingsSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const settings = await instructorAvailabilityRepository.updateBookingSettings(user.id, validation.data);
+
+  return successResponse({ settings });
+});
@@ -15,6 +15,7 @@ import {
 } from '@/lib/api';
 import { getSupabaseServer } from '@/lib/db';
 import { getUserRole } from '@/lib/middleware';
+import { invalidateSearchIndex } from '@/lib/search';
 import { getUpdateTimestamp } from '@/lib/utils';
 import { logger } from '@/lib/logging';
 import { z } from 'zod';
@@ -145,6 +146,8 @@ export const PUT = createAuthenticatedRoute<{ id: string }>(
       throw internalError('Failed to update course');
     }
 
+    await invalidateSearchIndex();
+
     return successResponse({ course });
   }
 );
@@ -199,6 +202,8 @@ export const DELETE = createAuthenticatedRoute<{ id: string }>(
       throw internalError('Failed to delete course');
     }
 
+    await invalidateSearchIndex();
+
     return successResponse({ success: true });
   }
 );
@@ -0,0 +1,35 @@
+/**
+ * Instructor Earnings API
+ * GET /api/instructor/earnings - Revenue-share summary, transactions, per-course revenue and payout statements
+ */
+
+import {
+  createAuthenticatedRoute,
+  forbiddenError,
+  getQueryParam,
+  successResponse,
+} from '@/lib/api';
+import { getEarningsOverview, type EarningsPeriod } from '@/lib/earnings';
+import { getUserRole } from '@/lib/middleware';
+
+const PERIODS: EarningsPeriod[] = ['all', 'month', 'week'];
+
+/**
+ * GET /api/instructor/earnings
+ * Query params:
+ * - period: 'all' | 'month' | 'week' - transactions to include (default: all)
+ */
+export const GET = createAuthenticatedRoute(async (request, _context, user) => {
+  const role = await getUserRole();
+  if (role !== 'instructor' && role !== 'admin') {
+    throw forbiddenError('Instructor or admin access required');
+  }
+
+  const period = getQueryParam(request, 'period') as EarningsPeriod | null;
+  const overview = await getEarningsOverview(
+    user.id,
+    period && PERIODS.includes(period) ? period : 'all'
+  );
+
+  return successResponse(overview);
+});
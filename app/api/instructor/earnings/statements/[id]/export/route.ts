@@ -0,0 +1,94 @@
+/**
+ * Payout Statement Export API
+ * GET /api/instructor/earnings/statements/[id]/export - Download a statement as CSV or PDF
+ */
+
+import {
+  createAuthenticatedRoute,
+  forbiddenError,
+  getQueryParam,
+  notFoundError,
+} from '@/lib/api';
+import { instructorEarningsRepository, instructorPayoutStatementRepository } from '@/lib/db';
+import { getUserRole } from '@/lib/middleware';
+import { dataToCSV } from '@/lib/utils/csv-export';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/instructor/earnings/statements/[id]/export
+ * Query params:
+ * - format: 'csv' | 'pdf' (default: csv)
+ */
+export const GET = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
+  const { id } = await context.params;
+
+  const statement = await instructorPayoutStatementRepository.findWithInstructor(id);
+  if (!statement) {
+    throw notFoundError('Payout statement');
+  }
+
+  if (statement.instructor_id !== user.id && (await getUserRole()) !== 'admin') {
+    throw forbiddenError('You can only export your own statements');
+  }
+
+  const entries = await instructorEarningsRepository.getByStatement(id);
+  const filename = `earnings-statement-${statement.period_start.slice(0, 7)}`;
+
+  if (getQueryParam(request, 'format') === 'pdf') {
+    // Import PDF generator dynamically to avoid SSR issues
+    const { generateEarningsStatementPDF } = await import('@/lib/pdf/earnings-statement');
+
+    const pdfBlob = await generateEarningsStatementPDF({
+      instructorName: statement.instructor?.full_name || statement.instructor?.email || 'Instructor',
+      periodStart: statement.period_start,
+      periodEnd: statement.period_end,
+      status: statement.status,
+      grossAmount: statement.gross_amount,
+      platformFees: statement.platform_fees,
+      refunds: statement.refunds,
+      netAmount: statement.net_amount,
+      entries: entries.map((entry) => ({ ...entry, date: entry.occurred_at })),
+    });
+
+    return new NextResponse(await pdfBlob.arrayBuffer(), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+      },
+    });
+  }
+
+  const csv = dataToCSV(
+    [
+      ...entries,
+      {
+        occurred_at: '',
+        entry_type: '',
+        description: 'Total',
+        course: null,
+        // Sales less refunded sales
+        gross_amount: statement.net_amount + statement.platform_fees,
+        platform_fee: statement.platform_fees,
+        net_amount: statement.net_amount,
+      },
+    ],
+    [
+      { key: 'occurred_at', label: 'Date', format: (value: string) => value.slice(0, 10) },
+      { key: 'entry_type', label: 'Type' },
+      { key: 'description', label: 'Description' },
+      { key: 'course.title', label: 'Course' },
+      { key: 'gross_amount', label: 'Gross (USD)', format: (value: number) => value.toFixed(2) },
+      { key: 'platform_fee', label: 'Platform Fee (USD)', format: (value: number) => value.toFixed(2) },
+      { key: 'net_amount', label: 'Net (USD)', format: (value: number) => value.toFixed(2) },
+    ]
+  );
+
+  return new NextResponse(csv, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': `attachment; filename="${filename}.csv"`,
+    },
+  });
+});
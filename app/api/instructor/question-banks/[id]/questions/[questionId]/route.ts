@@ -0,0 +1,84 @@
+/**
+ * Question Bank Question API - Single question operations
+ * PUT /api/instructor/question-banks/[id]/questions/[questionId] - Update a question
+ * DELETE /api/instructor/question-banks/[id]/questions/[questionId] - Remove a question
+ */
+
+import { RouteContext } from '@/lib/types/api';
+import {
+  createAuthenticatedRoute,
+  successResponse,
+  forbiddenError,
+  notFoundError,
+  validateRequest,
+} from '@/lib/api';
+import { quizQuestionBankRepository } from '@/lib/db';
+import { getUserRole } from '@/lib/middleware';
+import { bankQuestionUpdateSchema } from '@/lib/validation/schemas';
+
+type QuestionParams = { id: string; questionId: string };
+
+/**
+ * PUT /api/instructor/question-banks/[id]/questions/[questionId]
+ * Update a question. Attempts already started keep the version they were served.
+ */
+export const PUT = createAuthenticatedRoute<QuestionParams>(
+  async (request, context: RouteContext<QuestionParams>, user) => {
+    const role = await getUserRole();
+    if (role !== 'instructor' && role !== 'admin') {
+      throw forbiddenError('Instructor or admin access required');
+    }
+
+    const { id, questionId } = await context.params;
+
+    const bank = await quizQuestionBankRepository.findByIdOrNull(id);
+    if (!bank) {
+      throw notFoundError('Question bank');
+    }
+
+    if (role === 'instructor' && bank.created_by !== user.id) {
+      throw forbiddenError('You do not have access to this question bank');
+    }
+
+    const validation = await validateRequest(request, bankQuestionUpdateSchema);
+    if (!validation.success) {
+      throw validation.error;
+    }
+
+    const question = await quizQuestionBankRepository.updateQuestion(
+      id,
+      questionId,
+      validation.data
+    );
+
+    return successResponse({ question });
+  }
+);
+
+/**
+ * DELETE /api/instructor/question-banks/[id]/questions/[questionId]
+ * Remove a question from a bank
+ */
+export const DELETE = createAuthenticatedRoute<QuestionParams>(
+  async (_request, context: RouteContext<QuestionParams>, user) => {
+    const role = await getUserRole();
+    if (role !== 'instructor' && role !== 'admin') {
+      throw forbiddenError('Instructor or admin access required');
+    }
+
+    const { id, questionId } = await context.params;
+
+    const bank = await quizQuestionBankRepository.findByIdOrNull(id);
+    if (!bank) {
+      throw notFoundError('Question bank');
+    }
+
+    if (role === 'instructor' && bank.created_by !== user.id) {
+      throw forbiddenError('You do not have access to this question bank');
+    }
+
+    await quizQuestionBankRepository.deleteQuestion(id, questionId);
+
+    return successResponse({ success: true, message: 'Question removed' });
+  }
+);
@@ -0,0 +1,60 @@
+/**
+ * Question Bank Questions API
+ * POST /api/instructor/question-banks/[id]/questions - Add questions to a bank
+ */
+
+import { RouteContext } from '@/lib/types/api';
+import {
+  createAuthenticatedRoute,
+  successResponse,
+  forbiddenError,
+  notFoundError,
+  validateRequest,
+} from '@/lib/api';
+import { quizQuestionBankRepository } from '@/lib/db';
+import { getUserRole } from '@/lib/middleware';
+import { bankQuestionSchema } from '@/lib/validation/schemas';
+import { z } from 'zod';
+
+type BankParams = { id: string };
+
+/** Add questions request schema */
+const addQuestionsSchema = z.object({
+  questions: z.array(bankQuestionSchema).min(1, 'At least one question is required').max(100),
+});
+
+/**
+ * POST /api/instructor/question-banks/[id]/questions
+ * Add one or more questions to a bank
+ */
+export const POST = createAuthenticatedRoute<BankParams>(
+  async (request, context: RouteContext<BankParams>, user) => {
+    const role = await getUserRole();
+    if (role !== 'instructor' && role !== 'admin') {
+      throw forbiddenError('Instructor or admin access required');
+    }
+
+    const { id } = await context.params;
+
+    const bank = await quizQuestionBankRepository.findByIdOrNull(id);
+    if (!bank) {
+      throw notFoundError('Question bank');
+    }
+
+    if (role === 'instructor' && bank.created_by !== user.id) {
+      throw forbiddenError('You do not have access to this question bank');
+    }
+
+    const validation = await validateRequest(request, addQuestionsSchema);
+    if (!validation.success) {
+      throw validation.error;
+    }
+
+    const questions = await quizQuestionBankRepository.addQuestions(
+      id,
+      validation.data.questions
+    );
+
+    return successResponse({ questions }, 201);
+  }
+);
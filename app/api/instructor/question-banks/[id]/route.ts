@@ -0,0 +1,107 @@
+/**
+ * Instructor Question Bank API - Single bank operations
+ * GET /api/instructor/question-banks/[id] - Get a bank with its questions
+ * PUT /api/instructor/question-banks/[id] - Update a bank
+ * DELETE /api/instructor/question-banks/[id] - Delete a bank and its questions
+ */
+
+import { RouteContext } from '@/lib/types/api';
+import {
+  createAuthenticatedRoute,
+  successResponse,
+  forbiddenError,
+  notFoundError,
+  validateRequest,
+} from '@/lib/api';
+import { quizQuestionBankRepository } from '@/lib/db';
+import { getUserRole } from '@/lib/middleware';
+import { questionBankUpdateSchema } from '@/lib/validation/schemas';
+
+type BankParams = { id: string };
+
+/**
+ * GET /api/instructor/question-banks/[id]
+ * Get a bank with all of its questions (including answers)
+ */
+export const GET = createAuthenticatedRoute<BankParams>(
+  async (_request, context: RouteContext<BankParams>, user) => {
+    const role = await getUserRole();
+    if (role !== 'instructor' && role !== 'admin') {
+      throw forbiddenError('Instructor or admin access required');
+    }
+
+    const { id } = await context.params;
+
+    const bank = await quizQuestionBankRepository.findWithQuestions(id);
+    if (!bank) {
+      throw notFoundError('Question bank');
+    }
+
+    if (role === 'instructor' && bank.created_by !== user.id) {
+      throw forbiddenError('You do not have access to this question bank');
+    }
+
+    return successResponse({ bank });
+  }
+);
+
+/**
+ * PUT /api/instructor/question-banks/[id]
+ * Update a bank's title, description, course or tags
+ */
+export const PUT = createAuthenticatedRoute<BankParams>(
+  async (request, context: RouteContext<BankParams>, user) => {
+    const role = await getUserRole();
+    if (role !== 'instructor' && role !== 'admin') {
+      throw forbiddenError('Instructor or admin access required');
+    }
+
+    const { id } = await context.params;
+
+    const existing = await quizQuestionBankRepository.findByIdOrNull(id);
+    if (!existing) {
+      throw notFoundError('Question bank');
+    }
+
+    if (role === 'instructor' && existing.created_by !== user.id) {
+      throw forbiddenError('You do not have access to this question bank');
+    }
+
+    const validation = await validateRequest(request, questionBankUpdateSchema);
+    if (!validation.success) {
+      throw validation.error;
+    }
+
+    const bank = await quizQuestionBankRepository.update(id, validation.data);
+
+    return successResponse({ bank });
+  }
+);
+
+/**
+ * DELETE /api/instructor/question-banks/[id]
+ * Delete a bank. Past attempts keep their question snapshots.
+ */
+export const DELETE = createAuthenticatedRoute<BankParams>(
+  async (_request, context: RouteContext<BankParams>, user) => {
+    const role = await getUserRole();
+    if (role !== 'instructor' && role !== 'admin') {
+      throw forbiddenError('Instructor or admin access required');
+    }
+
+    const { id } = await context.params;
+
+    const existing = await quizQuestionBankRepository.findByIdOrNull(id);
+    if (!existing) {
+      throw notFoundError('Question bank');
+    }
+
+    if (role === 'instructor' && existing.created_by !== user.id) {
+      throw forbiddenError('You do not have access to this question bank');
+    }
+
+    await quizQuestionBankRepository.delete(id);
+
+    return successResponse({ success: true, message: 'Question bank deleted' });
+  }
+);
@@ -0,0 +1,58 @@
+/**
+ * Instructor Question Banks API
+ * GET /api/instructor/question-banks - List question banks
+ * POST /api/instructor/question-banks - Create a question bank
+ */
+
+import {
+  createAuthenticatedRoute,
+  successResponse,
+  forbiddenError,
+  getQueryParam,
+  validateRequest,
+} from '@/lib/api';
+import { quizQuestionBankRepository } from '@/lib/db';
+import { getUserRole } from '@/lib/middleware';
+import { questionBankSchema } from '@/lib/validation/schemas';
+
+/**
+ * GET /api/instructor/question-banks
+ * List banks, filtered by ?course_id= and ?tag= (instructors see their own banks)
+ */
+export const GET = createAuthenticatedRoute(async (request, _context, user) => {
+  const role = await getUserRole();
+  if (role !== 'instructor' && role !== 'admin') {
+    throw forbiddenError('Instructor or admin access required');
+  }
+
+  const banks = await quizQuestionBankRepository.findBanks({
+    courseId: getQueryParam(request, 'course_id') || undefined,
+    tag: getQueryParam(request, 'tag') || undefined,
+    createdBy: role === 'instructor' ? user.id : undefined,
+  });
+
+  return successResponse({ banks });
+});
+
+/**
+ * POST /api/instructor/question-banks
+ * Create a question bank
+ */
+export const POST = createAuthenticatedRoute(async (request, _context, user) => {
+  const role = await getUserRole();
+  if (role !== 'instructor' && role !== 'admin') {
+    throw forbiddenError('Instructor or admin access required');
+  }
+
+  const validation = await validateRequest(request, questionBankSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const bank = await quizQuestionBankRepository.create({
+    ...validation.data,
+    created_by: user.id,
+  });
+
+  return successResponse({ bank }, 201);
+});
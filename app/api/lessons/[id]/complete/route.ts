@@ -1,4 +1,5 @@
 import { createAuthenticatedRoute, successResponse } from "@/lib/api";
+import { requireLessonAccess } from "@/lib/courses";
 import { certificateRepository } from "@/lib/db/certificates";
 import { enrollmentRepository } from "@/lib/db/enrollments";
 import { learningStreaksRepository } from "@/lib/db/learning-streaks";
@@ -8,6 +9,7 @@ import {
   checkLessonAchievements,
 } from "@/lib/gamification/achievement-service";
 import { logger } from "@/lib/logging";
+import { recordCourseCompletion } from "@/lib/organizations/assignment-tracking";
 import { RouteContext } from "@/lib/types/api";
 import { NextRequest } from "next/server";
 
@@ -26,6 +28,9 @@ export const POST = createAuthenticatedRoute<{ id: string }>(
   ) => {
     const { id } = await context.params;
 
+    // Locked lessons (drip release, prerequisites) cannot be completed
+    const courseId = await requireLessonAccess(user.id, id);
+
     // Mark lesson as complete using repository
     await lessonCompletionsRepository.markCompleted(user.id, id);
 
@@ -41,13 +46,6 @@ export const POST = createAuthenticatedRoute<{ id: string }>(
       logger.error("Error checking lesson achievements:", err as Error);
     });
 
-    // Get course ID for this lesson
-    const courseId = await lessonCompletionsRepository.getCourseIdForLesson(id);
-
-    if (!courseId) {
-      return successResponse({ completed: true });
-    }
-
     // Check course completion and get statistics
     const completion = await lessonCompletionsRepository.checkCourseCompletion(
       user.id,
@@ -55,7 +53,7 @@ export const POST = createAuthenticatedRoute<{ id: string }>(
     );
 
     // Update enrollment progress
-    await enrollmentRepository.updateProgress(
+    const enrollment = await enrollmentRepository.updateProgress(
       user.id,
       courseId,
       completion.progressPercentage
@@ -63,6 +61,15 @@ export const POST = createAuthenticatedRoute<{ id: string }>(
 
     // Check if all lessons are complete
     if (completion.isComplete) {
+      // Only the request that completes the enrollment records the completion
+      const completed = await enrollmentRepository.markCompletedOnce(enrollment.id);
+      if (completed?.completed_at) {
+        // Notify organizations and complete their assignments (async, don't block response)
+        recordCourseCompletion(user.id, courseId, completed.completed_at).catch((err) => {
+          logger.error("Error recording course completion:", err as Error);
+        });
+      }
+
       // Check if certificate already exists
       const existingCertificate =
         await certificateRepository.getByUserAndCourse(user.id, courseId);
@@ -10,6 +10,7 @@ import {
   notFoundError,
   successResponse,
 } from "@/lib/api";
+import { requireLessonAccess } from "@/lib/courses";
 import { getSupabaseServer } from "@/lib/db";
 import { enrollmentRepository } from "@/lib/db/enrollments";
 import { lessonCompletionsRepository } from "@/lib/db/lesson-completions";
@@ -95,6 +96,8 @@ export const POST = createAuthenticatedRoute<{ id: string }>(
       );
     }
 
+    await requireLessonAccess(user.id, lessonId);
+
     const enrollmentId = await getEnrollmentId(user.id, lessonId);
     if (!enrollmentId) {
       throw notFoundError("Enrollment");
@@ -9,7 +9,9 @@ import {
   successResponse,
   notFoundError,
 } from '@/lib/api';
-import { quizRepository, type QuizQuestion } from '@/lib/db';
+import { toQuestionForTaking } from '@/lib/content/quiz-grading';
+import { requireLessonAccess } from '@/lib/courses';
+import { quizRepository } from '@/lib/db';
 
 type LessonParams = { id: string };
 
@@ -21,6 +23,8 @@ export const GET = createAuthenticatedRoute<LessonParams>(
   async (_request, context: RouteContext<LessonParams>, user) => {
     const { id } = await context.params;
 
+    await requireLessonAccess(user.id, id);
+
     // Find quiz by lesson ID
     const quiz = await quizRepository.findByLessonId(id);
     if (!quiz) {
@@ -33,14 +37,8 @@ export const GET = createAuthenticatedRoute<LessonParams>(
     const hasPassed = await quizRepository.hasUserPassed(user.id, quiz.id);
 
     // Remove correct answers from questions for quiz-taking
-    const questionsForTaking = quiz.questions.map((q: QuizQuestion) => ({
-      id: q.id,
-      question: q.question,
-      type: q.type,
-      options: q.options,
-      points: q.points,
-      // Don't include correct_answer or explanation until submission
-    }));
+    // (correct_answer and explanation are only returned after submission)
+    const questionsForTaking = quiz.questions.map((q) => toQuestionForTaking(q));
 
     return successResponse({
       quiz: {
@@ -48,6 +46,8 @@ export const GET = createAuthenticatedRoute<LessonParams>(
         title: quiz.title,
         passing_score: quiz.passing_score,
         questions: questionsForTaking,
+        // Randomized quizzes serve questions per attempt (POST /api/quizzes/[id]/attempts)
+        randomized: quizRepository.isRandomized(quiz),
       },
       user_progress: {
         attempts_count: attempts.length,
@@ -1,5 +1,6 @@
 import { createAdminRoute, successResponse, validateRequest } from '@/lib/api';
 import { lessonRepository } from '@/lib/db/lessons';
+import { invalidateSearchIndex } from '@/lib/search';
 import { lessonUpdateSchema } from '@/lib/validation/schemas';
 
 /**
@@ -36,6 +37,8 @@ export const PUT = createAdminRoute<{ id: string }>(async (request, context) =>
 
   const lesson = await lessonRepository.updateLesson(params.id, updateData);
 
+  await invalidateSearchIndex();
+
   return successResponse({ lesson });
 });
 
@@ -48,5 +51,7 @@ export const DELETE = createAdminRoute<{ id: string }>(async (_request, context)
 
   await lessonRepository.deleteLesson(params.id);
 
+  await invalidateSearchIndex();
+
   return successResponse({ deleted: true });
 });
@@ -1,27 +1,46 @@
 /**
  * Metrics API Endpoint
- * Provides access to performance and metrics data
+ * Prometheus scrape target: every metric in the registry, in Prometheus text
+ * format or OpenMetrics when the scraper asks for it.
+ * Requires `Authorization: Bearer $METRICS_TOKEN`.
  */
 
-import { createAdminRoute, successResponse } from '@/lib/api'
-import { metricsCollector, performanceMonitor } from '@/lib/monitoring'
+import { timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import { createPublicRoute, internalError, unauthorizedError } from '@/lib/api'
+import {
+  getExpositionFormat,
+  metricsRegistry,
+  OPENMETRICS_CONTENT_TYPE,
+  PROMETHEUS_CONTENT_TYPE,
+} from '@/lib/monitoring'
+import { getMetricsToken, hasEnvVar } from '@/lib/utils/env'
 
-export const GET = createAdminRoute(async (_request, _context, _admin) => {
-  const metricsSummary = metricsCollector.getSummary()
-  const performanceSummary = performanceMonitor.getSummary()
+export const dynamic = 'force-dynamic'
 
-  return successResponse({
-    metrics: metricsSummary,
-    performance: performanceSummary,
-    timestamp: Date.now(),
-  })
-})
+function tokenMatches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+export const GET = createPublicRoute(async (request) => {
+  if (!hasEnvVar('METRICS_TOKEN')) {
+    throw internalError('Metrics authentication not configured')
+  }
+
+  const authorization = request.headers.get('authorization') ?? ''
+  const providedToken = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : ''
+  if (!providedToken || !tokenMatches(providedToken, getMetricsToken())) {
+    throw unauthorizedError('Invalid metrics token')
+  }
 
-export const DELETE = createAdminRoute(async (_request, _context, _admin) => {
-  metricsCollector.clear()
-  performanceMonitor.clear()
+  const format = getExpositionFormat(request.headers.get('accept'))
 
-  return successResponse({
-    message: 'Metrics cleared successfully',
+  return new NextResponse(metricsRegistry.render(format), {
+    headers: {
+      'Content-Type': format === 'openmetrics' ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE,
+      'Cache-Control': 'no-store',
+    },
   })
 })
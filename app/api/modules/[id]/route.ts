@@ -1,5 +1,6 @@
 import { createAdminRoute, successResponse, validateRequest } from '@/lib/api';
 import { moduleRepository } from '@/lib/db/modules';
+import { invalidateSearchIndex } from '@/lib/search';
 import { moduleUpdateSchema } from '@/lib/validation/schemas';
 
 /**
@@ -29,6 +30,8 @@ export const PUT = createAdminRoute<{ id: string }>(async (request, context) =>
 
   const module = await moduleRepository.updateModule(params.id, validation.data);
 
+  await invalidateSearchIndex();
+
   return successResponse({ module });
 });
 
@@ -42,5 +45,7 @@ export const DELETE = createAdminRoute<{ id: string }>(async (_request, context)
   // Delete module using repository (will cascade to lessons via FK)
   await moduleRepository.deleteModule(params.id);
 
+  await invalidateSearchIndex();
+
   return successResponse({ deleted: true });
 });
@@ -0,0 +1,30 @@
+/**
+ * Notification Bulk Actions API
+ * POST - Mark several notifications read or unread, or delete them
+ */
+
+import { createAuthenticatedRoute, successResponse, validateRequest } from '@/lib/api';
+import { notificationRepository } from '@/lib/db/notifications';
+import { notificationBulkActionSchema } from '@/lib/validation/schemas';
+
+/**
+ * POST /api/notifications/bulk
+ * Apply an action to the user's notifications with the given IDs; IDs that
+ * are not the user's are ignored
+ */
+export const POST = createAuthenticatedRoute(async (request, _context, user) => {
+  const validation = await validateRequest(request, notificationBulkActionSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const { action, ids } = validation.data;
+
+  const updated = action === 'delete'
+    ? await notificationRepository.deleteForUser(user.id, ids)
+    : await notificationRepository.setReadForUser(user.id, ids, action === 'mark_read');
+
+  const unreadCount = await notificationRepository.countUnread(user.id);
+
+  return successResponse({ action, ids: updated, unreadCount });
+});
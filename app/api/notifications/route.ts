@@ -14,7 +14,8 @@ import { createAuthenticatedRoute, forbiddenError, formatPaginationMeta, getBool
 import { getSupabaseServer } from '@/lib/db';
 import { logger } from '@/lib/logging';
 import { getUserRole } from '@/lib/middleware';
-import { getCurrentTimestamp } from '@/lib/utils';
+import { isNotificationKind, NOTIFICATION_SEVERITIES } from '@/lib/notifications/kinds';
+import { sendNotification } from '@/lib/notifications/dispatcher';
 
 // GET - Fetch user notifications
 export const GET = createAuthenticatedRoute(async (_request, _context, user) => {
@@ -57,7 +58,7 @@ export const GET = createAuthenticatedRoute(async (_request, _context, user) =>
   });
 });
 
-// POST - Create notification (admin/instructor only)
+// POST - Send a notification (admin/instructor only)
 export const POST = createAuthenticatedRoute(async (_request, _context, _user) => {
   // Check if user is admin or instructor
   const role = await getUserRole();
@@ -65,55 +66,27 @@ export const POST = createAuthenticatedRoute(async (_request, _context, _user) =
     throw forbiddenError('Admin or instructor access required');
   }
 
-  const supabase = getSupabaseServer();
-
   const body = await parseBodyWithValidation(_request, ['user_id', 'title', 'message']) as {
     user_id: string;
     title: string;
     message: string;
+    kind?: string;
     type?: string;
     action_url?: string;
-    meta_data?: Record<string, unknown>;
   };
-  const {
-    user_id,
-    title,
-    message,
-    type = 'info',
-    action_url,
-  } = body;
+  const { user_id, title, message, kind, type, action_url } = body;
 
-  const notificationData: {
-    user_id: string;
-    title: string;
-    message: string;
-    type: string;
-    action_url?: string;
-    read: boolean;
-    created_at: string;
-  } = {
+  // Routed like any other notification, so the user's channel choices apply
+  const { notification } = await sendNotification(
     user_id,
-    title,
-    message,
-    type,
-    read: false,
-    created_at: getCurrentTimestamp(),
-  };
-
-  if (action_url) {
-    notificationData.action_url = action_url;
-  }
-
-  const { data: notification, error } = await (supabase as any)
-    .from('notifications')
-    .insert(notificationData)
-    .select()
-    .single();
-
-  if (error) {
-    logger.error('Error creating notification', error instanceof Error ? error : new Error(String(error)));
-    throw internalError('Failed to create notification');
-  }
+    isNotificationKind(kind) ? kind : 'system_announcement',
+    {
+      title,
+      message,
+      actionUrl: action_url,
+      severity: NOTIFICATION_SEVERITIES.find((severity) => severity === type),
+    }
+  );
 
   return successResponse({ notification }, 201);
 });
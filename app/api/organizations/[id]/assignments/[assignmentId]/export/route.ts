@@ -0,0 +1,42 @@
+/**
+ * Learning Assignment Compliance Export
+ * Download an assignment's assignees and their status as CSV
+ */
+
+import { createAuthenticatedRoute, notFoundError } from '@/lib/api'
+import { learningAssignmentRepository } from '@/lib/db'
+import { getAssignmentCompliance } from '@/lib/organizations/assignment-tracking'
+import { toComplianceCsvRecord } from '@/lib/organizations/learning-assignments'
+import { resolveTeamScope } from '@/lib/organizations/team-scope'
+import { NextResponse } from 'next/server'
+import Papa from 'papaparse'
+
+/**
+ * GET /api/organizations/[id]/assignments/[assignmentId]/export?teamId=
+ * Compliance CSV with one row per assignee
+ * Requires: Organization admin or team manager (exports their teams' members)
+ */
+export const GET = createAuthenticatedRoute<{ id: string; assignmentId: string }>(async (request, context, user) => {
+  const { id, assignmentId } = await context.params
+  const { searchParams } = new URL(request.url)
+
+  const scope = await resolveTeamScope(user.id, id, searchParams.get('teamId'))
+
+  const assignment = await learningAssignmentRepository.getOrganizationAssignment(id, assignmentId)
+  if (!assignment) throw notFoundError('Assignment')
+
+  const compliance = await getAssignmentCompliance(id, [assignment], scope)
+  const members = compliance.get(assignment.id)?.members ?? []
+
+  const csv = Papa.unparse(members.map(toComplianceCsvRecord), {
+    columns: ['Name', 'Email', 'Team', 'Status', 'Assigned At', 'Due At', 'Completed At'],
+  })
+
+  return new NextResponse(csv, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': `attachment; filename="assignment-${assignmentId}-compliance.csv"`,
+    },
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Learning Assignment Members API Routes
+ * Give an assignment to more members and teams, or take a member off it
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  notFoundError,
+  requireOrganizationAccess,
+  successResponse,
+  validateRequest,
+} from '@/lib/api'
+import { ActivityActions, EntityTypes, learningAssignmentRepository, logActivity } from '@/lib/db'
+import { addLearningAssignees } from '@/lib/organizations/assign-learning'
+import { learningAssignmentMembersSchema } from '@/lib/validation/schemas'
+
+/**
+ * POST /api/organizations/[id]/assignments/[assignmentId]/members
+ * Assign more members and teams; members who already have the assignment
+ * are skipped. Course assignments use one course credit per member enrolled.
+ * Requires: Organization admin
+ */
+export const POST = createAuthenticatedRoute<{ id: string; assignmentId: string }>(async (request, context, user) => {
+  const { id, assignmentId } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const validation = await validateRequest(request, learningAssignmentMembersSchema)
+  if (!validation.success) {
+    throw validation.error
+  }
+
+  const assignment = await learningAssignmentRepository.getOrganizationAssignment(id, assignmentId)
+  if (!assignment) throw notFoundError('Assignment')
+
+  const result = await addLearningAssignees(assignment, validation.data, user.id)
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.ASSIGNMENT_UPDATED,
+    entity_type: EntityTypes.ASSIGNMENT,
+    entity_id: assignmentId,
+    description: `Assigned "${assignment.title}" to ${result.assigned} more member${result.assigned === 1 ? '' : 's'}`,
+    metadata: { assigned: result.assigned, credits_used: result.creditsUsed, team_ids: validation.data.team_ids },
+  })
+
+  return successResponse(result)
+})
+
+/**
+ * DELETE /api/organizations/[id]/assignments/[assignmentId]/members?user_id=
+ * Take a member off an assignment; an enrollment it created is kept
+ * Requires: Organization admin
+ */
+export const DELETE = createAuthenticatedRoute<{ id: string; assignmentId: string }>(async (request, context, user) => {
+  const { id, assignmentId } = await context.params
+  const { searchParams } = new URL(request.url)
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const userId = searchParams.get('user_id')
+  if (!userId) throw badRequestError('user_id is required')
+
+  const assignment = await learningAssignmentRepository.getOrganizationAssignment(id, assignmentId)
+  if (!assignment) throw notFoundError('Assignment')
+
+  if (!(await learningAssignmentRepository.removeMember(assignmentId, userId))) {
+    throw notFoundError('Assignee')
+  }
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.ASSIGNMENT_UPDATED,
+    entity_type: EntityTypes.ASSIGNMENT,
+    entity_id: assignmentId,
+    description: `Removed a member from assignment "${assignment.title}"`,
+    metadata: { removed_user_id: userId },
+  })
+
+  return successResponse({ success: true })
+})
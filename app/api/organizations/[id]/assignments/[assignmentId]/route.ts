@@ -0,0 +1,118 @@
+/**
+ * Single Learning Assignment API Routes
+ * Compliance detail, due date changes and deletion
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  notFoundError,
+  requireOrganizationAccess,
+  successResponse,
+  validateRequest,
+} from '@/lib/api'
+import { ActivityActions, EntityTypes, learningAssignmentRepository, logActivity } from '@/lib/db'
+import { getAssignmentCompliance } from '@/lib/organizations/assignment-tracking'
+import { resolveTeamScope } from '@/lib/organizations/team-scope'
+import { getUpdateTimestamp } from '@/lib/utils'
+import { learningAssignmentUpdateSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/organizations/[id]/assignments/[assignmentId]?teamId=
+ * Get an assignment with each assignee's status and the compliance summary
+ * Requires: Organization admin or team manager (sees their teams' members)
+ */
+export const GET = createAuthenticatedRoute<{ id: string; assignmentId: string }>(async (request, context, user) => {
+  const { id, assignmentId } = await context.params
+  const { searchParams } = new URL(request.url)
+
+  const scope = await resolveTeamScope(user.id, id, searchParams.get('teamId'))
+
+  const assignment = await learningAssignmentRepository.getOrganizationAssignment(id, assignmentId)
+  if (!assignment) throw notFoundError('Assignment')
+
+  const compliance = await getAssignmentCompliance(id, [assignment], scope)
+  const { members, summary } = compliance.get(assignment.id) ?? { members: [], summary: undefined }
+
+  return successResponse({
+    assignment,
+    members,
+    summary,
+    canManage: scope.role === 'owner' || scope.role === 'admin',
+  })
+})
+
+/**
+ * PATCH /api/organizations/[id]/assignments/[assignmentId]
+ * Change the due date, reminder window or message; moving the due date lets
+ * open assignees get the reminder and overdue emails again
+ * Requires: Organization admin
+ */
+export const PATCH = createAuthenticatedRoute<{ id: string; assignmentId: string }>(async (request, context, user) => {
+  const { id, assignmentId } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const validation = await validateRequest(request, learningAssignmentUpdateSchema)
+  if (!validation.success) {
+    throw validation.error
+  }
+
+  const updates = validation.data
+  const existing = await learningAssignmentRepository.getOrganizationAssignment(id, assignmentId)
+  if (!existing) throw notFoundError('Assignment')
+
+  if (updates.due_at && new Date(updates.due_at).getTime() <= Date.now()) {
+    throw badRequestError('The due date must be in the future')
+  }
+
+  const assignment = await learningAssignmentRepository.update(assignmentId, {
+    ...updates,
+    ...getUpdateTimestamp(),
+  })
+
+  if (updates.due_at !== undefined && updates.due_at !== existing.due_at) {
+    await learningAssignmentRepository.resetNotices(assignmentId)
+  }
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.ASSIGNMENT_UPDATED,
+    entity_type: EntityTypes.ASSIGNMENT,
+    entity_id: assignmentId,
+    description: `Updated assignment "${assignment.title}"`,
+    metadata: { fields: Object.keys(updates), due_at: assignment.due_at },
+  })
+
+  return successResponse({ assignment })
+})
+
+/**
+ * DELETE /api/organizations/[id]/assignments/[assignmentId]
+ * Delete an assignment and its tracking; enrollments and credits already
+ * spent are kept
+ * Requires: Organization admin
+ */
+export const DELETE = createAuthenticatedRoute<{ id: string; assignmentId: string }>(async (_request, context, user) => {
+  const { id, assignmentId } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const assignment = await learningAssignmentRepository.getOrganizationAssignment(id, assignmentId)
+  if (!assignment) throw notFoundError('Assignment')
+
+  await learningAssignmentRepository.delete(assignmentId)
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.ASSIGNMENT_DELETED,
+    entity_type: EntityTypes.ASSIGNMENT,
+    entity_id: assignmentId,
+    description: `Deleted assignment "${assignment.title}"`,
+    metadata: { content_type: assignment.content_type },
+  })
+
+  return successResponse({ success: true })
+})
@@ -0,0 +1,81 @@
+/**
+ * Organization Learning Assignments API Routes
+ * Courses, the NeuroElemental assessment and diagnostics assigned to members
+ * and teams, with a compliance summary per assignment
+ */
+
+import { createAuthenticatedRoute, requireOrganizationAccess, successResponse, validateRequest } from '@/lib/api'
+import { ActivityActions, EntityTypes, learningAssignmentRepository, logActivity } from '@/lib/db'
+import { createLearningAssignment } from '@/lib/organizations/assign-learning'
+import { getAssignmentCompliance } from '@/lib/organizations/assignment-tracking'
+import { resolveTeamScope } from '@/lib/organizations/team-scope'
+import { learningAssignmentCreateSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/organizations/[id]/assignments?teamId=
+ * List assignments with their compliance summaries
+ *
+ * Admins see every assignee; team managers only the members of the teams
+ * they manage, and only assignments given to any of them. `teamId` narrows
+ * the summaries to one team's subtree.
+ * Requires: Organization admin or team manager
+ */
+export const GET = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
+  const { id } = await context.params
+  const { searchParams } = new URL(request.url)
+
+  const scope = await resolveTeamScope(user.id, id, searchParams.get('teamId'))
+
+  const assignments = await learningAssignmentRepository.getOrganizationAssignments(id)
+  const compliance = await getAssignmentCompliance(id, assignments, scope)
+
+  const withSummaries = assignments
+    .map((assignment) => ({
+      ...assignment,
+      summary: compliance.get(assignment.id)?.summary,
+    }))
+    .filter((assignment) => scope.teamIds === null || (assignment.summary?.assigned ?? 0) > 0)
+
+  return successResponse({
+    assignments: withSummaries,
+    canManage: scope.role === 'owner' || scope.role === 'admin',
+  })
+})
+
+/**
+ * POST /api/organizations/[id]/assignments
+ * Assign a course, the assessment or a diagnostic to members and teams.
+ * Course assignments use one course credit per member enrolled.
+ * Requires: Organization admin
+ */
+export const POST = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
+  const { id } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const validation = await validateRequest(request, learningAssignmentCreateSchema)
+  if (!validation.success) {
+    throw validation.error
+  }
+
+  const result = await createLearningAssignment(id, validation.data, user.id)
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.ASSIGNMENT_CREATED,
+    entity_type: EntityTypes.ASSIGNMENT,
+    entity_id: result.assignment.id,
+    description: `Assigned "${result.assignment.title}" to ${result.assigned} member${result.assigned === 1 ? '' : 's'}`,
+    metadata: {
+      content_type: result.assignment.content_type,
+      course_id: result.assignment.course_id,
+      diagnostic_id: result.assignment.diagnostic_id,
+      due_at: result.assignment.due_at,
+      assigned: result.assigned,
+      credits_used: result.creditsUsed,
+    },
+  })
+
+  return successResponse(result, 201)
+})
@@ -5,6 +5,7 @@
 
 import { createAuthenticatedRoute, successResponse, badRequestError, internalError, requireOrganizationAccess } from '@/lib/api'
 import { createAuditExportJob, getAuditExportJobs } from '@/lib/audit/export'
+import { enqueueJob } from '@/lib/jobs'
 
 /**
  * GET /api/organizations/[id]/audit/export
@@ -110,5 +111,7 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     throw internalError(error || 'Failed to create export job')
   }
 
+  await enqueueJob('audit-exports.process', { jobId: job.id }, { dedupeKey: `audit-export:${job.id}`, createdBy: user.id })
+
   return successResponse({ job }, 201)
 })
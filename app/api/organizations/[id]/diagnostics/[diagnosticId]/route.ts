@@ -9,7 +9,9 @@ import {
   notFoundError,
   forbiddenError,
 } from '@/lib/api';
-import { diagnosticsRepository, isUserOrgMember, isUserOrgAdmin } from '@/lib/db';
+import { diagnosticsRepository, isUserOrgMember, isUserOrgAdmin, teamRepository } from '@/lib/db';
+import { finalizeDiagnostic, releaseDiagnosticResults } from '@/lib/diagnostics';
+import { isMemberInTeamSubtree } from '@/lib/organizations/team-scope';
 import { validateRequest } from '@/lib/validation';
 import { updateDiagnosticSchema } from '@/lib/validation/schemas';
 import { NextRequest } from 'next/server';
@@ -17,6 +19,7 @@ import { NextRequest } from 'next/server';
 type RouteContext = { params: Promise<{ id: string; diagnosticId: string }> };
 
 // GET - Get single diagnostic with responses
+// Results are protected by the organization's privacy policy and each view is recorded
 export const GET = createAuthenticatedRoute(async (_request: NextRequest, context: RouteContext, user) => {
   const { id: organizationId, diagnosticId } = await context.params;
 
@@ -44,13 +47,30 @@ export const GET = createAuthenticatedRoute(async (_request: NextRequest, contex
     }
   }
 
+  const isTargeted =
+    diagnostic.include_all_members ||
+    diagnostic.target_user_ids.includes(user.id) ||
+    (!!diagnostic.target_team_id &&
+      (await isMemberInTeamSubtree(organizationId, user.id, diagnostic.target_team_id)));
+
+  const released = await releaseDiagnosticResults(diagnostic, user.id);
+  const rawResults = diagnostic.results as { individual?: unknown };
+
   return successResponse({
-    diagnostic,
+    diagnostic: released
+      ? {
+        ...diagnostic,
+        results: {
+          ...released.results,
+          // Admins already see each participant when results are not anonymous
+          ...(isAdmin && !diagnostic.anonymous_results && !!rawResults.individual && { individual: rawResults.individual }),
+        },
+        insights: released.insights,
+      }
+      : diagnostic,
+    privacy: released?.privacy ?? null,
     responses,
-    userCanRespond: diagnostic.status === 'active' && (
-      diagnostic.include_all_members ||
-      diagnostic.target_user_ids.includes(user.id)
-    ),
+    userCanRespond: diagnostic.status === 'active' && isTargeted,
   });
 });
 
@@ -74,7 +94,23 @@ export const PATCH = createAuthenticatedRoute(async (request: NextRequest, conte
     throw validation.error;
   }
 
-  const updated = await diagnosticsRepository.updateDiagnostic(diagnosticId, validation.data);
+  const targetTeamId = validation.data.target_team_id;
+  if (targetTeamId && !(await teamRepository.getOrganizationTeam(organizationId, targetTeamId))) {
+    throw notFoundError('Team');
+  }
+
+  // Completing scores the responses and stores the aggregate report
+  const { status, ...updates } = validation.data;
+  const completing = status === 'completed' && diagnostic.status !== 'completed';
+
+  let updated = await diagnosticsRepository.updateDiagnostic(
+    diagnosticId,
+    completing ? updates : validation.data
+  );
+
+  if (completing) {
+    updated = await finalizeDiagnostic(diagnosticId);
+  }
 
   return successResponse({ diagnostic: updated });
 });
@@ -9,7 +9,8 @@ import {
   notFoundError,
   forbiddenError,
 } from '@/lib/api';
-import { diagnosticsRepository, isUserOrgMember, isUserOrgAdmin, getOrganizationMembers } from '@/lib/db';
+import { diagnosticsRepository, isUserOrgMember, isUserOrgAdmin, getOrganizationMembers, teamRepository } from '@/lib/db';
+import { getTeamSubtreeIds } from '@/lib/organizations/teams';
 import { validateRequest } from '@/lib/validation';
 import { createDiagnosticSchema } from '@/lib/validation/schemas';
 import { NextRequest } from 'next/server';
@@ -28,10 +29,21 @@ export const GET = createAuthenticatedRoute(async (request: NextRequest, context
 
   const { searchParams } = new URL(request.url);
   const status = searchParams.get('status') as 'draft' | 'active' | 'in_progress' | 'completed' | 'archived' | null;
+  const teamId = searchParams.get('teamId');
+
+  // Filtering by a team includes diagnostics targeting any team below it
+  let targetTeamIds: string[] | undefined;
+  if (teamId) {
+    const teams = await teamRepository.getOrganizationTeams(organizationId);
+    if (!teams.some((team) => team.id === teamId)) {
+      throw notFoundError('Team');
+    }
+    targetTeamIds = [...getTeamSubtreeIds(teams, [teamId])];
+  }
 
   const diagnostics = await diagnosticsRepository.getOrganizationDiagnostics(
     organizationId,
-    { status: status || undefined }
+    { status: status || undefined, targetTeamIds }
   );
 
   // Also get available templates
@@ -45,7 +57,8 @@ export const GET = createAuthenticatedRoute(async (request: NextRequest, context
   const memberCount = membersResult.data?.length || 0;
 
   return successResponse({
-    diagnostics,
+    // Results are only released, protected and recorded, by the single diagnostic endpoint
+    diagnostics: diagnostics.map((diagnostic) => ({ ...diagnostic, results: {}, insights: [] })),
     templates,
     stats,
     memberCount,
@@ -69,6 +82,10 @@ export const POST = createAuthenticatedRoute(async (request: NextRequest, contex
 
   const data = validation.data;
 
+  if (data.target_team_id && !(await teamRepository.getOrganizationTeam(organizationId, data.target_team_id))) {
+    throw notFoundError('Team');
+  }
+
   // Verify template exists
   const template = await diagnosticsRepository.getTemplateById(data.template_id);
   if (!template) {
@@ -81,7 +98,7 @@ export const POST = createAuthenticatedRoute(async (request: NextRequest, contex
     name: data.name,
     description: data.description,
     target_user_ids: data.target_user_ids,
-    target_department: data.target_department,
+    target_team_id: data.target_team_id,
     include_all_members: data.include_all_members,
     anonymous_results: data.anonymous_results,
     deadline_at: data.deadline_at,
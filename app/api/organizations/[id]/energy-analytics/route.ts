@@ -1,18 +1,26 @@
 import {
   createAuthenticatedRoute,
-  forbiddenError,
-  notFoundError,
   successResponse,
 } from "@/lib/api";
-import { getSupabaseServer } from "@/lib/db";
+import { getSupabaseServer, privacySettingsRepository } from "@/lib/db";
+import { summarizeTeamEnergy, type EnergyCheckIn } from "@/lib/organizations/energy-analytics";
+import { getScopedMemberIds, getScopedTeamCohorts, resolveTeamScope } from "@/lib/organizations/team-scope";
+import { recordAggregateView } from "@/lib/privacy/audit";
+import { getReleaseDay, getReleaseRandom } from "@/lib/privacy/noise";
 
 /**
  * Team Energy Analytics API
  * Requirements: 16.1, 16.2, 16.3, 16.5
  *
- * GET /api/organizations/[id]/energy-analytics
- * Returns aggregate energy data for an organization
- * Only includes data from users who have opted in
+ * GET /api/organizations/[id]/energy-analytics?teamId=
+ * Returns aggregate energy data for an organization, or for one team and
+ * the teams below it. Admins see the whole organization; team managers see
+ * only the teams they manage.
+ * Only includes data from users who have opted in, and only once enough of
+ * them checked in to meet the organization's minimum cohort size, and not
+ * when the teams inside the group would leave too few others to be worked
+ * out. Small cells are suppressed or merged, noise is added if configured
+ * (the same for every view of a group on a day), and every view is recorded.
  */
 
 interface RouteContext {
@@ -20,52 +28,27 @@ interface RouteContext {
 }
 
 export const GET = createAuthenticatedRoute(
-  async (_request, context: RouteContext, user) => {
+  async (request, context: RouteContext, user) => {
     const supabase = getSupabaseServer();
     const { id: organizationId } = await context.params;
+    const teamId = request.nextUrl.searchParams.get("teamId");
 
-    // Verify user has access to this organization
-    const { data: membership } = await (supabase as any)
-      .from("organization_members")
-      .select("role")
-      .eq("organization_id", organizationId)
-      .eq("user_id", user.id)
-      .single() as { data: { role: string } | null };
+    // Admins see everyone, managers their own subtree
+    const scope = await resolveTeamScope(user.id, organizationId, teamId);
+    const [memberIds, teamCohorts] = await Promise.all([
+      getScopedMemberIds(organizationId, scope),
+      getScopedTeamCohorts(organizationId, scope),
+    ]);
 
-    if (!membership) {
-      throw notFoundError("Organization");
-    }
-
-    // Only admins and managers can view team analytics
-    if (!["admin", "manager", "owner"].includes(membership.role)) {
-      throw forbiddenError("You don't have permission to view team analytics");
-    }
-
-    // Get organization members who have opted in to sharing
-    // Requirements: 16.5 - Exclude non-opted-in users
-    const { data: members } = await (supabase as any)
-      .from("organization_members")
-      .select("user_id")
-      .eq("organization_id", organizationId) as { data: Array<{ user_id: string }> | null };
-
-    if (!members || members.length === 0) {
-      return successResponse({
-        totalMembers: 0,
-        optedInMembers: 0,
-        checkInsThisWeek: 0,
-        averageEnergy: 0,
-        modeDistribution: {},
-        protectionModeAlerts: 0,
-      });
-    }
-
-    const memberIds = members.map((m) => m.user_id);
+    const policy = await privacySettingsRepository.getPolicy(organizationId);
 
     // Get opted-in members (check user_preferences for sharing opt-in)
-    const { data: preferences } = await (supabase as any)
-      .from("user_preferences")
-      .select("user_id, preferences")
-      .in("user_id", memberIds) as { data: Array<{ user_id: string; preferences: Record<string, unknown> }> | null };
+    const { data: preferences } = memberIds.length > 0
+      ? await (supabase as any)
+        .from("user_preferences")
+        .select("user_id, preferences")
+        .in("user_id", memberIds) as { data: Array<{ user_id: string; preferences: Record<string, unknown> }> | null }
+      : { data: [] };
 
     const optedInUserIds = (preferences || [])
       .filter((p) => {
@@ -74,55 +57,19 @@ export const GET = createAuthenticatedRoute(
       })
       .map((p) => p.user_id);
 
-    if (optedInUserIds.length === 0) {
-      return successResponse({
-        totalMembers: members.length,
-        optedInMembers: 0,
-        checkInsThisWeek: 0,
-        averageEnergy: 0,
-        modeDistribution: {},
-        protectionModeAlerts: 0,
-      });
-    }
-
     // Get check-ins from the past week for opted-in users only
     const oneWeekAgo = new Date();
     oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
 
-    const { data: checkIns } = await (supabase as any)
-      .from("logs")
-      .select("user_id, data, created_at")
-      .eq("type", "check_in")
-      .in("user_id", optedInUserIds)
-      .gte("created_at", oneWeekAgo.toISOString()) as { data: Array<{ user_id: string; data: Record<string, unknown>; created_at: string }> | null };
-
-    // Calculate statistics
-    const checkInsThisWeek = checkIns?.length || 0;
-
-    // Calculate average energy
-    let totalEnergy = 0;
-    let energyCount = 0;
-    const modeCounts: Record<string, number> = {};
-
-    for (const checkIn of checkIns || []) {
-      const data = checkIn.data as { energy_level?: number; state?: string } | null;
-      if (data?.energy_level) {
-        totalEnergy += data.energy_level;
-        energyCount++;
-      }
-      if (data?.state) {
-        modeCounts[data.state] = (modeCounts[data.state] || 0) + 1;
-      }
-    }
-
-    const averageEnergy = energyCount > 0 ? totalEnergy / energyCount : 0;
-
-    // Calculate mode distribution percentages
-    const totalModes = Object.values(modeCounts).reduce((a, b) => a + b, 0);
-    const modeDistribution: Record<string, number> = {};
-    for (const [mode, count] of Object.entries(modeCounts)) {
-      modeDistribution[mode] = Math.round((count / totalModes) * 100);
-    }
+    const { data: checkIns } = optedInUserIds.length > 0
+      ? await (supabase as any)
+        .from("logs")
+        .select("user_id, data, created_at")
+        .eq("type", "check_in")
+        .in("user_id", optedInUserIds)
+        .gte("created_at", oneWeekAgo.toISOString())
+        .order("created_at", { ascending: true }) as { data: EnergyCheckIn[] | null }
+      : { data: [] };
 
     // Count protection mode alerts (3+ consecutive days)
     // Requirements: 16.3
@@ -152,13 +99,28 @@ export const GET = createAuthenticatedRoute(
       }
     }
 
-    return successResponse({
-      totalMembers: members.length,
-      optedInMembers: optedInUserIds.length,
-      checkInsThisWeek,
-      averageEnergy,
-      modeDistribution,
+    const summary = summarizeTeamEnergy(
+      { totalMembers: memberIds.length, optedInMembers: optedInUserIds.length },
+      checkIns || [],
       protectionModeAlerts,
+      policy,
+      getReleaseRandom({
+        aggregate: "energy_analytics",
+        cohort: [...new Set((checkIns || []).map((checkIn) => checkIn.user_id))],
+        period: getReleaseDay(),
+      }),
+      teamCohorts
+    );
+
+    await recordAggregateView({
+      organizationId,
+      viewerId: user.id,
+      aggregate: "energy_analytics",
+      teamId,
+      privacy: summary.privacy,
+      policy,
     });
+
+    return successResponse(summary);
   }
 );
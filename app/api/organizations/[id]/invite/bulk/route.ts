@@ -99,7 +99,7 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     const trimmedEmail = email.trim().toLowerCase()
 
     try {
-      // Check if user is already a member
+      // Check if user is already an active member (deactivated members can be invited back)
       const { data: userProfile } = await supabase
         .from('profiles')
         .select('id')
@@ -113,6 +113,7 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
         .select('user_id')
         .eq('organization_id', id)
         .eq('user_id', userId)
+        .is('deactivated_at', null)
         .single()
 
       if (existingMember) {
@@ -54,7 +54,7 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
 
   const inviterName: string = profile?.full_name || user.email || 'A team member';
 
-  // Check if user is already a member
+  // Check if user is already an active member (deactivated members can be invited back)
   const { data: userProfile } = await (supabase as any)
     .from('profiles')
     .select('id')
@@ -67,6 +67,7 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
       .select('user_id')
       .eq('organization_id', id)
       .eq('user_id', userProfile.id)
+      .is('deactivated_at', null)
       .maybeSingle() as { data: { user_id: string } | null };
 
     if (existingMember) {
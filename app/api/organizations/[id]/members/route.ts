@@ -3,18 +3,20 @@
  * Handle member management and invitations
  */
 
-import { badRequestError, conflictError, createAuthenticatedRoute, forbiddenError, internalError, requireOrganizationAccess, successResponse, validateRequest } from '@/lib/api'
-import { createOrganizationInvite, getOrganizationMembers, getUserOrgRole, isEmailAlreadyMember, organizationRepository, removeOrganizationMember, updateMemberRole, userRepository } from '@/lib/db'
+import { badRequestError, conflictError, createAuthenticatedRoute, forbiddenError, internalError, notFoundError, requireOrganizationAccess, successResponse, validateRequest } from '@/lib/api'
+import { createOrganizationInvite, getOrganizationMembers, getUserOrgRole, isEmailAlreadyMember, organizationRepository, removeOrganizationMember, teamRepository, updateMemberRole, userRepository } from '@/lib/db'
 import { sendOrganizationInvitation } from '@/lib/email'
 import { logger } from '@/lib/logging'
+import { getTeamSubtreeIds } from '@/lib/organizations/teams'
 import { organizationMemberInviteSchema, organizationMemberUpdateSchema } from '@/lib/validation/schemas'
 
 /**
- * GET /api/organizations/[id]/members
- * Get all organization members
+ * GET /api/organizations/[id]/members?teamId=
+ * Get all organization members, or those of one team and the teams below it
  */
-export const GET = createAuthenticatedRoute<{ id: string }>(async (_request, context, user) => {
+export const GET = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
   const { id } = await context.params
+  const teamId = request.nextUrl.searchParams.get('teamId')
 
   // Check if user is member of organization
   const role = await getUserOrgRole(user.id, id)
@@ -23,6 +25,14 @@ export const GET = createAuthenticatedRoute<{ id: string }>(async (_request, con
   // Get all members
   const members = await getOrganizationMembers(id)
 
+  if (teamId && members.data) {
+    const teams = await teamRepository.getOrganizationTeams(id)
+    if (!teams.some((team) => team.id === teamId)) throw notFoundError('Team')
+
+    const subtree = getTeamSubtreeIds(teams, [teamId])
+    members.data = members.data.filter((member) => member.team_id !== null && subtree.has(member.team_id))
+  }
+
   return successResponse({ members, userRole: role })
 })
 
@@ -0,0 +1,61 @@
+/**
+ * Organization Privacy Settings API Routes
+ * How aggregates about members (energy analytics, diagnostic results,
+ * reports) are protected
+ */
+
+import { createAuthenticatedRoute, requireOrganizationAccess, successResponse, validateRequest } from '@/lib/api'
+import { ActivityActions, EntityTypes, logActivity, privacySettingsRepository } from '@/lib/db'
+import { organizationPrivacySettingsSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/organizations/[id]/privacy
+ * Get the privacy policy, or the default if none is set
+ * Requires: Organization member
+ */
+export const GET = createAuthenticatedRoute<{ id: string }>(async (_request, context, user) => {
+  const { id } = await context.params
+
+  await requireOrganizationAccess(user.id, id)
+
+  const policy = await privacySettingsRepository.getPolicy(id)
+
+  return successResponse({ policy })
+})
+
+/**
+ * PATCH /api/organizations/[id]/privacy
+ * Update the minimum cohort size, small-cell handling or noise budget
+ * Requires: Organization admin
+ */
+export const PATCH = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
+  const { id } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const validation = await validateRequest(request, organizationPrivacySettingsSchema)
+  if (!validation.success) {
+    throw validation.error
+  }
+
+  const current = await privacySettingsRepository.getPolicy(id)
+  const { min_cohort_size, small_cell_handling, noise_epsilon } = validation.data
+
+  const policy = await privacySettingsRepository.savePolicy(id, {
+    minCohortSize: min_cohort_size ?? current.minCohortSize,
+    smallCellHandling: small_cell_handling ?? current.smallCellHandling,
+    noiseEpsilon: noise_epsilon === undefined ? current.noiseEpsilon : noise_epsilon,
+  }, user.id)
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.SETTINGS_UPDATED,
+    entity_type: EntityTypes.SETTINGS,
+    entity_id: id,
+    description: 'Updated privacy settings for member aggregates',
+    metadata: { previous: { ...current }, policy: { ...policy } },
+  })
+
+  return successResponse({ policy })
+})
@@ -0,0 +1,35 @@
+/**
+ * Organization Aggregate Views API Route
+ * Audit trail of who viewed which aggregate about the organization's members
+ */
+
+import { createAuthenticatedRoute, getPaginationParams, getQueryParam, paginatedResponse, requireOrganizationAccess } from '@/lib/api'
+import { aggregateViewRepository } from '@/lib/db'
+import { AGGREGATE_KINDS } from '@/lib/privacy/aggregation'
+
+/**
+ * GET /api/organizations/[id]/privacy/views
+ * Query params:
+ * - aggregate: energy_analytics, diagnostic_results or report (default: all)
+ * - viewerId: only views by this user
+ * - page, limit
+ * Requires: Organization admin
+ */
+export const GET = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
+  const { id } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const { page, limit, offset } = getPaginationParams(request, { limit: 25 })
+  const aggregate = getQueryParam(request, 'aggregate')
+  const viewerId = getQueryParam(request, 'viewerId')
+
+  const { views, total } = await aggregateViewRepository.list(id, {
+    aggregate: aggregate && aggregate in AGGREGATE_KINDS ? aggregate : undefined,
+    viewerId: viewerId || undefined,
+    limit,
+    offset,
+  })
+
+  return paginatedResponse(views, total, page, limit)
+})
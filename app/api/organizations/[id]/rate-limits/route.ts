@@ -12,6 +12,7 @@ import {
   validateRequest,
 } from "@/lib/api";
 import { getSupabaseServer } from "@/lib/db";
+import { getRateLimitStatus, invalidateRateLimitConfig } from "@/lib/middleware";
 import { getUpdateTimestamp } from "@/lib/utils";
 import { z } from "zod";
 
@@ -77,6 +78,9 @@ export const GET = createAuthenticatedRoute<{ id: string }>(
       .select("*")
       .eq("organization_id", id) as { data: { request_count?: number; webhook_count?: number }[] | null };
 
+    // Live usage from the rate limiter (does not count as a request)
+    const status = await getRateLimitStatus(id);
+
     return successResponse({
       config: {
         requests_per_minute: defaultConfig.requests_per_minute,
@@ -89,6 +93,7 @@ export const GET = createAuthenticatedRoute<{ id: string }>(
         enforce_hard_limits: defaultConfig.enforce_hard_limits,
         tier: defaultConfig.tier,
       },
+      status,
       violations: violations || [],
       counters: counters || [],
       usage: {
@@ -162,6 +167,9 @@ export const PUT = createAuthenticatedRoute<{ id: string }>(
       config = data;
     }
 
+    // Apply the new limits on the next request rather than after the cache expires
+    await invalidateRateLimitConfig(id);
+
     return successResponse({
       success: true,
       config: {
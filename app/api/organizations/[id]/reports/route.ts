@@ -4,7 +4,20 @@
  */
 
 import { createAuthenticatedRoute, internalError, notFoundError, requireOrganizationAccess, successResponse, validateRequest } from '@/lib/api';
-import { getSupabaseServer } from '@/lib/db';
+import {
+  assessmentRepository,
+  getSupabaseServer,
+  isUserOrgAdmin,
+  membershipRepository,
+  privacySettingsRepository,
+  teamRepository,
+} from '@/lib/db';
+import { summarizeTeamComposition } from '@/lib/organizations/team-composition';
+import { getScopedMemberIds, getScopedTeamCohorts, resolveTeamScope } from '@/lib/organizations/team-scope';
+import { getManagedTeamIds } from '@/lib/organizations/teams';
+import type { AggregatePrivacy, PrivacyPolicy } from '@/lib/privacy/aggregation';
+import { recordAggregateViews } from '@/lib/privacy/audit';
+import { getReleaseDay, getReleaseRandom } from '@/lib/privacy/noise';
 import type { Json } from '@/lib/types/supabase';
 import { z } from 'zod';
 
@@ -14,11 +27,53 @@ const createReportSchema = z.object({
   end_date: z.string().datetime(),
   data: z.record(z.string(), z.unknown()).optional(),
   format: z.enum(['json', 'csv', 'pdf']).default('json'),
+  team_id: z.string().uuid().optional(),
 });
 
+/** Report data built by the aggregation layer carries how it was protected */
+interface ProtectedReportData {
+  privacy: AggregatePrivacy;
+  policy: PrivacyPolicy;
+}
+
+function isProtectedReportData(data: unknown): data is ProtectedReportData {
+  return !!data && typeof data === 'object' && 'privacy' in data && 'policy' in data;
+}
+
 /**
- * GET /api/organizations/[id]/reports
- * List all reports for an organization
+ * Record a view of each report built from member aggregates
+ */
+async function recordReportViews(
+  organizationId: string,
+  viewerId: string,
+  reports: Array<{ id: string; team_id: string | null; data: unknown }>
+): Promise<void> {
+  await recordAggregateViews(
+    reports
+      .filter((report) => isProtectedReportData(report.data))
+      .map((report) => {
+        const { privacy, policy } = report.data as ProtectedReportData;
+        return {
+          organizationId,
+          viewerId,
+          aggregate: 'report' as const,
+          resourceId: report.id,
+          teamId: report.team_id,
+          privacy,
+          policy,
+        };
+      })
+  );
+}
+
+/**
+ * GET /api/organizations/[id]/reports?teamId=
+ * List reports for an organization
+ *
+ * Organization-wide reports are visible to every member; team reports only
+ * to admins and the managers of that team or a team above it. `teamId`
+ * lists the reports of one team's subtree. Views of reports built from
+ * member aggregates are recorded.
  */
 export const GET = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
   const { id } = await context.params;
@@ -31,11 +86,25 @@ export const GET = createAuthenticatedRoute<{ id: string }>(async (request, cont
   const limit = parseInt(searchParams.get('limit') || '20');
   const offset = parseInt(searchParams.get('offset') || '0');
 
-  // Get reports for this organization
-  const { data: reports, error, count } = await supabase
+  const teamId = searchParams.get('teamId');
+
+  let query = supabase
     .from('usage_reports')
     .select('*', { count: 'exact' })
-    .eq('organization_id', id)
+    .eq('organization_id', id);
+
+  if (teamId) {
+    const scope = await resolveTeamScope(user.id, id, teamId);
+    query = query.in('team_id', scope.teamIds ?? []);
+  } else if (!(await isUserOrgAdmin(user.id, id))) {
+    const managed = getManagedTeamIds(await teamRepository.getOrganizationTeams(id), user.id);
+    query = managed.size > 0
+      ? query.or(`team_id.is.null,team_id.in.(${[...managed].join(',')})`)
+      : query.is('team_id', null);
+  }
+
+  // Get reports for this organization
+  const { data: reports, error, count } = await query
     .order('created_at', { ascending: false })
     .range(offset, offset + limit - 1);
 
@@ -43,6 +112,8 @@ export const GET = createAuthenticatedRoute<{ id: string }>(async (request, cont
     throw notFoundError('Reports');
   }
 
+  await recordReportViews(id, user.id, reports || []);
+
   return successResponse({
     reports: reports || [],
     pagination: {
@@ -57,6 +128,10 @@ export const GET = createAuthenticatedRoute<{ id: string }>(async (request, cont
 /**
  * POST /api/organizations/[id]/reports
  * Create a new report for an organization
+ *
+ * Team composition reports are built on the server from the members'
+ * latest assessment results, protected by the organization's privacy policy.
+ * Reports of the same members on the same day get the same noise.
  */
 export const POST = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
   const { id } = await context.params;
@@ -71,7 +146,32 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
   }
 
   const supabase = getSupabaseServer();
-  const { report_type, start_date, end_date, data = {}, format = 'json' } = validation.data;
+  const { report_type, start_date, end_date, data = {}, format = 'json', team_id } = validation.data;
+
+  // Team reports are limited to admins and the team's managers
+  const scope = team_id ? await resolveTeamScope(user.id, id, team_id) : null;
+
+  let reportData: Record<string, unknown> = data;
+  if (report_type === 'team_composition') {
+    // Organization-wide reports are compared against every team
+    const teamScope = scope ?? { teams: await teamRepository.getOrganizationTeams(id), teamIds: null };
+    const memberIds = scope
+      ? await getScopedMemberIds(id, scope)
+      : await membershipRepository.getActiveMemberIds(id);
+    const topElements = await assessmentRepository.getLatestTopElements(memberIds);
+    const policy = await privacySettingsRepository.getPolicy(id);
+
+    reportData = {
+      ...summarizeTeamComposition(
+        memberIds.length,
+        topElements,
+        policy,
+        getReleaseRandom({ aggregate: 'report', cohort: [...topElements.keys()], period: getReleaseDay() }),
+        await getScopedTeamCohorts(id, teamScope)
+      ),
+      policy,
+    };
+  }
 
   // Create the report
   const { data: report, error } = await (supabase as any)
@@ -81,8 +181,9 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
       report_type,
       start_date,
       end_date,
-      data: data as Json,
+      data: reportData as Json,
       format,
+      team_id: team_id ?? null,
       created_by: user.id,
     })
     .select()
@@ -92,6 +193,8 @@ export const POST = createAuthenticatedRoute<{ id: string }>(async (request, con
     throw internalError('Failed to create report');
   }
 
+  await recordReportViews(id, user.id, [report]);
+
   return successResponse({
     success: true,
     report,
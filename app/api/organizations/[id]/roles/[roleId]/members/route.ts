@@ -48,7 +48,8 @@ export const GET = createAuthenticatedRoute<{ id: string; roleId: string }>(asyn
     .from('organization_members')
     .select('user_id, role, role_id, joined_at, profiles:user_id (id, full_name, email, avatar_url)')
     .eq('organization_id', id)
-    .eq('role_id', roleId) as { data: MemberWithProfile[] | null; error: { message: string } | null }
+    .eq('role_id', roleId)
+    .is('deactivated_at', null) as { data: MemberWithProfile[] | null; error: { message: string } | null }
 
   if (error) {
     logger.error('Error fetching role members', undefined, { errorMsg: error.message })
@@ -0,0 +1,88 @@
+/**
+ * Team Members API Routes
+ * Move members into a team or take them out of it
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  notFoundError,
+  requireOrganizationAccess,
+  successResponse,
+  validateRequest,
+} from '@/lib/api'
+import { ActivityActions, EntityTypes, logActivity, membershipRepository, teamRepository } from '@/lib/db'
+import { organizationTeamMembersSchema } from '@/lib/validation/schemas'
+
+/**
+ * POST /api/organizations/[id]/teams/[teamId]/members
+ * Move members into this team (from whichever team they were in)
+ * Requires: Organization admin
+ */
+export const POST = createAuthenticatedRoute<{ id: string; teamId: string }>(async (request, context, user) => {
+  const { id, teamId } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const validation = await validateRequest(request, organizationTeamMembersSchema)
+  if (!validation.success) {
+    throw validation.error
+  }
+
+  const team = await teamRepository.getOrganizationTeam(id, teamId)
+  if (!team) throw notFoundError('Team')
+
+  const userIds = [...new Set(validation.data.user_ids)]
+  const memberIds = new Set(await membershipRepository.getActiveMemberIds(id))
+  const unknown = userIds.filter((userId) => !memberIds.has(userId))
+  if (unknown.length > 0) {
+    throw badRequestError('Some users are not active members of the organization', { user_ids: unknown })
+  }
+
+  const assigned = await membershipRepository.setMembersTeam(id, userIds, teamId)
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.MEMBER_TEAM_CHANGED,
+    entity_type: EntityTypes.TEAM,
+    entity_id: teamId,
+    description: `Moved ${assigned} member(s) into "${team.name}"`,
+    metadata: { user_ids: userIds },
+  })
+
+  return successResponse({ assigned })
+})
+
+/**
+ * DELETE /api/organizations/[id]/teams/[teamId]/members?user_id=
+ * Take a member out of this team
+ * Requires: Organization admin
+ */
+export const DELETE = createAuthenticatedRoute<{ id: string; teamId: string }>(async (request, context, user) => {
+  const { id, teamId } = await context.params
+
+  const userId = request.nextUrl.searchParams.get('user_id')
+  if (!userId) {
+    throw badRequestError('user_id query parameter required')
+  }
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const member = await membershipRepository.getOrganizationMember(id, userId)
+  if (!member || member.team_id !== teamId) throw notFoundError('Team member')
+
+  await membershipRepository.updateMemberTeam(id, userId, null)
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.MEMBER_TEAM_CHANGED,
+    entity_type: EntityTypes.TEAM,
+    entity_id: teamId,
+    description: `Removed ${member.profiles?.email ?? userId} from the team`,
+    metadata: { user_id: userId },
+  })
+
+  return successResponse({ success: true })
+})
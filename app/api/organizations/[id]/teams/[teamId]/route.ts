@@ -0,0 +1,113 @@
+/**
+ * Single Team API Routes
+ * Rename, move, change the manager of, or delete a team
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  forbiddenError,
+  notFoundError,
+  requireOrganizationAccess,
+  successResponse,
+  validateRequest,
+} from '@/lib/api'
+import { ActivityActions, EntityTypes, isUserOrgMember, logActivity, teamRepository } from '@/lib/db'
+import { formatTeamPath, getTeamPlacementError } from '@/lib/organizations/teams'
+import { organizationTeamUpdateSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/organizations/[id]/teams/[teamId]
+ * Get a team with its path and sub-teams
+ * Requires: Organization member
+ */
+export const GET = createAuthenticatedRoute<{ id: string; teamId: string }>(async (_request, context, user) => {
+  const { id, teamId } = await context.params
+
+  if (!(await isUserOrgMember(user.id, id))) throw forbiddenError()
+
+  const teams = await teamRepository.getOrganizationTeams(id)
+  const team = teams.find((candidate) => candidate.id === teamId)
+  if (!team) throw notFoundError('Team')
+
+  return successResponse({
+    team,
+    path: formatTeamPath(teams, teamId),
+    children: teams.filter((candidate) => candidate.parent_id === teamId),
+  })
+})
+
+/**
+ * PATCH /api/organizations/[id]/teams/[teamId]
+ * Update a team; `parent_id` moves it with everything below it
+ * Requires: Organization admin
+ */
+export const PATCH = createAuthenticatedRoute<{ id: string; teamId: string }>(async (request, context, user) => {
+  const { id, teamId } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const validation = await validateRequest(request, organizationTeamUpdateSchema)
+  if (!validation.success) {
+    throw validation.error
+  }
+
+  const updates = validation.data
+  const teams = await teamRepository.getOrganizationTeams(id)
+  if (!teams.some((team) => team.id === teamId)) throw notFoundError('Team')
+
+  if (updates.parent_id !== undefined) {
+    const placementError = getTeamPlacementError(teams, teamId, updates.parent_id)
+    if (placementError) throw badRequestError(placementError)
+  }
+
+  if (updates.manager_id && !(await isUserOrgMember(updates.manager_id, id))) {
+    throw badRequestError('The manager must be an active member of the organization')
+  }
+
+  const team = await teamRepository.updateTeam(teamId, updates)
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.TEAM_UPDATED,
+    entity_type: EntityTypes.TEAM,
+    entity_id: teamId,
+    description: `Updated ${team.kind} "${team.name}"`,
+    metadata: { fields: Object.keys(updates) },
+  })
+
+  return successResponse({ team })
+})
+
+/**
+ * DELETE /api/organizations/[id]/teams/[teamId]
+ * Delete a team without sub-teams; its members are left without a team
+ * Requires: Organization admin
+ */
+export const DELETE = createAuthenticatedRoute<{ id: string; teamId: string }>(async (_request, context, user) => {
+  const { id, teamId } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const teams = await teamRepository.getOrganizationTeams(id)
+  const team = teams.find((candidate) => candidate.id === teamId)
+  if (!team) throw notFoundError('Team')
+
+  if (teams.some((candidate) => candidate.parent_id === teamId)) {
+    throw badRequestError('Move or delete the sub-teams first')
+  }
+
+  await teamRepository.delete(teamId)
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.TEAM_DELETED,
+    entity_type: EntityTypes.TEAM,
+    entity_id: teamId,
+    description: `Deleted ${team.kind} "${team.name}"`,
+  })
+
+  return successResponse({ success: true })
+})
@@ -0,0 +1,61 @@
+/**
+ * Team Import API Route
+ * Bulk-assign members to departments and teams from a CSV
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  requireOrganizationAccess,
+  successResponse,
+  validateRequest,
+} from '@/lib/api'
+import { ActivityActions, EntityTypes, logActivity } from '@/lib/db'
+import { importTeamAssignments } from '@/lib/organizations/team-import'
+import type { TeamImportRow } from '@/lib/organizations/teams'
+import { organizationTeamImportSchema } from '@/lib/validation/schemas'
+import Papa from 'papaparse'
+
+/**
+ * POST /api/organizations/[id]/teams/import
+ * Import a CSV with the columns email, team ("Department > Team"),
+ * team_external_id and manager. Missing teams are created. With
+ * `dry_run` nothing is written; any invalid row rejects the whole import.
+ * Requires: Organization admin
+ */
+export const POST = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
+  const { id } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const validation = await validateRequest(request, organizationTeamImportSchema)
+  if (!validation.success) {
+    throw validation.error
+  }
+
+  const { csv, dry_run } = validation.data
+  const parsed = Papa.parse<TeamImportRow>(csv.trim(), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: (header) => header.trim().toLowerCase(),
+  })
+
+  if (!parsed.meta.fields?.includes('email') || !parsed.meta.fields.includes('team')) {
+    throw badRequestError('The CSV needs a header row with at least the columns email and team')
+  }
+
+  const result = await importTeamAssignments(id, parsed.data, { dryRun: dry_run, actorId: user.id })
+
+  if (!result.dryRun && result.errors.length === 0) {
+    await logActivity({
+      organization_id: id,
+      user_id: user.id,
+      action_type: ActivityActions.TEAMS_IMPORTED,
+      entity_type: EntityTypes.TEAM,
+      description: `Imported ${result.membersAssigned} team assignment(s), creating ${result.teamsCreated.length} team(s)`,
+      metadata: { teams_created: result.teamsCreated, managers_set: result.managersSet },
+    })
+  }
+
+  return successResponse({ ...result, applied: !result.dryRun && result.errors.length === 0 })
+})
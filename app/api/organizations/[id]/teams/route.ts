@@ -0,0 +1,85 @@
+/**
+ * Organization Teams API Routes
+ * Departments and teams, nested under each other, with managers
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  forbiddenError,
+  requireOrganizationAccess,
+  successResponse,
+  validateRequest,
+} from '@/lib/api'
+import { ActivityActions, EntityTypes, getUserOrgRole, isUserOrgMember, logActivity, teamRepository } from '@/lib/db'
+import { buildTeamTree, getManagedTeamIds, getTeamPlacementError } from '@/lib/organizations/teams'
+import { organizationTeamCreateSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/organizations/[id]/teams
+ * Get the team tree with member counts
+ * Requires: Organization member
+ */
+export const GET = createAuthenticatedRoute<{ id: string }>(async (_request, context, user) => {
+  const { id } = await context.params
+
+  const role = await getUserOrgRole(user.id, id)
+  if (!role) throw forbiddenError()
+
+  const [teams, memberCounts] = await Promise.all([
+    teamRepository.getOrganizationTeams(id),
+    teamRepository.getMemberCounts(id),
+  ])
+
+  const teamsWithCounts = teams.map((team) => ({
+    ...team,
+    member_count: memberCounts[team.id] || 0,
+  }))
+
+  return successResponse({
+    teams: teamsWithCounts,
+    tree: buildTeamTree(teamsWithCounts),
+    managedTeamIds: [...getManagedTeamIds(teams, user.id)],
+    userRole: role,
+  })
+})
+
+/**
+ * POST /api/organizations/[id]/teams
+ * Create a department or team
+ * Requires: Organization admin
+ */
+export const POST = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
+  const { id } = await context.params
+
+  await requireOrganizationAccess(user.id, id, true)
+
+  const validation = await validateRequest(request, organizationTeamCreateSchema)
+  if (!validation.success) {
+    throw validation.error
+  }
+
+  const input = validation.data
+  const teams = await teamRepository.getOrganizationTeams(id)
+
+  const placementError = getTeamPlacementError(teams, null, input.parent_id ?? null)
+  if (placementError) throw badRequestError(placementError)
+
+  if (input.manager_id && !(await isUserOrgMember(input.manager_id, id))) {
+    throw badRequestError('The manager must be an active member of the organization')
+  }
+
+  const team = await teamRepository.createTeam(id, input, user.id)
+
+  await logActivity({
+    organization_id: id,
+    user_id: user.id,
+    action_type: ActivityActions.TEAM_CREATED,
+    entity_type: EntityTypes.TEAM,
+    entity_id: team.id,
+    description: `Created ${team.kind} "${team.name}"`,
+    metadata: { parent_id: team.parent_id, manager_id: team.manager_id },
+  })
+
+  return successResponse({ team }, 201)
+})
@@ -18,7 +18,8 @@ export const GET = createAuthenticatedRoute(async (_req, _context, user) => {
         name
       )
     `)
-    .eq('user_id', user.id) as { data: Array<{ id: string; role: string; organizations: { id: string; name: string } | null }> | null; error: unknown };
+    .eq('user_id', user.id)
+    .is('deactivated_at', null) as { data: Array<{ id: string; role: string; organizations: { id: string; name: string } | null }> | null; error: unknown };
 
   if (error) {
     return successResponse({ organizations: [] });
@@ -30,6 +30,7 @@ export const POST = createAuthenticatedRoute(async (req, _context, user) => {
     .select('id, role')
     .eq('user_id', user.id)
     .eq('organization_id', organizationId)
+    .is('deactivated_at', null)
     .single() as { data: { id: string; role: string } | null };
 
   if (!membership) {
@@ -0,0 +1,50 @@
+/**
+ * Quiz Attempts API
+ * POST /api/quizzes/[id]/attempts - Start (or resume) a quiz attempt
+ */
+
+import { RouteContext } from '@/lib/types/api';
+import {
+  createAuthenticatedRoute,
+  successResponse,
+  notFoundError,
+} from '@/lib/api';
+import { toQuestionForTaking } from '@/lib/content/quiz-grading';
+import { requireQuizAccess } from '@/lib/courses';
+import { quizRepository, quizQuestionBankRepository } from '@/lib/db';
+
+type QuizParams = { id: string };
+
+/**
+ * POST /api/quizzes/[id]/attempts
+ * Start an attempt with its own question set (drawn from the quiz's pools and
+ * shuffled as configured). An unfinished attempt is resumed instead, so
+ * reloading does not draw new questions.
+ */
+export const POST = createAuthenticatedRoute<QuizParams>(
+  async (_request, context: RouteContext<QuizParams>, user) => {
+    const { id } = await context.params;
+
+    const quiz = await quizRepository.findByIdWithQuestions(id);
+    if (!quiz) {
+      throw notFoundError('Quiz');
+    }
+
+    await requireQuizAccess(user.id, quiz);
+
+    const poolQuestions = await quizQuestionBankRepository.findQuestionsByBankIds(
+      [...new Set(quiz.question_pools.map((pool) => pool.bank_id))]
+    );
+
+    const attempt = await quizRepository.startAttempt(user.id, quiz, poolQuestions);
+
+    // Remove correct answers from questions for quiz-taking
+    const questionsForTaking = attempt.questions.map((q) => toQuestionForTaking(q));
+
+    return successResponse({
+      attempt_id: attempt.id,
+      started_at: attempt.started_at,
+      questions: questionsForTaking,
+    }, 201);
+  }
+);
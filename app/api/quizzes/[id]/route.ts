@@ -11,9 +11,11 @@ import {
   createAdminRoute,
   successResponse,
   notFoundError,
+  badRequestError,
   validateRequest,
 } from '@/lib/api';
-import { quizRepository } from '@/lib/db';
+import { quizRepository, quizQuestionBankRepository } from '@/lib/db';
+import { invalidateSearchIndex } from '@/lib/search';
 import { quizCreateSchema } from '@/lib/validation/schemas';
 
 type QuizParams = { id: string };
@@ -53,7 +55,17 @@ export const PUT = createAdminRoute<QuizParams>(
       throw validation.error;
     }
 
-    const { title, passing_score, questions } = validation.data;
+    const { title, passing_score, questions, question_pools, shuffle_questions, shuffle_options } =
+      validation.data;
+
+    if (question_pools?.length) {
+      const missing = await quizQuestionBankRepository.findMissingBankIds(
+        question_pools.map((pool) => pool.bank_id)
+      );
+      if (missing.length > 0) {
+        throw badRequestError('Unknown question bank', { bank_ids: missing });
+      }
+    }
 
     // Update with provided fields
     const updateData: Record<string, unknown> = {};
@@ -67,8 +79,14 @@ export const PUT = createAdminRoute<QuizParams>(
       }));
     }
 
+    if (question_pools) updateData.question_pools = question_pools;
+    if (shuffle_questions !== undefined) updateData.shuffle_questions = shuffle_questions;
+    if (shuffle_options !== undefined) updateData.shuffle_options = shuffle_options;
+
     const quiz = await quizRepository.update(id, updateData);
 
+    await invalidateSearchIndex();
+
     return successResponse({ quiz });
   }
 );
@@ -88,6 +106,8 @@ export const DELETE = createAdminRoute<QuizParams>(
 
     await quizRepository.delete(id);
 
+    await invalidateSearchIndex();
+
     return successResponse({ success: true, message: 'Quiz deleted' });
   }
 );
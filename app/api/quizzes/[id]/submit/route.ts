@@ -10,19 +10,23 @@ import {
   notFoundError,
   validateRequest,
 } from '@/lib/api';
+import { requireQuizAccess } from '@/lib/courses';
 import { quizRepository, type QuizQuestion } from '@/lib/db';
+import { quizAnswerSchema } from '@/lib/validation/schemas';
 import { z } from 'zod';
 
 type QuizParams = { id: string };
 
 /** Quiz submission request schema */
 const submitQuizSchema = z.object({
-  answers: z.record(z.string(), z.union([z.string(), z.boolean()])),
+  answers: z.record(z.string(), quizAnswerSchema),
+  attempt_id: z.string().uuid().optional(),
 });
 
 /**
  * POST /api/quizzes/[id]/submit
- * Submit quiz answers and get results
+ * Submit quiz answers and get results. Answers for a started attempt are
+ * graded against the questions served for that attempt.
  */
 export const POST = createAuthenticatedRoute<QuizParams>(
   async (request, context: RouteContext<QuizParams>, user) => {
@@ -33,27 +37,31 @@ export const POST = createAuthenticatedRoute<QuizParams>(
       throw notFoundError('Quiz');
     }
 
+    await requireQuizAccess(user.id, quiz);
+
     const validation = await validateRequest(request, submitQuizSchema);
     if (!validation.success) {
       throw validation.error;
     }
 
-    const { answers } = validation.data;
+    const { answers, attempt_id } = validation.data;
 
     // Submit attempt and get graded result
-    const { attempt, result } = await quizRepository.submitAttempt(
+    const { attempt, result, questions } = await quizRepository.submitAttempt(
       user.id,
       id,
-      answers
+      answers,
+      attempt_id
     );
 
     // Get correct answers for feedback (only after submission)
-    const feedback = quiz.questions.map((q: QuizQuestion) => ({
+    const feedback = questions.map((q: QuizQuestion) => ({
       question_id: q.id,
       question: q.question,
       user_answer: answers[q.id],
       correct_answer: q.correct_answer,
-      is_correct: answers[q.id]?.toString().toLowerCase() === q.correct_answer.toString().toLowerCase(),
+      is_correct: result.question_grades[q.id]?.correct ?? false,
+      earned_points: result.question_grades[q.id]?.earned ?? 0,
       explanation: q.explanation,
       points: q.points,
     }));
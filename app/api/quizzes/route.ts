@@ -5,7 +5,13 @@
  */
 
 import { createAdminRoute, successResponse, validateRequest, badRequestError } from '@/lib/api';
-import { quizRepository, getSupabaseServer, type QuizQuestion } from '@/lib/db';
+import {
+  quizRepository,
+  quizQuestionBankRepository,
+  getSupabaseServer,
+  type QuizQuestion,
+} from '@/lib/db';
+import { invalidateSearchIndex } from '@/lib/search';
 import { quizCreateSchema } from '@/lib/validation/schemas';
 import { z } from 'zod';
 
@@ -71,7 +77,17 @@ export const POST = createAdminRoute(async (request) => {
     throw validation.error;
   }
 
-  const { lesson_id, title, passing_score, questions } = validation.data;
+  const { lesson_id, title, passing_score, questions, question_pools, shuffle_questions, shuffle_options } =
+    validation.data;
+
+  if (question_pools?.length) {
+    const missing = await quizQuestionBankRepository.findMissingBankIds(
+      question_pools.map((pool) => pool.bank_id)
+    );
+    if (missing.length > 0) {
+      throw badRequestError('Unknown question bank', { bank_ids: missing });
+    }
+  }
 
   // Add IDs to questions if not present
   const questionsWithIds: QuizQuestion[] = questions.map((q, index) => ({
@@ -79,7 +95,10 @@ export const POST = createAdminRoute(async (request) => {
     question: q.question,
     type: q.type,
     options: q.options,
+    items: q.items,
     correct_answer: q.correct_answer,
+    tolerance: q.tolerance,
+    partial_credit: q.partial_credit,
     points: q.points ?? 1,
     explanation: q.explanation,
   }));
@@ -88,8 +107,11 @@ export const POST = createAdminRoute(async (request) => {
     lesson_id,
     title,
     questionsWithIds,
-    passing_score
+    passing_score,
+    { question_pools, shuffle_questions, shuffle_options }
   );
 
+  await invalidateSearchIndex();
+
   return successResponse({ quiz }, 201);
 });
@@ -0,0 +1,75 @@
+/**
+ * Resend Webhook Handler
+ * POST: Record delivery events for sent emails. Hard bounces suppress the
+ * address and spam complaints opt it out of marketing, both in
+ * email_preferences.
+ */
+
+import { badRequestError, createPublicRoute, internalError, successResponse } from '@/lib/api';
+import { emailDeliveryRepository } from '@/lib/db/email-deliveries';
+import { emailPreferencesRepository } from '@/lib/db/email-preferences';
+import { parseResendEvent } from '@/lib/email/delivery-events';
+import { logger } from '@/lib/logging';
+import { getResendWebhookSecret } from '@/lib/utils';
+import { Resend } from 'resend';
+
+// Force dynamic rendering for webhooks
+export const dynamic = 'force-dynamic';
+
+export const POST = createPublicRoute(async (request, _context) => {
+  const body = await request.text();
+  const id = request.headers.get('svix-id');
+  const timestamp = request.headers.get('svix-timestamp');
+  const signature = request.headers.get('svix-signature');
+
+  if (!id || !timestamp || !signature) {
+    throw badRequestError('Missing webhook signature headers');
+  }
+
+  let resend: Resend;
+  let webhookSecret: string;
+  try {
+    webhookSecret = getResendWebhookSecret();
+    resend = new Resend(process.env.RESEND_API_KEY);
+  } catch (err: unknown) {
+    logger.error('Resend webhook is not configured', err instanceof Error ? err : undefined);
+    throw internalError('Webhook not configured');
+  }
+
+  let payload: unknown;
+  try {
+    payload = resend.webhooks.verify({
+      payload: body,
+      headers: { id, timestamp, signature },
+      webhookSecret,
+    });
+  } catch (err: unknown) {
+    logger.error('Resend webhook signature verification failed', err instanceof Error ? err : undefined);
+    throw badRequestError('Invalid webhook signature');
+  }
+
+  const event = parseResendEvent(payload);
+  if (!event) {
+    return successResponse({ received: true, ignored: true });
+  }
+
+  const delivery = await emailDeliveryRepository.applyProviderEvent('resend', event);
+  if (!delivery) {
+    logger.info('Resend event for an email that is not in the delivery log', {
+      type: event.type,
+      providerMessageId: event.providerMessageId,
+    });
+  }
+
+  if (event.hardBounce) {
+    for (const address of event.recipients) {
+      await emailPreferencesRepository.suppressAddress(address, event.detail || 'Hard bounce');
+    }
+  } else if (event.type === 'complained') {
+    for (const address of event.recipients) {
+      await emailPreferencesRepository.optOutMarketingByEmail(address);
+    }
+  }
+
+  return successResponse({ received: true, status: delivery?.status ?? null });
+});
@@ -0,0 +1,61 @@
+/**
+ * SCIM 2.0 - Group
+ * Read, rename, change membership of and delete a group (custom role)
+ */
+
+import { createPublicRoute, parseScimBody, scimResponse, withScim } from '@/lib/api'
+import { deleteScimGroup, getScimGroup, patchScimGroup, replaceScimGroup } from '@/lib/sso'
+import { scimGroupSchema, scimPatchSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/scim/v2/Groups/[id]
+ * Requires scope: scim:provision
+ */
+export const GET = createPublicRoute<{ id: string }>(
+  withScim<{ id: string }>(async (_request, context, scim) => {
+    const { id } = await context.params
+
+    return scimResponse(await getScimGroup(scim.organizationId, id))
+  })
+)
+
+/**
+ * PUT /api/scim/v2/Groups/[id]
+ * Requires scope: scim:provision
+ */
+export const PUT = createPublicRoute<{ id: string }>(
+  withScim<{ id: string }>(async (request, context, scim) => {
+    const { id } = await context.params
+    const input = await parseScimBody(request, scimGroupSchema)
+
+    return scimResponse(await replaceScimGroup(scim.organizationId, id, input))
+  })
+)
+
+/**
+ * PATCH /api/scim/v2/Groups/[id]
+ * Requires scope: scim:provision
+ */
+export const PATCH = createPublicRoute<{ id: string }>(
+  withScim<{ id: string }>(async (request, context, scim) => {
+    const { id } = await context.params
+    const { Operations } = await parseScimBody(request, scimPatchSchema)
+
+    return scimResponse(await patchScimGroup(scim.organizationId, id, Operations))
+  })
+)
+
+/**
+ * DELETE /api/scim/v2/Groups/[id]
+ * Requires scope: scim:provision
+ * Unassigns the role from its members and deletes it
+ */
+export const DELETE = createPublicRoute<{ id: string }>(
+  withScim<{ id: string }>(async (_request, context, scim) => {
+    const { id } = await context.params
+
+    await deleteScimGroup(scim.organizationId, id)
+
+    return scimResponse(null, 204)
+  })
+)
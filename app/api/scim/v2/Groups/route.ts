@@ -0,0 +1,32 @@
+/**
+ * SCIM 2.0 - Groups
+ * List and provision groups, which map onto the organization's custom roles
+ */
+
+import { createPublicRoute, getScimListParams, parseScimBody, scimResponse, withScim } from '@/lib/api'
+import { createScimGroup, listScimGroups } from '@/lib/sso'
+import { scimGroupSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/scim/v2/Groups?filter=&startIndex=&count=
+ * Requires scope: scim:provision
+ */
+export const GET = createPublicRoute(
+  withScim(async (request, _context, scim) => {
+    return scimResponse(await listScimGroups(scim.organizationId, getScimListParams(request)))
+  })
+)
+
+/**
+ * POST /api/scim/v2/Groups
+ * Requires scope: scim:provision
+ * Creates a custom role without permissions; admins grant permissions in the dashboard
+ */
+export const POST = createPublicRoute(
+  withScim(async (request, _context, scim) => {
+    const input = await parseScimBody(request, scimGroupSchema)
+    const group = await createScimGroup(scim.organizationId, scim.userId, input)
+
+    return scimResponse(group, 201)
+  })
+)
@@ -0,0 +1,39 @@
+/**
+ * SCIM 2.0 - Service Provider Configuration
+ * Advertises the SCIM features this server supports (RFC 7643 section 5)
+ */
+
+import { createPublicRoute, scimResponse, withScim } from '@/lib/api'
+import { SCIM_MAX_RESULTS, SCIM_SCHEMAS } from '@/lib/sso'
+import { getAppUrl } from '@/lib/utils'
+
+/**
+ * GET /api/scim/v2/ServiceProviderConfig
+ * Requires scope: scim:provision
+ */
+export const GET = createPublicRoute(
+  withScim(async () => {
+    return scimResponse({
+      schemas: [SCIM_SCHEMAS.SERVICE_PROVIDER_CONFIG],
+      documentationUri: `${getAppUrl()}/docs/api`,
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'OAuth Bearer Token',
+          description: 'Organization API key with the scim:provision scope',
+          primary: true,
+        },
+      ],
+      meta: {
+        resourceType: 'ServiceProviderConfig',
+        location: `${getAppUrl()}/api/scim/v2/ServiceProviderConfig`,
+      },
+    })
+  })
+)
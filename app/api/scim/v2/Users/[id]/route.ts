@@ -0,0 +1,62 @@
+/**
+ * SCIM 2.0 - User
+ * Read, update, deactivate and deprovision a single organization member
+ */
+
+import { createPublicRoute, parseScimBody, scimResponse, withScim } from '@/lib/api'
+import { deleteScimUser, getScimUser, patchScimUser, replaceScimUser } from '@/lib/sso'
+import { scimPatchSchema, scimUserSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/scim/v2/Users/[id]
+ * Requires scope: scim:provision
+ */
+export const GET = createPublicRoute<{ id: string }>(
+  withScim<{ id: string }>(async (_request, context, scim) => {
+    const { id } = await context.params
+
+    return scimResponse(await getScimUser(scim.organizationId, id))
+  })
+)
+
+/**
+ * PUT /api/scim/v2/Users/[id]
+ * Requires scope: scim:provision
+ */
+export const PUT = createPublicRoute<{ id: string }>(
+  withScim<{ id: string }>(async (request, context, scim) => {
+    const { id } = await context.params
+    const input = await parseScimBody(request, scimUserSchema)
+
+    return scimResponse(await replaceScimUser(scim.organizationId, id, input))
+  })
+)
+
+/**
+ * PATCH /api/scim/v2/Users/[id]
+ * Requires scope: scim:provision
+ * `active: false` deactivates the membership
+ */
+export const PATCH = createPublicRoute<{ id: string }>(
+  withScim<{ id: string }>(async (request, context, scim) => {
+    const { id } = await context.params
+    const { Operations } = await parseScimBody(request, scimPatchSchema)
+
+    return scimResponse(await patchScimUser(scim.organizationId, id, Operations))
+  })
+)
+
+/**
+ * DELETE /api/scim/v2/Users/[id]
+ * Requires scope: scim:provision
+ * Removes the organization membership
+ */
+export const DELETE = createPublicRoute<{ id: string }>(
+  withScim<{ id: string }>(async (_request, context, scim) => {
+    const { id } = await context.params
+
+    await deleteScimUser(scim.organizationId, id)
+
+    return scimResponse(null, 204)
+  })
+)
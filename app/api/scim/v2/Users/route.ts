@@ -0,0 +1,31 @@
+/**
+ * SCIM 2.0 - Users
+ * List and provision organization members from the identity provider
+ */
+
+import { createPublicRoute, getScimListParams, parseScimBody, scimResponse, withScim } from '@/lib/api'
+import { createScimUser, listScimUsers } from '@/lib/sso'
+import { scimUserSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/scim/v2/Users?filter=&startIndex=&count=
+ * Requires scope: scim:provision
+ */
+export const GET = createPublicRoute(
+  withScim(async (request, _context, scim) => {
+    return scimResponse(await listScimUsers(scim.organizationId, getScimListParams(request)))
+  })
+)
+
+/**
+ * POST /api/scim/v2/Users
+ * Requires scope: scim:provision
+ */
+export const POST = createPublicRoute(
+  withScim(async (request, _context, scim) => {
+    const input = await parseScimBody(request, scimUserSchema)
+    const user = await createScimUser(scim.organizationId, scim.provider, input)
+
+    return scimResponse(user, 201)
+  })
+)
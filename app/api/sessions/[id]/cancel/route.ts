@@ -0,0 +1,30 @@
+/**
+ * Session Cancellation API
+ * POST /api/sessions/[id]/cancel - Cancel a session
+ */
+
+import {
+  createAuthenticatedRoute,
+  successResponse,
+  validateRequest,
+} from '@/lib/api';
+import { cancelSession } from '@/lib/scheduling';
+import { sessionCancelSchema } from '@/lib/validation/schemas';
+
+/**
+ * POST /api/sessions/[id]/cancel
+ * Cancel a session. Students can cancel until the instructor's cancellation
+ * window; instructors at any time.
+ */
+export const POST = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
+  const { id } = await context.params;
+
+  const validation = await validateRequest(request, sessionCancelSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const session = await cancelSession(id, user.id, validation.data.reason);
+
+  return successResponse({ session });
+});
@@ -0,0 +1,33 @@
+/**
+ * Session API - Individual Session Operations
+ * PATCH /api/sessions/[id] - Reschedule a session
+ */
+
+import {
+  createAuthenticatedRoute,
+  successResponse,
+  validateRequest,
+} from '@/lib/api';
+import { rescheduleSession } from '@/lib/scheduling';
+import { sessionRescheduleSchema } from '@/lib/validation/schemas';
+
+/**
+ * PATCH /api/sessions/[id]
+ * Move a session to a new time. Students can reschedule until the
+ * instructor's cancellation window; instructors at any time.
+ */
+export const PATCH = createAuthenticatedRoute<{ id: string }>(async (request, context, user) => {
+  const { id } = await context.params;
+
+  const validation = await validateRequest(request, sessionRescheduleSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const session = await rescheduleSession(id, user.id, {
+    scheduledAt: new Date(validation.data.scheduled_at),
+    timezone: validation.data.timezone,
+  });
+
+  return successResponse({ session });
+});
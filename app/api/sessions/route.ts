@@ -6,6 +6,7 @@
 import { createAuthenticatedRoute, createPublicRoute, formatPaginationMeta, getPaginationParams, getQueryParam, internalError, successResponse, validateRequest } from '@/lib/api';
 import { getSupabaseServer } from '@/lib/db';
 import { logger } from '@/lib/logging';
+import { bookSession } from '@/lib/scheduling';
 import { sessionCreateRequestSchema } from '@/lib/validation/schemas';
 
 /** Instructor profile */
@@ -27,17 +28,6 @@ interface SessionWithInstructor {
   instructor: InstructorProfile;
 }
 
-/** Session insert data */
-interface SessionInsert {
-  student_id: string;
-  instructor_id: string;
-  scheduled_at: string;
-  duration_minutes?: number;
-  notes?: string | null;
-  status: string;
-  type: string;
-}
-
 // GET - Fetch sessions (public or filtered by user)
 export const GET = createPublicRoute(async (request, _context) => {
   const supabase = getSupabaseServer();
@@ -82,42 +72,24 @@ export const GET = createPublicRoute(async (request, _context) => {
 });
 
 // POST - Book a new session (requires authentication)
+// Rejects times outside the instructor's availability and overlaps with their other sessions
 export const POST = createAuthenticatedRoute(async (request, _context, user) => {
-  const supabase = getSupabaseServer();
-
   // Validate request body
   const validation = await validateRequest(request, sessionCreateRequestSchema);
   if (!validation.success) {
     throw validation.error;
   }
 
-  const { instructor_id, scheduled_at, duration, notes } = validation.data;
+  const { instructor_id, scheduled_at, duration, notes, timezone } = validation.data;
 
-  const sessionData: SessionInsert = {
-    student_id: user.id,
-    instructor_id,
-    scheduled_at,
-    duration_minutes: duration || 60,
+  const session = await bookSession({
+    studentId: user.id,
+    instructorId: instructor_id,
+    scheduledAt: new Date(scheduled_at),
+    durationMinutes: duration,
     notes,
-    status: 'pending',
-    type: 'one-on-one',
-  };
-
-  // Note: Session booking functionality may need schema updates
-   
-  // Type assertion needed: SessionInsert missing fields from generated schema
-   
-  const { data: session, error } = await (supabase
-    .from('sessions') as any)
-    .insert(sessionData)
-    .select()
-    .single() as { data: SessionWithInstructor | null; error: Error | null };
-
-  if (error) {
-    logger.error('Error creating session', error);
-    throw internalError('Failed to create session');
-  }
+    timezone,
+  });
 
   return successResponse({ session }, 201);
 });
-
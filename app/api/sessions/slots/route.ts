@@ -0,0 +1,61 @@
+/**
+ * Session Slots API
+ * GET /api/sessions/slots - Bookable times for an instructor
+ */
+
+import {
+  badRequestError,
+  createPublicRoute,
+  getDateParam,
+  getIntParam,
+  getQueryParam,
+  successResponse,
+} from '@/lib/api';
+import { findSessionSlots, isValidTimezone } from '@/lib/scheduling';
+
+/** Longest range searched in one request */
+const MAX_RANGE_DAYS = 31;
+
+/**
+ * GET /api/sessions/slots
+ * Bookable slots in the viewer's timezone
+ *
+ * Query parameters:
+ * - instructor_id: instructor to book (required)
+ * - from, to: ISO range to search (default: the next 14 days, at most 31 days)
+ * - duration: session length in minutes (15-240, default: 60)
+ * - timezone: IANA timezone to present slots in (default: the instructor's)
+ */
+export const GET = createPublicRoute(async (request) => {
+  const instructorId = getQueryParam(request, 'instructor_id', { required: true }) as string;
+  const from = getDateParam(request, 'from') ?? new Date();
+  const to = getDateParam(request, 'to') ?? new Date(from.getTime() + 14 * 24 * 60 * 60 * 1000);
+  const duration = getIntParam(request, 'duration', { defaultValue: 60, min: 15, max: 240 }) ?? 60;
+  const timezone = getQueryParam(request, 'timezone') || undefined;
+
+  if (to <= from) {
+    throw badRequestError("'to' must be after 'from'");
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw badRequestError(`Search at most ${MAX_RANGE_DAYS} days at a time`);
+  }
+  if (timezone && !isValidTimezone(timezone)) {
+    throw badRequestError('Unknown timezone');
+  }
+
+  const { slots, policy } = await findSessionSlots({
+    instructorId,
+    from,
+    to,
+    durationMinutes: duration,
+    viewerTimezone: timezone,
+  });
+
+  return successResponse({
+    slots,
+    duration,
+    timezone: timezone || policy.timezone,
+    instructor_timezone: policy.timezone,
+    cancellation_window_hours: policy.cancellation_window_hours,
+  });
+});
@@ -4,10 +4,16 @@
  * Public endpoint (no auth required - used for login)
  */
 
-import { checkSSORequired, getSSOProvider } from '@/lib/sso/manage'
-import { generateSAMLAuthnRequest, encodeSAMLRequest, buildSAMLSSOUrl } from '@/lib/sso/saml'
+import { checkSSORequired, getSSOProvider, recordSAMLRequest } from '@/lib/sso/manage'
+import {
+  generateSAMLAuthnRequest,
+  encodeSAMLRequest,
+  buildSAMLSSOUrl,
+  getSAMLServiceProviderUrls,
+  SAML_REQUEST_TTL_MS,
+} from '@/lib/sso/saml'
 import { generateOAuthAuthorizationUrl } from '@/lib/sso/oauth'
-import { createPublicRoute, badRequestError, notFoundError, successResponse, validateRequest } from '@/lib/api'
+import { createPublicRoute, badRequestError, internalError, notFoundError, successResponse, validateRequest } from '@/lib/api'
 import { ssoLoginSchema } from '@/lib/validation/schemas'
 import { getAppUrl } from '@/lib/utils'
 
@@ -52,15 +58,26 @@ export const POST = createPublicRoute(async (request, _context) => {
 
   if (provider.provider_type === 'saml') {
     // Generate SAML AuthnRequest
-    const entityId = `${baseUrl}/api/sso/saml/sp/${provider.organization_id}`
-    const acsUrl = `${baseUrl}/api/sso/saml/acs`
+    const { entityId, acsUrl } = getSAMLServiceProviderUrls(provider.organization_id)
 
-    const { xml } = generateSAMLAuthnRequest(
+    const { requestId, xml } = generateSAMLAuthnRequest(
       provider.id,
       acsUrl,
       entityId
     )
 
+    // Remember the request so the ACS only accepts a response to it (once)
+    const recorded = await recordSAMLRequest({
+      organization_id: provider.organization_id,
+      provider_id: provider.id,
+      request_id: requestId,
+      expires_at: new Date(Date.now() + SAML_REQUEST_TTL_MS).toISOString(),
+    })
+
+    if (!recorded.success) {
+      throw internalError('Failed to start SSO login')
+    }
+
     const encodedRequest = encodeSAMLRequest(xml)
 
     // RelayState contains org ID and redirect URL
@@ -6,9 +6,8 @@
 
 import { NextResponse } from 'next/server'
 import { getSSOProvider } from '@/lib/sso/manage'
-import { generateSAMLMetadata } from '@/lib/sso/saml'
+import { generateSAMLMetadata, getSAMLServiceProviderUrls } from '@/lib/sso/saml'
 import { createPublicRoute, notFoundError, badRequestError } from '@/lib/api'
-import { getAppUrl } from '@/lib/utils'
 /**
  * GET /api/sso/saml/metadata/[organizationId]
  * SAML Service Provider metadata
@@ -29,9 +28,7 @@ export const GET = createPublicRoute<{ organizationId: string }>(async (request,
   }
 
   // Generate metadata
-  const baseUrl = getAppUrl()
-  const entityId = `${baseUrl}/api/sso/saml/sp/${organizationId}`
-  const acsUrl = `${baseUrl}/api/sso/saml/acs`
+  const { entityId, acsUrl } = getSAMLServiceProviderUrls(organizationId)
 
   const metadata = generateSAMLMetadata(entityId, acsUrl)
 
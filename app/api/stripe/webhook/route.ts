@@ -1,6 +1,6 @@
 /**
  * Stripe Webhook Handler for User Purchases
- * POST: Handle checkout sessions, user subscriptions, and invoice events
+ * POST: Handle checkout sessions, refunds, user subscriptions, and invoice events
  *
  * This handles individual user purchases (courses, certifications)
  * For organization/B2B billing, see /api/billing/webhook
@@ -13,6 +13,7 @@ import { successResponse, createPublicRoute, badRequestError, internalError } fr
 import Stripe from 'stripe';
 import { getCurrentTimestamp, getStripeWebhookSecret } from '@/lib/utils';
 import { logger } from '@/lib/logging';
+import { sendNotification } from '@/lib/notifications/dispatcher';
 
 // Force dynamic rendering for webhooks
 export const dynamic = 'force-dynamic';
@@ -116,6 +117,37 @@ export const POST = createPublicRoute(async (request, _context) => {
       break;
     }
 
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      const paymentIntentId =
+        typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+
+      // Partial refunds keep the purchase; only full refunds claw back instructor earnings
+      if (!paymentIntentId || !charge.refunded) break;
+
+      const refundedAt = getCurrentTimestamp();
+
+      await (supabase as any)
+        .from('orders')
+        .update({ status: 'refunded', refunded_at: refundedAt })
+        .eq('stripe_payment_intent_id', paymentIntentId);
+
+      // Course checkouts record the checkout session on the enrollment
+      const checkoutSessions = await stripe.checkout.sessions.list({
+        payment_intent: paymentIntentId,
+        limit: 1,
+      });
+
+      for (const checkoutSession of checkoutSessions.data) {
+        await (supabase as any)
+          .from('course_enrollments')
+          .update({ payment_status: 'refunded', refunded_at: refundedAt })
+          .eq('stripe_session_id', checkoutSession.id);
+      }
+
+      break;
+    }
+
     case 'customer.subscription.created':
     case 'customer.subscription.updated': {
       const subscription = event.data.object as StripeSubscriptionData;
@@ -209,7 +241,7 @@ export const POST = createPublicRoute(async (request, _context) => {
             : undefined,
         });
 
-        // Also create an in-app notification if user exists
+        // Also notify in-app and by push if the user exists
         const { data: profile } = await supabase
           .from('profiles')
           .select('id')
@@ -217,15 +249,11 @@ export const POST = createPublicRoute(async (request, _context) => {
           .single() as { data: UserProfile | null; error: unknown };
 
         if (profile) {
-          await (supabase as any)
-            .from('notifications')
-            .insert({
-              user_id: profile.id,
-              title: 'Payment Failed',
-              message: `Your payment of ${invoice.currency.toUpperCase()} ${(invoice.amount_due / 100).toFixed(2)} failed. Please update your payment method.`,
-              type: 'error',
-              action_url: '/dashboard/billing',
-            });
+          await sendNotification(profile.id, 'payment_failed', {
+            title: 'Payment Failed',
+            message: `Your payment of ${invoice.currency.toUpperCase()} ${(invoice.amount_due / 100).toFixed(2)} failed. Please update your payment method.`,
+            actionUrl: '/dashboard/billing',
+          });
         }
       }
 
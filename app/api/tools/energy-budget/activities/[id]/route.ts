@@ -0,0 +1,35 @@
+/**
+ * Energy Activity Library API Routes - Individual Activity Operations
+ */
+
+import {
+  createAuthenticatedRoute,
+  forbiddenError,
+  notFoundError,
+  successResponse,
+} from "@/lib/api";
+import { energyActivityLibraryRepository } from "@/lib/db/energy-activity-library";
+
+/**
+ * DELETE /api/tools/energy-budget/activities/[id]
+ * Remove an activity from the library
+ */
+export const DELETE = createAuthenticatedRoute<{ id: string }>(
+  async (_req, context, user) => {
+    const { id } = await context.params;
+
+    const activity = await energyActivityLibraryRepository.findByIdOrNull(id);
+
+    if (!activity) {
+      throw notFoundError("Saved activity");
+    }
+
+    if (activity.user_id !== user.id) {
+      throw forbiddenError("You can only delete your own saved activities");
+    }
+
+    await energyActivityLibraryRepository.delete(id);
+
+    return successResponse({ deleted: true });
+  }
+);
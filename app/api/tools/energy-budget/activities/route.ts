@@ -0,0 +1,37 @@
+/**
+ * Energy Activity Library API Routes
+ * Activities a user has saved for reuse across budgets and templates
+ */
+
+import {
+  createAuthenticatedRoute,
+  successResponse,
+  validateRequest,
+} from "@/lib/api";
+import { energyActivityLibraryRepository } from "@/lib/db/energy-activity-library";
+import { energyLibraryActivitySchema } from "@/lib/validation/schemas";
+
+/**
+ * GET /api/tools/energy-budget/activities
+ * List the user's saved activities
+ */
+export const GET = createAuthenticatedRoute(async (_req, _context, user) => {
+  const activities = await energyActivityLibraryRepository.getByUser(user.id);
+
+  return successResponse({ activities });
+});
+
+/**
+ * POST /api/tools/energy-budget/activities
+ * Save an activity to the library (replaces one with the same name)
+ */
+export const POST = createAuthenticatedRoute(async (req, _context, user) => {
+  const validation = await validateRequest(req, energyLibraryActivitySchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const activity = await energyActivityLibraryRepository.save(user.id, validation.data);
+
+  return successResponse({ activity }, 201);
+});
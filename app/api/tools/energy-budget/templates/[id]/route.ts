@@ -0,0 +1,35 @@
+/**
+ * Energy Budget Template API Routes - Individual Template Operations
+ */
+
+import {
+  createAuthenticatedRoute,
+  forbiddenError,
+  notFoundError,
+  successResponse,
+} from "@/lib/api";
+import { energyBudgetTemplateRepository } from "@/lib/db/energy-budget-templates";
+
+/**
+ * DELETE /api/tools/energy-budget/templates/[id]
+ * Remove a weekday template. Budgets created from it are kept.
+ */
+export const DELETE = createAuthenticatedRoute<{ id: string }>(
+  async (_req, context, user) => {
+    const { id } = await context.params;
+
+    const template = await energyBudgetTemplateRepository.findByIdOrNull(id);
+
+    if (!template) {
+      throw notFoundError("Energy budget template");
+    }
+
+    if (template.user_id !== user.id) {
+      throw forbiddenError("You can only delete your own templates");
+    }
+
+    await energyBudgetTemplateRepository.delete(id);
+
+    return successResponse({ deleted: true });
+  }
+);
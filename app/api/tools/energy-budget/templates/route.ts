@@ -0,0 +1,40 @@
+/**
+ * Energy Budget Template API Routes
+ * Recurring weekly templates, at most one per weekday
+ */
+
+import {
+  createAuthenticatedRoute,
+  successResponse,
+  validateRequest,
+} from "@/lib/api";
+import { energyBudgetTemplateRepository } from "@/lib/db/energy-budget-templates";
+import { energyBudgetTemplateSchema } from "@/lib/validation/schemas";
+
+/**
+ * GET /api/tools/energy-budget/templates
+ * List the user's weekday templates
+ */
+export const GET = createAuthenticatedRoute(async (_req, _context, user) => {
+  const templates = await energyBudgetTemplateRepository.getByUser(user.id);
+
+  return successResponse({ templates });
+});
+
+/**
+ * PUT /api/tools/energy-budget/templates
+ * Create or replace the template for a weekday
+ */
+export const PUT = createAuthenticatedRoute(async (req, _context, user) => {
+  const validation = await validateRequest(req, energyBudgetTemplateSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const template = await energyBudgetTemplateRepository.saveForWeekday(
+    user.id,
+    validation.data
+  );
+
+  return successResponse({ template });
+});
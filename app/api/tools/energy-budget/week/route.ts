@@ -0,0 +1,109 @@
+/**
+ * Energy Budget Week API Routes
+ * Week planner built from saved budgets and weekday templates
+ */
+
+import {
+  badRequestError,
+  createAuthenticatedRoute,
+  successResponse,
+  validateRequest,
+} from "@/lib/api";
+import { buildWeekPlan, getUsage, getWeekDates } from "@/lib/content/energy-planner";
+import { assessmentRepository } from "@/lib/db/assessments";
+import { energyBudgetTemplateRepository } from "@/lib/db/energy-budget-templates";
+import { energyBudgetRepository } from "@/lib/db/energy-budgets";
+import { logsRepository } from "@/lib/db/logs";
+import { calendarDateSchema, energyWeekApplySchema } from "@/lib/validation/schemas";
+
+/**
+ * GET /api/tools/energy-budget/week
+ * Plan for a week with over-budget warnings and check-in reconciliation
+ *
+ * Query params:
+ * - start: any YYYY-MM-DD date in the week (default: today)
+ */
+export const GET = createAuthenticatedRoute(async (req, _context, user) => {
+  const url = new URL(req.url);
+  const start = url.searchParams.get("start") || new Date().toISOString().slice(0, 10);
+
+  const parsed = calendarDateSchema.safeParse(start);
+  if (!parsed.success) {
+    throw badRequestError(`Start: ${parsed.error.issues[0].message}`);
+  }
+
+  const dates = getWeekDates(start);
+  const weekEnd = new Date(`${dates[6]}T00:00:00Z`);
+  weekEnd.setUTCDate(weekEnd.getUTCDate() + 1);
+
+  const [templates, budgets, history, assessmentResult] = await Promise.all([
+    energyBudgetTemplateRepository.getByUser(user.id),
+    energyBudgetRepository.getByDateRange(user.id, dates[0], dates[6]),
+    logsRepository.getUserTrackingHistory(user.id, `${dates[0]}T00:00:00.000Z`),
+    assessmentRepository.getLatestResult(user.id),
+  ]);
+
+  // Only check-ins inside the week count towards reconciliation
+  const checkIns = history.checkIns.filter(
+    (checkIn) => checkIn.created_at < weekEnd.toISOString()
+  );
+
+  const plan = buildWeekPlan({
+    weekStart: dates[0],
+    templates,
+    budgets,
+    checkIns,
+    element: assessmentResult?.top_element || history.checkIns[0]?.element || null,
+  });
+
+  return successResponse({ ...plan, templates });
+});
+
+/**
+ * POST /api/tools/energy-budget/week
+ * Create the week's daily budgets from weekday templates
+ */
+export const POST = createAuthenticatedRoute(async (req, _context, user) => {
+  const validation = await validateRequest(req, energyWeekApplySchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const { week_start, overwrite } = validation.data;
+  const dates = getWeekDates(week_start);
+
+  const [templates, existing] = await Promise.all([
+    energyBudgetTemplateRepository.getByUser(user.id),
+    energyBudgetRepository.getByDateRange(user.id, dates[0], dates[6]),
+  ]);
+
+  if (templates.length === 0) {
+    throw badRequestError("Create a weekday template before planning the week");
+  }
+
+  const existingDates = new Set(existing.map((budget) => budget.date));
+  const templatesByWeekday = new Map(
+    templates.map((template) => [template.weekday, template])
+  );
+
+  const targets = dates.flatMap((date) => {
+    const template = templatesByWeekday.get(new Date(`${date}T00:00:00Z`).getUTCDay());
+    return template && (overwrite || !existingDates.has(date)) ? [{ date, template }] : [];
+  });
+
+  const budgets = await Promise.all(
+    targets.map(({ date, template }) =>
+      energyBudgetRepository.upsert(user.id, date, {
+        total_budget: template.total_budget,
+        activities: template.activities,
+        remaining_budget: Math.max(template.total_budget - getUsage(template.activities), 0),
+        template_id: template.id,
+      })
+    )
+  );
+
+  return successResponse({
+    budgets,
+    skipped: dates.filter((date) => !targets.some((target) => target.date === date)),
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  createAuthenticatedRoute,
+  getIntParam,
+  successResponse,
+} from "@/lib/api";
+import { calculateEnergyInsights } from "@/lib/content/energy-insights";
+import { assessmentRepository } from "@/lib/db/assessments";
+import { energyBudgetRepository } from "@/lib/db/energy-budgets";
+import { logsRepository } from "@/lib/db/logs";
+
+/** Weeks of history analyzed when none are requested */
+const DEFAULT_WEEKS = 8;
+
+/**
+ * GET /api/tools/insights
+ * Energy pattern insights across check-ins, state logs and energy budgets
+ *
+ * Query parameters:
+ * - weeks: weeks of history to analyze (2-26, default: 8)
+ */
+export const GET = createAuthenticatedRoute(async (req, _context, user) => {
+  const weeks =
+    getIntParam(req, "weeks", { defaultValue: DEFAULT_WEEKS, min: 2, max: 26 }) ??
+    DEFAULT_WEEKS;
+
+  const end = new Date();
+  const start = new Date(end);
+  start.setUTCDate(start.getUTCDate() - weeks * 7);
+
+  const [history, budgets, assessmentResult] = await Promise.all([
+    logsRepository.getUserTrackingHistory(user.id, start.toISOString()),
+    energyBudgetRepository.getByDateRange(
+      user.id,
+      start.toISOString().slice(0, 10),
+      end.toISOString().slice(0, 10)
+    ),
+    assessmentRepository.getLatestResult(user.id),
+  ]);
+
+  // Personalize to the assessed element, falling back to the latest check-in
+  const element =
+    assessmentResult?.top_element || history.checkIns[0]?.element || null;
+
+  const insights = calculateEnergyInsights({
+    checkIns: history.checkIns,
+    stateLogs: history.stateLogs,
+    budgets,
+    element,
+  });
+
+  return successResponse({
+    period: {
+      start: start.toISOString().slice(0, 10),
+      end: end.toISOString().slice(0, 10),
+      weeks,
+    },
+    ...insights,
+  });
+});
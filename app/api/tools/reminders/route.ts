@@ -4,6 +4,12 @@ import {
   validationError,
 } from "@/lib/api";
 import { getSupabaseServer } from "@/lib/db";
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  isValidTimezone,
+  type ReminderSettings,
+} from "@/lib/reminders";
+import { getUpdateTimestamp } from "@/lib/utils";
 import { z } from "zod";
 
 /**
@@ -13,6 +19,9 @@ import { z } from "zod";
  * GET /api/tools/reminders - Get user's reminder settings
  * POST /api/tools/reminders - Update reminder settings
  * DELETE /api/tools/reminders - Disable all reminders
+ *
+ * Settings are stored in user_preferences.metadata.reminder_settings and
+ * picked up by the send-reminders cron job.
  */
 
 const reminderSettingsSchema = z.object({
@@ -20,16 +29,10 @@ const reminderSettingsSchema = z.object({
   time: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Invalid time format (HH:MM)"),
   method: z.enum(["push", "email", "both"]),
   days: z.array(z.number().min(0).max(6)), // 0 = Sunday, 6 = Saturday
-  timezone: z.string().optional(),
+  timezone: z.string().refine(isValidTimezone, "Invalid timezone").optional(),
 });
 
-interface ReminderSettings {
-  enabled: boolean;
-  time: string;
-  method: "push" | "email" | "both";
-  days: number[];
-  timezone?: string;
-}
+type StoredPreferences = { metadata: Record<string, unknown> | null } | null;
 
 /**
  * GET /api/tools/reminders
@@ -40,16 +43,12 @@ export const GET = createAuthenticatedRoute(async (_request, _context, user) =>
 
   const { data: preferences } = await (supabase as any)
     .from("user_preferences")
-    .select("preferences")
+    .select("metadata")
     .eq("user_id", user.id)
-    .single() as { data: { preferences: Record<string, unknown> } | null };
+    .maybeSingle() as { data: StoredPreferences };
 
-  const reminderSettings: ReminderSettings = (preferences?.preferences as Record<string, unknown>)?.reminder_settings as ReminderSettings || {
-    enabled: false,
-    time: "09:00",
-    method: "push",
-    days: [1, 2, 3, 4, 5], // Weekdays by default
-  };
+  const reminderSettings: ReminderSettings =
+    (preferences?.metadata?.reminder_settings as ReminderSettings) || DEFAULT_REMINDER_SETTINGS;
 
   return successResponse({ settings: reminderSettings });
 });
@@ -74,11 +73,11 @@ export const POST = createAuthenticatedRoute(async (request, _context, user) =>
   // Get existing preferences
   const { data: existing } = await (supabase as any)
     .from("user_preferences")
-    .select("preferences")
+    .select("metadata")
     .eq("user_id", user.id)
-    .single() as { data: { preferences: Record<string, unknown> } | null };
+    .maybeSingle() as { data: StoredPreferences };
 
-  const currentPrefs = (existing?.preferences as Record<string, unknown>) || {};
+  const currentPrefs = existing?.metadata || {};
 
   // Update preferences with new reminder settings
   const updatedPrefs = {
@@ -89,11 +88,14 @@ export const POST = createAuthenticatedRoute(async (request, _context, user) =>
   // Upsert preferences
   const { error } = await (supabase as any)
     .from("user_preferences")
-    .upsert({
-      user_id: user.id,
-      preferences: updatedPrefs,
-      updated_at: new Date().toISOString(),
-    });
+    .upsert(
+      {
+        user_id: user.id,
+        metadata: updatedPrefs,
+        ...getUpdateTimestamp(),
+      },
+      { onConflict: "user_id" }
+    );
 
   if (error) {
     throw new Error("Failed to save reminder settings");
@@ -119,11 +121,11 @@ export const DELETE = createAuthenticatedRoute(async (_request, _context, user)
   // Get existing preferences
   const { data: existing } = await (supabase as any)
     .from("user_preferences")
-    .select("preferences")
+    .select("metadata")
     .eq("user_id", user.id)
-    .single() as { data: { preferences: Record<string, unknown> } | null };
+    .maybeSingle() as { data: StoredPreferences };
 
-  const currentPrefs = (existing?.preferences as Record<string, unknown>) || {};
+  const currentPrefs = existing?.metadata || {};
 
   // Disable reminders
   const updatedPrefs = {
@@ -136,11 +138,14 @@ export const DELETE = createAuthenticatedRoute(async (_request, _context, user)
 
   const { error } = await (supabase as any)
     .from("user_preferences")
-    .upsert({
-      user_id: user.id,
-      preferences: updatedPrefs,
-      updated_at: new Date().toISOString(),
-    });
+    .upsert(
+      {
+        user_id: user.id,
+        metadata: updatedPrefs,
+        ...getUpdateTimestamp(),
+      },
+      { onConflict: "user_id" }
+    );
 
   if (error) {
     throw new Error("Failed to disable reminders");
@@ -5,6 +5,7 @@
 
 import { DEFAULT_PAGE_LIMIT, DEFAULT_PAGE_OFFSET, HTTP_STATUS, badRequestError, createAuthenticatedRoute, internalError, successResponse, validateEnum } from '@/lib/api'
 import { createDataExportRequest, getUserExportRequests } from '@/lib/gdpr'
+import { enqueueJob } from '@/lib/jobs'
 
 /**
  * GET /api/user/data-export
@@ -88,6 +89,13 @@ export const POST = createAuthenticatedRoute(async (request, _context, user) =>
     throw internalError(result.error || 'Failed to create export request')
   }
 
+  if (result.request) {
+    await enqueueJob('data-exports.process', { requestId: result.request.id }, {
+      dedupeKey: `data-export:${result.request.id}`,
+      createdBy: user.id,
+    })
+  }
+
   return successResponse(
     {
       success: true,
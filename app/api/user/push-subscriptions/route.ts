@@ -0,0 +1,56 @@
+/**
+ * Push Subscriptions API
+ * Register and remove this browser's Web Push subscription
+ */
+
+import { createAuthenticatedRoute, successResponse, validateRequest } from '@/lib/api'
+import { pushSubscriptionRepository } from '@/lib/db/push-subscriptions'
+import { getVapidDetails } from '@/lib/push'
+import { pushSubscriptionSchema, pushUnsubscribeSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/user/push-subscriptions
+ * Whether push is configured and how many browsers the user has subscribed
+ */
+export const GET = createAuthenticatedRoute(async (_request, _context, user) => {
+  const subscriptions = await pushSubscriptionRepository.getByUser(user.id);
+
+  return successResponse({
+    enabled: !!getVapidDetails(),
+    count: subscriptions.length,
+  });
+});
+
+/**
+ * POST /api/user/push-subscriptions
+ * Save the subscription for the current browser
+ */
+export const POST = createAuthenticatedRoute(async (request, _context, user) => {
+  const validation = await validateRequest(request, pushSubscriptionSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  const subscription = await pushSubscriptionRepository.upsert(
+    user.id,
+    validation.data,
+    request.headers.get('user-agent')
+  );
+
+  return successResponse({ id: subscription.id }, 201);
+});
+
+/**
+ * DELETE /api/user/push-subscriptions
+ * Remove the subscription for the current browser
+ */
+export const DELETE = createAuthenticatedRoute(async (request, _context, user) => {
+  const validation = await validateRequest(request, pushUnsubscribeSchema);
+  if (!validation.success) {
+    throw validation.error;
+  }
+
+  await pushSubscriptionRepository.removeByEndpoint(user.id, validation.data.endpoint);
+
+  return successResponse({ success: true });
+});
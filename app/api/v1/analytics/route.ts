@@ -0,0 +1,28 @@
+/**
+ * Public API v1 - Analytics
+ * Usage overview of the organization for a trailing window
+ */
+
+import { createPublicRoute, getIntParam, internalError, v1Response, withApiKey } from '@/lib/api'
+import { API_SCOPES } from '@/lib/api-keys'
+import { getOrganizationStats } from '@/lib/analytics'
+
+/**
+ * GET /api/v1/analytics?days=30
+ * Requires scope: analytics:read
+ */
+export const GET = createPublicRoute(
+  withApiKey(API_SCOPES.ANALYTICS_READ, async (request, _context, apiKey) => {
+    const days = getIntParam(request, 'days', { defaultValue: 30, min: 1, max: 365 }) ?? 30
+
+    const result = await getOrganizationStats(apiKey.organizationId, days)
+    if (!result.success) {
+      throw internalError('Failed to get statistics')
+    }
+
+    return v1Response({
+      period_days: days,
+      stats: result.stats,
+    })
+  })
+)
@@ -0,0 +1,23 @@
+/**
+ * Public API v1 - Credits
+ * Current credit balances of the organization
+ */
+
+import { createPublicRoute, v1Response, withApiKey } from '@/lib/api'
+import { API_SCOPES } from '@/lib/api-keys'
+import { creditRepository } from '@/lib/db'
+
+/**
+ * GET /api/v1/credits
+ * Requires scope: credits:read
+ */
+export const GET = createPublicRoute(
+  withApiKey(API_SCOPES.CREDITS_READ, async (_request, _context, apiKey) => {
+    const balances = await creditRepository.getOrganizationAllCredits(apiKey.organizationId)
+
+    return v1Response({
+      organization_id: apiKey.organizationId,
+      balances,
+    })
+  })
+)
@@ -0,0 +1,32 @@
+/**
+ * Public API v1 - Credit Transactions
+ * Cursor-paginated credit ledger of the organization
+ */
+
+import { createPublicRoute, getCursorParams, getQueryParam, v1PageResponse, withApiKey } from '@/lib/api'
+import { API_SCOPES } from '@/lib/api-keys'
+import { creditRepository } from '@/lib/db'
+
+/**
+ * GET /api/v1/credits/transactions?credit_type=&cursor=&limit=
+ * Requires scope: credits:read
+ */
+export const GET = createPublicRoute(
+  withApiKey(API_SCOPES.CREDITS_READ, async (request, _context, apiKey) => {
+    const page = await creditRepository.getCreditTransactionsPage(apiKey.organizationId, {
+      ...getCursorParams(request),
+      credit_type: getQueryParam(request, 'credit_type') ?? undefined,
+    })
+
+    return v1PageResponse(page, (transaction) => ({
+      id: transaction.id,
+      credit_type: transaction.credit_type,
+      transaction_type: transaction.transaction_type,
+      amount: transaction.amount,
+      balance_after: transaction.balance_after,
+      description: transaction.description,
+      expiration_date: transaction.expiration_date,
+      created_at: transaction.created_at,
+    }))
+  })
+)
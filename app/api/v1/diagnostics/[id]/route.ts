@@ -0,0 +1,47 @@
+/**
+ * Public API v1 - Diagnostic
+ * A single diagnostic with its aggregate results once completed
+ */
+
+import { createPublicRoute, notFoundError, v1Response, withApiKey } from '@/lib/api'
+import { API_SCOPES } from '@/lib/api-keys'
+import { diagnosticsRepository } from '@/lib/db'
+import { releaseDiagnosticResults } from '@/lib/diagnostics'
+
+/**
+ * GET /api/v1/diagnostics/[id]
+ * Requires scope: diagnostics:read
+ */
+export const GET = createPublicRoute<{ id: string }>(
+  withApiKey<{ id: string }>(API_SCOPES.DIAGNOSTICS_READ, async (_request, context, apiKey) => {
+    const { id } = await context.params
+
+    const diagnostic = await diagnosticsRepository.getDiagnosticById(id)
+
+    // Report other organizations' diagnostics as missing rather than forbidden
+    if (!diagnostic || diagnostic.organization_id !== apiKey.organizationId) {
+      throw notFoundError('Diagnostic')
+    }
+
+    // Aggregate results are only meaningful once the diagnostic has closed
+    const released = await releaseDiagnosticResults(diagnostic, null)
+
+    return v1Response({
+      id: diagnostic.id,
+      name: diagnostic.name,
+      description: diagnostic.description,
+      type: diagnostic.template?.type ?? null,
+      status: diagnostic.status,
+      anonymous_results: diagnostic.anonymous_results,
+      total_participants: diagnostic.total_participants,
+      completed_participants: diagnostic.completed_participants,
+      deadline_at: diagnostic.deadline_at,
+      started_at: diagnostic.started_at,
+      completed_at: diagnostic.completed_at,
+      created_at: diagnostic.created_at,
+      results: released?.results ?? null,
+      insights: released?.insights ?? [],
+      privacy: released?.privacy ?? null,
+    })
+  })
+)
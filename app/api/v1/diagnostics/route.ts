@@ -0,0 +1,39 @@
+/**
+ * Public API v1 - Diagnostics
+ * Cursor-paginated list of the organization's team diagnostics
+ */
+
+import { createPublicRoute, getCursorParams, getEnumParam, v1PageResponse, withApiKey } from '@/lib/api'
+import { API_SCOPES } from '@/lib/api-keys'
+import { diagnosticsRepository, type DiagnosticStatus } from '@/lib/db'
+
+const DIAGNOSTIC_STATUSES: DiagnosticStatus[] = ['draft', 'active', 'in_progress', 'completed', 'archived']
+
+/**
+ * GET /api/v1/diagnostics?status=&cursor=&limit=
+ * Requires scope: diagnostics:read
+ */
+export const GET = createPublicRoute(
+  withApiKey(API_SCOPES.DIAGNOSTICS_READ, async (request, _context, apiKey) => {
+    const status = getEnumParam(request, 'status', DIAGNOSTIC_STATUSES)
+
+    const page = await diagnosticsRepository.getOrganizationDiagnosticsPage(apiKey.organizationId, {
+      ...getCursorParams(request),
+      status: status ?? undefined,
+    })
+
+    return v1PageResponse(page, (diagnostic) => ({
+      id: diagnostic.id,
+      name: diagnostic.name,
+      type: diagnostic.template?.type ?? null,
+      status: diagnostic.status,
+      anonymous_results: diagnostic.anonymous_results,
+      total_participants: diagnostic.total_participants,
+      completed_participants: diagnostic.completed_participants,
+      deadline_at: diagnostic.deadline_at,
+      started_at: diagnostic.started_at,
+      completed_at: diagnostic.completed_at,
+      created_at: diagnostic.created_at,
+    }))
+  })
+)
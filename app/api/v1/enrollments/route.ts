@@ -0,0 +1,144 @@
+/**
+ * Public API v1 - Enrollments
+ * List course enrollments of organization members and enroll members using course credits
+ */
+
+import {
+  badRequestError,
+  conflictError,
+  createPublicRoute,
+  getCursorParams,
+  getQueryParam,
+  notFoundError,
+  v1PageResponse,
+  v1Response,
+  validateRequest,
+  withApiKey,
+} from '@/lib/api'
+import { API_SCOPES } from '@/lib/api-keys'
+import {
+  ActivityActions,
+  courseRepository,
+  creditRepository,
+  enrollmentRepository,
+  EntityTypes,
+  logActivity,
+  membershipRepository,
+  organizationRepository,
+} from '@/lib/db'
+import { v1EnrollmentCreateSchema } from '@/lib/validation/schemas'
+
+/** Course credits consumed per API enrollment */
+const CREDITS_PER_ENROLLMENT = 1
+
+/**
+ * GET /api/v1/enrollments?user_id=&course_id=&cursor=&limit=
+ * Requires scope: courses:read
+ */
+export const GET = createPublicRoute(
+  withApiKey(API_SCOPES.COURSES_READ, async (request, _context, apiKey) => {
+    const userId = getQueryParam(request, 'user_id')
+    const courseId = getQueryParam(request, 'course_id')
+
+    const memberships = await membershipRepository.findAll({ organization_id: apiKey.organizationId })
+    const memberIds = memberships
+      .map((membership) => membership.user_id)
+      .filter((id): id is string => !!id)
+
+    if (userId && !memberIds.includes(userId)) {
+      throw notFoundError('Member')
+    }
+
+    const page = await enrollmentRepository.getEnrollmentsForUsersPage(
+      userId ? [userId] : memberIds,
+      { ...getCursorParams(request), courseId: courseId ?? undefined }
+    )
+
+    return v1PageResponse(page, (enrollment) => ({
+      id: enrollment.id,
+      user_id: enrollment.user_id,
+      course_id: enrollment.course_id,
+      course_title: enrollment.course?.title ?? null,
+      progress_percentage: enrollment.progress_percentage ?? 0,
+      enrolled_at: enrollment.enrolled_at,
+      completed_at: enrollment.completed_at,
+    }))
+  })
+)
+
+/**
+ * POST /api/v1/enrollments
+ * Enroll an organization member in a course, consuming one course credit
+ * Requires scope: courses:enroll
+ */
+export const POST = createPublicRoute(
+  withApiKey(API_SCOPES.COURSES_ENROLL, async (request, _context, apiKey) => {
+    const validation = await validateRequest(request, v1EnrollmentCreateSchema)
+    if (!validation.success) {
+      return validation.error
+    }
+
+    const { user_id, course_id } = validation.data
+
+    const [isMember, course] = await Promise.all([
+      organizationRepository.isUserOrgMember(user_id, apiKey.organizationId),
+      courseRepository.findByIdOrNull(course_id),
+    ])
+
+    if (!isMember) throw notFoundError('Member')
+    if (!course) throw notFoundError('Course')
+
+    if (await enrollmentRepository.isUserEnrolled(user_id, course_id)) {
+      throw conflictError('User is already enrolled in this course')
+    }
+
+    const hasCredits = await creditRepository.hasSufficientCredits(
+      apiKey.organizationId,
+      'course',
+      CREDITS_PER_ENROLLMENT
+    )
+    if (!hasCredits) {
+      throw badRequestError('Insufficient course credits')
+    }
+
+    const debit = await creditRepository.deductCredits({
+      organization_id: apiKey.organizationId,
+      credit_type: 'course',
+      amount: CREDITS_PER_ENROLLMENT,
+      user_id,
+      metadata: { source: 'api_v1', course_id, api_key_id: apiKey.keyId },
+    })
+
+    // The organization only pays for an enrollment that happened
+    const enrollment = await enrollmentRepository
+      .enrollUser(user_id, course_id, 'paid')
+      .catch(async (error: unknown) => {
+        await creditRepository.refundCredits(debit, CREDITS_PER_ENROLLMENT, {
+          source: 'api_v1',
+          course_id,
+          api_key_id: apiKey.keyId,
+          reason: 'enrollment_failed',
+        })
+        throw error
+      })
+
+    await logActivity({
+      organization_id: apiKey.organizationId,
+      user_id: apiKey.userId,
+      action_type: ActivityActions.COURSE_ENROLLED,
+      entity_type: EntityTypes.ENROLLMENT,
+      entity_id: enrollment.id,
+      description: `Enrolled member in "${course.title}" via API`,
+      metadata: { course_id, enrolled_user_id: user_id, api_key_id: apiKey.keyId },
+    })
+
+    return v1Response({
+      id: enrollment.id,
+      user_id: enrollment.user_id,
+      course_id: enrollment.course_id,
+      progress_percentage: enrollment.progress_percentage ?? 0,
+      enrolled_at: enrollment.enrolled_at,
+      completed_at: enrollment.completed_at,
+    }, 201)
+  })
+)
@@ -0,0 +1,30 @@
+/**
+ * Public API v1 - Members
+ * Cursor-paginated list of the organization's members
+ */
+
+import { createPublicRoute, getCursorParams, v1PageResponse, withApiKey } from '@/lib/api'
+import { API_SCOPES } from '@/lib/api-keys'
+import { membershipRepository } from '@/lib/db'
+
+/**
+ * GET /api/v1/members?cursor=&limit=
+ * Requires scope: members:read
+ */
+export const GET = createPublicRoute(
+  withApiKey(API_SCOPES.MEMBERS_READ, async (request, _context, apiKey) => {
+    const page = await membershipRepository.getOrganizationMembersPage(
+      apiKey.organizationId,
+      getCursorParams(request)
+    )
+
+    return v1PageResponse(page, (member) => ({
+      id: member.id,
+      user_id: member.user_id,
+      role: member.role,
+      email: member.profiles?.email ?? null,
+      full_name: member.profiles?.full_name ?? null,
+      joined_at: member.joined_at,
+    }))
+  })
+)
@@ -0,0 +1,33 @@
+/**
+ * Public API v1 - Organization
+ * Details of the organization that owns the API key
+ */
+
+import { createPublicRoute, v1Response, withApiKey } from '@/lib/api'
+import { API_SCOPES } from '@/lib/api-keys'
+import { membershipRepository, organizationRepository } from '@/lib/db'
+
+/**
+ * GET /api/v1/organization
+ * Requires scope: org:read
+ */
+export const GET = createPublicRoute(
+  withApiKey(API_SCOPES.ORG_READ, async (_request, _context, apiKey) => {
+    const [organization, memberCount] = await Promise.all([
+      organizationRepository.getOrganization(apiKey.organizationId),
+      membershipRepository.count({ organization_id: apiKey.organizationId }),
+    ])
+
+    return v1Response({
+      id: organization.id,
+      name: organization.name,
+      type: organization.type,
+      industry: organization.industry,
+      size_range: organization.size_range,
+      subscription_tier: organization.subscription_tier,
+      subscription_status: organization.subscription_status,
+      member_count: memberCount,
+      created_at: organization.created_at,
+    })
+  })
+)
@@ -5,6 +5,10 @@ import { EmailCaptureModal } from "@/components/assessment/email-capture-modal";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import {
+  ADAPTIVE_MIN_QUESTIONS,
+  getAdaptiveAssessmentState,
+} from "@/lib/content/adaptive-assessment";
 import {
   ASSESSMENT_SECTIONS,
   ELEMENT_DEFINITIONS,
@@ -25,6 +29,7 @@ import {
   Heart,
   ShieldCheck,
   Users,
+  Zap,
 } from "lucide-react";
 import { useEffect, useMemo, useRef, useState } from "react";
 
@@ -57,6 +62,25 @@ const ALL_SECTIONS = [...ASSESSMENT_SECTIONS, VALIDITY_SECTION];
 /** Total questions including validity */
 const TOTAL_ALL_QUESTIONS = TOTAL_MAIN_QUESTIONS + VALIDITY_QUESTIONS.length;
 
+/** Full questionnaire, or adaptive mode that stops once results are clear */
+type AssessmentMode = "full" | "adaptive";
+
+/** Main answers after which the email capture modal is shown */
+const EMAIL_CAPTURE_AT: Record<AssessmentMode, number> = {
+  full: 18,
+  adaptive: ADAPTIVE_MIN_QUESTIONS,
+};
+
+/** Find the section a question belongs to */
+function findSectionIndex(questionId: number): number {
+  return Math.max(
+    0,
+    ALL_SECTIONS.findIndex((section) =>
+      section.questions.some((q) => q.id === questionId)
+    )
+  );
+}
+
 /** Element emojis for visual feedback */
 const ELEMENT_EMOJIS: Record<ElementType, string> = {
   electric: "⚡",
@@ -75,6 +99,12 @@ export default function AssessmentPage() {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<number, number>>({});
   const [isCalculating, setIsCalculating] = useState(false);
+  const [mode, setMode] = useState<AssessmentMode>("full");
+  // Adaptive mode: question on screen and the order questions were answered in
+  const [adaptiveQuestionId, setAdaptiveQuestionId] = useState<number | null>(
+    null
+  );
+  const [answerOrder, setAnswerOrder] = useState<number[]>([]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -104,6 +134,8 @@ export default function AssessmentPage() {
           sectionIndex,
           questionIndex,
           timestamp,
+          mode: savedMode,
+          answerOrder: savedOrder,
         } = JSON.parse(saved);
         // Only restore if less than 7 days old
         const daysSinceLastSave =
@@ -131,6 +163,18 @@ export default function AssessmentPage() {
           setAnswers(filteredAnswers);
           setCurrentSectionIndex(validSectionIndex);
           setCurrentQuestionIndex(validQuestionIndex);
+          if (savedMode === "adaptive") {
+            const order = (Array.isArray(savedOrder) ? savedOrder : []).filter(
+              (id: number) => filteredAnswers[id] !== undefined
+            );
+            setMode("adaptive");
+            setAnswerOrder(order);
+            setAdaptiveQuestionId(
+              getAdaptiveAssessmentState(filteredAnswers).nextQuestion?.id ??
+                order[order.length - 1] ??
+                null
+            );
+          }
           setShowIntro(false);
         } else {
           localStorage.removeItem("neuro_assessment_progress_v2");
@@ -153,24 +197,39 @@ export default function AssessmentPage() {
           sectionIndex: currentSectionIndex,
           questionIndex: currentQuestionIndex,
           timestamp: Date.now(),
+          mode,
+          answerOrder,
         })
       );
     }
-  }, [answers, currentSectionIndex, currentQuestionIndex]);
+  }, [answers, currentSectionIndex, currentQuestionIndex, mode, answerOrder]);
 
-  const currentSection = ALL_SECTIONS[currentSectionIndex];
-  const currentQuestion = currentSection?.questions[currentQuestionIndex];
+  const isAdaptive = mode === "adaptive";
+  const adaptiveState = useMemo(
+    () => (isAdaptive ? getAdaptiveAssessmentState(answers) : null),
+    [isAdaptive, answers]
+  );
+
+  // Adaptive mode shows whichever question was picked, inside its own section
+  const adaptiveSectionIndex =
+    adaptiveQuestionId !== null ? findSectionIndex(adaptiveQuestionId) : 0;
+  const currentSection =
+    ALL_SECTIONS[isAdaptive ? adaptiveSectionIndex : currentSectionIndex];
+  const currentQuestion = isAdaptive
+    ? (currentSection?.questions.find((q) => q.id === adaptiveQuestionId) ??
+      currentSection?.questions[0])
+    : currentSection?.questions[currentQuestionIndex];
 
   // Calculate overall progress (using all questions including validity)
   const answeredCount = Object.keys(answers).length;
-  const progress = Math.min(100, (answeredCount / TOTAL_ALL_QUESTIONS) * 100);
-  const isValiditySection = currentSectionIndex === ALL_SECTIONS.length - 1;
+  const totalQuestions = adaptiveState
+    ? adaptiveState.answeredCount + adaptiveState.maxRemaining
+    : TOTAL_ALL_QUESTIONS;
+  const progress = Math.min(100, (answeredCount / totalQuestions) * 100);
+  const isValiditySection = currentSection?.id === VALIDITY_SECTION.id;
 
   // Current question number for display (capped at total)
-  const displayQuestionNumber = Math.min(
-    answeredCount + 1,
-    TOTAL_ALL_QUESTIONS
-  );
+  const displayQuestionNumber = Math.min(answeredCount + 1, totalQuestions);
 
   // Calculate current element balance for visual feedback (main questions only)
   const elementProgress = useMemo(() => {
@@ -215,16 +274,30 @@ export default function AssessmentPage() {
 
     const newAnswers = { ...answers, [currentQuestion.id]: rating };
     setAnswers(newAnswers);
+    if (isAdaptive && !answerOrder.includes(currentQuestion.id)) {
+      setAnswerOrder([...answerOrder, currentQuestion.id]);
+    }
 
     // Check if we've reached 50% (18 main questions) and haven't captured email yet
     const mainAnswersCount = Object.keys(newAnswers).filter(
       (id) => parseInt(id) <= 100
     ).length;
-    if (mainAnswersCount === 18 && !emailCaptured && !showEmailCapture) {
+    if (
+      mainAnswersCount === EMAIL_CAPTURE_AT[mode] &&
+      !emailCaptured &&
+      !showEmailCapture
+    ) {
       setShowEmailCapture(true);
       return; // Don't auto-advance, let them interact with modal
     }
 
+    if (isAdaptive) {
+      autoAdvanceTimeoutRef.current = setTimeout(() => {
+        moveToNextQuestion(newAnswers);
+      }, AUTO_ADVANCE_DELAY);
+      return;
+    }
+
     // Check if this is the last question - finish directly with new answers
     const isLastQuestionInSection =
       currentQuestionIndex >= currentSection.questions.length - 1;
@@ -251,7 +324,39 @@ export default function AssessmentPage() {
     }, AUTO_ADVANCE_DELAY);
   };
 
-  const moveToNextQuestion = () => {
+  const startAssessment = (selectedMode: AssessmentMode) => {
+    setMode(selectedMode);
+    if (selectedMode === "adaptive") {
+      setAdaptiveQuestionId(
+        getAdaptiveAssessmentState(answers).nextQuestion?.id ?? null
+      );
+    }
+    setShowIntro(false);
+  };
+
+  const moveToNextQuestion = (
+    latestAnswers: Record<number, number> = answers
+  ) => {
+    if (isAdaptive) {
+      // Step forward through questions already answered, then ask a new one
+      const orderIndex =
+        adaptiveQuestionId !== null
+          ? answerOrder.indexOf(adaptiveQuestionId)
+          : -1;
+      if (orderIndex >= 0 && orderIndex < answerOrder.length - 1) {
+        setAdaptiveQuestionId(answerOrder[orderIndex + 1]);
+        return;
+      }
+
+      const state = getAdaptiveAssessmentState(latestAnswers);
+      if (state.isComplete || !state.nextQuestion) {
+        finishAssessment(latestAnswers);
+      } else {
+        setAdaptiveQuestionId(state.nextQuestion.id);
+      }
+      return;
+    }
+
     if (currentQuestionIndex < currentSection.questions.length - 1) {
       // Move to next question in current section
       setCurrentQuestionIndex(currentQuestionIndex + 1);
@@ -266,6 +371,19 @@ export default function AssessmentPage() {
   };
 
   const moveToPreviousQuestion = () => {
+    if (isAdaptive) {
+      const orderIndex =
+        adaptiveQuestionId !== null
+          ? answerOrder.indexOf(adaptiveQuestionId)
+          : -1;
+      const previousId =
+        answerOrder[(orderIndex >= 0 ? orderIndex : answerOrder.length) - 1];
+      if (previousId !== undefined) {
+        setAdaptiveQuestionId(previousId);
+      }
+      return;
+    }
+
     if (currentQuestionIndex > 0) {
       // Move to previous question in current section
       setCurrentQuestionIndex(currentQuestionIndex - 1);
@@ -296,9 +414,9 @@ export default function AssessmentPage() {
       }
     });
 
-    // Validate we have enough answers
+    // Validate we have enough answers (adaptive sessions are checked by the API)
     const answerCount = Object.keys(cleanedAnswers).length;
-    if (answerCount < 30) {
+    if (!isAdaptive && answerCount < 30) {
       console.error("Not enough answers to submit:", answerCount);
       setIsCalculating(false);
       isSubmittingRef.current = false;
@@ -327,7 +445,7 @@ export default function AssessmentPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ answers: cleanedAnswers }),
+        body: JSON.stringify({ answers: cleanedAnswers, mode }),
       });
 
       // Handle non-JSON responses (like Vercel's WAF 403)
@@ -410,7 +528,9 @@ export default function AssessmentPage() {
     }
   };
 
-  const canGoBack = currentSectionIndex > 0 || currentQuestionIndex > 0;
+  const canGoBack = isAdaptive
+    ? answerOrder.length > 0 && answerOrder[0] !== adaptiveQuestionId
+    : currentSectionIndex > 0 || currentQuestionIndex > 0;
   const currentAnswer = answers[currentQuestion?.id];
 
   // Get section icon
@@ -516,15 +636,36 @@ export default function AssessmentPage() {
                 </p>
               </div>
 
-              <div className="pt-6">
+              <div className="mt-8 p-6 bg-primary/5 border-l-4 border-primary rounded-r-lg">
+                <h3 className="text-lg font-semibold text-foreground mb-3">
+                  Prefer a Shorter Version?
+                </h3>
+                <p className="text-sm text-foreground/80">
+                  The adaptive assessment picks each next statement based on
+                  your answers so far and stops as soon as your top elements
+                  are clear, usually well before the end. Your results show how
+                  confident we are in each element.
+                </p>
+              </div>
+
+              <div className="pt-6 flex flex-col md:flex-row gap-3">
                 <Button
-                  onClick={() => setShowIntro(false)}
+                  onClick={() => startAssessment("full")}
                   size="lg"
                   className="w-full md:w-auto"
                 >
                   Begin Assessment
                   <ArrowRight className="ml-2 w-5 h-5" />
                 </Button>
+                <Button
+                  onClick={() => startAssessment("adaptive")}
+                  size="lg"
+                  variant="outline"
+                  className="w-full md:w-auto"
+                >
+                  <Zap className="mr-2 w-5 h-5" />
+                  Take the Adaptive Version
+                </Button>
               </div>
             </div>
           </Card>
@@ -567,15 +708,17 @@ export default function AssessmentPage() {
               <div className="flex justify-between text-sm font-medium text-muted-foreground">
                 <span className="flex items-center gap-2">
                   <SectionIcon className="w-4 h-4" />
-                  Section {currentSectionIndex + 1} of {ALL_SECTIONS.length}:{" "}
-                  {currentSection.title}
+                  {isAdaptive
+                    ? "Adaptive assessment"
+                    : `Section ${currentSectionIndex + 1} of ${ALL_SECTIONS.length}: ${currentSection.title}`}
                 </span>
                 <span>{Math.round(progress)}% Complete</span>
               </div>
               <Progress value={progress} className="h-2" />
               <div className="flex justify-between items-center">
                 <p className="text-xs text-muted-foreground">
-                  Question {displayQuestionNumber} of {TOTAL_ALL_QUESTIONS}
+                  Question {displayQuestionNumber} of{" "}
+                  {isAdaptive ? `up to ${totalQuestions}` : totalQuestions}
                 </p>
                 {topEmergingElement &&
                   answeredCount >= 6 &&
@@ -670,10 +813,15 @@ export default function AssessmentPage() {
                   </Button>
 
                   {currentAnswer && (
-                    <Button onClick={moveToNextQuestion} className="group">
-                      {currentSectionIndex === ALL_SECTIONS.length - 1 &&
-                      currentQuestionIndex ===
-                        currentSection.questions.length - 1
+                    <Button
+                      onClick={() => moveToNextQuestion()}
+                      className="group"
+                    >
+                      {(isAdaptive
+                        ? adaptiveState?.isComplete
+                        : currentSectionIndex === ALL_SECTIONS.length - 1 &&
+                          currentQuestionIndex ===
+                            currentSection.questions.length - 1)
                         ? "Finish"
                         : "Next"}
                       <ArrowRight className="ml-2 w-4 h-4 group-hover:translate-x-1 transition-transform" />
@@ -683,22 +831,24 @@ export default function AssessmentPage() {
               </div>
             </Card>
 
-            {/* Section Progress Indicators */}
-            <div className="flex justify-center gap-2">
-              {ALL_SECTIONS.map((section, index) => (
-                <div
-                  key={section.id}
-                  className={`h-2 rounded-full transition-all duration-300 ${
-                    index < currentSectionIndex
-                      ? "w-8 bg-primary"
-                      : index === currentSectionIndex
-                        ? "w-12 bg-primary/60"
-                        : "w-8 bg-border/30"
-                  } ${index === ALL_SECTIONS.length - 1 ? "bg-gradient-to-r from-primary to-purple-500" : ""}`}
-                  title={section.title}
-                />
-              ))}
-            </div>
+            {/* Section Progress Indicators (full mode only) */}
+            {!isAdaptive && (
+              <div className="flex justify-center gap-2">
+                {ALL_SECTIONS.map((section, index) => (
+                  <div
+                    key={section.id}
+                    className={`h-2 rounded-full transition-all duration-300 ${
+                      index < currentSectionIndex
+                        ? "w-8 bg-primary"
+                        : index === currentSectionIndex
+                          ? "w-12 bg-primary/60"
+                          : "w-8 bg-border/30"
+                    } ${index === ALL_SECTIONS.length - 1 ? "bg-gradient-to-r from-primary to-purple-500" : ""}`}
+                    title={section.title}
+                  />
+                ))}
+              </div>
+            )}
 
             {/* Element Balance Preview (after first section, not during validity) */}
             {answeredCount >= 12 && !isValiditySection && (
@@ -763,7 +913,13 @@ export default function AssessmentPage() {
         answeredCount={
           Object.keys(answers).filter((id) => parseInt(id) <= 100).length
         }
-        totalCount={TOTAL_MAIN_QUESTIONS}
+        totalCount={
+          adaptiveState
+            ? adaptiveState.answeredCount + adaptiveState.maxRemaining
+            : TOTAL_MAIN_QUESTIONS
+        }
+        answers={answers}
+        mode={mode}
       />
     </div>
   );
@@ -2,11 +2,13 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/components/auth/auth-provider';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { QuizPlayer, type Quiz, type QuizResult } from '@/components/quiz';
+import type { QuizAnswer } from '@/lib/content/quiz-grading';
+import { describeLock, type LockReason } from '@/lib/courses/gating';
 import { VideoPlayer } from '@/components/video';
 import { BookmarkButton } from '@/components/feedback/bookmark-button';
 import { LessonNotes } from '@/components/feedback/lesson-notes';
@@ -48,6 +50,8 @@ interface Lesson {
   is_free: boolean;
   hasAccess: boolean;
   isCompleted: boolean;
+  unlockAt: string | null;
+  lockReasons: LockReason[];
   has_quiz?: boolean;
 }
 
@@ -99,7 +103,9 @@ function LessonList({ lessons, currentLesson, onSelectLesson }: LessonListProps)
                 {index + 1}. {lesson.title}
               </p>
               <p className="text-xs opacity-75">
-                {lesson.duration_minutes} min
+                {lesson.hasAccess
+                  ? `${lesson.duration_minutes} min`
+                  : describeLock(lesson) ?? 'Locked'}
               </p>
             </div>
           </div>
@@ -112,6 +118,7 @@ function LessonList({ lessons, currentLesson, onSelectLesson }: LessonListProps)
 export default function CourseLearnPage({ params }: { params: { slug: string } }) {
   const { user } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [lessons, setLessons] = useState<Lesson[]>([]);
   const [currentLesson, setCurrentLesson] = useState<Lesson | null>(null);
   const [loading, setLoading] = useState(true);
@@ -137,6 +144,15 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
     fetchCourseAndLessons();
   }, [params.slug]);
 
+  // Lessons with the student's access; locked ones carry unlock dates and reasons
+  const loadLessons = async (courseId: string): Promise<Lesson[]> => {
+    const res = await fetch(`/api/courses/${courseId}/lessons`);
+    const data = await res.json();
+    const courseLessons: Lesson[] = data.lessons || [];
+    setLessons(courseLessons);
+    return courseLessons;
+  };
+
   const fetchCourseAndLessons = async () => {
     try {
       // Fetch course details
@@ -152,17 +168,18 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
       setCourse(course);
 
       // Fetch lessons
-      const lessonsRes = await fetch(`/api/courses/${course.id}/lessons`);
-      const lessonsData = await lessonsRes.json();
-
-      setLessons(lessonsData.lessons || []);
-
-      // Set first accessible lesson as current
-      const firstAccessible = lessonsData.lessons?.find((l: Lesson) =>
+      const courseLessons = await loadLessons(course.id);
+
+      // Open the linked lesson (e.g. from search) if accessible, else the first accessible one
+      const requestedId = searchParams.get('lesson');
+      const requested = requestedId
+        ? courseLessons.find((l) => l.id === requestedId && l.hasAccess)
+        : undefined;
+      const firstAccessible = courseLessons.find((l) =>
         l.hasAccess && !l.isCompleted
-      ) || lessonsData.lessons?.[0];
+      ) || courseLessons.find((l) => l.hasAccess) || courseLessons[0];
 
-      setCurrentLesson(firstAccessible);
+      setCurrentLesson(requested || firstAccessible);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
 
@@ -206,9 +223,13 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
           const { celebrateSuccess, celebrateWithMotionCheck } = await import('@/lib/utils/celebrations');
           celebrateWithMotionCheck(celebrateSuccess);
 
-          const currentIndex = lessons.findIndex(l => l.id === currentLesson.id);
-          if (currentIndex < lessons.length - 1) {
-            setCurrentLesson(lessons[currentIndex + 1]);
+          // Completing a lesson can unlock the ones that require it
+          const refreshed = await loadLessons(course.id);
+
+          const currentIndex = refreshed.findIndex(l => l.id === currentLesson.id);
+          const nextLesson = refreshed[currentIndex + 1];
+          if (nextLesson?.hasAccess) {
+            setCurrentLesson(nextLesson);
           }
         }
       }
@@ -233,7 +254,12 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
       const res = await fetch(`/api/lessons/${lessonId}/quiz`);
       if (res.ok) {
         const data = await res.json();
-        setCurrentQuiz(data.quiz);
+        // Each attempt gets its own question set, graded against what was served
+        const attemptRes = await fetch(`/api/quizzes/${data.quiz.id}/attempts`, { method: 'POST' });
+        if (attemptRes.ok) {
+          const attempt = await attemptRes.json();
+          setCurrentQuiz({ ...data.quiz, questions: attempt.questions, attempt_id: attempt.attempt_id });
+        }
         setQuizProgress(data.user_progress);
       }
     } catch (error) {
@@ -244,13 +270,13 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
   }, []);
 
   // Handle quiz submission
-  const handleQuizSubmit = useCallback(async (answers: Record<string, string | boolean>): Promise<QuizResult> => {
+  const handleQuizSubmit = useCallback(async (answers: Record<string, QuizAnswer>): Promise<QuizResult> => {
     if (!currentQuiz) throw new Error('No quiz loaded');
 
     const res = await fetch(`/api/quizzes/${currentQuiz.id}/submit`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ answers }),
+      body: JSON.stringify({ answers, attempt_id: currentQuiz.attempt_id }),
     });
 
     if (!res.ok) {
@@ -265,6 +291,8 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
   const handleQuizComplete = useCallback((result: QuizResult) => {
     if (result.passed) {
       toast.success('Quiz passed! Great job!');
+      // Passing can unlock lessons that require this quiz
+      if (course) loadLessons(course.id);
       // Update quiz progress state
       setQuizProgress(prev => prev ? {
         ...prev,
@@ -275,7 +303,7 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
     } else {
       toast.error(`Quiz not passed. You need ${result.passing_score}% to pass.`);
     }
-  }, []);
+  }, [course]);
 
   // Switch to quiz view
   const startQuiz = useCallback(() => {
@@ -455,8 +483,27 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
                   </div>
                 </div>
 
+                {/* Locked lesson: drip release date or unmet prerequisites */}
+                {!currentLesson.hasAccess && (
+                  <div className="mb-8 p-6 bg-muted/50 rounded-lg border text-center">
+                    <Lock className="w-8 h-8 mx-auto mb-3 text-muted-foreground" />
+                    <h3 className="font-semibold mb-2">
+                      {currentLesson.unlockAt
+                        ? `Available on ${new Date(currentLesson.unlockAt).toLocaleDateString()}`
+                        : 'This lesson is locked'}
+                    </h3>
+                    <ul className="text-sm text-muted-foreground space-y-1">
+                      {currentLesson.lockReasons
+                        .filter((reason) => reason.type !== 'not_released')
+                        .map((reason) => (
+                          <li key={reason.message}>{reason.message}</li>
+                        ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Video Player */}
-                {currentLesson.video_url && (
+                {currentLesson.hasAccess && currentLesson.video_url && (
                   <div className="mb-8">
                     <VideoPlayer
                       url={currentLesson.video_url}
@@ -466,12 +513,14 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
                 )}
 
                 {/* Lesson Content */}
-                <div className="prose dark:prose-invert max-w-none mb-8">
-                  <div dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(currentLesson.content) }} />
-                </div>
+                {currentLesson.hasAccess && (
+                  <div className="prose dark:prose-invert max-w-none mb-8">
+                    <div dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(currentLesson.content) }} />
+                  </div>
+                )}
 
                 {/* Quiz Section */}
-                {currentLesson.has_quiz && (
+                {currentLesson.hasAccess && currentLesson.has_quiz && (
                   <div className="mb-8 p-6 bg-muted/50 rounded-lg border">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
@@ -527,7 +576,7 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
                   {!currentLesson.isCompleted && user ? (
                     <Button
                       onClick={handleCompleteLesson}
-                      disabled={completing}
+                      disabled={completing || !currentLesson.hasAccess}
                     >
                       {completing ? 'Marking Complete...' : 'Mark as Complete'}
                     </Button>
@@ -547,7 +596,11 @@ export default function CourseLearnPage({ params }: { params: { slug: string } }
                         setViewMode('lesson');
                       }
                     }}
-                    disabled={lessons.findIndex(l => l.id === currentLesson.id) === lessons.length - 1}
+                    disabled={!lessons[lessons.findIndex(l => l.id === currentLesson.id) + 1]?.hasAccess}
+                    title={(() => {
+                      const nextLesson = lessons[lessons.findIndex(l => l.id === currentLesson.id) + 1];
+                      return nextLesson && !nextLesson.hasAccess ? describeLock(nextLesson) ?? undefined : undefined;
+                    })()}
                   >
                     Next
                     <ChevronRight className="w-4 h-4 ml-2" />
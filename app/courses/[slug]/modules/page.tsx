@@ -13,6 +13,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Progress } from '@/components/ui/progress';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { describeLock, type LockReason } from '@/lib/courses/gating';
 import { cn } from '@/lib/utils';
 import {
   ArrowLeft,
@@ -41,6 +42,9 @@ interface Module {
   lessons: Lesson[];
   total_duration: number;
   completion_percentage: number;
+  locked: boolean;
+  unlock_at: string | null;
+  lock_reasons: LockReason[];
 }
 
 interface Lesson {
@@ -56,6 +60,8 @@ interface Lesson {
   quiz?: Quiz;
   completed: boolean;
   locked: boolean;
+  unlock_at: string | null;
+  lock_reasons: LockReason[];
 }
 
 interface Resource {
@@ -121,11 +127,15 @@ export default function CourseModulesPage({ params }: { params: { slug: string }
       const enrichedModules = modulesData.modules || [];
       setModules(enrichedModules);
 
-      // Set first module as current
-      if (enrichedModules.length > 0) {
-        setCurrentModule(enrichedModules[0]);
-        if (enrichedModules[0].lessons?.length > 0) {
-          setCurrentLesson(enrichedModules[0].lessons[0]);
+      // Set the first module with an open lesson as current
+      const firstOpenModule = enrichedModules.find((m: Module) =>
+        m.lessons?.some((l) => !l.locked)
+      ) || enrichedModules[0];
+      if (firstOpenModule) {
+        setCurrentModule(firstOpenModule);
+        const firstOpenLesson = firstOpenModule.lessons?.find((l: Lesson) => !l.locked);
+        if (firstOpenLesson) {
+          setCurrentLesson(firstOpenLesson);
         }
       }
     } catch (error) {
@@ -221,6 +231,15 @@ export default function CourseModulesPage({ params }: { params: { slug: string }
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
+                    {module.locked && (
+                      <span
+                        className="flex items-center gap-1 text-xs text-muted-foreground"
+                        title={describeLock({ unlockAt: module.unlock_at, lockReasons: module.lock_reasons }) ?? undefined}
+                      >
+                        <Lock className="w-3 h-3" />
+                        {module.unlock_at && new Date(module.unlock_at).toLocaleDateString()}
+                      </span>
+                    )}
                     {module.completion_percentage === 100 && (
                       <CheckCircle2 className="w-4 h-4 text-green-500" />
                     )}
@@ -270,7 +289,9 @@ export default function CourseModulesPage({ params }: { params: { slug: string }
                             {lessonIndex + 1}. {lesson.title}
                           </p>
                           <p className="text-xs opacity-75">
-                            {lesson.duration_minutes} min
+                            {lesson.locked
+                              ? describeLock({ unlockAt: lesson.unlock_at, lockReasons: lesson.lock_reasons }) ?? 'Locked'
+                              : `${lesson.duration_minutes} min`}
                           </p>
                         </div>
                       </div>
@@ -0,0 +1,854 @@
+"use client";
+
+import { AdminPageHeader } from "@/components/dashboard/admin-page-header";
+import { AdminPageShell } from "@/components/dashboard/admin-page-shell";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Column,
+  DataTable,
+  RowActionItem,
+  RowActions,
+  StatusBadge,
+} from "@/components/ui/data-table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  CAMPAIGN_EXIT_CONDITIONS,
+  CAMPAIGN_STATUSES,
+  CAMPAIGN_TRIGGERS,
+  DEFAULT_INACTIVE_DAYS,
+  type CampaignEnrollmentStatus,
+  type CampaignExitCondition,
+  type CampaignStatus,
+  type CampaignStepStats,
+  type CampaignTriggerType,
+} from "@/lib/campaigns/rules";
+import { ELEMENT_DEFINITIONS, type ElementType } from "@/lib/content/assessment-questions";
+import { logger } from "@/lib/logging";
+import {
+  ArrowDown,
+  ArrowUp,
+  BarChart3,
+  Edit,
+  Pause,
+  Play,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface CampaignStep {
+  id: string;
+  position: number;
+  delay_hours: number;
+  template_id: string;
+  template: { id: string; slug: string; name: string } | null;
+}
+
+interface Campaign {
+  id: string;
+  name: string;
+  description: string | null;
+  status: CampaignStatus;
+  trigger_type: CampaignTriggerType;
+  trigger_config: {
+    element?: ElementType | null;
+    inactiveDays?: number;
+    courseId?: string | null;
+  };
+  segment: {
+    elements?: ElementType[];
+    roles?: string[];
+    organizationIds?: string[];
+  };
+  exit_conditions: CampaignExitCondition[];
+  steps: CampaignStep[];
+  updated_at: string;
+}
+
+interface CampaignStats {
+  enrollments: Record<CampaignEnrollmentStatus, number>;
+  steps: Record<string, CampaignStepStats>;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface StepForm {
+  id?: string;
+  template_id: string;
+  delay_days: string;
+}
+
+const ELEMENTS = Object.entries(ELEMENT_DEFINITIONS).map(([id, element]) => ({
+  id: id as ElementType,
+  name: element.name,
+}));
+
+const ROLES = ["registered", "student", "instructor", "business", "school"];
+
+const STATUS_BADGES: Record<CampaignStatus, "active" | "inactive" | "pending"> = {
+  draft: "inactive",
+  active: "active",
+  paused: "pending",
+  archived: "inactive",
+};
+
+const EMPTY_FORM = {
+  name: "",
+  description: "",
+  trigger_type: "signup" as CampaignTriggerType,
+  element: "",
+  inactive_days: String(DEFAULT_INACTIVE_DAYS),
+  course_id: "",
+  elements: [] as ElementType[],
+  roles: [] as string[],
+  organization_ids: [] as string[],
+  exit_conditions: [] as CampaignExitCondition[],
+  steps: [{ template_id: "", delay_days: "0" }] as StepForm[],
+};
+
+const toggle = <T,>(list: T[], value: T, on: boolean) =>
+  on ? [...list, value] : list.filter((item) => item !== value);
+
+export default function EmailCampaignsPage() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [templates, setTemplates] = useState<Option[]>([]);
+  const [courses, setCourses] = useState<Option[]>([]);
+  const [organizations, setOrganizations] = useState<Option[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [statsCampaign, setStatsCampaign] = useState<Campaign | null>(null);
+  const [stats, setStats] = useState<CampaignStats | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCampaigns();
+    fetchOptions();
+  }, []);
+
+  const fetchCampaigns = async () => {
+    try {
+      const res = await fetch("/api/admin/email-campaigns");
+      const data = await res.json();
+      setCampaigns(data.campaigns || []);
+    } catch (error: unknown) {
+      logger.error(
+        "Error fetching campaigns",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOptions = async () => {
+    try {
+      const [templatesRes, coursesRes, organizationsRes] = await Promise.all([
+        fetch("/api/admin/email-templates"),
+        fetch("/api/courses?limit=100"),
+        fetch("/api/admin/organizations?limit=100"),
+      ]);
+      const [templatesData, coursesData, organizationsData] = await Promise.all([
+        templatesRes.json(),
+        coursesRes.json(),
+        organizationsRes.json(),
+      ]);
+      setTemplates(
+        (templatesData.templates || []).map(
+          (t: { id: string; name: string; slug: string }) => ({
+            id: t.id,
+            name: `${t.name} (${t.slug})`,
+          })
+        )
+      );
+      setCourses(
+        (coursesData.courses || []).map((c: { id: string; title: string }) => ({
+          id: c.id,
+          name: c.title,
+        }))
+      );
+      setOrganizations(
+        (organizationsData.data || []).map((o: { id: string; name: string }) => ({
+          id: o.id,
+          name: o.name,
+        }))
+      );
+    } catch (error: unknown) {
+      logger.error(
+        "Error fetching campaign options",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (campaign: Campaign) => {
+    setEditingId(campaign.id);
+    setFormData({
+      name: campaign.name,
+      description: campaign.description || "",
+      trigger_type: campaign.trigger_type,
+      element: campaign.trigger_config.element || "",
+      inactive_days: String(
+        campaign.trigger_config.inactiveDays ?? DEFAULT_INACTIVE_DAYS
+      ),
+      course_id: campaign.trigger_config.courseId || "",
+      elements: campaign.segment.elements || [],
+      roles: campaign.segment.roles || [],
+      organization_ids: campaign.segment.organizationIds || [],
+      exit_conditions: campaign.exit_conditions,
+      steps: campaign.steps.map((step) => ({
+        id: step.id,
+        template_id: step.template_id,
+        delay_days: String(step.delay_hours / 24),
+      })),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = {
+      name: formData.name,
+      description: formData.description || null,
+      trigger_type: formData.trigger_type,
+      trigger_config:
+        formData.trigger_type === "assessment_completed"
+          ? { element: formData.element || null }
+          : formData.trigger_type === "course_inactive"
+            ? {
+                inactiveDays: Number(formData.inactive_days) || DEFAULT_INACTIVE_DAYS,
+                courseId: formData.course_id || null,
+              }
+            : {},
+      segment: {
+        elements: formData.elements,
+        roles: formData.roles,
+        organizationIds: formData.organization_ids,
+      },
+      exit_conditions: formData.exit_conditions,
+      steps: formData.steps.map((step) => ({
+        ...(step.id && { id: step.id }),
+        template_id: step.template_id,
+        delay_hours: Math.round((Number(step.delay_days) || 0) * 24),
+      })),
+    };
+
+    try {
+      const res = await fetch(
+        editingId
+          ? `/api/admin/email-campaigns/${editingId}`
+          : "/api/admin/email-campaigns",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (res.ok) {
+        toast({ title: editingId ? "Campaign updated" : "Campaign created" });
+        setDialogOpen(false);
+        fetchCampaigns();
+      } else {
+        const error = await res.json();
+        toast({
+          title: "Error",
+          description: error.error || "Failed to save campaign",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({ title: "Error", variant: "destructive" });
+    }
+  };
+
+  const handleStatus = async (campaign: Campaign, status: CampaignStatus) => {
+    if (
+      status === "archived" &&
+      !confirm("Archive this campaign? Everyone in it stops receiving emails.")
+    ) {
+      return;
+    }
+    try {
+      const res = await fetch(`/api/admin/email-campaigns/${campaign.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      if (res.ok) {
+        toast({ title: `Campaign ${CAMPAIGN_STATUSES[status].label.toLowerCase()}` });
+        fetchCampaigns();
+      } else {
+        const error = await res.json();
+        toast({
+          title: "Error",
+          description: error.error || "Failed to update campaign",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({ title: "Error", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this campaign and its history?")) return;
+    try {
+      await fetch(`/api/admin/email-campaigns/${id}`, { method: "DELETE" });
+      toast({ title: "Campaign deleted" });
+      fetchCampaigns();
+    } catch {
+      toast({ title: "Error", variant: "destructive" });
+    }
+  };
+
+  const openStats = async (campaign: Campaign) => {
+    setStatsCampaign(campaign);
+    setStats(null);
+    try {
+      const res = await fetch(`/api/admin/email-campaigns/${campaign.id}`);
+      const data = await res.json();
+      setStats(data.stats || null);
+    } catch (error: unknown) {
+      logger.error(
+        "Error fetching campaign stats",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  };
+
+  const updateStep = (index: number, step: Partial<StepForm>) =>
+    setFormData({
+      ...formData,
+      steps: formData.steps.map((s, i) => (i === index ? { ...s, ...step } : s)),
+    });
+
+  const moveStep = (index: number, by: number) => {
+    const steps = [...formData.steps];
+    [steps[index], steps[index + by]] = [steps[index + by], steps[index]];
+    setFormData({ ...formData, steps });
+  };
+
+  const describeTrigger = (campaign: Campaign) => {
+    const { element, inactiveDays, courseId } = campaign.trigger_config;
+    if (campaign.trigger_type === "assessment_completed" && element) {
+      return `Completed assessment (${ELEMENT_DEFINITIONS[element]?.name})`;
+    }
+    if (campaign.trigger_type === "course_inactive") {
+      const course = courses.find((c) => c.id === courseId)?.name;
+      return `Inactive ${inactiveDays ?? DEFAULT_INACTIVE_DAYS} days${course ? ` in ${course}` : ""}`;
+    }
+    return CAMPAIGN_TRIGGERS[campaign.trigger_type]?.label;
+  };
+
+  const columns: Column<Campaign>[] = [
+    {
+      id: "name",
+      header: "Campaign",
+      accessorKey: "name",
+      cell: (row) => (
+        <div>
+          <div className="font-medium">{row.name}</div>
+          {row.description && (
+            <div className="text-xs text-muted-foreground truncate max-w-[280px]">
+              {row.description}
+            </div>
+          )}
+        </div>
+      ),
+      sortable: true,
+    },
+    {
+      id: "trigger",
+      header: "Trigger",
+      accessorFn: (row) => <span>{describeTrigger(row)}</span>,
+    },
+    {
+      id: "steps",
+      header: "Steps",
+      accessorFn: (row) => (
+        <Badge variant="outline">
+          {row.steps.length} {row.steps.length === 1 ? "email" : "emails"}
+        </Badge>
+      ),
+    },
+    {
+      id: "status",
+      header: "Status",
+      accessorFn: (row) => (
+        <span title={CAMPAIGN_STATUSES[row.status]?.description}>
+          <StatusBadge
+            status={STATUS_BADGES[row.status]}
+            label={CAMPAIGN_STATUSES[row.status]?.label}
+          />
+        </span>
+      ),
+      sortable: true,
+    },
+  ];
+
+  return (
+    <AdminPageShell>
+      <AdminPageHeader
+        title="Email Campaigns"
+        description="Lifecycle email sequences triggered by signups, assessments and course inactivity"
+        actions={
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" /> New Campaign
+          </Button>
+        }
+      />
+
+      <DataTable
+        data={campaigns}
+        columns={columns}
+        keyField="id"
+        loading={loading}
+        rowActions={(row) => (
+          <RowActions>
+            <RowActionItem onClick={() => openStats(row)}>
+              <BarChart3 className="mr-2 h-4 w-4" /> Stats
+            </RowActionItem>
+            <RowActionItem onClick={() => openEdit(row)}>
+              <Edit className="mr-2 h-4 w-4" /> Edit
+            </RowActionItem>
+            {row.status === "active" ? (
+              <RowActionItem onClick={() => handleStatus(row, "paused")}>
+                <Pause className="mr-2 h-4 w-4" /> Pause
+              </RowActionItem>
+            ) : row.status !== "archived" ? (
+              <RowActionItem onClick={() => handleStatus(row, "active")}>
+                <Play className="mr-2 h-4 w-4" /> Activate
+              </RowActionItem>
+            ) : null}
+            {row.status !== "archived" && row.status !== "draft" && (
+              <RowActionItem onClick={() => handleStatus(row, "archived")}>
+                <Trash2 className="mr-2 h-4 w-4" /> Archive
+              </RowActionItem>
+            )}
+            <RowActionItem
+              onClick={() => handleDelete(row.id)}
+              className="text-destructive"
+            >
+              <Trash2 className="mr-2 h-4 w-4" /> Delete
+            </RowActionItem>
+          </RowActions>
+        )}
+        emptyTitle="No email campaigns yet"
+        emptyDescription="Create a campaign to send a sequence of emails after signup, an assessment or course inactivity."
+      />
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit" : "Create"} Campaign</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-4">
+              <div>
+                <Label>Name</Label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                  placeholder="Assessment follow-up"
+                  required
+                />
+              </div>
+              <div>
+                <Label>Description</Label>
+                <Textarea
+                  value={formData.description}
+                  onChange={(e) =>
+                    setFormData({ ...formData, description: e.target.value })
+                  }
+                  rows={2}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Trigger</h3>
+              <Select
+                value={formData.trigger_type}
+                onValueChange={(v) =>
+                  setFormData({
+                    ...formData,
+                    trigger_type: v as CampaignTriggerType,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CAMPAIGN_TRIGGERS).map(([value, trigger]) => (
+                    <SelectItem key={value} value={value}>
+                      {trigger.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {CAMPAIGN_TRIGGERS[formData.trigger_type].description}. Only
+                events after the campaign is activated enroll users.
+              </p>
+              {formData.trigger_type === "assessment_completed" && (
+                <div>
+                  <Label>Top element</Label>
+                  <Select
+                    value={formData.element || "any"}
+                    onValueChange={(v) =>
+                      setFormData({ ...formData, element: v === "any" ? "" : v })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any element</SelectItem>
+                      {ELEMENTS.map((element) => (
+                        <SelectItem key={element.id} value={element.id}>
+                          {element.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {formData.trigger_type === "course_inactive" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Days without activity</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="365"
+                      value={formData.inactive_days}
+                      onChange={(e) =>
+                        setFormData({ ...formData, inactive_days: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label>Course</Label>
+                    <Select
+                      value={formData.course_id || "any"}
+                      onValueChange={(v) =>
+                        setFormData({
+                          ...formData,
+                          course_id: v === "any" ? "" : v,
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any course</SelectItem>
+                        {courses.map((course) => (
+                          <SelectItem key={course.id} value={course.id}>
+                            {course.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Audience</h3>
+              <p className="text-xs text-muted-foreground">
+                Leave a group empty to include everyone
+              </p>
+              <div>
+                <Label>Top element</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {ELEMENTS.map((element) => (
+                    <label key={element.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.elements.includes(element.id)}
+                        onCheckedChange={(checked) =>
+                          setFormData({
+                            ...formData,
+                            elements: toggle(formData.elements, element.id, checked === true),
+                          })
+                        }
+                      />
+                      {element.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>Role</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {ROLES.map((role) => (
+                    <label key={role} className="flex items-center gap-2 text-sm capitalize">
+                      <Checkbox
+                        checked={formData.roles.includes(role)}
+                        onCheckedChange={(checked) =>
+                          setFormData({
+                            ...formData,
+                            roles: toggle(formData.roles, role, checked === true),
+                          })
+                        }
+                      />
+                      {role}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              {organizations.length > 0 && (
+                <div>
+                  <Label>Organization</Label>
+                  <div className="flex flex-wrap gap-4 mt-2 max-h-32 overflow-y-auto">
+                    {organizations.map((organization) => (
+                      <label key={organization.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={formData.organization_ids.includes(organization.id)}
+                          onCheckedChange={(checked) =>
+                            setFormData({
+                              ...formData,
+                              organization_ids: toggle(
+                                formData.organization_ids,
+                                organization.id,
+                                checked === true
+                              ),
+                            })
+                          }
+                        />
+                        {organization.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Steps</h3>
+              <p className="text-xs text-muted-foreground">
+                Each delay counts from the previous email (the first from
+                enrollment). Templates can use {"{{first_name}}"},{" "}
+                {"{{element_name}}"} and {"{{course_title}}"}.
+              </p>
+              {formData.steps.map((step, index) => (
+                <div key={step.id ?? `new-${index}`} className="flex items-end gap-2">
+                  <div className="w-28">
+                    <Label>Wait (days)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.25"
+                      value={step.delay_days}
+                      onChange={(e) => updateStep(index, { delay_days: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <Label>Email {index + 1}</Label>
+                    <Select
+                      value={step.template_id}
+                      onValueChange={(v) => updateStep(index, { template_id: v })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => moveStep(index, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === formData.steps.length - 1}
+                    onClick={() => moveStep(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setFormData({
+                        ...formData,
+                        steps: formData.steps.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setFormData({
+                    ...formData,
+                    steps: [...formData.steps, { template_id: "", delay_days: "1" }],
+                  })
+                }
+              >
+                <Plus className="h-4 w-4 mr-2" /> Add Step
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Exit when the user...</h3>
+              <div className="grid grid-cols-2 gap-3">
+                {Object.entries(CAMPAIGN_EXIT_CONDITIONS).map(([value, condition]) => (
+                  <label
+                    key={value}
+                    className="flex items-start gap-2 text-sm"
+                    title={condition.description}
+                  >
+                    <Checkbox
+                      checked={formData.exit_conditions.includes(value as CampaignExitCondition)}
+                      onCheckedChange={(checked) =>
+                        setFormData({
+                          ...formData,
+                          exit_conditions: toggle(
+                            formData.exit_conditions,
+                            value as CampaignExitCondition,
+                            checked === true
+                          ),
+                        })
+                      }
+                    />
+                    {condition.label}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Steps using marketing templates are only sent to users who
+                opted in to marketing email.
+              </p>
+            </div>
+
+            <Button type="submit" className="w-full">
+              {editingId ? "Update" : "Create"} Campaign
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={statsCampaign !== null}
+        onOpenChange={(open) => !open && setStatsCampaign(null)}
+      >
+        <DialogContent className="max-w-2xl">
+          {statsCampaign && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{statsCampaign.name}</DialogTitle>
+                <DialogDescription>{describeTrigger(statsCampaign)}</DialogDescription>
+              </DialogHeader>
+              {!stats ? (
+                <p className="text-sm text-muted-foreground">Loading stats...</p>
+              ) : (
+                <div className="space-y-6 text-sm">
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    {(["active", "completed", "exited"] as const).map((status) => (
+                      <div key={status} className="rounded-lg border p-3">
+                        <div className="text-2xl font-semibold">
+                          {stats.enrollments[status] ?? 0}
+                        </div>
+                        <div className="text-muted-foreground capitalize">
+                          {status === "active" ? "In progress" : status}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="py-1">Step</th>
+                        <th className="py-1 text-right">Sent</th>
+                        <th className="py-1 text-right">Pending</th>
+                        <th className="py-1 text-right">Failed</th>
+                        <th className="py-1 text-right">Cancelled</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {statsCampaign.steps.map((step) => {
+                        const s = stats.steps[step.id];
+                        return (
+                          <tr key={step.id} className="border-t">
+                            <td className="py-2">
+                              <div>{step.template?.name ?? "Removed template"}</div>
+                              <div className="text-xs text-muted-foreground">
+                                after {step.delay_hours / 24} days
+                              </div>
+                            </td>
+                            <td className="py-2 text-right">{s?.sent ?? 0}</td>
+                            <td className="py-2 text-right">{s?.pending ?? 0}</td>
+                            <td className="py-2 text-right">{s?.failed ?? 0}</td>
+                            <td className="py-2 text-right">{s?.cancelled ?? 0}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-muted-foreground">
+                    Cancelled emails belong to users who met an exit condition
+                    before the step was due.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </AdminPageShell>
+  );
+}
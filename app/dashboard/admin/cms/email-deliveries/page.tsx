@@ -0,0 +1,302 @@
+"use client";
+
+import { AdminPageHeader } from "@/components/dashboard/admin-page-header";
+import { AdminPageShell } from "@/components/dashboard/admin-page-shell";
+import { Button } from "@/components/ui/button";
+import { Column, DataTable, StatusBadge } from "@/components/ui/data-table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useDebounce } from "@/hooks/use-debounce";
+import {
+  EMAIL_DELIVERY_STATUSES,
+  type EmailDeliveryStatus,
+} from "@/lib/email/delivery-events";
+import { logger } from "@/lib/logging";
+import { formatDateTime } from "@/lib/utils";
+import { X } from "lucide-react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useState } from "react";
+
+const PAGE_SIZE = 25;
+
+interface EmailDelivery {
+  id: string;
+  transport: string;
+  provider_message_id: string | null;
+  template: string | null;
+  recipients: string[];
+  subject: string;
+  status: EmailDeliveryStatus;
+  error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+interface EmailDeliveryEvent {
+  id: string;
+  type: string;
+  detail: string | null;
+  occurred_at: string;
+}
+
+const STATUS_BADGES: Record<
+  EmailDeliveryStatus,
+  "active" | "inactive" | "pending" | "success" | "warning" | "error"
+> = {
+  queued: "pending",
+  sent: "active",
+  delayed: "warning",
+  delivered: "success",
+  failed: "error",
+  suppressed: "inactive",
+  bounced: "error",
+  complained: "warning",
+};
+
+function DeliveryStatusBadge({ status }: { status: EmailDeliveryStatus }) {
+  const info = EMAIL_DELIVERY_STATUSES[status];
+  return (
+    <span title={info?.description}>
+      <StatusBadge
+        status={STATUS_BADGES[status] ?? "inactive"}
+        label={info?.label ?? status}
+      />
+    </span>
+  );
+}
+
+function EmailDeliveriesContent() {
+  const searchParams = useSearchParams();
+  const template = searchParams.get("template");
+
+  const [deliveries, setDeliveries] = useState<EmailDelivery[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [recipient, setRecipient] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [selected, setSelected] = useState<EmailDelivery | null>(null);
+  const [events, setEvents] = useState<EmailDeliveryEvent[]>([]);
+  const [eventsLoading, setEventsLoading] = useState(false);
+  const debouncedRecipient = useDebounce(recipient.trim(), 400);
+
+  // Reset page when filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [debouncedRecipient, statusFilter, template]);
+
+  const fetchDeliveries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: String(currentPage),
+        limit: String(PAGE_SIZE),
+      });
+      if (statusFilter) params.set("status", statusFilter);
+      if (template) params.set("template", template);
+      if (debouncedRecipient) params.set("recipient", debouncedRecipient);
+
+      const res = await fetch(`/api/admin/email-deliveries?${params}`);
+      const data = await res.json();
+      setDeliveries(data.data || []);
+      setTotal(data.pagination?.total || 0);
+    } catch (error: unknown) {
+      logger.error(
+        "Error fetching email deliveries",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage, statusFilter, template, debouncedRecipient]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const openDelivery = async (delivery: EmailDelivery) => {
+    setSelected(delivery);
+    setEvents([]);
+    setEventsLoading(true);
+    try {
+      const res = await fetch(`/api/admin/email-deliveries/${delivery.id}`);
+      const data = await res.json();
+      setEvents(data.delivery?.events || []);
+    } catch (error: unknown) {
+      logger.error(
+        "Error fetching email delivery events",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      setEventsLoading(false);
+    }
+  };
+
+  const columns: Column<EmailDelivery>[] = [
+    {
+      id: "subject",
+      header: "Email",
+      accessorKey: "subject",
+      cell: (row) => (
+        <div className="max-w-[280px]">
+          <div className="font-medium truncate" title={row.subject}>
+            {row.subject}
+          </div>
+          {row.template && (
+            <code className="text-xs text-muted-foreground bg-muted px-1 rounded">
+              {row.template}
+            </code>
+          )}
+        </div>
+      ),
+    },
+    {
+      id: "recipients",
+      header: "To",
+      accessorKey: "recipients",
+      cell: (row) => (
+        <div className="truncate max-w-[220px]" title={row.recipients.join(", ")}>
+          {row.recipients.join(", ")}
+        </div>
+      ),
+    },
+    {
+      id: "status",
+      header: "Status",
+      accessorKey: "status",
+      cell: (row) => <DeliveryStatusBadge status={row.status} />,
+    },
+    {
+      id: "transport",
+      header: "Transport",
+      accessorKey: "transport",
+      cell: (row) => (
+        <span className="capitalize text-muted-foreground">{row.transport}</span>
+      ),
+    },
+    {
+      id: "created_at",
+      header: "Sent",
+      accessorKey: "created_at",
+      cell: (row) => (
+        <span className="text-muted-foreground whitespace-nowrap">
+          {formatDateTime(row.created_at)}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <AdminPageShell>
+      <AdminPageHeader
+        title="Email Deliveries"
+        description="Every email sent, with delivery, bounce and complaint events"
+        actions={
+          template ? (
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/admin/cms/email-deliveries">
+                <code className="mr-2">{template}</code>
+                <X className="h-4 w-4" />
+              </Link>
+            </Button>
+          ) : undefined
+        }
+      />
+
+      <DataTable
+        data={deliveries}
+        columns={columns}
+        keyField="id"
+        loading={loading}
+        searchable
+        searchPlaceholder="Search by recipient email..."
+        searchValue={recipient}
+        onSearchChange={setRecipient}
+        filters={[
+          {
+            id: "status",
+            label: "Status",
+            type: "select",
+            options: Object.entries(EMAIL_DELIVERY_STATUSES).map(
+              ([value, { label }]) => ({ label, value })
+            ),
+          },
+        ]}
+        filterValues={{ status: statusFilter || "" }}
+        onFilterChange={(_, val) => setStatusFilter((val as string) || null)}
+        onClearFilters={() => setStatusFilter(null)}
+        page={currentPage}
+        pageSize={PAGE_SIZE}
+        totalItems={total}
+        onPageChange={setCurrentPage}
+        onRowClick={openDelivery}
+        emptyTitle="No emails found"
+        emptyDescription="Emails appear here once they are sent."
+      />
+
+      <Dialog
+        open={selected !== null}
+        onOpenChange={(open) => !open && setSelected(null)}
+      >
+        <DialogContent className="max-w-lg">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.subject}</DialogTitle>
+                <DialogDescription>
+                  To {selected.recipients.join(", ")} via {selected.transport}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 text-sm">
+                <div className="flex items-center justify-between">
+                  <DeliveryStatusBadge status={selected.status} />
+                  {selected.provider_message_id && (
+                    <code className="text-xs text-muted-foreground">
+                      {selected.provider_message_id}
+                    </code>
+                  )}
+                </div>
+                {selected.error && (
+                  <p className="text-destructive">{selected.error}</p>
+                )}
+                <ol className="border-l pl-4 space-y-3">
+                  {eventsLoading && (
+                    <li className="text-muted-foreground">Loading history...</li>
+                  )}
+                  {!eventsLoading && events.length === 0 && (
+                    <li className="text-muted-foreground">No events yet</li>
+                  )}
+                  {events.map((event) => (
+                    <li key={event.id}>
+                      <div className="font-medium capitalize">{event.type}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDateTime(event.occurred_at)}
+                      </div>
+                      {event.detail && (
+                        <div className="text-xs mt-1">{event.detail}</div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </AdminPageShell>
+  );
+}
+
+export default function EmailDeliveriesPage() {
+  return (
+    <Suspense>
+      <EmailDeliveriesContent />
+    </Suspense>
+  );
+}
@@ -33,8 +33,14 @@ import {
   EmailTemplateEditor,
   htmlToPlainText,
 } from "@/components/cms/email-template-editor";
+import { BUILT_IN_EMAIL_TEMPLATES } from "@/lib/email/built-in-templates";
+import {
+  normalizeTemplateVariables,
+  type TemplateVariable,
+} from "@/lib/email/template-engine";
 import { logger } from "@/lib/logging";
-import { Copy, Edit, Plus, Trash2 } from "lucide-react";
+import { Copy, Edit, History, Plus, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 
 interface EmailTemplate {
@@ -44,23 +50,19 @@ interface EmailTemplate {
   subject: string;
   html_content: string;
   text_content: string | null;
-  variables: string[];
+  variables: unknown;
   category: string;
   is_active: boolean;
   updated_at: string;
 }
 
-const DEFAULT_TEMPLATES = [
-  { name: "Welcome Email", slug: "welcome", category: "transactional" },
-  { name: "Password Reset", slug: "password-reset", category: "system" },
-  {
-    name: "Course Enrollment",
-    slug: "course-enrollment",
-    category: "transactional",
-  },
-  { name: "Event Reminder", slug: "event-reminder", category: "notification" },
-  { name: "Newsletter", slug: "newsletter", category: "marketing" },
-];
+// Built-in emails an active template with the same slug replaces
+const DEFAULT_TEMPLATES = Object.entries(BUILT_IN_EMAIL_TEMPLATES).map(
+  ([slug, template]) => ({ slug, ...template })
+);
+
+const variableNames = (variables: TemplateVariable[]) =>
+  variables.map((v) => v.name).join(", ");
 
 export default function EmailTemplatesPage() {
   const [templates, setTemplates] = useState<EmailTemplate[]>([]);
@@ -80,7 +82,12 @@ export default function EmailTemplatesPage() {
     category: "transactional",
     is_active: true,
   });
+  // Declarations (type, required, default) for names listed in the form
+  const [declaredVariables, setDeclaredVariables] = useState<
+    TemplateVariable[]
+  >([]);
   const { toast } = useToast();
+  const router = useRouter();
 
   useEffect(() => {
     fetchTemplates();
@@ -134,7 +141,14 @@ export default function EmailTemplatesPage() {
         variables: formData.variables
           .split(",")
           .map((v) => v.trim())
-          .filter(Boolean),
+          .filter(Boolean)
+          .map(
+            (name) =>
+              declaredVariables.find((v) => v.name === name) ?? {
+                name,
+                description: "",
+              }
+          ),
       };
 
       const res = await fetch(url, {
@@ -143,16 +157,20 @@ export default function EmailTemplatesPage() {
         body: JSON.stringify(payload),
       });
 
-      if (!res.ok) throw new Error("Failed to save");
+      if (!res.ok) {
+        const error = await res.json().catch(() => null);
+        throw new Error(error?.error || "Failed to save template");
+      }
 
       toast({ title: editingId ? "Template updated" : "Template created" });
       setDialogOpen(false);
       resetForm();
       fetchTemplates();
-    } catch {
+    } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to save template",
+        description:
+          error instanceof Error ? error.message : "Failed to save template",
         variant: "destructive",
       });
     }
@@ -193,14 +211,16 @@ export default function EmailTemplatesPage() {
   };
 
   const openEdit = (item: EmailTemplate) => {
+    const variables = normalizeTemplateVariables(item.variables);
     setEditingId(item.id);
+    setDeclaredVariables(variables);
     setFormData({
       name: item.name,
       slug: item.slug,
       subject: item.subject,
       html_content: item.html_content,
       text_content: item.text_content || "",
-      variables: item.variables?.join(", ") || "",
+      variables: variableNames(variables),
       category: item.category,
       is_active: item.is_active,
     });
@@ -209,6 +229,7 @@ export default function EmailTemplatesPage() {
 
   const resetForm = () => {
     setEditingId(null);
+    setDeclaredVariables([]);
     setFormData({
       name: "",
       slug: "",
@@ -336,7 +357,10 @@ export default function EmailTemplatesPage() {
                     required
                   />
                   <p className="text-xs text-muted-foreground mt-1">
-                    Use {"{{variable}}"} for dynamic content
+                    Use {"{{variable}}"} for dynamic content, filters like{" "}
+                    {'{{amount | currency:"EUR"}}'}, and{" "}
+                    {"{{#if}}"} / {"{{#each}}"} blocks for optional sections
+                    and lists
                   </p>
                 </div>
                 <div className="grid grid-cols-2 gap-4">
@@ -466,6 +490,15 @@ export default function EmailTemplatesPage() {
             <RowActionItem onClick={() => openEdit(row)}>
               <Edit className="mr-2 h-4 w-4" /> Edit
             </RowActionItem>
+            <RowActionItem
+              onClick={() =>
+                router.push(
+                  `/dashboard/admin/cms/email-deliveries?template=${encodeURIComponent(row.slug)}`
+                )
+              }
+            >
+              <History className="mr-2 h-4 w-4" /> Delivery History
+            </RowActionItem>
             <RowActionItem
               onClick={() => handleDelete(row.id)}
               className="text-destructive"
@@ -484,11 +517,13 @@ export default function EmailTemplatesPage() {
                 variant="outline"
                 size="sm"
                 onClick={() => {
+                  setDeclaredVariables(t.variables);
                   setFormData({
                     ...formData,
                     name: t.name,
                     slug: t.slug,
                     category: t.category,
+                    variables: variableNames(t.variables),
                   });
                   setDialogOpen(true);
                 }}
@@ -0,0 +1,444 @@
+"use client";
+
+import { AdminPageHeader } from "@/components/dashboard/admin-page-header";
+import { AdminPageShell } from "@/components/dashboard/admin-page-shell";
+import { Button } from "@/components/ui/button";
+import {
+  Column,
+  DataTable,
+  RowActionItem,
+  RowActions,
+  StatusBadge,
+} from "@/components/ui/data-table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { StatsCard, StatsCardGrid } from "@/components/ui/stats-card";
+import { useToast } from "@/components/ui/use-toast";
+import { JOB_STATUSES, type JobStatus } from "@/lib/jobs/schedule";
+import { JOB_TYPES, type JobType } from "@/lib/jobs/recurring";
+import { logger } from "@/lib/logging";
+import { formatDateTime, formatRelativeTime } from "@/lib/utils";
+import {
+  AlertOctagon,
+  CheckCircle,
+  Clock,
+  Loader2,
+  Play,
+  RefreshCw,
+  RotateCcw,
+} from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+const PAGE_SIZE = 25;
+
+interface Job {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_until: string | null;
+  locked_by: string | null;
+  recurring_name: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+}
+
+interface RecurringJobInfo {
+  name: string;
+  type: JobType;
+  description: string;
+  cron: string;
+  last_enqueued_at: string | null;
+  next_run_at: string | null;
+}
+
+const STATUS_BADGES: Record<
+  JobStatus,
+  "active" | "inactive" | "pending" | "success" | "warning" | "error"
+> = {
+  queued: "pending",
+  running: "active",
+  succeeded: "success",
+  dead: "error",
+};
+
+function JobStatusBadge({ job }: { job: Job }) {
+  // Queued after a failed attempt: waiting to retry
+  if (job.status === "queued" && job.last_error) {
+    return <StatusBadge status="warning" label="Retrying" />;
+  }
+  return (
+    <StatusBadge
+      status={STATUS_BADGES[job.status] ?? "inactive"}
+      label={JOB_STATUSES[job.status] ?? job.status}
+    />
+  );
+}
+
+export default function BackgroundJobsPage() {
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [total, setTotal] = useState(0);
+  const [counts, setCounts] = useState<Record<JobStatus, number> | null>(null);
+  const [recurring, setRecurring] = useState<RecurringJobInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Job | null>(null);
+  const [recurringOpen, setRecurringOpen] = useState(false);
+
+  // Reset page when filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [statusFilter, typeFilter]);
+
+  const fetchJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: String(currentPage),
+        limit: String(PAGE_SIZE),
+      });
+      if (statusFilter) params.set("status", statusFilter);
+      if (typeFilter) params.set("type", typeFilter);
+
+      const [jobsRes, overviewRes] = await Promise.all([
+        fetch(`/api/admin/jobs?${params}`),
+        fetch("/api/admin/jobs/overview"),
+      ]);
+      const jobsData = await jobsRes.json();
+      const overview = await overviewRes.json();
+      setJobs(jobsData.data || []);
+      setTotal(jobsData.pagination?.total || 0);
+      setCounts(overview.counts || null);
+      setRecurring(overview.recurring || []);
+    } catch (error: unknown) {
+      logger.error(
+        "Error fetching background jobs",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage, statusFilter, typeFilter]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const post = async (url: string, success: string) => {
+    try {
+      const res = await fetch(url, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        toast({ title: success });
+        fetchJobs();
+      } else {
+        toast({
+          title: "Error",
+          description: data.error || "Request failed",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({ title: "Error", variant: "destructive" });
+    }
+  };
+
+  const handleRetry = (job: Job) => {
+    setSelected(null);
+    return post(`/api/admin/jobs/${job.id}/retry`, "Job queued for retry");
+  };
+
+  const handleRunNow = (job: RecurringJobInfo) =>
+    post(
+      `/api/admin/jobs/recurring/${encodeURIComponent(job.name)}`,
+      `${job.description} queued`
+    );
+
+  const columns: Column<Job>[] = [
+    {
+      id: "type",
+      header: "Job",
+      accessorKey: "type",
+      cell: (row) => (
+        <div className="max-w-[320px]">
+          <div className="font-medium truncate">
+            {JOB_TYPES[row.type as JobType] ?? row.type}
+          </div>
+          <code className="text-xs text-muted-foreground bg-muted px-1 rounded">
+            {row.recurring_name ?? row.type}
+          </code>
+        </div>
+      ),
+    },
+    {
+      id: "status",
+      header: "Status",
+      accessorKey: "status",
+      cell: (row) => <JobStatusBadge job={row} />,
+    },
+    {
+      id: "attempts",
+      header: "Attempts",
+      accessorKey: "attempts",
+      cell: (row) => (
+        <span className="text-muted-foreground">
+          {row.attempts} / {row.max_attempts}
+        </span>
+      ),
+    },
+    {
+      id: "run_at",
+      header: "Runs",
+      accessorKey: "run_at",
+      cell: (row) => (
+        <span
+          className="text-muted-foreground whitespace-nowrap"
+          title={formatDateTime(row.finished_at ?? row.run_at)}
+        >
+          {formatRelativeTime(row.finished_at ?? row.run_at)}
+        </span>
+      ),
+    },
+    {
+      id: "last_error",
+      header: "Last error",
+      accessorKey: "last_error",
+      cell: (row) => (
+        <div
+          className="truncate max-w-[260px] text-destructive text-xs"
+          title={row.last_error ?? undefined}
+        >
+          {row.last_error}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <AdminPageShell>
+      <AdminPageHeader
+        title="Background Jobs"
+        description="Queued, running and failed background work, and the recurring job schedule"
+        actions={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setRecurringOpen(true)}>
+              <Clock className="mr-2 h-4 w-4" /> Recurring jobs
+            </Button>
+            <Button variant="outline" onClick={fetchJobs} disabled={loading}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+            </Button>
+          </div>
+        }
+      />
+
+      <StatsCardGrid columns={4}>
+        <StatsCard
+          title="Queued"
+          value={counts?.queued ?? 0}
+          description="Waiting to run or retry"
+          icon={<Clock className="h-5 w-5" />}
+          accent="blue"
+          loading={!counts}
+        />
+        <StatsCard
+          title="Running"
+          value={counts?.running ?? 0}
+          description="Leased by a worker"
+          icon={<Loader2 className="h-5 w-5" />}
+          accent="amber"
+          loading={!counts}
+        />
+        <StatsCard
+          title="Succeeded"
+          value={counts?.succeeded ?? 0}
+          description="Kept for 7 days"
+          icon={<CheckCircle className="h-5 w-5" />}
+          accent="green"
+          loading={!counts}
+        />
+        <StatsCard
+          title="Failed"
+          value={counts?.dead ?? 0}
+          description="Out of attempts"
+          icon={<AlertOctagon className="h-5 w-5" />}
+          accent="red"
+          loading={!counts}
+        />
+      </StatsCardGrid>
+
+      <DataTable
+        data={jobs}
+        columns={columns}
+        keyField="id"
+        loading={loading}
+        filters={[
+          {
+            id: "status",
+            label: "Status",
+            type: "select",
+            options: Object.entries(JOB_STATUSES).map(([value, label]) => ({
+              label,
+              value,
+            })),
+          },
+          {
+            id: "type",
+            label: "Job",
+            type: "select",
+            options: Object.entries(JOB_TYPES).map(([value, label]) => ({
+              label,
+              value,
+            })),
+          },
+        ]}
+        filterValues={{ status: statusFilter || "", type: typeFilter || "" }}
+        onFilterChange={(id, val) =>
+          id === "status"
+            ? setStatusFilter((val as string) || null)
+            : setTypeFilter((val as string) || null)
+        }
+        onClearFilters={() => {
+          setStatusFilter(null);
+          setTypeFilter(null);
+        }}
+        page={currentPage}
+        pageSize={PAGE_SIZE}
+        totalItems={total}
+        onPageChange={setCurrentPage}
+        onRowClick={setSelected}
+        rowActions={(row) =>
+          row.status === "dead" || row.status === "queued" ? (
+            <RowActions>
+              <RowActionItem onClick={() => handleRetry(row)}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                {row.status === "dead" ? "Retry" : "Run now"}
+              </RowActionItem>
+            </RowActions>
+          ) : null
+        }
+        emptyTitle="No jobs found"
+        emptyDescription="Jobs appear here once they are queued."
+      />
+
+      <Dialog
+        open={selected !== null}
+        onOpenChange={(open) => !open && setSelected(null)}
+      >
+        <DialogContent className="max-w-lg">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {JOB_TYPES[selected.type as JobType] ?? selected.type}
+                </DialogTitle>
+                <DialogDescription>
+                  <code>{selected.type}</code> · queued{" "}
+                  {formatDateTime(selected.created_at)}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 text-sm">
+                <div className="flex items-center justify-between">
+                  <JobStatusBadge job={selected} />
+                  <span className="text-muted-foreground">
+                    Attempt {selected.attempts} of {selected.max_attempts}
+                  </span>
+                </div>
+                {selected.status === "running" && selected.locked_until && (
+                  <p className="text-muted-foreground">
+                    Leased by <code>{selected.locked_by}</code> until{" "}
+                    {formatDateTime(selected.locked_until)}
+                  </p>
+                )}
+                {selected.status === "queued" && (
+                  <p className="text-muted-foreground">
+                    Runs {formatDateTime(selected.run_at)}
+                  </p>
+                )}
+                {selected.last_error && (
+                  <p className="text-destructive break-words">
+                    {selected.last_error}
+                  </p>
+                )}
+                <div>
+                  <div className="font-medium mb-1">Payload</div>
+                  <pre className="bg-muted rounded p-2 text-xs overflow-auto max-h-40">
+                    {JSON.stringify(selected.payload, null, 2)}
+                  </pre>
+                </div>
+                {selected.result && (
+                  <div>
+                    <div className="font-medium mb-1">Result</div>
+                    <pre className="bg-muted rounded p-2 text-xs overflow-auto max-h-40">
+                      {JSON.stringify(selected.result, null, 2)}
+                    </pre>
+                  </div>
+                )}
+                {(selected.status === "dead" ||
+                  selected.status === "queued") && (
+                  <div className="flex justify-end">
+                    <Button onClick={() => handleRetry(selected)}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      {selected.status === "dead" ? "Retry" : "Run now"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={recurringOpen} onOpenChange={setRecurringOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Recurring jobs</DialogTitle>
+            <DialogDescription>
+              Cron schedules in UTC. Each is queued when due; a run is skipped
+              while the previous one is still queued or running.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="divide-y text-sm max-h-[60vh] overflow-auto">
+            {recurring.map((job) => (
+              <li
+                key={job.name}
+                className="flex items-center justify-between gap-4 py-3"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium">{job.description}</div>
+                  <div className="text-xs text-muted-foreground">
+                    <code>{job.cron}</code>
+                    {job.last_enqueued_at &&
+                      ` · last ${formatRelativeTime(job.last_enqueued_at)}`}
+                    {job.next_run_at &&
+                      ` · next ${formatDateTime(job.next_run_at)}`}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRunNow(job)}
+                >
+                  <Play className="mr-2 h-4 w-4" /> Run now
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </AdminPageShell>
+  );
+}
@@ -0,0 +1,485 @@
+"use client";
+
+/**
+ * Admin Instructor Payouts Page
+ * Review monthly instructor payout statements: approve, reject and mark as paid
+ * Uses modern DataTable pattern with StatsCardGrid
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Column,
+  DataTable,
+  DateCell,
+  FilterConfig,
+} from "@/components/ui/data-table";
+import { StatsCard, StatsCardGrid } from "@/components/ui/stats-card";
+import {
+  Banknote,
+  CheckCircle,
+  Clock,
+  Download,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+
+type StatementStatus = "pending" | "approved" | "rejected" | "paid";
+type PayoutAction = "approve" | "reject" | "mark_paid";
+
+interface PayoutStatement {
+  id: string;
+  instructor_id: string;
+  period_start: string;
+  period_end: string;
+  gross_amount: number;
+  platform_fees: number;
+  refunds: number;
+  net_amount: number;
+  entry_count: number;
+  status: StatementStatus;
+  reviewed_at: string | null;
+  paid_at: string | null;
+  notes: string | null;
+  created_at: string;
+  instructor: {
+    id: string;
+    full_name: string | null;
+    email: string;
+  } | null;
+}
+
+const STATUS_VARIANTS: Record<
+  StatementStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "secondary",
+  approved: "outline",
+  rejected: "destructive",
+  paid: "default",
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+
+const formatPeriod = (periodStart: string) =>
+  new Date(`${periodStart}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+export default function AdminPayoutsPage() {
+  const [statements, setStatements] = useState<PayoutStatement[]>([]);
+  const [minimumPayout, setMinimumPayout] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  // Search and filter state
+  const [searchValue, setSearchValue] = useState("");
+  const [filterValues, setFilterValues] = useState<
+    Record<string, string | string[]>
+  >({ status: "pending" });
+
+  // Pagination state
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(15);
+
+  const fetchStatements = useCallback(async () => {
+    try {
+      setError(null);
+      const res = await fetch("/api/admin/payouts");
+      if (!res.ok) throw new Error("Failed to fetch payout statements");
+      const data = await res.json();
+      setStatements(data.statements);
+      setMinimumPayout(data.settings.minimum_payout);
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : "Failed to load payout statements";
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatements();
+  }, [fetchStatements]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const res = await fetch("/api/admin/payouts", { method: "POST" });
+      if (!res.ok) throw new Error("Failed to generate statements");
+      const data = await res.json();
+      toast.success(
+        data.created === 0
+          ? "No new statements to generate"
+          : `Generated ${data.created} statement${data.created === 1 ? "" : "s"}`
+      );
+      await fetchStatements();
+    } catch (err: unknown) {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to generate statements"
+      );
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleReview = useCallback(
+    async (statement: PayoutStatement, action: PayoutAction) => {
+      setUpdatingId(statement.id);
+      try {
+        const res = await fetch(`/api/admin/payouts/${statement.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to update statement");
+
+        setStatements((prev) =>
+          prev.map((s) =>
+            s.id === statement.id ? { ...s, ...data.statement } : s
+          )
+        );
+        toast.success(`Statement ${data.statement.status}`);
+      } catch (err: unknown) {
+        toast.error(
+          err instanceof Error ? err.message : "Failed to update statement"
+        );
+      } finally {
+        setUpdatingId(null);
+      }
+    },
+    []
+  );
+
+  // Calculate derived stats
+  const totalsByStatus = useMemo(() => {
+    const totals: Record<StatementStatus, number> = {
+      pending: 0,
+      approved: 0,
+      rejected: 0,
+      paid: 0,
+    };
+    statements.forEach((s) => {
+      totals[s.status] += s.net_amount;
+    });
+    return totals;
+  }, [statements]);
+
+  // Filter and search data
+  const filteredData = useMemo(() => {
+    let result = [...statements];
+
+    if (searchValue.trim()) {
+      const query = searchValue.toLowerCase();
+      result = result.filter(
+        (s) =>
+          s.instructor?.full_name?.toLowerCase().includes(query) ||
+          s.instructor?.email.toLowerCase().includes(query)
+      );
+    }
+
+    const statusFilter = filterValues["status"] as string;
+    if (statusFilter) {
+      result = result.filter((s) => s.status === statusFilter);
+    }
+
+    return result;
+  }, [statements, searchValue, filterValues]);
+
+  // Paginate data
+  const paginatedData = useMemo(() => {
+    const start = (page - 1) * pageSize;
+    return filteredData.slice(start, start + pageSize);
+  }, [filteredData, page, pageSize]);
+
+  // Define columns for DataTable
+  const columns: Column<PayoutStatement>[] = useMemo(
+    () => [
+      {
+        id: "instructor",
+        header: "Instructor",
+        cell: (statement: PayoutStatement) => (
+          <div className="flex flex-col">
+            <span className="font-medium">
+              {statement.instructor?.full_name || "Unknown"}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {statement.instructor?.email}
+            </span>
+          </div>
+        ),
+      },
+      {
+        id: "period_start",
+        header: "Period",
+        cell: (statement: PayoutStatement) => (
+          <div className="flex flex-col">
+            <span>{formatPeriod(statement.period_start)}</span>
+            <span className="text-xs text-muted-foreground">
+              {statement.entry_count} transactions
+            </span>
+          </div>
+        ),
+      },
+      {
+        id: "gross_amount",
+        header: "Gross",
+        className: "text-right",
+        cell: (statement: PayoutStatement) =>
+          formatCurrency(statement.gross_amount),
+      },
+      {
+        id: "deductions",
+        header: "Fees / Refunds",
+        className: "text-right",
+        cell: (statement: PayoutStatement) => (
+          <span className="text-muted-foreground">
+            -{formatCurrency(statement.platform_fees)} / -
+            {formatCurrency(statement.refunds)}
+          </span>
+        ),
+      },
+      {
+        id: "net_amount",
+        header: "Net Payout",
+        className: "text-right",
+        cell: (statement: PayoutStatement) => (
+          <span
+            className={`font-mono font-bold ${
+              statement.net_amount < minimumPayout ? "text-muted-foreground" : ""
+            }`}
+            title={
+              statement.net_amount < minimumPayout
+                ? "Below the minimum payout"
+                : undefined
+            }
+          >
+            {formatCurrency(statement.net_amount)}
+          </span>
+        ),
+      },
+      {
+        id: "status",
+        header: "Status",
+        cell: (statement: PayoutStatement) => (
+          <div className="flex flex-col gap-1">
+            <Badge
+              variant={STATUS_VARIANTS[statement.status]}
+              className="capitalize w-fit"
+            >
+              {statement.status}
+            </Badge>
+            {statement.paid_at && (
+              <DateCell date={statement.paid_at} format="date" />
+            )}
+          </div>
+        ),
+      },
+    ],
+    [minimumPayout]
+  );
+
+  // Filter configuration
+  const filters: FilterConfig[] = useMemo(
+    () => [
+      {
+        id: "status",
+        label: "Status",
+        type: "select",
+        options: [
+          { value: "pending", label: "Pending" },
+          { value: "approved", label: "Approved" },
+          { value: "rejected", label: "Rejected" },
+          { value: "paid", label: "Paid" },
+        ],
+      },
+    ],
+    []
+  );
+
+  const renderActions = useCallback(
+    (statement: PayoutStatement) => {
+      const busy = updatingId === statement.id;
+
+      return (
+        <div className="flex items-center justify-end gap-1">
+          {(statement.status === "pending" ||
+            statement.status === "rejected") && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={busy}
+              onClick={() => handleReview(statement, "approve")}
+            >
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+          )}
+          {(statement.status === "pending" ||
+            statement.status === "approved") && (
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={busy}
+              onClick={() => handleReview(statement, "reject")}
+            >
+              <XCircle className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+          )}
+          {statement.status === "approved" && (
+            <Button
+              size="sm"
+              disabled={busy}
+              onClick={() => handleReview(statement, "mark_paid")}
+            >
+              <Banknote className="h-4 w-4 mr-1" />
+              Mark Paid
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" asChild>
+            <a
+              href={`/api/instructor/earnings/statements/${statement.id}/export?format=csv`}
+              aria-label="Download statement CSV"
+            >
+              <Download className="h-4 w-4" />
+            </a>
+          </Button>
+        </div>
+      );
+    },
+    [handleReview, updatingId]
+  );
+
+  // Handlers
+  const handleSearchChange = useCallback((value: string) => {
+    setSearchValue(value);
+    setPage(1);
+  }, []);
+
+  const handleFilterChange = useCallback(
+    (filterId: string, value: string | string[] | null) => {
+      setFilterValues((prev) => {
+        const newFilters = { ...prev };
+        if (value === null) {
+          delete newFilters[filterId];
+        } else {
+          newFilters[filterId] = value;
+        }
+        return newFilters;
+      });
+      setPage(1);
+    },
+    []
+  );
+
+  const handleClearFilters = useCallback(() => {
+    setFilterValues({});
+    setPage(1);
+  }, []);
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            Instructor Payouts
+          </h1>
+          <p className="text-muted-foreground">
+            Approve monthly earnings statements and record payouts
+          </p>
+        </div>
+        <Button onClick={handleGenerate} disabled={generating}>
+          <RefreshCw
+            className={`h-4 w-4 mr-2 ${generating ? "animate-spin" : ""}`}
+          />
+          Generate Statements
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <StatsCardGrid columns={3}>
+        <StatsCard
+          title="Awaiting Approval"
+          value={formatCurrency(totalsByStatus.pending)}
+          description="Net balance of pending statements"
+          icon={<Clock className="h-5 w-5 text-orange-500" />}
+          accent="amber"
+        />
+        <StatsCard
+          title="Approved, Unpaid"
+          value={formatCurrency(totalsByStatus.approved)}
+          description="Ready to be paid out"
+          icon={<CheckCircle className="h-5 w-5 text-blue-500" />}
+          accent="blue"
+        />
+        <StatsCard
+          title="Paid Out"
+          value={formatCurrency(totalsByStatus.paid)}
+          description="All-time instructor payouts"
+          icon={<Banknote className="h-5 w-5 text-green-500" />}
+          accent="green"
+        />
+      </StatsCardGrid>
+
+      {/* Statements DataTable */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Statements</CardTitle>
+          <CardDescription>
+            {filteredData.length} statements found
+            {minimumPayout > 0 &&
+              ` • Minimum payout ${formatCurrency(minimumPayout)}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={paginatedData}
+            columns={columns}
+            keyField="id"
+            loading={loading}
+            emptyTitle={error || "No statements found"}
+            emptyDescription={
+              error
+                ? "Please try again later"
+                : "Statements are generated for each closed month"
+            }
+            searchable
+            searchPlaceholder="Search instructors..."
+            searchValue={searchValue}
+            onSearchChange={handleSearchChange}
+            filters={filters}
+            filterValues={filterValues}
+            onFilterChange={handleFilterChange}
+            onClearFilters={handleClearFilters}
+            page={page}
+            pageSize={pageSize}
+            totalItems={filteredData.length}
+            onPageChange={setPage}
+            onPageSizeChange={setPageSize}
+            rowActions={renderActions}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -23,20 +23,19 @@ import {
   GripVertical,
 } from 'lucide-react';
 import { toast } from 'sonner';
+import {
+  QuestionAnswerEditor,
+  QUESTION_TYPE_LABELS,
+  createEmptyQuestion,
+  getQuestionError,
+  getQuestionTypeDefaults,
+  toEditableQuestion,
+  toQuestionPayload,
+  type EditableQuizQuestion,
+} from '@/components/quiz';
+import { QUIZ_QUESTION_TYPES, type QuizQuestion, type QuizQuestionType } from '@/lib/content/quiz-grading';
 import { logger } from '@/lib/logging';
 
-type QuestionType = 'multiple_choice' | 'true_false' | 'short_answer';
-
-interface QuizQuestion {
-  id: string;
-  question: string;
-  type: QuestionType;
-  options: string[];
-  correct_answer: string | boolean;
-  points: number;
-  explanation: string;
-}
-
 interface Quiz {
   id: string;
   title: string;
@@ -69,7 +68,7 @@ export default function EditQuizPage({ params }: { params: { id: string } }) {
   const [title, setTitle] = useState('');
   const [lessonId, setLessonId] = useState('');
   const [passingScore, setPassingScore] = useState(70);
-  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [questions, setQuestions] = useState<EditableQuizQuestion[]>([]);
 
   useEffect(() => {
     fetchQuiz();
@@ -97,7 +96,7 @@ export default function EditQuizPage({ params }: { params: { id: string } }) {
       setTitle(quiz.title);
       setLessonId(quiz.lesson_id);
       setPassingScore(quiz.passing_score || 70);
-      setQuestions(quiz.questions || []);
+      setQuestions((quiz.questions || []).map(toEditableQuestion));
 
       // Find which course this lesson belongs to
       const lessonsRes = await fetch('/api/courses');
@@ -153,16 +152,6 @@ export default function EditQuizPage({ params }: { params: { id: string } }) {
     }
   };
 
-  const createEmptyQuestion = (): QuizQuestion => ({
-    id: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    question: '',
-    type: 'multiple_choice',
-    options: ['', '', '', ''],
-    correct_answer: '',
-    points: 1,
-    explanation: '',
-  });
-
   const addQuestion = () => {
     setQuestions([...questions, createEmptyQuestion()]);
   };
@@ -173,37 +162,12 @@ export default function EditQuizPage({ params }: { params: { id: string } }) {
     }
   };
 
-  const updateQuestion = (index: number, updates: Partial<QuizQuestion>) => {
+  const updateQuestion = (index: number, updates: Partial<EditableQuizQuestion>) => {
     setQuestions(questions.map((q, i) =>
       i === index ? { ...q, ...updates } : q
     ));
   };
 
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
-    const question = questions[questionIndex];
-    const newOptions = [...question.options];
-    newOptions[optionIndex] = value;
-    updateQuestion(questionIndex, { options: newOptions });
-  };
-
-  const addOption = (questionIndex: number) => {
-    const question = questions[questionIndex];
-    if (question.options.length < 6) {
-      updateQuestion(questionIndex, { options: [...question.options, ''] });
-    }
-  };
-
-  const removeOption = (questionIndex: number, optionIndex: number) => {
-    const question = questions[questionIndex];
-    if (question.options.length > 2) {
-      const newOptions = question.options.filter((_, i) => i !== optionIndex);
-      const newCorrectAnswer = question.correct_answer === question.options[optionIndex]
-        ? ''
-        : question.correct_answer;
-      updateQuestion(questionIndex, { options: newOptions, correct_answer: newCorrectAnswer });
-    }
-  };
-
   const handleSave = async () => {
     // Validation
     if (!title.trim()) {
@@ -214,16 +178,9 @@ export default function EditQuizPage({ params }: { params: { id: string } }) {
       toast.error('Please select a lesson');
       return;
     }
-    if (questions.some(q => !q.question.trim())) {
-      toast.error('All questions must have text');
-      return;
-    }
-    if (questions.some(q => q.type === 'multiple_choice' && q.options.filter(o => o.trim()).length < 2)) {
-      toast.error('Multiple choice questions must have at least 2 options');
-      return;
-    }
-    if (questions.some(q => !q.correct_answer && q.correct_answer !== false)) {
-      toast.error('All questions must have a correct answer');
+    const questionError = questions.map(getQuestionError).find(Boolean);
+    if (questionError) {
+      toast.error(questionError);
       return;
     }
 
@@ -238,12 +195,7 @@ export default function EditQuizPage({ params }: { params: { id: string } }) {
           passing_score: passingScore,
           questions: questions.map(q => ({
             id: q.id,
-            question: q.question,
-            type: q.type,
-            options: q.type === 'multiple_choice' ? q.options.filter(o => o.trim()) : undefined,
-            correct_answer: q.correct_answer,
-            points: q.points,
-            explanation: q.explanation || undefined,
+            ...toQuestionPayload(q),
           })),
         }),
       });
@@ -403,28 +355,19 @@ export default function EditQuizPage({ params }: { params: { id: string } }) {
                   <Label>Question Type</Label>
                   <Select
                     value={question.type}
-                    onValueChange={(value: QuestionType) => {
-                      const updates: Partial<QuizQuestion> = { type: value };
-                      if (value === 'true_false') {
-                        updates.options = ['True', 'False'];
-                        updates.correct_answer = true;
-                      } else if (value === 'short_answer') {
-                        updates.options = [];
-                        updates.correct_answer = '';
-                      } else {
-                        updates.options = ['', '', '', ''];
-                        updates.correct_answer = '';
-                      }
-                      updateQuestion(qIndex, updates);
-                    }}
+                    onValueChange={(value: QuizQuestionType) =>
+                      updateQuestion(qIndex, getQuestionTypeDefaults(value))
+                    }
                   >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
-                      <SelectItem value="true_false">True/False</SelectItem>
-                      <SelectItem value="short_answer">Short Answer</SelectItem>
+                      {QUIZ_QUESTION_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {QUESTION_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -440,97 +383,10 @@ export default function EditQuizPage({ params }: { params: { id: string } }) {
                 </div>
               </div>
 
-              {/* Multiple Choice Options */}
-              {question.type === 'multiple_choice' && (
-                <div className="space-y-2">
-                  <Label>Answer Options</Label>
-                  <div className="space-y-2">
-                    {question.options.map((option, oIndex) => (
-                      <div key={oIndex} className="flex items-center gap-2">
-                        <input
-                          type="radio"
-                          name={`correct-${question.id}`}
-                          checked={question.correct_answer === option && option.trim() !== ''}
-                          onChange={() => updateQuestion(qIndex, { correct_answer: option })}
-                          className="w-4 h-4"
-                          disabled={!option.trim()}
-                        />
-                        <Input
-                          value={option}
-                          onChange={(e) => updateOption(qIndex, oIndex, e.target.value)}
-                          placeholder={`Option ${oIndex + 1}`}
-                          className="flex-1"
-                        />
-                        {question.options.length > 2 && (
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => removeOption(qIndex, oIndex)}
-                            aria-label={`Remove option ${oIndex + 1}`}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        )}
-                      </div>
-                    ))}
-                    {question.options.length < 6 && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => addOption(qIndex)}
-                      >
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add Option
-                      </Button>
-                    )}
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    Select the radio button next to the correct answer
-                  </p>
-                </div>
-              )}
-
-              {/* True/False Options */}
-              {question.type === 'true_false' && (
-                <div className="space-y-2">
-                  <Label>Correct Answer</Label>
-                  <div className="flex items-center gap-4">
-                    <label className="flex items-center gap-2">
-                      <input
-                        type="radio"
-                        checked={question.correct_answer === true}
-                        onChange={() => updateQuestion(qIndex, { correct_answer: true })}
-                        className="w-4 h-4"
-                      />
-                      True
-                    </label>
-                    <label className="flex items-center gap-2">
-                      <input
-                        type="radio"
-                        checked={question.correct_answer === false}
-                        onChange={() => updateQuestion(qIndex, { correct_answer: false })}
-                        className="w-4 h-4"
-                      />
-                      False
-                    </label>
-                  </div>
-                </div>
-              )}
-
-              {/* Short Answer */}
-              {question.type === 'short_answer' && (
-                <div className="space-y-2">
-                  <Label>Correct Answer</Label>
-                  <Input
-                    value={question.correct_answer as string}
-                    onChange={(e) => updateQuestion(qIndex, { correct_answer: e.target.value })}
-                    placeholder="Enter the correct answer"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Student answers will be matched case-insensitively
-                  </p>
-                </div>
-              )}
+              <QuestionAnswerEditor
+                question={question}
+                onChange={(updates) => updateQuestion(qIndex, updates)}
+              />
 
               {/* Explanation */}
               <div className="space-y-2">
@@ -23,20 +23,18 @@ import {
   GripVertical,
 } from 'lucide-react';
 import { toast } from 'sonner';
+import {
+  QuestionAnswerEditor,
+  QUESTION_TYPE_LABELS,
+  createEmptyQuestion,
+  getQuestionError,
+  getQuestionTypeDefaults,
+  toQuestionPayload,
+  type EditableQuizQuestion,
+} from '@/components/quiz';
+import { QUIZ_QUESTION_TYPES, type QuizQuestionType } from '@/lib/content/quiz-grading';
 import { logger } from '@/lib/logging';
 
-type QuestionType = 'multiple_choice' | 'true_false' | 'short_answer';
-
-interface QuizQuestion {
-  id: string;
-  question: string;
-  type: QuestionType;
-  options: string[];
-  correct_answer: string | boolean;
-  points: number;
-  explanation: string;
-}
-
 interface Lesson {
   id: string;
   title: string;
@@ -48,16 +46,6 @@ interface Course {
   title: string;
 }
 
-const createEmptyQuestion = (): QuizQuestion => ({
-  id: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-  question: '',
-  type: 'multiple_choice',
-  options: ['', '', '', ''],
-  correct_answer: '',
-  points: 1,
-  explanation: '',
-});
-
 export default function NewQuizPage() {
   const router = useRouter();
   const [saving, setSaving] = useState(false);
@@ -70,7 +58,7 @@ export default function NewQuizPage() {
   const [title, setTitle] = useState('');
   const [lessonId, setLessonId] = useState('');
   const [passingScore, setPassingScore] = useState(70);
-  const [questions, setQuestions] = useState<QuizQuestion[]>([createEmptyQuestion()]);
+  const [questions, setQuestions] = useState<EditableQuizQuestion[]>([createEmptyQuestion()]);
 
   useEffect(() => {
     fetchCourses();
@@ -122,38 +110,12 @@ export default function NewQuizPage() {
     }
   };
 
-  const updateQuestion = (index: number, updates: Partial<QuizQuestion>) => {
+  const updateQuestion = (index: number, updates: Partial<EditableQuizQuestion>) => {
     setQuestions(questions.map((q, i) =>
       i === index ? { ...q, ...updates } : q
     ));
   };
 
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
-    const question = questions[questionIndex];
-    const newOptions = [...question.options];
-    newOptions[optionIndex] = value;
-    updateQuestion(questionIndex, { options: newOptions });
-  };
-
-  const addOption = (questionIndex: number) => {
-    const question = questions[questionIndex];
-    if (question.options.length < 6) {
-      updateQuestion(questionIndex, { options: [...question.options, ''] });
-    }
-  };
-
-  const removeOption = (questionIndex: number, optionIndex: number) => {
-    const question = questions[questionIndex];
-    if (question.options.length > 2) {
-      const newOptions = question.options.filter((_, i) => i !== optionIndex);
-      // Reset correct answer if it was the removed option
-      const newCorrectAnswer = question.correct_answer === question.options[optionIndex]
-        ? ''
-        : question.correct_answer;
-      updateQuestion(questionIndex, { options: newOptions, correct_answer: newCorrectAnswer });
-    }
-  };
-
   const handleSave = async () => {
     // Validation
     if (!title.trim()) {
@@ -164,16 +126,9 @@ export default function NewQuizPage() {
       toast.error('Please select a lesson');
       return;
     }
-    if (questions.some(q => !q.question.trim())) {
-      toast.error('All questions must have text');
-      return;
-    }
-    if (questions.some(q => q.type === 'multiple_choice' && q.options.filter(o => o.trim()).length < 2)) {
-      toast.error('Multiple choice questions must have at least 2 options');
-      return;
-    }
-    if (questions.some(q => !q.correct_answer && q.correct_answer !== false)) {
-      toast.error('All questions must have a correct answer');
+    const questionError = questions.map(getQuestionError).find(Boolean);
+    if (questionError) {
+      toast.error(questionError);
       return;
     }
 
@@ -187,12 +142,7 @@ export default function NewQuizPage() {
           lesson_id: lessonId,
           passing_score: passingScore,
           questions: questions.map(q => ({
-            question: q.question,
-            type: q.type,
-            options: q.type === 'multiple_choice' ? q.options.filter(o => o.trim()) : undefined,
-            correct_answer: q.correct_answer,
-            points: q.points,
-            explanation: q.explanation || undefined,
+            ...toQuestionPayload(q),
           })),
         }),
       });
@@ -342,28 +292,19 @@ export default function NewQuizPage() {
                   <Label>Question Type</Label>
                   <Select
                     value={question.type}
-                    onValueChange={(value: QuestionType) => {
-                      const updates: Partial<QuizQuestion> = { type: value };
-                      if (value === 'true_false') {
-                        updates.options = ['True', 'False'];
-                        updates.correct_answer = true;
-                      } else if (value === 'short_answer') {
-                        updates.options = [];
-                        updates.correct_answer = '';
-                      } else {
-                        updates.options = ['', '', '', ''];
-                        updates.correct_answer = '';
-                      }
-                      updateQuestion(qIndex, updates);
-                    }}
+                    onValueChange={(value: QuizQuestionType) =>
+                      updateQuestion(qIndex, getQuestionTypeDefaults(value))
+                    }
                   >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
-                      <SelectItem value="true_false">True/False</SelectItem>
-                      <SelectItem value="short_answer">Short Answer</SelectItem>
+                      {QUIZ_QUESTION_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {QUESTION_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -379,97 +320,10 @@ export default function NewQuizPage() {
                 </div>
               </div>
 
-              {/* Multiple Choice Options */}
-              {question.type === 'multiple_choice' && (
-                <div className="space-y-2">
-                  <Label>Answer Options</Label>
-                  <div className="space-y-2">
-                    {question.options.map((option, oIndex) => (
-                      <div key={oIndex} className="flex items-center gap-2">
-                        <input
-                          type="radio"
-                          name={`correct-${question.id}`}
-                          checked={question.correct_answer === option && option.trim() !== ''}
-                          onChange={() => updateQuestion(qIndex, { correct_answer: option })}
-                          className="w-4 h-4"
-                          disabled={!option.trim()}
-                        />
-                        <Input
-                          value={option}
-                          onChange={(e) => updateOption(qIndex, oIndex, e.target.value)}
-                          placeholder={`Option ${oIndex + 1}`}
-                          className="flex-1"
-                        />
-                        {question.options.length > 2 && (
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => removeOption(qIndex, oIndex)}
-                            aria-label={`Remove option ${oIndex + 1}`}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        )}
-                      </div>
-                    ))}
-                    {question.options.length < 6 && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => addOption(qIndex)}
-                      >
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add Option
-                      </Button>
-                    )}
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    Select the radio button next to the correct answer
-                  </p>
-                </div>
-              )}
-
-              {/* True/False Options */}
-              {question.type === 'true_false' && (
-                <div className="space-y-2">
-                  <Label>Correct Answer</Label>
-                  <div className="flex items-center gap-4">
-                    <label className="flex items-center gap-2">
-                      <input
-                        type="radio"
-                        checked={question.correct_answer === true}
-                        onChange={() => updateQuestion(qIndex, { correct_answer: true })}
-                        className="w-4 h-4"
-                      />
-                      True
-                    </label>
-                    <label className="flex items-center gap-2">
-                      <input
-                        type="radio"
-                        checked={question.correct_answer === false}
-                        onChange={() => updateQuestion(qIndex, { correct_answer: false })}
-                        className="w-4 h-4"
-                      />
-                      False
-                    </label>
-                  </div>
-                </div>
-              )}
-
-              {/* Short Answer */}
-              {question.type === 'short_answer' && (
-                <div className="space-y-2">
-                  <Label>Correct Answer</Label>
-                  <Input
-                    value={question.correct_answer as string}
-                    onChange={(e) => updateQuestion(qIndex, { correct_answer: e.target.value })}
-                    placeholder="Enter the correct answer"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Student answers will be matched case-insensitively
-                  </p>
-                </div>
-              )}
+              <QuestionAnswerEditor
+                question={question}
+                onChange={(updates) => updateQuestion(qIndex, updates)}
+              />
 
               {/* Explanation */}
               <div className="space-y-2">
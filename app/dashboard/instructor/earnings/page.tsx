@@ -34,17 +34,19 @@ import {
   CreditCard,
   DollarSign,
   Download,
+  FileText,
   Users,
 } from "lucide-react";
 import Link from "next/link";
 import { useEffect, useState } from "react";
+import { toast } from "sonner";
 
 interface EarningsSummary {
   total_earnings: number;
   this_month: number;
   last_month: number;
   pending_payout: number;
-  total_students: number;
+  total_sales: number;
   total_courses: number;
 }
 
@@ -55,29 +57,59 @@ interface Transaction {
   course_title: string;
   amount: number;
   type: "sale" | "payout" | "refund";
-  status: "completed" | "pending" | "failed";
+  status: "completed" | "pending";
 }
 
 interface CourseEarning {
   course_id: string;
   title: string;
   total_revenue: number;
-  enrollments: number;
-  average_rating: number;
+  sales: number;
 }
 
+interface PayoutStatement {
+  id: string;
+  period_start: string;
+  period_end: string;
+  gross_amount: number;
+  platform_fees: number;
+  refunds: number;
+  net_amount: number;
+  status: "pending" | "approved" | "rejected" | "paid";
+  notes: string | null;
+}
+
+interface RevenueShareSettings {
+  platform_fee_percent: number;
+  minimum_payout: number;
+}
+
+const EMPTY_SUMMARY: EarningsSummary = {
+  total_earnings: 0,
+  this_month: 0,
+  last_month: 0,
+  pending_payout: 0,
+  total_sales: 0,
+  total_courses: 0,
+};
+
+const STATEMENT_STATUS_VARIANTS: Record<
+  PayoutStatement["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "secondary",
+  approved: "outline",
+  rejected: "destructive",
+  paid: "default",
+};
+
 export default function InstructorEarningsPage() {
-  const [summary, setSummary] = useState<EarningsSummary>({
-    total_earnings: 4250.0,
-    this_month: 850.0,
-    last_month: 720.0,
-    pending_payout: 350.0,
-    total_students: 127,
-    total_courses: 3,
-  });
+  const [summary, setSummary] = useState<EarningsSummary>(EMPTY_SUMMARY);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [courseEarnings, setCourseEarnings] = useState<CourseEarning[]>([]);
-  const [_loading, setLoading] = useState(true);
+  const [statements, setStatements] = useState<PayoutStatement[]>([]);
+  const [settings, setSettings] = useState<RevenueShareSettings | null>(null);
+  const [loading, setLoading] = useState(true);
   const [period, setPeriod] = useState("all");
 
   useEffect(() => {
@@ -87,91 +119,29 @@ export default function InstructorEarningsPage() {
   const fetchEarningsData = async () => {
     try {
       const res = await fetch(`/api/instructor/earnings?period=${period}`);
-      if (res.ok) {
-        const data = await res.json();
-        setSummary(data.summary);
-        setTransactions(data.transactions);
-        setCourseEarnings(data.courseEarnings);
-      } else {
-        // Use mock data
-        setTransactions([
-          {
-            id: "1",
-            date: new Date().toISOString(),
-            description: "Course enrollment",
-            course_title: "Energy Mastery Fundamentals",
-            amount: 97.0,
-            type: "sale",
-            status: "completed",
-          },
-          {
-            id: "2",
-            date: new Date(Date.now() - 86400000).toISOString(),
-            description: "Course enrollment",
-            course_title: "Advanced Energy Techniques",
-            amount: 147.0,
-            type: "sale",
-            status: "completed",
-          },
-          {
-            id: "3",
-            date: new Date(Date.now() - 172800000).toISOString(),
-            description: "Monthly payout",
-            course_title: "-",
-            amount: 450.0,
-            type: "payout",
-            status: "completed",
-          },
-          {
-            id: "4",
-            date: new Date(Date.now() - 259200000).toISOString(),
-            description: "Course enrollment",
-            course_title: "Energy Mastery Fundamentals",
-            amount: 97.0,
-            type: "sale",
-            status: "completed",
-          },
-          {
-            id: "5",
-            date: new Date(Date.now() - 345600000).toISOString(),
-            description: "Refund processed",
-            course_title: "Energy Mastery Fundamentals",
-            amount: -97.0,
-            type: "refund",
-            status: "completed",
-          },
-        ]);
-        setCourseEarnings([
-          {
-            course_id: "1",
-            title: "Energy Mastery Fundamentals",
-            total_revenue: 2425.0,
-            enrollments: 25,
-            average_rating: 4.8,
-          },
-          {
-            course_id: "2",
-            title: "Advanced Energy Techniques",
-            total_revenue: 1470.0,
-            enrollments: 10,
-            average_rating: 4.9,
-          },
-          {
-            course_id: "3",
-            title: "Element Relationships Workshop",
-            total_revenue: 355.0,
-            enrollments: 5,
-            average_rating: 4.7,
-          },
-        ]);
-      }
+      if (!res.ok) throw new Error("Failed to fetch earnings");
+      const data = await res.json();
+      setSummary(data.summary);
+      setTransactions(data.transactions);
+      setCourseEarnings(data.courseEarnings);
+      setStatements(data.statements);
+      setSettings(data.settings);
     } catch {
-      // Keep mock data
+      toast.error("Failed to load earnings");
     } finally {
       setLoading(false);
     }
   };
 
+  const formatPeriod = (periodStart: string) =>
+    new Date(`${periodStart}T00:00:00Z`).toLocaleDateString("en-US", {
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+
+  const latestStatement = statements[0];
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -195,10 +165,16 @@ export default function InstructorEarningsPage() {
         subtitle="Track your course revenue and payouts"
         actions={
           <div className="flex gap-2">
-            <Button variant="outline">
-              <Download className="w-4 h-4 mr-2" />
-              Export Report
-            </Button>
+            {latestStatement && (
+              <Button variant="outline" asChild>
+                <a
+                  href={`/api/instructor/earnings/statements/${latestStatement.id}/export?format=pdf`}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Latest Statement
+                </a>
+              </Button>
+            )}
             <Button variant="outline" asChild>
               <Link href="/dashboard/instructor">
                 <ArrowLeft className="w-4 h-4 mr-2" />
@@ -257,15 +233,15 @@ export default function InstructorEarningsPage() {
           <CardContent>
             <div className="flex items-center text-sm text-muted-foreground">
               <CreditCard className="w-4 h-4 mr-1" />
-              Next payout: 1st of month
+              Paid monthly after approval
             </div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="pb-2">
-            <CardDescription>Total Students</CardDescription>
-            <CardTitle className="text-3xl">{summary.total_students}</CardTitle>
+            <CardDescription>Total Sales</CardDescription>
+            <CardTitle className="text-3xl">{summary.total_sales}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center text-sm text-muted-foreground">
@@ -292,6 +268,11 @@ export default function InstructorEarningsPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              {!loading && courseEarnings.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No course sales yet
+                </p>
+              )}
               {courseEarnings.map((course) => (
                 <div
                   key={course.course_id}
@@ -300,7 +281,7 @@ export default function InstructorEarningsPage() {
                   <div className="flex-1">
                     <p className="font-medium text-sm">{course.title}</p>
                     <p className="text-xs text-muted-foreground">
-                      {course.enrollments} students • {course.average_rating}★
+                      {course.sales} {course.sales === 1 ? "sale" : "sales"}
                     </p>
                   </div>
                   <div className="text-right">
@@ -320,7 +301,9 @@ export default function InstructorEarningsPage() {
             <div className="flex items-center justify-between">
               <div>
                 <CardTitle>Recent Transactions</CardTitle>
-                <CardDescription>Latest earnings activity</CardDescription>
+                <CardDescription>
+                  Latest earnings activity, net of platform fees
+                </CardDescription>
               </div>
               <Select value={period} onValueChange={setPeriod}>
                 <SelectTrigger className="w-[120px]">
@@ -378,6 +361,87 @@ export default function InstructorEarningsPage() {
         </Card>
       </div>
 
+      {/* Statements */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            Monthly Statements
+          </CardTitle>
+          <CardDescription>
+            Each closed month is rolled up into a statement for payout approval
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {statements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Your first statement is created after the end of the month
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">Fees</TableHead>
+                  <TableHead className="text-right">Refunds</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Export</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statements.map((statement) => (
+                  <TableRow key={statement.id}>
+                    <TableCell className="font-medium">
+                      {formatPeriod(statement.period_start)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(statement.gross_amount)}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      -{formatCurrency(statement.platform_fees)}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      -{formatCurrency(statement.refunds)}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(statement.net_amount)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={STATEMENT_STATUS_VARIANTS[statement.status]}
+                        className="capitalize"
+                      >
+                        {statement.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" asChild>
+                          <a
+                            href={`/api/instructor/earnings/statements/${statement.id}/export?format=csv`}
+                          >
+                            CSV
+                          </a>
+                        </Button>
+                        <Button variant="ghost" size="sm" asChild>
+                          <a
+                            href={`/api/instructor/earnings/statements/${statement.id}/export?format=pdf`}
+                          >
+                            PDF
+                          </a>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Payout Info */}
       <Card className="mt-6">
         <CardHeader>
@@ -391,12 +455,16 @@ export default function InstructorEarningsPage() {
             <div>
               <p className="text-sm font-medium mb-1">Payout Schedule</p>
               <p className="text-sm text-muted-foreground">
-                Monthly on the 1st
+                Monthly, once the statement is approved
               </p>
             </div>
             <div>
-              <p className="text-sm font-medium mb-1">Minimum Payout</p>
-              <p className="text-sm text-muted-foreground">$50.00 USD</p>
+              <p className="text-sm font-medium mb-1">Revenue Share</p>
+              <p className="text-sm text-muted-foreground">
+                {settings
+                  ? `${100 - settings.platform_fee_percent}% of each sale (${formatCurrency(settings.minimum_payout)} minimum payout)`
+                  : "-"}
+              </p>
             </div>
             <div>
               <p className="text-sm font-medium mb-1">Payment Method</p>
@@ -1,9 +1,11 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Bell, Check, CheckCheck, Trash2, Loader2, ExternalLink, RefreshCw, Filter } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ConfirmDialog, useConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Bell, Check, CheckCheck, Trash2, Loader2, ExternalLink, RefreshCw, Filter, Layers, MailOpen, Settings, X } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import Link from 'next/link';
 import {
@@ -15,6 +17,7 @@ import {
 } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { logger } from '@/lib/logging';
+import { groupNotifications, type NotificationGrouping } from '@/lib/notifications/grouping';
 
 interface Notification {
   id: string;
@@ -22,11 +25,20 @@ interface Notification {
   title: string;
   message: string;
   type: 'info' | 'success' | 'warning' | 'error' | 'achievement' | 'course' | 'system';
+  kind?: string | null;
   read: boolean;
   action_url?: string;
   created_at: string;
 }
 
+type BulkAction = 'mark_read' | 'mark_unread' | 'delete';
+
+interface BulkActionResponse {
+  action: BulkAction;
+  ids: string[];
+  unreadCount: number;
+}
+
 interface NotificationResponse {
   notifications: Notification[];
   unreadCount: number;
@@ -43,6 +55,10 @@ export default function NotificationsPage() {
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'unread'>('all');
+  const [grouping, setGrouping] = useState<NotificationGrouping>('date');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const { confirm, dialogProps } = useConfirmDialog();
   const [markingRead, setMarkingRead] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [pagination, setPagination] = useState({
@@ -66,7 +82,10 @@ export default function NotificationsPage() {
       const response = await fetch(`/api/notifications?${params}`);
       if (response.ok) {
         const data: NotificationResponse = await response.json();
-        setNotifications(data.notifications);
+        // Later pages extend the list rather than replacing it
+        setNotifications((prev) =>
+          pagination.offset === 0 ? data.notifications : [...prev, ...data.notifications]
+        );
         setUnreadCount(data.unreadCount);
         setPagination(data.pagination);
       }
@@ -82,6 +101,103 @@ export default function NotificationsPage() {
     fetchNotifications();
   }, [fetchNotifications]);
 
+  /** Reload from the first page */
+  const refresh = () => {
+    setSelected(new Set());
+    if (pagination.offset === 0) {
+      fetchNotifications();
+    } else {
+      setPagination((prev) => ({ ...prev, offset: 0 }));
+    }
+  };
+
+  const changeFilter = (value: 'all' | 'unread') => {
+    setSelected(new Set());
+    setPagination((prev) => ({ ...prev, offset: 0 }));
+    setFilter(value);
+  };
+
+  const groups = useMemo(
+    () => groupNotifications(notifications, grouping),
+    [notifications, grouping]
+  );
+
+  const toggleSelected = (ids: string[], checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const id of ids) {
+        if (checked) {
+          next.add(id);
+        } else {
+          next.delete(id);
+        }
+      }
+      return next;
+    });
+  };
+
+  const selectionState = (ids: string[]) => {
+    const count = ids.filter((id) => selected.has(id)).length;
+    return { all: count > 0 && count === ids.length, some: count > 0 && count < ids.length };
+  };
+
+  const runBulkAction = async (action: BulkAction, ids: string[]) => {
+    setBulkAction(action);
+    try {
+      const response = await fetch('/api/notifications/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ids }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Bulk action failed with status ${response.status}`);
+      }
+
+      const data: BulkActionResponse = await response.json();
+      const affected = new Set(data.ids);
+
+      if (action === 'delete') {
+        setNotifications((prev) => prev.filter((n) => !affected.has(n.id)));
+        setPagination((prev) => ({ ...prev, total: Math.max(0, prev.total - affected.size) }));
+      } else {
+        const read = action === 'mark_read';
+        setNotifications((prev) =>
+          prev
+            .map((n) => (affected.has(n.id) ? { ...n, read } : n))
+            // Marked read while viewing unread only: they no longer belong here
+            .filter((n) => filter !== 'unread' || !n.read)
+        );
+      }
+      setUnreadCount(data.unreadCount);
+      setSelected(new Set());
+
+      const count = affected.size;
+      const noun = `notification${count === 1 ? '' : 's'}`;
+      toast.success(
+        action === 'delete'
+          ? `Deleted ${count} ${noun}`
+          : `Marked ${count} ${noun} as ${action === 'mark_read' ? 'read' : 'unread'}`
+      );
+    } catch (error) {
+      logger.error('Failed to update notifications', error instanceof Error ? error : new Error(String(error)));
+      toast.error('Failed to update notifications');
+    } finally {
+      setBulkAction(null);
+    }
+  };
+
+  const confirmBulkDelete = () => {
+    const ids = [...selected];
+    confirm({
+      title: 'Delete notifications',
+      description: `Delete ${ids.length} selected notification${ids.length === 1 ? '' : 's'}? This cannot be undone.`,
+      confirmLabel: 'Delete',
+      variant: 'destructive',
+      onConfirm: () => runBulkAction('delete', ids),
+    });
+  };
+
   const markAsRead = async (notificationId: string) => {
     setMarkingRead(notificationId);
     try {
@@ -136,6 +252,7 @@ export default function NotificationsPage() {
       if (response.ok) {
         const deletedNotification = notifications.find((n) => n.id === notificationId);
         setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+        toggleSelected([notificationId], false);
         if (deletedNotification && !deletedNotification.read) {
           setUnreadCount((prev) => Math.max(0, prev - 1));
         }
@@ -211,7 +328,7 @@ export default function NotificationsPage() {
             </CardDescription>
           </div>
           <div className="flex items-center gap-2">
-            <Select value={filter} onValueChange={(value: 'all' | 'unread') => setFilter(value)}>
+            <Select value={filter} onValueChange={changeFilter}>
               <SelectTrigger className="w-32">
                 <Filter className="h-4 w-4 mr-2" />
                 <SelectValue />
@@ -221,7 +338,18 @@ export default function NotificationsPage() {
                 <SelectItem value="unread">Unread</SelectItem>
               </SelectContent>
             </Select>
-            <Button variant="outline" size="icon" onClick={fetchNotifications} disabled={loading}>
+            <Select value={grouping} onValueChange={(value: NotificationGrouping) => setGrouping(value)}>
+              <SelectTrigger className="w-36">
+                <Layers className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">By date</SelectItem>
+                <SelectItem value="category">By type</SelectItem>
+                <SelectItem value="none">No grouping</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={refresh} disabled={loading}>
               <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
             </Button>
             {unreadCount > 0 && (
@@ -239,6 +367,11 @@ export default function NotificationsPage() {
                 Mark all read
               </Button>
             )}
+            <Button variant="outline" size="icon" asChild title="Notification settings">
+              <Link href="/dashboard/settings/notifications">
+                <Settings className="h-4 w-4" />
+              </Link>
+            </Button>
           </div>
         </CardHeader>
         <CardContent>
@@ -255,83 +388,172 @@ export default function NotificationsPage() {
               </p>
             </div>
           ) : (
-            <div className="space-y-3">
-              {notifications.map((notification) => (
-                <div
-                  key={notification.id}
-                  className={`p-4 rounded-lg border hover:bg-accent/50 transition-colors ${
-                    !notification.read ? 'bg-primary/5 border-primary/20' : 'border-border'
-                  } border-l-4 ${getNotificationColor(notification.type)}`}
-                >
-                  <div className="flex gap-4">
-                    <span className="text-2xl flex-shrink-0">
-                      {getNotificationIcon(notification.type)}
-                    </span>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start justify-between gap-2 mb-1">
-                        <h3 className={`font-medium ${!notification.read ? 'text-foreground' : 'text-muted-foreground'}`}>
-                          {notification.title}
-                        </h3>
-                        <div className="flex items-center gap-1 flex-shrink-0">
-                          {!notification.read && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => markAsRead(notification.id)}
-                              disabled={markingRead === notification.id}
-                              title="Mark as read"
-                            >
-                              {markingRead === notification.id ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <Check className="h-4 w-4" />
+            <div className="space-y-6">
+              <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/40 px-3 py-2">
+                <Checkbox
+                  checked={selectionState(notifications.map((n) => n.id)).all}
+                  indeterminate={selectionState(notifications.map((n) => n.id)).some}
+                  onCheckedChange={(checked) => toggleSelected(notifications.map((n) => n.id), checked === true)}
+                  aria-label="Select all loaded notifications"
+                />
+                <span className="text-sm text-muted-foreground mr-auto">
+                  {selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+                </span>
+                {selected.size > 0 && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runBulkAction('mark_read', [...selected])}
+                      disabled={bulkAction !== null}
+                    >
+                      {bulkAction === 'mark_read' ? (
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      ) : (
+                        <Check className="h-4 w-4 mr-2" />
+                      )}
+                      Mark read
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runBulkAction('mark_unread', [...selected])}
+                      disabled={bulkAction !== null}
+                    >
+                      {bulkAction === 'mark_unread' ? (
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      ) : (
+                        <MailOpen className="h-4 w-4 mr-2" />
+                      )}
+                      Mark unread
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={confirmBulkDelete}
+                      disabled={bulkAction !== null}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelected(new Set())}
+                      title="Clear selection"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {groups.map((group) => {
+                const groupIds = group.items.map((n) => n.id);
+                const groupSelection = selectionState(groupIds);
+
+                return (
+                  <section key={group.key} className="space-y-3">
+                    {grouping !== 'none' && (
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          checked={groupSelection.all}
+                          indeterminate={groupSelection.some}
+                          onCheckedChange={(checked) => toggleSelected(groupIds, checked === true)}
+                          aria-label={`Select ${group.label} notifications`}
+                        />
+                        <h2 className="text-sm font-semibold text-muted-foreground">
+                          {group.label}
+                          <span className="ml-2 font-normal">({group.items.length})</span>
+                        </h2>
+                      </div>
+                    )}
+                    {group.items.map((notification) => (
+                      <div
+                        key={notification.id}
+                        className={`p-4 rounded-lg border hover:bg-accent/50 transition-colors ${
+                          !notification.read ? 'bg-primary/5 border-primary/20' : 'border-border'
+                        } border-l-4 ${getNotificationColor(notification.type)}`}
+                      >
+                        <div className="flex gap-4">
+                          <Checkbox
+                            className="mt-1"
+                            checked={selected.has(notification.id)}
+                            onCheckedChange={(checked) => toggleSelected([notification.id], checked === true)}
+                            aria-label={`Select "${notification.title}"`}
+                          />
+                          <span className="text-2xl flex-shrink-0">
+                            {getNotificationIcon(notification.type)}
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-start justify-between gap-2 mb-1">
+                              <h3 className={`font-medium ${!notification.read ? 'text-foreground' : 'text-muted-foreground'}`}>
+                                {notification.title}
+                              </h3>
+                              <div className="flex items-center gap-1 flex-shrink-0">
+                                {!notification.read && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => markAsRead(notification.id)}
+                                    disabled={markingRead === notification.id}
+                                    title="Mark as read"
+                                  >
+                                    {markingRead === notification.id ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <Check className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-muted-foreground hover:text-destructive"
+                                  onClick={() => deleteNotification(notification.id)}
+                                  disabled={deletingId === notification.id}
+                                  title="Delete notification"
+                                >
+                                  {deletingId === notification.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Trash2 className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              </div>
+                            </div>
+                            <p className="text-sm text-muted-foreground mb-2">
+                              {notification.message}
+                            </p>
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs text-muted-foreground/70">
+                                {formatDistanceToNow(new Date(notification.created_at), {
+                                  addSuffix: true,
+                                })}
+                              </span>
+                              {notification.action_url && (
+                                <Link
+                                  href={notification.action_url}
+                                  className="text-sm text-primary hover:underline flex items-center gap-1"
+                                  onClick={() => {
+                                    if (!notification.read) {
+                                      markAsRead(notification.id);
+                                    }
+                                  }}
+                                >
+                                  View details
+                                  <ExternalLink className="h-3 w-3" />
+                                </Link>
                               )}
-                            </Button>
-                          )}
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="text-muted-foreground hover:text-destructive"
-                            onClick={() => deleteNotification(notification.id)}
-                            disabled={deletingId === notification.id}
-                            title="Delete notification"
-                          >
-                            {deletingId === notification.id ? (
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                            ) : (
-                              <Trash2 className="h-4 w-4" />
-                            )}
-                          </Button>
+                            </div>
+                          </div>
                         </div>
                       </div>
-                      <p className="text-sm text-muted-foreground mb-2">
-                        {notification.message}
-                      </p>
-                      <div className="flex items-center justify-between">
-                        <span className="text-xs text-muted-foreground/70">
-                          {formatDistanceToNow(new Date(notification.created_at), {
-                            addSuffix: true,
-                          })}
-                        </span>
-                        {notification.action_url && (
-                          <Link
-                            href={notification.action_url}
-                            className="text-sm text-primary hover:underline flex items-center gap-1"
-                            onClick={() => {
-                              if (!notification.read) {
-                                markAsRead(notification.id);
-                              }
-                            }}
-                          >
-                            View details
-                            <ExternalLink className="h-3 w-3" />
-                          </Link>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))}
+                    ))}
+                  </section>
+                );
+              })}
 
               {pagination.hasMore && (
                 <div className="pt-4 text-center">
@@ -354,6 +576,8 @@ export default function NotificationsPage() {
           )}
         </CardContent>
       </Card>
+
+      <ConfirmDialog {...dialogProps} />
     </div>
   );
 }
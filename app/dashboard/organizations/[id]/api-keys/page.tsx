@@ -113,6 +113,25 @@ const SCOPE_GROUPS: ScopeGroup[] = [
       { scope: "courses:enroll", description: "Enroll users in courses" },
     ],
   },
+  {
+    category: "Diagnostics",
+    scopes: [
+      {
+        scope: "diagnostics:read",
+        description: "View team diagnostics and their results",
+      },
+    ],
+  },
+  {
+    category: "Provisioning",
+    scopes: [
+      {
+        scope: "scim:provision",
+        description:
+          "Provision users and groups from your identity provider (SCIM)",
+      },
+    ],
+  },
 ];
 
 export default function ApiKeysPage() {
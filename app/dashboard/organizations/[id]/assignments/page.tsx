@@ -0,0 +1,600 @@
+"use client";
+
+/**
+ * Learning Assignments Page
+ * Assign courses, the assessment and diagnostics to members and teams, and
+ * track who completed them on time
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ASSIGNMENT_CONTENT_TYPES,
+  ASSIGNMENT_MEMBER_STATUSES,
+  DEFAULT_REMINDER_DAYS_BEFORE,
+  type AssignmentContentType,
+  type AssignmentMemberStatus,
+  type ComplianceSummary,
+} from "@/lib/organizations/learning-assignments";
+import { ArrowLeft, ClipboardCheck, Download, Plus, Trash2, UserMinus } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface Assignment {
+  id: string;
+  content_type: AssignmentContentType;
+  title: string;
+  message: string | null;
+  due_at: string | null;
+  credits_used: number;
+  created_at: string;
+  summary?: ComplianceSummary;
+}
+
+interface AssignmentMember {
+  user_id: string;
+  name: string | null;
+  email: string;
+  team: string | null;
+  assigned_at: string;
+  completed_at: string | null;
+  status: AssignmentMemberStatus;
+}
+
+interface Member {
+  user_id: string;
+  profiles?: {
+    email: string;
+    full_name: string | null;
+  } | null;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const STATUS_VARIANTS: Record<AssignmentMemberStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "default",
+  completed_late: "secondary",
+  pending: "outline",
+  overdue: "destructive",
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString() : "—";
+
+export default function AssignmentsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const orgId = params.id as string;
+
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Selected assignment
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedMembers, setSelectedMembers] = useState<AssignmentMember[]>([]);
+
+  // Create dialog
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [teams, setTeams] = useState<Option[]>([]);
+  const [courses, setCourses] = useState<Option[]>([]);
+  const [diagnostics, setDiagnostics] = useState<Option[]>([]);
+  const [formContentType, setFormContentType] = useState<AssignmentContentType>("course");
+  const [formContentId, setFormContentId] = useState("");
+  const [formUserIds, setFormUserIds] = useState<string[]>([]);
+  const [formTeamIds, setFormTeamIds] = useState<string[]>([]);
+  const [formDueDate, setFormDueDate] = useState("");
+  const [formReminderDays, setFormReminderDays] = useState(DEFAULT_REMINDER_DAYS_BEFORE);
+  const [formMessage, setFormMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [orgId]);
+
+  const fetchAssignments = async () => {
+    try {
+      setLoading(true);
+
+      const res = await fetch(`/api/organizations/${orgId}/assignments`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch assignments");
+
+      setAssignments(data.assignments || []);
+      setCanManage(data.canManage);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchAssignment = async (assignmentId: string) => {
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/assignments/${assignmentId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch assignment");
+
+      setSelectedId(assignmentId);
+      setSelectedMembers(data.members || []);
+    } catch (err: unknown) {
+      toast.error("Error", {
+        description: err instanceof Error ? err.message : "Failed to load assignment",
+      });
+    }
+  };
+
+  const openCreateDialog = async () => {
+    setFormContentType("course");
+    setFormContentId("");
+    setFormUserIds([]);
+    setFormTeamIds([]);
+    setFormDueDate("");
+    setFormReminderDays(DEFAULT_REMINDER_DAYS_BEFORE);
+    setFormMessage("");
+    setCreateDialogOpen(true);
+
+    const [membersRes, teamsRes, coursesRes, diagnosticsRes] = await Promise.all([
+      fetch(`/api/organizations/${orgId}/members`),
+      fetch(`/api/organizations/${orgId}/teams`),
+      fetch(`/api/courses?limit=100`),
+      fetch(`/api/organizations/${orgId}/diagnostics`),
+    ]);
+
+    if (membersRes.ok) {
+      const data = await membersRes.json();
+      setMembers(data.members?.data || []);
+    }
+    if (teamsRes.ok) {
+      const data = await teamsRes.json();
+      setTeams((data.teams || []).map((team: Option) => ({ id: team.id, name: team.name })));
+    }
+    if (coursesRes.ok) {
+      const data = await coursesRes.json();
+      setCourses((data.courses || []).map((course: { id: string; title: string }) => ({ id: course.id, name: course.title })));
+    }
+    if (diagnosticsRes.ok) {
+      const data = await diagnosticsRes.json();
+      setDiagnostics(
+        (data.diagnostics || [])
+          .filter((diagnostic: { status: string }) => diagnostic.status !== "completed" && diagnostic.status !== "archived")
+          .map((diagnostic: Option) => ({ id: diagnostic.id, name: diagnostic.name }))
+      );
+    }
+  };
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+  const handleCreate = async () => {
+    try {
+      setSaving(true);
+
+      const res = await fetch(`/api/organizations/${orgId}/assignments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content_type: formContentType,
+          course_id: formContentType === "course" ? formContentId : undefined,
+          diagnostic_id: formContentType === "diagnostic" ? formContentId : undefined,
+          user_ids: formUserIds,
+          team_ids: formTeamIds,
+          due_at: formDueDate ? new Date(`${formDueDate}T23:59:59`).toISOString() : null,
+          reminder_days_before: formReminderDays,
+          message: formMessage.trim() || null,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create assignment");
+
+      toast.success("Assignment created", {
+        description: `Assigned to ${data.assigned} member(s)${data.creditsUsed ? `, ${data.creditsUsed} credit(s) used` : ""}`,
+      });
+      setCreateDialogOpen(false);
+      fetchAssignments();
+    } catch (err: unknown) {
+      toast.error("Error", {
+        description: err instanceof Error ? err.message : "Failed to create assignment",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (assignment: Assignment) => {
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/assignments/${assignment.id}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to delete assignment");
+      }
+
+      toast.success("Assignment deleted", {
+        description: `${assignment.title} has been deleted`,
+      });
+      if (selectedId === assignment.id) setSelectedId(null);
+      fetchAssignments();
+    } catch (err: unknown) {
+      toast.error("Error", {
+        description: err instanceof Error ? err.message : "Failed to delete assignment",
+      });
+    }
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    if (!selectedId) return;
+
+    try {
+      const res = await fetch(
+        `/api/organizations/${orgId}/assignments/${selectedId}/members?user_id=${userId}`,
+        { method: "DELETE" }
+      );
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to remove member");
+      }
+
+      fetchAssignment(selectedId);
+      fetchAssignments();
+    } catch (err: unknown) {
+      toast.error("Error", {
+        description: err instanceof Error ? err.message : "Failed to remove member",
+      });
+    }
+  };
+
+  const selected = assignments.find((assignment) => assignment.id === selectedId);
+  const contentOptions = formContentType === "course" ? courses : diagnostics;
+  const canCreate =
+    (formUserIds.length > 0 || formTeamIds.length > 0) &&
+    (formContentType === "assessment" || !!formContentId);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <div className="space-y-6">
+          <Skeleton className="h-12 w-64" />
+          <Skeleton className="h-64" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center py-6 text-destructive">{error}</div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push(`/dashboard/organizations/${orgId}`)}
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <h1 className="text-3xl font-bold tracking-tight">Assignments</h1>
+            </div>
+            <p className="text-muted-foreground">
+              Assign learning with due dates and track completion across your teams
+            </p>
+          </div>
+          {canManage && (
+            <Button onClick={openCreateDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Assignment
+            </Button>
+          )}
+        </div>
+
+        {/* Compliance Overview */}
+        {assignments.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-center py-6 text-muted-foreground">
+                <ClipboardCheck className="h-8 w-8 mx-auto mb-2" />
+                No assignments yet
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {assignments.map((assignment) => (
+              <Card
+                key={assignment.id}
+                className={assignment.id === selectedId ? "border-primary" : undefined}
+              >
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <CardTitle className="text-lg">{assignment.title}</CardTitle>
+                      <CardDescription>
+                        {ASSIGNMENT_CONTENT_TYPES[assignment.content_type]} · Due{" "}
+                        {formatDate(assignment.due_at)}
+                      </CardDescription>
+                    </div>
+                    {(assignment.summary?.overdue ?? 0) > 0 && (
+                      <Badge variant="destructive">{assignment.summary?.overdue} overdue</Badge>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>
+                        {(assignment.summary?.completed ?? 0) + (assignment.summary?.completedLate ?? 0)} of{" "}
+                        {assignment.summary?.assigned ?? 0} completed
+                      </span>
+                      <span className="font-medium">{assignment.summary?.completionRate ?? 0}%</span>
+                    </div>
+                    <Progress value={assignment.summary?.completionRate ?? 0} />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => fetchAssignment(assignment.id)}>
+                      View Members
+                    </Button>
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/organizations/${orgId}/assignments/${assignment.id}/export`}>
+                        <Download className="h-4 w-4 mr-2" />
+                        CSV
+                      </a>
+                    </Button>
+                    {canManage && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(assignment)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Assignee Status */}
+        {selected && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{selected.title}</CardTitle>
+              <CardDescription>
+                {selected.summary?.completed ?? 0} on time, {selected.summary?.completedLate ?? 0} late,{" "}
+                {selected.summary?.pending ?? 0} pending, {selected.summary?.overdue ?? 0} overdue
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Completed</TableHead>
+                    {canManage && <TableHead />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedMembers.map((member) => (
+                    <TableRow key={member.user_id}>
+                      <TableCell>
+                        <div className="font-medium">{member.name || member.email}</div>
+                        {member.name && (
+                          <div className="text-sm text-muted-foreground">{member.email}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{member.team || "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[member.status]}>
+                          {ASSIGNMENT_MEMBER_STATUSES[member.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatDate(member.completed_at)}</TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => handleRemoveMember(member.user_id)}>
+                            <UserMinus className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Create Dialog */}
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Assignment</DialogTitle>
+            <DialogDescription>
+              Courses use one course credit for each member enrolled
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <div className="space-y-2">
+              <Label>Assign</Label>
+              <Select
+                value={formContentType}
+                onValueChange={(value) => {
+                  setFormContentType(value as AssignmentContentType);
+                  setFormContentId("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ASSIGNMENT_CONTENT_TYPES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formContentType !== "assessment" && (
+              <div className="space-y-2">
+                <Label>{formContentType === "course" ? "Course" : "Diagnostic"}</Label>
+                <Select value={formContentId} onValueChange={setFormContentId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {contentOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {teams.length > 0 && (
+              <div className="space-y-2">
+                <Label>Teams</Label>
+                {teams.map((team) => (
+                  <div key={team.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`team-${team.id}`}
+                      checked={formTeamIds.includes(team.id)}
+                      onCheckedChange={() => setFormTeamIds(toggle(formTeamIds, team.id))}
+                    />
+                    <Label htmlFor={`team-${team.id}`} className="font-normal">
+                      {team.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Members</Label>
+              {members.map((member) => (
+                <div key={member.user_id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`member-${member.user_id}`}
+                    checked={formUserIds.includes(member.user_id)}
+                    onCheckedChange={() => setFormUserIds(toggle(formUserIds, member.user_id))}
+                  />
+                  <Label htmlFor={`member-${member.user_id}`} className="font-normal">
+                    {member.profiles?.full_name || member.profiles?.email}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="due-date">Due date</Label>
+                <Input
+                  id="due-date"
+                  type="date"
+                  value={formDueDate}
+                  onChange={(e) => setFormDueDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reminder-days">Reminder (days before)</Label>
+                <Input
+                  id="reminder-days"
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={formReminderDays}
+                  onChange={(e) => setFormReminderDays(Number(e.target.value))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="message">Message (optional)</Label>
+              <Textarea
+                id="message"
+                rows={3}
+                value={formMessage}
+                onChange={(e) => setFormMessage(e.target.value)}
+                placeholder="Why this matters for the team"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !canCreate}>
+              {saving ? "Assigning..." : "Assign"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -50,6 +50,7 @@ import { useAsync } from '@/hooks/use-async';
 import { formatDate } from '@/lib/utils';
 import { logger } from '@/lib/logging';
 import type { DiagnosticWithTemplate, DiagnosticResponse, DiagnosticType, DiagnosticStatus } from '@/lib/db';
+import type { ReleasedDiagnosticResults } from '@/lib/diagnostics';
 
 interface DiagnosticData {
   diagnostic: DiagnosticWithTemplate;
@@ -215,6 +216,8 @@ export default function DiagnosticViewPage() {
   const completionRate = diagnostic.total_participants > 0
     ? Math.round((diagnostic.completed_participants / diagnostic.total_participants) * 100)
     : 0;
+  // Empty until the diagnostic has been scored; protected by the organization's privacy policy
+  const results = diagnostic.results as Partial<ReleasedDiagnosticResults> | null;
 
   return (
     <div className="container mx-auto p-6 max-w-7xl">
@@ -481,11 +484,50 @@ export default function DiagnosticViewPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {Object.keys(diagnostic.results).length > 0 ? (
-              <div className="space-y-4">
-                <pre className="bg-muted p-4 rounded-lg overflow-auto text-sm">
-                  {JSON.stringify(diagnostic.results, null, 2)}
-                </pre>
+            {results?.status === 'ready' ? (
+              <div className="space-y-8">
+                <div className="space-y-4">
+                  <h3 className="text-sm font-medium">Team scores</h3>
+                  {(results.dimensions ?? []).map((dimension) => (
+                    <div key={dimension.id} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span>{dimension.label}</span>
+                        <span className="font-medium">
+                          {dimension.mean}
+                          <span className="text-muted-foreground font-normal"> / 100 (±{dimension.std_dev})</span>
+                        </span>
+                      </div>
+                      <Progress value={dimension.mean} className="h-2" />
+                    </div>
+                  ))}
+                </div>
+
+                {results.element_mix && Object.values(results.element_mix).some((share) => share > 0) && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium">Element mix</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                      {Object.entries(results.element_mix).map(([element, share]) => (
+                        <div key={element} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                          <span className="capitalize">{element}</span>
+                          <span className="font-medium">{share}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <p className="text-xs text-muted-foreground">
+                  Based on {results.participants} completed response{results.participants === 1 ? '' : 's'}
+                  {results.anonymous && ' (anonymous)'}
+                </p>
+              </div>
+            ) : results?.status === 'insufficient_participants' ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Users className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p>
+                  Results are hidden until at least {results.min_participants} participants complete the diagnostic
+                  ({results.participants} so far)
+                </p>
               </div>
             ) : (
               <div className="text-center py-8 text-muted-foreground">
@@ -501,7 +543,7 @@ export default function DiagnosticViewPage() {
       {diagnostic.insights && diagnostic.insights.length > 0 && (
         <Card className="mt-8">
           <CardHeader>
-            <CardTitle>AI-Generated Insights</CardTitle>
+            <CardTitle>Key Insights</CardTitle>
             <CardDescription>
               Key findings and recommendations based on the assessment data
             </CardDescription>
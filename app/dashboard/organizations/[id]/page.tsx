@@ -22,7 +22,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Users, Coins, Settings, UserPlus, Crown, Shield, User, Calendar, Mail, BarChart3, FileText, Activity, Key, Zap, ShieldCheck } from 'lucide-react'
+import { Users, Coins, Settings, UserPlus, Crown, Shield, User, Calendar, Mail, BarChart3, FileText, Activity, Key, Zap, ShieldCheck, Network, ClipboardCheck } from 'lucide-react'
 import { OrganizationSwitcher } from '@/components/organizations/organization-switcher'
 
 interface Organization {
@@ -238,6 +238,22 @@ export default function OrganizationPage() {
                   <ShieldCheck className="h-4 w-4 mr-2" />
                   Roles
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => router.push(`/dashboard/organizations/${orgId}/teams`)}
+                >
+                  <Network className="h-4 w-4 mr-2" />
+                  Teams
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => router.push(`/dashboard/organizations/${orgId}/assignments`)}
+                >
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  Assignments
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -2,7 +2,7 @@
 
 /**
  * Organization Settings Page
- * Manage organization details and members (admin only)
+ * Manage organization details, members and aggregate privacy (admin only)
  */
 
 import {
@@ -16,6 +16,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { PrivacySettingsCard } from "@/components/organizations/privacy-settings-card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -307,6 +308,7 @@ export default function OrganizationSettingsPage() {
           <TabsList>
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="members">Members</TabsTrigger>
+            <TabsTrigger value="privacy">Privacy</TabsTrigger>
             <TabsTrigger value="danger">Danger Zone</TabsTrigger>
           </TabsList>
 
@@ -473,6 +475,11 @@ export default function OrganizationSettingsPage() {
             </Card>
           </TabsContent>
 
+          {/* Privacy */}
+          <TabsContent value="privacy">
+            <PrivacySettingsCard organizationId={orgId} />
+          </TabsContent>
+
           {/* Danger Zone */}
           <TabsContent value="danger">
             <Card className="border-destructive">
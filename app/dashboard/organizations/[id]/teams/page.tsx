@@ -0,0 +1,496 @@
+"use client";
+
+/**
+ * Teams Management Page
+ * Organize members into nested departments and teams, and import assignments from a CSV
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import type { TeamTreeNode } from "@/lib/organizations/teams";
+import {
+  ArrowLeft,
+  Building2,
+  Crown,
+  FileUp,
+  Plus,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface Team {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  kind: "department" | "team";
+  description: string | null;
+  manager_id: string | null;
+  external_id: string | null;
+  member_count: number;
+}
+
+interface Member {
+  user_id: string;
+  profiles?: {
+    email: string;
+    full_name: string | null;
+  } | null;
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  applied: boolean;
+  teamsCreated: string[];
+  membersAssigned: number;
+  managersSet: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+// Select needs a non-empty value for "no selection"
+const NONE = "none";
+
+const IMPORT_PLACEHOLDER = `email,team,team_external_id,manager
+ada@example.com,Engineering > Platform,ENG-PLT,yes
+grace@example.com,Engineering > Platform,,`;
+
+export default function TeamsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const orgId = params.id as string;
+
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [tree, setTree] = useState<TeamTreeNode<Team>[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create dialog
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [formName, setFormName] = useState("");
+  const [formKind, setFormKind] = useState<"department" | "team">("team");
+  const [formParentId, setFormParentId] = useState(NONE);
+  const [formManagerId, setFormManagerId] = useState(NONE);
+  const [saving, setSaving] = useState(false);
+
+  // CSV import
+  const [importCsv, setImportCsv] = useState("");
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, [orgId]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const teamsRes = await fetch(`/api/organizations/${orgId}/teams`);
+      if (!teamsRes.ok) throw new Error("Failed to fetch teams");
+      const teamsData = await teamsRes.json();
+      setTeams(teamsData.teams || []);
+      setTree(teamsData.tree || []);
+
+      const membersRes = await fetch(`/api/organizations/${orgId}/members`);
+      if (membersRes.ok) {
+        const membersData = await membersRes.json();
+        setMembers(membersData.members?.data || []);
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      toast.error("Error", {
+        description: err instanceof Error ? err.message : "Failed to load data",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const memberName = (userId: string) => {
+    const member = members.find((m) => m.user_id === userId);
+    return member?.profiles?.full_name || member?.profiles?.email || "Unknown member";
+  };
+
+  const openCreateDialog = (parentId?: string) => {
+    setFormName("");
+    setFormKind(parentId ? "team" : "department");
+    setFormParentId(parentId || NONE);
+    setFormManagerId(NONE);
+    setCreateDialogOpen(true);
+  };
+
+  const handleCreateTeam = async () => {
+    try {
+      setSaving(true);
+
+      const res = await fetch(`/api/organizations/${orgId}/teams`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: formName,
+          kind: formKind,
+          parent_id: formParentId === NONE ? null : formParentId,
+          manager_id: formManagerId === NONE ? null : formManagerId,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to create team");
+      }
+
+      toast.success("Team created", {
+        description: `${formName} has been created`,
+      });
+      setCreateDialogOpen(false);
+      fetchData();
+    } catch (err: unknown) {
+      toast.error("Error", {
+        description: err instanceof Error ? err.message : "Failed to create team",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTeam = async (team: Team) => {
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/teams/${team.id}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to delete team");
+      }
+
+      toast.success("Team deleted", {
+        description: `${team.name} has been deleted`,
+      });
+      fetchData();
+    } catch (err: unknown) {
+      toast.error("Error", {
+        description: err instanceof Error ? err.message : "Failed to delete team",
+      });
+    }
+  };
+
+  const handleImport = async (dryRun: boolean) => {
+    try {
+      setImporting(true);
+
+      const res = await fetch(`/api/organizations/${orgId}/teams/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv: importCsv, dry_run: dryRun }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to import teams");
+
+      setImportResult(data);
+      if (data.applied) {
+        toast.success("Import complete", {
+          description: `${data.membersAssigned} member(s) assigned`,
+        });
+        setImportCsv("");
+        fetchData();
+      }
+    } catch (err: unknown) {
+      toast.error("Error", {
+        description: err instanceof Error ? err.message : "Failed to import teams",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderTeam = (team: TeamTreeNode<Team>) => (
+    <div key={team.id}>
+      <div
+        className="flex items-center justify-between py-2 border-b"
+        style={{ paddingLeft: `${team.depth * 1.5}rem` }}
+      >
+        <div className="flex items-center gap-2">
+          {team.kind === "department" ? (
+            <Building2 className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <Users className="h-4 w-4 text-muted-foreground" />
+          )}
+          <span className="font-medium">{team.name}</span>
+          <Badge variant="secondary" className="text-xs">
+            {team.member_count} members
+          </Badge>
+          {team.manager_id && (
+            <Badge variant="outline" className="text-xs">
+              <Crown className="h-3 w-3 mr-1" />
+              {memberName(team.manager_id)}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={() => openCreateDialog(team.id)}>
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={team.children.length > 0}
+            onClick={() => handleDeleteTeam(team)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {team.children.map(renderTeam)}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <div className="space-y-6">
+          <Skeleton className="h-12 w-64" />
+          <Skeleton className="h-64" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center py-6 text-destructive">{error}</div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push(`/dashboard/organizations/${orgId}`)}
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <h1 className="text-3xl font-bold tracking-tight">Teams</h1>
+            </div>
+            <p className="text-muted-foreground">
+              Organize members into departments and teams with their own managers
+            </p>
+          </div>
+          <Button onClick={() => openCreateDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Department
+          </Button>
+        </div>
+
+        {/* Team Tree */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Structure</CardTitle>
+            <CardDescription>
+              Managers see analytics and reports for their team and every team below it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {tree.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                No departments yet. Create one or import a CSV below.
+              </div>
+            ) : (
+              tree.map(renderTeam)
+            )}
+          </CardContent>
+        </Card>
+
+        {/* CSV Import */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Assignments</CardTitle>
+            <CardDescription>
+              One row per member. Teams in the path are created when missing; set
+              manager to &quot;yes&quot; to make that member the team&apos;s manager.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              rows={8}
+              className="font-mono text-sm"
+              placeholder={IMPORT_PLACEHOLDER}
+              value={importCsv}
+              onChange={(e) => {
+                setImportCsv(e.target.value);
+                setImportResult(null);
+              }}
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                disabled={importing || !importCsv.trim()}
+                onClick={() => handleImport(true)}
+              >
+                Preview
+              </Button>
+              <Button
+                disabled={importing || !importResult?.dryRun || importResult.errors.length > 0}
+                onClick={() => handleImport(false)}
+              >
+                <FileUp className="h-4 w-4 mr-2" />
+                Apply Import
+              </Button>
+            </div>
+
+            {importResult && (
+              <div className="space-y-2 text-sm">
+                <p>
+                  {importResult.applied ? "Assigned" : "Will assign"}{" "}
+                  {importResult.membersAssigned} member(s), create{" "}
+                  {importResult.teamsCreated.length} team(s) and set{" "}
+                  {importResult.managersSet} manager(s).
+                </p>
+                {importResult.teamsCreated.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {importResult.teamsCreated.map((path) => (
+                      <Badge key={path} variant="secondary">
+                        {path}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {importResult.errors.map((importError) => (
+                  <p key={`${importError.row}-${importError.message}`} className="text-destructive">
+                    Row {importError.row}: {importError.message}
+                  </p>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Create Dialog */}
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Team</DialogTitle>
+            <DialogDescription>
+              Add a department or a team under an existing one
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="team-name">Name</Label>
+              <Input
+                id="team-name"
+                value={formName}
+                onChange={(e) => setFormName(e.target.value)}
+                placeholder="e.g., Platform"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Kind</Label>
+              <Select
+                value={formKind}
+                onValueChange={(value) => setFormKind(value as "department" | "team")}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="department">Department</SelectItem>
+                  <SelectItem value="team">Team</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Parent</Label>
+              <Select value={formParentId} onValueChange={setFormParentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None (top level)</SelectItem>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Manager</Label>
+              <Select value={formManagerId} onValueChange={setFormManagerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No manager</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>
+                      {member.profiles?.full_name || member.profiles?.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateTeam} disabled={saving || !formName.trim()}>
+              {saving ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
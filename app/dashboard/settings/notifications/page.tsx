@@ -1,6 +1,7 @@
 "use client";
 
 import { DashboardHeader } from "@/components/dashboard";
+import { ReminderSettings } from "@/components/settings";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -19,51 +20,27 @@ import {
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_KINDS,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationKind,
+} from "@/lib/notifications/kinds";
+import type { NotificationPreferences } from "@/lib/notifications/routing";
 import {
   Bell,
   Calendar,
   Clock,
   Loader2,
   Mail,
+  Moon,
   Save,
   Smartphone,
 } from "lucide-react";
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { toast } from "sonner";
 
-interface NotificationPreferences {
-  email: {
-    marketing: boolean;
-    product_updates: boolean;
-    course_updates: boolean;
-    enrollment_confirmations: boolean;
-    certificate_issued: boolean;
-    event_reminders: boolean;
-    weekly_digest: boolean;
-    achievement_unlocked: boolean;
-  };
-  push: {
-    enabled: boolean;
-    course_updates: boolean;
-    new_content: boolean;
-    discussion_replies: boolean;
-    direct_messages: boolean;
-    event_reminders: boolean;
-  };
-  in_app: {
-    enabled: boolean;
-    system_announcements: boolean;
-    course_updates: boolean;
-    discussion_activity: boolean;
-    achievement_unlocked: boolean;
-  };
-  digest: {
-    frequency: "daily" | "weekly" | "monthly" | "never";
-    day_of_week: number;
-    time_of_day: string;
-  };
-}
-
 const DAYS = [
   "Sunday",
   "Monday",
@@ -74,6 +51,31 @@ const DAYS = [
   "Saturday",
 ];
 
+const CHANNEL_COLUMNS: Array<{
+  channel: NotificationChannel;
+  label: string;
+  icon: typeof Bell;
+}> = [
+  { channel: "in_app", label: "In-app", icon: Bell },
+  { channel: "email", label: "Email", icon: Mail },
+  { channel: "push", label: "Push", icon: Smartphone },
+];
+
+const TIME_INPUT_CLASS =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+/** Kinds listed under each category, in definition order */
+const KINDS_BY_CATEGORY = (
+  Object.keys(NOTIFICATION_CATEGORIES) as NotificationCategory[]
+)
+  .map((category) => ({
+    category,
+    kinds: (Object.keys(NOTIFICATION_KINDS) as NotificationKind[]).filter(
+      (kind) => NOTIFICATION_KINDS[kind].category === category
+    ),
+  }))
+  .filter((group) => group.kinds.length > 0);
+
 export default function NotificationPreferencesPage() {
   const [preferences, setPreferences] =
     useState<NotificationPreferences | null>(null);
@@ -110,6 +112,8 @@ export default function NotificationPreferencesPage() {
       });
 
       if (res.ok) {
+        const data = await res.json();
+        setPreferences(data.preferences);
         toast.success("Preferences saved");
       } else {
         toast.error("Failed to save preferences");
@@ -121,47 +125,42 @@ export default function NotificationPreferencesPage() {
     }
   };
 
-  const updateEmail = (
-    key: keyof NotificationPreferences["email"],
-    value: boolean
-  ) => {
-    if (!preferences) return;
-    setPreferences({
-      ...preferences,
-      email: { ...preferences.email, [key]: value },
-    });
-  };
-
-  const updatePush = (
-    key: keyof NotificationPreferences["push"],
+  const updateChannel = (
+    kind: NotificationKind,
+    channel: NotificationChannel,
     value: boolean
   ) => {
     if (!preferences) return;
     setPreferences({
       ...preferences,
-      push: { ...preferences.push, [key]: value },
+      channels: {
+        ...preferences.channels,
+        [kind]: { ...preferences.channels[kind], [channel]: value },
+      },
     });
   };
 
-  const updateInApp = (
-    key: keyof NotificationPreferences["in_app"],
-    value: boolean
+  const updateDigest = <K extends keyof NotificationPreferences["digest"]>(
+    key: K,
+    value: NotificationPreferences["digest"][K]
   ) => {
     if (!preferences) return;
     setPreferences({
       ...preferences,
-      in_app: { ...preferences.in_app, [key]: value },
+      digest: { ...preferences.digest, [key]: value },
     });
   };
 
-  const updateDigest = <K extends keyof NotificationPreferences["digest"]>(
+  const updateQuietHours = <
+    K extends keyof NotificationPreferences["quiet_hours"],
+  >(
     key: K,
-    value: NotificationPreferences["digest"][K]
+    value: NotificationPreferences["quiet_hours"][K]
   ) => {
     if (!preferences) return;
     setPreferences({
       ...preferences,
-      digest: { ...preferences.digest, [key]: value },
+      quiet_hours: { ...preferences.quiet_hours, [key]: value },
     });
   };
 
@@ -183,211 +182,78 @@ export default function NotificationPreferencesPage() {
       />
 
       <div className="space-y-6">
-        {/* Email Notifications */}
+        {/* Channels per kind */}
         <Card className="glass-card">
           <CardHeader>
             <div className="flex items-center gap-2">
-              <Mail className="w-5 h-5 text-primary" />
+              <Bell className="w-5 h-5 text-primary" />
               <div>
-                <CardTitle>Email Notifications</CardTitle>
+                <CardTitle>Notification Channels</CardTitle>
                 <CardDescription>
-                  Choose what emails you want to receive
+                  Choose where each kind of notification reaches you
                 </CardDescription>
               </div>
             </div>
           </CardHeader>
-          <CardContent className="space-y-4">
-            {[
-              {
-                key: "course_updates",
-                label: "Course Updates",
-                desc: "Updates to courses you're enrolled in",
-              },
-              {
-                key: "enrollment_confirmations",
-                label: "Enrollment Confirmations",
-                desc: "Confirmation when you enroll in a course",
-              },
-              {
-                key: "certificate_issued",
-                label: "Certificate Issued",
-                desc: "When you earn a certificate",
-              },
-              {
-                key: "event_reminders",
-                label: "Event Reminders",
-                desc: "Reminders for upcoming events",
-              },
-              {
-                key: "achievement_unlocked",
-                label: "Achievement Unlocked",
-                desc: "When you earn an achievement",
-              },
-              {
-                key: "weekly_digest",
-                label: "Weekly Digest",
-                desc: "Summary of your progress",
-              },
-              {
-                key: "product_updates",
-                label: "Product Updates",
-                desc: "New features and improvements",
-              },
-              {
-                key: "marketing",
-                label: "Marketing Emails",
-                desc: "Promotions and special offers",
-              },
-            ].map((item) => (
-              <div key={item.key} className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label>{item.label}</Label>
-                  <p className="text-sm text-muted-foreground">{item.desc}</p>
+          <CardContent>
+            <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] items-center gap-y-4">
+              <div />
+              {CHANNEL_COLUMNS.map(({ channel, label, icon: Icon }) => (
+                <div
+                  key={channel}
+                  className="flex flex-col items-center gap-1 text-xs font-medium text-muted-foreground"
+                >
+                  <Icon className="h-4 w-4" />
+                  {label}
                 </div>
-                <Switch
-                  checked={
-                    preferences.email[
-                      item.key as keyof typeof preferences.email
-                    ]
-                  }
-                  onCheckedChange={(v) =>
-                    updateEmail(item.key as keyof typeof preferences.email, v)
-                  }
-                />
-              </div>
-            ))}
-          </CardContent>
-        </Card>
+              ))}
 
-        {/* Push Notifications */}
-        <Card className="glass-card">
-          <CardHeader>
-            <div className="flex items-center gap-2">
-              <Smartphone className="w-5 h-5 text-primary" />
-              <div>
-                <CardTitle>Push Notifications</CardTitle>
-                <CardDescription>
-                  Browser and mobile push notifications
-                </CardDescription>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex items-center justify-between pb-4">
-              <div className="space-y-0.5">
-                <Label className="text-base font-semibold">
-                  Enable Push Notifications
-                </Label>
-                <p className="text-sm text-muted-foreground">
-                  Master toggle for all push notifications
-                </p>
-              </div>
-              <Switch
-                checked={preferences.push.enabled}
-                onCheckedChange={(v) => updatePush("enabled", v)}
-              />
-            </div>
-
-            <Separator />
-
-            {preferences.push.enabled && (
-              <div className="space-y-4 pt-2">
-                {[
-                  { key: "course_updates", label: "Course Updates" },
-                  { key: "new_content", label: "New Content Available" },
-                  { key: "discussion_replies", label: "Discussion Replies" },
-                  { key: "direct_messages", label: "Direct Messages" },
-                  { key: "event_reminders", label: "Event Reminders" },
-                ].map((item) => (
-                  <div
-                    key={item.key}
-                    className="flex items-center justify-between"
-                  >
-                    <Label>{item.label}</Label>
-                    <Switch
-                      checked={
-                        preferences.push[
-                          item.key as keyof typeof preferences.push
-                        ] as boolean
-                      }
-                      onCheckedChange={(v) =>
-                        updatePush(item.key as keyof typeof preferences.push, v)
-                      }
-                    />
+              {KINDS_BY_CATEGORY.map(({ category, kinds }) => (
+                <Fragment key={category}>
+                  <div className="col-span-4 pt-2">
+                    <Separator className="mb-3" />
+                    <p className="text-sm font-semibold">
+                      {NOTIFICATION_CATEGORIES[category].label}
+                    </p>
                   </div>
-                ))}
-              </div>
-            )}
-          </CardContent>
-        </Card>
-
-        {/* In-App Notifications */}
-        <Card className="glass-card">
-          <CardHeader>
-            <div className="flex items-center gap-2">
-              <Bell className="w-5 h-5 text-primary" />
-              <div>
-                <CardTitle>In-App Notifications</CardTitle>
-                <CardDescription>
-                  Notifications shown within the platform
-                </CardDescription>
-              </div>
+                  {kinds.map((kind) => {
+                    const definition = NOTIFICATION_KINDS[kind];
+                    return (
+                      <Fragment key={kind}>
+                        <div className="space-y-0.5 pr-4">
+                          <Label>{definition.label}</Label>
+                          <p className="text-sm text-muted-foreground">
+                            {definition.description}
+                            {definition.urgent &&
+                              " · Always sent right away, even during quiet hours"}
+                          </p>
+                        </div>
+                        {CHANNEL_COLUMNS.map(({ channel, label }) => (
+                          <div key={channel} className="flex justify-center">
+                            {definition.channels.includes(channel) ? (
+                              <Switch
+                                checked={preferences.channels[kind][channel]}
+                                onCheckedChange={(v) =>
+                                  updateChannel(kind, channel, v)
+                                }
+                                aria-label={`${definition.label}: ${label}`}
+                              />
+                            ) : (
+                              <span
+                                className="text-muted-foreground"
+                                title={`Not sent by ${label.toLowerCase()}`}
+                              >
+                                —
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </Fragment>
+              ))}
             </div>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex items-center justify-between pb-4">
-              <div className="space-y-0.5">
-                <Label className="text-base font-semibold">
-                  Enable In-App Notifications
-                </Label>
-                <p className="text-sm text-muted-foreground">
-                  Show notifications in the notification center
-                </p>
-              </div>
-              <Switch
-                checked={preferences.in_app.enabled}
-                onCheckedChange={(v) => updateInApp("enabled", v)}
-              />
-            </div>
-
-            <Separator />
-
-            {preferences.in_app.enabled && (
-              <div className="space-y-4 pt-2">
-                {[
-                  {
-                    key: "system_announcements",
-                    label: "System Announcements",
-                  },
-                  { key: "course_updates", label: "Course Updates" },
-                  { key: "discussion_activity", label: "Discussion Activity" },
-                  {
-                    key: "achievement_unlocked",
-                    label: "Achievement Unlocked",
-                  },
-                ].map((item) => (
-                  <div
-                    key={item.key}
-                    className="flex items-center justify-between"
-                  >
-                    <Label>{item.label}</Label>
-                    <Switch
-                      checked={
-                        preferences.in_app[
-                          item.key as keyof typeof preferences.in_app
-                        ] as boolean
-                      }
-                      onCheckedChange={(v) =>
-                        updateInApp(
-                          item.key as keyof typeof preferences.in_app,
-                          v
-                        )
-                      }
-                    />
-                  </div>
-                ))}
-              </div>
-            )}
           </CardContent>
         </Card>
 
@@ -398,7 +264,10 @@ export default function NotificationPreferencesPage() {
               <Calendar className="w-5 h-5 text-primary" />
               <div>
                 <CardTitle>Email Digest</CardTitle>
-                <CardDescription>Receive a summary of activity</CardDescription>
+                <CardDescription>
+                  Batch notification emails into one summary instead of
+                  sending each as it happens
+                </CardDescription>
               </div>
             </div>
           </CardHeader>
@@ -418,37 +287,37 @@ export default function NotificationPreferencesPage() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value="never">
+                    Off (send emails right away)
+                  </SelectItem>
                   <SelectItem value="daily">Daily</SelectItem>
                   <SelectItem value="weekly">Weekly</SelectItem>
-                  <SelectItem value="monthly">Monthly</SelectItem>
-                  <SelectItem value="never">Never</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
-            {preferences.digest.frequency !== "never" &&
-              preferences.digest.frequency !== "daily" && (
-                <div className="space-y-2">
-                  <Label>Day of Week</Label>
-                  <Select
-                    value={preferences.digest.day_of_week.toString()}
-                    onValueChange={(v) =>
-                      updateDigest("day_of_week", parseInt(v))
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {DAYS.map((day, i) => (
-                        <SelectItem key={i} value={i.toString()}>
-                          {day}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
+            {preferences.digest.frequency === "weekly" && (
+              <div className="space-y-2">
+                <Label>Day of Week</Label>
+                <Select
+                  value={preferences.digest.day_of_week.toString()}
+                  onValueChange={(v) =>
+                    updateDigest("day_of_week", parseInt(v))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DAYS.map((day, i) => (
+                      <SelectItem key={i} value={i.toString()}>
+                        {day}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
 
             {preferences.digest.frequency !== "never" && (
               <div className="space-y-2">
@@ -460,13 +329,68 @@ export default function NotificationPreferencesPage() {
                   type="time"
                   value={preferences.digest.time_of_day}
                   onChange={(e) => updateDigest("time_of_day", e.target.value)}
-                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  className={TIME_INPUT_CLASS}
                 />
               </div>
             )}
           </CardContent>
         </Card>
 
+        {/* Quiet Hours */}
+        <Card className="glass-card">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Moon className="w-5 h-5 text-primary" />
+              <div>
+                <CardTitle>Quiet Hours</CardTitle>
+                <CardDescription>
+                  No push notifications during these hours; emails wait until
+                  they end
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-base font-semibold">
+                  Enable Quiet Hours
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Uses the timezone from your preferences
+                </p>
+              </div>
+              <Switch
+                checked={preferences.quiet_hours.enabled}
+                onCheckedChange={(v) => updateQuietHours("enabled", v)}
+              />
+            </div>
+
+            {preferences.quiet_hours.enabled && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <input
+                    type="time"
+                    value={preferences.quiet_hours.start}
+                    onChange={(e) => updateQuietHours("start", e.target.value)}
+                    className={TIME_INPUT_CLASS}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Until</Label>
+                  <input
+                    type="time"
+                    value={preferences.quiet_hours.end}
+                    onChange={(e) => updateQuietHours("end", e.target.value)}
+                    className={TIME_INPUT_CLASS}
+                  />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Save Button */}
         <div className="flex justify-end">
           <Button onClick={handleSave} disabled={saving}>
@@ -478,6 +402,9 @@ export default function NotificationPreferencesPage() {
             Save Preferences
           </Button>
         </div>
+
+        {/* Check-in Reminders */}
+        <ReminderSettings />
       </div>
     </div>
   );
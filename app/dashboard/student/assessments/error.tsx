@@ -0,0 +1,21 @@
+"use client";
+
+import { DashboardError } from "@/components/dashboard/dashboard-error";
+
+export default function StudentAssessmentsError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return (
+    <DashboardError
+      error={error}
+      reset={reset}
+      title="Failed to load assessment history"
+      backHref="/dashboard/student"
+      backLabel="Back to Dashboard"
+    />
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import { DashboardHeader } from "@/components/dashboard";
+import { AssessmentComparisonCard } from "@/components/results";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAsync } from "@/hooks/use-async";
+import type {
+  AssessmentComparison,
+  ElementDrift,
+} from "@/lib/content/assessment-comparison";
+import {
+  ELEMENT_DEFINITIONS,
+  type ElementType,
+} from "@/lib/content/assessment-questions";
+import { logger } from "@/lib/logging";
+import { cn } from "@/lib/utils";
+import {
+  ArrowLeft,
+  ClipboardList,
+  GitCompare,
+  RefreshCw,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+interface AssessmentSummary {
+  id: string;
+  completedAt: string | null;
+  scores: Record<ElementType, number>;
+  topElements: ElementType[];
+  blendType: string;
+}
+
+interface ComparisonData {
+  assessments: AssessmentSummary[];
+  overall: AssessmentComparison | null;
+  steps: AssessmentComparison[];
+  drift: ElementDrift[];
+}
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString() : "Unknown date";
+
+/**
+ * Student Assessment History - past results, element drift and comparisons
+ */
+export default function StudentAssessmentsPage() {
+  const { data, loading, execute } = useAsync<ComparisonData>();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [selectedComparison, setSelectedComparison] =
+    useState<AssessmentComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  useEffect(() => {
+    execute(async () => {
+      const res = await fetch("/api/assessment/compare");
+      if (!res.ok) {
+        throw new Error("Failed to load assessment history");
+      }
+      return res.json();
+    });
+  }, [execute]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedComparison(null);
+    setSelected((current) =>
+      current.includes(id)
+        ? current.filter((selectedId) => selectedId !== id)
+        : [...current.slice(-1), id]
+    );
+  };
+
+  const compareSelected = async () => {
+    setComparing(true);
+    try {
+      const res = await fetch(
+        `/api/assessment/compare?ids=${selected.join(",")}`
+      );
+      if (res.ok) {
+        const result: ComparisonData = await res.json();
+        setSelectedComparison(result.overall);
+      }
+    } catch (error: unknown) {
+      logger.error("Error comparing assessments:", error as Error);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <div className="mb-8">
+          <Skeleton className="h-10 w-48 mb-2" />
+          <Skeleton className="h-5 w-64" />
+        </div>
+        <div className="grid md:grid-cols-2 gap-6 mb-6">
+          <Skeleton className="h-64" />
+          <Skeleton className="h-64" />
+        </div>
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  const assessments = data?.assessments ?? [];
+  // Newest first for the list
+  const history = [...assessments].reverse();
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <DashboardHeader
+        title="Assessment History"
+        subtitle="See how your element profile changes over time"
+        actions={
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/student">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Link>
+            </Button>
+            <Button asChild>
+              <Link href="/assessment">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Retake Assessment
+              </Link>
+            </Button>
+          </div>
+        }
+      />
+
+      {assessments.length === 0 ? (
+        <Card className="glass-card">
+          <CardContent className="text-center py-12">
+            <ClipboardList className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground mb-4">
+              You haven&apos;t taken the assessment yet
+            </p>
+            <Button asChild>
+              <Link href="/assessment">Take the Assessment</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {assessments.length === 1 && (
+            <Card className="glass-card">
+              <CardContent className="py-6 text-sm text-muted-foreground">
+                Retake the assessment in a few months to see how your profile
+                shifts. Comparisons appear here once you have two results.
+              </CardContent>
+            </Card>
+          )}
+
+          {data?.overall && (
+            <div className="grid lg:grid-cols-2 gap-6">
+              <AssessmentComparisonCard
+                comparison={data.overall}
+                title="Your Journey So Far"
+                description={`${formatDate(assessments[0].completedAt)} compared with ${formatDate(assessments[assessments.length - 1].completedAt)}`}
+              />
+
+              {/* Element Drift */}
+              <Card className="glass-card">
+                <CardHeader>
+                  <CardTitle>Element Drift</CardTitle>
+                  <CardDescription>
+                    Scores across your last {assessments.length} assessments
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {data.drift.map((drift) => {
+                    const element = ELEMENT_DEFINITIONS[drift.element];
+                    return (
+                      <div key={drift.element} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="flex items-center gap-2 font-medium">
+                            <span className="text-lg">{element.emoji}</span>
+                            {element.name}
+                          </span>
+                          {drift.overall.significance === "significant" ? (
+                            <Badge
+                              variant="outline"
+                              className={cn(
+                                "text-xs",
+                                drift.overall.delta > 0
+                                  ? "text-green-600"
+                                  : "text-amber-600"
+                              )}
+                            >
+                              {drift.overall.delta > 0 ? (
+                                <TrendingUp className="w-3 h-3 mr-1" />
+                              ) : (
+                                <TrendingDown className="w-3 h-3 mr-1" />
+                              )}
+                              {drift.overall.delta > 0 ? "+" : ""}
+                              {drift.overall.delta}
+                            </Badge>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">
+                              Stable
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-end gap-1 h-10">
+                          {drift.values.map((value, index) => (
+                            <div
+                              key={index}
+                              className={`flex-1 rounded-sm bg-gradient-to-t ${element.gradient}`}
+                              style={{ height: `${Math.max(value, 4)}%` }}
+                              title={`${formatDate(assessments[index].completedAt)}: ${value}`}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {/* Past Assessments */}
+          <Card className="glass-card">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Past Assessments</CardTitle>
+                  <CardDescription>
+                    Select two assessments to compare them
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  disabled={selected.length !== 2 || comparing}
+                  onClick={compareSelected}
+                >
+                  <GitCompare className="w-4 h-4 mr-2" />
+                  Compare Selected
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {history.map((assessment) => (
+                <label
+                  key={assessment.id}
+                  className="flex items-center gap-4 p-3 rounded-lg border border-border/50 hover:bg-muted/30 cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selected.includes(assessment.id)}
+                    onCheckedChange={() => toggleSelected(assessment.id)}
+                    disabled={assessments.length < 2}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{assessment.blendType}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(assessment.completedAt)}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 text-xl">
+                    {assessment.topElements.map((element) => (
+                      <span
+                        key={element}
+                        title={`${ELEMENT_DEFINITIONS[element].name}: ${assessment.scores[element]}`}
+                      >
+                        {ELEMENT_DEFINITIONS[element].emoji}
+                      </span>
+                    ))}
+                  </div>
+                </label>
+              ))}
+            </CardContent>
+          </Card>
+
+          {selectedComparison && (
+            <AssessmentComparisonCard
+              comparison={selectedComparison}
+              title="Selected Comparison"
+              description="Earlier assessment compared with the later one"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
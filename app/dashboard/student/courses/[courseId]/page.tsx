@@ -29,6 +29,7 @@ import { cn } from '@/lib/utils';
 import VideoPlayer from '@/components/video/video-player';
 import { QuizPlayer } from '@/components/quiz/quiz-player';
 import type { Quiz, QuizResult } from '@/components/quiz/quiz-player';
+import type { QuizAnswer } from '@/lib/content/quiz-grading';
 
 interface Module {
   id: string;
@@ -128,6 +129,28 @@ export default function StudentCoursePage({ params }: { params: { courseId: stri
     return completions.some(c => c.lesson_id === lessonId);
   };
 
+  const loadQuiz = async (lessonId: string) => {
+    setLoadingQuiz(true);
+    setQuiz(null);
+    try {
+      const res = await fetch(`/api/lessons/${lessonId}/quiz`);
+      if (res.ok) {
+        const data = await res.json();
+        // Each attempt gets its own question set, graded against what was served
+        const attemptRes = await fetch(`/api/quizzes/${data.quiz.id}/attempts`, { method: 'POST' });
+        if (attemptRes.ok) {
+          const attempt = await attemptRes.json();
+          setQuiz({ ...data.quiz, questions: attempt.questions, attempt_id: attempt.attempt_id });
+        }
+      }
+    } catch (error) {
+      logger.error('Error fetching quiz:', error instanceof Error ? error : new Error(String(error)));
+      toast.error('Failed to load quiz');
+    } finally {
+      setLoadingQuiz(false);
+    }
+  };
+
   const handleSelectLesson = async (module: Module, lesson: Lesson) => {
     setSelectedModule(module);
     setSelectedLesson(lesson);
@@ -135,19 +158,7 @@ export default function StudentCoursePage({ params }: { params: { courseId: stri
 
     // If it's a quiz lesson, fetch the quiz
     if (lesson.content_type === 'quiz') {
-      setLoadingQuiz(true);
-      try {
-        const res = await fetch(`/api/lessons/${lesson.id}/quiz`);
-        if (res.ok) {
-          const data = await res.json();
-          setQuiz(data.quiz);
-        }
-      } catch (error) {
-        logger.error('Error fetching quiz:', error instanceof Error ? error : new Error(String(error)));
-        toast.error('Failed to load quiz');
-      } finally {
-        setLoadingQuiz(false);
-      }
+      await loadQuiz(lesson.id);
     }
   };
 
@@ -200,13 +211,13 @@ export default function StudentCoursePage({ params }: { params: { courseId: stri
     }
   };
 
-  const handleQuizSubmit = async (answers: Record<string, string | boolean>): Promise<QuizResult> => {
+  const handleQuizSubmit = async (answers: Record<string, QuizAnswer>): Promise<QuizResult> => {
     if (!quiz) throw new Error('No quiz loaded');
 
     const res = await fetch(`/api/quizzes/${quiz.id}/submit`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ answers }),
+      body: JSON.stringify({ answers, attempt_id: quiz.attempt_id }),
     });
 
     if (!res.ok) {
@@ -421,6 +432,7 @@ export default function StudentCoursePage({ params }: { params: { courseId: stri
                       quiz={quiz}
                       onSubmit={handleQuizSubmit}
                       onComplete={() => {}}
+                      onRetry={() => loadQuiz(selectedLesson.id)}
                       allowRetry
                     />
                   ) : (
@@ -0,0 +1,339 @@
+"use client";
+
+import { DashboardHeader } from "@/components/dashboard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAsync } from "@/hooks/use-async";
+import {
+  MIN_CHECK_IN_DAYS,
+  type EnergyInsights,
+  type InsightTone,
+} from "@/lib/content/energy-insights";
+import { cn } from "@/lib/utils";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Info,
+  Lightbulb,
+  Sparkles,
+} from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+interface InsightsData extends EnergyInsights {
+  period: { start: string; end: string; weeks: number };
+}
+
+const WEEK_OPTIONS = [4, 8, 12, 26];
+
+const TONE_STYLES: Record<
+  InsightTone,
+  { icon: typeof Info; className: string }
+> = {
+  warning: { icon: AlertTriangle, className: "text-amber-600" },
+  positive: { icon: Sparkles, className: "text-green-600" },
+  info: { icon: Info, className: "text-blue-600" },
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/**
+ * Student Energy Insights - patterns across check-ins, state logs and budgets
+ */
+export default function StudentInsightsPage() {
+  const { data, loading, error, execute } = useAsync<InsightsData>();
+  const [weeks, setWeeks] = useState(8);
+
+  useEffect(() => {
+    execute(async () => {
+      const res = await fetch(`/api/tools/insights?weeks=${weeks}`);
+      if (!res.ok) {
+        throw new Error("Failed to load energy insights");
+      }
+      return res.json();
+    });
+  }, [execute, weeks]);
+
+  const header = (
+    <DashboardHeader
+      title="Energy Insights"
+      subtitle={
+        data?.element
+          ? `Patterns in your energy, personalized for ${data.element.icon} ${data.element.name}`
+          : "Patterns in your energy over the past weeks"
+      }
+      actions={
+        <div className="flex gap-2">
+          <Select
+            value={String(weeks)}
+            onValueChange={(value) => setWeeks(Number(value))}
+          >
+            <SelectTrigger className="w-36" aria-label="Time range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEK_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Last {option} weeks
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/student">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+      }
+    />
+  );
+
+  if (error) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        {header}
+        <Card className="glass-card">
+          <CardContent className="text-center py-12">
+            <AlertTriangle className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">{error}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading || !data) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        {header}
+        <div className="grid md:grid-cols-4 gap-4 mb-6">
+          <Skeleton className="h-24" />
+          <Skeleton className="h-24" />
+          <Skeleton className="h-24" />
+          <Skeleton className="h-24" />
+        </div>
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Skeleton className="h-64" />
+          <Skeleton className="h-64" />
+        </div>
+      </div>
+    );
+  }
+
+  const { summary } = data;
+  const stats = [
+    { label: "Check-in days", value: summary.checkInDays },
+    {
+      label: "Average energy",
+      value: summary.averageEnergy !== null ? `${summary.averageEnergy}/5` : "—",
+    },
+    { label: "Low energy days", value: summary.lowEnergyDays },
+    { label: "Budget days", value: summary.budgetDays },
+  ];
+  const maxProtectionRate = Math.max(
+    ...data.protectionByWeekday.map((day) => day.protectionRate),
+    0.01
+  );
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      {header}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {stats.map((stat) => (
+          <Card key={stat.label} className="glass-card">
+            <CardContent className="py-4">
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-bold">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {!data.hasEnoughData ? (
+        <Card className="glass-card mb-6">
+          <CardContent className="text-center py-12">
+            <Lightbulb className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground mb-4">
+              Check in on at least {MIN_CHECK_IN_DAYS} days to unlock your
+              insights. Logging your energy budget and states makes them sharper.
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button asChild>
+                <Link href="/tools/daily-checkin">Daily Check-In</Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href="/tools/energy-budget">Energy Budget</Link>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="glass-card mb-6">
+          <CardHeader>
+            <CardTitle>What We Noticed</CardTitle>
+            <CardDescription>
+              {data.period.start} to {data.period.end}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {data.findings.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No strong patterns yet. Keep logging your budgets and states to
+                see what affects your energy.
+              </p>
+            ) : (
+              data.findings.map((finding) => {
+                const tone = TONE_STYLES[finding.tone];
+                const Icon = tone.icon;
+                return (
+                  <div
+                    key={finding.id}
+                    className="flex gap-3 p-3 rounded-lg border border-border/50"
+                  >
+                    <Icon className={cn("w-5 h-5 mt-0.5 shrink-0", tone.className)} />
+                    <div>
+                      <p className="font-medium">{finding.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {finding.detail}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid lg:grid-cols-2 gap-6 mb-6">
+        {/* Protection Mode by Weekday */}
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>Protection Mode by Weekday</CardTitle>
+            <CardDescription>
+              Share of check-ins and state logs in protection mode
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-2 h-40">
+              {data.protectionByWeekday.map((day) => (
+                <div
+                  key={day.weekday}
+                  className="flex-1 flex flex-col items-center gap-1 h-full justify-end"
+                >
+                  <span className="text-xs text-muted-foreground">
+                    {day.entries > 0 ? percent(day.protectionRate) : "—"}
+                  </span>
+                  <div
+                    className="w-full rounded-sm bg-gradient-to-t from-red-500 to-orange-400"
+                    style={{
+                      height: `${Math.max((day.protectionRate / maxProtectionRate) * 100, 2)}%`,
+                    }}
+                    title={`${day.label}: ${day.protectionCount} of ${day.entries} entries`}
+                  />
+                  <span className="text-xs font-medium">
+                    {day.label.slice(0, 3)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Category Impacts */}
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>What Drains You</CardTitle>
+            <CardDescription>
+              Low energy the next day after heavy vs. lighter days
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {data.categoryImpacts.map((impact) => (
+              <div key={impact.category} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium capitalize">{impact.category}</span>
+                  {impact.predictsLowEnergy ? (
+                    <Badge variant="outline" className="text-xs text-amber-600">
+                      Predicts low energy
+                    </Badge>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {impact.heavyDays} heavy / {impact.lightDays} lighter days
+                    </span>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                  <span>After heavy days: {percent(impact.lowAfterHeavyRate)}</span>
+                  <span>After lighter days: {percent(impact.lowAfterLightRate)}</span>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Regeneration Strategies */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Regeneration That Works</CardTitle>
+          <CardDescription>
+            How often each strategy in your budgets was followed by a day at or
+            above your average energy
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {data.strategyRecoveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Add regeneration activities to your energy budget on at least two
+              days to see which ones help you recover.
+            </p>
+          ) : (
+            data.strategyRecoveries.map((strategy) => (
+              <div
+                key={strategy.strategy}
+                className="flex items-center gap-4 p-3 rounded-lg border border-border/50"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{strategy.strategy}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Used {strategy.uses} times · next-day energy{" "}
+                    {strategy.averageNextDayEnergy}/5
+                  </p>
+                </div>
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    strategy.recoveryRate >= 0.5
+                      ? "text-green-600"
+                      : "text-muted-foreground"
+                  )}
+                >
+                  {percent(strategy.recoveryRate)} recovery
+                </Badge>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import {
   ElementCard,
   ElementRadarChart,
   EnergyStyleCard,
+  RetakeComparisonSection,
   SaveProfileButton,
   ScoreChart,
   ShadowInsightsCard,
@@ -271,6 +272,13 @@ function ResultsContent() {
           </div>
         </section>
 
+        {/* Comparison with the previous assessment (signed-in retakes) */}
+        <section className="relative">
+          <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+            <RetakeComparisonSection />
+          </div>
+        </section>
+
         {/* Detailed Analysis Tabs */}
         <section className="py-12 relative">
           <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
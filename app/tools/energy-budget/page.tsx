@@ -3,6 +3,7 @@
 import { useAuth } from "@/components/auth/auth-provider";
 import { Footer } from "@/components/footer";
 import { HeroSection } from "@/components/landing/hero-section";
+import { EnergyWeekPlanner } from "@/components/tools";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -15,6 +16,7 @@ import {
   BatteryFull,
   BatteryLow,
   BatteryMedium,
+  Bookmark,
   Check,
   Cloud,
   CloudOff,
@@ -83,6 +85,7 @@ export default function EnergyBudgetPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
   const [showGuestModal, setShowGuestModal] = useState(false);
+  const [savedActivities, setSavedActivities] = useState<Activity[]>([]);
   const isInitialLoad = useRef(true);
 
   const currentUsage = selectedActivities.reduce(
@@ -142,11 +145,27 @@ export default function EnergyBudgetPage() {
     }
   }, [isAuthenticated]);
 
+  // Load the user's saved activity library
+  const loadSavedActivities = useCallback(async () => {
+    if (!isAuthenticated) return;
+
+    try {
+      const response = await fetch("/api/tools/energy-budget/activities");
+      if (response.ok) {
+        const data = await response.json();
+        setSavedActivities(data.activities || []);
+      }
+    } catch (error: unknown) {
+      console.error("Failed to load saved activities:", error);
+    }
+  }, [isAuthenticated]);
+
   useEffect(() => {
     if (isAuthenticated && !authLoading) {
       loadTodaysBudget();
+      loadSavedActivities();
     }
-  }, [isAuthenticated, authLoading, loadTodaysBudget]);
+  }, [isAuthenticated, authLoading, loadTodaysBudget, loadSavedActivities]);
 
   // Auto-save on debounced changes (Requirements 3.3)
   const saveBudget = useCallback(async () => {
@@ -206,6 +225,38 @@ export default function EnergyBudgetPage() {
     setSelectedActivities(selectedActivities.filter((a) => a.id !== id));
   };
 
+  const saveToLibrary = async (activity: Activity) => {
+    try {
+      const response = await fetch("/api/tools/energy-budget/activities", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: activity.name,
+          cost: activity.cost,
+          category: activity.category,
+        }),
+      });
+      if (response.ok) {
+        await loadSavedActivities();
+      }
+    } catch (error: unknown) {
+      console.error("Failed to save activity:", error);
+    }
+  };
+
+  const deleteSavedActivity = async (id: string) => {
+    try {
+      const response = await fetch(`/api/tools/energy-budget/activities/${id}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        setSavedActivities(savedActivities.filter((a) => a.id !== id));
+      }
+    } catch (error: unknown) {
+      console.error("Failed to delete saved activity:", error);
+    }
+  };
+
   // Guest user modal component
   const GuestUserModal = () => (
     <Dialog open={showGuestModal} onOpenChange={setShowGuestModal}>
@@ -410,6 +461,17 @@ export default function EnergyBudgetPage() {
                             ? `-${activity.cost}`
                             : `+${Math.abs(activity.cost)}`}
                         </span>
+                        {isAuthenticated && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Save ${activity.name} to my activities`}
+                            onClick={() => saveToLibrary(activity)}
+                            className="text-muted-foreground hover:text-primary"
+                          >
+                            <Bookmark className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -426,6 +488,45 @@ export default function EnergyBudgetPage() {
             </div>
 
             <div className="space-y-8">
+              {/* Saved Activities */}
+              {savedActivities.length > 0 && (
+                <div>
+                  <h3 className="text-xl font-bold mb-4">My Activities</h3>
+                  <div className="grid sm:grid-cols-2 gap-3">
+                    {savedActivities.map((activity) => (
+                      <div
+                        key={activity.id}
+                        className="flex items-center justify-between p-4 bg-primary/5 border border-primary/20 rounded-xl"
+                      >
+                        <button
+                          onClick={() => addActivity(activity)}
+                          className="flex-1 text-left hover:text-primary transition-colors"
+                        >
+                          <div className="font-medium mb-1">{activity.name}</div>
+                          <div className="text-xs text-muted-foreground capitalize">
+                            {activity.category}
+                          </div>
+                        </button>
+                        <Badge variant="secondary">
+                          {activity.cost > 0
+                            ? `-${activity.cost}`
+                            : `+${Math.abs(activity.cost)}`}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Remove ${activity.name} from my activities`}
+                          onClick={() => deleteSavedActivity(activity.id)}
+                          className="text-muted-foreground hover:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Drain Activities */}
               <div>
                 <h3 className="text-xl font-bold mb-4 text-red-400">
@@ -507,6 +608,18 @@ export default function EnergyBudgetPage() {
             </Card>
           </div>
         </div>
+
+        {isAuthenticated && (
+          <div className="mt-16">
+            <EnergyWeekPlanner
+              activityOptions={[
+                ...savedActivities,
+                ...DRAIN_ACTIVITIES,
+                ...REGENERATION_ACTIVITIES,
+              ]}
+            />
+          </div>
+        )}
       </main>
 
       <Footer />
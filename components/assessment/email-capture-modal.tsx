@@ -20,6 +20,9 @@ interface EmailCaptureModalProps {
   onEmailSaved: (email: string) => void;
   answeredCount: number;
   totalCount: number;
+  /** Answers so far, saved so the reminder email can resume the session */
+  answers?: Record<number, number>;
+  mode?: "full" | "adaptive";
 }
 
 /**
@@ -32,6 +35,8 @@ export function EmailCaptureModal({
   onEmailSaved,
   answeredCount,
   totalCount,
+  answers,
+  mode,
 }: EmailCaptureModalProps) {
   const [email, setEmail] = useState("");
   const [saving, setSaving] = useState(false);
@@ -46,7 +51,7 @@ export function EmailCaptureModal({
       const response = await fetch("/api/assessment/save-progress", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email }),
+        body: JSON.stringify({ email, answers, mode }),
       });
 
       if (response.ok) {
@@ -14,6 +14,7 @@ import {
 import { RichTextEditor } from "@/components/editor/rich-text-editor";
 import { Code, Eye, Variable, Send, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { renderTemplate } from "@/lib/email/template-engine";
 
 // ============================================================================
 // Types
@@ -117,25 +118,34 @@ function HtmlPreview({ html, variables, sampleData = {} }: HtmlPreviewProps) {
     ...sampleData,
   };
 
-  // Replace variables with sample data
-  let previewHtml = html;
+  // Render with sample data; variables without any show as placeholders
+  const data: Record<string, unknown> = {};
   variables.forEach((variable) => {
-    const value = defaultSampleData[variable] || `[${variable}]`;
-    previewHtml = previewHtml.replace(
-      new RegExp(`\\{\\{${variable}\\}\\}`, "g"),
-      value
-    );
+    data[variable] = defaultSampleData[variable] || `[${variable}]`;
   });
 
+  let previewHtml: string;
+  let previewError: string | null = null;
+  try {
+    previewHtml = renderTemplate(html, data);
+  } catch (error) {
+    previewHtml = "";
+    previewError = error instanceof Error ? error.message : String(error);
+  }
+
   return (
     <div className="border rounded-lg bg-white">
       <div className="px-3 py-2 border-b bg-muted/30 text-xs text-muted-foreground">
         Preview with sample data
       </div>
-      <div
-        className="p-4 prose prose-sm max-w-none"
-        dangerouslySetInnerHTML={{ __html: previewHtml }}
-      />
+      {previewError ? (
+        <p className="p-4 text-sm text-destructive">{previewError}</p>
+      ) : (
+        <div
+          className="p-4 prose prose-sm max-w-none"
+          dangerouslySetInnerHTML={{ __html: previewHtml }}
+        />
+      )}
     </div>
   );
 }
@@ -19,6 +19,7 @@ import { cn } from "@/lib/utils";
 import {
   AlertTriangle,
   Award,
+  Banknote,
   BarChart3,
   BookOpen,
   Brain,
@@ -34,7 +35,9 @@ import {
   LayoutDashboard,
   LayoutGrid,
   Link2,
+  ListChecks,
   Mail,
+  MailCheck,
   MessageSquare,
   Navigation,
   Palette,
@@ -45,6 +48,7 @@ import {
   Ticket,
   UserPlus,
   Users,
+  Workflow,
 } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
@@ -175,6 +179,11 @@ const navSections: NavSection[] = [
         icon: Building2,
       },
       { title: "Credits", href: "/dashboard/admin/credits", icon: Coins },
+      {
+        title: "Instructor Payouts",
+        href: "/dashboard/admin/payouts",
+        icon: Banknote,
+      },
       { title: "Waitlist", href: "/dashboard/admin/waitlist", icon: Mail },
       {
         title: "Invitations",
@@ -203,6 +212,16 @@ const navSections: NavSection[] = [
         href: "/dashboard/admin/cms/email-templates",
         icon: Mail,
       },
+      {
+        title: "Email Deliveries",
+        href: "/dashboard/admin/cms/email-deliveries",
+        icon: MailCheck,
+      },
+      {
+        title: "Email Campaigns",
+        href: "/dashboard/admin/cms/email-campaigns",
+        icon: Workflow,
+      },
       {
         title: "Contact Forms",
         href: "/dashboard/admin/cms/forms",
@@ -219,6 +238,11 @@ const navSections: NavSection[] = [
         href: "/dashboard/admin/products",
         icon: ShoppingCart,
       },
+      {
+        title: "Background Jobs",
+        href: "/dashboard/admin/jobs",
+        icon: ListChecks,
+      },
       { title: "Settings", href: "/dashboard/admin/settings", icon: Settings },
     ],
   },
@@ -12,7 +12,9 @@ import {
   Bookmark,
   BookOpen,
   Brain,
+  ClipboardList,
   LayoutDashboard,
+  Lightbulb,
   StickyNote,
   Target,
   TrendingUp,
@@ -106,6 +108,16 @@ const navSections: NavSection[] = [
         href: "/dashboard/student/progress",
         icon: TrendingUp,
       },
+      {
+        title: "Assessments",
+        href: "/dashboard/student/assessments",
+        icon: ClipboardList,
+      },
+      {
+        title: "Energy Insights",
+        href: "/dashboard/student/insights",
+        icon: Lightbulb,
+      },
     ],
   },
 ];
@@ -1,21 +1,16 @@
 'use client';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { TeamEnergySummary } from '@/lib/organizations/energy-analytics';
+import { OTHER_CELL } from '@/lib/privacy/aggregation';
 import { cn } from '@/lib/utils';
 import { AlertTriangle, BarChart3, Loader2, Shield, Users } from 'lucide-react';
 import { useEffect, useState } from 'react';
 
-interface TeamEnergyData {
-  totalMembers: number;
-  optedInMembers: number;
-  checkInsThisWeek: number;
-  averageEnergy: number;
-  modeDistribution: Record<string, number>;
-  protectionModeAlerts: number;
-}
-
 interface TeamEnergyWidgetProps {
   organizationId: string;
+  /** Limit the data to one team and the teams below it */
+  teamId?: string;
   className?: string;
 }
 
@@ -24,17 +19,19 @@ interface TeamEnergyWidgetProps {
  * Requirements: 16.1, 16.2, 16.3
  *
  * Displays aggregate check-in data for an organization
- * Only includes data from users who have opted in
+ * Only includes data from users who have opted in; values describing too
+ * few members are withheld by the API
  */
-export function TeamEnergyWidget({ organizationId, className }: TeamEnergyWidgetProps) {
-  const [data, setData] = useState<TeamEnergyData | null>(null);
+export function TeamEnergyWidget({ organizationId, teamId, className }: TeamEnergyWidgetProps) {
+  const [data, setData] = useState<TeamEnergySummary | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
+        const query = teamId ? `?teamId=${encodeURIComponent(teamId)}` : '';
         const response = await fetch(
-          `/api/organizations/${organizationId}/energy-analytics`
+          `/api/organizations/${organizationId}/energy-analytics${query}`
         );
         if (response.ok) {
           const result = await response.json();
@@ -48,7 +45,7 @@ export function TeamEnergyWidget({ organizationId, className }: TeamEnergyWidget
     };
 
     fetchData();
-  }, [organizationId]);
+  }, [organizationId, teamId]);
 
   if (loading) {
     return (
@@ -75,8 +72,13 @@ export function TeamEnergyWidget({ organizationId, className }: TeamEnergyWidget
     societal: 'bg-blue-500',
     passion: 'bg-pink-500',
     protection: 'bg-red-500',
+    [OTHER_CELL]: 'bg-gray-500',
   };
 
+  const { privacy } = data;
+  const formatValue = (value: number | null, format: (value: number) => string = String) =>
+    value === null ? '—' : format(value);
+
   return (
     <Card className={cn('glass-card', className)}>
       <CardHeader>
@@ -96,51 +98,64 @@ export function TeamEnergyWidget({ organizationId, className }: TeamEnergyWidget
             <div className="text-xs text-muted-foreground">Sharing Data</div>
           </div>
           <div className="p-4 rounded-lg bg-muted/50 text-center">
-            <div className="text-2xl font-bold">{data.checkInsThisWeek}</div>
+            <div className="text-2xl font-bold">{formatValue(data.checkInsThisWeek)}</div>
             <div className="text-xs text-muted-foreground">Check-ins This Week</div>
           </div>
           <div className="p-4 rounded-lg bg-muted/50 text-center">
-            <div className="text-2xl font-bold">{data.averageEnergy.toFixed(1)}/5</div>
+            <div className="text-2xl font-bold">
+              {formatValue(data.averageEnergy, (value) => `${value.toFixed(1)}/5`)}
+            </div>
             <div className="text-xs text-muted-foreground">Avg Energy Level</div>
           </div>
           <div className="p-4 rounded-lg bg-muted/50 text-center">
             <div className="text-2xl font-bold">
-              {Math.round((data.checkInsThisWeek / (data.optedInMembers * 7)) * 100)}%
+              {formatValue(data.checkInsThisWeek, (checkIns) =>
+                `${Math.min(100, Math.round((checkIns / (data.optedInMembers * 7)) * 100))}%`
+              )}
             </div>
             <div className="text-xs text-muted-foreground">Participation Rate</div>
           </div>
         </div>
 
-        {/* Mode Distribution */}
-        <div className="space-y-3">
-          <div className="flex items-center gap-2">
-            <BarChart3 className="w-4 h-4 text-muted-foreground" />
-            <span className="text-sm font-medium">Operating Mode Distribution</span>
-          </div>
-          <div className="flex h-4 rounded-full overflow-hidden bg-muted">
-            {Object.entries(data.modeDistribution).map(([mode, percentage]) => (
-              <div
-                key={mode}
-                className={cn(modeColors[mode] || 'bg-gray-500')}
-                style={{ width: `${percentage}%` }}
-                title={`${mode}: ${percentage}%`}
-              />
-            ))}
+        {privacy.withheld && (
+          <div className="p-4 rounded-lg bg-muted/50 text-sm text-muted-foreground">
+            Fewer than {privacy.minCohortSize} members checked in this week, so their energy data is
+            hidden to protect their privacy.
           </div>
-          <div className="flex flex-wrap gap-3 text-xs">
-            {Object.entries(data.modeDistribution).map(([mode, percentage]) => (
-              <div key={mode} className="flex items-center gap-1.5">
-                <div className={cn('w-2.5 h-2.5 rounded-full', modeColors[mode])} />
-                <span className="capitalize">{mode}</span>
-                <span className="text-muted-foreground">{percentage}%</span>
-              </div>
-            ))}
+        )}
+
+        {/* Mode Distribution */}
+        {Object.keys(data.modeDistribution).length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <BarChart3 className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm font-medium">Operating Mode Distribution</span>
+            </div>
+            <div className="flex h-4 rounded-full overflow-hidden bg-muted">
+              {Object.entries(data.modeDistribution).map(([mode, percentage]) => (
+                <div
+                  key={mode}
+                  className={cn(modeColors[mode] || 'bg-gray-500')}
+                  style={{ width: `${percentage}%` }}
+                  title={`${mode}: ${percentage}%`}
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-3 text-xs">
+              {Object.entries(data.modeDistribution).map(([mode, percentage]) => (
+                <div key={mode} className="flex items-center gap-1.5">
+                  <div className={cn('w-2.5 h-2.5 rounded-full', modeColors[mode])} />
+                  <span className="capitalize">{mode}</span>
+                  <span className="text-muted-foreground">{percentage}%</span>
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Protection Mode Alerts */}
         {/* Requirements: 16.3 - Flag team members in Protection Mode 3+ days */}
-        {data.protectionModeAlerts > 0 && (
+        {!!data.protectionModeAlerts && (
           <div className="p-4 rounded-lg bg-amber-500/10 border border-amber-500/20">
             <div className="flex items-center gap-3">
               <div className="p-2 rounded-full bg-amber-500/20">
@@ -161,7 +176,11 @@ export function TeamEnergyWidget({ organizationId, className }: TeamEnergyWidget
         {/* Privacy Notice */}
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
           <Shield className="w-3.5 h-3.5" />
-          <span>Only aggregate data from opted-in members is shown</span>
+          <span>
+            Only aggregate data from opted-in members is shown, for groups of at least{' '}
+            {privacy.minCohortSize}
+            {privacy.noiseAdded ? ', with small random adjustments' : ''}
+          </span>
         </div>
       </CardContent>
     </Card>
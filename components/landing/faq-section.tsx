@@ -79,7 +79,7 @@ export const FAQSection = memo(function FAQSection() {
   }, []);
 
   return (
-    <section className="py-20 relative">
+    <section id="faq" className="py-20 relative">
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 relative z-10">
         <div className="text-center mb-12">
           <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
@@ -0,0 +1,248 @@
+"use client";
+
+/**
+ * Organization Privacy Settings Card
+ * Minimum cohort size, small-cell handling and noise for aggregates about
+ * members, with the most recent views of those aggregates
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { AggregateViewWithViewer } from "@/lib/db";
+import {
+  AGGREGATE_KINDS,
+  MIN_COHORT_SIZE_LIMITS,
+  NOISE_EPSILON_LIMITS,
+  SMALL_CELL_HANDLING,
+  type AggregateKind,
+  type PrivacyPolicy,
+  type SmallCellHandling,
+} from "@/lib/privacy/aggregation";
+import { formatDate } from "@/lib/utils";
+import { Save } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface PrivacySettingsCardProps {
+  organizationId: string;
+}
+
+export function PrivacySettingsCard({ organizationId }: PrivacySettingsCardProps) {
+  const [policy, setPolicy] = useState<PrivacyPolicy | null>(null);
+  const [views, setViews] = useState<AggregateViewWithViewer[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPrivacy = async () => {
+      try {
+        const [policyRes, viewsRes] = await Promise.all([
+          fetch(`/api/organizations/${organizationId}/privacy`),
+          fetch(`/api/organizations/${organizationId}/privacy/views?limit=10`),
+        ]);
+        if (policyRes.ok) {
+          setPolicy((await policyRes.json()).policy);
+        }
+        if (viewsRes.ok) {
+          setViews((await viewsRes.json()).data || []);
+        }
+      } catch (err: unknown) {
+        toast.error("Error", {
+          description: err instanceof Error ? err.message : "Failed to load privacy settings",
+        });
+      }
+    };
+
+    fetchPrivacy();
+  }, [organizationId]);
+
+  const handleSave = async () => {
+    if (!policy) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/organizations/${organizationId}/privacy`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          min_cohort_size: policy.minCohortSize,
+          small_cell_handling: policy.smallCellHandling,
+          noise_epsilon: policy.noiseEpsilon,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update privacy settings");
+      }
+
+      setPolicy((await res.json()).policy);
+      toast.success("Success", {
+        description: "Privacy settings updated successfully",
+      });
+    } catch (err: unknown) {
+      toast.error("Error", {
+        description: err instanceof Error ? err.message : "Failed to update privacy settings",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!policy) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Aggregate Privacy</CardTitle>
+          <CardDescription>
+            How team energy analytics, diagnostic results and reports protect
+            individual members
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="min-cohort-size">Minimum group size</Label>
+            <Input
+              id="min-cohort-size"
+              type="number"
+              min={MIN_COHORT_SIZE_LIMITS.min}
+              max={MIN_COHORT_SIZE_LIMITS.max}
+              value={policy.minCohortSize}
+              onChange={(e) => setPolicy({ ...policy, minCohortSize: Number(e.target.value) })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Nothing is shown about fewer members than this, in total or in
+              any group.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Small groups</Label>
+            <Select
+              value={policy.smallCellHandling}
+              onValueChange={(value) =>
+                setPolicy({ ...policy, smallCellHandling: value as SmallCellHandling })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SMALL_CELL_HANDLING).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="noise-enabled">Add random noise</Label>
+              <Switch
+                id="noise-enabled"
+                checked={policy.noiseEpsilon !== null}
+                onCheckedChange={(checked) =>
+                  setPolicy({ ...policy, noiseEpsilon: checked ? 1 : null })
+                }
+              />
+            </div>
+            {policy.noiseEpsilon !== null && (
+              <Input
+                id="noise-epsilon"
+                type="number"
+                step={0.1}
+                min={NOISE_EPSILON_LIMITS.min}
+                max={NOISE_EPSILON_LIMITS.max}
+                value={policy.noiseEpsilon}
+                onChange={(e) => setPolicy({ ...policy, noiseEpsilon: Number(e.target.value) })}
+              />
+            )}
+            <p className="text-xs text-muted-foreground">
+              Lower values add more noise: figures become less exact and
+              harder to trace back to anyone.
+            </p>
+          </div>
+
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save Changes"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Views</CardTitle>
+          <CardDescription>Who viewed aggregates about your members</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {views.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Viewer</TableHead>
+                  <TableHead>Aggregate</TableHead>
+                  <TableHead>Group size</TableHead>
+                  <TableHead>Viewed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {views.map((view) => (
+                  <TableRow key={view.id}>
+                    <TableCell>
+                      {view.viewer?.full_name || view.viewer?.email || "API key"}
+                    </TableCell>
+                    <TableCell>
+                      {AGGREGATE_KINDS[view.aggregate as AggregateKind] ?? view.aggregate}
+                    </TableCell>
+                    <TableCell>
+                      {view.cohort_size}
+                      {view.withheld && (
+                        <Badge variant="outline" className="ml-2">
+                          Hidden
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDate(view.viewed_at)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No views yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
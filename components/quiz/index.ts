@@ -10,3 +10,14 @@ export {
   type QuizResult,
   type QuestionFeedback,
 } from './quiz-player';
+
+export {
+  QuestionAnswerEditor,
+  QUESTION_TYPE_LABELS,
+  createEmptyQuestion,
+  getQuestionError,
+  getQuestionTypeDefaults,
+  toEditableQuestion,
+  toQuestionPayload,
+  type EditableQuizQuestion,
+} from './question-answer-editor';
@@ -0,0 +1,562 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import type {
+  QuizAnswer,
+  QuizQuestion,
+  QuizQuestionType,
+} from '@/lib/content/quiz-grading';
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+
+/**
+ * Question being authored in the admin quiz editor.
+ * Matching questions keep pairs as parallel lists (options[i] matches items[i]);
+ * ordering questions keep their options in the correct order.
+ */
+export interface EditableQuizQuestion {
+  id: string;
+  question: string;
+  type: QuizQuestionType;
+  options: string[];
+  items: string[];
+  correct_answer: QuizAnswer;
+  tolerance: string;
+  partial_credit: boolean;
+  points: number;
+  explanation: string;
+}
+
+/** Display labels for each question type */
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  multiple_choice: 'Multiple Choice',
+  true_false: 'True/False',
+  short_answer: 'Short Answer',
+  multi_select: 'Multi-Select',
+  matching: 'Matching',
+  ordering: 'Ordering',
+  numeric: 'Numeric',
+  fill_blank: 'Fill in the Blank',
+};
+
+const MAX_OPTIONS = 8;
+
+const filled = (values: string[]) => values.map(v => v.trim()).filter(Boolean);
+
+/**
+ * Options, items and answer to reset to when a question's type changes
+ */
+export function getQuestionTypeDefaults(
+  type: QuizQuestionType
+): Pick<EditableQuizQuestion, 'type' | 'options' | 'items' | 'correct_answer'> {
+  switch (type) {
+    case 'true_false':
+      return { type, options: ['True', 'False'], items: [], correct_answer: true };
+    case 'short_answer':
+    case 'numeric':
+      return { type, options: [], items: [], correct_answer: '' };
+    case 'fill_blank':
+      return { type, options: [], items: [], correct_answer: [''] };
+    case 'multi_select':
+      return { type, options: ['', '', '', ''], items: [], correct_answer: [] };
+    case 'matching':
+      return { type, options: ['', '', ''], items: ['', '', ''], correct_answer: {} };
+    case 'ordering':
+      return { type, options: ['', '', ''], items: [], correct_answer: [] };
+    default:
+      return { type, options: ['', '', '', ''], items: [], correct_answer: '' };
+  }
+}
+
+/**
+ * Create a blank multiple choice question
+ */
+export function createEmptyQuestion(): EditableQuizQuestion {
+  return {
+    id: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    question: '',
+    points: 1,
+    explanation: '',
+    partial_credit: true,
+    tolerance: '',
+    ...getQuestionTypeDefaults('multiple_choice'),
+  };
+}
+
+/**
+ * Convert a saved question into its editable form
+ */
+export function toEditableQuestion(question: QuizQuestion): EditableQuizQuestion {
+  const base: EditableQuizQuestion = {
+    id: question.id,
+    question: question.question,
+    type: question.type,
+    options: question.options ?? [],
+    items: question.items ?? [],
+    correct_answer: question.correct_answer,
+    tolerance: question.tolerance !== undefined ? String(question.tolerance) : '',
+    partial_credit: question.partial_credit !== false,
+    points: question.points,
+    explanation: question.explanation ?? '',
+  };
+
+  const answer = question.correct_answer;
+  if (question.type === 'matching' && answer && typeof answer === 'object' && !Array.isArray(answer)) {
+    return { ...base, options: base.items.map(item => answer[item] ?? '') };
+  }
+  if (question.type === 'ordering' && Array.isArray(answer)) {
+    return { ...base, options: answer };
+  }
+  if (question.type === 'numeric') {
+    return { ...base, correct_answer: String(answer) };
+  }
+  if (question.type === 'fill_blank' && !Array.isArray(answer)) {
+    return { ...base, correct_answer: [String(answer)] };
+  }
+  return base;
+}
+
+/**
+ * First problem preventing a question from being saved, if any
+ */
+export function getQuestionError(question: EditableQuizQuestion): string | null {
+  const answer = question.correct_answer;
+  const options = filled(question.options);
+
+  if (!question.question.trim()) return 'All questions must have text';
+
+  switch (question.type) {
+    case 'multiple_choice':
+      if (options.length < 2) return 'Multiple choice questions must have at least 2 options';
+      return typeof answer === 'string' && answer.trim() ? null : 'All questions must have a correct answer';
+    case 'multi_select':
+      if (options.length < 2) return 'Multi-select questions must have at least 2 options';
+      return Array.isArray(answer) && answer.length > 0
+        ? null
+        : 'Multi-select questions need at least one correct option';
+    case 'matching': {
+      const complete = question.items.every((item, i) => item.trim() && question.options[i]?.trim());
+      return complete && question.items.length >= 2
+        ? null
+        : 'Matching questions need at least 2 complete pairs';
+    }
+    case 'ordering':
+      if (options.length < 2) return 'Ordering questions need at least 2 items';
+      return new Set(options).size === options.length ? null : 'Ordering items must be unique';
+    case 'numeric':
+      if (String(answer).trim() === '' || !Number.isFinite(Number(answer))) {
+        return 'Numeric questions need a number as the correct answer';
+      }
+      return question.tolerance.trim() === '' || Number(question.tolerance) >= 0
+        ? null
+        : 'Tolerance must be zero or more';
+    case 'fill_blank':
+      return Array.isArray(answer) && filled(answer).length > 0
+        ? null
+        : 'Fill in the blank questions need at least one accepted answer';
+    case 'short_answer':
+      return typeof answer === 'string' && answer.trim() ? null : 'All questions must have a correct answer';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Question fields to send to the quizzes API
+ */
+export function toQuestionPayload(question: EditableQuizQuestion) {
+  const options = filled(question.options);
+  const base = {
+    question: question.question,
+    type: question.type,
+    points: question.points,
+    explanation: question.explanation || undefined,
+  };
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return { ...base, options, correct_answer: String(question.correct_answer).trim() };
+    case 'multi_select':
+      return {
+        ...base,
+        options,
+        correct_answer: filled(question.correct_answer as string[]),
+        partial_credit: question.partial_credit,
+      };
+    case 'matching': {
+      const items = question.items.map(item => item.trim());
+      const matches = question.options.map(option => option.trim());
+      return {
+        ...base,
+        items,
+        options: [...new Set(matches)],
+        correct_answer: Object.fromEntries(items.map((item, i) => [item, matches[i]])),
+        partial_credit: question.partial_credit,
+      };
+    }
+    case 'ordering':
+      return { ...base, options, correct_answer: options };
+    case 'numeric':
+      return {
+        ...base,
+        correct_answer: Number(question.correct_answer),
+        tolerance: question.tolerance.trim() ? Number(question.tolerance) : undefined,
+      };
+    case 'fill_blank':
+      return { ...base, correct_answer: filled(question.correct_answer as string[]) };
+    default:
+      return { ...base, correct_answer: question.correct_answer };
+  }
+}
+
+interface QuestionAnswerEditorProps {
+  question: EditableQuizQuestion;
+  onChange: (updates: Partial<EditableQuizQuestion>) => void;
+}
+
+/**
+ * Question Answer Editor Component
+ * Edits the options and correct answer of a quiz question for its type
+ */
+export function QuestionAnswerEditor({ question, onChange }: QuestionAnswerEditorProps) {
+  const answer = question.correct_answer;
+  const selected = Array.isArray(answer) ? answer : [];
+
+  const updateOption = (index: number, value: string) => {
+    const options = [...question.options];
+    const previous = options[index];
+    options[index] = value;
+
+    // Keep the chosen answer pointing at the edited option
+    if (question.type === 'multiple_choice' && answer === previous) {
+      onChange({ options, correct_answer: value });
+    } else if (question.type === 'multi_select') {
+      onChange({ options, correct_answer: selected.map(s => (s === previous ? value : s)) });
+    } else {
+      onChange({ options });
+    }
+  };
+
+  const removeOption = (index: number) => {
+    const removed = question.options[index];
+    const options = question.options.filter((_, i) => i !== index);
+
+    if (question.type === 'multiple_choice') {
+      onChange({ options, correct_answer: answer === removed ? '' : answer });
+    } else if (question.type === 'multi_select') {
+      onChange({ options, correct_answer: selected.filter(s => s !== removed) });
+    } else if (question.type === 'matching') {
+      onChange({ options, items: question.items.filter((_, i) => i !== index) });
+    } else {
+      onChange({ options });
+    }
+  };
+
+  const addOption = () => {
+    if (question.options.length >= MAX_OPTIONS) return;
+    if (question.type === 'matching') {
+      onChange({ options: [...question.options, ''], items: [...question.items, ''] });
+    } else {
+      onChange({ options: [...question.options, ''] });
+    }
+  };
+
+  const moveOption = (index: number, offset: number) => {
+    const options = [...question.options];
+    [options[index], options[index + offset]] = [options[index + offset], options[index]];
+    onChange({ options });
+  };
+
+  const addOptionButton = question.options.length < MAX_OPTIONS && (
+    <Button variant="outline" size="sm" onClick={addOption}>
+      <Plus className="w-4 h-4 mr-2" />
+      {question.type === 'matching' ? 'Add Pair' : question.type === 'ordering' ? 'Add Item' : 'Add Option'}
+    </Button>
+  );
+
+  const removeOptionButton = (index: number) =>
+    question.options.length > 2 && (
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => removeOption(index)}
+        aria-label={`Remove option ${index + 1}`}
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    );
+
+  const partialCreditToggle = (
+    <label className="flex items-center gap-2 text-sm">
+      <Checkbox
+        checked={question.partial_credit}
+        onCheckedChange={(state) => onChange({ partial_credit: state === true })}
+      />
+      Award partial credit
+    </label>
+  );
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return (
+        <div className="space-y-2">
+          <Label>Answer Options</Label>
+          <div className="space-y-2">
+            {question.options.map((option, oIndex) => (
+              <div key={oIndex} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name={`correct-${question.id}`}
+                  checked={answer === option && option.trim() !== ''}
+                  onChange={() => onChange({ correct_answer: option })}
+                  className="w-4 h-4"
+                  disabled={!option.trim()}
+                />
+                <Input
+                  value={option}
+                  onChange={(e) => updateOption(oIndex, e.target.value)}
+                  placeholder={`Option ${oIndex + 1}`}
+                  className="flex-1"
+                />
+                {removeOptionButton(oIndex)}
+              </div>
+            ))}
+            {addOptionButton}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Select the radio button next to the correct answer
+          </p>
+        </div>
+      );
+
+    case 'multi_select':
+      return (
+        <div className="space-y-2">
+          <Label>Answer Options</Label>
+          <div className="space-y-2">
+            {question.options.map((option, oIndex) => (
+              <div key={oIndex} className="flex items-center gap-2">
+                <Checkbox
+                  checked={option.trim() !== '' && selected.includes(option)}
+                  onCheckedChange={(state) =>
+                    onChange({
+                      correct_answer: state === true
+                        ? [...selected, option]
+                        : selected.filter(s => s !== option),
+                    })
+                  }
+                  disabled={!option.trim()}
+                  aria-label={`Option ${oIndex + 1} is correct`}
+                />
+                <Input
+                  value={option}
+                  onChange={(e) => updateOption(oIndex, e.target.value)}
+                  placeholder={`Option ${oIndex + 1}`}
+                  className="flex-1"
+                />
+                {removeOptionButton(oIndex)}
+              </div>
+            ))}
+            {addOptionButton}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Check every correct option. With partial credit, each wrong pick cancels a right one.
+          </p>
+          {partialCreditToggle}
+        </div>
+      );
+
+    case 'matching':
+      return (
+        <div className="space-y-2">
+          <Label>Matching Pairs</Label>
+          <div className="space-y-2">
+            {question.items.map((item, pIndex) => (
+              <div key={pIndex} className="flex items-center gap-2">
+                <Input
+                  value={item}
+                  onChange={(e) =>
+                    onChange({ items: question.items.map((v, i) => (i === pIndex ? e.target.value : v)) })
+                  }
+                  placeholder={`Item ${pIndex + 1}`}
+                  className="flex-1"
+                />
+                <span className="text-muted-foreground">→</span>
+                <Input
+                  value={question.options[pIndex] ?? ''}
+                  onChange={(e) => updateOption(pIndex, e.target.value)}
+                  placeholder={`Match ${pIndex + 1}`}
+                  className="flex-1"
+                />
+                {removeOptionButton(pIndex)}
+              </div>
+            ))}
+            {addOptionButton}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Students choose a match for each item from all of the matches
+          </p>
+          {partialCreditToggle}
+        </div>
+      );
+
+    case 'ordering':
+      return (
+        <div className="space-y-2">
+          <Label>Items in Correct Order</Label>
+          <div className="space-y-2">
+            {question.options.map((option, oIndex) => (
+              <div key={oIndex} className="flex items-center gap-2">
+                <span className="w-6 text-sm text-muted-foreground">{oIndex + 1}.</span>
+                <Input
+                  value={option}
+                  onChange={(e) => updateOption(oIndex, e.target.value)}
+                  placeholder={`Item ${oIndex + 1}`}
+                  className="flex-1"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveOption(oIndex, -1)}
+                  disabled={oIndex === 0}
+                  aria-label={`Move item ${oIndex + 1} up`}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveOption(oIndex, 1)}
+                  disabled={oIndex === question.options.length - 1}
+                  aria-label={`Move item ${oIndex + 1} down`}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                {removeOptionButton(oIndex)}
+              </div>
+            ))}
+            {addOptionButton}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Items are shuffled for students, who must put them back in this order
+          </p>
+        </div>
+      );
+
+    case 'numeric':
+      return (
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Correct Answer</Label>
+            <Input
+              type="number"
+              step="any"
+              value={String(answer)}
+              onChange={(e) => onChange({ correct_answer: e.target.value })}
+              placeholder="e.g., 42"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Tolerance (±)</Label>
+            <Input
+              type="number"
+              step="any"
+              min={0}
+              value={question.tolerance}
+              onChange={(e) => onChange({ tolerance: e.target.value })}
+              placeholder="0"
+            />
+          </div>
+        </div>
+      );
+
+    case 'fill_blank':
+      return (
+        <div className="space-y-2">
+          <Label>Accepted Answers</Label>
+          <div className="space-y-2">
+            {selected.map((accepted, aIndex) => (
+              <div key={aIndex} className="flex items-center gap-2">
+                <Input
+                  value={accepted}
+                  onChange={(e) =>
+                    onChange({ correct_answer: selected.map((v, i) => (i === aIndex ? e.target.value : v)) })
+                  }
+                  placeholder={`Accepted answer ${aIndex + 1}`}
+                  className="flex-1"
+                />
+                {selected.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange({ correct_answer: selected.filter((_, i) => i !== aIndex) })}
+                    aria-label={`Remove accepted answer ${aIndex + 1}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ correct_answer: [...selected, ''] })}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Accepted Answer
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Student answers will be matched case-insensitively against any accepted answer
+          </p>
+        </div>
+      );
+
+    case 'true_false':
+      return (
+        <div className="space-y-2">
+          <Label>Correct Answer</Label>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={answer === true}
+                onChange={() => onChange({ correct_answer: true })}
+                className="w-4 h-4"
+              />
+              True
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={answer === false}
+                onChange={() => onChange({ correct_answer: false })}
+                className="w-4 h-4"
+              />
+              False
+            </label>
+          </div>
+        </div>
+      );
+
+    case 'short_answer':
+      return (
+        <div className="space-y-2">
+          <Label>Correct Answer</Label>
+          <Input
+            value={typeof answer === 'string' ? answer : ''}
+            onChange={(e) => onChange({ correct_answer: e.target.value })}
+            placeholder="Enter the correct answer"
+          />
+          <p className="text-xs text-muted-foreground">
+            Student answers will be matched case-insensitively
+          </p>
+        </div>
+      );
+
+    default:
+      return null;
+  }
+}
@@ -7,6 +7,21 @@ import { Progress } from '@/components/ui/progress';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  formatQuizAnswer,
+  isQuestionAnswered,
+  type QuizAnswer,
+  type QuizQuestionForTaking,
+  type QuizQuestionType,
+} from '@/lib/content/quiz-grading';
 import { cn } from '@/lib/utils';
 import {
   CheckCircle2,
@@ -16,21 +31,15 @@ import {
   Trophy,
   AlertCircle,
   RotateCcw,
+  ArrowUp,
+  ArrowDown,
 } from 'lucide-react';
 
 /** Question types supported by the quiz system */
-export type QuestionType = 'multiple_choice' | 'true_false' | 'short_answer';
+export type QuestionType = QuizQuestionType;
 
-/** Individual quiz question */
-export interface QuizQuestion {
-  id: string;
-  question: string;
-  type: QuestionType;
-  options?: string[];
-  correct_answer: string | boolean;
-  points: number;
-  explanation?: string;
-}
+/** Individual quiz question (as served for taking, without the answer) */
+export type QuizQuestion = QuizQuestionForTaking;
 
 /** Quiz data structure */
 export interface Quiz {
@@ -38,15 +47,21 @@ export interface Quiz {
   title: string;
   passing_score: number;
   questions: QuizQuestion[];
+  /** Attempt the questions were served for (graded against its snapshot) */
+  attempt_id?: string;
+  /** Whether each attempt draws or shuffles its own questions */
+  randomized?: boolean;
 }
 
 /** Result feedback for a question */
 export interface QuestionFeedback {
   question_id: string;
   question: string;
-  user_answer: string | boolean | undefined;
-  correct_answer: string | boolean;
+  user_answer: QuizAnswer | undefined;
+  correct_answer: QuizAnswer;
   is_correct: boolean;
+  /** Points earned, including partial credit */
+  earned_points?: number;
   explanation?: string;
   points: number;
 }
@@ -66,7 +81,7 @@ export interface QuizResult {
 
 interface QuizPlayerProps {
   quiz: Quiz;
-  onSubmit: (answers: Record<string, string | boolean>) => Promise<QuizResult>;
+  onSubmit: (answers: Record<string, QuizAnswer>) => Promise<QuizResult>;
   onComplete?: (result: QuizResult) => void;
   onRetry?: () => void;
   allowRetry?: boolean;
@@ -86,17 +101,17 @@ export function QuizPlayer({
   allowRetry = true,
 }: QuizPlayerProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, string | boolean>>({});
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
   const [quizState, setQuizState] = useState<QuizState>('taking');
   const [result, setResult] = useState<QuizResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const currentQuestion = quiz.questions[currentQuestionIndex];
   const totalQuestions = quiz.questions.length;
-  const answeredCount = Object.keys(answers).length;
+  const answeredCount = quiz.questions.filter(q => isQuestionAnswered(answers[q.id])).length;
   const progress = (answeredCount / totalQuestions) * 100;
 
-  const handleAnswerChange = useCallback((questionId: string, value: string | boolean) => {
+  const handleAnswerChange = useCallback((questionId: string, value: QuizAnswer) => {
     setAnswers(prev => ({ ...prev, [questionId]: value }));
   }, []);
 
@@ -108,7 +123,7 @@ export function QuizPlayer({
 
   const handleSubmit = async () => {
     // Validate all questions are answered
-    const unanswered = quiz.questions.filter(q => answers[q.id] === undefined);
+    const unanswered = quiz.questions.filter(q => !isQuestionAnswered(answers[q.id]));
     if (unanswered.length > 0) {
       setError(`Please answer all questions. ${unanswered.length} question(s) remaining.`);
       return;
@@ -188,13 +203,13 @@ export function QuizPlayer({
             <button
               key={q.id}
               onClick={() => goToQuestion(index)}
-              aria-label={`Go to question ${index + 1}${answers[q.id] !== undefined ? ' (answered)' : ''}`}
+              aria-label={`Go to question ${index + 1}${isQuestionAnswered(answers[q.id]) ? ' (answered)' : ''}`}
               aria-current={index === currentQuestionIndex ? 'step' : undefined}
               className={cn(
                 'w-8 h-8 rounded-full text-sm font-medium transition-colors',
                 index === currentQuestionIndex
                   ? 'bg-primary text-primary-foreground'
-                  : answers[q.id] !== undefined
+                  : isQuestionAnswered(answers[q.id])
                   ? 'bg-primary/20 text-primary'
                   : 'bg-muted text-muted-foreground hover:bg-muted/80'
               )}
@@ -238,8 +253,8 @@ export function QuizPlayer({
 /** Question input component based on type */
 interface QuestionInputProps {
   question: QuizQuestion;
-  value: string | boolean | undefined;
-  onChange: (value: string | boolean) => void;
+  value: QuizAnswer | undefined;
+  onChange: (value: QuizAnswer) => void;
 }
 
 function QuestionInput({ question, value, onChange }: QuestionInputProps) {
@@ -307,6 +322,139 @@ function QuestionInput({ question, value, onChange }: QuestionInputProps) {
         />
       );
 
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-3">
+          {question.options?.map((option, index) => {
+            const checked = selected.includes(option);
+            return (
+              <div
+                key={index}
+                className={cn(
+                  'flex items-center space-x-3 p-3 rounded-lg border transition-colors',
+                  checked
+                    ? 'border-primary bg-primary/5'
+                    : 'border-border hover:border-primary/50'
+                )}
+              >
+                <Checkbox
+                  id={`select-${index}`}
+                  checked={checked}
+                  onCheckedChange={(state) =>
+                    onChange(state === true
+                      ? [...selected, option]
+                      : selected.filter(s => s !== option))
+                  }
+                />
+                <Label htmlFor={`select-${index}`} className="flex-1 cursor-pointer">
+                  {option}
+                </Label>
+              </div>
+            );
+          })}
+          <p className="text-sm text-muted-foreground">Select all that apply</p>
+        </div>
+      );
+    }
+
+    case 'matching': {
+      const matches = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+      return (
+        <div className="space-y-3">
+          {question.items?.map((item, index) => (
+            <div
+              key={index}
+              className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border border-border"
+            >
+              <span className="flex-1 font-medium">{item}</span>
+              <Select
+                value={matches[item]}
+                onValueChange={(option) => onChange({ ...matches, [item]: option })}
+              >
+                <SelectTrigger className="sm:w-64" aria-label={`Match for ${item}`}>
+                  <SelectValue placeholder="Choose a match" />
+                </SelectTrigger>
+                <SelectContent>
+                  {question.options?.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'ordering': {
+      const order = Array.isArray(value) ? value : question.options ?? [];
+      const move = (index: number, offset: number) => {
+        const next = [...order];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        onChange(next);
+      };
+      return (
+        <div className="space-y-2">
+          {order.map((item, index) => (
+            <div key={item} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+              <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+              <span className="flex-1">{item}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${item} up`}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => move(index, 1)}
+                disabled={index === order.length - 1}
+                aria-label={`Move ${item} down`}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {!Array.isArray(value) && (
+            <Button variant="outline" size="sm" onClick={() => onChange(order)}>
+              Keep This Order
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    case 'numeric':
+      return (
+        <Input
+          type="number"
+          inputMode="decimal"
+          step="any"
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Enter a number..."
+          className="w-full"
+        />
+      );
+
+    case 'fill_blank':
+      return (
+        <Input
+          type="text"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Fill in the blank..."
+          className="w-full"
+        />
+      );
+
     default:
       return null;
   }
@@ -410,13 +558,13 @@ function QuizResults({ result, quiz: _quiz, onRetry }: QuizResultsProps) {
                       <p>
                         <span className="text-muted-foreground">Your answer: </span>
                         <span className={fb.is_correct ? 'text-green-600' : 'text-red-600'}>
-                          {String(fb.user_answer ?? 'No answer')}
+                          {formatQuizAnswer(fb.user_answer)}
                         </span>
                       </p>
                       {!fb.is_correct && (
                         <p>
                           <span className="text-muted-foreground">Correct answer: </span>
-                          <span className="text-green-600">{String(fb.correct_answer)}</span>
+                          <span className="text-green-600">{formatQuizAnswer(fb.correct_answer)}</span>
                         </p>
                       )}
                       {fb.explanation && (
@@ -426,7 +574,7 @@ function QuizResults({ result, quiz: _quiz, onRetry }: QuizResultsProps) {
                       )}
                     </div>
                     <p className="text-xs text-muted-foreground">
-                      {fb.is_correct ? fb.points : 0}/{fb.points} points
+                      {fb.earned_points ?? (fb.is_correct ? fb.points : 0)}/{fb.points} points
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,123 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AssessmentComparison, ElementDelta } from '@/lib/content/assessment-comparison';
+import { ELEMENT_DEFINITIONS } from '@/lib/content/assessment-questions';
+import { cn } from '@/lib/utils';
+import { ArrowDownRight, ArrowRight, ArrowUpRight, GitCompare } from 'lucide-react';
+
+interface AssessmentComparisonCardProps {
+  comparison: AssessmentComparison;
+  title?: string;
+  description?: string;
+}
+
+function DeltaBadge({ delta }: { delta: ElementDelta }) {
+  if (delta.significance === 'stable') {
+    return (
+      <Badge variant="outline" className="text-xs text-muted-foreground">
+        Stable
+      </Badge>
+    );
+  }
+
+  const rising = delta.delta > 0;
+  const Icon = rising ? ArrowUpRight : ArrowDownRight;
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        'text-xs',
+        delta.significance === 'significant'
+          ? rising
+            ? 'bg-green-500/10 text-green-600 border-green-500/20'
+            : 'bg-amber-500/10 text-amber-600 border-amber-500/20'
+          : 'text-muted-foreground'
+      )}
+    >
+      <Icon className="w-3 h-3 mr-1" />
+      {rising ? '+' : ''}
+      {delta.delta}
+      {delta.significance === 'notable' && ' (slight)'}
+    </Badge>
+  );
+}
+
+/**
+ * Show how an assessment differs from an earlier one: element deltas (with
+ * significance), top element and blend changes, and a narrative summary
+ */
+export function AssessmentComparisonCard({
+  comparison,
+  title = 'How You Have Changed',
+  description = 'Compared with your previous assessment',
+}: AssessmentComparisonCardProps) {
+  const { elementDeltas, topElements, blendType, summary } = comparison;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-primary" />
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3 text-sm text-foreground/80 leading-relaxed">
+          {summary.map((paragraph) => (
+            <p key={paragraph}>{paragraph}</p>
+          ))}
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="p-4 rounded-lg bg-muted/30">
+            <div className="text-xs text-muted-foreground mb-2">Top elements</div>
+            <div className="flex items-center gap-2 flex-wrap text-sm">
+              <span>{topElements.from.map((e) => ELEMENT_DEFINITIONS[e].emoji).join(' ')}</span>
+              <ArrowRight className="w-4 h-4 text-muted-foreground" />
+              <span>{topElements.to.map((e) => ELEMENT_DEFINITIONS[e].emoji).join(' ')}</span>
+            </div>
+          </div>
+          <div className="p-4 rounded-lg bg-muted/30">
+            <div className="text-xs text-muted-foreground mb-2">Blend</div>
+            <div className="text-sm font-medium">
+              {blendType.changed ? (
+                <span className="flex items-center gap-2 flex-wrap">
+                  {blendType.from}
+                  <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                  {blendType.to}
+                </span>
+              ) : (
+                blendType.to
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {elementDeltas.map((delta) => {
+            const element = ELEMENT_DEFINITIONS[delta.element];
+            return (
+              <div key={delta.element} className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-xl">{element.emoji}</span>
+                  <span className="font-medium">{element.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {delta.from} → {delta.to}
+                  </span>
+                </div>
+                <DeltaBadge delta={delta} />
+              </div>
+            );
+          })}
+          <p className="text-xs text-muted-foreground pt-2">
+            Changes smaller than the margin of error for your answers are shown as stable.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,3 +10,7 @@ export { ShadowInsightsCard } from './shadow-insights-card';
 export { ElementRadarChart } from './element-radar-chart';
 export { WorkRelationshipInsights } from './work-relationship-insights';
 export { ValidityBadge } from './validity-badge';
+
+// Retake comparison
+export { AssessmentComparisonCard } from './assessment-comparison-card';
+export { RetakeComparisonSection } from './retake-comparison-section';
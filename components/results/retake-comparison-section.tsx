@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { logger } from '@/lib/logging';
+import type { AssessmentComparison } from '@/lib/content/assessment-comparison';
+import { AssessmentComparisonCard } from './assessment-comparison-card';
+
+/**
+ * Compare the assessment just taken with the previous one (signed-in users
+ * with at least two assessments; renders nothing otherwise)
+ */
+export function RetakeComparisonSection() {
+  const [comparison, setComparison] = useState<AssessmentComparison | null>(null);
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      try {
+        const response = await fetch('/api/assessment/compare?limit=2');
+        if (response.ok) {
+          const data = await response.json();
+          setComparison(data.overall);
+        }
+      } catch (error: unknown) {
+        logger.error('Error fetching assessment comparison:', error as Error);
+      }
+    };
+
+    fetchComparison();
+  }, []);
+
+  if (!comparison) return null;
+
+  return (
+    <div className="space-y-4">
+      <AssessmentComparisonCard comparison={comparison} />
+      <div className="text-center">
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/student/assessments">View Your Assessment History</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
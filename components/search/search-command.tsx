@@ -12,10 +12,20 @@ import {
   CommandSeparator,
 } from "@/components/ui/command";
 import { useDebounce } from "@/hooks/use-debounce";
+import {
+  MIN_QUERY_LENGTH,
+  SEARCH_RESULT_TYPES,
+  type HighlightedText,
+  type SearchHit,
+  type SearchResultType,
+} from "@/lib/search/engine";
+import { cn } from "@/lib/utils";
 import {
   BarChart,
   Book,
+  BookOpen,
   Calendar,
+  ClipboardCheck,
   FileText,
   GraduationCap,
   HelpCircle,
@@ -23,36 +33,41 @@ import {
   Loader2,
   Search,
   Settings,
+  Sparkles,
   Users,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useState } from "react";
 
-interface SearchResult {
-  id: string;
-  type: "course" | "user" | "event" | "blog" | "quiz";
-  title: string;
-  description?: string;
-  url: string;
-  image?: string;
-  meta?: Record<string, unknown>;
-}
-
-const typeIcons: Record<string, typeof Book> = {
+const typeIcons: Record<SearchResultType, typeof Book> = {
   course: GraduationCap,
+  lesson: BookOpen,
   user: Users,
   event: Calendar,
   blog: FileText,
-  quiz: HelpCircle,
+  faq: HelpCircle,
+  element: Sparkles,
+  quiz: ClipboardCheck,
 };
 
-const typeLabels: Record<string, string> = {
-  course: "Courses",
-  user: "Users",
-  event: "Events",
-  blog: "Blog Posts",
-  quiz: "Quizzes",
-};
+function Highlighted({ parts }: { parts: HighlightedText }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className="bg-transparent font-semibold text-foreground"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
 
 interface SearchCommandProps {
   open?: boolean;
@@ -66,7 +81,11 @@ export function SearchCommand({
   const router = useRouter();
   const [internalOpen, setInternalOpen] = useState(false);
   const [query, setQuery] = useState("");
-  const [results, setResults] = useState<SearchResult[]>([]);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [facets, setFacets] = useState<
+    Partial<Record<SearchResultType, number>>
+  >({});
+  const [activeType, setActiveType] = useState<SearchResultType | null>(null);
   const [loading, setLoading] = useState(false);
 
   const open = controlledOpen ?? internalOpen;
@@ -88,45 +107,57 @@ export function SearchCommand({
   }, [open, setOpen]);
 
   // Search API
-  const search = useCallback(async (searchQuery: string) => {
-    if (searchQuery.length < 2) {
-      setResults([]);
-      return;
-    }
+  const search = useCallback(
+    async (searchQuery: string, type: SearchResultType | null) => {
+      if (searchQuery.length < MIN_QUERY_LENGTH) {
+        setResults([]);
+        setFacets({});
+        return;
+      }
 
-    setLoading(true);
-    try {
-      const res = await fetch(
-        `/api/search?q=${encodeURIComponent(searchQuery)}&limit=20`
-      );
-      if (res.ok) {
-        const data = await res.json();
-        setResults(data.results || []);
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ q: searchQuery, limit: "20" });
+        if (type) params.set("type", type);
+        const res = await fetch(`/api/search?${params}`);
+        if (res.ok) {
+          const data = await res.json();
+          setResults(data.results || []);
+          setFacets(data.facets || {});
+        }
+      } catch {
+        setResults([]);
+        setFacets({});
+      } finally {
+        setLoading(false);
       }
-    } catch {
-      setResults([]);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+    },
+    []
+  );
 
-  // Trigger search when debounced query changes
+  // Trigger search when debounced query or type filter changes
   useEffect(() => {
     if (debouncedQuery) {
-      search(debouncedQuery);
+      search(debouncedQuery, activeType);
     } else {
       setResults([]);
+      setFacets({});
+      setActiveType(null);
     }
-  }, [debouncedQuery, search]);
+  }, [debouncedQuery, activeType, search]);
 
-  const handleSelect = (result: SearchResult) => {
+  const handleSelect = (result: SearchHit) => {
     setOpen(false);
     setQuery("");
+    setActiveType(null);
     router.push(result.url);
   };
 
-  // Group results by type
-  const groupedResults = results.reduce<Record<string, SearchResult[]>>(
+  const facetEntries = Object.entries(facets) as [SearchResultType, number][];
+  const totalMatches = facetEntries.reduce((sum, [, count]) => sum + count, 0);
+
+  // Group results by type, keeping the best-ranked type first
+  const groupedResults = results.reduce<Record<string, SearchHit[]>>(
     (acc, result) => {
       if (!acc[result.type]) {
         acc[result.type] = [];
@@ -147,12 +178,43 @@ export function SearchCommand({
   ];
 
   return (
-    <CommandDialog open={open} onOpenChange={setOpen}>
+    <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
       <CommandInput
-        placeholder="Search courses, events, blog posts..."
+        placeholder="Search courses, lessons, events, blog posts..."
         value={query}
         onValueChange={setQuery}
       />
+      {query.length >= MIN_QUERY_LENGTH && facetEntries.length > 1 && (
+        <div className="flex flex-wrap gap-1.5 border-b px-3 py-2">
+          <button
+            type="button"
+            onClick={() => setActiveType(null)}
+            className={cn(
+              "rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+              activeType === null
+                ? "bg-primary text-primary-foreground"
+                : "hover:bg-accent"
+            )}
+          >
+            All {totalMatches}
+          </button>
+          {facetEntries.map(([type, count]) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setActiveType(type)}
+              className={cn(
+                "rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+                activeType === type
+                  ? "bg-primary text-primary-foreground"
+                  : "hover:bg-accent"
+              )}
+            >
+              {SEARCH_RESULT_TYPES[type]} {count}
+            </button>
+          ))}
+        </div>
+      )}
       <CommandList>
         {loading && (
           <div className="flex items-center justify-center py-6">
@@ -160,11 +222,11 @@ export function SearchCommand({
           </div>
         )}
 
-        {!loading && query.length >= 2 && results.length === 0 && (
+        {!loading && query.length >= MIN_QUERY_LENGTH && results.length === 0 && (
           <CommandEmpty>No results found for &quot;{query}&quot;</CommandEmpty>
         )}
 
-        {!loading && query.length < 2 && (
+        {!loading && query.length < MIN_QUERY_LENGTH && (
           <>
             <CommandGroup heading="Quick Navigation">
               {quickNav.map((item) => (
@@ -192,12 +254,16 @@ export function SearchCommand({
 
         {!loading &&
           Object.entries(groupedResults).map(([type, items]) => {
-            const Icon = typeIcons[type] || FileText;
+            const Icon = typeIcons[type as SearchResultType] || FileText;
             return (
-              <CommandGroup key={type} heading={typeLabels[type] || type}>
+              <CommandGroup
+                key={type}
+                heading={SEARCH_RESULT_TYPES[type as SearchResultType] || type}
+              >
                 {items.map((result) => (
                   <CommandItem
                     key={`${result.type}-${result.id}`}
+                    value={`${result.type}-${result.id}`}
                     onSelect={() => handleSelect(result)}
                     className="flex items-center gap-3"
                   >
@@ -212,11 +278,19 @@ export function SearchCommand({
                       <Icon className="h-4 w-4 text-muted-foreground" />
                     )}
                     <div className="flex-1 min-w-0">
-                      <p className="font-medium truncate">{result.title}</p>
-                      {result.description && (
-                        <p className="text-xs text-muted-foreground truncate">
-                          {result.description}
+                      <p className="font-medium truncate">
+                        <Highlighted parts={result.highlights.title} />
+                      </p>
+                      {result.highlights.snippet ? (
+                        <p className="text-xs text-muted-foreground line-clamp-2">
+                          <Highlighted parts={result.highlights.snippet} />
                         </p>
+                      ) : (
+                        result.description && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            {result.description}
+                          </p>
+                        )
                       )}
                     </div>
                     <Badge variant="outline" className="text-xs">
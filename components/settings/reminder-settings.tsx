@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Switch } from '@/components/ui/switch';
+import { subscribeToPush } from '@/lib/push/client';
 import { cn } from '@/lib/utils';
 import { Bell, BellOff, Loader2, Mail, Smartphone } from 'lucide-react';
 import { useEffect, useState } from 'react';
@@ -15,6 +16,7 @@ interface ReminderSettings {
   time: string;
   method: 'push' | 'email' | 'both';
   days: number[];
+  timezone?: string;
 }
 
 const DAYS_OF_WEEK = [
@@ -69,20 +71,34 @@ export function ReminderSettings({ className }: ReminderSettingsProps) {
   const handleSave = async () => {
     setSaving(true);
     try {
+      // Reminder times are in the timezone of the browser that saved them
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
       const response = await fetch('/api/tools/reminders', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(settings),
+        body: JSON.stringify({ ...settings, timezone }),
       });
 
-      if (response.ok) {
+      if (!response.ok) {
+        throw new Error('Failed to save');
+      }
+
+      setSettings((prev) => ({ ...prev, timezone }));
+
+      const wantsPush = settings.enabled && settings.method !== 'email';
+      const pushReady = wantsPush ? await subscribeToPush().catch(() => false) : true;
+
+      if (!pushReady) {
+        toast.warning(
+          'Push notifications are not available in this browser, so reminders will be sent by email.'
+        );
+      } else {
         toast.success(
           settings.enabled
             ? 'Reminders enabled! You\'ll receive notifications at your chosen time.'
             : 'Reminder settings saved.'
         );
-      } else {
-        throw new Error('Failed to save');
       }
     } catch (_error) {
       toast.error('Failed to save reminder settings');
@@ -284,6 +300,7 @@ export function ReminderSettings({ className }: ReminderSettingsProps) {
         {/* Info text */}
         <p className="text-xs text-muted-foreground text-center">
           Reminders are skipped automatically if you've already checked in that day
+          {settings.timezone && ` · Times are in ${settings.timezone}`}
         </p>
       </CardContent>
     </Card>
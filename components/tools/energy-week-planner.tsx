@@ -0,0 +1,447 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAsync } from "@/hooks/use-async";
+import type {
+  PlannedDay,
+  ReconciliationStatus,
+  WeekPlan,
+} from "@/lib/content/energy-planner";
+import { cn } from "@/lib/utils";
+import {
+  BatteryLow,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+export interface PlannerActivityOption {
+  id: string;
+  name: string;
+  cost: number; // positive = drains, negative = regenerates
+  category: "work" | "social" | "chore" | "regeneration";
+}
+
+interface WeekTemplate {
+  id: string;
+  weekday: number;
+  name: string | null;
+  total_budget: number;
+  activities: PlannerActivityOption[];
+}
+
+interface WeekData extends WeekPlan {
+  templates: WeekTemplate[];
+}
+
+interface EnergyWeekPlannerProps {
+  /** Presets and saved activities offered when editing a template */
+  activityOptions: PlannerActivityOption[];
+}
+
+/** Template editor order: Monday first */
+const WEEKDAYS = [
+  { value: 1, label: "Monday" },
+  { value: 2, label: "Tuesday" },
+  { value: 3, label: "Wednesday" },
+  { value: 4, label: "Thursday" },
+  { value: 5, label: "Friday" },
+  { value: 6, label: "Saturday" },
+  { value: 0, label: "Sunday" },
+];
+
+const RECONCILIATION_LABELS: Record<
+  ReconciliationStatus,
+  { label: string; className: string }
+> = {
+  better: { label: "Better than planned", className: "text-green-600" },
+  as_planned: { label: "As planned", className: "text-muted-foreground" },
+  worse: { label: "Harder than planned", className: "text-amber-600" },
+};
+
+function shiftWeek(weekStart: string, weeks: number): string {
+  const date = new Date(`${weekStart}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + weeks * 7);
+  return date.toISOString().slice(0, 10);
+}
+
+function DayCard({ day }: { day: PlannedDay }) {
+  const reconciliation = day.reconciliation
+    ? RECONCILIATION_LABELS[day.reconciliation.status]
+    : null;
+
+  return (
+    <Card
+      className={cn(
+        "p-4 space-y-2",
+        day.overBudget && "border-red-500/40 bg-red-500/5"
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-semibold">{day.label.slice(0, 3)}</p>
+          <p className="text-xs text-muted-foreground">{day.date.slice(5)}</p>
+        </div>
+        {day.source !== "none" && (
+          <Badge variant="outline" className="text-xs">
+            {day.source === "budget" ? "Saved" : "Template"}
+          </Badge>
+        )}
+      </div>
+
+      {day.source === "none" ? (
+        <p className="text-xs text-muted-foreground">Nothing planned</p>
+      ) : (
+        <>
+          {day.templateName && (
+            <p className="text-xs text-muted-foreground truncate">
+              {day.templateName}
+            </p>
+          )}
+          <p
+            className={cn(
+              "text-2xl font-bold",
+              day.overBudget ? "text-red-500" : "text-primary"
+            )}
+          >
+            {day.remaining}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {day.usage} of {day.totalBudget} used
+          </p>
+        </>
+      )}
+
+      {day.overBudget && (
+        <div className="text-xs text-red-600 space-y-1">
+          <p className="flex items-center gap-1 font-medium">
+            <BatteryLow className="w-3 h-3" />
+            {day.deficit} over budget
+          </p>
+          {day.suggestions.length > 0 && (
+            <ul className="text-muted-foreground space-y-1">
+              {day.suggestions.map((suggestion) => (
+                <li key={suggestion}>• {suggestion}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {day.reconciliation && reconciliation && (
+        <p className={cn("text-xs", reconciliation.className)}>
+          {reconciliation.label}: felt {day.reconciliation.actualEnergy}/5,
+          planned {day.reconciliation.plannedEnergy}/5
+        </p>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * Week view of energy budgets with recurring weekday templates
+ */
+export function EnergyWeekPlanner({ activityOptions }: EnergyWeekPlannerProps) {
+  const { data, loading, error, execute } = useAsync<WeekData>();
+  const [weekStart, setWeekStart] = useState(() =>
+    new Date().toISOString().slice(0, 10)
+  );
+  const [weekday, setWeekday] = useState(1);
+  const [draft, setDraft] = useState<Omit<WeekTemplate, "id" | "weekday">>({
+    name: "",
+    total_budget: 100,
+    activities: [],
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadWeek = useCallback(
+    (start: string) =>
+      execute(async () => {
+        const res = await fetch(`/api/tools/energy-budget/week?start=${start}`);
+        if (!res.ok) {
+          throw new Error("Failed to load your week");
+        }
+        return res.json();
+      }),
+    [execute]
+  );
+
+  useEffect(() => {
+    loadWeek(weekStart);
+  }, [loadWeek, weekStart]);
+
+  const template = data?.templates.find((t) => t.weekday === weekday) ?? null;
+
+  // Reset the editor to the selected weekday's saved template
+  useEffect(() => {
+    setDraft({
+      name: template?.name ?? "",
+      total_budget: template?.total_budget ?? 100,
+      activities: template?.activities ?? [],
+    });
+  }, [template]);
+
+  const draftUsage = draft.activities.reduce((sum, a) => sum + a.cost, 0);
+
+  const addDraftActivity = (optionId: string) => {
+    const option = activityOptions.find((a) => a.id === optionId);
+    if (!option) return;
+    setDraft((prev) => ({
+      ...prev,
+      activities: [...prev.activities, { ...option, id: crypto.randomUUID() }],
+    }));
+  };
+
+  const saveTemplate = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/tools/energy-budget/templates", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          weekday,
+          name: draft.name?.trim() || null,
+          total_budget: draft.total_budget,
+          activities: draft.activities,
+        }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to save template");
+      }
+      toast.success("Template saved");
+      await loadWeek(weekStart);
+    } catch {
+      toast.error("Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteTemplate = async () => {
+    if (!template) return;
+    const res = await fetch(`/api/tools/energy-budget/templates/${template.id}`, {
+      method: "DELETE",
+    });
+    if (res.ok) {
+      toast.success("Template removed");
+      await loadWeek(weekStart);
+    } else {
+      toast.error("Failed to remove template");
+    }
+  };
+
+  const applyTemplates = async () => {
+    if (!data) return;
+    const res = await fetch("/api/tools/energy-budget/week", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ week_start: data.weekStart }),
+    });
+    if (res.ok) {
+      const result = await res.json();
+      toast.success(`Planned ${result.budgets.length} days from your templates`);
+      await loadWeek(weekStart);
+    } else {
+      toast.error("Create a weekday template before planning the week");
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-2xl font-bold flex items-center gap-2">
+          <CalendarDays className="w-6 h-6 text-primary" />
+          Week Planner
+        </h3>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Previous week"
+            onClick={() => setWeekStart(shiftWeek(data?.weekStart ?? weekStart, -1))}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground w-28 text-center">
+            {data ? `Week of ${data.weekStart.slice(5)}` : "Loading..."}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Next week"
+            onClick={() => setWeekStart(shiftWeek(data?.weekStart ?? weekStart, 1))}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Button onClick={applyTemplates} disabled={!data?.templates.length}>
+            Apply Templates
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-muted-foreground">{error}</p>
+      ) : loading || !data ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          {Array.from({ length: 7 }, (_, i) => (
+            <Skeleton key={i} className="h-32" />
+          ))}
+        </div>
+      ) : (
+        <>
+          {data.summary.overBudgetDays > 0 && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-600 flex items-start gap-2">
+              <BatteryLow className="w-4 h-4 mt-0.5 shrink-0" />
+              <p>
+                {data.summary.overBudgetDays} day
+                {data.summary.overBudgetDays === 1 ? " is" : "s are"} over budget
+                this week
+                {data.element && ` — suggestions are picked for ${data.element.icon} ${data.element.name}`}
+                .
+              </p>
+            </div>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+            {data.days.map((day) => (
+              <DayCard key={day.date} day={day} />
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Weekday Template Editor */}
+      <Card className="p-6 glass-card space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h4 className="font-bold">Recurring Weekday Template</h4>
+          <Select value={String(weekday)} onValueChange={(v) => setWeekday(Number(v))}>
+            <SelectTrigger className="w-40" aria-label="Weekday">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAYS.map((day) => (
+                <SelectItem key={day.value} value={String(day.value)}>
+                  {day.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <Input
+            placeholder="Template name (e.g. Office day)"
+            value={draft.name ?? ""}
+            maxLength={100}
+            onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+          />
+          <Input
+            type="number"
+            min={1}
+            max={200}
+            aria-label="Total budget"
+            value={draft.total_budget}
+            onChange={(e) =>
+              setDraft((prev) => ({
+                ...prev,
+                total_budget: Math.min(Math.max(Number(e.target.value) || 1, 1), 200),
+              }))
+            }
+          />
+        </div>
+
+        <div className="space-y-2">
+          {draft.activities.map((activity) => (
+            <div
+              key={activity.id}
+              className="flex items-center justify-between p-2 border border-border rounded-lg text-sm"
+            >
+              <span>
+                <Badge variant="outline" className="capitalize mr-2">
+                  {activity.category}
+                </Badge>
+                {activity.name}
+              </span>
+              <div className="flex items-center gap-2">
+                <span className={activity.cost > 0 ? "text-red-500" : "text-green-500"}>
+                  {activity.cost > 0 ? `-${activity.cost}` : `+${Math.abs(activity.cost)}`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${activity.name}`}
+                  onClick={() =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      activities: prev.activities.filter((a) => a.id !== activity.id),
+                    }))
+                  }
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Select value="" onValueChange={addDraftActivity}>
+            <SelectTrigger aria-label="Add activity">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <Plus className="w-4 h-4" />
+                Add activity
+              </span>
+            </SelectTrigger>
+            <SelectContent>
+              {activityOptions.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name} ({option.cost > 0 ? `-${option.cost}` : `+${Math.abs(option.cost)}`})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p
+            className={cn(
+              "text-sm",
+              draftUsage > draft.total_budget ? "text-red-500" : "text-muted-foreground"
+            )}
+          >
+            {draft.total_budget - draftUsage} of {draft.total_budget} left
+          </p>
+          <div className="flex gap-2">
+            {template && (
+              <Button variant="outline" onClick={deleteTemplate}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove
+              </Button>
+            )}
+            <Button onClick={saveTemplate} disabled={isSaving}>
+              {isSaving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Template
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </section>
+  );
+}
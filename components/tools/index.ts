@@ -16,3 +16,4 @@ export { ToolRecommendations } from "./tool-recommendations";
 export { ProtectionModeBanner } from "./protection-mode-banner";
 export { EmergencyFAB } from "./emergency-fab";
 export { ToolsPageContent } from "./tools-page-content";
+export { EnergyWeekPlanner, type PlannerActivityOption } from "./energy-week-planner";
@@ -0,0 +1,169 @@
+/**
+ * Learning Assignment Due Email Template
+ * Sent to a member before an assignment's due date, and once it is overdue
+ */
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from '@react-email/components'
+
+interface LearningAssignmentDueEmailProps {
+  userName: string
+  organizationName: string
+  assignmentTitle: string
+  notice: 'reminder' | 'overdue'
+  dueDate: string
+  daysLeft: number
+  message?: string | null
+  actionUrl: string
+}
+
+export const LearningAssignmentDueEmail = ({
+  userName = 'there',
+  organizationName = 'Acme Corporation',
+  assignmentTitle = 'Energy Management Fundamentals',
+  notice = 'reminder',
+  dueDate = 'March 10, 2026',
+  daysLeft = 3,
+  message = null,
+  actionUrl = 'https://example.com/courses/energy-management',
+}: LearningAssignmentDueEmailProps) => {
+  const isOverdue = notice === 'overdue'
+
+  const previewText = isOverdue
+    ? `${assignmentTitle} is overdue`
+    : `${assignmentTitle} is due ${daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}`
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={h1}>{isOverdue ? 'Assignment Overdue' : 'Assignment Due Soon'}</Heading>
+
+          <Text style={text}>
+            Hi {userName},
+          </Text>
+
+          <Text style={text}>
+            {isOverdue ? (
+              <>
+                <strong>{assignmentTitle}</strong>, assigned to you by{' '}
+                <strong>{organizationName}</strong>, was due on {dueDate} and
+                hasn&apos;t been completed yet.
+              </>
+            ) : (
+              <>
+                <strong>{organizationName}</strong> assigned you{' '}
+                <strong>{assignmentTitle}</strong>. It is due on {dueDate}.
+              </>
+            )}
+          </Text>
+
+          {message && (
+            <Section style={messageBox}>
+              <Text style={messageText}>{message}</Text>
+            </Section>
+          )}
+
+          <Section style={buttonContainer}>
+            <Button style={isOverdue ? overdueButton : button} href={actionUrl}>
+              {isOverdue ? 'Complete Now' : 'Get Started'}
+            </Button>
+          </Section>
+
+          <Text style={footer}>
+            The NeuroElemental Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export default LearningAssignmentDueEmail
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+}
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+  maxWidth: '560px',
+}
+
+const h1 = {
+  color: '#333',
+  fontSize: '24px',
+  fontWeight: 'bold',
+  margin: '40px 0',
+  padding: '0',
+  textAlign: 'center' as const,
+}
+
+const text = {
+  color: '#333',
+  fontSize: '16px',
+  lineHeight: '26px',
+  margin: '16px 24px',
+}
+
+const messageBox = {
+  backgroundColor: '#f0f7ff',
+  borderRadius: '8px',
+  padding: '16px 20px',
+  margin: '24px',
+}
+
+const messageText = {
+  color: '#333',
+  fontSize: '15px',
+  lineHeight: '24px',
+  fontStyle: 'italic',
+  margin: '0',
+}
+
+const buttonContainer = {
+  textAlign: 'center' as const,
+  margin: '32px 0',
+}
+
+const button = {
+  backgroundColor: '#007bff',
+  borderRadius: '5px',
+  color: '#fff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'inline-block',
+  padding: '12px 32px',
+}
+
+const overdueButton = {
+  ...button,
+  backgroundColor: '#dc2626',
+}
+
+const footer = {
+  color: '#8898aa',
+  fontSize: '14px',
+  lineHeight: '24px',
+  margin: '32px 24px 16px',
+  textAlign: 'center' as const,
+}
@@ -26,3 +26,11 @@ export {
   type ReportType,
   type ReportOptions,
 } from './reports'
+
+// Daily usage metrics
+export {
+  aggregateUsageMetrics,
+  getPreviousDay,
+  type UsageAggregationResult,
+  type UsageMetrics,
+} from './usage-metrics'
@@ -1,55 +1,53 @@
 /**
- * Metrics Aggregation Cron Job
- * Aggregates daily metrics from activity log into organization_usage_metrics
- * Should run daily at midnight via cron
- * Requires x-cron-secret header with CRON_SECRET value
+ * Daily Usage Metrics
+ * Aggregates a day of activity into organization_usage_metrics, run nightly
+ * by the background job queue
  */
 
-import { logger } from '@/lib/logging';
-import { getSupabaseServer } from '@/lib/db'
-import { createCronRoute, successResponse, internalError } from '@/lib/api'
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler'
+import { logger } from '@/lib/logging'
+import { createAdminClient } from '@/lib/supabase/admin'
 import { getCurrentTimestamp } from '@/lib/utils'
 
-export const dynamic = 'force-dynamic'
-
-interface AggregationResult {
-  organizationId: string;
-  metrics: {
-    api_calls: number;
-    active_users: number;
-    assessments_completed: number;
-    courses_accessed: number;
-    events_attended: number;
-  };
+export interface UsageMetrics {
+  api_calls: number
+  active_users: number
+  assessments_completed: number
+  courses_accessed: number
+  events_attended: number
+}
+
+export interface UsageAggregationResult {
+  /** Day aggregated, YYYY-MM-DD */
+  date: string
+  totalOrganizations: number
+  successfulAggregations: number
+  failedAggregations: number
 }
 
 /**
- * GET /api/cron/aggregate-metrics
- * Aggregate daily metrics from activity log (requires x-cron-secret header)
+ * The day before `now`, YYYY-MM-DD in UTC
  */
-export const GET = createCronRoute(async (request, _context) => {
-  const supabase = getSupabaseServer()
-
-  // Get target date from query param or use yesterday (since cron runs after midnight)
-  const { searchParams } = new URL(request.url)
-  const targetDateParam = searchParams.get('date')
-
-  let targetDate: string
-  if (targetDateParam) {
-    targetDate = targetDateParam
-  } else {
-    // Default to yesterday
-    const yesterday = new Date()
-    yesterday.setDate(yesterday.getDate() - 1)
-    targetDate = yesterday.toISOString().split('T')[0]
-  }
+export function getPreviousDay(now: Date = new Date()): string {
+  const yesterday = new Date(now)
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1)
+  return yesterday.toISOString().split('T')[0]
+}
+
+/**
+ * Aggregate one day of activity for every organization
+ *
+ * @param targetDate - Day to aggregate, YYYY-MM-DD; defaults to yesterday
+ */
+export async function aggregateUsageMetrics(targetDate: string = getPreviousDay()): Promise<UsageAggregationResult> {
+  const supabase = createAdminClient()
 
   logger.info('Metrics aggregation started', { date: targetDate })
 
   const startOfDay = `${targetDate}T00:00:00.000Z`
   const endOfDay = `${targetDate}T23:59:59.999Z`
 
-  // Get all organizations
   const { data: organizations, error: orgsError } = await (supabase as any)
     .from('organizations')
     .select('id') as { data: { id: string }[] | null; error: { message: string } | null }
@@ -59,7 +57,6 @@ export const GET = createCronRoute(async (request, _context) => {
     throw internalError(`Failed to fetch organizations: ${orgsError.message}`)
   }
 
-  const results: AggregationResult[] = []
   let successCount = 0
   let errorCount = 0
 
@@ -82,8 +79,7 @@ export const GET = createCronRoute(async (request, _context) => {
         .lte('created_at', endOfDay)
         .not('user_id', 'is', null) as { data: { user_id: string }[] | null }
 
-      const uniqueUsers = new Set(activeUsersData?.map(a => a.user_id) || [])
-      const activeUsers = uniqueUsers.size
+      const activeUsers = new Set(activeUsersData?.map(a => a.user_id) || []).size
 
       // Aggregate assessments completed
       const { count: assessmentsCompleted } = await (supabase as any)
@@ -112,7 +108,7 @@ export const GET = createCronRoute(async (request, _context) => {
         .gte('created_at', startOfDay)
         .lte('created_at', endOfDay) as { count: number | null }
 
-      const metrics = {
+      const metrics: UsageMetrics = {
         api_calls: apiCalls || 0,
         active_users: activeUsers,
         assessments_completed: assessmentsCompleted || 0,
@@ -120,24 +116,15 @@ export const GET = createCronRoute(async (request, _context) => {
         events_attended: eventsAttended || 0,
       }
 
-      // Upsert each metric type to organization_usage_metrics table
-      // The table uses metric_name + period_start/end pattern
-      const metricsToInsert = [
-        { metric_name: 'api_calls', metric_value: metrics.api_calls },
-        { metric_name: 'active_users', metric_value: metrics.active_users },
-        { metric_name: 'assessments_completed', metric_value: metrics.assessments_completed },
-        { metric_name: 'courses_accessed', metric_value: metrics.courses_accessed },
-        { metric_name: 'events_attended', metric_value: metrics.events_attended },
-      ]
-
+      // The table stores one row per metric_name and period
       let orgSuccess = true
-      for (const metric of metricsToInsert) {
+      for (const [metricName, metricValue] of Object.entries(metrics)) {
         const { error: upsertError } = await (supabase as any)
           .from('organization_usage_metrics')
           .upsert({
             organization_id: org.id,
-            metric_name: metric.metric_name,
-            metric_value: metric.metric_value,
+            metric_name: metricName,
+            metric_value: metricValue,
             period_start: startOfDay,
             period_end: endOfDay,
             updated_at: getCurrentTimestamp(),
@@ -146,39 +133,30 @@ export const GET = createCronRoute(async (request, _context) => {
           }) as { error: { message: string } | null }
 
         if (upsertError) {
-          logger.error(`Failed to upsert ${metric.metric_name} for org ${org.id}`, new Error(upsertError.message))
+          logger.error(`Failed to upsert ${metricName} for org ${org.id}`, new Error(upsertError.message))
           orgSuccess = false
         }
       }
 
       if (orgSuccess) {
         successCount++
-        results.push({ organizationId: org.id, metrics })
       } else {
         errorCount++
       }
-    } catch (err) {
+    } catch (err: unknown) {
       logger.error(`Error aggregating metrics for org ${org.id}`, err instanceof Error ? err : new Error(String(err)))
       errorCount++
     }
   }
 
-  logger.info('Metrics aggregation completed', {
+  const result: UsageAggregationResult = {
     date: targetDate,
-    totalOrgs: organizations?.length || 0,
-    successCount,
-    errorCount,
-  })
+    totalOrganizations: organizations?.length || 0,
+    successfulAggregations: successCount,
+    failedAggregations: errorCount,
+  }
 
-  return successResponse({
-    success: errorCount === 0,
-    date: targetDate,
-    timestamp: getCurrentTimestamp(),
-    summary: {
-      totalOrganizations: organizations?.length || 0,
-      successfulAggregations: successCount,
-      failedAggregations: errorCount,
-    },
-  })
-})
+  logger.info('Metrics aggregation completed', { ...result })
 
+  return result
+}
@@ -38,6 +38,12 @@ export const API_SCOPES = {
   // Courses
   COURSES_READ: 'courses:read',
   COURSES_ENROLL: 'courses:enroll',
+
+  // Diagnostics
+  DIAGNOSTICS_READ: 'diagnostics:read',
+
+  // Provisioning
+  SCIM_PROVISION: 'scim:provision',
 } as const
 
 export type ApiScope = typeof API_SCOPES[keyof typeof API_SCOPES]
@@ -282,6 +288,8 @@ export function getScopeDescription(scope: ApiScope): string {
     [API_SCOPES.ANALYTICS_READ]: 'Access analytics and reports',
     [API_SCOPES.COURSES_READ]: 'View course information',
     [API_SCOPES.COURSES_ENROLL]: 'Enroll users in courses',
+    [API_SCOPES.DIAGNOSTICS_READ]: 'View team diagnostics and their results',
+    [API_SCOPES.SCIM_PROVISION]: 'Provision users and groups from your identity provider (SCIM)',
   }
 
   return descriptions[scope] || scope
@@ -311,6 +319,12 @@ export function getScopesByCategory() {
       { scope: API_SCOPES.COURSES_READ, description: getScopeDescription(API_SCOPES.COURSES_READ) },
       { scope: API_SCOPES.COURSES_ENROLL, description: getScopeDescription(API_SCOPES.COURSES_ENROLL) },
     ],
+    'Diagnostics': [
+      { scope: API_SCOPES.DIAGNOSTICS_READ, description: getScopeDescription(API_SCOPES.DIAGNOSTICS_READ) },
+    ],
+    'Provisioning': [
+      { scope: API_SCOPES.SCIM_PROVISION, description: getScopeDescription(API_SCOPES.SCIM_PROVISION) },
+    ],
   }
 }
 
@@ -20,7 +20,6 @@ import * as path from 'path'
  */
 const ALLOWED_GENERIC_ERROR_ROUTES = [
     'app/api/billing/webhook/route.ts',  // Stripe webhooks need Error for retry mechanism
-    'app/api/cron/aggregate-metrics/route.ts',  // Cron jobs need Error for retry mechanism
 ]
 
 /**
@@ -0,0 +1,110 @@
+/**
+ * Request Tracing Tests
+ * Request IDs, log context and latency metrics for route factory routes
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { getRouteTemplate } from '../request-tracing'
+import { createAuthenticatedRoute, createPublicRoute } from '../route-factory'
+import { successResponse } from '../error-handler'
+import { getCurrentUser } from '../../auth/get-current-user'
+import { getRequestContext } from '../../logging/request-context'
+import { getLogTraceContext } from '../../logging/logger'
+import { httpRequestDuration, httpRequestsInFlight } from '../../monitoring/metrics'
+
+vi.mock('../../auth/get-current-user')
+
+const mockGetCurrentUser = getCurrentUser as any
+
+describe('getRouteTemplate', () => {
+  it('puts param names back in place of their values', () => {
+    expect(
+      getRouteTemplate('/api/courses/4f0c2a8e-1b2c-4d3e-8f9a-0b1c2d3e4f5a/lessons/12', {
+        id: '4f0c2a8e-1b2c-4d3e-8f9a-0b1c2d3e4f5a',
+        lessonId: '12',
+      })
+    ).toBe('/api/courses/[id]/lessons/[lessonId]')
+    expect(getRouteTemplate('/api/courses/energy-basics', { id: 'energy-basics' })).toBe('/api/courses/[id]')
+  })
+
+  it('matches encoded segments and catch-all params', () => {
+    expect(getRouteTemplate('/api/tags/caf%C3%A9', { tag: 'café' })).toBe('/api/tags/[tag]')
+    expect(getRouteTemplate('/api/docs/guides/teams/setup', { slug: ['guides', 'teams', 'setup'] })).toBe(
+      '/api/docs/[...slug]'
+    )
+  })
+
+  it('replaces params in path order', () => {
+    expect(getRouteTemplate('/api/x/a/y/a', { first: 'a', second: 'a' })).toBe('/api/x/[first]/y/[second]')
+  })
+
+  it('keeps static routes and drops trailing slashes', () => {
+    expect(getRouteTemplate('/api/admin/jobs/overview/')).toBe('/api/admin/jobs/overview')
+    expect(getRouteTemplate('/')).toBe('/')
+  })
+})
+
+describe('withRequestTracing via the route factory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('uses the incoming request ID in the log context and echoes it', async () => {
+    let seen: ReturnType<typeof getRequestContext>
+    const route = createPublicRoute(async () => {
+      seen = getRequestContext()
+      return successResponse({ ok: true })
+    })
+
+    const request = new NextRequest('http://localhost:3000/api/tracing-test', {
+      headers: { 'x-request-id': 'req-1234abcd' },
+    })
+    const response = await route(request, { params: Promise.resolve({}) } as any)
+
+    expect(response.headers.get('x-request-id')).toBe('req-1234abcd')
+    expect(seen!).toMatchObject({ requestId: 'req-1234abcd', method: 'GET', route: '/api/tracing-test' })
+    expect(getRequestContext()).toBeUndefined()
+  })
+
+  it('replaces malformed request IDs', async () => {
+    const route = createPublicRoute(async () => successResponse({ ok: true }))
+    const request = new NextRequest('http://localhost:3000/api/tracing-test', {
+      headers: { 'x-request-id': 'bad id\n' },
+    })
+
+    const response = await route(request, { params: Promise.resolve({}) } as any)
+
+    expect(response.headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/)
+  })
+
+  it('adds the authenticated user to the log trace context', async () => {
+    mockGetCurrentUser.mockResolvedValue({ id: 'user-123' })
+    let trace: ReturnType<typeof getLogTraceContext>
+    const route = createAuthenticatedRoute(async () => {
+      trace = getLogTraceContext()
+      return successResponse({ ok: true })
+    })
+
+    await route(new NextRequest('http://localhost:3000/api/tracing-user'), { params: Promise.resolve({}) } as any)
+
+    expect(trace!).toMatchObject({ userId: 'user-123' })
+  })
+
+  it('records latency by method, route and status', async () => {
+    mockGetCurrentUser.mockResolvedValue(null)
+    const labels = { method: 'GET', route: '/api/tracing-metrics/[slug]', status: '401' }
+    const before = httpRequestDuration.get(labels)?.count ?? 0
+
+    const route = createAuthenticatedRoute(async () => successResponse({ ok: true }))
+    for (const slug of ['energy-basics', 'team-dynamics']) {
+      await route(new NextRequest(`http://localhost:3000/api/tracing-metrics/${slug}`), {
+        params: Promise.resolve({ slug }),
+      } as any)
+    }
+
+    expect(httpRequestDuration.get(labels)?.count).toBe(before + 2)
+    expect(httpRequestDuration.get({ ...labels, route: '/api/tracing-metrics/energy-basics' })).toBeUndefined()
+    expect(httpRequestsInFlight.get({ method: 'GET', route: '/api/tracing-metrics/[slug]' })).toBe(0)
+  })
+})
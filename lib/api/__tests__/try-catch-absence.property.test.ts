@@ -23,6 +23,7 @@ import * as path from 'path'
 const ALLOWED_TRY_CATCH_ROUTES = [
     'app/api/billing/webhook/route.ts',
     'app/api/stripe/webhook/route.ts',  // Webhook signature validation requires try-catch
+    'app/api/resend/webhook/route.ts',  // Webhook signature validation requires try-catch
     'app/api/dashboard/admin/route.ts',
     'app/api/dashboard/admin/analytics/route.ts',
     'app/api/dashboard/admin/analytics/export/route.ts',
@@ -0,0 +1,223 @@
+/**
+ * Public API (v1) Route Helpers
+ *
+ * Wraps /api/v1 handlers with organization API key authentication, scope
+ * enforcement, rate limiting and usage tracking, and provides the stable
+ * response envelopes the versioned API promises to integrators:
+ *
+ * - Single resource: `{ data }`
+ * - Lists: `{ data: [...], pagination: { next_cursor, has_more, limit } }`
+ * - Errors: the standard ErrorResponse from errorResponse()
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { ApiScope } from '@/lib/api-keys'
+import { incrementOrganizationMetric, trackApiUsage } from '@/lib/analytics/tracking'
+import type { CursorPage, CursorPageOptions } from '@/lib/db/query-helpers'
+import { DEFAULT_CURSOR_LIMIT, MAX_CURSOR_LIMIT } from '@/lib/db/query-helpers'
+import { logger } from '@/lib/logging'
+import { authenticateApiKey, checkApiScope } from '@/lib/middleware/api-auth'
+import { addRateLimitHeaders, withRateLimit } from '@/lib/middleware/rate-limiter'
+import { RouteContext } from '@/lib/types/api'
+import { errorResponse, forbiddenError, unauthorizedError } from './error-handler'
+import { getClientIP, getIntParam, getQueryParam, getUserAgent } from './request-helpers'
+
+/** Version reported in the X-API-Version header */
+export const PUBLIC_API_VERSION = 'v1'
+
+/**
+ * Identity of the API key making a /api/v1 request
+ */
+export interface ApiKeyContext {
+  organizationId: string
+  keyId: string
+  /** User who created the key, if still known */
+  userId: string | null
+  scopes: string[]
+}
+
+/**
+ * Handler function type for /api/v1 routes
+ */
+type ApiKeyHandler<TParams = {}> = (
+  request: NextRequest,
+  context: RouteContext<TParams>,
+  apiKey: ApiKeyContext
+) => Promise<NextResponse>
+
+/**
+ * Record a finished /api/v1 call (non-blocking)
+ */
+function recordApiCall(
+  request: NextRequest,
+  apiKey: ApiKeyContext,
+  response: NextResponse,
+  startedAt: number
+): void {
+  const failed = response.status >= 400
+
+  Promise.all([
+    trackApiUsage({
+      organizationId: apiKey.organizationId,
+      apiKeyId: apiKey.keyId,
+      userId: apiKey.userId,
+      endpoint: request.nextUrl.pathname,
+      method: request.method,
+      statusCode: response.status,
+      responseTimeMs: Date.now() - startedAt,
+      errorMessage: failed ? `HTTP ${response.status}` : null,
+      ipAddress: getClientIP(request) ?? null,
+      userAgent: getUserAgent(request) ?? null,
+    }),
+    incrementOrganizationMetric(apiKey.organizationId, failed ? 'api_errors' : 'api_calls'),
+  ]).catch((error) => {
+    logger.error('Error recording API usage', undefined, { errorMsg: error instanceof Error ? error.message : String(error) })
+  })
+}
+
+/**
+ * Wrap a /api/v1 handler with API key authentication
+ *
+ * Automatically handles:
+ * - API key extraction (Authorization: Bearer or X-API-Key) and validation
+ * - Required scope check for the key
+ * - Organization rate limits, with RateLimit-* headers on every response
+ * - Error wrapping and usage logging via trackApiUsage
+ *
+ * Compose with createPublicRoute so the route still goes through the factory.
+ *
+ * @param scope - Scope the API key must have
+ * @param handler - Route handler that receives the authenticated key context
+ * @returns A public route handler
+ *
+ * @example
+ * ```typescript
+ * export const GET = createPublicRoute(
+ *   withApiKey(API_SCOPES.MEMBERS_READ, async (request, _context, apiKey) => {
+ *     const page = await membershipRepository.getOrganizationMembersPage(
+ *       apiKey.organizationId,
+ *       getCursorParams(request)
+ *     )
+ *     return v1PageResponse(page)
+ *   })
+ * )
+ * ```
+ */
+export function withApiKey<TParams = {}>(
+  scope: ApiScope,
+  handler: ApiKeyHandler<TParams>
+) {
+  return async (
+    request: NextRequest,
+    context: RouteContext<TParams>
+  ): Promise<NextResponse> => {
+    const startedAt = Date.now()
+    const auth = await authenticateApiKey(request)
+
+    if (!auth.authenticated || !auth.organizationId || !auth.keyId) {
+      return errorResponse(unauthorizedError(auth.error || 'Invalid API key'))
+    }
+
+    const apiKey: ApiKeyContext = {
+      organizationId: auth.organizationId,
+      keyId: auth.keyId,
+      userId: auth.userId ?? null,
+      scopes: auth.scopes ?? [],
+    }
+
+    let response: NextResponse
+    const scopeCheck = checkApiScope(auth, scope)
+
+    if (!scopeCheck.authorized) {
+      response = errorResponse(forbiddenError(scopeCheck.error))
+    } else {
+      const rateLimit = await withRateLimit(request, apiKey.organizationId, {
+        apiKeyId: apiKey.keyId,
+        userId: apiKey.userId ?? undefined,
+      })
+
+      if (rateLimit.response) {
+        response = rateLimit.response
+      } else {
+        try {
+          response = await handler(request, context, apiKey)
+        } catch (error: unknown) {
+          response = errorResponse(error)
+        }
+        addRateLimitHeaders(response, rateLimit.result)
+      }
+    }
+
+    response.headers.set('X-API-Version', PUBLIC_API_VERSION)
+    recordApiCall(request, apiKey, response, startedAt)
+
+    return response
+  }
+}
+
+/**
+ * Read cursor pagination parameters (`cursor`, `limit`) from the query string
+ *
+ * @param request - NextRequest object
+ * @returns Cursor options for repository page methods
+ * @throws {ApiError} badRequestError if limit is not an integer in range
+ *
+ * @example
+ * ```typescript
+ * // URL: /api/v1/members?limit=50&cursor=WyIyMDI1LTAx...
+ * const { cursor, limit } = getCursorParams(request)
+ * ```
+ */
+export function getCursorParams(request: NextRequest): CursorPageOptions {
+  return {
+    cursor: getQueryParam(request, 'cursor'),
+    limit: getIntParam(request, 'limit', {
+      defaultValue: DEFAULT_CURSOR_LIMIT,
+      min: 1,
+      max: MAX_CURSOR_LIMIT,
+    }) ?? DEFAULT_CURSOR_LIMIT,
+  }
+}
+
+/**
+ * Create a /api/v1 single-resource response
+ *
+ * @param data - Resource to return
+ * @param status - HTTP status code (default: 200)
+ * @returns NextResponse with `{ data }` body
+ *
+ * @example
+ * ```typescript
+ * return v1Response({ id: org.id, name: org.name })
+ * ```
+ */
+export function v1Response<T>(data: T, status: number = 200): NextResponse {
+  return NextResponse.json({ data }, { status })
+}
+
+/**
+ * Create a /api/v1 list response from a cursor page
+ *
+ * @param page - Page returned by a repository *Page method
+ * @param mapItem - Optional mapper from row to public representation
+ * @returns NextResponse with `{ data, pagination }` body
+ *
+ * @example
+ * ```typescript
+ * return v1PageResponse(page, toPublicMember)
+ * // { data: [...], pagination: { next_cursor: 'Wy...', has_more: true, limit: 25 } }
+ * ```
+ */
+export function v1PageResponse<T, R = T>(
+  page: CursorPage<T>,
+  mapItem?: (item: T) => R
+): NextResponse {
+  return NextResponse.json({
+    data: mapItem ? page.items.map(mapItem) : page.items,
+    pagination: {
+      next_cursor: page.nextCursor,
+      has_more: page.hasMore,
+      limit: page.limit,
+    },
+  })
+}
@@ -15,7 +15,8 @@ export class ApiError extends Error {
     public message: string,
     public status: number = 500,
     public code?: string,
-    public details?: unknown
+    public details?: unknown,
+    public headers?: Record<string, string>
   ) {
     super(message)
     this.name = 'ApiError'
@@ -78,7 +79,7 @@ export function errorResponse(
         details: error.details,
         timestamp: getCurrentTimestamp(),
       },
-      { status: error.status }
+      { status: error.status, headers: error.headers }
     )
   }
 
@@ -284,17 +285,22 @@ export function internalError(message = 'Internal server error'): ApiError {
  * Create a 429 Rate Limit Exceeded error
  * 
  * @param message - Error message (default: 'Rate limit exceeded')
+ * @param headers - Response headers, e.g. `Retry-After` and `RateLimit-*`
  * @returns ApiError with 429 status code
  * 
  * @example
  * ```typescript
- * if (requestCount > limit) {
- *   throw rateLimitError('Too many requests, please try again later')
+ * const result = await rateLimiter.check(`ip:${ip}`, rules)
+ * if (!result.allowed) {
+ *   throw rateLimitError('Too many requests, please try again later', getRateLimitHeaders(result))
  * }
  * ```
  */
-export function rateLimitError(message = 'Rate limit exceeded'): ApiError {
-  return new ApiError(message, 429, 'RATE_LIMIT_EXCEEDED')
+export function rateLimitError(
+  message = 'Rate limit exceeded',
+  headers?: Record<string, string>
+): ApiError {
+  return new ApiError(message, 429, 'RATE_LIMIT_EXCEEDED', undefined, headers)
 }
 
 /**
@@ -24,6 +24,30 @@ export {
     extractParams
 } from './route-factory'
 
+// Request tracing - request IDs, log context and latency metrics for every factory route
+export { getRouteTemplate, withRequestTracing } from './request-tracing'
+
+// Public API (v1) helpers - API key auth, scopes, usage tracking, envelopes
+export {
+    getCursorParams,
+    PUBLIC_API_VERSION,
+    v1PageResponse,
+    v1Response,
+    withApiKey,
+    type ApiKeyContext
+} from './api-key-route'
+
+// SCIM 2.0 helpers - IdP provisioning auth and SCIM responses
+export {
+    getScimListParams,
+    parseScimBody,
+    SCIM_CONTENT_TYPE,
+    scimErrorResponse,
+    scimResponse,
+    withScim,
+    type ScimContext
+} from './scim-route'
+
 // Route utilities (common helpers)
 export * from './route-utils'
 
@@ -0,0 +1,107 @@
+/**
+ * Request Tracing
+ *
+ * Wraps every route built by the route factory: gives the request an ID
+ * (the caller's or the proxy's X-Request-ID, or a new one), makes it the
+ * current request context so log lines carry it, echoes it on the response
+ * and records latency and status in the metrics registry, labelled by the
+ * route template rather than the requested path.
+ */
+
+import { REQUEST_ID_HEADER, resolveRequestId } from '@/lib/logging/request-id';
+import { runWithRequestContext } from '@/lib/logging/request-context';
+import { httpRequestDuration, httpRequestsInFlight } from '@/lib/monitoring/metrics';
+import { RouteContext } from '@/lib/types/api';
+import { NextRequest, NextResponse } from 'next/server';
+
+type RouteHandler<TParams> = (
+  request: NextRequest,
+  context: RouteContext<TParams>
+) => Promise<NextResponse>;
+
+/** Decoded path segment, or the raw one if it isn't valid percent-encoding */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * The route template a request path was matched to, for use as a metric
+ * label: the segments filled by dynamic params are put back as their names,
+ * e.g. /api/courses/energy-basics/lessons/12 with { id: 'energy-basics',
+ * lessonId: '12' } becomes /api/courses/[id]/lessons/[lessonId]. Catch-all
+ * params become [...name]. Labels stay bounded by the number of routes, no
+ * matter which slugs and IDs are requested.
+ *
+ * @param pathname - Request path
+ * @param params - The route's resolved params, in path order
+ * @returns The route template, without a trailing slash
+ */
+export function getRouteTemplate(pathname: string, params: Record<string, string | string[] | undefined> = {}): string {
+  const segments = pathname.split('/');
+  let from = 0;
+
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length === 0) continue;
+
+    const index = segments.findIndex(
+      (segment, i) =>
+        i >= from && values.every((part, offset) => decodeSegment(segments[i + offset] ?? '') === part)
+    );
+    if (index === -1) continue;
+
+    const label = Array.isArray(value) ? `[...${name}]` : `[${name}]`;
+    segments.splice(index, values.length, label);
+    from = index + 1;
+  }
+
+  const template = segments.join('/').replace(/\/+$/, '');
+  return template || '/';
+}
+
+/**
+ * Trace a route handler: request ID, log context and latency metrics
+ *
+ * @param handler - Route handler that already turns errors into responses
+ * @returns The handler run inside a request context
+ *
+ * @example
+ * ```typescript
+ * return withRequestTracing(async (request, context) => {
+ *   // logger calls here include the request ID
+ *   return successResponse(data);
+ * });
+ * ```
+ */
+export function withRequestTracing<TParams = {}>(
+  handler: RouteHandler<TParams>
+): RouteHandler<TParams> {
+  return async (request, context) => {
+    const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
+    const method = request.method;
+    const params = (await context?.params) as Record<string, string | string[] | undefined> | undefined;
+    const route = getRouteTemplate(request.nextUrl.pathname, params);
+
+    const endTimer = httpRequestDuration.startTimer();
+    httpRequestsInFlight.inc({ method, route });
+    let status = 500;
+
+    try {
+      const response = await runWithRequestContext({ requestId, method, route }, () =>
+        handler(request, context)
+      );
+      status = response.status;
+      response.headers.set(REQUEST_ID_HEADER, requestId);
+      return response;
+    } finally {
+      httpRequestsInFlight.dec({ method, route });
+      endTimer({ method, route, status: String(status) });
+    }
+  };
+}
@@ -3,6 +3,7 @@
  *
  * Centralized higher-order functions to eliminate boilerplate in API routes.
  * This implements DRY principles and standardizes error handling across all routes.
+ * Every factory also traces the request (see request-tracing.ts).
  */
 
 import { getCurrentUser } from '@/lib/auth/get-current-user';
@@ -14,6 +15,8 @@ import {
     internalError,
 } from './error-handler';
 import { getCronSecret } from '@/lib/utils/env';
+import { setRequestUserId } from '@/lib/logging/request-context';
+import { withRequestTracing } from './request-tracing';
 
 /**
  * User type returned from authentication
@@ -73,7 +76,7 @@ type OptionalAuthHandler<TParams = {}> = (
 export function createAuthenticatedRoute<TParams = {}>(
   handler: AuthenticatedHandler<TParams>
 ) {
-  return async (
+  return withRequestTracing<TParams>(async (
     request: NextRequest,
     context: RouteContext<TParams>
   ): Promise<NextResponse> => {
@@ -84,11 +87,12 @@ export function createAuthenticatedRoute<TParams = {}>(
         return errorResponse(unauthorizedError());
       }
 
+      setRequestUserId(user.id);
       return await handler(request, context, user);
     } catch (error) {
       return errorResponse(error);
     }
-  };
+  });
 }
 
 /**
@@ -112,7 +116,7 @@ export function createAuthenticatedRoute<TParams = {}>(
 export function createPublicRoute<TParams = {}>(
   handler: PublicHandler<TParams>
 ) {
-  return async (
+  return withRequestTracing<TParams>(async (
     request: NextRequest,
     context: RouteContext<TParams>
   ): Promise<NextResponse> => {
@@ -121,7 +125,7 @@ export function createPublicRoute<TParams = {}>(
     } catch (error) {
       return errorResponse(error);
     }
-  };
+  });
 }
 
 /**
@@ -152,18 +156,21 @@ export function createPublicRoute<TParams = {}>(
 export function createOptionalAuthRoute<TParams = {}>(
   handler: OptionalAuthHandler<TParams>
 ) {
-  return async (
+  return withRequestTracing<TParams>(async (
     request: NextRequest,
     context: RouteContext<TParams>
   ): Promise<NextResponse> => {
     try {
       // Attempt to get user, but don't fail if not authenticated
       const user = await getCurrentUser().catch(() => null);
+      if (user) {
+        setRequestUserId(user.id);
+      }
       return await handler(request, context, user);
     } catch (error) {
       return errorResponse(error);
     }
-  };
+  });
 }
 
 /**
@@ -192,7 +199,7 @@ export function createAdminRoute<TParams = {}>(
     admin: { userId: string; user: AuthenticatedUser }
   ) => Promise<NextResponse>
 ) {
-  return async (
+  return withRequestTracing<TParams>(async (
     request: NextRequest,
     context: RouteContext<TParams>
   ): Promise<NextResponse> => {
@@ -204,11 +211,12 @@ export function createAdminRoute<TParams = {}>(
         return errorResponse(auth.error);
       }
 
+      setRequestUserId(auth.userId!);
       return await handler(request, context, { userId: auth.userId!, user: auth.user! });
     } catch (error) {
       return errorResponse(error);
     }
-  };
+  });
 }
 
 /**
@@ -233,7 +241,7 @@ export function createAdminRoute<TParams = {}>(
 export function createCronRoute<TParams = {}>(
   handler: PublicHandler<TParams>
 ) {
-  return async (
+  return withRequestTracing<TParams>(async (
     request: NextRequest,
     context: RouteContext<TParams>
   ): Promise<NextResponse> => {
@@ -257,7 +265,7 @@ export function createCronRoute<TParams = {}>(
     } catch (error) {
       return errorResponse(error)
     }
-  }
+  })
 }
 
 /**
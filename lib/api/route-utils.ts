@@ -252,35 +252,6 @@ export async function createOrUpdate<T = Record<string, unknown>>(
   }
 }
 
-/**
- * Create a notification for a user
- *
- * @param userId - ID of the user to notify
- * @param title - Notification title
- * @param message - Notification message
- * @param type - Notification type
- * @param actionUrl - Optional URL for the notification action
- */
-export async function createNotification(
-  userId: string,
-  title: string,
-  message: string,
-  type: 'success' | 'info' | 'warning' | 'error' = 'info',
-  actionUrl?: string
-): Promise<void> {
-  const supabase = getSupabaseServer();
-
-  await (supabase as any)
-    .from('notifications')
-    .insert({
-      user_id: userId,
-      title,
-      message,
-      type,
-      action_url: actionUrl,
-    });
-}
-
 /** Course data from database */
 interface Course {
   id: string;
@@ -331,6 +302,7 @@ export async function requireOrganizationAccess(
     .select('role')
     .eq('organization_id', organizationId)
     .eq('user_id', userId)
+    .is('deactivated_at', null)
     .single();
 
   if (error || !membership) {
@@ -0,0 +1,200 @@
+/**
+ * SCIM 2.0 Route Helpers
+ *
+ * Wraps /api/scim/v2 handlers with organization API key authentication (the
+ * IdP's bearer token is an API key with the `scim:provision` scope) and
+ * converts errors into SCIM error responses (RFC 7644 section 3.12).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { API_SCOPES } from '@/lib/api-keys'
+import { logger } from '@/lib/logging'
+import { getSSOProvider, type SSOProvider } from '@/lib/sso/manage'
+import { SCIM_MAX_RESULTS, SCIM_SCHEMAS, type ScimListOptions } from '@/lib/sso/scim'
+import { RouteContext } from '@/lib/types/api'
+import { withApiKey, type ApiKeyContext } from './api-key-route'
+import { ApiError, badRequestError, forbiddenError } from './error-handler'
+import { getIntParam, getQueryParam } from './request-helpers'
+
+/** Media type for SCIM request and response bodies */
+export const SCIM_CONTENT_TYPE = 'application/scim+json'
+
+/** Default page size for SCIM list requests */
+const DEFAULT_SCIM_COUNT = 100
+
+/**
+ * Identity of the IdP making a SCIM request
+ */
+export interface ScimContext extends ApiKeyContext {
+  /** Active SSO provider users are provisioned through */
+  provider: SSOProvider
+}
+
+/**
+ * Handler function type for SCIM routes
+ */
+type ScimHandler<TParams = {}> = (
+  request: NextRequest,
+  context: RouteContext<TParams>,
+  scim: ScimContext
+) => Promise<NextResponse>
+
+/**
+ * Create a SCIM response
+ *
+ * @param body - SCIM resource or message
+ * @param status - HTTP status code (default: 200)
+ * @returns NextResponse with the SCIM media type
+ *
+ * @example
+ * ```typescript
+ * return scimResponse(user, 201)
+ * ```
+ */
+export function scimResponse(body: unknown, status: number = 200): NextResponse {
+  if (status === 204) {
+    return new NextResponse(null, { status })
+  }
+
+  return NextResponse.json(body, {
+    status,
+    headers: { 'Content-Type': SCIM_CONTENT_TYPE },
+  })
+}
+
+/**
+ * Convert an error into a SCIM error response
+ *
+ * ApiErrors keep their status; a `scimType` in the error details is passed
+ * through (e.g. badRequestError('...', { scimType: 'invalidFilter' })).
+ * Unexpected errors are logged and returned as 500.
+ *
+ * @param error - Error thrown by a SCIM handler
+ * @returns NextResponse with a SCIM Error body
+ *
+ * @example
+ * ```typescript
+ * return scimErrorResponse(notFoundError('User'))
+ * // 404 { schemas: [...Error], status: '404', detail: 'User not found' }
+ * ```
+ */
+export function scimErrorResponse(error: unknown): NextResponse {
+  const status = error instanceof ApiError ? error.status : 500
+
+  if (!(error instanceof ApiError)) {
+    logger.error('SCIM request failed', error instanceof Error ? error : undefined)
+  }
+
+  const details = error instanceof ApiError ? error.details : undefined
+  const scimType =
+    typeof details === 'object' && details !== null && 'scimType' in details
+      ? String(details.scimType)
+      : undefined
+
+  return scimResponse(
+    {
+      schemas: [SCIM_SCHEMAS.ERROR],
+      status: String(status),
+      ...(scimType && { scimType }),
+      detail: error instanceof ApiError ? error.message : 'Internal server error',
+    },
+    status
+  )
+}
+
+/**
+ * Wrap a SCIM handler with API key authentication
+ *
+ * Automatically handles:
+ * - API key validation, `scim:provision` scope, rate limits and usage
+ *   tracking (via withApiKey)
+ * - Requiring an active SSO provider for the organization
+ * - SCIM error responses for anything the handler throws
+ *
+ * Compose with createPublicRoute so the route still goes through the factory.
+ *
+ * @param handler - Route handler that receives the SCIM context
+ * @returns A public route handler
+ *
+ * @example
+ * ```typescript
+ * export const GET = createPublicRoute(
+ *   withScim(async (request, _context, scim) => {
+ *     return scimResponse(await listScimUsers(scim.organizationId, getScimListParams(request)))
+ *   })
+ * )
+ * ```
+ */
+export function withScim<TParams = {}>(handler: ScimHandler<TParams>) {
+  return withApiKey<TParams>(API_SCOPES.SCIM_PROVISION, async (request, context, apiKey) => {
+    try {
+      const provider = await getSSOProvider(apiKey.organizationId)
+
+      if (!provider || !provider.is_active) {
+        throw forbiddenError('SCIM provisioning requires an active SSO provider')
+      }
+
+      return await handler(request, context, { ...apiKey, provider })
+    } catch (error: unknown) {
+      return scimErrorResponse(error)
+    }
+  })
+}
+
+/**
+ * Parse and validate a SCIM request body
+ *
+ * @param request - NextRequest object
+ * @param schema - Zod schema for the body
+ * @returns Validated body
+ * @throws {ApiError} 400 with scimType invalidSyntax (bad JSON) or invalidValue (schema mismatch)
+ *
+ * @example
+ * ```typescript
+ * const input = await parseScimBody(request, scimUserSchema)
+ * ```
+ */
+export async function parseScimBody<T>(request: NextRequest, schema: z.ZodSchema<T>): Promise<T> {
+  let body: unknown
+
+  try {
+    body = await request.json()
+  } catch {
+    throw badRequestError('Request body must be valid JSON', { scimType: 'invalidSyntax' })
+  }
+
+  const result = schema.safeParse(body)
+
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw badRequestError(
+      issue ? `${issue.path.join('.') || 'body'}: ${issue.message}` : 'Invalid request body',
+      { scimType: 'invalidValue' }
+    )
+  }
+
+  return result.data
+}
+
+/**
+ * Read SCIM list parameters (`filter`, `startIndex`, `count`) from the query string
+ *
+ * @param request - NextRequest object
+ * @returns List options for listScimUsers / listScimGroups
+ *
+ * @example
+ * ```typescript
+ * // URL: /api/scim/v2/Users?filter=userName eq "jane@acme.com"&startIndex=1&count=50
+ * const options = getScimListParams(request)
+ * ```
+ */
+export function getScimListParams(request: NextRequest): ScimListOptions {
+  return {
+    filter: getQueryParam(request, 'filter'),
+    startIndex: getIntParam(request, 'startIndex', { defaultValue: 1, min: 1 }) ?? 1,
+    count:
+      getIntParam(request, 'count', { defaultValue: DEFAULT_SCIM_COUNT, min: 0, max: SCIM_MAX_RESULTS }) ??
+      DEFAULT_SCIM_COUNT,
+  }
+}
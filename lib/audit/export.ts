@@ -3,9 +3,18 @@
  * Export activity logs for compliance and data portability
  */
 
+// Direct import to avoid circular dependency with @/lib/api barrel
+import {
+  badRequestError,
+  internalError,
+  notFoundError,
+} from "@/lib/api/error-handler";
 import { getSupabaseServer } from "@/lib/db/supabase-server";
 import { logger } from "@/lib/logging/logger";
 
+/** Days a generated export file stays downloadable */
+const EXPORT_RETENTION_DAYS = 30;
+
 export interface AuditExportJob {
   id: string;
   organization_id: string;
@@ -685,3 +694,134 @@ export async function markScheduleExecuted(
     return { success: false, error: message };
   }
 }
+
+/**
+ * Generate the file for a pending export job and mark it completed, or
+ * failed if generation throws
+ *
+ * @param organizationId - Only process the job if it belongs to this organization
+ * @returns Number of records exported
+ */
+export async function processAuditExportJob(
+  jobId: string,
+  organizationId?: string
+): Promise<{ records: number; file_size_bytes: number }> {
+  const job = await getAuditExportJob(jobId);
+
+  if (!job || (organizationId && job.organization_id !== organizationId)) {
+    throw notFoundError("Export job");
+  }
+  if (job.status !== "pending") {
+    throw badRequestError(`Job is not pending (status: ${job.status})`);
+  }
+
+  await updateAuditExportJobStatus(jobId, "processing");
+
+  try {
+    const records = await getAuditLogRecords(job.organization_id, {
+      date_from: job.date_from,
+      date_to: job.date_to,
+      event_types: job.event_types || undefined,
+      user_ids: job.user_ids || undefined,
+      entity_types: job.entity_types || undefined,
+    });
+
+    // XLSX exports as CSV for now
+    const fileContent =
+      job.export_format === "json"
+        ? generateAuditJSON(records)
+        : generateAuditCSV(records);
+    const fileSizeBytes = Buffer.byteLength(fileContent, "utf-8");
+
+    // Stored in the database for now; would move to storage with a URL
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + EXPORT_RETENTION_DAYS);
+
+    await updateAuditExportJobStatus(jobId, "completed", {
+      total_records: records.length,
+      file_size_bytes: fileSizeBytes,
+      file_path: JSON.stringify(fileContent),
+      expires_at: expiresAt.toISOString(),
+    });
+
+    return { records: records.length, file_size_bytes: fileSizeBytes };
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown error during processing";
+    logger.error(
+      "Error processing export job",
+      error instanceof Error ? error : undefined,
+      { jobId }
+    );
+    await updateAuditExportJobStatus(jobId, "failed", {
+      error_message: message,
+    });
+    throw internalError("Failed to process export job");
+  }
+}
+
+/**
+ * Pending export job IDs, oldest first
+ */
+export async function getPendingAuditExportJobIds(): Promise<string[]> {
+  const supabase = getSupabaseServer();
+
+  const { data, error } = await (supabase as any)
+    .from("audit_export_jobs")
+    .select("id")
+    .eq("status", "pending")
+    .order("created_at", { ascending: true }) as {
+    data: Array<{ id: string }> | null;
+    error: Error | null;
+  };
+
+  if (error) {
+    logger.error("Error fetching pending audit export jobs", error);
+    throw internalError("Failed to fetch pending export jobs");
+  }
+
+  return (data ?? []).map((job) => job.id);
+}
+
+/**
+ * Create export jobs for every schedule that is due, covering each
+ * schedule's lookback window
+ *
+ * @returns IDs of the jobs created
+ */
+export async function runDueExportSchedules(
+  now: Date = new Date()
+): Promise<string[]> {
+  const jobIds: string[] = [];
+
+  for (const schedule of await getDueExportSchedules()) {
+    const dateFrom = new Date(now);
+    dateFrom.setDate(dateFrom.getDate() - schedule.lookback_days);
+
+    const { success, job, error } = await createAuditExportJob(
+      schedule.organization_id,
+      schedule.created_by,
+      {
+        export_format: schedule.export_format,
+        date_from: dateFrom.toISOString(),
+        date_to: now.toISOString(),
+        event_types: schedule.event_types,
+        user_ids: schedule.user_ids,
+        entity_types: schedule.entity_types,
+      }
+    );
+
+    if (!success || !job) {
+      logger.error("Error running export schedule", undefined, {
+        scheduleId: schedule.id,
+        error,
+      });
+      continue;
+    }
+
+    jobIds.push(job.id);
+    await markScheduleExecuted(schedule.id);
+  }
+
+  return jobIds;
+}
@@ -0,0 +1,113 @@
+/**
+ * Low Credit Alerts
+ * Emails organization owners and admins when a credit balance falls to its
+ * warning threshold, at most once per cooldown period
+ */
+
+import { CREDIT_THRESHOLDS, LOW_CREDIT_WARNING_COOLDOWN_DAYS } from '@/lib/api/constants'
+import { sendLowCreditsWarning } from '@/lib/email'
+import { logger } from '@/lib/logging'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getCurrentTimestamp } from '@/lib/utils'
+
+/** Organization admin with user profile */
+interface OrgAdmin {
+  user_id: string
+  role: string
+  user: { email: string; full_name: string } | null
+}
+
+export interface LowCreditCheckResult {
+  creditBalancesChecked: number
+  warnings: Array<{
+    organization: string
+    creditType: string
+    balance: number
+  }>
+}
+
+/**
+ * Check every credit balance and warn organizations that are running low
+ */
+export async function checkLowCredits(): Promise<LowCreditCheckResult> {
+  const supabase = createAdminClient()
+  const warnings: LowCreditCheckResult['warnings'] = []
+
+  const { data: creditBalances } = await (supabase as any)
+    .from('credit_balances')
+    .select('id, organization_id, credit_type, balance')
+    .gt('balance', 0) as { data: Array<{ id: string; organization_id: string; credit_type: string; balance: number }> | null }
+
+  for (const cb of creditBalances ?? []) {
+    const creditType = cb.credit_type || 'default'
+    const threshold = CREDIT_THRESHOLDS[creditType] || CREDIT_THRESHOLDS.default || 10
+    const balance = cb.balance
+
+    if (!cb.organization_id || balance > threshold) continue
+
+    const { data: org } = await (supabase as any)
+      .from('organizations')
+      .select('id, name')
+      .eq('id', cb.organization_id)
+      .single() as { data: { id: string; name: string } | null }
+
+    if (!org) continue
+
+    // Skip if a warning was already sent recently
+    const cooldownDate = new Date()
+    cooldownDate.setDate(cooldownDate.getDate() - LOW_CREDIT_WARNING_COOLDOWN_DAYS)
+
+    const { data: recentWarnings } = await (supabase as any)
+      .from('credit_warnings')
+      .select('id')
+      .eq('organization_id', org.id)
+      .eq('warning_type', `low_credits_${creditType}`)
+      .gte('notified_at', cooldownDate.toISOString())
+      .limit(1) as { data: Array<{ id: string }> | null }
+
+    if (recentWarnings && recentWarnings.length > 0) continue
+
+    const { data: admins } = await (supabase as any)
+      .from('organization_members')
+      .select(`
+        user_id,
+        role,
+        user:profiles(email, full_name)
+      `)
+      .eq('organization_id', org.id)
+      .in('role', ['owner', 'admin'])
+      .is('deactivated_at', null) as { data: OrgAdmin[] | null }
+
+    if (!admins || admins.length === 0) continue
+
+    for (const admin of admins) {
+      if (!admin.user?.email) continue
+
+      await sendLowCreditsWarning({
+        to: admin.user.email,
+        organizationName: org.name,
+        organizationId: org.id,
+        creditType,
+        currentBalance: balance,
+        threshold,
+      }).catch((emailError: unknown) => {
+        logger.error('Error sending warning email', emailError instanceof Error ? emailError : undefined, { error: String(emailError) })
+      })
+
+      warnings.push({ organization: org.name, creditType, balance })
+    }
+
+    const { error: insertError } = await (supabase as any).from('credit_warnings').insert({
+      organization_id: org.id,
+      warning_type: `low_credits_${creditType}`,
+      current_balance: balance,
+      threshold,
+      notified_at: getCurrentTimestamp(),
+    })
+    if (insertError) {
+      logger.error('Error recording warning', undefined, { error: insertError.message })
+    }
+  }
+
+  return { creditBalancesChecked: creditBalances?.length ?? 0, warnings }
+}
@@ -35,3 +35,6 @@ export {
   type Invoice,
   type PaymentMethod,
 } from './subscriptions'
+
+// Low credit alerts
+export { checkLowCredits, type LowCreditCheckResult } from './credit-alerts'
@@ -879,6 +879,7 @@ export async function hasActiveSubscription(
  */
 /** Subscription limits */
 interface SubscriptionLimits {
+  tier: string
   requests_per_minute: number
   requests_per_hour: number
   requests_per_day: number
@@ -914,6 +915,7 @@ export async function getSubscriptionLimits(organizationId: string): Promise<{
         return {
           success: true,
           limits: {
+            tier: freePlan.tier,
             requests_per_minute: freePlan.requests_per_minute,
             requests_per_hour: freePlan.requests_per_hour,
             requests_per_day: freePlan.requests_per_day,
@@ -933,6 +935,7 @@ export async function getSubscriptionLimits(organizationId: string): Promise<{
     return {
       success: true,
       limits: {
+        tier: plan.tier,
         requests_per_minute: plan.requests_per_minute,
         requests_per_hour: plan.requests_per_hour,
         requests_per_day: plan.requests_per_day,
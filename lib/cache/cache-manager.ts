@@ -361,6 +361,18 @@ class CacheManager {
     }
   }
 
+  /**
+   * Get the shared Redis connection
+   *
+   * For features that need Redis commands beyond get/set, such as the
+   * atomic scripts used by distributed rate limiting
+   *
+   * @returns The Redis client, or null if Redis is not configured or unavailable
+   */
+  getRedisClient(): Redis | null {
+    return this.isRedisAvailable && this.redis ? this.redis : null;
+  }
+
   /**
    * Get cache statistics
    * 
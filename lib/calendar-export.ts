@@ -4,15 +4,30 @@
  */
 
 import { format } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
 
-interface CalendarEvent {
+interface CalendarAttendee {
+  name?: string | null;
+  email: string;
+}
+
+export interface CalendarEvent {
   title: string;
   description: string;
   startDate: Date;
   endDate: Date;
   location?: string;
   url?: string;
+  /** IANA timezone; times are written as local times with a TZID */
   timezone?: string;
+  /** Stable UID so later updates and cancellations replace the same event */
+  uid?: string;
+  /** Incremented on every update to the event */
+  sequence?: number;
+  /** PUBLISH (default) for downloads, REQUEST for invitations, CANCEL to remove */
+  method?: 'PUBLISH' | 'REQUEST' | 'CANCEL';
+  organizer?: CalendarAttendee;
+  attendees?: CalendarAttendee[];
 }
 
 /**
@@ -22,6 +37,24 @@ function formatICalDate(date: Date): string {
   return format(date, "yyyyMMdd'T'HHmmss");
 }
 
+/**
+ * Format a DTSTART/DTEND property, in the event's timezone when it has one
+ */
+function formatICalDateProperty(name: string, date: Date, timezone?: string): string {
+  if (!timezone) {
+    return `${name}:${formatICalDate(date)}`;
+  }
+  return `${name};TZID=${timezone}:${formatInTimeZone(date, timezone, "yyyyMMdd'T'HHmmss")}`;
+}
+
+/**
+ * Format an ORGANIZER/ATTENDEE property
+ */
+function formatICalPerson(name: string, person: CalendarAttendee): string {
+  const cn = person.name ? `;CN=${escapeICalText(person.name)}` : '';
+  return `${name}${cn}:mailto:${person.email}`;
+}
+
 /**
  * Format a date for Google Calendar URL (YYYYMMDDTHHMMSSZ format)
  */
@@ -44,24 +77,41 @@ function escapeICalText(text: string): string {
  * Generate an iCal (.ics) file content
  */
 export function generateICalEvent(event: CalendarEvent): string {
-  const uid = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}@neuroelemental.com`;
+  const uid = event.uid || `${Date.now()}-${Math.random().toString(36).substring(2, 9)}@neuroelemental.com`;
   const now = formatICalDate(new Date());
+  const method = event.method || 'PUBLISH';
 
   const lines = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
     'PRODID:-//NeuroElemental//Event Calendar//EN',
     'CALSCALE:GREGORIAN',
-    'METHOD:PUBLISH',
+    `METHOD:${method}`,
     'BEGIN:VEVENT',
     `UID:${uid}`,
     `DTSTAMP:${now}`,
-    `DTSTART:${formatICalDate(event.startDate)}`,
-    `DTEND:${formatICalDate(event.endDate)}`,
+    formatICalDateProperty('DTSTART', event.startDate, event.timezone),
+    formatICalDateProperty('DTEND', event.endDate, event.timezone),
     `SUMMARY:${escapeICalText(event.title)}`,
     `DESCRIPTION:${escapeICalText(event.description)}`,
   ];
 
+  if (event.sequence !== undefined) {
+    lines.push(`SEQUENCE:${event.sequence}`);
+  }
+
+  if (method === 'CANCEL') {
+    lines.push('STATUS:CANCELLED');
+  }
+
+  if (event.organizer) {
+    lines.push(formatICalPerson('ORGANIZER', event.organizer));
+  }
+
+  event.attendees?.forEach((attendee) => {
+    lines.push(formatICalPerson('ATTENDEE;ROLE=REQ-PARTICIPANT', attendee));
+  });
+
   if (event.location) {
     lines.push(`LOCATION:${escapeICalText(event.location)}`);
   }
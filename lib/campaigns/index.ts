@@ -0,0 +1,35 @@
+/**
+ * Campaigns Barrel Export
+ * Admin-defined lifecycle email campaigns and the runner that sends them
+ */
+
+// Rules (client-safe)
+export {
+  CAMPAIGN_EMAIL_TYPE,
+  CAMPAIGN_EXIT_CONDITIONS,
+  CAMPAIGN_STATUSES,
+  CAMPAIGN_TRIGGERS,
+  DEFAULT_INACTIVE_DAYS,
+  findExitReason,
+  getCampaignEmailData,
+  getStepSendAt,
+  getTopElement,
+  getTriggerWindow,
+  matchesSegment,
+  matchesTrigger,
+  normalizeSegment,
+  normalizeTriggerConfig,
+  summarizeStepStats,
+  type CampaignAudienceMember,
+  type CampaignEnrollmentStatus,
+  type CampaignExitCondition,
+  type CampaignSegment,
+  type CampaignStatus,
+  type CampaignStepStats,
+  type CampaignTriggerConfig,
+  type CampaignTriggerEvent,
+  type CampaignTriggerType,
+} from './rules';
+
+// Runner
+export { runEmailCampaigns, type CampaignRunResult } from './runner';
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_INACTIVE_DAYS,
+  findExitReason,
+  getCampaignEmailData,
+  getStepSendAt,
+  getTopElement,
+  getTriggerWindow,
+  matchesSegment,
+  matchesTrigger,
+  normalizeSegment,
+  normalizeTriggerConfig,
+  summarizeStepStats,
+  type CampaignAudienceMember,
+} from './rules';
+
+const member: CampaignAudienceMember = {
+  userId: 'user-1',
+  email: 'ada@example.com',
+  name: 'Ada Lovelace',
+  role: 'student',
+  element: 'electric',
+  organizationIds: ['org-1'],
+};
+
+// ============================================================================
+// Normalizing
+// ============================================================================
+
+describe('normalizeTriggerConfig', () => {
+  it('keeps only the options that apply to the trigger', () => {
+    expect(normalizeTriggerConfig('signup', { element: 'fiery' })).toEqual({});
+    expect(normalizeTriggerConfig('assessment_completed', { element: 'fiery', inactiveDays: 3 })).toEqual({
+      element: 'fiery',
+    });
+    expect(normalizeTriggerConfig('assessment_completed', { element: 'plasma' })).toEqual({ element: null });
+  });
+
+  it('defaults the inactivity threshold', () => {
+    expect(normalizeTriggerConfig('course_inactive', { inactiveDays: 14, courseId: 'c-1' })).toEqual({
+      inactiveDays: 14,
+      courseId: 'c-1',
+    });
+    expect(normalizeTriggerConfig('course_inactive', { inactiveDays: -2 })).toEqual({
+      inactiveDays: DEFAULT_INACTIVE_DAYS,
+      courseId: null,
+    });
+    expect(normalizeTriggerConfig('course_inactive', null).inactiveDays).toBe(DEFAULT_INACTIVE_DAYS);
+  });
+});
+
+describe('normalizeSegment', () => {
+  it('drops unknown elements and non-string values', () => {
+    expect(normalizeSegment({ elements: ['airy', 'plasma'], roles: ['student', 3, ''], organizationIds: 'org-1' })).toEqual({
+      elements: ['airy'],
+      roles: ['student'],
+      organizationIds: [],
+    });
+  });
+});
+
+// ============================================================================
+// Triggers and segments
+// ============================================================================
+
+describe('getTopElement', () => {
+  it('reads plain and percentage scores', () => {
+    expect(getTopElement({ electric: 40, fiery: 72, aquatic: 55 })).toBe('fiery');
+    expect(getTopElement({ airy: { percentage: 80 }, metallic: { percentage: 81 } })).toBe('metallic');
+  });
+
+  it('returns null when there is nothing to rank', () => {
+    expect(getTopElement(null)).toBeNull();
+    expect(getTopElement({ unknown: 99 })).toBeNull();
+  });
+});
+
+describe('getTriggerWindow', () => {
+  const since = new Date('2026-10-19T09:00:00Z');
+  const until = new Date('2026-10-19T09:15:00Z');
+
+  it('uses the sweep period for event triggers', () => {
+    expect(getTriggerWindow('signup', {}, since, until)).toEqual({ from: since, to: until });
+  });
+
+  it('shifts the sweep back by the inactivity threshold', () => {
+    expect(getTriggerWindow('course_inactive', { inactiveDays: 3 }, since, until)).toEqual({
+      from: new Date('2026-10-16T09:00:00Z'),
+      to: new Date('2026-10-16T09:15:00Z'),
+    });
+  });
+});
+
+describe('matchesTrigger', () => {
+  it('filters by element and course when set', () => {
+    const event = { userId: 'user-1', occurredAt: '2026-10-19T09:00:00Z', element: 'aquatic' as const, courseId: 'c-1' };
+    expect(matchesTrigger({}, event)).toBe(true);
+    expect(matchesTrigger({ element: 'aquatic' }, event)).toBe(true);
+    expect(matchesTrigger({ element: 'fiery' }, event)).toBe(false);
+    expect(matchesTrigger({ courseId: 'c-2' }, event)).toBe(false);
+  });
+});
+
+describe('matchesSegment', () => {
+  it('matches everyone when no filter is set', () => {
+    expect(matchesSegment({}, member)).toBe(true);
+    expect(matchesSegment({ elements: [], roles: [] }, member)).toBe(true);
+  });
+
+  it('requires every filter that is set to match', () => {
+    expect(matchesSegment({ elements: ['electric', 'airy'], roles: ['student'] }, member)).toBe(true);
+    expect(matchesSegment({ elements: ['electric'], roles: ['instructor'] }, member)).toBe(false);
+    expect(matchesSegment({ organizationIds: ['org-2'] }, member)).toBe(false);
+    expect(matchesSegment({ elements: ['electric'] }, { ...member, element: null })).toBe(false);
+  });
+});
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+describe('getStepSendAt', () => {
+  it('adds the delay in hours', () => {
+    expect(getStepSendAt(48, new Date('2026-10-19T09:00:00Z'))).toEqual(new Date('2026-10-21T09:00:00Z'));
+    expect(getStepSendAt(0, new Date('2026-10-19T09:00:00Z'))).toEqual(new Date('2026-10-19T09:00:00Z'));
+  });
+});
+
+describe('findExitReason', () => {
+  it('returns the first configured condition that was met', () => {
+    const met = new Set(['purchased', 'course_enrolled'] as const);
+    expect(findExitReason(['course_completed', 'course_enrolled', 'purchased'], met)).toBe('course_enrolled');
+    expect(findExitReason(['course_completed'], met)).toBeNull();
+    expect(findExitReason([], met)).toBeNull();
+  });
+});
+
+describe('getCampaignEmailData', () => {
+  it('exposes the member, their element and the trigger course', () => {
+    expect(getCampaignEmailData(member, { courseId: 'c-1', courseTitle: 'Energy Basics' })).toMatchObject({
+      name: 'Ada Lovelace',
+      first_name: 'Ada',
+      email: 'ada@example.com',
+      element: 'electric',
+      element_name: 'Electric',
+      course_title: 'Energy Basics',
+    });
+  });
+});
+
+describe('summarizeStepStats', () => {
+  it('counts emails per step and status', () => {
+    const stats = summarizeStepStats(
+      ['s-1', 's-2'],
+      [
+        { campaign_step_id: 's-1', status: 'sent' },
+        { campaign_step_id: 's-1', status: 'sent' },
+        { campaign_step_id: 's-1', status: 'cancelled' },
+        { campaign_step_id: 's-2', status: 'processing' },
+        { campaign_step_id: 's-3', status: 'sent' },
+        { campaign_step_id: null, status: 'failed' },
+      ]
+    );
+    expect(stats['s-1']).toEqual({ pending: 0, sent: 2, failed: 0, cancelled: 1, total: 3 });
+    expect(stats['s-2']).toEqual({ pending: 1, sent: 0, failed: 0, cancelled: 0, total: 1 });
+  });
+});
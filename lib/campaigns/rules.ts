@@ -0,0 +1,307 @@
+/**
+ * Email Campaign Rules
+ * Triggers, audience segments, exit conditions and step timing for
+ * admin-defined lifecycle campaigns. Safe to import on the client.
+ */
+
+import { ELEMENT_DEFINITIONS, type ElementType } from '@/lib/content/assessment-questions';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CampaignStatus = 'draft' | 'active' | 'paused' | 'archived';
+
+export type CampaignTriggerType = 'signup' | 'assessment_completed' | 'course_inactive';
+
+export interface CampaignTriggerConfig {
+  /** assessment_completed: only users whose top element is this one */
+  element?: ElementType | null;
+  /** course_inactive: days since the course was last opened */
+  inactiveDays?: number;
+  /** course_inactive: one course only; any course when unset */
+  courseId?: string | null;
+}
+
+/** Audience filter; an empty or missing list matches everyone */
+export interface CampaignSegment {
+  elements?: ElementType[];
+  roles?: string[];
+  organizationIds?: string[];
+}
+
+export type CampaignExitCondition =
+  | 'assessment_completed'
+  | 'course_enrolled'
+  | 'course_resumed'
+  | 'course_completed'
+  | 'purchased';
+
+export type CampaignEnrollmentStatus = 'active' | 'completed' | 'exited';
+
+/** What segments are matched against */
+export interface CampaignAudienceMember {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: string;
+  /** Top element of the latest assessment */
+  element: ElementType | null;
+  organizationIds: string[];
+}
+
+/** What a trigger fired for, kept on the enrollment for step emails */
+export interface CampaignTriggerEvent {
+  userId: string;
+  occurredAt: string;
+  element?: ElementType | null;
+  courseId?: string | null;
+  courseTitle?: string | null;
+}
+
+export interface CampaignStepStats {
+  pending: number;
+  sent: number;
+  failed: number;
+  cancelled: number;
+  total: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** scheduled_emails.type of step emails */
+export const CAMPAIGN_EMAIL_TYPE = 'campaign';
+
+export const DEFAULT_INACTIVE_DAYS = 7;
+
+export const CAMPAIGN_STATUSES: Record<CampaignStatus, { label: string; description: string }> = {
+  draft: { label: 'Draft', description: 'Not running; nobody is enrolled' },
+  active: { label: 'Active', description: 'Enrolling new users and sending steps' },
+  paused: { label: 'Paused', description: 'No new enrollments; pending steps wait until resumed' },
+  archived: { label: 'Archived', description: 'Stopped; pending steps are cancelled' },
+};
+
+export const CAMPAIGN_TRIGGERS: Record<CampaignTriggerType, { label: string; description: string }> = {
+  signup: {
+    label: 'Signed up',
+    description: 'A new account is created',
+  },
+  assessment_completed: {
+    label: 'Completed assessment',
+    description: 'An assessment is completed, optionally with a given top element',
+  },
+  course_inactive: {
+    label: 'Inactive in a course',
+    description: 'An enrolled, unfinished course has not been opened for a number of days',
+  },
+};
+
+export const CAMPAIGN_EXIT_CONDITIONS: Record<CampaignExitCondition, { label: string; description: string }> = {
+  assessment_completed: {
+    label: 'Completes an assessment',
+    description: 'An assessment is completed after enrolling in the campaign',
+  },
+  course_enrolled: {
+    label: 'Enrolls in a course',
+    description: 'Any course enrollment after enrolling in the campaign',
+  },
+  course_resumed: {
+    label: 'Returns to the course',
+    description: 'The course (or any course) is opened again',
+  },
+  course_completed: {
+    label: 'Completes a course',
+    description: 'The course (or any course) is completed',
+  },
+  purchased: {
+    label: 'Makes a purchase',
+    description: 'A completed order after enrolling in the campaign',
+  },
+};
+
+const ELEMENTS = Object.keys(ELEMENT_DEFINITIONS) as ElementType[];
+
+// ============================================================================
+// Normalizing stored JSON
+// ============================================================================
+
+function isElement(value: unknown): value is ElementType {
+  return typeof value === 'string' && (ELEMENTS as string[]).includes(value);
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item !== '') : [];
+}
+
+/**
+ * Read trigger options for a trigger type, dropping ones that don't apply
+ */
+export function normalizeTriggerConfig(type: CampaignTriggerType, config: unknown): CampaignTriggerConfig {
+  const raw = (config && typeof config === 'object' ? config : {}) as Record<string, unknown>;
+
+  switch (type) {
+    case 'assessment_completed':
+      return { element: isElement(raw.element) ? raw.element : null };
+    case 'course_inactive': {
+      const days = Number(raw.inactiveDays);
+      return {
+        inactiveDays: Number.isInteger(days) && days > 0 ? days : DEFAULT_INACTIVE_DAYS,
+        courseId: typeof raw.courseId === 'string' && raw.courseId ? raw.courseId : null,
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+export function normalizeSegment(segment: unknown): CampaignSegment {
+  const raw = (segment && typeof segment === 'object' ? segment : {}) as Record<string, unknown>;
+  return {
+    elements: stringList(raw.elements).filter(isElement),
+    roles: stringList(raw.roles),
+    organizationIds: stringList(raw.organizationIds),
+  };
+}
+
+// ============================================================================
+// Triggers and segments
+// ============================================================================
+
+/**
+ * Top element from stored assessment scores, which are either plain numbers
+ * or objects with a percentage
+ */
+export function getTopElement(scores: unknown): ElementType | null {
+  if (!scores || typeof scores !== 'object') return null;
+
+  let top: ElementType | null = null;
+  let best = -Infinity;
+  for (const [element, value] of Object.entries(scores)) {
+    if (!isElement(element)) continue;
+    const score =
+      typeof value === 'number'
+        ? value
+        : value && typeof value === 'object' && typeof (value as { percentage?: unknown }).percentage === 'number'
+          ? (value as { percentage: number }).percentage
+          : NaN;
+    if (Number.isFinite(score) && score > best) {
+      best = score;
+      top = element;
+    }
+  }
+  return top;
+}
+
+/**
+ * Period of trigger events to check for a sweep covering (since, until]
+ *
+ * Inactivity fires once the last activity is older than the threshold, so
+ * its window is the sweep shifted back by that many days.
+ */
+export function getTriggerWindow(
+  type: CampaignTriggerType,
+  config: CampaignTriggerConfig,
+  since: Date,
+  until: Date
+): { from: Date; to: Date } {
+  if (type !== 'course_inactive') {
+    return { from: since, to: until };
+  }
+
+  const shift = (config.inactiveDays ?? DEFAULT_INACTIVE_DAYS) * 24 * 60 * 60 * 1000;
+  return { from: new Date(since.getTime() - shift), to: new Date(until.getTime() - shift) };
+}
+
+/**
+ * Whether a trigger event satisfies the trigger's options
+ */
+export function matchesTrigger(config: CampaignTriggerConfig, event: CampaignTriggerEvent): boolean {
+  if (config.element && event.element !== config.element) return false;
+  if (config.courseId && event.courseId !== config.courseId) return false;
+  return true;
+}
+
+/**
+ * Whether a user is in the segment: every filter that is set must match
+ */
+export function matchesSegment(segment: CampaignSegment, member: CampaignAudienceMember): boolean {
+  if (segment.elements?.length && !(member.element && segment.elements.includes(member.element))) {
+    return false;
+  }
+  if (segment.roles?.length && !segment.roles.includes(member.role)) {
+    return false;
+  }
+  if (
+    segment.organizationIds?.length &&
+    !member.organizationIds.some((id) => segment.organizationIds!.includes(id))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+export function getStepSendAt(delayHours: number, from: Date): Date {
+  return new Date(from.getTime() + Math.max(0, delayHours) * 60 * 60 * 1000);
+}
+
+/**
+ * The campaign's first exit condition the user has met, if any
+ */
+export function findExitReason(
+  conditions: CampaignExitCondition[],
+  met: ReadonlySet<CampaignExitCondition>
+): CampaignExitCondition | null {
+  return conditions.find((condition) => met.has(condition)) ?? null;
+}
+
+/**
+ * Variables available to step templates
+ */
+export function getCampaignEmailData(
+  member: CampaignAudienceMember,
+  context: Pick<CampaignTriggerEvent, 'courseId' | 'courseTitle'>
+): Record<string, unknown> {
+  const element = member.element ? ELEMENT_DEFINITIONS[member.element] : null;
+  return {
+    name: member.name || '',
+    first_name: member.name?.split(' ')[0] || '',
+    email: member.email,
+    element: member.element ?? '',
+    element_name: element?.name ?? '',
+    element_emoji: element?.emoji ?? '',
+    course_id: context.courseId ?? '',
+    course_title: context.courseTitle ?? '',
+  };
+}
+
+/**
+ * Count step emails by status for each step
+ */
+export function summarizeStepStats(
+  stepIds: string[],
+  emails: Array<{ campaign_step_id: string | null; status: string }>
+): Record<string, CampaignStepStats> {
+  const stats = Object.fromEntries(
+    stepIds.map((id) => [id, { pending: 0, sent: 0, failed: 0, cancelled: 0, total: 0 }])
+  ) as Record<string, CampaignStepStats>;
+
+  for (const email of emails) {
+    const step = email.campaign_step_id ? stats[email.campaign_step_id] : undefined;
+    if (!step) continue;
+
+    step.total++;
+    // A claimed email that hasn't finished sending still counts as pending
+    const status = email.status === 'processing' ? 'pending' : email.status;
+    if (status in step && status !== 'total') {
+      step[status as keyof Omit<CampaignStepStats, 'total'>]++;
+    }
+  }
+
+  return stats;
+}
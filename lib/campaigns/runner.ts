@@ -0,0 +1,300 @@
+/**
+ * Email Campaign Runner
+ * Run by cron: enrolls users who triggered an active campaign since the last
+ * run and match its segment, then sends the step emails that are due. Before
+ * each step the user's exit conditions are checked; after it the next step
+ * is queued, or the enrollment completes.
+ */
+
+import { emailCampaignEnrollmentRepository, type EmailCampaignEnrollment, type EmailCampaignEnrollmentContext } from '@/lib/db/email-campaign-enrollments';
+import { emailCampaignRepository, type EmailCampaignStep, type EmailCampaignWithSteps } from '@/lib/db/email-campaigns';
+import { emailPreferencesRepository } from '@/lib/db/email-preferences';
+import { emailTemplatesRepository } from '@/lib/db/email-templates';
+import { scheduledEmailRepository } from '@/lib/db/scheduled-emails';
+import { deliverEmail } from '@/lib/email/delivery';
+import { logger } from '@/lib/logging';
+import {
+  CAMPAIGN_EMAIL_TYPE,
+  findExitReason,
+  getCampaignEmailData,
+  getStepSendAt,
+  getTriggerWindow,
+  matchesSegment,
+  matchesTrigger,
+  normalizeSegment,
+  normalizeTriggerConfig,
+  type CampaignAudienceMember,
+  type CampaignExitCondition,
+  type CampaignTriggerEvent,
+  type CampaignTriggerType,
+} from './rules';
+
+export interface CampaignRunResult {
+  /** Active campaigns checked for new enrollments */
+  campaigns: number;
+  enrolled: number;
+  sent: number;
+  /** Step emails that failed to send; the enrollment still moves on */
+  failed: number;
+  /** Enrollments ended by an exit condition or opt-out */
+  exited: number;
+  completed: number;
+  /** Campaigns or emails that could not be processed, for the cron log */
+  errors: string[];
+}
+
+type StepOutcome = 'sent' | 'failed' | 'exited' | 'skipped' | 'waiting';
+
+const FROM = process.env.EMAIL_FROM || 'NeuroElemental <noreply@neuroelemental.com>';
+
+/**
+ * Enroll newly triggered users and send every step email that is due
+ *
+ * @param now - Current time
+ * @param limit - Most step emails to send in one run
+ */
+export async function runEmailCampaigns(now: Date = new Date(), limit: number = 100): Promise<CampaignRunResult> {
+  const result: CampaignRunResult = {
+    campaigns: 0,
+    enrolled: 0,
+    sent: 0,
+    failed: 0,
+    exited: 0,
+    completed: 0,
+    errors: [],
+  };
+
+  const campaigns = await emailCampaignRepository.getActive();
+  result.campaigns = campaigns.length;
+
+  for (const campaign of campaigns) {
+    try {
+      result.enrolled += await enrollTriggeredUsers(campaign, now);
+    } catch (error: unknown) {
+      logger.error('Error enrolling users in email campaign', error instanceof Error ? error : undefined, {
+        campaignId: campaign.id,
+      });
+      result.errors.push(`campaign:${campaign.id}`);
+    }
+  }
+
+  // Steps of paused or archived campaigns need their own status, so load lazily
+  const loaded = new Map<string, EmailCampaignWithSteps | null>(campaigns.map((c) => [c.id, c]));
+  const getCampaign = async (id: string) => {
+    if (!loaded.has(id)) loaded.set(id, await emailCampaignRepository.findWithSteps(id));
+    return loaded.get(id) ?? null;
+  };
+
+  const due = await scheduledEmailRepository.getPendingCampaignEmails(limit, now);
+  for (const email of due) {
+    try {
+      const enrollment = email.campaign_enrollment_id
+        ? await emailCampaignEnrollmentRepository.findByIdOrNull(email.campaign_enrollment_id)
+        : null;
+      const campaign = enrollment ? await getCampaign(enrollment.campaign_id) : null;
+      const member = enrollment
+        ? (await emailCampaignEnrollmentRepository.getAudience([enrollment.user_id])).get(enrollment.user_id)
+        : undefined;
+
+      if (!enrollment || !campaign || !member || enrollment.status !== 'active') {
+        await scheduledEmailRepository.cancelEmail(email.id);
+        continue;
+      }
+
+      const outcome = await sendStep(campaign, enrollment, member, email.id, email.campaign_step_id);
+      if (outcome === 'sent') result.sent++;
+      if (outcome === 'failed') result.failed++;
+      if (outcome === 'exited') result.exited++;
+      if (outcome === 'sent' || outcome === 'failed' || outcome === 'skipped') {
+        if (await scheduleNextStep(campaign, enrollment, member, email.campaign_step_id, now)) continue;
+        await emailCampaignEnrollmentRepository.finish(enrollment.id, 'completed');
+        result.completed++;
+      }
+    } catch (error: unknown) {
+      logger.error('Error sending campaign step email', error instanceof Error ? error : undefined, {
+        scheduledEmailId: email.id,
+      });
+      result.errors.push(`email:${email.id}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Enroll users who triggered the campaign since its last sweep
+ *
+ * @returns Number of new enrollments
+ */
+async function enrollTriggeredUsers(campaign: EmailCampaignWithSteps, now: Date): Promise<number> {
+  const since = new Date(campaign.swept_until ?? campaign.activated_at ?? now);
+  if (since >= now) return 0;
+
+  const trigger = campaign.trigger_type as CampaignTriggerType;
+  const config = normalizeTriggerConfig(trigger, campaign.trigger_config);
+  const window = getTriggerWindow(trigger, config, since, now);
+
+  let events: CampaignTriggerEvent[];
+  switch (trigger) {
+    case 'signup':
+      events = await emailCampaignEnrollmentRepository.findSignups(window.from, window.to);
+      break;
+    case 'assessment_completed':
+      events = await emailCampaignEnrollmentRepository.findCompletedAssessments(window.from, window.to);
+      break;
+    case 'course_inactive':
+      events = await emailCampaignEnrollmentRepository.findInactiveCourseEnrollments(
+        window.from,
+        window.to,
+        config.courseId
+      );
+      break;
+    default:
+      events = [];
+  }
+
+  // One enrollment per user; the first matching event wins
+  const byUser = new Map<string, CampaignTriggerEvent>();
+  for (const event of events) {
+    if (!byUser.has(event.userId) && matchesTrigger(config, event)) byUser.set(event.userId, event);
+  }
+
+  const audience = await emailCampaignEnrollmentRepository.getAudience([...byUser.keys()]);
+  const segment = normalizeSegment(campaign.segment);
+  const eligible = [...byUser.values()].filter((event) => {
+    const member = audience.get(event.userId);
+    return member !== undefined && matchesSegment(segment, member);
+  });
+
+  const enrollments = await emailCampaignEnrollmentRepository.enroll(campaign.id, eligible);
+  const [first] = campaign.steps;
+  for (const enrollment of enrollments) {
+    const member = audience.get(enrollment.user_id);
+    if (first && member) {
+      await scheduleStep(enrollment, first, member.email, now);
+    }
+  }
+
+  await emailCampaignRepository.advanceSweep(campaign.id, now);
+  return enrollments.length;
+}
+
+/**
+ * Send one step email, unless the user has left the campaign
+ */
+async function sendStep(
+  campaign: EmailCampaignWithSteps,
+  enrollment: EmailCampaignEnrollment,
+  member: CampaignAudienceMember,
+  scheduledEmailId: string,
+  stepId: string | null
+): Promise<StepOutcome> {
+  if (campaign.status === 'paused') {
+    return 'waiting';
+  }
+  if (campaign.status !== 'active') {
+    await scheduledEmailRepository.cancelEmail(scheduledEmailId);
+    await emailCampaignEnrollmentRepository.finish(enrollment.id, 'exited', campaign.status);
+    return 'exited';
+  }
+
+  // Step removed while its email was waiting
+  const step = campaign.steps.find((s) => s.id === stepId);
+  if (!step || !step.template) {
+    await scheduledEmailRepository.cancelEmail(scheduledEmailId);
+    return 'skipped';
+  }
+
+  const exitReason = findExitReason(
+    campaign.exit_conditions as CampaignExitCondition[],
+    await emailCampaignEnrollmentRepository.getMetExitConditions(
+      enrollment,
+      campaign.exit_conditions as CampaignExitCondition[]
+    )
+  );
+  const optedOut =
+    step.template.category === 'marketing' &&
+    !(await emailPreferencesRepository.hasOptedIn(enrollment.user_id, 'marketing'));
+  if (exitReason || optedOut) {
+    await scheduledEmailRepository.cancelEmail(scheduledEmailId);
+    await emailCampaignEnrollmentRepository.finish(enrollment.id, 'exited', exitReason ?? 'marketing_opt_out');
+    return 'exited';
+  }
+
+  // Another run got to it first
+  if (!(await scheduledEmailRepository.claim(scheduledEmailId))) {
+    return 'waiting';
+  }
+
+  try {
+    const rendered = await emailTemplatesRepository.render(step.template.slug, {
+      app_url: process.env.NEXT_PUBLIC_APP_URL,
+      ...getCampaignEmailData(member, (enrollment.context ?? {}) as EmailCampaignEnrollmentContext),
+    });
+    if (!rendered) {
+      throw new Error(`Email template "${step.template.slug}" is inactive`);
+    }
+
+    const delivery = await deliverEmail(
+      {
+        from: FROM,
+        to: [member.email],
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text ?? undefined,
+      },
+      step.template.slug
+    );
+    if (!delivery.success) {
+      throw new Error(delivery.error || 'Email was not sent');
+    }
+
+    await scheduledEmailRepository.markAsSent(scheduledEmailId);
+    return 'sent';
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn('Campaign step email not sent', { campaignId: campaign.id, stepId: step.id, error: message });
+    await scheduledEmailRepository.markAsFailed(scheduledEmailId, message);
+    return 'failed';
+  }
+}
+
+/**
+ * Queue the step after the one just handled
+ *
+ * @returns False when there are no steps left
+ */
+async function scheduleNextStep(
+  campaign: EmailCampaignWithSteps,
+  enrollment: EmailCampaignEnrollment,
+  member: CampaignAudienceMember,
+  stepId: string | null,
+  now: Date
+): Promise<boolean> {
+  // A removed step's successor has moved into its position
+  const current = campaign.steps.find((s) => s.id === stepId);
+  const next = current
+    ? campaign.steps.find((s) => s.position > current.position)
+    : campaign.steps.find((s) => s.position >= enrollment.next_position);
+  if (!next) return false;
+
+  await scheduleStep(enrollment, next, member.email, now);
+  return true;
+}
+
+async function scheduleStep(
+  enrollment: EmailCampaignEnrollment,
+  step: EmailCampaignStep,
+  to: string,
+  from: Date
+): Promise<void> {
+  await scheduledEmailRepository.scheduleEmail({
+    to,
+    type: CAMPAIGN_EMAIL_TYPE,
+    props: { campaign_id: enrollment.campaign_id, position: step.position },
+    scheduled_for: getStepSendAt(step.delay_hours, from).toISOString(),
+    campaign_enrollment_id: enrollment.id,
+    campaign_step_id: step.id,
+  });
+  await emailCampaignEnrollmentRepository.setNextPosition(enrollment.id, step.position);
+}
@@ -8,6 +8,7 @@
 import type { LucideIcon } from "lucide-react";
 import {
   Award,
+  Banknote,
   BarChart3,
   BookOpen,
   Bookmark,
@@ -24,8 +25,11 @@ import {
   Image,
   LayoutDashboard,
   LayoutGrid,
+  Lightbulb,
   Link2,
+  ListChecks,
   Mail,
+  MailCheck,
   MessageSquare,
   Navigation,
   Palette,
@@ -43,6 +47,7 @@ import {
   AlertTriangle,
   Briefcase,
   PieChart,
+  Workflow,
 } from "lucide-react";
 
 /**
@@ -150,6 +155,8 @@ export const studentNavConfig: DashboardConfig = {
         { title: "Achievements", href: "/dashboard/student/achievements", icon: Trophy },
         { title: "Goals", href: "/dashboard/student/goals", icon: Target },
         { title: "Progress", href: "/dashboard/student/progress", icon: TrendingUp },
+        { title: "Assessments", href: "/dashboard/student/assessments", icon: ClipboardList },
+        { title: "Energy Insights", href: "/dashboard/student/insights", icon: Lightbulb },
       ],
     },
   ],
@@ -277,6 +284,7 @@ export const adminNavConfig: DashboardConfig = {
         { title: "Users", href: "/dashboard/admin/users", icon: Users },
         { title: "Organizations", href: "/dashboard/admin/organizations", icon: Building2 },
         { title: "Credits", href: "/dashboard/admin/credits", icon: Coins },
+        { title: "Instructor Payouts", href: "/dashboard/admin/payouts", icon: Banknote },
         { title: "Waitlist", href: "/dashboard/admin/waitlist", icon: Mail },
         { title: "Invitations", href: "/dashboard/admin/invitations", icon: UserPlus },
       ],
@@ -289,6 +297,8 @@ export const adminNavConfig: DashboardConfig = {
         { title: "Content Blocks", href: "/dashboard/admin/cms/blocks", icon: LayoutGrid },
         { title: "Navigation", href: "/dashboard/admin/cms/navigation", icon: Navigation },
         { title: "Email Templates", href: "/dashboard/admin/cms/email-templates", icon: Mail },
+        { title: "Email Deliveries", href: "/dashboard/admin/cms/email-deliveries", icon: MailCheck },
+        { title: "Email Campaigns", href: "/dashboard/admin/cms/email-campaigns", icon: Workflow },
         { title: "Contact Forms", href: "/dashboard/admin/cms/forms", icon: ClipboardList },
       ],
     },
@@ -297,6 +307,7 @@ export const adminNavConfig: DashboardConfig = {
       color: "slate",
       items: [
         { title: "Products", href: "/dashboard/admin/products", icon: ShoppingCart },
+        { title: "Background Jobs", href: "/dashboard/admin/jobs", icon: ListChecks },
         { title: "Settings", href: "/dashboard/admin/settings", icon: Settings },
       ],
     },
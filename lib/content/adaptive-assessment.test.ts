@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  ADAPTIVE_MIN_ANSWERS_PER_ELEMENT,
+  ADAPTIVE_MIN_QUESTIONS,
+  ADAPTIVE_VALIDITY_QUESTIONS,
+  calculateAdaptiveAssessmentResult,
+  estimateElementScores,
+  getAdaptiveAssessmentState,
+  isAdaptiveAssessmentComplete,
+} from './adaptive-assessment';
+import {
+  TOTAL_MAIN_QUESTIONS,
+  calculateElementScores,
+  getAllQuestions,
+  type ElementType,
+} from './assessment-questions';
+
+const ELEMENTS: ElementType[] = ['electric', 'fiery', 'aquatic', 'earthly', 'airy', 'metallic'];
+
+/**
+ * Answer adaptively until the session is complete
+ */
+function runSession(answerFor: (questionId: number, element: ElementType) => number) {
+  const answers: Record<number, number> = {};
+  const asked: number[] = [];
+
+  for (let i = 0; i < 100; i++) {
+    const state = getAdaptiveAssessmentState(answers);
+    if (!state.nextQuestion) break;
+    asked.push(state.nextQuestion.id);
+    answers[state.nextQuestion.id] = answerFor(state.nextQuestion.id, state.nextQuestion.element);
+  }
+
+  return { answers, asked };
+}
+
+const mainAnswerCount = (answers: Record<number, number>) =>
+  Object.keys(answers).filter((id) => parseInt(id) <= TOTAL_MAIN_QUESTIONS).length;
+
+// ============================================================================
+// SESSION TESTS
+// ============================================================================
+
+describe('getAdaptiveAssessmentState', () => {
+  it('starts with the first question', () => {
+    const state = getAdaptiveAssessmentState({});
+
+    expect(state.nextQuestion?.id).toBe(1);
+    expect(state.isComplete).toBe(false);
+    expect(state.maxRemaining).toBe(TOTAL_MAIN_QUESTIONS + ADAPTIVE_VALIDITY_QUESTIONS);
+  });
+
+  it('Property: sessions always finish, never repeat a question and cover every element', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 1, max: 5 }), { minLength: 42, maxLength: 42 }), (ratings) => {
+        const { answers, asked } = runSession((id) => ratings[(id - 1) % ratings.length]);
+
+        expect(new Set(asked).size).toBe(asked.length);
+        expect(isAdaptiveAssessmentComplete(answers)).toBe(true);
+        expect(mainAnswerCount(answers)).toBeGreaterThanOrEqual(ADAPTIVE_MIN_QUESTIONS);
+        expect(asked.length).toBeLessThanOrEqual(TOTAL_MAIN_QUESTIONS + ADAPTIVE_VALIDITY_QUESTIONS);
+
+        const perElement = estimateElementScores(answers);
+        const questions = getAllQuestions(false).filter((q) => q.id <= TOTAL_MAIN_QUESTIONS && answers[q.id] !== undefined);
+        ELEMENTS.forEach((element) => {
+          expect(questions.filter((q) => q.element === element).length).toBeGreaterThanOrEqual(
+            ADAPTIVE_MIN_ANSWERS_PER_ELEMENT
+          );
+          expect(perElement[element].percentage).toBeGreaterThanOrEqual(20);
+          expect(perElement[element].percentage).toBeLessThanOrEqual(100);
+        });
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('stops early for a clear profile and asks validity questions for the top two', () => {
+    const { answers, asked } = runSession((_id, element) =>
+      element === 'electric' || element === 'fiery' ? 5 : 1
+    );
+
+    expect(mainAnswerCount(answers)).toBeLessThan(TOTAL_MAIN_QUESTIONS);
+    expect(asked.slice(-ADAPTIVE_VALIDITY_QUESTIONS).sort()).toEqual([101, 102]);
+
+    const state = getAdaptiveAssessmentState(answers);
+    expect(state.stopReason).toBe('stable_ranking');
+    expect(state.maxRemaining).toBe(0);
+  });
+
+  it('keeps asking while the ranking is unclear', () => {
+    const answers: Record<number, number> = {};
+    for (let i = 1; i <= ADAPTIVE_MIN_QUESTIONS; i++) {
+      answers[i] = 3;
+    }
+
+    const state = getAdaptiveAssessmentState(answers);
+    expect(state.isComplete).toBe(false);
+    expect(state.stopReason).toBeNull();
+    expect(state.nextQuestion?.id).toBeLessThanOrEqual(TOTAL_MAIN_QUESTIONS);
+  });
+});
+
+// ============================================================================
+// RESULT TESTS
+// ============================================================================
+
+describe('calculateAdaptiveAssessmentResult', () => {
+  it('Property: with every main question answered, scores match the full assessment', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 1, max: 5 }), { minLength: 36, maxLength: 36 }), (ratings) => {
+        const answers: Record<number, number> = {};
+        ratings.forEach((rating, index) => {
+          answers[index + 1] = rating;
+        });
+
+        const projected = estimateElementScores(answers);
+        const full = calculateElementScores(answers);
+        ELEMENTS.forEach((element) => {
+          expect(projected[element].percentage).toBe(full[element].percentage);
+          expect(projected[element].raw).toBe(full[element].raw);
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('reports low confidence for elements with few answers', () => {
+    const { answers } = runSession((_id, element) =>
+      element === 'electric' || element === 'fiery' ? 5 : 1
+    );
+    const result = calculateAdaptiveAssessmentResult(answers);
+    const questions = getAllQuestions(false).filter((q) => q.id <= TOTAL_MAIN_QUESTIONS);
+
+    ELEMENTS.forEach((element) => {
+      const count = questions.filter((q) => q.element === element && answers[q.id] !== undefined).length;
+      if (count <= ADAPTIVE_MIN_ANSWERS_PER_ELEMENT) {
+        expect(result.scores[element].confidence).toBe('low');
+      }
+    });
+  });
+
+  it('produces a full, valid result for a completed adaptive session', () => {
+    const { answers } = runSession((_id, element) =>
+      element === 'aquatic' ? 5 : element === 'earthly' ? 4 : element === 'airy' ? 3 : 2
+    );
+    const result = calculateAdaptiveAssessmentResult(answers);
+
+    expect(result.topElements.slice(0, 2)).toEqual(['aquatic', 'earthly']);
+    expect(result.validity.completionRate).toBe(1);
+    expect(result.patterns.blendType).toBeDefined();
+    expect(result.adaptive.questionsAnswered + result.adaptive.questionsSkipped).toBe(TOTAL_MAIN_QUESTIONS);
+    expect(result.adaptive.stopReason).not.toBeNull();
+  });
+});
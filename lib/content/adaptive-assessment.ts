@@ -0,0 +1,467 @@
+/**
+ * Adaptive Assessment Mode
+ *
+ * Asks the NeuroElemental questions one at a time, always picking the question
+ * that best separates the top two elements from the rest, and stops as soon as
+ * that top-2 ranking is stable. Typically finishes in well under 36 questions.
+ *
+ * - Stateless: the next question depends only on the answers given so far, so
+ *   the client, save-progress and submit all agree without storing a session
+ * - Scores are projected from the questions answered per element, with
+ *   confidence capped by how many questions each element actually received
+ * - Validity questions are asked for the top two elements before finishing
+ */
+
+import {
+  ELEMENT_DEFINITIONS,
+  QUESTIONS_PER_ELEMENT,
+  TOTAL_MAIN_QUESTIONS,
+  VALIDITY_QUESTIONS,
+  analyzePatterns,
+  analyzeShadowIndicators,
+  calculateElementScores,
+  calculateValidityIndicators,
+  getAdjustedScore,
+  getAllQuestions,
+  getDominantEnergyType,
+  getScoreConfidence,
+  getTopElements,
+  type AssessmentQuestion,
+  type AssessmentResult,
+  type ElementScore,
+  type ElementType,
+} from "./assessment-questions";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Questions every element receives before the ranking can be trusted
+ */
+export const ADAPTIVE_MIN_ANSWERS_PER_ELEMENT = 2;
+
+/**
+ * Minimum main questions in an adaptive session (2 per element)
+ */
+export const ADAPTIVE_MIN_QUESTIONS =
+  ADAPTIVE_MIN_ANSWERS_PER_ELEMENT * Object.keys(ELEMENT_DEFINITIONS).length;
+
+/**
+ * Validity questions asked at the end of an adaptive session (one for each
+ * of the top two elements)
+ */
+export const ADAPTIVE_VALIDITY_QUESTIONS = 2;
+
+/**
+ * Standard errors separating the 2nd element from the 3rd before stopping
+ * (one-sided ~90%)
+ */
+const SEPARATION_Z = 1.28;
+
+/**
+ * Smallest per-answer standard deviation assumed for an element, so two
+ * identical answers don't look like certainty
+ */
+const MIN_ANSWER_SD = 0.75;
+
+/**
+ * Percentage points added to the distance from the top-2 boundary when
+ * ranking questions, so elements on the boundary don't get infinite priority
+ */
+const BOUNDARY_SOFTENING = 5;
+
+/**
+ * Extra priority for elements whose current score confidence is weak
+ */
+const CONFIDENCE_WEIGHT: Record<ElementScore["confidence"], number> = {
+  low: 1.5,
+  medium: 1.2,
+  high: 1,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AdaptiveStopReason = "stable_ranking" | "all_questions";
+
+export interface AdaptiveAssessmentState {
+  /** Question to ask next, or null when the assessment is complete */
+  nextQuestion: AssessmentQuestion | null;
+  /** Whether the answers are enough for a result */
+  isComplete: boolean;
+  /** Questions answered so far (main + validity) */
+  answeredCount: number;
+  /** Upper bound on questions still to ask (shrinks to 0 on early stop) */
+  maxRemaining: number;
+  /** Current top two elements, highest first */
+  provisionalTopElements: ElementType[];
+  /** Why main questions stopped, or null while they are still being asked */
+  stopReason: AdaptiveStopReason | null;
+}
+
+export interface AdaptiveAssessmentResult extends AssessmentResult {
+  adaptive: {
+    /** Main questions answered */
+    questionsAnswered: number;
+    /** Main questions never asked */
+    questionsSkipped: number;
+    stopReason: AdaptiveStopReason | null;
+  };
+}
+
+interface ElementEstimate {
+  element: ElementType;
+  /** Main questions answered for this element */
+  answered: number;
+  /** Projected percentage on the full 6-question scale */
+  percentage: number;
+  /** Standard error of the projected percentage */
+  standardError: number;
+}
+
+// ============================================================================
+// ESTIMATION
+// ============================================================================
+
+const ELEMENTS = Object.keys(ELEMENT_DEFINITIONS) as ElementType[];
+
+/**
+ * Scored main questions (ids 1-36; later questions don't count towards scores)
+ */
+const MAIN_QUESTIONS = getAllQuestions(false).filter(
+  (q) => q.id <= TOTAL_MAIN_QUESTIONS
+);
+
+/**
+ * Adjusted (reverse-scored) answers per element, main questions only
+ */
+function getElementAnswers(
+  answers: Record<number, number>
+): Record<ElementType, number[]> {
+  const byElement = Object.fromEntries(
+    ELEMENTS.map((element) => [element, [] as number[]])
+  ) as Record<ElementType, number[]>;
+
+  MAIN_QUESTIONS.forEach((question) => {
+    const answer = answers[question.id];
+    if (answer !== undefined) {
+      byElement[question.element].push(getAdjustedScore(question.id, answer));
+    }
+  });
+
+  return byElement;
+}
+
+/**
+ * Project each element's percentage from the questions answered so far
+ *
+ * The mean adjusted answer is scaled to the 6-question range (so a full set
+ * of answers gives exactly the raw / 30 percentage), and the standard error
+ * uses a finite population correction: it reaches 0 once all 6 questions for
+ * an element are answered.
+ */
+function estimateElements(
+  answers: Record<number, number>
+): Record<ElementType, ElementEstimate> {
+  const byElement = getElementAnswers(answers);
+
+  return Object.fromEntries(
+    ELEMENTS.map((element) => {
+      const values = byElement[element];
+      const n = values.length;
+
+      if (n === 0) {
+        return [
+          element,
+          { element, answered: 0, percentage: 0, standardError: Infinity },
+        ];
+      }
+
+      const mean = values.reduce((sum, v) => sum + v, 0) / n;
+      const variance =
+        n > 1
+          ? values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / (n - 1)
+          : 0;
+      const sd = Math.max(Math.sqrt(variance), MIN_ANSWER_SD);
+      const correction = Math.sqrt(
+        (QUESTIONS_PER_ELEMENT - n) / (QUESTIONS_PER_ELEMENT - 1)
+      );
+
+      return [
+        element,
+        {
+          element,
+          answered: n,
+          percentage: (mean / 5) * 100,
+          standardError: (sd / Math.sqrt(n)) * correction * 20,
+        },
+      ];
+    })
+  ) as Record<ElementType, ElementEstimate>;
+}
+
+/**
+ * Elements ordered by projected percentage (ties keep element order)
+ */
+function rankElements(
+  estimates: Record<ElementType, ElementEstimate>
+): ElementType[] {
+  return [...ELEMENTS].sort(
+    (a, b) => estimates[b].percentage - estimates[a].percentage
+  );
+}
+
+/**
+ * Element scores projected onto the full scale, with honest confidence
+ *
+ * Confidence follows the standard rule (consistency and extremity) but is
+ * capped by coverage: elements with 2 or fewer answers are always "low" and
+ * elements with fewer than 4 are at most "medium".
+ */
+export function estimateElementScores(
+  answers: Record<number, number>
+): Record<ElementType, ElementScore> {
+  const estimates = estimateElements(answers);
+  const answered = calculateElementScores(answers);
+
+  return Object.fromEntries(
+    ELEMENTS.map((element) => {
+      const { answered: count, percentage } = estimates[element];
+      const { consistency } = answered[element];
+      const rounded = Math.round(percentage);
+      let confidence = getScoreConfidence(consistency, rounded);
+
+      if (count <= ADAPTIVE_MIN_ANSWERS_PER_ELEMENT) {
+        confidence = "low";
+      } else if (count < 4 && confidence === "high") {
+        confidence = "medium";
+      }
+
+      return [
+        element,
+        {
+          raw: Math.round((percentage / 100) * 5 * QUESTIONS_PER_ELEMENT),
+          percentage: rounded,
+          confidence,
+          consistency,
+        },
+      ];
+    })
+  ) as Record<ElementType, ElementScore>;
+}
+
+// ============================================================================
+// STOPPING RULE
+// ============================================================================
+
+/**
+ * Whether the top two elements are clearly separated from the rest
+ *
+ * Requires the minimum answers per element, a gap between 2nd and every other
+ * element of at least SEPARATION_Z standard errors, and that no single extra
+ * answer (1 or 5) on any remaining question could change the top two.
+ */
+function isTopTwoStable(answers: Record<number, number>): boolean {
+  const estimates = estimateElements(answers);
+
+  if (
+    ELEMENTS.some(
+      (element) =>
+        estimates[element].answered < ADAPTIVE_MIN_ANSWERS_PER_ELEMENT
+    )
+  ) {
+    return false;
+  }
+
+  const ranked = rankElements(estimates);
+  const second = estimates[ranked[1]];
+
+  const separated = ranked.slice(2).every((element) => {
+    const challenger = estimates[element];
+    const combined = Math.sqrt(
+      Math.pow(second.standardError, 2) +
+        Math.pow(challenger.standardError, 2)
+    );
+    return second.percentage - challenger.percentage > SEPARATION_Z * combined;
+  });
+
+  if (!separated) return false;
+
+  const topTwo = new Set(ranked.slice(0, 2));
+
+  return MAIN_QUESTIONS.filter((q) => answers[q.id] === undefined).every(
+    (question) =>
+      [1, 5].every((answer) => {
+        const next = rankElements(
+          estimateElements({ ...answers, [question.id]: answer })
+        );
+        return next.slice(0, 2).every((element) => topTwo.has(element));
+      })
+  );
+}
+
+// ============================================================================
+// QUESTION SELECTION
+// ============================================================================
+
+/**
+ * Pick the most informative unanswered main question
+ *
+ * Until every element has the minimum answers, questions are asked in
+ * section order. After that, the element whose score is most uncertain
+ * relative to its distance from the 2nd/3rd boundary is chosen, weighted
+ * towards elements with low confidence.
+ */
+function selectNextMainQuestion(
+  answers: Record<number, number>
+): AssessmentQuestion | null {
+  const unanswered = MAIN_QUESTIONS.filter((q) => answers[q.id] === undefined);
+  if (unanswered.length === 0) return null;
+
+  const estimates = estimateElements(answers);
+
+  const undersampled = unanswered.find(
+    (q) =>
+      estimates[q.element].answered < ADAPTIVE_MIN_ANSWERS_PER_ELEMENT
+  );
+  if (undersampled) return undersampled;
+
+  const ranked = rankElements(estimates);
+  const boundary =
+    (estimates[ranked[1]].percentage + estimates[ranked[2]].percentage) / 2;
+  const confidence = estimateElementScores(answers);
+
+  let best: AssessmentQuestion | null = null;
+  let bestScore = -Infinity;
+
+  unanswered.forEach((question) => {
+    const estimate = estimates[question.element];
+    const score =
+      (estimate.standardError /
+        (Math.abs(estimate.percentage - boundary) + BOUNDARY_SOFTENING)) *
+      CONFIDENCE_WEIGHT[confidence[question.element].confidence];
+
+    // Unanswered questions are in section order, so the first wins ties
+    if (score > bestScore) {
+      best = question;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Validity questions for the given elements, in order
+ */
+function getValidityQuestions(elements: ElementType[]): AssessmentQuestion[] {
+  return elements
+    .map((element) => VALIDITY_QUESTIONS.find((q) => q.element === element))
+    .filter((q): q is AssessmentQuestion => q !== undefined);
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Work out where an adaptive session stands from its answers
+ */
+export function getAdaptiveAssessmentState(
+  answers: Record<number, number>
+): AdaptiveAssessmentState {
+  const mainAnswered = MAIN_QUESTIONS.filter(
+    (q) => answers[q.id] !== undefined
+  ).length;
+  const answeredCount =
+    mainAnswered +
+    VALIDITY_QUESTIONS.filter((q) => answers[q.id] !== undefined).length;
+  const provisionalTopElements = rankElements(estimateElements(answers)).slice(
+    0,
+    2
+  );
+
+  let stopReason: AdaptiveStopReason | null = null;
+  if (mainAnswered === TOTAL_MAIN_QUESTIONS) {
+    stopReason = "all_questions";
+  } else if (isTopTwoStable(answers)) {
+    stopReason = "stable_ranking";
+  }
+
+  if (!stopReason) {
+    return {
+      nextQuestion: selectNextMainQuestion(answers),
+      isComplete: false,
+      answeredCount,
+      maxRemaining:
+        TOTAL_MAIN_QUESTIONS - mainAnswered + ADAPTIVE_VALIDITY_QUESTIONS,
+      provisionalTopElements,
+      stopReason,
+    };
+  }
+
+  const pendingValidity = getValidityQuestions(provisionalTopElements).filter(
+    (q) => answers[q.id] === undefined
+  );
+
+  return {
+    nextQuestion: pendingValidity[0] ?? null,
+    isComplete: pendingValidity.length === 0,
+    answeredCount,
+    maxRemaining: pendingValidity.length,
+    provisionalTopElements,
+    stopReason,
+  };
+}
+
+/**
+ * Whether an adaptive session has answered everything it needs to
+ */
+export function isAdaptiveAssessmentComplete(
+  answers: Record<number, number>
+): boolean {
+  return getAdaptiveAssessmentState(answers).isComplete;
+}
+
+/**
+ * Calculate the full assessment result for an adaptive session
+ *
+ * Scores are projected from the questions answered per element, and validity
+ * counts the session as complete when the stopping rule was met.
+ */
+export function calculateAdaptiveAssessmentResult(
+  answers: Record<number, number>
+): AdaptiveAssessmentResult {
+  const state = getAdaptiveAssessmentState(answers);
+  const mainAnswered = MAIN_QUESTIONS.filter(
+    (q) => answers[q.id] !== undefined
+  ).length;
+
+  const scores = estimateElementScores(answers);
+  const topElements = getTopElements(scores, 3);
+  const energyType = getDominantEnergyType(topElements);
+  const validity = calculateValidityIndicators(answers, {
+    expectedMainQuestions: state.stopReason
+      ? Math.max(mainAnswered, 1)
+      : TOTAL_MAIN_QUESTIONS,
+    elementScores: scores,
+  });
+  const patterns = analyzePatterns(scores, topElements);
+  const shadowIndicators = analyzeShadowIndicators(scores);
+
+  return {
+    scores,
+    topElements,
+    energyType,
+    validity,
+    patterns,
+    shadowIndicators,
+    adaptive: {
+      questionsAnswered: mainAnswered,
+      questionsSkipped: TOTAL_MAIN_QUESTIONS - mainAnswered,
+      stopReason: state.stopReason,
+    },
+  };
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  buildAssessmentTimeline,
+  compareAssessmentResults,
+  compareElementScores,
+  getStoredAssessmentResult,
+} from './assessment-comparison';
+import {
+  calculateAssessmentResult,
+  type ElementType,
+} from './assessment-questions';
+
+const ELEMENTS: ElementType[] = ['electric', 'fiery', 'aquatic', 'earthly', 'airy', 'metallic'];
+
+/**
+ * Build full answers giving each element a fixed rating
+ */
+function answersFor(ratings: Partial<Record<ElementType, number>>): Record<number, number> {
+  const answers: Record<number, number> = {};
+  for (let i = 1; i <= 36; i++) {
+    answers[i] = ratings[ELEMENTS[(i - 1) % 6]] ?? 2;
+  }
+  return answers;
+}
+
+const answersArb = fc
+  .array(fc.integer({ min: 1, max: 5 }), { minLength: 36, maxLength: 36 })
+  .map((ratings) => Object.fromEntries(ratings.map((rating, index) => [index + 1, rating])));
+
+// ============================================================================
+// ELEMENT DELTA TESTS
+// ============================================================================
+
+describe('compareElementScores', () => {
+  it('Property: swapping the order negates the delta and keeps the significance', () => {
+    fc.assert(
+      fc.property(answersArb, answersArb, (a, b) => {
+        const first = calculateAssessmentResult(a);
+        const second = calculateAssessmentResult(b);
+
+        ELEMENTS.forEach((element) => {
+          const forward = compareElementScores(element, first.scores[element], second.scores[element]);
+          const backward = compareElementScores(element, second.scores[element], first.scores[element]);
+
+          expect(forward.delta + backward.delta).toBe(0);
+          expect(forward.significance).toBe(backward.significance);
+          expect(forward.threshold).toBe(backward.threshold);
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('needs a larger change to be significant when answers are inconsistent', () => {
+    const consistent = { raw: 15, percentage: 50, confidence: 'high' as const, consistency: 1 };
+    const inconsistent = { ...consistent, consistency: 0.2 };
+
+    const tight = compareElementScores('fiery', consistent, { ...consistent, percentage: 70 });
+    const loose = compareElementScores('fiery', inconsistent, { ...inconsistent, percentage: 70 });
+
+    expect(tight.threshold).toBeLessThan(loose.threshold);
+    expect(tight.significance).toBe('significant');
+    expect(loose.significance).not.toBe('significant');
+  });
+});
+
+// ============================================================================
+// RESULT COMPARISON TESTS
+// ============================================================================
+
+describe('compareAssessmentResults', () => {
+  it('reports a stable profile when nothing changed', () => {
+    const result = calculateAssessmentResult(answersFor({ electric: 5, fiery: 4 }));
+    const comparison = compareAssessmentResults(result, result);
+
+    expect(comparison.elementDeltas.every((delta) => delta.significance === 'stable')).toBe(true);
+    expect(comparison.topElements.primaryChanged).toBe(false);
+    expect(comparison.blendType.changed).toBe(false);
+    expect(comparison.summary).toHaveLength(1);
+    expect(comparison.summary[0]).toContain('stable');
+  });
+
+  it('describes a shift in primary element and blend', () => {
+    const before = calculateAssessmentResult(answersFor({ electric: 5, fiery: 4 }));
+    const after = calculateAssessmentResult(answersFor({ aquatic: 5, earthly: 4 }));
+    const comparison = compareAssessmentResults(before, after);
+
+    expect(comparison.topElements.primaryChanged).toBe(true);
+    expect(comparison.topElements.to.slice(0, 2)).toEqual(['aquatic', 'earthly']);
+    expect(comparison.topElements.entered).toContain('earthly');
+    expect(comparison.blendType).toMatchObject({ changed: true, from: before.patterns.blendType });
+
+    const text = comparison.summary.join(' ');
+    expect(text).toContain('from Electric to Aquatic');
+    expect(text).toContain('grown stronger');
+    expect(text).toContain('become quieter');
+  });
+
+  it('orders element deltas by size of change', () => {
+    const before = calculateAssessmentResult(answersFor({ electric: 3, fiery: 3 }));
+    const after = calculateAssessmentResult(answersFor({ electric: 5, fiery: 4 }));
+    const { elementDeltas } = compareAssessmentResults(before, after);
+
+    expect(elementDeltas[0].element).toBe('electric');
+    expect(Math.abs(elementDeltas[0].delta)).toBeGreaterThanOrEqual(Math.abs(elementDeltas[1].delta));
+  });
+});
+
+// ============================================================================
+// TIMELINE TESTS
+// ============================================================================
+
+describe('buildAssessmentTimeline', () => {
+  it('orders snapshots chronologically and tracks drift', () => {
+    const snapshots = [3, 4, 5].map((rating, index) => ({
+      id: `a${index}`,
+      completedAt: `2026-0${index + 1}-01T00:00:00Z`,
+      result: calculateAssessmentResult(answersFor({ metallic: rating, airy: 4 })),
+    }));
+
+    const timeline = buildAssessmentTimeline([snapshots[2], snapshots[0], snapshots[1]]);
+
+    expect(timeline.snapshots.map((snapshot) => snapshot.id)).toEqual(['a0', 'a1', 'a2']);
+    expect(timeline.steps).toHaveLength(2);
+    expect(timeline.overall?.elementDeltas.find((delta) => delta.element === 'metallic')?.delta).toBeGreaterThan(0);
+
+    const metallic = timeline.drift.find((drift) => drift.element === 'metallic');
+    expect(metallic?.values).toEqual([60, 80, 100]);
+    expect(metallic?.trendPerAssessment).toBe(20);
+  });
+
+  it('has no comparison for a single assessment', () => {
+    const timeline = buildAssessmentTimeline([
+      { id: 'a', completedAt: null, result: calculateAssessmentResult(answersFor({})) },
+    ]);
+
+    expect(timeline.overall).toBeNull();
+    expect(timeline.steps).toEqual([]);
+    expect(timeline.drift).toEqual([]);
+  });
+});
+
+// ============================================================================
+// STORED RESULT TESTS
+// ============================================================================
+
+describe('getStoredAssessmentResult', () => {
+  it('rescores stored JSON answers', () => {
+    const answers = answersFor({ electric: 5 });
+    const stored = JSON.parse(JSON.stringify(answers));
+
+    expect(getStoredAssessmentResult(stored, '2.0')).toEqual(calculateAssessmentResult(answers));
+  });
+
+  it('returns null for rows without usable answers', () => {
+    expect(getStoredAssessmentResult(null, '2.0')).toBeNull();
+    expect(getStoredAssessmentResult({}, '1.0')).toBeNull();
+    expect(getStoredAssessmentResult({ foo: 'bar' }, '2.0')).toBeNull();
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Assessment Comparison
+ *
+ * Compares two or more assessment results taken over time:
+ * - Per-element score deltas, flagged as significant only when the change is
+ *   larger than the measurement error implied by each score's consistency
+ * - Changes in top elements, blend type, energy style and shadow indicators
+ * - Element drift across a whole history (first to latest, with trend)
+ * - A narrative summary built from the interpretation content
+ */
+
+import { calculateAdaptiveAssessmentResult } from "./adaptive-assessment";
+import {
+  BLEND_DESCRIPTIONS,
+  ENERGY_STYLE_DESCRIPTIONS,
+  SHADOW_ELEMENT_INTERPRETATIONS,
+} from "./assessment-interpretations";
+import {
+  ELEMENT_DEFINITIONS,
+  calculateAssessmentResult,
+  type AssessmentResult,
+  type ElementScore,
+  type ElementType,
+  type ShadowIndicators,
+} from "./assessment-questions";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Measurement error (percentage points) of a perfectly consistent score
+ */
+const BASE_SCORE_ERROR = 5;
+
+/**
+ * Extra measurement error for a completely inconsistent score
+ */
+const INCONSISTENCY_ERROR = 15;
+
+/**
+ * Standard errors of the difference for a change to count as significant
+ * (two-sided 95%)
+ */
+const SIGNIFICANT_Z = 1.96;
+
+/**
+ * Standard errors of the difference for a change worth mentioning
+ */
+const NOTABLE_Z = 1;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ChangeSignificance = "significant" | "notable" | "stable";
+
+export interface ElementDelta {
+  element: ElementType;
+  from: number;
+  to: number;
+  /** Percentage-point change (to - from) */
+  delta: number;
+  /** Smallest change that would count as significant for these two scores */
+  threshold: number;
+  significance: ChangeSignificance;
+}
+
+export interface AssessmentComparison {
+  /** Deltas for every element, largest absolute change first */
+  elementDeltas: ElementDelta[];
+  topElements: {
+    from: ElementType[];
+    to: ElementType[];
+    /** Whether the primary element changed */
+    primaryChanged: boolean;
+    /** Elements that entered the top three */
+    entered: ElementType[];
+    /** Elements that left the top three */
+    left: ElementType[];
+  };
+  blendType: { from: string; to: string; changed: boolean };
+  energyStyle: {
+    from: AssessmentResult["patterns"]["energyStyle"];
+    to: AssessmentResult["patterns"]["energyStyle"];
+    changed: boolean;
+  };
+  shadows: {
+    /** Shadow patterns that appeared */
+    emerged: ElementType[];
+    /** Shadow patterns that are no longer present */
+    resolved: ElementType[];
+    burnoutRisk: {
+      from: ShadowIndicators["burnoutRisk"];
+      to: ShadowIndicators["burnoutRisk"];
+      changed: boolean;
+    };
+  };
+  /** Narrative paragraphs describing the change */
+  summary: string[];
+}
+
+export interface AssessmentSnapshot {
+  id: string;
+  completedAt: string | null;
+  result: AssessmentResult;
+}
+
+export interface ElementDrift {
+  element: ElementType;
+  /** Scores in chronological order */
+  values: number[];
+  /** Least-squares change per assessment (percentage points) */
+  trendPerAssessment: number;
+  /** Change from the first to the latest assessment */
+  overall: ElementDelta;
+}
+
+export interface AssessmentTimeline {
+  /** Snapshots in chronological order (oldest first) */
+  snapshots: AssessmentSnapshot[];
+  /** Comparisons between each assessment and the one before it */
+  steps: AssessmentComparison[];
+  /** Comparison between the first and latest assessment, if there are two */
+  overall: AssessmentComparison | null;
+  drift: ElementDrift[];
+}
+
+// ============================================================================
+// STORED RESULTS
+// ============================================================================
+
+/**
+ * Recalculate a full result from stored assessment answers
+ *
+ * Stored rows only keep percentages, so patterns, shadows and consistency are
+ * recomputed from the answers (adaptive sessions use the adaptive scorer).
+ */
+export function getStoredAssessmentResult(
+  answers: unknown,
+  version: string
+): AssessmentResult | null {
+  if (!answers || typeof answers !== "object") return null;
+
+  const parsed: Record<number, number> = {};
+  Object.entries(answers as Record<string, unknown>).forEach(([id, value]) => {
+    if (typeof value === "number" && /^\d+$/.test(id)) {
+      parsed[parseInt(id)] = value;
+    }
+  });
+
+  if (Object.keys(parsed).length === 0) return null;
+
+  return version.endsWith("-adaptive")
+    ? calculateAdaptiveAssessmentResult(parsed)
+    : calculateAssessmentResult(parsed);
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+const ELEMENTS = Object.keys(ELEMENT_DEFINITIONS) as ElementType[];
+
+/**
+ * Measurement error of a score, from its answer consistency
+ */
+function scoreError(score: ElementScore): number {
+  const consistency = Math.min(1, Math.max(0, score.consistency));
+  return BASE_SCORE_ERROR + (1 - consistency) * INCONSISTENCY_ERROR;
+}
+
+/**
+ * Compare one element's score between two results
+ */
+export function compareElementScores(
+  element: ElementType,
+  from: ElementScore,
+  to: ElementScore
+): ElementDelta {
+  const delta = to.percentage - from.percentage;
+  const differenceError = Math.sqrt(
+    Math.pow(scoreError(from), 2) + Math.pow(scoreError(to), 2)
+  );
+  const threshold = Math.round(SIGNIFICANT_Z * differenceError * 10) / 10;
+
+  let significance: ChangeSignificance = "stable";
+  if (Math.abs(delta) >= threshold) {
+    significance = "significant";
+  } else if (Math.abs(delta) >= NOTABLE_Z * differenceError) {
+    significance = "notable";
+  }
+
+  return {
+    element,
+    from: from.percentage,
+    to: to.percentage,
+    delta,
+    threshold,
+    significance,
+  };
+}
+
+/**
+ * Compare two assessment results (earlier first)
+ */
+export function compareAssessmentResults(
+  previous: AssessmentResult,
+  current: AssessmentResult
+): AssessmentComparison {
+  const elementDeltas = ELEMENTS.map((element) =>
+    compareElementScores(
+      element,
+      previous.scores[element],
+      current.scores[element]
+    )
+  ).sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const fromTop = previous.topElements;
+  const toTop = current.topElements;
+
+  const comparison: Omit<AssessmentComparison, "summary"> = {
+    elementDeltas,
+    topElements: {
+      from: fromTop,
+      to: toTop,
+      primaryChanged: fromTop[0] !== toTop[0],
+      entered: toTop.filter((element) => !fromTop.includes(element)),
+      left: fromTop.filter((element) => !toTop.includes(element)),
+    },
+    blendType: {
+      from: previous.patterns.blendType,
+      to: current.patterns.blendType,
+      changed: previous.patterns.blendType !== current.patterns.blendType,
+    },
+    energyStyle: {
+      from: previous.patterns.energyStyle,
+      to: current.patterns.energyStyle,
+      changed: previous.patterns.energyStyle !== current.patterns.energyStyle,
+    },
+    shadows: {
+      emerged: current.shadowIndicators.potentialShadows.filter(
+        (element) => !previous.shadowIndicators.potentialShadows.includes(element)
+      ),
+      resolved: previous.shadowIndicators.potentialShadows.filter(
+        (element) => !current.shadowIndicators.potentialShadows.includes(element)
+      ),
+      burnoutRisk: {
+        from: previous.shadowIndicators.burnoutRisk,
+        to: current.shadowIndicators.burnoutRisk,
+        changed:
+          previous.shadowIndicators.burnoutRisk !==
+          current.shadowIndicators.burnoutRisk,
+      },
+    },
+  };
+
+  return { ...comparison, summary: generateComparisonSummary(comparison) };
+}
+
+/**
+ * Build a timeline of comparisons and element drift from several results
+ *
+ * Snapshots are sorted by completion date (undated ones keep their order at
+ * the start).
+ */
+export function buildAssessmentTimeline(
+  snapshots: AssessmentSnapshot[]
+): AssessmentTimeline {
+  const ordered = [...snapshots].sort(
+    (a, b) =>
+      (a.completedAt ? Date.parse(a.completedAt) : 0) -
+      (b.completedAt ? Date.parse(b.completedAt) : 0)
+  );
+
+  const steps = ordered
+    .slice(1)
+    .map((snapshot, index) =>
+      compareAssessmentResults(ordered[index].result, snapshot.result)
+    );
+
+  const first = ordered[0];
+  const latest = ordered[ordered.length - 1];
+  const overall =
+    ordered.length >= 2
+      ? compareAssessmentResults(first.result, latest.result)
+      : null;
+
+  const drift = overall
+    ? ELEMENTS.map((element) => {
+        const values = ordered.map(
+          (snapshot) => snapshot.result.scores[element].percentage
+        );
+        return {
+          element,
+          values,
+          trendPerAssessment: calculateTrend(values),
+          overall: overall.elementDeltas.find(
+            (delta) => delta.element === element
+          ) as ElementDelta,
+        };
+      })
+    : [];
+
+  return { snapshots: ordered, steps, overall, drift };
+}
+
+/**
+ * Least-squares slope of evenly spaced values
+ */
+function calculateTrend(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+
+  values.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY);
+    denominator += Math.pow(x - meanX, 2);
+  });
+
+  return Math.round((numerator / denominator) * 10) / 10;
+}
+
+// ============================================================================
+// NARRATIVE
+// ============================================================================
+
+const elementName = (element: ElementType) => ELEMENT_DEFINITIONS[element].name;
+
+const listNames = (elements: ElementType[]) => {
+  const names = elements.map(elementName);
+  return names.length > 1
+    ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+    : names[0];
+};
+
+/**
+ * Describe a comparison in plain language
+ */
+function generateComparisonSummary(
+  comparison: Omit<AssessmentComparison, "summary">
+): string[] {
+  const { elementDeltas, topElements, blendType, energyStyle, shadows } =
+    comparison;
+  const summary: string[] = [];
+
+  const significant = elementDeltas.filter(
+    (delta) => delta.significance === "significant"
+  );
+
+  // Overall picture
+  if (significant.length === 0) {
+    summary.push(
+      `Your profile is stable: no element changed by more than the assessment's margin of error, and ${elementName(topElements.to[0])} is still your primary element.`
+    );
+  } else {
+    const risen = significant.filter((delta) => delta.delta > 0);
+    const fallen = significant.filter((delta) => delta.delta < 0);
+    const parts: string[] = [];
+    if (risen.length > 0) {
+      parts.push(
+        `${listNames(risen.map((delta) => delta.element))} ${risen.length > 1 ? "have" : "has"} grown stronger`
+      );
+    }
+    if (fallen.length > 0) {
+      parts.push(
+        `${listNames(fallen.map((delta) => delta.element))} ${fallen.length > 1 ? "have" : "has"} become quieter`
+      );
+    }
+    summary.push(`Since your previous assessment, ${parts.join(", while ")}.`);
+  }
+
+  // Primary element and blend
+  if (topElements.primaryChanged) {
+    summary.push(
+      `Your primary element has shifted from ${elementName(topElements.from[0])} to ${elementName(topElements.to[0])}. ${ELEMENT_DEFINITIONS[topElements.to[0]].shortDescription}`
+    );
+  }
+
+  if (blendType.changed) {
+    const blend = BLEND_DESCRIPTIONS[blendType.to];
+    summary.push(
+      blend
+        ? `You now show up as a "${blend.name}": ${blend.description.split(".")[0].toLowerCase()}.`
+        : `Your blend has moved from "${blendType.from}" to "${blendType.to}".`
+    );
+  }
+
+  if (energyStyle.changed) {
+    summary.push(
+      `Your energy style has moved from ${ENERGY_STYLE_DESCRIPTIONS[energyStyle.from].title} to ${ENERGY_STYLE_DESCRIPTIONS[energyStyle.to].title}. ${ENERGY_STYLE_DESCRIPTIONS[energyStyle.to].dailyRhythm}`
+    );
+  }
+
+  // Shadow work
+  shadows.resolved.forEach((element) => {
+    summary.push(
+      `The ${elementName(element)} shadow pattern from last time is no longer showing. ${SHADOW_ELEMENT_INTERPRETATIONS[element].affirmation}`
+    );
+  });
+
+  shadows.emerged.forEach((element) => {
+    summary.push(
+      `A ${elementName(element)} shadow pattern has appeared. ${SHADOW_ELEMENT_INTERPRETATIONS[element].integrationPath}`
+    );
+  });
+
+  if (shadows.burnoutRisk.changed) {
+    summary.push(
+      shadows.burnoutRisk.to === "high" ||
+        (shadows.burnoutRisk.to === "moderate" &&
+          shadows.burnoutRisk.from === "low")
+        ? `Your burnout risk has risen from ${shadows.burnoutRisk.from} to ${shadows.burnoutRisk.to}. Build in activities that draw on your less-used elements.`
+        : `Your burnout risk has eased from ${shadows.burnoutRisk.from} to ${shadows.burnoutRisk.to}.`
+    );
+  }
+
+  return summary;
+}
@@ -997,15 +997,7 @@ export function calculateElementScores(
 
     const consistency = calculateAnswerConsistency(elementAnswers);
 
-    // Confidence based on consistency and score extremity
-    let confidence: "high" | "medium" | "low";
-    if (consistency > 0.7 && (percentage > 70 || percentage < 30)) {
-      confidence = "high";
-    } else if (consistency > 0.5) {
-      confidence = "medium";
-    } else {
-      confidence = "low";
-    }
+    const confidence = getScoreConfidence(consistency, percentage);
 
     result[element] = { raw, percentage, confidence, consistency };
   });
@@ -1013,6 +1005,22 @@ export function calculateElementScores(
   return result;
 }
 
+/**
+ * Confidence based on answer consistency and score extremity
+ */
+export function getScoreConfidence(
+  consistency: number,
+  percentage: number
+): ElementScore["confidence"] {
+  if (consistency > 0.7 && (percentage > 70 || percentage < 30)) {
+    return "high";
+  }
+  if (consistency > 0.5) {
+    return "medium";
+  }
+  return "low";
+}
+
 /**
  * Calculate answer consistency (inverse of variance, normalized)
  */
@@ -1028,21 +1036,36 @@ function calculateAnswerConsistency(answers: number[]): number {
   return Math.max(0, 1 - variance / 4);
 }
 
+/**
+ * Options for validity checks on partial answer sets
+ */
+export interface ValidityOptions {
+  /** Main questions the respondent was expected to answer (default: all 36) */
+  expectedMainQuestions?: number;
+  /** Element scores to compare validity answers against (default: raw / 30) */
+  elementScores?: Record<ElementType, ElementScore>;
+}
+
 /**
  * Validate response quality
  */
 export function calculateValidityIndicators(
-  answers: Record<number, number>
+  answers: Record<number, number>,
+  options: ValidityOptions = {}
 ): ValidityIndicators {
+  const { expectedMainQuestions = TOTAL_MAIN_QUESTIONS, elementScores } =
+    options;
   const warnings: string[] = [];
   const answerValues = Object.values(answers).filter(
     (v) => typeof v === "number"
   );
 
   // Completion rate
-  const completionRate =
+  const completionRate = Math.min(
+    1,
     Object.keys(answers).filter((k) => parseInt(k) >= 1 && parseInt(k) <= 36)
-      .length / TOTAL_MAIN_QUESTIONS;
+      .length / expectedMainQuestions
+  );
 
   // Straight-lining detection (same answer for many questions)
   const answerCounts: Record<number, number> = {};
@@ -1081,7 +1104,9 @@ export function calculateValidityIndicators(
     let consistentCount = 0;
 
     validityAnswers.forEach((va) => {
-      const mainScore = rawScores[va.element] / MAX_ELEMENT_SCORE;
+      const mainScore = elementScores
+        ? elementScores[va.element].percentage / 100
+        : rawScores[va.element] / MAX_ELEMENT_SCORE;
       const validityScore = (6 - va.answer) / 5; // Reverse scored
 
       // If main score is high, validity answer should be low (since it's reverse scored)
@@ -0,0 +1,213 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import {
+  analyzeCategoryImpacts,
+  analyzeProtectionByWeekday,
+  analyzeStrategyRecoveries,
+  calculateEnergyInsights,
+  getDailyEnergy,
+  type InsightBudget,
+  type InsightCheckIn,
+} from "./energy-insights";
+
+/**
+ * YYYY-MM-DD for day N of March 2026 (2026-03-01 is a Sunday)
+ */
+const day = (n: number) => `2026-03-${String(n).padStart(2, "0")}`;
+
+const checkIn = (n: number, energy: number, state = "biological"): InsightCheckIn => ({
+  created_at: `${day(n)}T09:00:00.000Z`,
+  energy_level: energy,
+  current_state: state,
+});
+
+/**
+ * Fourteen days where heavy social days (even days) are followed by low energy
+ */
+function socialDrainHistory() {
+  const budgets: InsightBudget[] = [];
+  const checkIns: InsightCheckIn[] = [];
+
+  for (let n = 1; n <= 14; n++) {
+    const heavySocial = n % 2 === 0;
+    budgets.push({
+      date: day(n),
+      activities: [
+        { name: "Work", cost: 30, category: "work" },
+        { name: "Party", cost: heavySocial ? 40 : 0, category: "social" },
+        { name: "Walk", cost: -10, category: "regeneration" },
+      ],
+    });
+    // Energy the day after a heavy social day is low
+    checkIns.push(checkIn(n + 1, heavySocial ? 2 : 4));
+  }
+
+  return { budgets, checkIns };
+}
+
+// ============================================================================
+// DAILY ENERGY TESTS
+// ============================================================================
+
+describe("getDailyEnergy", () => {
+  it("averages multiple check-ins on the same day", () => {
+    const energy = getDailyEnergy([checkIn(1, 2), checkIn(1, 4), checkIn(2, 5)]);
+
+    expect(energy.get(day(1))).toBe(3);
+    expect(energy.get(day(2))).toBe(5);
+  });
+});
+
+// ============================================================================
+// CATEGORY IMPACT TESTS
+// ============================================================================
+
+describe("analyzeCategoryImpacts", () => {
+  it("flags the category whose heavy days are followed by low energy", () => {
+    const { budgets, checkIns } = socialDrainHistory();
+    const impacts = analyzeCategoryImpacts(budgets, getDailyEnergy(checkIns));
+    const social = impacts.find((impact) => impact.category === "social");
+    const work = impacts.find((impact) => impact.category === "work");
+
+    expect(impacts[0].category).toBe("social");
+    expect(social).toMatchObject({
+      heavyDays: 7,
+      lightDays: 7,
+      lowAfterHeavyRate: 1,
+      lowAfterLightRate: 0,
+      predictsLowEnergy: true,
+    });
+    // Every day has the same work load, so there is nothing to compare against
+    expect(work?.predictsLowEnergy).toBe(false);
+  });
+
+  it("ignores budget days without a next-day check-in", () => {
+    const impacts = analyzeCategoryImpacts(
+      [{ date: day(1), activities: [{ name: "Work", cost: 50, category: "work" }] }],
+      getDailyEnergy([checkIn(5, 1)])
+    );
+
+    expect(impacts.every((impact) => impact.heavyDays + impact.lightDays === 0)).toBe(true);
+  });
+});
+
+// ============================================================================
+// PROTECTION MODE TESTS
+// ============================================================================
+
+describe("analyzeProtectionByWeekday", () => {
+  it("combines check-ins and state logs by weekday", () => {
+    const weekdays = analyzeProtectionByWeekday(
+      [checkIn(2, 2, "protection"), checkIn(9, 3, "societal")],
+      [{ created_at: `${day(16)}T18:00:00.000Z`, mode: "protection" }]
+    );
+
+    expect(weekdays).toHaveLength(7);
+    expect(weekdays[1]).toMatchObject({
+      label: "Monday",
+      entries: 3,
+      protectionCount: 2,
+      protectionRate: 0.67,
+    });
+    expect(weekdays[0].entries).toBe(0);
+  });
+
+  it("Property: rates stay between 0 and 1 and entries are all counted", () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            n: fc.integer({ min: 1, max: 28 }),
+            state: fc.constantFrom("biological", "societal", "passion", "protection"),
+          }),
+          { maxLength: 40 }
+        ),
+        (entries) => {
+          const weekdays = analyzeProtectionByWeekday(
+            entries.map(({ n, state }) => checkIn(n, 3, state)),
+            []
+          );
+
+          expect(weekdays.reduce((sum, d) => sum + d.entries, 0)).toBe(entries.length);
+          weekdays.forEach((d) => {
+            expect(d.protectionRate).toBeGreaterThanOrEqual(0);
+            expect(d.protectionRate).toBeLessThanOrEqual(1);
+          });
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
+
+// ============================================================================
+// STRATEGY RECOVERY TESTS
+// ============================================================================
+
+describe("analyzeStrategyRecoveries", () => {
+  it("rates strategies by how often the next day reaches average energy", () => {
+    const budgets: InsightBudget[] = [1, 3, 5].flatMap((n) => [
+      { date: day(n), activities: [{ name: "Nap", cost: -15, category: "regeneration" }] },
+      { date: day(n + 1), activities: [{ name: "Scrolling ", cost: -5, category: "regeneration" }] },
+    ]);
+    // Days after a nap (2, 4, 6) are high, days after scrolling (3, 5, 7) low
+    const checkIns = [2, 4, 6].flatMap((n) => [checkIn(n, 5), checkIn(n + 1, 2)]);
+
+    const recoveries = analyzeStrategyRecoveries(budgets, getDailyEnergy(checkIns));
+
+    expect(recoveries.map((r) => r.strategy)).toEqual(["Nap", "Scrolling"]);
+    expect(recoveries[0]).toMatchObject({ uses: 3, recoveries: 3, recoveryRate: 1 });
+    expect(recoveries[1]).toMatchObject({ uses: 3, recoveries: 0, averageNextDayEnergy: 2 });
+  });
+
+  it("skips strategies used only once", () => {
+    const recoveries = analyzeStrategyRecoveries(
+      [{ date: day(1), activities: [{ name: "Bath", cost: -10, category: "regeneration" }] }],
+      getDailyEnergy([checkIn(2, 5)])
+    );
+
+    expect(recoveries).toEqual([]);
+  });
+});
+
+// ============================================================================
+// FINDINGS TESTS
+// ============================================================================
+
+describe("calculateEnergyInsights", () => {
+  it("personalizes findings to the user's element", () => {
+    const { budgets, checkIns } = socialDrainHistory();
+    const insights = calculateEnergyInsights({
+      checkIns,
+      stateLogs: [],
+      budgets,
+      element: "aquatic",
+    });
+
+    expect(insights.hasEnoughData).toBe(true);
+    expect(insights.element?.name).toBe("Aquatic");
+    const drain = insights.findings.find((f) => f.id === "drain-social");
+    expect(drain?.detail).toContain("Aquatic");
+  });
+
+  it("withholds findings until there are enough check-in days", () => {
+    const insights = calculateEnergyInsights({
+      checkIns: [checkIn(1, 2), checkIn(2, 3)],
+      stateLogs: [],
+      budgets: [],
+      element: "fiery",
+    });
+
+    expect(insights.hasEnoughData).toBe(false);
+    expect(insights.findings).toEqual([]);
+    expect(insights.summary).toMatchObject({ checkInDays: 2, averageEnergy: 2.5, lowEnergyDays: 1 });
+  });
+
+  it("works without an element", () => {
+    const { budgets, checkIns } = socialDrainHistory();
+    const insights = calculateEnergyInsights({ checkIns, stateLogs: [], budgets });
+
+    expect(insights.element).toBeNull();
+    expect(insights.findings.some((f) => f.kind === "drain")).toBe(true);
+  });
+});
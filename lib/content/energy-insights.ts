@@ -0,0 +1,466 @@
+/**
+ * Energy Insights
+ *
+ * Correlates a user's daily check-ins, state logs and energy budgets over
+ * several weeks:
+ * - Which activity categories predict low energy the next day
+ * - How often the user is in protection mode on each weekday
+ * - Which regeneration strategies are followed by recovery
+ * - Findings written for the user's element
+ *
+ * Days are calendar dates (YYYY-MM-DD) as recorded: budget dates as entered,
+ * check-in and state log dates from their UTC timestamps.
+ */
+
+import { elementsData, type ElementData } from "@/lib/elements-data";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Daily energy (1-5) at or below which a day counts as low energy
+ */
+export const LOW_ENERGY_THRESHOLD = 2;
+
+/**
+ * Days of check-ins needed before findings are shown
+ */
+export const MIN_CHECK_IN_DAYS = 7;
+
+/**
+ * Fewest days on each side of a comparison for it to be reported
+ */
+const MIN_SAMPLE_DAYS = 3;
+
+/**
+ * Increase in next-day low energy rate for a category to count as predictive
+ */
+const PREDICTIVE_LIFT = 0.2;
+
+/**
+ * Fewest uses of a strategy for its recovery rate to be reported
+ */
+const MIN_STRATEGY_USES = 2;
+
+/**
+ * Protection mode share on a weekday worth calling out
+ */
+const PROTECTION_ALERT_RATE = 0.4;
+
+const WEEKDAY_LABELS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DrainCategory = "work" | "social" | "chore";
+
+const DRAIN_CATEGORIES: DrainCategory[] = ["work", "social", "chore"];
+
+export interface InsightCheckIn {
+  created_at: string;
+  energy_level: number;
+  current_state: string;
+}
+
+export interface InsightStateLog {
+  created_at: string;
+  mode: string;
+}
+
+export interface InsightBudget {
+  /** YYYY-MM-DD */
+  date: string;
+  activities: Array<{
+    name: string;
+    /** Positive drains, negative regenerates */
+    cost: number;
+    category: string;
+  }>;
+}
+
+export interface CategoryImpact {
+  category: DrainCategory;
+  /** Budget days with a heavy load in this category (and a next-day check-in) */
+  heavyDays: number;
+  /** Budget days with a lighter load (and a next-day check-in) */
+  lightDays: number;
+  /** Share of heavy days followed by a low energy day (0-1) */
+  lowAfterHeavyRate: number;
+  /** Share of lighter days followed by a low energy day (0-1) */
+  lowAfterLightRate: number;
+  /** lowAfterHeavyRate - lowAfterLightRate */
+  lift: number;
+  predictsLowEnergy: boolean;
+}
+
+export interface WeekdayProtection {
+  /** 0 = Sunday */
+  weekday: number;
+  label: string;
+  /** Check-ins and state logs recorded on this weekday */
+  entries: number;
+  protectionCount: number;
+  /** Share of entries in protection mode (0-1) */
+  protectionRate: number;
+}
+
+export interface StrategyRecovery {
+  strategy: string;
+  /** Days the strategy was used with a next-day check-in */
+  uses: number;
+  /** Uses followed by a day at or above the user's average energy */
+  recoveries: number;
+  recoveryRate: number;
+  averageNextDayEnergy: number;
+}
+
+export type InsightTone = "warning" | "positive" | "info";
+
+export interface InsightFinding {
+  id: string;
+  kind: "drain" | "protection" | "recovery" | "element";
+  tone: InsightTone;
+  title: string;
+  detail: string;
+}
+
+export interface EnergyInsights {
+  element: { slug: string; name: string; icon: string } | null;
+  summary: {
+    checkInDays: number;
+    stateLogCount: number;
+    budgetDays: number;
+    /** Mean of daily average energy, or null without check-ins */
+    averageEnergy: number | null;
+    lowEnergyDays: number;
+  };
+  categoryImpacts: CategoryImpact[];
+  protectionByWeekday: WeekdayProtection[];
+  strategyRecoveries: StrategyRecovery[];
+  findings: InsightFinding[];
+  hasEnoughData: boolean;
+}
+
+export interface EnergyInsightsInput {
+  checkIns: InsightCheckIn[];
+  stateLogs: InsightStateLog[];
+  budgets: InsightBudget[];
+  /** Element slug (e.g. "aquatic") used to personalize findings */
+  element?: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const round = (value: number, places = 2) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/**
+ * Calendar date (YYYY-MM-DD) one day after the given date
+ */
+function nextDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Average check-in energy per day
+ */
+export function getDailyEnergy(checkIns: InsightCheckIn[]): Map<string, number> {
+  const totals = new Map<string, { sum: number; count: number }>();
+
+  checkIns.forEach((checkIn) => {
+    if (!checkIn.energy_level) return;
+    const day = checkIn.created_at.slice(0, 10);
+    const total = totals.get(day) ?? { sum: 0, count: 0 };
+    totals.set(day, { sum: total.sum + checkIn.energy_level, count: total.count + 1 });
+  });
+
+  return new Map(
+    [...totals].map(([day, { sum, count }]) => [day, sum / count])
+  );
+}
+
+// ============================================================================
+// ANALYSES
+// ============================================================================
+
+/**
+ * Compare next-day low energy after heavy and lighter days in each drain
+ * category. A day is heavy when the category's drain is above zero and at
+ * least the user's median for that category.
+ */
+export function analyzeCategoryImpacts(
+  budgets: InsightBudget[],
+  dailyEnergy: Map<string, number>
+): CategoryImpact[] {
+  const followed = budgets.filter((budget) => dailyEnergy.has(nextDate(budget.date)));
+
+  return DRAIN_CATEGORIES.map((category) => {
+    const days = followed.map((budget) => ({
+      drain: budget.activities
+        .filter((activity) => activity.category === category && activity.cost > 0)
+        .reduce((sum, activity) => sum + activity.cost, 0),
+      low: (dailyEnergy.get(nextDate(budget.date)) ?? 0) <= LOW_ENERGY_THRESHOLD,
+    }));
+
+    const cutoff = median(days.map((day) => day.drain));
+    const heavy = days.filter((day) => day.drain > 0 && day.drain >= cutoff);
+    const light = days.filter((day) => !(day.drain > 0 && day.drain >= cutoff));
+
+    const lowRate = (group: typeof days) =>
+      group.length > 0 ? group.filter((day) => day.low).length / group.length : 0;
+
+    const lowAfterHeavyRate = lowRate(heavy);
+    const lowAfterLightRate = lowRate(light);
+    const lift = lowAfterHeavyRate - lowAfterLightRate;
+
+    return {
+      category,
+      heavyDays: heavy.length,
+      lightDays: light.length,
+      lowAfterHeavyRate: round(lowAfterHeavyRate),
+      lowAfterLightRate: round(lowAfterLightRate),
+      lift: round(lift),
+      predictsLowEnergy:
+        heavy.length >= MIN_SAMPLE_DAYS &&
+        light.length >= MIN_SAMPLE_DAYS &&
+        lift >= PREDICTIVE_LIFT,
+    };
+  }).sort((a, b) => b.lift - a.lift);
+}
+
+/**
+ * Share of check-ins and state logs in protection mode by weekday
+ * (Sunday first)
+ */
+export function analyzeProtectionByWeekday(
+  checkIns: InsightCheckIn[],
+  stateLogs: InsightStateLog[]
+): WeekdayProtection[] {
+  const entries = [
+    ...checkIns.map((checkIn) => ({ at: checkIn.created_at, mode: checkIn.current_state })),
+    ...stateLogs.map((log) => ({ at: log.created_at, mode: log.mode })),
+  ];
+
+  return WEEKDAY_LABELS.map((label, weekday) => {
+    const onDay = entries.filter((entry) => new Date(entry.at).getUTCDay() === weekday);
+    const protectionCount = onDay.filter((entry) => entry.mode === "protection").length;
+
+    return {
+      weekday,
+      label,
+      entries: onDay.length,
+      protectionCount,
+      protectionRate: onDay.length > 0 ? round(protectionCount / onDay.length) : 0,
+    };
+  });
+}
+
+/**
+ * Recovery after each regeneration strategy logged in a budget: whether the
+ * next day's energy reached the user's average
+ */
+export function analyzeStrategyRecoveries(
+  budgets: InsightBudget[],
+  dailyEnergy: Map<string, number>
+): StrategyRecovery[] {
+  if (dailyEnergy.size === 0) return [];
+
+  const baseline = [...dailyEnergy.values()].reduce((sum, value) => sum + value, 0) / dailyEnergy.size;
+  const strategies = new Map<string, { strategy: string; nextDayEnergy: number[] }>();
+
+  budgets.forEach((budget) => {
+    const nextDayEnergy = dailyEnergy.get(nextDate(budget.date));
+    if (nextDayEnergy === undefined) return;
+
+    // Count each strategy once per day
+    const used = new Map<string, string>();
+    budget.activities
+      .filter((activity) => activity.category === "regeneration" || activity.cost < 0)
+      .forEach((activity) => {
+        const name = activity.name.trim();
+        if (name) used.set(name.toLowerCase(), name);
+      });
+
+    used.forEach((name, key) => {
+      const entry = strategies.get(key) ?? { strategy: name, nextDayEnergy: [] };
+      entry.nextDayEnergy.push(nextDayEnergy);
+      strategies.set(key, entry);
+    });
+  });
+
+  return [...strategies.values()]
+    .filter(({ nextDayEnergy }) => nextDayEnergy.length >= MIN_STRATEGY_USES)
+    .map(({ strategy, nextDayEnergy }) => {
+      const recoveries = nextDayEnergy.filter((energy) => energy >= baseline).length;
+      return {
+        strategy,
+        uses: nextDayEnergy.length,
+        recoveries,
+        recoveryRate: round(recoveries / nextDayEnergy.length),
+        averageNextDayEnergy: round(
+          nextDayEnergy.reduce((sum, energy) => sum + energy, 0) / nextDayEnergy.length,
+          1
+        ),
+      };
+    })
+    .sort((a, b) => b.recoveryRate - a.recoveryRate || b.uses - a.uses);
+}
+
+// ============================================================================
+// FINDINGS
+// ============================================================================
+
+/**
+ * Element-specific advice for a drain category
+ */
+function getDrainAdvice(category: DrainCategory, element: ElementData | null): string {
+  if (!element) {
+    return "Try spacing these days out or planning recovery time after them.";
+  }
+
+  if (category === "social") {
+    switch (element.idealSocialStimulus) {
+      case "LOW":
+        return `As a ${element.name} type you need less social stimulation than most, so plan quiet recovery after busy social days.`;
+      case "HIGH":
+        return `${element.name} types usually gain energy from people, so look at the kind of social time that drains you rather than the amount.`;
+      default:
+        return `As a ${element.name} type, balance social time with time on your own.`;
+    }
+  }
+
+  const drain = element.energyDrains[0];
+  return drain
+    ? `A common ${element.name} drain is "${drain.title.toLowerCase()}" - check whether your ${category} days involve it.`
+    : "Try spacing these days out or planning recovery time after them.";
+}
+
+/**
+ * Build findings from the analyses, personalized to the user's element
+ */
+export function buildFindings(
+  insights: Omit<EnergyInsights, "findings" | "element">,
+  element: ElementData | null
+): InsightFinding[] {
+  const findings: InsightFinding[] = [];
+
+  insights.categoryImpacts
+    .filter((impact) => impact.predictsLowEnergy)
+    .forEach((impact) => {
+      findings.push({
+        id: `drain-${impact.category}`,
+        kind: "drain",
+        tone: "warning",
+        title: `Heavy ${impact.category} days predict low energy`,
+        detail: `${percent(impact.lowAfterHeavyRate)} of your heavy ${impact.category} days were followed by a low energy day, compared with ${percent(impact.lowAfterLightRate)} after lighter days. ${getDrainAdvice(impact.category, element)}`,
+      });
+    });
+
+  const peak = [...insights.protectionByWeekday]
+    .filter((day) => day.entries >= MIN_SAMPLE_DAYS)
+    .sort((a, b) => b.protectionRate - a.protectionRate)[0];
+  if (peak && peak.protectionRate >= PROTECTION_ALERT_RATE) {
+    const manifestation = element?.stateManifestations.protection;
+    findings.push({
+      id: "protection-weekday",
+      kind: "protection",
+      tone: "warning",
+      title: `${peak.label}s are your protection mode days`,
+      detail: manifestation
+        ? `You were in protection mode in ${percent(peak.protectionRate)} of your ${peak.label} entries. For ${element?.name} types this often looks like: ${manifestation}`
+        : `You were in protection mode in ${percent(peak.protectionRate)} of your ${peak.label} entries.`,
+    });
+  }
+
+  const best = insights.strategyRecoveries[0];
+  if (best && best.recoveryRate >= 0.5) {
+    findings.push({
+      id: "recovery-best",
+      kind: "recovery",
+      tone: "positive",
+      title: `"${best.strategy}" helps you recover`,
+      detail: `${best.recoveries} of ${best.uses} times you used it, your energy the next day was at or above your average.`,
+    });
+  } else if (element) {
+    const suggestions = element.regenerationStrategies.daily.slice(0, 2);
+    if (suggestions.length > 0) {
+      findings.push({
+        id: "recovery-suggestion",
+        kind: "element",
+        tone: "info",
+        title: `Regeneration ideas for ${element.name} types`,
+        detail: `None of your logged strategies reliably lead to recovery yet. Try adding ${suggestions.map((s) => `"${s}"`).join(" or ")} to your energy budget and see how the next day feels.`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Compute energy insights for a user
+ *
+ * @example
+ * ```typescript
+ * const insights = calculateEnergyInsights({
+ *   checkIns,
+ *   stateLogs,
+ *   budgets,
+ *   element: "aquatic",
+ * });
+ * insights.findings; // personalized findings, most important first
+ * ```
+ */
+export function calculateEnergyInsights(input: EnergyInsightsInput): EnergyInsights {
+  const element = (input.element && elementsData[input.element]) || null;
+  const dailyEnergy = getDailyEnergy(input.checkIns);
+  const energies = [...dailyEnergy.values()];
+
+  const analyses = {
+    summary: {
+      checkInDays: dailyEnergy.size,
+      stateLogCount: input.stateLogs.length,
+      budgetDays: new Set(input.budgets.map((budget) => budget.date)).size,
+      averageEnergy:
+        energies.length > 0
+          ? round(energies.reduce((sum, energy) => sum + energy, 0) / energies.length, 1)
+          : null,
+      lowEnergyDays: energies.filter((energy) => energy <= LOW_ENERGY_THRESHOLD).length,
+    },
+    categoryImpacts: analyzeCategoryImpacts(input.budgets, dailyEnergy),
+    protectionByWeekday: analyzeProtectionByWeekday(input.checkIns, input.stateLogs),
+    strategyRecoveries: analyzeStrategyRecoveries(input.budgets, dailyEnergy),
+    hasEnoughData: dailyEnergy.size >= MIN_CHECK_IN_DAYS,
+  };
+
+  return {
+    ...analyses,
+    element: element ? { slug: element.slug, name: element.name, icon: element.icon } : null,
+    findings: analyses.hasEnoughData ? buildFindings(analyses, element) : [],
+  };
+}
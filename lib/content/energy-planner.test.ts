@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { elementsData } from "@/lib/elements-data";
+import {
+  buildWeekPlan,
+  getPlannedEnergy,
+  getWeekStart,
+  reconcileDay,
+  suggestRegeneration,
+  type PlannerTemplate,
+} from "./energy-planner";
+
+/**
+ * YYYY-MM-DD for day N of March 2026 (2026-03-02 is a Monday)
+ */
+const day = (n: number) => `2026-03-${String(n).padStart(2, "0")}`;
+
+const workday: PlannerTemplate = {
+  weekday: 1,
+  name: "Office Monday",
+  total_budget: 100,
+  activities: [
+    { name: "Commute", cost: 10, category: "chore" },
+    { name: "Meetings", cost: 60, category: "work" },
+  ],
+};
+
+// ============================================================================
+// WEEK TESTS
+// ============================================================================
+
+describe("getWeekStart", () => {
+  it("returns the Monday of the week", () => {
+    expect(getWeekStart(day(2))).toBe(day(2));
+    expect(getWeekStart(day(5))).toBe(day(2));
+    // Sunday belongs to the week that started six days earlier
+    expect(getWeekStart(day(8))).toBe(day(2));
+  });
+
+  it("Property: always a Monday no more than six days earlier", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 31 }), (n) => {
+        const start = getWeekStart(day(n));
+        const gap = (Date.parse(day(n)) - Date.parse(start)) / 86_400_000;
+
+        expect(new Date(`${start}T00:00:00Z`).getUTCDay()).toBe(1);
+        expect(gap).toBeGreaterThanOrEqual(0);
+        expect(gap).toBeLessThanOrEqual(6);
+      }),
+      { numRuns: 31 }
+    );
+  });
+});
+
+// ============================================================================
+// PLANNING TESTS
+// ============================================================================
+
+describe("buildWeekPlan", () => {
+  it("fills days from templates and lets saved budgets take precedence", () => {
+    const plan = buildWeekPlan({
+      weekStart: day(4),
+      templates: [workday, { ...workday, weekday: 3, name: null }],
+      budgets: [
+        { date: day(4), total_budget: 80, activities: [{ name: "Nap", cost: -10, category: "regeneration" }] },
+      ],
+      checkIns: [],
+    });
+
+    expect(plan.weekStart).toBe(day(2));
+    expect(plan.days.map((d) => d.label.slice(0, 3))).toEqual([
+      "Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun",
+    ]);
+    expect(plan.days[0]).toMatchObject({ source: "template", usage: 70, remaining: 30, templateName: "Office Monday" });
+    expect(plan.days[1]).toMatchObject({ source: "none", totalBudget: 0, overBudget: false });
+    expect(plan.days[2]).toMatchObject({ source: "budget", usage: -10, remaining: 90 });
+    expect(plan.summary.plannedDays).toBe(2);
+  });
+
+  it("warns about over-budget days with element suggestions", () => {
+    const plan = buildWeekPlan({
+      weekStart: day(2),
+      templates: [{ ...workday, total_budget: 60 }],
+      budgets: [],
+      checkIns: [],
+      element: "fiery",
+    });
+
+    expect(plan.days[0]).toMatchObject({ overBudget: true, deficit: 10 });
+    expect(plan.days[0].suggestions.length).toBeGreaterThan(0);
+    expect(elementsData.fiery.regenerationStrategies.daily).toContain(plan.days[0].suggestions[0]);
+    expect(plan.summary).toMatchObject({ overBudgetDays: 1, totalDeficit: 10 });
+    expect(plan.element?.name).toBe("Fiery");
+  });
+
+  it("reconciles planned days against check-in energy", () => {
+    const plan = buildWeekPlan({
+      weekStart: day(2),
+      templates: [workday],
+      budgets: [],
+      checkIns: [
+        { created_at: `${day(2)}T20:00:00.000Z`, energy_level: 1, current_state: "protection" },
+        { created_at: `${day(3)}T20:00:00.000Z`, energy_level: 4, current_state: "biological" },
+      ],
+    });
+
+    // 30 of 100 left plans for 2.2/5
+    expect(plan.days[0].reconciliation).toEqual({
+      plannedEnergy: 2.2,
+      actualEnergy: 1,
+      difference: -1.2,
+      status: "worse",
+    });
+    // Nothing was planned for Tuesday
+    expect(plan.days[1].reconciliation).toBeNull();
+    expect(plan.summary).toMatchObject({ reconciledDays: 1, worseThanPlannedDays: 1 });
+  });
+});
+
+describe("suggestRegeneration", () => {
+  const electric = elementsData.electric;
+
+  it("leads with emergency strategies for heavy deficits", () => {
+    expect(suggestRegeneration(electric, 40)[0]).toBe(
+      electric.regenerationStrategies.emergency[0]
+    );
+  });
+
+  it("skips strategies that are already planned", () => {
+    const first = electric.regenerationStrategies.daily[0];
+
+    expect(suggestRegeneration(electric, 5, [first])).not.toContain(first);
+  });
+
+  it("suggests nothing without an element or a deficit", () => {
+    expect(suggestRegeneration(null, 30)).toEqual([]);
+    expect(suggestRegeneration(electric, 0)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// RECONCILIATION TESTS
+// ============================================================================
+
+describe("reconcileDay", () => {
+  it("treats differences under one point as on plan", () => {
+    expect(reconcileDay(3, 3.5).status).toBe("as_planned");
+    expect(reconcileDay(3, 4).status).toBe("better");
+    expect(reconcileDay(3, 2).status).toBe("worse");
+  });
+
+  it("Property: planned energy stays on the 1-5 check-in scale", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 200 }),
+        fc.integer({ min: -400, max: 400 }),
+        (total, remaining) => {
+          const planned = getPlannedEnergy(total, remaining);
+          expect(planned).toBeGreaterThanOrEqual(1);
+          expect(planned).toBeLessThanOrEqual(5);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Energy Planner
+ *
+ * Lays out a week of energy budgets from saved daily budgets and recurring
+ * weekday templates:
+ * - Usage and remaining energy for each planned day
+ * - Warnings for days that are over budget, with regeneration suggestions
+ *   drawn from the user's element
+ * - Reconciliation of the planned end-of-day energy against the energy the
+ *   user actually reported in their check-ins
+ *
+ * Days are calendar dates (YYYY-MM-DD); weeks start on Monday.
+ */
+
+import { elementsData, type ElementData } from "@/lib/elements-data";
+import { getDailyEnergy, type InsightCheckIn } from "./energy-insights";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Deficit at which emergency strategies are suggested before daily ones
+ */
+const HEAVY_DEFICIT = 25;
+
+/**
+ * Most regeneration suggestions shown for an over-budget day
+ */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Difference in check-in energy (1-5) still treated as matching the plan
+ */
+const RECONCILE_TOLERANCE = 1;
+
+const WEEKDAY_LABELS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PlannerActivity {
+  name: string;
+  /** Positive drains, negative regenerates */
+  cost: number;
+  category: string;
+}
+
+export interface PlannerTemplate {
+  /** 0 = Sunday */
+  weekday: number;
+  name?: string | null;
+  total_budget: number;
+  activities: PlannerActivity[];
+}
+
+export interface PlannerBudget {
+  /** YYYY-MM-DD */
+  date: string;
+  total_budget: number;
+  activities: PlannerActivity[];
+}
+
+/** Where a day's plan comes from: a saved budget wins over a template */
+export type PlanSource = "budget" | "template" | "none";
+
+export type ReconciliationStatus = "better" | "as_planned" | "worse";
+
+export interface DayReconciliation {
+  /** Check-in energy (1-5) the plan's remaining budget corresponds to */
+  plannedEnergy: number;
+  /** Average check-in energy (1-5) on the day */
+  actualEnergy: number;
+  /** actualEnergy - plannedEnergy */
+  difference: number;
+  status: ReconciliationStatus;
+}
+
+export interface PlannedDay {
+  date: string;
+  weekday: number;
+  label: string;
+  source: PlanSource;
+  templateName: string | null;
+  totalBudget: number;
+  activities: PlannerActivity[];
+  usage: number;
+  remaining: number;
+  overBudget: boolean;
+  /** Energy needed to get back to zero remaining (0 when within budget) */
+  deficit: number;
+  suggestions: string[];
+  reconciliation: DayReconciliation | null;
+}
+
+export interface WeekPlan {
+  weekStart: string;
+  days: PlannedDay[];
+  summary: {
+    plannedDays: number;
+    overBudgetDays: number;
+    totalDeficit: number;
+    reconciledDays: number;
+    worseThanPlannedDays: number;
+  };
+  element: { slug: string; name: string; icon: string } | null;
+}
+
+export interface WeekPlanInput {
+  /** Any date in the week; normalized to its Monday */
+  weekStart: string;
+  templates: PlannerTemplate[];
+  budgets: PlannerBudget[];
+  checkIns: InsightCheckIn[];
+  element?: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const round = (value: number, places = 2) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Monday (YYYY-MM-DD) of the week containing the given date
+ */
+export function getWeekStart(date: string): string {
+  const weekday = new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  return addDays(date.slice(0, 10), weekday === 0 ? -6 : 1 - weekday);
+}
+
+/**
+ * Seven dates starting from the Monday of the given date's week
+ */
+export function getWeekDates(date: string): string[] {
+  const start = getWeekStart(date);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+}
+
+/**
+ * Net energy spent by a set of activities
+ */
+export function getUsage(activities: PlannerActivity[]): number {
+  return activities.reduce((sum, activity) => sum + activity.cost, 0);
+}
+
+/**
+ * Map the share of budget left at the end of the day onto the 1-5 check-in
+ * energy scale: nothing left is 1, a full budget is 5
+ */
+export function getPlannedEnergy(totalBudget: number, remaining: number): number {
+  if (totalBudget <= 0) return 1;
+  const share = Math.min(Math.max(remaining / totalBudget, 0), 1);
+  return round(1 + 4 * share);
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * Regeneration strategies for an over-budget day, skipping any already planned
+ */
+export function suggestRegeneration(
+  element: ElementData | null,
+  deficit: number,
+  plannedNames: string[] = []
+): string[] {
+  if (!element || deficit <= 0) return [];
+
+  const { daily, emergency, passive } = element.regenerationStrategies;
+  const candidates =
+    deficit >= HEAVY_DEFICIT
+      ? [...emergency, ...daily]
+      : [...daily, ...passive];
+  const planned = new Set(plannedNames.map((name) => name.trim().toLowerCase()));
+
+  return [...new Set(candidates)]
+    .filter((strategy) => !planned.has(strategy.toLowerCase()))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Compare reported energy with the energy the plan left room for
+ */
+export function reconcileDay(
+  plannedEnergy: number,
+  actualEnergy: number
+): DayReconciliation {
+  const difference = round(actualEnergy - plannedEnergy);
+  const status: ReconciliationStatus =
+    Math.abs(difference) < RECONCILE_TOLERANCE
+      ? "as_planned"
+      : difference > 0
+        ? "better"
+        : "worse";
+
+  return {
+    plannedEnergy,
+    actualEnergy: round(actualEnergy),
+    difference,
+    status,
+  };
+}
+
+/**
+ * Build the plan for the week containing input.weekStart
+ */
+export function buildWeekPlan(input: WeekPlanInput): WeekPlan {
+  const element = input.element ? elementsData[input.element] ?? null : null;
+  const budgetsByDate = new Map(input.budgets.map((budget) => [budget.date, budget]));
+  const templatesByWeekday = new Map(
+    input.templates.map((template) => [template.weekday, template])
+  );
+  const dailyEnergy = getDailyEnergy(input.checkIns);
+
+  const days = getWeekDates(input.weekStart).map((date): PlannedDay => {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const budget = budgetsByDate.get(date);
+    const template = templatesByWeekday.get(weekday);
+    const source: PlanSource = budget ? "budget" : template ? "template" : "none";
+    const plan = budget ?? template;
+
+    const totalBudget = plan?.total_budget ?? 0;
+    const activities = plan?.activities ?? [];
+    const usage = getUsage(activities);
+    const remaining = totalBudget - usage;
+    const deficit = plan && remaining < 0 ? -remaining : 0;
+    const actualEnergy = dailyEnergy.get(date);
+
+    return {
+      date,
+      weekday,
+      label: WEEKDAY_LABELS[weekday],
+      source,
+      templateName: source === "template" ? template?.name ?? null : null,
+      totalBudget,
+      activities,
+      usage,
+      remaining,
+      overBudget: deficit > 0,
+      deficit,
+      suggestions: suggestRegeneration(
+        element,
+        deficit,
+        activities.map((activity) => activity.name)
+      ),
+      reconciliation:
+        plan && actualEnergy !== undefined
+          ? reconcileDay(getPlannedEnergy(totalBudget, remaining), actualEnergy)
+          : null,
+    };
+  });
+
+  const reconciled = days.filter((day) => day.reconciliation);
+
+  return {
+    weekStart: days[0].date,
+    days,
+    summary: {
+      plannedDays: days.filter((day) => day.source !== "none").length,
+      overBudgetDays: days.filter((day) => day.overBudget).length,
+      totalDeficit: days.reduce((sum, day) => sum + day.deficit, 0),
+      reconciledDays: reconciled.length,
+      worseThanPlannedDays: reconciled.filter(
+        (day) => day.reconciliation?.status === "worse"
+      ).length,
+    },
+    element: element
+      ? { slug: element.slug, name: element.name, icon: element.icon }
+      : null,
+  };
+}
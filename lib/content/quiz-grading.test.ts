@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { createSeededRandom } from './quiz-pools';
+import {
+  formatQuizAnswer,
+  gradeQuestion,
+  isQuestionAnswered,
+  toQuestionForTaking,
+  type QuizQuestion,
+} from './quiz-grading';
+
+/**
+ * Build a question of the given type worth 4 points
+ */
+function question(overrides: Partial<QuizQuestion> & Pick<QuizQuestion, 'type' | 'correct_answer'>): QuizQuestion {
+  return { id: 'q_1', question: 'Question?', points: 4, ...overrides };
+}
+
+// ============================================================================
+// SINGLE ANSWER TESTS
+// ============================================================================
+
+describe('gradeQuestion - single answers', () => {
+  it('grades multiple choice and short answers case-insensitively', () => {
+    const mc = question({ type: 'multiple_choice', options: ['Fire', 'Water'], correct_answer: 'Fire' });
+    const short = question({ type: 'short_answer', correct_answer: 'Dopamine' });
+
+    expect(gradeQuestion(mc, 'fire')).toEqual({ correct: true, earned: 4 });
+    expect(gradeQuestion(mc, 'Water')).toEqual({ correct: false, earned: 0 });
+    expect(gradeQuestion(short, '  dopamine ')).toEqual({ correct: true, earned: 4 });
+  });
+
+  it('requires an exact boolean for true/false', () => {
+    const tf = question({ type: 'true_false', correct_answer: false });
+
+    expect(gradeQuestion(tf, false).correct).toBe(true);
+    expect(gradeQuestion(tf, 'false').correct).toBe(false);
+  });
+
+  it('accepts any of the fill-in-the-blank answers', () => {
+    const blank = question({ type: 'fill_blank', correct_answer: ['synapse', 'synaptic cleft'] });
+
+    expect(gradeQuestion(blank, 'Synaptic Cleft').correct).toBe(true);
+    expect(gradeQuestion(blank, 'axon').correct).toBe(false);
+  });
+
+  it('treats unanswered questions as wrong', () => {
+    const mc = question({ type: 'multiple_choice', correct_answer: 'Fire' });
+
+    expect(gradeQuestion(mc, undefined)).toEqual({ correct: false, earned: 0 });
+    expect(gradeQuestion(mc, null)).toEqual({ correct: false, earned: 0 });
+  });
+});
+
+// ============================================================================
+// NUMERIC TESTS
+// ============================================================================
+
+describe('gradeQuestion - numeric', () => {
+  it('accepts answers within the tolerance, including numeric strings', () => {
+    const numeric = question({ type: 'numeric', correct_answer: 3.5, tolerance: 0.1 });
+
+    expect(gradeQuestion(numeric, 3.6).correct).toBe(true);
+    expect(gradeQuestion(numeric, '3.4').correct).toBe(true);
+    expect(gradeQuestion(numeric, 3.61).correct).toBe(false);
+  });
+
+  it('rejects blank and non-numeric answers', () => {
+    const numeric = question({ type: 'numeric', correct_answer: 0 });
+
+    expect(gradeQuestion(numeric, '').correct).toBe(false);
+    expect(gradeQuestion(numeric, 'zero').correct).toBe(false);
+    expect(gradeQuestion(numeric, '0').correct).toBe(true);
+  });
+
+  it('Property: any answer within tolerance is correct', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -1000, max: 1000 }),
+        fc.integer({ min: 0, max: 10 }),
+        fc.double({ min: -1, max: 1, noNaN: true }),
+        (target, tolerance, fraction) => {
+          const numeric = question({ type: 'numeric', correct_answer: target, tolerance });
+          expect(gradeQuestion(numeric, target + tolerance * fraction).correct).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ============================================================================
+// PARTIAL CREDIT TESTS
+// ============================================================================
+
+describe('gradeQuestion - multi-select', () => {
+  const multi = question({
+    type: 'multi_select',
+    options: ['Fire', 'Water', 'Earth', 'Air'],
+    correct_answer: ['Fire', 'Earth'],
+  });
+
+  it('awards full credit only for the exact set, in any order', () => {
+    expect(gradeQuestion(multi, ['Earth', 'Fire'])).toEqual({ correct: true, earned: 4 });
+  });
+
+  it('awards partial credit with wrong picks cancelling right ones', () => {
+    expect(gradeQuestion(multi, ['Fire'])).toEqual({ correct: false, earned: 2 });
+    expect(gradeQuestion(multi, ['Fire', 'Water'])).toEqual({ correct: false, earned: 0 });
+    expect(gradeQuestion(multi, ['Fire', 'Earth', 'Air'])).toEqual({ correct: false, earned: 2 });
+  });
+
+  it('awards nothing short of the exact set when partial credit is off', () => {
+    expect(gradeQuestion({ ...multi, partial_credit: false }, ['Fire']).earned).toBe(0);
+  });
+
+  it('Property: earned points stay between 0 and the question points', () => {
+    fc.assert(
+      fc.property(fc.subarray(['Fire', 'Water', 'Earth', 'Air']), (answer) => {
+        const { earned } = gradeQuestion(multi, answer);
+        expect(earned).toBeGreaterThanOrEqual(0);
+        expect(earned).toBeLessThanOrEqual(multi.points);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('gradeQuestion - matching', () => {
+  const matching = question({
+    type: 'matching',
+    items: ['Neuron', 'Synapse'],
+    options: ['Cell', 'Junction'],
+    correct_answer: { Neuron: 'Cell', Synapse: 'Junction' },
+  });
+
+  it('awards credit for each correct pair', () => {
+    expect(gradeQuestion(matching, { Neuron: 'cell', Synapse: 'Junction' }).correct).toBe(true);
+    expect(gradeQuestion(matching, { Neuron: 'Cell', Synapse: 'Cell' })).toEqual({ correct: false, earned: 2 });
+    expect(gradeQuestion(matching, { Neuron: 'Cell' }).earned).toBe(2);
+  });
+
+  it('awards nothing for an incomplete match when partial credit is off', () => {
+    expect(gradeQuestion({ ...matching, partial_credit: false }, { Neuron: 'Cell' }).earned).toBe(0);
+  });
+});
+
+describe('gradeQuestion - ordering', () => {
+  const ordering = question({
+    type: 'ordering',
+    options: ['Plan', 'Build', 'Test'],
+    correct_answer: ['Plan', 'Build', 'Test'],
+  });
+
+  it('is all-or-nothing', () => {
+    expect(gradeQuestion(ordering, ['Plan', 'Build', 'Test']).correct).toBe(true);
+    expect(gradeQuestion(ordering, ['Plan', 'Test', 'Build']).earned).toBe(0);
+    expect(gradeQuestion(ordering, ['Plan', 'Build']).earned).toBe(0);
+  });
+});
+
+// ============================================================================
+// PRESENTATION TESTS
+// ============================================================================
+
+describe('toQuestionForTaking', () => {
+  it('removes the answer, explanation and tolerance', () => {
+    const taking = toQuestionForTaking(
+      question({ type: 'numeric', correct_answer: 7, tolerance: 1, explanation: 'Seven' })
+    );
+
+    expect(taking).not.toHaveProperty('correct_answer');
+    expect(taking).not.toHaveProperty('explanation');
+    expect(taking).not.toHaveProperty('tolerance');
+  });
+
+  it('Property: ordering items keep every item without mutating the source', () => {
+    fc.assert(
+      fc.property(fc.integer(), (seed) => {
+        const source = question({
+          type: 'ordering',
+          options: ['A', 'B', 'C', 'D'],
+          correct_answer: ['A', 'B', 'C', 'D'],
+        });
+        const taking = toQuestionForTaking(source, createSeededRandom(seed));
+
+        expect([...(taking.options ?? [])].sort()).toEqual(['A', 'B', 'C', 'D']);
+        expect(source.options).toEqual(['A', 'B', 'C', 'D']);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property: matching options are served in any order, the stored one included', () => {
+    const source = question({
+      type: 'matching',
+      items: ['Neuron', 'Synapse', 'Axon'],
+      options: ['Cell', 'Fiber', 'Junction'],
+      correct_answer: { Neuron: 'Cell', Synapse: 'Junction', Axon: 'Fiber' },
+    });
+    const served = new Set<string>();
+
+    fc.assert(
+      fc.property(fc.integer(), (seed) => {
+        const taking = toQuestionForTaking(source, createSeededRandom(seed));
+
+        expect([...(taking.options ?? [])].sort()).toEqual(['Cell', 'Fiber', 'Junction']);
+        expect(taking).not.toHaveProperty('correct_answer');
+        served.add((taking.options ?? []).join(','));
+      }),
+      { numRuns: 200 }
+    );
+
+    expect(served.size).toBe(6);
+  });
+});
+
+describe('isQuestionAnswered', () => {
+  it('ignores blank text and empty selections', () => {
+    expect(isQuestionAnswered('  ')).toBe(false);
+    expect(isQuestionAnswered([])).toBe(false);
+    expect(isQuestionAnswered({})).toBe(false);
+    expect(isQuestionAnswered(false)).toBe(true);
+    expect(isQuestionAnswered(0)).toBe(true);
+  });
+});
+
+describe('formatQuizAnswer', () => {
+  it('formats lists, pairs and missing answers', () => {
+    expect(formatQuizAnswer(['Plan', 'Build'])).toBe('Plan, Build');
+    expect(formatQuizAnswer({ Neuron: 'Cell', Synapse: 'Junction' })).toBe('Neuron → Cell; Synapse → Junction');
+    expect(formatQuizAnswer(undefined)).toBe('No answer');
+    expect(formatQuizAnswer(true)).toBe('true');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Quiz Question Grading
+ *
+ * Question types, answer shapes and grading rules shared by the quiz API,
+ * the quiz repository and the quiz player. Grading is pure so results can be
+ * reproduced from an attempt's question snapshot and submitted answers.
+ *
+ * Answer shapes by type:
+ * - multiple_choice: option text
+ * - true_false: boolean
+ * - short_answer: free text (case-insensitive match)
+ * - multi_select: option texts; partial credit unless disabled
+ * - matching: { item: option } pairs; partial credit unless disabled
+ * - ordering: option texts in order (all-or-nothing)
+ * - numeric: number, correct within an absolute tolerance
+ * - fill_blank: free text matching any accepted answer (case-insensitive)
+ */
+
+import { shuffleItems } from './quiz-pools';
+
+/** Question types supported by the quiz system */
+export type QuizQuestionType =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'short_answer'
+  | 'multi_select'
+  | 'matching'
+  | 'ordering'
+  | 'numeric'
+  | 'fill_blank';
+
+/** All question types, in the order they are offered to authors */
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = [
+  'multiple_choice',
+  'true_false',
+  'short_answer',
+  'multi_select',
+  'matching',
+  'ordering',
+  'numeric',
+  'fill_blank',
+];
+
+/** A submitted answer, or a question's correct answer */
+export type QuizAnswer = string | boolean | number | string[] | Record<string, string>;
+
+/** Question structure within a quiz */
+export interface QuizQuestion {
+  id: string;
+  question: string;
+  type: QuizQuestionType;
+  /** Choices (multiple choice, multi-select, matching targets) or items to order */
+  options?: string[];
+  /** Left-hand items to match against options (matching) */
+  items?: string[];
+  correct_answer: QuizAnswer;
+  /** Allowed absolute difference from the correct answer (numeric) */
+  tolerance?: number;
+  /** Award proportional points (multi-select, matching); defaults to true */
+  partial_credit?: boolean;
+  points: number;
+  explanation?: string;
+}
+
+/** Question as served to a learner (no answer or explanation) */
+export type QuizQuestionForTaking = Omit<QuizQuestion, 'correct_answer' | 'explanation' | 'tolerance'>;
+
+/** Grade for a single question */
+export interface QuestionGrade {
+  /** Fully correct */
+  correct: boolean;
+  /** Points earned, including partial credit */
+  earned: number;
+}
+
+const normalize = (value: unknown) => String(value).toLowerCase().trim();
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((item) => typeof item === 'string');
+
+/**
+ * Fraction of credit (0-1) earned for an answer
+ */
+function scoreAnswer(question: QuizQuestion, answer: QuizAnswer): number {
+  const expected = question.correct_answer;
+  const partial = question.partial_credit !== false;
+
+  switch (question.type) {
+    case 'true_false':
+      return answer === expected ? 1 : 0;
+
+    case 'multiple_choice':
+    case 'short_answer':
+      return normalize(answer) === normalize(expected) ? 1 : 0;
+
+    case 'fill_blank': {
+      const accepted = isStringArray(expected) ? expected : [String(expected)];
+      return accepted.some((value) => normalize(value) === normalize(answer)) ? 1 : 0;
+    }
+
+    case 'numeric': {
+      const value = typeof answer === 'number' ? answer : Number(String(answer).trim());
+      const target = Number(expected);
+      if (String(answer).trim() === '' || !Number.isFinite(value) || !Number.isFinite(target)) {
+        return 0;
+      }
+      // Small epsilon so decimal tolerances like 0.1 behave as written
+      return Math.abs(value - target) <= (question.tolerance ?? 0) + 1e-9 ? 1 : 0;
+    }
+
+    case 'multi_select': {
+      if (!isStringArray(expected) || !isStringArray(answer) || expected.length === 0) return 0;
+      const correct = new Set(expected.map(normalize));
+      const selected = new Set(answer.map(normalize));
+      const hits = [...selected].filter((option) => correct.has(option)).length;
+      const misses = selected.size - hits;
+
+      if (hits === correct.size && misses === 0) return 1;
+      // Each wrong selection cancels out a right one
+      return partial ? Math.max(0, (hits - misses) / correct.size) : 0;
+    }
+
+    case 'matching': {
+      if (!isStringRecord(expected) || !isStringRecord(answer)) return 0;
+      const pairs = Object.entries(expected);
+      if (pairs.length === 0) return 0;
+      const matched = pairs.filter(
+        ([item, option]) => answer[item] !== undefined && normalize(answer[item]) === normalize(option)
+      ).length;
+
+      if (matched === pairs.length) return 1;
+      return partial ? matched / pairs.length : 0;
+    }
+
+    case 'ordering': {
+      if (!isStringArray(expected) || !isStringArray(answer)) return 0;
+      return answer.length === expected.length &&
+        expected.every((item, index) => normalize(item) === normalize(answer[index]))
+        ? 1
+        : 0;
+    }
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Grade a single answer
+ *
+ * @param question - Question including its correct answer
+ * @param answer - Submitted answer (undefined when unanswered)
+ * @returns Whether the answer is fully correct and the points earned
+ *
+ * @example
+ * ```typescript
+ * gradeQuestion(
+ *   { id: 'q1', question: 'Pick the primes', type: 'multi_select',
+ *     options: ['2', '3', '4'], correct_answer: ['2', '3'], points: 2 },
+ *   ['2']
+ * ); // { correct: false, earned: 1 }
+ * ```
+ */
+export function gradeQuestion(
+  question: QuizQuestion,
+  answer: QuizAnswer | undefined | null
+): QuestionGrade {
+  if (answer === undefined || answer === null) {
+    return { correct: false, earned: 0 };
+  }
+
+  const credit = scoreAnswer(question, answer);
+  return {
+    correct: credit === 1,
+    earned: Math.round(credit * question.points * 100) / 100,
+  };
+}
+
+/**
+ * Whether an answer counts as given (empty selections and blank text do not)
+ */
+export function isQuestionAnswered(answer: QuizAnswer | undefined | null): boolean {
+  if (answer === undefined || answer === null) return false;
+  if (typeof answer === 'string') return answer.trim() !== '';
+  if (Array.isArray(answer)) return answer.length > 0;
+  if (typeof answer === 'object') return Object.keys(answer).length > 0;
+  return true;
+}
+
+/** Types whose options are always shuffled before serving */
+const SHUFFLED_FOR_TAKING_TYPES: QuizQuestionType[] = ['ordering', 'matching'];
+
+/**
+ * Strip the answer from a question before serving it to a learner.
+ * Ordering items are stored in the correct order, so they and matching
+ * options are served in a uniform shuffle: every order is equally likely,
+ * including the stored one, so the order says nothing about the answer.
+ */
+export function toQuestionForTaking(
+  question: QuizQuestion,
+  random: () => number = Math.random
+): QuizQuestionForTaking {
+  const { correct_answer: _answer, explanation: _explanation, tolerance: _tolerance, ...rest } = question;
+
+  if (!SHUFFLED_FOR_TAKING_TYPES.includes(question.type) || !question.options) return rest;
+
+  return { ...rest, options: shuffleItems(question.options, random) };
+}
+
+/**
+ * Human-readable form of an answer for results and feedback
+ *
+ * @example
+ * ```typescript
+ * formatQuizAnswer(['Plan', 'Build', 'Test']); // 'Plan, Build, Test'
+ * formatQuizAnswer({ Neuron: 'Cell' });       // 'Neuron → Cell'
+ * ```
+ */
+export function formatQuizAnswer(answer: QuizAnswer | undefined | null): string {
+  if (answer === undefined || answer === null) return 'No answer';
+  if (Array.isArray(answer)) return answer.length > 0 ? answer.join(', ') : 'No answer';
+  if (typeof answer === 'object') {
+    const pairs = Object.entries(answer);
+    return pairs.length > 0 ? pairs.map(([item, option]) => `${item} → ${option}`).join('; ') : 'No answer';
+  }
+  return String(answer);
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  buildAttemptQuestions,
+  createSeededRandom,
+  drawPoolQuestions,
+  shuffleItems,
+  type PooledQuestion,
+} from './quiz-pools';
+
+/**
+ * Build a bank of multiple choice questions with alternating topic tags
+ */
+function bank(bankId: string, size: number): PooledQuestion[] {
+  return Array.from({ length: size }, (_, index) => ({
+    id: `${bankId}-${index}`,
+    bank_id: bankId,
+    type: 'multiple_choice',
+    options: ['A', 'B', 'C', 'D'],
+    tags: [index % 2 === 0 ? 'even' : 'odd'],
+  }));
+}
+
+const candidates = [...bank('neurons', 10), ...bank('energy', 6)];
+
+// ============================================================================
+// RANDOMNESS TESTS
+// ============================================================================
+
+describe('createSeededRandom', () => {
+  it('Property: the same seed yields the same sequence within [0, 1)', () => {
+    fc.assert(
+      fc.property(fc.integer(), (seed) => {
+        const first = createSeededRandom(seed);
+        const second = createSeededRandom(seed);
+
+        for (let i = 0; i < 20; i++) {
+          const value = first();
+          expect(value).toBe(second());
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(1);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('shuffleItems', () => {
+  it('Property: returns a permutation and leaves the input untouched', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer()), fc.integer(), (items, seed) => {
+        const original = [...items];
+        const shuffled = shuffleItems(items, createSeededRandom(seed));
+
+        expect(items).toEqual(original);
+        expect([...shuffled].sort()).toEqual([...items].sort());
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ============================================================================
+// POOL DRAWING TESTS
+// ============================================================================
+
+describe('drawPoolQuestions', () => {
+  it('Property: draws the requested number from each pool without repeats', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 10 }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer(),
+        (neuronCount, energyCount, seed) => {
+          const drawn = drawPoolQuestions(
+            [
+              { bank_id: 'neurons', draw_count: neuronCount },
+              { bank_id: 'energy', draw_count: energyCount },
+            ],
+            candidates,
+            createSeededRandom(seed)
+          );
+
+          expect(drawn.filter((q) => q.bank_id === 'neurons')).toHaveLength(neuronCount);
+          expect(drawn.filter((q) => q.bank_id === 'energy')).toHaveLength(energyCount);
+          expect(new Set(drawn.map((q) => q.id)).size).toBe(drawn.length);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('takes everything available when a pool is smaller than its draw count', () => {
+    const drawn = drawPoolQuestions([{ bank_id: 'energy', draw_count: 50 }], candidates);
+    expect(drawn).toHaveLength(6);
+  });
+
+  it('only draws questions matching the pool tags', () => {
+    const drawn = drawPoolQuestions(
+      [{ bank_id: 'neurons', draw_count: 3, tags: ['odd'] }],
+      candidates,
+      createSeededRandom(7)
+    );
+
+    expect(drawn).toHaveLength(3);
+    expect(drawn.every((q) => q.tags?.includes('odd'))).toBe(true);
+  });
+
+  it('does not repeat a question when two pools share a bank', () => {
+    const drawn = drawPoolQuestions(
+      [
+        { bank_id: 'energy', draw_count: 4 },
+        { bank_id: 'energy', draw_count: 4 },
+      ],
+      candidates,
+      createSeededRandom(3)
+    );
+
+    expect(drawn).toHaveLength(6);
+    expect(new Set(drawn.map((q) => q.id)).size).toBe(6);
+  });
+
+  it('skips excluded questions', () => {
+    const drawn = drawPoolQuestions(
+      [{ bank_id: 'energy', draw_count: 6 }],
+      candidates,
+      Math.random,
+      ['energy-0', 'energy-1']
+    );
+
+    expect(drawn.map((q) => q.id)).not.toContain('energy-0');
+    expect(drawn).toHaveLength(4);
+  });
+
+  it('draws different question sets across attempts', () => {
+    const pools = [{ bank_id: 'neurons', draw_count: 3 }];
+    const sets = new Set(
+      [1, 2, 3, 4, 5].map((seed) =>
+        drawPoolQuestions(pools, candidates, createSeededRandom(seed))
+          .map((q) => q.id)
+          .sort()
+          .join(',')
+      )
+    );
+
+    expect(sets.size).toBeGreaterThan(1);
+  });
+});
+
+// ============================================================================
+// ATTEMPT BUILDING TESTS
+// ============================================================================
+
+describe('buildAttemptQuestions', () => {
+  const fixed = [
+    { id: 'q_1', type: 'true_false' },
+    { id: 'q_2', type: 'multiple_choice', options: ['Yes', 'No', 'Maybe'] },
+  ];
+
+  it('keeps fixed questions first and in order without shuffling', () => {
+    const drawn = bank('energy', 2);
+    const questions = buildAttemptQuestions(fixed, drawn);
+
+    expect(questions.map((q) => q.id)).toEqual(['q_1', 'q_2', 'energy-0', 'energy-1']);
+    expect(questions[1].options).toEqual(['Yes', 'No', 'Maybe']);
+  });
+
+  it('Property: shuffling keeps every question and every option', () => {
+    fc.assert(
+      fc.property(fc.integer(), (seed) => {
+        const drawn = bank('neurons', 4);
+        const questions = buildAttemptQuestions(
+          fixed,
+          drawn,
+          { shuffleQuestions: true, shuffleOptions: true },
+          createSeededRandom(seed)
+        );
+
+        expect(questions.map((q) => q.id).sort()).toEqual(
+          [...fixed, ...drawn].map((q) => q.id).sort()
+        );
+        questions.forEach((question) => {
+          const source = [...fixed, ...drawn].find((q) => q.id === question.id);
+          expect([...(question.options ?? [])].sort()).toEqual([...(source?.options ?? [])].sort());
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('does not mutate the source questions when shuffling options', () => {
+    const drawn = bank('energy', 3);
+    buildAttemptQuestions(fixed, drawn, { shuffleOptions: true }, createSeededRandom(11));
+
+    expect(drawn.every((q) => q.options?.join('') === 'ABCD')).toBe(true);
+    expect(fixed[1].options).toEqual(['Yes', 'No', 'Maybe']);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Quiz Question Pools
+ *
+ * Draws the questions served for a single quiz attempt: the quiz's fixed
+ * questions plus N random questions from each configured question bank pool,
+ * with optional question and option shuffling. The result is stored as the
+ * attempt snapshot, so grading never depends on the bank's current contents.
+ */
+
+/** A pool a quiz draws from on every attempt */
+export interface QuizQuestionPool {
+  bank_id: string;
+  /** Number of questions to draw per attempt */
+  draw_count: number;
+  /** Only draw questions carrying at least one of these tags */
+  tags?: string[];
+}
+
+/** Shuffle settings for building an attempt */
+export interface AttemptShuffleOptions {
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+}
+
+/** Minimal question shape the drawing functions need */
+export interface DrawableQuestion {
+  id: string;
+  type: string;
+  options?: string[];
+}
+
+/** A bank question that can be drawn into an attempt */
+export interface PooledQuestion extends DrawableQuestion {
+  bank_id: string;
+  tags?: string[];
+}
+
+/** Question types whose options are choices, so their order carries no meaning */
+const SHUFFLED_OPTION_TYPES = ['multiple_choice', 'multi_select', 'matching'];
+
+/**
+ * Create a deterministic random number generator (mulberry32)
+ *
+ * @param seed - Any 32-bit integer
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Return a shuffled copy of a list (Fisher-Yates)
+ */
+export function shuffleItems<T>(items: readonly T[], random: () => number = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Draw questions for each pool without repeating a question across pools.
+ * A pool with fewer matching questions than its draw count contributes all of them.
+ *
+ * @param pools - Pool configuration from the quiz
+ * @param candidates - Bank questions for every bank referenced by the pools
+ * @param exclude - Question IDs already in the attempt (e.g. fixed questions)
+ */
+export function drawPoolQuestions<T extends PooledQuestion>(
+  pools: QuizQuestionPool[],
+  candidates: T[],
+  random: () => number = Math.random,
+  exclude: Iterable<string> = []
+): T[] {
+  const used = new Set(exclude);
+  const drawn: T[] = [];
+
+  for (const pool of pools) {
+    const eligible = candidates.filter(
+      (question) =>
+        question.bank_id === pool.bank_id &&
+        !used.has(question.id) &&
+        (!pool.tags?.length || pool.tags.some((tag) => question.tags?.includes(tag)))
+    );
+
+    for (const question of shuffleItems(eligible, random).slice(0, pool.draw_count)) {
+      used.add(question.id);
+      drawn.push(question);
+    }
+  }
+
+  return drawn;
+}
+
+/**
+ * Build the question list for one attempt from the quiz's fixed questions and
+ * the questions drawn from its pools, applying the quiz's shuffle settings.
+ * Choice answers are stored as option text, so reordering options does not
+ * affect grading.
+ */
+export function buildAttemptQuestions<T extends DrawableQuestion>(
+  fixed: T[],
+  drawn: T[],
+  { shuffleQuestions = false, shuffleOptions = false }: AttemptShuffleOptions = {},
+  random: () => number = Math.random
+): T[] {
+  const combined = [...fixed, ...drawn];
+  const ordered = shuffleQuestions ? shuffleItems(combined, random) : combined;
+
+  if (!shuffleOptions) return ordered;
+
+  return ordered.map((question) =>
+    SHUFFLED_OPTION_TYPES.includes(question.type) && question.options && question.options.length > 1
+      ? { ...question, options: shuffleItems(question.options, random) }
+      : question
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Course Access
+ * Loads a course's gating rules and a student's progress, and enforces the
+ * result in lesson, quiz and enrollment routes. Admins and the course's
+ * instructor see everything unlocked.
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { ApiError, forbiddenError, notFoundError } from '@/lib/api/error-handler';
+import { contentPrerequisiteRepository } from '@/lib/db/content-prerequisites';
+import { coursePrerequisiteRepository } from '@/lib/db/course-prerequisites';
+import { courseRepository } from '@/lib/db/courses';
+import { enrollmentRepository } from '@/lib/db/enrollments';
+import { lessonCompletionsRepository } from '@/lib/db/lesson-completions';
+import { moduleRepository } from '@/lib/db/modules';
+import { quizRepository } from '@/lib/db/quizzes';
+import { userRepository } from '@/lib/db/users';
+import type { Database } from '@/lib/types/supabase';
+import {
+  evaluateCourseAccess,
+  type ContentAccess,
+  type CourseAccess,
+  type CourseStructure,
+  type LearnerProgress,
+  type PrerequisiteRequirementType,
+  type PrerequisiteTargetType,
+} from './gating';
+
+/** Enrollments that no longer (or do not yet) give access to the course */
+export const INACTIVE_PAYMENT_STATUSES = ['pending', 'cancelled', 'failed', 'refunded'];
+
+type ModuleRow = Database['public']['Tables']['course_modules']['Row'];
+type LessonRow = Database['public']['Tables']['course_lessons']['Row'];
+
+/** Course structure with the full module and lesson rows */
+export interface LoadedCourseStructure extends CourseStructure {
+  modules: ModuleRow[];
+  lessons: LessonRow[];
+}
+
+export interface CourseAccessResult {
+  structure: LoadedCourseStructure;
+  access: CourseAccess;
+  progress: LearnerProgress;
+  /** Whether the student is enrolled or course staff */
+  enrolled: boolean;
+}
+
+/**
+ * Load the modules, lessons, quizzes and prerequisites that gate a course
+ */
+export async function loadCourseStructure(courseId: string): Promise<LoadedCourseStructure> {
+  const [modules, prerequisites] = await Promise.all([
+    moduleRepository.getWithLessons(courseId),
+    contentPrerequisiteRepository.getByCourse(courseId),
+  ]);
+
+  const lessons = modules.flatMap((module) => module.lessons);
+  const quizzes = await quizRepository.findByLessonIds(lessons.map((lesson) => lesson.id));
+
+  return {
+    modules: modules.map(({ lessons: _lessons, ...module }) => module),
+    lessons,
+    quizzes,
+    prerequisites: prerequisites.map((prerequisite) => ({
+      target_type: prerequisite.target_type as PrerequisiteTargetType,
+      target_id: prerequisite.target_id,
+      requirement_type: prerequisite.requirement_type as PrerequisiteRequirementType,
+      requirement_id: prerequisite.requirement_id,
+      min_score: prerequisite.min_score,
+    })),
+  };
+}
+
+/**
+ * Load a student's enrollment date, completed lessons and best quiz scores
+ */
+async function loadLearnerProgress(
+  userId: string,
+  courseId: string,
+  structure: CourseStructure
+): Promise<LearnerProgress> {
+  const [enrollment, completions, bestQuizScores] = await Promise.all([
+    enrollmentRepository.findByUserAndCourse(userId, courseId),
+    lessonCompletionsRepository.getCompletionsForLessons(userId, structure.lessons.map((lesson) => lesson.id)),
+    quizRepository.getBestScores(userId, structure.quizzes.map((quiz) => quiz.id)),
+  ]);
+
+  const isActive = enrollment && !INACTIVE_PAYMENT_STATUSES.includes(enrollment.payment_status ?? '');
+
+  return {
+    enrolledAt: isActive ? new Date(enrollment.enrolled_at ?? Date.now()) : null,
+    completedLessonIds: new Set(
+      completions.map((completion) => completion.lesson_id).filter((id): id is string => id !== null)
+    ),
+    bestQuizScores,
+  };
+}
+
+/**
+ * Whether a user sees a course without gating: admins and its instructor
+ */
+async function isCourseStaff(userId: string, courseId: string): Promise<boolean> {
+  const [profile, course] = await Promise.all([
+    userRepository.findByIdOrNull(userId),
+    courseRepository.findByIdOrNull(courseId),
+  ]);
+
+  return profile?.role === 'admin' || (!!course && course.created_by === userId);
+}
+
+/**
+ * Ensure a user may manage a course's gating rules
+ *
+ * @throws {ApiError} 403 unless an admin or the course's instructor
+ */
+export async function requireCourseStaff(userId: string, courseId: string): Promise<void> {
+  if (!(await isCourseStaff(userId, courseId))) {
+    throw forbiddenError('Only the course instructor or an admin can manage this course');
+  }
+}
+
+/**
+ * Access to every module and lesson of a course
+ *
+ * @param userId - The student, or null for a visitor (only previews open)
+ */
+export async function getCourseAccess(courseId: string, userId: string | null): Promise<CourseAccessResult> {
+  const structure = await loadCourseStructure(courseId);
+
+  if (!userId) {
+    const progress: LearnerProgress = { enrolledAt: null, completedLessonIds: new Set(), bestQuizScores: new Map() };
+    return { structure, access: evaluateCourseAccess(structure, progress), progress, enrolled: false };
+  }
+
+  const [progress, staff] = await Promise.all([
+    loadLearnerProgress(userId, courseId, structure),
+    isCourseStaff(userId, courseId),
+  ]);
+
+  return {
+    structure,
+    access: evaluateCourseAccess(structure, progress, new Date(), staff),
+    progress,
+    enrolled: staff || progress.enrolledAt !== null,
+  };
+}
+
+/**
+ * Access to a single lesson
+ *
+ * @throws {ApiError} 404 if the lesson does not belong to a course
+ */
+export async function getLessonAccess(userId: string, lessonId: string): Promise<ContentAccess & { courseId: string }> {
+  const courseId = await lessonCompletionsRepository.getCourseIdForLesson(lessonId);
+  if (!courseId) {
+    throw notFoundError('Lesson');
+  }
+
+  const { access } = await getCourseAccess(courseId, userId);
+  const lessonAccess = access.lessons.get(lessonId);
+  if (!lessonAccess) {
+    throw notFoundError('Lesson');
+  }
+
+  return { ...lessonAccess, courseId };
+}
+
+/**
+ * Ensure a user can open a lesson
+ *
+ * @returns The lesson's course ID
+ * @throws {ApiError} 403 CONTENT_LOCKED with the unlock date and lock reasons
+ */
+export async function requireLessonAccess(userId: string, lessonId: string): Promise<string> {
+  const { courseId, ...access } = await getLessonAccess(userId, lessonId);
+
+  if (!access.hasAccess) {
+    throw new ApiError(access.lockReasons[0]?.message ?? 'This lesson is locked', 403, 'CONTENT_LOCKED', {
+      unlock_at: access.unlockAt,
+      lock_reasons: access.lockReasons,
+    });
+  }
+
+  return courseId;
+}
+
+/**
+ * Ensure a user can take a quiz, which is as open as its lesson
+ *
+ * @throws {ApiError} 403 CONTENT_LOCKED when the quiz's lesson is locked
+ */
+export async function requireQuizAccess(userId: string, quiz: { lesson_id: string | null }): Promise<void> {
+  if (quiz.lesson_id) {
+    await requireLessonAccess(userId, quiz.lesson_id);
+  }
+}
+
+/**
+ * Ensure a user has completed every course required before enrolling
+ *
+ * @throws {ApiError} 403 listing the courses still to complete
+ */
+export async function requireCoursePrerequisites(userId: string, courseId: string): Promise<void> {
+  const missing = await coursePrerequisiteRepository.getMissingForUser(userId, courseId);
+  if (missing.length === 0) return;
+
+  const titles = missing.map((course) => `"${course.title}"`).join(', ');
+  throw new ApiError(`Complete ${titles} before enrolling in this course`, 403, 'PREREQUISITES_NOT_MET', {
+    missing_courses: missing,
+  });
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createsCoursePrerequisiteCycle,
+  createsPrerequisiteCycle,
+  describeLock,
+  evaluateCourseAccess,
+  getReleaseDate,
+  type ContentPrerequisite,
+  type CourseStructure,
+  type LearnerProgress,
+} from './gating';
+
+const unscheduled = { release_offset_days: null, release_at: null };
+
+const structure: CourseStructure = {
+  modules: [
+    { id: 'module-1', title: 'Foundations', ...unscheduled },
+    { id: 'module-2', title: 'Advanced', release_offset_days: 7, release_at: null },
+  ],
+  lessons: [
+    { id: 'lesson-1', module_id: 'module-1', title: 'Welcome', is_preview: true, ...unscheduled },
+    { id: 'lesson-2', module_id: 'module-1', title: 'Energy Basics', is_preview: false, ...unscheduled },
+    { id: 'lesson-3', module_id: 'module-2', title: 'Deep Dive', is_preview: false, ...unscheduled },
+  ],
+  quizzes: [{ id: 'quiz-1', lesson_id: 'lesson-2', passing_score: 80 }],
+  prerequisites: [],
+};
+
+const enrolledAt = new Date('2026-03-01T00:00:00Z');
+const now = new Date('2026-03-03T00:00:00Z');
+
+const progress = (overrides: Partial<LearnerProgress> = {}): LearnerProgress => ({
+  enrolledAt,
+  completedLessonIds: new Set(),
+  bestQuizScores: new Map(),
+  ...overrides,
+});
+
+const prerequisite = (overrides: Partial<ContentPrerequisite>): ContentPrerequisite => ({
+  target_type: 'lesson',
+  target_id: 'lesson-3',
+  requirement_type: 'lesson_complete',
+  requirement_id: 'lesson-2',
+  min_score: null,
+  ...overrides,
+});
+
+// ============================================================================
+// Drip Release
+// ============================================================================
+
+describe('getReleaseDate', () => {
+  it('offsets from the enrollment date', () => {
+    expect(getReleaseDate({ release_offset_days: 7, release_at: null }, enrolledAt)?.toISOString())
+      .toBe('2026-03-08T00:00:00.000Z');
+  });
+
+  it('uses the later of the offset and the fixed date', () => {
+    const schedule = { release_offset_days: 7, release_at: '2026-03-20T00:00:00Z' };
+    expect(getReleaseDate(schedule, enrolledAt)?.toISOString()).toBe('2026-03-20T00:00:00.000Z');
+  });
+
+  it('is null when not scheduled or the offset has no enrollment date', () => {
+    expect(getReleaseDate(unscheduled, enrolledAt)).toBeNull();
+    expect(getReleaseDate({ release_offset_days: 7, release_at: null }, null)).toBeNull();
+  });
+});
+
+// ============================================================================
+// Access Evaluation
+// ============================================================================
+
+describe('evaluateCourseAccess', () => {
+  it('locks everything but previews for students who are not enrolled', () => {
+    const access = evaluateCourseAccess(structure, progress({ enrolledAt: null }), now);
+
+    expect(access.lessons.get('lesson-1')?.hasAccess).toBe(true);
+    expect(access.lessons.get('lesson-2')?.lockReasons[0].type).toBe('not_enrolled');
+  });
+
+  it('locks lessons of a module until its drip release date', () => {
+    const access = evaluateCourseAccess(structure, progress(), now);
+
+    expect(access.lessons.get('lesson-2')?.hasAccess).toBe(true);
+    expect(access.lessons.get('lesson-3')).toMatchObject({
+      hasAccess: false,
+      unlockAt: '2026-03-08T00:00:00.000Z',
+    });
+
+    const later = evaluateCourseAccess(structure, progress(), new Date('2026-03-08T00:00:00Z'));
+    expect(later.lessons.get('lesson-3')?.hasAccess).toBe(true);
+  });
+
+  it('reports only the later release date when module and lesson are both scheduled', () => {
+    const scheduled: CourseStructure = {
+      ...structure,
+      lessons: structure.lessons.map((lesson) =>
+        lesson.id === 'lesson-3' ? { ...lesson, release_at: '2026-04-01T00:00:00Z' } : lesson
+      ),
+    };
+
+    const lesson = evaluateCourseAccess(scheduled, progress(), now).lessons.get('lesson-3');
+
+    expect(lesson?.unlockAt).toBe('2026-04-01T00:00:00.000Z');
+    expect(lesson?.lockReasons.filter((reason) => reason.type === 'not_released')).toHaveLength(1);
+  });
+
+  it('requires completed lessons and modules', () => {
+    const gated: CourseStructure = {
+      ...structure,
+      prerequisites: [
+        prerequisite({ target_type: 'module', target_id: 'module-2', requirement_type: 'module_complete', requirement_id: 'module-1' }),
+      ],
+    };
+    const afterRelease = new Date('2026-03-10T00:00:00Z');
+
+    const locked = evaluateCourseAccess(gated, progress({ completedLessonIds: new Set(['lesson-1']) }), afterRelease);
+    expect(locked.lessons.get('lesson-3')?.lockReasons).toEqual([
+      { type: 'module_incomplete', moduleId: 'module-1', message: 'Complete the "Foundations" module first' },
+    ]);
+
+    const open = evaluateCourseAccess(
+      gated,
+      progress({ completedLessonIds: new Set(['lesson-1', 'lesson-2']) }),
+      afterRelease
+    );
+    expect(open.lessons.get('lesson-3')?.hasAccess).toBe(true);
+  });
+
+  it("requires a quiz score, defaulting to the quiz's passing score", () => {
+    const gated = (min_score: number | null): CourseStructure => ({
+      ...structure,
+      modules: structure.modules.map((module) => ({ ...module, ...unscheduled })),
+      prerequisites: [prerequisite({ requirement_type: 'quiz_pass', requirement_id: 'quiz-1', min_score })],
+    });
+    const scored = progress({ bestQuizScores: new Map([['quiz-1', 75]]) });
+
+    expect(evaluateCourseAccess(gated(null), scored, now).lessons.get('lesson-3')?.lockReasons[0]).toMatchObject({
+      type: 'quiz_not_passed',
+      minScore: 80,
+      bestScore: 75,
+    });
+    expect(evaluateCourseAccess(gated(70), scored, now).lessons.get('lesson-3')?.hasAccess).toBe(true);
+  });
+
+  it('opens everything for course staff', () => {
+    const access = evaluateCourseAccess(structure, progress({ enrolledAt: null }), now, true);
+
+    expect([...access.lessons.values()].every((lesson) => lesson.hasAccess)).toBe(true);
+  });
+});
+
+describe('describeLock', () => {
+  it('prefers the unlock date over other reasons', () => {
+    expect(describeLock({
+      unlockAt: '2026-03-08T12:00:00.000Z',
+      lockReasons: [{ type: 'lesson_incomplete', lessonId: 'lesson-2', message: 'Complete "Energy Basics" first' }],
+    })).toBe('Unlocks Mar 8, 2026');
+  });
+
+  it('falls back to the first unmet requirement', () => {
+    expect(describeLock({
+      unlockAt: null,
+      lockReasons: [{ type: 'lesson_incomplete', lessonId: 'lesson-2', message: 'Complete "Energy Basics" first' }],
+    })).toBe('Complete "Energy Basics" first');
+    expect(describeLock({ unlockAt: null, lockReasons: [] })).toBeNull();
+  });
+});
+
+// ============================================================================
+// Prerequisite Validation
+// ============================================================================
+
+describe('createsPrerequisiteCycle', () => {
+  it('accepts requirements on earlier content', () => {
+    expect(createsPrerequisiteCycle(structure, prerequisite({}))).toBe(false);
+  });
+
+  it('rejects two lessons requiring each other', () => {
+    const gated = { ...structure, prerequisites: [prerequisite({})] };
+
+    expect(createsPrerequisiteCycle(gated, prerequisite({ target_id: 'lesson-2', requirement_id: 'lesson-3' }))).toBe(true);
+  });
+
+  it("rejects a module requiring a quiz taken inside it", () => {
+    const candidate = prerequisite({
+      target_type: 'module',
+      target_id: 'module-1',
+      requirement_type: 'quiz_pass',
+      requirement_id: 'quiz-1',
+    });
+
+    expect(createsPrerequisiteCycle(structure, candidate)).toBe(true);
+  });
+});
+
+describe('createsCoursePrerequisiteCycle', () => {
+  const edges = [
+    { course_id: 'course-2', required_course_id: 'course-1' },
+    { course_id: 'course-3', required_course_id: 'course-2' },
+  ];
+
+  it('accepts a chain of courses', () => {
+    expect(createsCoursePrerequisiteCycle(edges, 'course-4', ['course-3'])).toBe(false);
+  });
+
+  it('rejects a course that transitively requires itself', () => {
+    expect(createsCoursePrerequisiteCycle(edges, 'course-1', ['course-3'])).toBe(true);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Course Content Gating
+ * Works out which modules and lessons of a course a student can open: drip
+ * release (days after enrollment or a fixed date) and prerequisites on
+ * completed lessons, completed modules and quiz scores.
+ *
+ * A lesson inherits everything that gates its module. Preview lessons are
+ * always open. Everything here is pure - loading and enforcement live in
+ * ./access.ts.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PrerequisiteTargetType = 'module' | 'lesson';
+export type PrerequisiteRequirementType = 'lesson_complete' | 'module_complete' | 'quiz_pass';
+
+/** Drip release settings of a module or lesson */
+export interface ReleaseSchedule {
+  /** Days after enrollment before it unlocks */
+  release_offset_days: number | null;
+  /** Fixed date it unlocks for everyone */
+  release_at: string | null;
+}
+
+export interface GatedModule extends ReleaseSchedule {
+  id: string;
+  title: string;
+}
+
+export interface GatedLesson extends ReleaseSchedule {
+  id: string;
+  module_id: string | null;
+  title: string;
+  is_preview: boolean | null;
+}
+
+export interface GatedQuiz {
+  id: string;
+  lesson_id: string | null;
+  passing_score: number | null;
+}
+
+export interface ContentPrerequisite {
+  target_type: PrerequisiteTargetType;
+  target_id: string;
+  requirement_type: PrerequisiteRequirementType;
+  /** Lesson, module or quiz ID, by requirement_type */
+  requirement_id: string;
+  /** Minimum quiz score (%); null uses the quiz's passing score */
+  min_score: number | null;
+}
+
+export interface CourseStructure {
+  modules: GatedModule[];
+  lessons: GatedLesson[];
+  quizzes: GatedQuiz[];
+  prerequisites: ContentPrerequisite[];
+}
+
+export interface LearnerProgress {
+  /** When the student enrolled; null when not enrolled */
+  enrolledAt: Date | null;
+  completedLessonIds: ReadonlySet<string>;
+  /** Best score (%) of the student's completed attempts, by quiz */
+  bestQuizScores: ReadonlyMap<string, number>;
+}
+
+export type LockReason =
+  | { type: 'not_enrolled'; message: string }
+  | { type: 'not_released'; unlockAt: string; message: string }
+  | { type: 'lesson_incomplete'; lessonId: string; message: string }
+  | { type: 'module_incomplete'; moduleId: string; message: string }
+  | { type: 'quiz_not_passed'; quizId: string; minScore: number; bestScore: number | null; message: string };
+
+export interface ContentAccess {
+  hasAccess: boolean;
+  /** When drip release unlocks it; null once released or when not scheduled */
+  unlockAt: string | null;
+  lockReasons: LockReason[];
+}
+
+export interface CourseAccess {
+  modules: Map<string, ContentAccess>;
+  lessons: Map<string, ContentAccess>;
+}
+
+/** Passing score for quizzes without one, matching quiz grading */
+export const DEFAULT_PASSING_SCORE = 70;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const OPEN: ContentAccess = { hasAccess: true, unlockAt: null, lockReasons: [] };
+
+// ============================================================================
+// Drip Release
+// ============================================================================
+
+/**
+ * When an item is released for a student
+ *
+ * With both an offset and a fixed date the later one applies. An offset
+ * cannot be resolved without an enrollment date.
+ *
+ * @returns The release date, or null when the item is not drip-scheduled
+ */
+export function getReleaseDate(schedule: ReleaseSchedule, enrolledAt: Date | null): Date | null {
+  const dates: number[] = [];
+
+  if (schedule.release_at) {
+    dates.push(new Date(schedule.release_at).getTime());
+  }
+  if (schedule.release_offset_days !== null && enrolledAt) {
+    dates.push(enrolledAt.getTime() + schedule.release_offset_days * DAY);
+  }
+
+  return dates.length > 0 ? new Date(Math.max(...dates)) : null;
+}
+
+// ============================================================================
+// Access Evaluation
+// ============================================================================
+
+/**
+ * Access to every module and lesson of a course for one student
+ *
+ * @param bypass - Open everything (course staff)
+ */
+export function evaluateCourseAccess(
+  structure: CourseStructure,
+  progress: LearnerProgress,
+  now: Date = new Date(),
+  bypass: boolean = false
+): CourseAccess {
+  const access: CourseAccess = { modules: new Map(), lessons: new Map() };
+  const lessonsById = new Map(structure.lessons.map((lesson) => [lesson.id, lesson]));
+  const modulesById = new Map(structure.modules.map((module) => [module.id, module]));
+
+  const evaluate = (type: PrerequisiteTargetType, id: string, schedule: ReleaseSchedule): ContentAccess => {
+    const lockReasons: LockReason[] = [];
+    let unlockAt: string | null = null;
+
+    const releaseDate = getReleaseDate(schedule, progress.enrolledAt);
+    if (releaseDate && releaseDate > now) {
+      unlockAt = releaseDate.toISOString();
+      lockReasons.push({
+        type: 'not_released',
+        unlockAt,
+        message: `Available from ${unlockAt.slice(0, 10)}`,
+      });
+    }
+
+    for (const prerequisite of structure.prerequisites) {
+      if (prerequisite.target_type !== type || prerequisite.target_id !== id) continue;
+
+      const reason = checkPrerequisite(prerequisite, structure, progress, lessonsById, modulesById);
+      if (reason) lockReasons.push(reason);
+    }
+
+    return { hasAccess: lockReasons.length === 0, unlockAt, lockReasons };
+  };
+
+  for (const module of structure.modules) {
+    access.modules.set(module.id, bypass ? OPEN : evaluate('module', module.id, module));
+  }
+
+  for (const lesson of structure.lessons) {
+    if (bypass || lesson.is_preview) {
+      access.lessons.set(lesson.id, OPEN);
+      continue;
+    }
+
+    if (!progress.enrolledAt) {
+      access.lessons.set(lesson.id, {
+        hasAccess: false,
+        unlockAt: null,
+        lockReasons: [{ type: 'not_enrolled', message: 'Enroll in the course to open this lesson' }],
+      });
+      continue;
+    }
+
+    const own = evaluate('lesson', lesson.id, lesson);
+    const inherited = (lesson.module_id && access.modules.get(lesson.module_id)) || OPEN;
+    const unlockAt = latestOf([inherited.unlockAt, own.unlockAt]);
+
+    // Only the later of the module and lesson release dates matters
+    let releaseReasonKept = false;
+    const lockReasons = [...inherited.lockReasons, ...own.lockReasons].filter((reason) => {
+      if (reason.type !== 'not_released') return true;
+      if (releaseReasonKept || reason.unlockAt !== unlockAt) return false;
+      releaseReasonKept = true;
+      return true;
+    });
+
+    access.lessons.set(lesson.id, { hasAccess: lockReasons.length === 0, unlockAt, lockReasons });
+  }
+
+  return access;
+}
+
+function latestOf(dates: Array<string | null>): string | null {
+  return dates.reduce<string | null>((latest, date) => (date && (!latest || date > latest) ? date : latest), null);
+}
+
+/**
+ * The reason a prerequisite is not met, or null when it is
+ */
+function checkPrerequisite(
+  prerequisite: ContentPrerequisite,
+  structure: CourseStructure,
+  progress: LearnerProgress,
+  lessonsById: Map<string, GatedLesson>,
+  modulesById: Map<string, GatedModule>
+): LockReason | null {
+  const { requirement_id: requirementId } = prerequisite;
+
+  switch (prerequisite.requirement_type) {
+    case 'lesson_complete': {
+      if (progress.completedLessonIds.has(requirementId)) return null;
+      const title = lessonsById.get(requirementId)?.title;
+      return {
+        type: 'lesson_incomplete',
+        lessonId: requirementId,
+        message: title ? `Complete "${title}" first` : 'Complete the required lesson first',
+      };
+    }
+
+    case 'module_complete': {
+      const moduleLessons = structure.lessons.filter((lesson) => lesson.module_id === requirementId);
+      if (moduleLessons.every((lesson) => progress.completedLessonIds.has(lesson.id))) return null;
+      const title = modulesById.get(requirementId)?.title;
+      return {
+        type: 'module_incomplete',
+        moduleId: requirementId,
+        message: title ? `Complete the "${title}" module first` : 'Complete the required module first',
+      };
+    }
+
+    case 'quiz_pass': {
+      const quiz = structure.quizzes.find((candidate) => candidate.id === requirementId);
+      const minScore = prerequisite.min_score ?? quiz?.passing_score ?? DEFAULT_PASSING_SCORE;
+      const bestScore = progress.bestQuizScores.get(requirementId) ?? null;
+      if (bestScore !== null && bestScore >= minScore) return null;
+      const lessonTitle = quiz?.lesson_id ? lessonsById.get(quiz.lesson_id)?.title : undefined;
+      return {
+        type: 'quiz_not_passed',
+        quizId: requirementId,
+        minScore,
+        bestScore,
+        message: lessonTitle
+          ? `Score at least ${minScore}% on the "${lessonTitle}" quiz first`
+          : `Score at least ${minScore}% on the required quiz first`,
+      };
+    }
+  }
+}
+
+/**
+ * One line telling a student why content is locked: the unlock date when it
+ * is waiting on drip release, otherwise the first unmet requirement
+ */
+export function describeLock(access: Pick<ContentAccess, 'unlockAt' | 'lockReasons'>): string | null {
+  if (access.unlockAt) {
+    const date = new Date(access.unlockAt).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    return `Unlocks ${date}`;
+  }
+
+  return access.lockReasons[0]?.message ?? null;
+}
+
+// ============================================================================
+// Prerequisite Validation
+// ============================================================================
+
+type Node = `${PrerequisiteTargetType}:${string}`;
+
+/**
+ * Lessons and modules a prerequisite depends on being open
+ *
+ * Completing a module means opening all of its lessons, and a quiz is taken
+ * within its lesson.
+ */
+function requirementNodes(prerequisite: ContentPrerequisite, structure: CourseStructure): Node[] {
+  switch (prerequisite.requirement_type) {
+    case 'lesson_complete':
+      return [`lesson:${prerequisite.requirement_id}`];
+    case 'module_complete':
+      return structure.lessons
+        .filter((lesson) => lesson.module_id === prerequisite.requirement_id)
+        .map((lesson): Node => `lesson:${lesson.id}`);
+    case 'quiz_pass': {
+      const quiz = structure.quizzes.find((candidate) => candidate.id === prerequisite.requirement_id);
+      return quiz?.lesson_id ? [`lesson:${quiz.lesson_id}`] : [];
+    }
+  }
+}
+
+/**
+ * Whether adding a prerequisite would make content impossible to unlock,
+ * e.g. a lesson requiring itself or two lessons requiring each other
+ */
+export function createsPrerequisiteCycle(structure: CourseStructure, candidate: ContentPrerequisite): boolean {
+  const edges = new Map<Node, Node[]>();
+  const addEdge = (from: Node, to: Node) => edges.set(from, [...(edges.get(from) ?? []), to]);
+
+  // A lesson is only open when its module is
+  for (const lesson of structure.lessons) {
+    if (lesson.module_id) addEdge(`lesson:${lesson.id}`, `module:${lesson.module_id}`);
+  }
+  for (const prerequisite of [...structure.prerequisites, candidate]) {
+    for (const node of requirementNodes(prerequisite, structure)) {
+      addEdge(`${prerequisite.target_type}:${prerequisite.target_id}`, node);
+    }
+  }
+
+  const target: Node = `${candidate.target_type}:${candidate.target_id}`;
+  const visited = new Set<Node>();
+  const stack = [...requirementNodes(candidate, structure)];
+
+  while (stack.length > 0) {
+    const node = stack.pop() as Node;
+    if (node === target) return true;
+    if (visited.has(node)) continue;
+    visited.add(node);
+    stack.push(...(edges.get(node) ?? []));
+  }
+
+  return false;
+}
+
+/**
+ * Whether requiring these courses before a course would make it impossible
+ * to enroll, e.g. two courses requiring each other
+ *
+ * @param edges - Existing requirements as [course, required course] pairs
+ */
+export function createsCoursePrerequisiteCycle(
+  edges: ReadonlyArray<{ course_id: string; required_course_id: string }>,
+  courseId: string,
+  requiredCourseIds: string[]
+): boolean {
+  const required = new Map<string, string[]>();
+  for (const edge of edges) {
+    // The course's own requirements are being replaced
+    if (edge.course_id === courseId) continue;
+    required.set(edge.course_id, [...(required.get(edge.course_id) ?? []), edge.required_course_id]);
+  }
+
+  const visited = new Set<string>();
+  const stack = [...requiredCourseIds];
+
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (id === courseId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(required.get(id) ?? []));
+  }
+
+  return false;
+}
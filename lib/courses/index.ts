@@ -0,0 +1,41 @@
+/**
+ * Courses Barrel Export
+ * Content gating: drip release, lesson/module prerequisites and
+ * course-to-course prerequisites
+ */
+
+// Gating rules
+export {
+  createsCoursePrerequisiteCycle,
+  createsPrerequisiteCycle,
+  describeLock,
+  evaluateCourseAccess,
+  getReleaseDate,
+  DEFAULT_PASSING_SCORE,
+  type ContentAccess,
+  type ContentPrerequisite,
+  type CourseAccess,
+  type CourseStructure,
+  type GatedLesson,
+  type GatedModule,
+  type GatedQuiz,
+  type LearnerProgress,
+  type LockReason,
+  type PrerequisiteRequirementType,
+  type PrerequisiteTargetType,
+  type ReleaseSchedule,
+} from './gating';
+
+// Loading and enforcement
+export {
+  getCourseAccess,
+  getLessonAccess,
+  INACTIVE_PAYMENT_STATUSES,
+  loadCourseStructure,
+  requireCoursePrerequisites,
+  requireCourseStaff,
+  requireLessonAccess,
+  requireQuizAccess,
+  type CourseAccessResult,
+  type LoadedCourseStructure,
+} from './access';
@@ -165,6 +165,13 @@ export class ActivityLogRepository extends BaseRepository<'activity_logs'> {
       [ActivityActions.MEMBER_REMOVED]: `${actorName} removed a member${details ? `: ${details}` : ''}`,
       [ActivityActions.MEMBER_ROLE_CHANGED]: `${actorName} changed a member's role${details ? `: ${details}` : ''}`,
       [ActivityActions.MEMBER_LEFT]: `${actorName} left the organization`,
+      [ActivityActions.MEMBER_DEACTIVATED]: `${actorName} deactivated a member${details ? `: ${details}` : ''}`,
+      [ActivityActions.MEMBER_REACTIVATED]: `${actorName} reactivated a member${details ? `: ${details}` : ''}`,
+      [ActivityActions.MEMBER_TEAM_CHANGED]: `${actorName} changed a member's team${details ? `: ${details}` : ''}`,
+      [ActivityActions.TEAM_CREATED]: `${actorName} created a team${details ? `: ${details}` : ''}`,
+      [ActivityActions.TEAM_UPDATED]: `${actorName} updated a team${details ? `: ${details}` : ''}`,
+      [ActivityActions.TEAM_DELETED]: `${actorName} deleted a team${details ? `: ${details}` : ''}`,
+      [ActivityActions.TEAMS_IMPORTED]: `${actorName} imported team assignments${details ? `: ${details}` : ''}`,
       [ActivityActions.CREDITS_ADDED]: `${actorName} added credits${details ? `: ${details}` : ''}`,
       [ActivityActions.CREDITS_PURCHASED]: `${actorName} purchased credits${details ? `: ${details}` : ''}`,
       [ActivityActions.CREDITS_USED]: `${actorName} used credits${details ? `: ${details}` : ''}`,
@@ -173,6 +180,10 @@ export class ActivityLogRepository extends BaseRepository<'activity_logs'> {
       [ActivityActions.INVITATION_ACCEPTED]: `${actorName} accepted an invitation`,
       [ActivityActions.INVITATION_DECLINED]: `${actorName} declined an invitation`,
       [ActivityActions.SETTINGS_UPDATED]: `${actorName} updated settings${details ? `: ${details}` : ''}`,
+      [ActivityActions.ASSIGNMENT_CREATED]: `${actorName} assigned learning${details ? `: ${details}` : ''}`,
+      [ActivityActions.ASSIGNMENT_UPDATED]: `${actorName} updated an assignment${details ? `: ${details}` : ''}`,
+      [ActivityActions.ASSIGNMENT_DELETED]: `${actorName} deleted an assignment${details ? `: ${details}` : ''}`,
+      [ActivityActions.ASSIGNMENT_COMPLETED]: `${actorName} completed an assignment${details ? `: ${details}` : ''}`,
     }
 
     return descriptions[action] || `${actorName} performed an action`
@@ -242,6 +253,15 @@ export const ActivityActions = {
   MEMBER_REMOVED: 'member.removed',
   MEMBER_ROLE_CHANGED: 'member.role_changed',
   MEMBER_LEFT: 'member.left',
+  MEMBER_DEACTIVATED: 'member.deactivated',
+  MEMBER_REACTIVATED: 'member.reactivated',
+  MEMBER_TEAM_CHANGED: 'member.team_changed',
+
+  // Team actions
+  TEAM_CREATED: 'team.created',
+  TEAM_UPDATED: 'team.updated',
+  TEAM_DELETED: 'team.deleted',
+  TEAMS_IMPORTED: 'team.imported',
 
   // Credit actions
   CREDITS_ADDED: 'credits.added',
@@ -270,6 +290,12 @@ export const ActivityActions = {
   COURSE_ENROLLED: 'course.enrolled',
   COURSE_COMPLETED: 'course.completed',
   COURSE_PROGRESS: 'course.progress',
+
+  // Learning assignment actions
+  ASSIGNMENT_CREATED: 'assignment.created',
+  ASSIGNMENT_UPDATED: 'assignment.updated',
+  ASSIGNMENT_DELETED: 'assignment.deleted',
+  ASSIGNMENT_COMPLETED: 'assignment.completed',
 } as const
 
 /**
@@ -278,12 +304,14 @@ export const ActivityActions = {
 export const EntityTypes = {
   ORGANIZATION: 'organization',
   MEMBER: 'member',
+  TEAM: 'team',
   CREDIT: 'credit',
   INVITATION: 'invitation',
   SETTINGS: 'settings',
   API_KEY: 'api_key',
   COURSE: 'course',
   ENROLLMENT: 'enrollment',
+  ASSIGNMENT: 'assignment',
 } as const
 
 /**
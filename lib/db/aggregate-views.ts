@@ -0,0 +1,87 @@
+/**
+ * Aggregate View Repository
+ * Audit trail of who viewed which aggregate about an organization's members,
+ * and how it was protected
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+export type AggregateView = Database['public']['Tables']['aggregate_views']['Row'];
+export type AggregateViewInsert = Database['public']['Tables']['aggregate_views']['Insert'];
+
+/** Logged view with the viewer's profile */
+export interface AggregateViewWithViewer extends AggregateView {
+  viewer: { email: string; full_name: string | null } | null;
+}
+
+/** Which logged views to list */
+export interface AggregateViewFilters {
+  limit: number;
+  offset: number;
+  viewerId?: string;
+  aggregate?: string;
+}
+
+class AggregateViewRepository extends BaseRepository<'aggregate_views'> {
+  constructor() {
+    super('aggregate_views');
+  }
+
+  /**
+   * Log views. Throws when they can't be logged, so no aggregate is shown
+   * without a record of it.
+   */
+  async recordViews(views: AggregateViewInsert[]): Promise<void> {
+    if (views.length === 0) return;
+
+    const { error } = await (this.supabase as any)
+      .from('aggregate_views')
+      .insert(views) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error recording aggregate views', error, {
+        organizationId: views[0].organization_id,
+        aggregate: views[0].aggregate,
+      });
+      throw internalError('Failed to record aggregate view');
+    }
+  }
+
+  /**
+   * Logged views of an organization's aggregates, newest first
+   */
+  async list(
+    organizationId: string,
+    filters: AggregateViewFilters
+  ): Promise<{ views: AggregateViewWithViewer[]; total: number }> {
+    let query = this.supabase
+      .from('aggregate_views')
+      .select('*, viewer:profiles!viewer_id(email, full_name)', { count: 'exact' })
+      .eq('organization_id', organizationId)
+      .order('viewed_at', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (filters.viewerId) query = query.eq('viewer_id', filters.viewerId);
+    if (filters.aggregate) query = query.eq('aggregate', filters.aggregate);
+
+    const { data, error, count } = await query as {
+      data: AggregateViewWithViewer[] | null;
+      error: Error | null;
+      count: number | null;
+    };
+
+    if (error) {
+      logger.error('Error listing aggregate views', error, { organizationId });
+      throw internalError('Failed to fetch aggregate views');
+    }
+
+    return { views: data ?? [], total: count ?? 0 };
+  }
+}
+
+export const aggregateViewRepository = new AggregateViewRepository();
+export { AggregateViewRepository };
@@ -92,6 +92,102 @@ export class AssessmentRepository extends BaseRepository<"assessments"> {
     return data as Assessment[];
   }
 
+  /**
+   * Get specific assessments belonging to a user
+   *
+   * @param userId - User ID
+   * @param ids - Assessment IDs
+   * @returns Matching assessments ordered by completion date (ids belonging
+   * to other users are left out)
+   */
+  async getUserAssessmentsByIds(
+    userId: string,
+    ids: string[]
+  ): Promise<Assessment[]> {
+    const { data, error } = await this.supabase
+      .from("assessments")
+      .select("*")
+      .eq("user_id", userId)
+      .in("id", ids)
+      .order("completed_at", { ascending: false });
+
+    if (error) {
+      logger.error(
+        "Error fetching assessments",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw internalError("Failed to fetch assessments");
+    }
+
+    return data as Assessment[];
+  }
+
+  /**
+   * When each of the given users last completed the assessment
+   *
+   * @returns Completion time by user ID; users who never completed it are absent
+   */
+  async getLatestCompletionTimes(userIds: string[]): Promise<Map<string, string>> {
+    const completions = new Map<string, string>();
+    if (userIds.length === 0) return completions;
+
+    const { data, error } = await this.supabase
+      .from("assessments")
+      .select("user_id, completed_at")
+      .in("user_id", userIds)
+      .not("completed_at", "is", null)
+      .order("completed_at", { ascending: false }) as {
+      data: Array<{ user_id: string | null; completed_at: string | null }> | null;
+      error: Error | null;
+    };
+
+    if (error) {
+      logger.error("Error fetching assessment completions", error);
+      throw internalError("Failed to fetch assessments");
+    }
+
+    for (const row of data || []) {
+      if (row.user_id && row.completed_at && !completions.has(row.user_id)) {
+        completions.set(row.user_id, row.completed_at);
+      }
+    }
+
+    return completions;
+  }
+
+  /**
+   * Each of the given users' top element from their latest assessment result
+   *
+   * @returns Top element by user ID; users without a result are absent
+   */
+  async getLatestTopElements(userIds: string[]): Promise<Map<string, string>> {
+    const elements = new Map<string, string>();
+    if (userIds.length === 0) return elements;
+
+    const { data, error } = await this.supabase
+      .from("assessment_results")
+      .select("user_id, top_element, completed_at")
+      .in("user_id", userIds)
+      .order("completed_at", { ascending: false }) as {
+      data: Array<{ user_id: string; top_element: string | null }> | null;
+      error: Error | null;
+    };
+
+    if (error) {
+      logger.error("Error fetching assessment results", error);
+      throw internalError("Failed to fetch assessment results");
+    }
+
+    const seen = new Set<string>();
+    for (const row of data || []) {
+      if (seen.has(row.user_id)) continue;
+      seen.add(row.user_id);
+      if (row.top_element) elements.set(row.user_id, row.top_element);
+    }
+
+    return elements;
+  }
+
   /**
    * Get organizational assessments
    *
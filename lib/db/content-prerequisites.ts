@@ -0,0 +1,86 @@
+/**
+ * Content Prerequisites Repository
+ * Lesson completions, module completions and quiz scores required before a
+ * module or lesson of a course unlocks
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { conflictError, internalError, notFoundError } from '@/lib/api/error-handler';
+import type { ContentPrerequisite } from '@/lib/courses/gating';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+type ContentPrerequisiteRow = Database['public']['Tables']['content_prerequisites']['Row'];
+
+class ContentPrerequisiteRepository extends BaseRepository<'content_prerequisites'> {
+  constructor() {
+    super('content_prerequisites');
+  }
+
+  /**
+   * Get every prerequisite defined within a course
+   */
+  async getByCourse(courseId: string): Promise<ContentPrerequisiteRow[]> {
+    const { data, error } = await this.supabase
+      .from('content_prerequisites')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('created_at');
+
+    if (error) {
+      logger.error('Error fetching content prerequisites', new Error(error.message), { courseId });
+      throw internalError('Failed to fetch prerequisites');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Add a prerequisite to a module or lesson
+   *
+   * @throws {ApiError} 409 if the same requirement already exists
+   */
+  async addPrerequisite(courseId: string, prerequisite: ContentPrerequisite): Promise<ContentPrerequisiteRow> {
+    const { data, error } = await (this.supabase as any)
+      .from('content_prerequisites')
+      .insert({ ...prerequisite, course_id: courseId })
+      .select()
+      .single() as { data: ContentPrerequisiteRow | null; error: { code?: string; message: string } | null };
+
+    if (error?.code === '23505') {
+      throw conflictError('This prerequisite already exists');
+    }
+    if (error || !data) {
+      logger.error('Error adding content prerequisite', new Error(error?.message), { courseId });
+      throw internalError('Failed to add prerequisite');
+    }
+
+    return data;
+  }
+
+  /**
+   * Remove a prerequisite from a course
+   *
+   * @throws {ApiError} 404 if it does not belong to the course
+   */
+  async removePrerequisite(courseId: string, prerequisiteId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('content_prerequisites')
+      .delete()
+      .eq('id', prerequisiteId)
+      .eq('course_id', courseId)
+      .select('id');
+
+    if (error) {
+      logger.error('Error removing content prerequisite', new Error(error.message), { courseId });
+      throw internalError('Failed to remove prerequisite');
+    }
+    if (!data || data.length === 0) {
+      throw notFoundError('Prerequisite');
+    }
+  }
+}
+
+export const contentPrerequisiteRepository = new ContentPrerequisiteRepository();
+export { ContentPrerequisiteRepository };
@@ -0,0 +1,118 @@
+/**
+ * Course Prerequisites Repository
+ * Courses a student must have completed before enrolling in another
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+type CourseRow = Database['public']['Tables']['courses']['Row'];
+
+/** Required course as shown to students */
+export type RequiredCourse = Pick<CourseRow, 'id' | 'title' | 'slug'>;
+
+/** One course requiring another */
+export interface CoursePrerequisiteEdge {
+  course_id: string;
+  required_course_id: string;
+}
+
+class CoursePrerequisiteRepository extends BaseRepository<'course_prerequisites'> {
+  constructor() {
+    super('course_prerequisites');
+  }
+
+  /**
+   * Get the courses required before enrolling in a course
+   */
+  async getRequiredCourses(courseId: string): Promise<RequiredCourse[]> {
+    const { data, error } = await (this.supabase as any)
+      .from('course_prerequisites')
+      .select('required_course:courses!course_prerequisites_required_course_id_fkey(id, title, slug)')
+      .eq('course_id', courseId)
+      .order('created_at') as { data: Array<{ required_course: RequiredCourse | null }> | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching course prerequisites', error, { courseId });
+      throw internalError('Failed to fetch course prerequisites');
+    }
+
+    return (data || [])
+      .map((row) => row.required_course)
+      .filter((course): course is RequiredCourse => course !== null);
+  }
+
+  /**
+   * Get every course-to-course requirement, for cycle checks
+   */
+  async getAllEdges(): Promise<CoursePrerequisiteEdge[]> {
+    const { data, error } = await this.supabase
+      .from('course_prerequisites')
+      .select('course_id, required_course_id');
+
+    if (error) {
+      logger.error('Error fetching course prerequisite graph', new Error(error.message));
+      throw internalError('Failed to fetch course prerequisites');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Replace the courses required before enrolling in a course
+   */
+  async replaceForCourse(courseId: string, requiredCourseIds: string[]): Promise<void> {
+    const { error: deleteError } = await this.supabase
+      .from('course_prerequisites')
+      .delete()
+      .eq('course_id', courseId);
+
+    if (deleteError) {
+      logger.error('Error clearing course prerequisites', new Error(deleteError.message), { courseId });
+      throw internalError('Failed to update course prerequisites');
+    }
+
+    if (requiredCourseIds.length === 0) return;
+
+    const { error } = await (this.supabase as any)
+      .from('course_prerequisites')
+      .insert(requiredCourseIds.map((requiredCourseId) => ({
+        course_id: courseId,
+        required_course_id: requiredCourseId,
+      }))) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error saving course prerequisites', error, { courseId });
+      throw internalError('Failed to update course prerequisites');
+    }
+  }
+
+  /**
+   * Get the required courses a user has not completed yet
+   */
+  async getMissingForUser(userId: string, courseId: string): Promise<RequiredCourse[]> {
+    const required = await this.getRequiredCourses(courseId);
+    if (required.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('course_enrollments')
+      .select('course_id')
+      .eq('user_id', userId)
+      .in('course_id', required.map((course) => course.id))
+      .not('completed_at', 'is', null) as { data: Array<{ course_id: string | null }> | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error checking completed prerequisite courses', error, { userId, courseId });
+      throw internalError('Failed to check course prerequisites');
+    }
+
+    const completed = new Set((data || []).map((enrollment) => enrollment.course_id));
+    return required.filter((course) => !completed.has(course.id));
+  }
+}
+
+export const coursePrerequisiteRepository = new CoursePrerequisiteRepository();
+export { CoursePrerequisiteRepository };
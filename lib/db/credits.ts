@@ -14,6 +14,7 @@ import type {
 } from '@/lib/types/supabase';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { BaseRepository } from './base-repository';
+import { applyCursor, buildCursorPage, type CursorPage, type CursorPageOptions } from './query-helpers';
 import { createAdminClient } from '@/lib/supabase/admin';
 
 type CreditTransactionInsert = Database['public']['Tables']['credit_transactions']['Insert'];
@@ -113,6 +114,33 @@ export class CreditRepository extends BaseRepository<'credit_transactions'> {
         return transaction as CreditTransaction;
     }
 
+    /**
+     * Give back all or part of a deduction whose work then failed
+     * The refund references the debit it returns credits from.
+     */
+    async refundCredits(debit: CreditTransaction, amount: number = debit.amount, metadata?: Json): Promise<CreditTransaction> {
+        const creditType = debit.credit_type as CreditType;
+        const balance = await this.getOrganizationCreditBalance(debit.organization_id, creditType);
+        const newBalance = balance + amount;
+
+        const transactionData: CreditTransactionInsert = {
+            organization_id: debit.organization_id,
+            user_id: debit.user_id,
+            transaction_type: 'credit',
+            type: 'refund',
+            credit_type: creditType,
+            amount,
+            balance_after: newBalance,
+            reference_type: 'credit_debit',
+            reference_id: debit.id,
+            metadata: metadata || {},
+        };
+
+        const transaction = await this.create(transactionData);
+        await this.updateCreditBalance(debit.organization_id, creditType, newBalance);
+        return transaction as CreditTransaction;
+    }
+
     async getOrganizationCreditBalance(organization_id: string, credit_type: CreditType): Promise<number> {
         try {
             // Use fresh admin client for cross-table operations
@@ -228,6 +256,33 @@ export class CreditRepository extends BaseRepository<'credit_transactions'> {
         return data || [];
     }
 
+    /**
+     * Get one cursor page of credit transactions, newest first
+     * Used by the public /api/v1 credits endpoint
+     */
+    async getCreditTransactionsPage(
+        organization_id: string,
+        options: CursorPageOptions & { credit_type?: CreditType }
+    ): Promise<CursorPage<CreditTransaction>> {
+        let base = this.supabase
+            .from('credit_transactions')
+            .select('*')
+            .eq('organization_id', organization_id);
+
+        if (options.credit_type) {
+            base = base.eq('credit_type', options.credit_type);
+        }
+
+        const { data, error } = await applyCursor(base, 'created_at', options) as { data: CreditTransaction[] | null; error: { message: string } | null };
+
+        if (error) {
+            logger.error('Error fetching credit transactions page', new Error(error.message));
+            throw internalError('Failed to fetch credit transactions');
+        }
+
+        return buildCursorPage(data || [], 'created_at', options.limit);
+    }
+
     async getUserCreditUsage(
         user_id: string,
         organization_id: string,
@@ -315,6 +370,89 @@ export class CreditRepository extends BaseRepository<'credit_transactions'> {
             credits_expired: transactions.filter(t => t.transaction_type === 'expired').length,
         };
     }
+
+    /**
+     * Expire the unused part of credit grants past their expiration date
+     *
+     * Credits are spent oldest first, so a grant's unused part is whatever the
+     * balance holds beyond newer grants that are still valid. Each grant is
+     * expired once, recorded as an 'expired' transaction referencing it.
+     */
+    async expireCredits(now: Date = new Date()): Promise<{ grants: number; credits: number }> {
+        const { data: grants, error } = await this.supabase
+            .from('credit_transactions')
+            .select('*')
+            .eq('transaction_type', 'credit')
+            .lte('expiration_date', now.toISOString())
+            .order('created_at', { ascending: true }) as { data: CreditTransaction[] | null; error: { message: string } | null };
+
+        if (error) {
+            logger.error('Error fetching expired credit grants', new Error(error.message));
+            throw internalError('Failed to fetch expired credits');
+        }
+        if (!grants?.length) {
+            return { grants: 0, credits: 0 };
+        }
+
+        const { data: expirations, error: expirationsError } = await this.supabase
+            .from('credit_transactions')
+            .select('reference_id')
+            .eq('transaction_type', 'expired')
+            .eq('reference_type', 'credit_grant')
+            .in('reference_id', grants.map(grant => grant.id)) as { data: Array<{ reference_id: string | null }> | null; error: { message: string } | null };
+
+        if (expirationsError) {
+            logger.error('Error fetching credit expirations', new Error(expirationsError.message));
+            throw internalError('Failed to fetch expired credits');
+        }
+
+        const alreadyExpired = new Set(expirations?.map(expiration => expiration.reference_id));
+        let expiredGrants = 0;
+        let expiredCredits = 0;
+
+        for (const grant of grants.filter(grant => !alreadyExpired.has(grant.id))) {
+            const creditType = grant.credit_type as CreditType;
+            const balance = await this.getOrganizationCreditBalance(grant.organization_id, creditType);
+
+            const { data: newerGrants, error: newerError } = await this.supabase
+                .from('credit_transactions')
+                .select('amount')
+                .eq('organization_id', grant.organization_id)
+                .eq('credit_type', creditType)
+                .eq('transaction_type', 'credit')
+                .gt('created_at', grant.created_at)
+                .or(`expiration_date.is.null,expiration_date.gt.${now.toISOString()}`) as { data: CreditAmountResult[] | null; error: { message: string } | null };
+
+            if (newerError) {
+                logger.error('Error fetching newer credit grants', new Error(newerError.message));
+                throw internalError('Failed to expire credits');
+            }
+
+            const stillValid = newerGrants?.reduce((sum, item) => sum + item.amount, 0) || 0;
+            const unused = Math.min(Math.max(balance - stillValid, 0), grant.amount);
+            const newBalance = balance - unused;
+
+            await this.create({
+                organization_id: grant.organization_id,
+                transaction_type: 'expired',
+                type: 'expiration',
+                credit_type: creditType,
+                amount: unused,
+                balance_after: newBalance,
+                reference_type: 'credit_grant',
+                reference_id: grant.id,
+                metadata: { expiration_date: grant.expiration_date },
+            });
+            if (unused > 0) {
+                await this.updateCreditBalance(grant.organization_id, creditType, newBalance);
+            }
+
+            expiredGrants++;
+            expiredCredits += unused;
+        }
+
+        return { grants: expiredGrants, credits: expiredCredits };
+    }
 }
 
 export const creditRepository = new CreditRepository();
@@ -438,14 +576,19 @@ export async function getTotalCreditsUsed(
 }
 
 /**
- * Expire old credits (backward compatibility wrapper - not yet implemented)
- * @deprecated Use creditRepository method instead (when implemented)
- * @returns Object with count and error properties
+ * Expire old credits (backward compatibility wrapper)
+ * @deprecated Use creditRepository.expireCredits() instead
+ * @returns Object with count (grants expired) and error properties
  * @example
  * const { count, error } = await expireOldCredits();
  */
 export async function expireOldCredits() {
-    return { count: 0, error: 'Not implemented' };
+    try {
+        const { grants } = await creditRepository.expireCredits();
+        return { count: grants, error: null };
+    } catch (err) {
+        return { count: 0, error: err };
+    }
 }
 
 /**
@@ -12,6 +12,7 @@ import { logger } from '@/lib/logging';
 import { internalError } from '@/lib/api/error-handler';
 import { createAdminClient } from '@/lib/supabase/admin';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { applyCursor, buildCursorPage, type CursorPage, type CursorPageOptions } from './query-helpers';
 
 // ============================================================================
 // Types
@@ -70,7 +71,8 @@ export interface OrganizationDiagnostic {
   description: string | null;
   status: DiagnosticStatus;
   target_user_ids: string[];
-  target_department: string | null;
+  /** Members of this team and its subtree may respond */
+  target_team_id: string | null;
   include_all_members: boolean;
   anonymous_results: boolean;
   total_participants: number;
@@ -218,6 +220,8 @@ export class DiagnosticsRepository {
     filters?: {
       status?: DiagnosticStatus;
       templateId?: string;
+      /** Only diagnostics targeting one of these teams */
+      targetTeamIds?: string[];
     }
   ): Promise<DiagnosticWithTemplate[]> {
     let query = this.supabase
@@ -232,6 +236,9 @@ export class DiagnosticsRepository {
     if (filters?.templateId) {
       query = query.eq('template_id', filters.templateId);
     }
+    if (filters?.targetTeamIds) {
+      query = query.in('target_team_id', filters.targetTeamIds);
+    }
 
     const { data, error } = await query;
 
@@ -243,6 +250,33 @@ export class DiagnosticsRepository {
     return (data as unknown as DiagnosticWithTemplate[]) || [];
   }
 
+  /**
+   * Get one cursor page of an organization's diagnostics, newest first
+   * Used by the public /api/v1 diagnostics endpoint
+   */
+  async getOrganizationDiagnosticsPage(
+    organizationId: string,
+    options: CursorPageOptions & { status?: DiagnosticStatus }
+  ): Promise<CursorPage<DiagnosticWithTemplate>> {
+    let base = this.supabase
+      .from('organization_diagnostics')
+      .select('*, template:diagnostic_templates(*)')
+      .eq('organization_id', organizationId);
+
+    if (options.status) {
+      base = base.eq('status', options.status);
+    }
+
+    const { data, error } = await applyCursor(base, 'created_at', options);
+
+    if (error) {
+      logger.error('Error fetching organization diagnostics page', error);
+      throw internalError('Failed to fetch diagnostics');
+    }
+
+    return buildCursorPage((data as unknown as DiagnosticWithTemplate[]) || [], 'created_at', options.limit);
+  }
+
   /**
    * Get a single diagnostic by ID
    */
@@ -270,7 +304,7 @@ export class DiagnosticsRepository {
     name: string;
     description?: string;
     target_user_ids?: string[];
-    target_department?: string;
+    target_team_id?: string;
     include_all_members?: boolean;
     anonymous_results?: boolean;
     deadline_at?: string;
@@ -284,7 +318,7 @@ export class DiagnosticsRepository {
         name: data.name,
         description: data.description || null,
         target_user_ids: data.target_user_ids || [],
-        target_department: data.target_department || null,
+        target_team_id: data.target_team_id || null,
         include_all_members: data.include_all_members || false,
         anonymous_results: data.anonymous_results || false,
         deadline_at: data.deadline_at || null,
@@ -312,7 +346,7 @@ export class DiagnosticsRepository {
       description: string | null;
       status: DiagnosticStatus;
       target_user_ids: string[];
-      target_department: string | null;
+      target_team_id: string | null;
       include_all_members: boolean;
       anonymous_results: boolean;
       deadline_at: string | null;
@@ -366,6 +400,27 @@ export class DiagnosticsRepository {
     });
   }
 
+  /**
+   * Get running diagnostics whose deadline has passed
+   * Used by the finalize-diagnostics cron to score them automatically
+   */
+  async getDiagnosticsPastDeadline(now: Date = new Date()): Promise<DiagnosticWithTemplate[]> {
+    const { data, error } = await this.supabase
+      .from('organization_diagnostics')
+      .select('*, template:diagnostic_templates(*)')
+      .in('status', ['active', 'in_progress'])
+      .not('deadline_at', 'is', null)
+      .lte('deadline_at', now.toISOString())
+      .order('deadline_at');
+
+    if (error) {
+      logger.error('Error fetching diagnostics past deadline', error);
+      throw internalError('Failed to fetch diagnostics');
+    }
+
+    return (data as unknown as DiagnosticWithTemplate[]) || [];
+  }
+
   /**
    * Delete a diagnostic
    */
@@ -488,6 +543,24 @@ export class DiagnosticsRepository {
     }
   }
 
+  /**
+   * Store computed scores on a response
+   */
+  async updateResponseScores(responseId: string, scores: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('diagnostic_responses')
+      .update({
+        scores,
+        updated_at: new Date().toISOString(),
+      } as unknown as Record<string, unknown>)
+      .eq('id', responseId);
+
+    if (error) {
+      logger.error('Error updating response scores', error);
+      throw internalError('Failed to update response scores');
+    }
+  }
+
   /**
    * Update participant counts for a diagnostic
    */
@@ -0,0 +1,314 @@
+/**
+ * Email Campaign Enrollments Repository
+ * Users going through a campaign, plus the trigger, audience and exit
+ * condition lookups the campaign runner needs
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import {
+  getTopElement,
+  type CampaignAudienceMember,
+  type CampaignExitCondition,
+  type CampaignTriggerEvent,
+} from '@/lib/campaigns/rules';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+export type EmailCampaignEnrollment = Database['public']['Tables']['email_campaign_enrollments']['Row'];
+
+/** Trigger details stored on the enrollment */
+export type EmailCampaignEnrollmentContext = Pick<CampaignTriggerEvent, 'element' | 'courseId' | 'courseTitle'>;
+
+class EmailCampaignEnrollmentRepository extends BaseRepository<'email_campaign_enrollments'> {
+  constructor() {
+    super('email_campaign_enrollments');
+  }
+
+  /**
+   * Enroll users who triggered a campaign
+   *
+   * @returns The new enrollments; users already enrolled are skipped
+   */
+  async enroll(campaignId: string, events: CampaignTriggerEvent[]): Promise<EmailCampaignEnrollment[]> {
+    if (events.length === 0) return [];
+
+    const rows = events.map((event) => ({
+      campaign_id: campaignId,
+      user_id: event.userId,
+      context: {
+        element: event.element ?? null,
+        courseId: event.courseId ?? null,
+        courseTitle: event.courseTitle ?? null,
+      },
+    }));
+
+    const { data, error } = await (this.supabase as any)
+      .from('email_campaign_enrollments')
+      .upsert(rows, { onConflict: 'campaign_id,user_id', ignoreDuplicates: true })
+      .select() as { data: EmailCampaignEnrollment[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error enrolling users in email campaign', error, { campaignId });
+      throw internalError('Failed to enroll users in email campaign');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Record which step is scheduled next
+   */
+  async setNextPosition(id: string, position: number): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('email_campaign_enrollments')
+      .update({ next_position: position })
+      .eq('id', id) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error updating email campaign enrollment', error, { id });
+    }
+  }
+
+  /**
+   * End an enrollment, after its last step or on an exit condition
+   */
+  async finish(id: string, status: 'completed' | 'exited', reason: string | null = null): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('email_campaign_enrollments')
+      .update({ status, exit_reason: reason, finished_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'active') as { error: Error | null };
+
+    if (error) {
+      logger.error('Error finishing email campaign enrollment', error, { id, status });
+    }
+  }
+
+  // ==========================================================================
+  // Triggers
+  // ==========================================================================
+
+  /**
+   * Accounts created in (from, to]
+   */
+  async findSignups(from: Date, to: Date): Promise<CampaignTriggerEvent[]> {
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('id, created_at')
+      .gt('created_at', from.toISOString())
+      .lte('created_at', to.toISOString()) as {
+        data: Array<{ id: string; created_at: string }> | null;
+        error: Error | null;
+      };
+
+    if (error) {
+      logger.error('Error fetching campaign signups', error);
+      throw internalError('Failed to fetch campaign triggers');
+    }
+
+    return (data || []).map((row) => ({ userId: row.id, occurredAt: row.created_at }));
+  }
+
+  /**
+   * Assessments completed in (from, to], with the resulting top element
+   */
+  async findCompletedAssessments(from: Date, to: Date): Promise<CampaignTriggerEvent[]> {
+    const { data, error } = await this.supabase
+      .from('assessments')
+      .select('user_id, scores, completed_at')
+      .not('user_id', 'is', null)
+      .gt('completed_at', from.toISOString())
+      .lte('completed_at', to.toISOString())
+      .order('completed_at', { ascending: true }) as {
+        data: Array<{ user_id: string; scores: unknown; completed_at: string }> | null;
+        error: Error | null;
+      };
+
+    if (error) {
+      logger.error('Error fetching campaign assessments', error);
+      throw internalError('Failed to fetch campaign triggers');
+    }
+
+    return (data || []).map((row) => ({
+      userId: row.user_id,
+      occurredAt: row.completed_at,
+      element: getTopElement(row.scores),
+    }));
+  }
+
+  /**
+   * Unfinished course enrollments last opened (or, if never opened,
+   * started) in (from, to]
+   */
+  async findInactiveCourseEnrollments(
+    from: Date,
+    to: Date,
+    courseId: string | null = null
+  ): Promise<CampaignTriggerEvent[]> {
+    const since = from.toISOString();
+    const until = to.toISOString();
+
+    let query = this.supabase
+      .from('course_enrollments')
+      .select('user_id, course_id, enrolled_at, last_accessed_at, course:courses(title)')
+      .not('user_id', 'is', null)
+      .is('completed_at', null)
+      .or(
+        `and(last_accessed_at.gt.${since},last_accessed_at.lte.${until}),` +
+          `and(last_accessed_at.is.null,enrolled_at.gt.${since},enrolled_at.lte.${until})`
+      );
+    if (courseId) query = query.eq('course_id', courseId);
+
+    const { data, error } = await query as {
+      data: Array<{
+        user_id: string;
+        course_id: string | null;
+        enrolled_at: string | null;
+        last_accessed_at: string | null;
+        course: { title: string } | null;
+      }> | null;
+      error: Error | null;
+    };
+
+    if (error) {
+      logger.error('Error fetching inactive course enrollments', error);
+      throw internalError('Failed to fetch campaign triggers');
+    }
+
+    return (data || []).map((row) => ({
+      userId: row.user_id,
+      occurredAt: row.last_accessed_at ?? row.enrolled_at ?? until,
+      courseId: row.course_id,
+      courseTitle: row.course?.title ?? null,
+    }));
+  }
+
+  // ==========================================================================
+  // Audience
+  // ==========================================================================
+
+  /**
+   * Profile, latest top element and organizations of each user
+   */
+  async getAudience(userIds: string[]): Promise<Map<string, CampaignAudienceMember>> {
+    const audience = new Map<string, CampaignAudienceMember>();
+    if (userIds.length === 0) return audience;
+
+    const [profiles, assessments, memberships] = await Promise.all([
+      this.supabase.from('profiles').select('id, email, full_name, role').in('id', userIds) as unknown as Promise<{
+        data: Array<{ id: string; email: string; full_name: string | null; role: string }> | null;
+        error: Error | null;
+      }>,
+      this.supabase
+        .from('assessments')
+        .select('user_id, scores')
+        .in('user_id', userIds)
+        .order('completed_at', { ascending: false }) as unknown as Promise<{
+          data: Array<{ user_id: string; scores: unknown }> | null;
+          error: Error | null;
+        }>,
+      this.supabase
+        .from('organization_members')
+        .select('user_id, organization_id')
+        .in('user_id', userIds)
+        .is('deactivated_at', null) as unknown as Promise<{
+          data: Array<{ user_id: string; organization_id: string | null }> | null;
+          error: Error | null;
+        }>,
+    ]);
+
+    const error = profiles.error || assessments.error || memberships.error;
+    if (error) {
+      logger.error('Error fetching campaign audience', error);
+      throw internalError('Failed to fetch campaign audience');
+    }
+
+    for (const profile of profiles.data || []) {
+      audience.set(profile.id, {
+        userId: profile.id,
+        email: profile.email,
+        name: profile.full_name,
+        role: profile.role,
+        element: null,
+        organizationIds: [],
+      });
+    }
+    // Newest first, so the first assessment seen per user is their latest
+    const seen = new Set<string>();
+    for (const assessment of assessments.data || []) {
+      const member = audience.get(assessment.user_id);
+      if (!member || seen.has(assessment.user_id)) continue;
+      seen.add(assessment.user_id);
+      member.element = getTopElement(assessment.scores);
+    }
+    for (const membership of memberships.data || []) {
+      if (membership.organization_id) {
+        audience.get(membership.user_id)?.organizationIds.push(membership.organization_id);
+      }
+    }
+
+    return audience;
+  }
+
+  // ==========================================================================
+  // Exit conditions
+  // ==========================================================================
+
+  /**
+   * Which of the given exit conditions a user has met since enrolling
+   *
+   * Course conditions look at the enrollment's course when it has one.
+   */
+  async getMetExitConditions(
+    enrollment: Pick<EmailCampaignEnrollment, 'user_id' | 'enrolled_at' | 'context'>,
+    conditions: CampaignExitCondition[]
+  ): Promise<Set<CampaignExitCondition>> {
+    const since = enrollment.enrolled_at;
+    const courseId = (enrollment.context as EmailCampaignEnrollmentContext | null)?.courseId ?? null;
+
+    const checks = conditions.map(async (condition) => {
+      let query;
+      switch (condition) {
+        case 'assessment_completed':
+          query = this.supabase.from('assessments').select('id', { count: 'exact', head: true }).gt('completed_at', since);
+          break;
+        case 'course_enrolled':
+          query = this.supabase.from('course_enrollments').select('id', { count: 'exact', head: true }).gt('enrolled_at', since);
+          break;
+        case 'course_resumed':
+          query = this.supabase.from('course_enrollments').select('id', { count: 'exact', head: true }).gt('last_accessed_at', since);
+          if (courseId) query = query.eq('course_id', courseId);
+          break;
+        case 'course_completed':
+          query = this.supabase.from('course_enrollments').select('id', { count: 'exact', head: true }).gt('completed_at', since);
+          if (courseId) query = query.eq('course_id', courseId);
+          break;
+        case 'purchased':
+          query = this.supabase
+            .from('orders')
+            .select('id', { count: 'exact', head: true })
+            .gt('completed_at', since)
+            .is('refunded_at', null);
+          break;
+      }
+
+      const { count, error } = await query.eq('user_id', enrollment.user_id) as {
+        count: number | null;
+        error: Error | null;
+      };
+      if (error) {
+        logger.error('Error checking campaign exit condition', error, { condition });
+        throw internalError('Failed to check campaign exit conditions');
+      }
+      return (count ?? 0) > 0 ? condition : null;
+    });
+
+    const met = await Promise.all(checks);
+    return new Set(met.filter((condition): condition is CampaignExitCondition => condition !== null));
+  }
+}
+
+export const emailCampaignEnrollmentRepository = new EmailCampaignEnrollmentRepository();
+export { EmailCampaignEnrollmentRepository };
@@ -0,0 +1,309 @@
+/**
+ * Email Campaigns Repository
+ * Lifecycle campaign definitions, their ordered steps and per-step stats
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { badRequestError, internalError, notFoundError } from '@/lib/api/error-handler';
+import {
+  summarizeStepStats,
+  type CampaignEnrollmentStatus,
+  type CampaignExitCondition,
+  type CampaignSegment,
+  type CampaignStatus,
+  type CampaignStepStats,
+  type CampaignTriggerConfig,
+  type CampaignTriggerType,
+} from '@/lib/campaigns/rules';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+import { scheduledEmailRepository } from './scheduled-emails';
+
+export type EmailCampaign = Database['public']['Tables']['email_campaigns']['Row'];
+export type EmailCampaignStep = Database['public']['Tables']['email_campaign_steps']['Row'];
+
+/** Step with the template it sends */
+export interface EmailCampaignStepWithTemplate extends EmailCampaignStep {
+  template: { id: string; slug: string; name: string; category: string | null; is_active: boolean | null } | null;
+}
+
+/** Campaign with its steps, in order */
+export interface EmailCampaignWithSteps extends EmailCampaign {
+  steps: EmailCampaignStepWithTemplate[];
+}
+
+/** Campaign fields admins edit; steps are given in order */
+export interface EmailCampaignInput {
+  name: string;
+  description?: string | null;
+  trigger_type: CampaignTriggerType;
+  trigger_config?: CampaignTriggerConfig;
+  segment?: CampaignSegment;
+  exit_conditions?: CampaignExitCondition[];
+  steps?: Array<{ id?: string; delay_hours: number; template_id: string }>;
+}
+
+export interface EmailCampaignStats {
+  enrollments: Record<CampaignEnrollmentStatus, number>;
+  steps: Record<string, CampaignStepStats>;
+}
+
+const WITH_STEPS = '*, steps:email_campaign_steps(*, template:email_templates(id, slug, name, category, is_active))';
+
+class EmailCampaignRepository extends BaseRepository<'email_campaigns'> {
+  constructor() {
+    super('email_campaigns');
+  }
+
+  /**
+   * All campaigns with their steps, newest first
+   */
+  async listWithSteps(): Promise<EmailCampaignWithSteps[]> {
+    const { data, error } = await this.supabase
+      .from('email_campaigns')
+      .select(WITH_STEPS)
+      .order('created_at', { ascending: false })
+      .order('position', { referencedTable: 'email_campaign_steps', ascending: true }) as {
+        data: EmailCampaignWithSteps[] | null;
+        error: Error | null;
+      };
+
+    if (error) {
+      logger.error('Error listing email campaigns', error);
+      throw internalError('Failed to fetch email campaigns');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Campaigns that enroll users and send steps
+   */
+  async getActive(): Promise<EmailCampaignWithSteps[]> {
+    const { data, error } = await this.supabase
+      .from('email_campaigns')
+      .select(WITH_STEPS)
+      .eq('status', 'active')
+      .order('position', { referencedTable: 'email_campaign_steps', ascending: true }) as {
+        data: EmailCampaignWithSteps[] | null;
+        error: Error | null;
+      };
+
+    if (error) {
+      logger.error('Error fetching active email campaigns', error);
+      throw internalError('Failed to fetch email campaigns');
+    }
+
+    return data || [];
+  }
+
+  async findWithSteps(id: string): Promise<EmailCampaignWithSteps | null> {
+    const { data, error } = await this.supabase
+      .from('email_campaigns')
+      .select(WITH_STEPS)
+      .eq('id', id)
+      .order('position', { referencedTable: 'email_campaign_steps', ascending: true })
+      .maybeSingle() as { data: EmailCampaignWithSteps | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching email campaign', error, { id });
+      throw internalError('Failed to fetch email campaign');
+    }
+
+    return data;
+  }
+
+  /**
+   * Create a draft campaign
+   */
+  async createCampaign(input: EmailCampaignInput, createdBy: string): Promise<EmailCampaignWithSteps> {
+    const { steps, ...fields } = input;
+
+    const { data, error } = await (this.supabase as any)
+      .from('email_campaigns')
+      .insert({ ...fields, status: 'draft', created_by: createdBy })
+      .select()
+      .single() as { data: EmailCampaign | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error creating email campaign', error ?? undefined);
+      throw internalError('Failed to create email campaign');
+    }
+
+    if (steps) await this.syncSteps(data.id, steps);
+    return (await this.findWithSteps(data.id))!;
+  }
+
+  /**
+   * Update a campaign; when steps are given they replace the current ones
+   *
+   * Steps keep their ID (and stats) when passed back with it. Pending emails
+   * of removed steps are skipped and the enrollment moves on to the step now
+   * in that position.
+   */
+  async updateCampaign(id: string, input: Partial<EmailCampaignInput>): Promise<EmailCampaignWithSteps> {
+    const existing = await this.findWithSteps(id);
+    if (!existing) {
+      throw notFoundError('Email campaign');
+    }
+
+    const { steps, ...fields } = input;
+    if (Object.keys(fields).length > 0) {
+      const { error } = await (this.supabase as any)
+        .from('email_campaigns')
+        .update({ ...fields, ...getUpdateTimestamp() })
+        .eq('id', id) as { error: Error | null };
+
+      if (error) {
+        logger.error('Error updating email campaign', error, { id });
+        throw internalError('Failed to update email campaign');
+      }
+    }
+
+    if (steps) await this.syncSteps(id, steps, existing.steps);
+    return (await this.findWithSteps(id))!;
+  }
+
+  /**
+   * Change a campaign's status
+   *
+   * Activating starts enrolling from now on; users who triggered the campaign
+   * earlier are not enrolled retroactively. Archiving ends every active
+   * enrollment and cancels its pending emails.
+   */
+  async setStatus(id: string, status: CampaignStatus): Promise<EmailCampaignWithSteps> {
+    const campaign = await this.findWithSteps(id);
+    if (!campaign) {
+      throw notFoundError('Email campaign');
+    }
+    if (status === 'active' && campaign.steps.length === 0) {
+      throw badRequestError('Add at least one step before activating the campaign');
+    }
+
+    const now = new Date().toISOString();
+    const updates: Database['public']['Tables']['email_campaigns']['Update'] = { status };
+    if (status === 'active' && !campaign.swept_until) {
+      updates.activated_at = now;
+      updates.swept_until = now;
+    }
+
+    const { error } = await (this.supabase as any)
+      .from('email_campaigns')
+      .update({ ...updates, ...getUpdateTimestamp() })
+      .eq('id', id) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error updating email campaign status', error, { id, status });
+      throw internalError('Failed to update email campaign');
+    }
+
+    if (status === 'archived') {
+      await this.endEnrollments(id, 'archived');
+    }
+
+    return (await this.findWithSteps(id))!;
+  }
+
+  /**
+   * Record that trigger events up to a time have been checked
+   */
+  async advanceSweep(id: string, until: Date): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('email_campaigns')
+      .update({ swept_until: until.toISOString() })
+      .eq('id', id) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error advancing email campaign sweep', error, { id });
+    }
+  }
+
+  /**
+   * Enrollment counts and per-step email counts
+   */
+  async getStats(campaign: EmailCampaignWithSteps): Promise<EmailCampaignStats> {
+    const statuses: CampaignEnrollmentStatus[] = ['active', 'completed', 'exited'];
+    const counts = await Promise.all(
+      statuses.map(async (status) => {
+        const { count, error } = await this.supabase
+          .from('email_campaign_enrollments')
+          .select('id', { count: 'exact', head: true })
+          .eq('campaign_id', campaign.id)
+          .eq('status', status) as { count: number | null; error: Error | null };
+
+        if (error) {
+          logger.error('Error counting email campaign enrollments', error, { id: campaign.id });
+        }
+        return [status, count ?? 0] as const;
+      })
+    );
+
+    const stepIds = campaign.steps.map((step) => step.id);
+    const emails = await scheduledEmailRepository.getCampaignStepEmails(stepIds);
+
+    return {
+      enrollments: Object.fromEntries(counts) as Record<CampaignEnrollmentStatus, number>,
+      steps: summarizeStepStats(stepIds, emails),
+    };
+  }
+
+  private async syncSteps(
+    campaignId: string,
+    steps: NonNullable<EmailCampaignInput['steps']>,
+    existing: EmailCampaignStep[] = []
+  ): Promise<void> {
+    const kept = new Set(steps.map((step) => step.id).filter(Boolean));
+    const removed = existing.filter((step) => !kept.has(step.id)).map((step) => step.id);
+
+    if (removed.length > 0) {
+      const { error } = await (this.supabase as any)
+        .from('email_campaign_steps')
+        .delete()
+        .in('id', removed) as { error: Error | null };
+
+      if (error) {
+        logger.error('Error removing email campaign steps', error, { campaignId });
+        throw internalError('Failed to update campaign steps');
+      }
+    }
+
+    for (const [position, step] of steps.entries()) {
+      const values = { position, delay_hours: step.delay_hours, template_id: step.template_id };
+      const { error } =
+        step.id && existing.some((current) => current.id === step.id)
+          ? await (this.supabase as any)
+              .from('email_campaign_steps')
+              .update({ ...values, ...getUpdateTimestamp() })
+              .eq('id', step.id) as { error: Error | null }
+          : await (this.supabase as any)
+              .from('email_campaign_steps')
+              .insert({ ...values, campaign_id: campaignId }) as { error: Error | null };
+
+      if (error) {
+        logger.error('Error saving email campaign step', error, { campaignId, position });
+        throw internalError('Failed to update campaign steps');
+      }
+    }
+  }
+
+  private async endEnrollments(campaignId: string, reason: string): Promise<void> {
+    const { data, error } = await (this.supabase as any)
+      .from('email_campaign_enrollments')
+      .update({ status: 'exited', exit_reason: reason, finished_at: new Date().toISOString() })
+      .eq('campaign_id', campaignId)
+      .eq('status', 'active')
+      .select('id') as { data: { id: string }[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error ending email campaign enrollments', error, { campaignId });
+      throw internalError('Failed to archive email campaign');
+    }
+
+    await scheduledEmailRepository.cancelForEnrollments((data || []).map((row) => row.id));
+  }
+}
+
+export const emailCampaignRepository = new EmailCampaignRepository();
+export { EmailCampaignRepository };
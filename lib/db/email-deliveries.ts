@@ -0,0 +1,191 @@
+/**
+ * Email Deliveries Repository
+ * Log of every email sent and the delivery events reported for it
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import {
+  applyDeliveryEvent,
+  type EmailDeliveryEventType,
+  type EmailDeliveryStatus,
+  type ProviderDeliveryEvent,
+} from '@/lib/email/delivery-events';
+import type { EmailTransportName } from '@/lib/email/transport';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+
+type EmailDeliveryRow = Database['public']['Tables']['email_deliveries']['Row'];
+type EmailDeliveryEventRow = Database['public']['Tables']['email_delivery_events']['Row'];
+
+/** Delivery with its events, oldest first */
+export interface EmailDeliveryWithEvents extends EmailDeliveryRow {
+  events: EmailDeliveryEventRow[];
+}
+
+export interface EmailDeliveryFilters {
+  status?: EmailDeliveryStatus;
+  template?: string;
+  /** Exact recipient address */
+  recipient?: string;
+  limit: number;
+  offset: number;
+}
+
+class EmailDeliveryRepository extends BaseRepository<'email_deliveries'> {
+  constructor() {
+    super('email_deliveries');
+  }
+
+  /**
+   * Log an email before handing it to the transport
+   */
+  async createDelivery(delivery: {
+    transport: EmailTransportName;
+    template: string | null;
+    recipients: string[];
+    subject: string;
+  }): Promise<EmailDeliveryRow> {
+    const { data, error } = await (this.supabase as any)
+      .from('email_deliveries')
+      .insert({ ...delivery, status: 'queued' })
+      .select()
+      .single() as { data: EmailDeliveryRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error logging email delivery', error ?? undefined);
+      throw internalError('Failed to log email delivery');
+    }
+
+    return data;
+  }
+
+  /**
+   * Record that the transport accepted the email
+   */
+  async markSent(id: string, providerMessageId: string): Promise<void> {
+    const sentAt = new Date().toISOString();
+    await this.setStatus(id, { status: 'sent', provider_message_id: providerMessageId, sent_at: sentAt });
+    await this.addEvent(id, 'sent', null, sentAt);
+  }
+
+  /**
+   * Record that the email was not sent
+   */
+  async markNotSent(id: string, status: 'failed' | 'suppressed', reason: string): Promise<void> {
+    await this.setStatus(id, { status, error: reason });
+    await this.addEvent(id, status, reason, new Date().toISOString());
+  }
+
+  /**
+   * Apply a webhook event to the delivery it belongs to
+   *
+   * @returns The updated delivery, or null if the message wasn't sent by us
+   */
+  async applyProviderEvent(
+    transport: EmailTransportName,
+    event: ProviderDeliveryEvent
+  ): Promise<EmailDeliveryRow | null> {
+    const { data: delivery, error } = await this.supabase
+      .from('email_deliveries')
+      .select('*')
+      .eq('transport', transport)
+      .eq('provider_message_id', event.providerMessageId)
+      .maybeSingle() as { data: EmailDeliveryRow | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching email delivery', error, { providerMessageId: event.providerMessageId });
+      throw internalError('Failed to fetch email delivery');
+    }
+    if (!delivery) return null;
+
+    const status = applyDeliveryEvent(delivery.status as EmailDeliveryStatus, event.type);
+    if (status !== delivery.status) {
+      await this.setStatus(delivery.id, { status });
+    }
+    await this.addEvent(delivery.id, event.type, event.detail, event.occurredAt);
+
+    return { ...delivery, status };
+  }
+
+  /**
+   * Deliveries for the admin log, newest first
+   */
+  async list(filters: EmailDeliveryFilters): Promise<{ deliveries: EmailDeliveryRow[]; total: number }> {
+    let query = this.supabase
+      .from('email_deliveries')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.template) query = query.eq('template', filters.template);
+    if (filters.recipient) query = query.contains('recipients', [filters.recipient]);
+
+    const { data, error, count } = await query as {
+      data: EmailDeliveryRow[] | null;
+      error: Error | null;
+      count: number | null;
+    };
+
+    if (error) {
+      logger.error('Error listing email deliveries', error);
+      throw internalError('Failed to fetch email deliveries');
+    }
+
+    return { deliveries: data || [], total: count ?? 0 };
+  }
+
+  /**
+   * A delivery with its event history
+   */
+  async findWithEvents(id: string): Promise<EmailDeliveryWithEvents | null> {
+    const { data, error } = await this.supabase
+      .from('email_deliveries')
+      .select('*, events:email_delivery_events(*)')
+      .eq('id', id)
+      .order('occurred_at', { referencedTable: 'email_delivery_events', ascending: true })
+      .maybeSingle() as { data: EmailDeliveryWithEvents | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching email delivery', error, { id });
+      throw internalError('Failed to fetch email delivery');
+    }
+
+    return data;
+  }
+
+  private async setStatus(
+    id: string,
+    updates: Database['public']['Tables']['email_deliveries']['Update']
+  ): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('email_deliveries')
+      .update({ ...updates, ...getUpdateTimestamp() })
+      .eq('id', id) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error updating email delivery', error, { id });
+    }
+  }
+
+  private async addEvent(
+    deliveryId: string,
+    type: EmailDeliveryEventType,
+    detail: string | null,
+    occurredAt: string
+  ): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('email_delivery_events')
+      .insert({ delivery_id: deliveryId, type, detail, occurred_at: occurredAt }) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error recording email delivery event', error, { deliveryId, type });
+    }
+  }
+}
+
+export const emailDeliveryRepository = new EmailDeliveryRepository();
+export { EmailDeliveryRepository };
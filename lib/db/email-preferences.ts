@@ -161,6 +161,95 @@ export class EmailPreferencesRepository extends BaseRepository<"email_preference
     return this.upsertPreferences(userId, { marketing: false });
   }
 
+  /**
+   * Addresses, out of those given, that must not be mailed because they
+   * hard-bounced
+   *
+   * @param emails - Recipient addresses
+   * @returns The suppressed addresses, as given
+   */
+  async getSuppressedAddresses(emails: string[]): Promise<string[]> {
+    const users = await this.findUsersByEmail(emails);
+    if (users.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from("email_preferences")
+      .select("user_id")
+      .in("user_id", users.map((user) => user.id))
+      .not("suppressed_at", "is", null) as {
+        data: Array<{ user_id: string }> | null;
+        error: Error | null;
+      };
+
+    if (error) {
+      logger.error("Error checking suppressed addresses", error);
+      return [];
+    }
+
+    const suppressed = new Set(
+      users
+        .filter((user) => data?.some((row) => row.user_id === user.id))
+        .map((user) => user.email.toLowerCase())
+    );
+    return emails.filter((email) => suppressed.has(email.toLowerCase()));
+  }
+
+  /**
+   * Stop mailing an address after a hard bounce
+   *
+   * @param email - Address that bounced
+   * @param reason - Bounce details, shown to admins
+   * @returns False when the address doesn't belong to a user
+   */
+  async suppressAddress(email: string, reason: string): Promise<boolean> {
+    const [user] = await this.findUsersByEmail([email]);
+    if (!user) return false;
+
+    await this.upsertPreferences(user.id, {
+      suppressed_at: new Date().toISOString(),
+      suppression_reason: reason,
+    });
+    return true;
+  }
+
+  /**
+   * Opt an address out of marketing after a spam complaint
+   *
+   * @param email - Address that complained
+   * @returns False when the address doesn't belong to a user
+   */
+  async optOutMarketingByEmail(email: string): Promise<boolean> {
+    const [user] = await this.findUsersByEmail([email]);
+    if (!user) return false;
+
+    await this.optOutMarketing(user.id);
+    return true;
+  }
+
+  private async findUsersByEmail(
+    emails: string[]
+  ): Promise<Array<{ id: string; email: string }>> {
+    const candidates = [
+      ...new Set(emails.flatMap((email) => [email, email.toLowerCase()])),
+    ];
+    if (candidates.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from("profiles")
+      .select("id, email")
+      .in("email", candidates) as {
+        data: Array<{ id: string; email: string }> | null;
+        error: Error | null;
+      };
+
+    if (error) {
+      logger.error("Error looking up users by email", error);
+      return [];
+    }
+
+    return data || [];
+  }
+
   /**
    * Opt in to all notifications
    *
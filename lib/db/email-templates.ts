@@ -3,10 +3,21 @@
  * Manages customizable email templates
  */
 
-import { internalError } from "@/lib/api";
+import { badRequestError, internalError } from "@/lib/api";
+import {
+  TemplateSyntaxError,
+  normalizeTemplateVariables,
+  prepareTemplateData,
+  renderTemplate,
+  validateTemplate,
+  type TemplateData,
+  type TemplateVariable,
+} from "@/lib/email/template-engine";
 import { logger } from "@/lib/logging";
 import { getSupabaseServer } from "./supabase-server";
 
+export type { TemplateVariable };
+
 /** Template categories */
 export type EmailTemplateCategory =
   | "transactional"
@@ -14,12 +25,6 @@ export type EmailTemplateCategory =
   | "notification"
   | "system";
 
-/** Template variable definition */
-export interface TemplateVariable {
-  name: string;
-  description: string;
-}
-
 /** Email template */
 export interface EmailTemplate {
   id: string;
@@ -73,6 +78,44 @@ export interface RenderedEmail {
   text: string | null;
 }
 
+/**
+ * Render subject, HTML and text; only the HTML is escaped
+ */
+function renderEmail(template: EmailTemplate, data: TemplateData): RenderedEmail {
+  return {
+    subject: renderTemplate(template.subject, data, { escape: false }),
+    html: renderTemplate(template.html_content, data),
+    text: template.text_content
+      ? renderTemplate(template.text_content, data, { escape: false })
+      : null,
+  };
+}
+
+/**
+ * Reject templates that don't parse or use variables they don't declare
+ */
+function assertValidTemplate(
+  template: Pick<EmailTemplate, "subject" | "html_content"> & {
+    text_content?: string | null;
+  },
+  variables: TemplateVariable[]
+): void {
+  const issues = validateTemplate(
+    {
+      subject: template.subject,
+      html_content: template.html_content,
+      text_content: template.text_content,
+    },
+    variables
+  );
+
+  if (issues.length > 0) {
+    throw badRequestError(`Template has errors: ${issues[0].message}`, {
+      issues,
+    });
+  }
+}
+
 /**
  * Email Templates Repository
  */
@@ -161,6 +204,8 @@ export class EmailTemplatesRepository {
    * Create a template
    */
   async create(template: EmailTemplateInsert): Promise<EmailTemplate> {
+    assertValidTemplate(template, template.variables ?? []);
+
     const { data, error } = await this.supabase
       .from("email_templates")
       .insert(template)
@@ -186,6 +231,18 @@ export class EmailTemplatesRepository {
     // Get current version
     const current = await this.findById(id);
 
+    if (
+      updates.subject !== undefined ||
+      updates.html_content !== undefined ||
+      updates.text_content !== undefined ||
+      updates.variables !== undefined
+    ) {
+      assertValidTemplate(
+        { ...current, ...updates },
+        updates.variables ?? normalizeTemplateVariables(current.variables)
+      );
+    }
+
     const { data, error } = await this.supabase
       .from("email_templates")
       .update({
@@ -229,32 +286,31 @@ export class EmailTemplatesRepository {
   }
 
   /**
-   * Render a template with variables
+   * Render the active template for a slug, or null when there is none
+   *
+   * Throws when required variables are missing or the stored template no
+   * longer parses, so callers can fall back to a built-in email.
    */
   async render(
     slug: string,
-    variables: Record<string, string>
+    variables: TemplateData
   ): Promise<RenderedEmail | null> {
     const template = await this.getBySlug(slug);
     if (!template) {
       return null;
     }
 
-    // Replace variables in subject, html, and text
-    let subject = template.subject;
-    let html = template.html_content;
-    let text = template.text_content || null;
-
-    for (const [key, value] of Object.entries(variables)) {
-      const pattern = new RegExp(`{{${key}}}`, "g");
-      subject = subject.replace(pattern, value);
-      html = html.replace(pattern, value);
-      if (text) {
-        text = text.replace(pattern, value);
-      }
+    const { data, missing } = prepareTemplateData(
+      normalizeTemplateVariables(template.variables),
+      variables
+    );
+    if (missing.length > 0) {
+      throw badRequestError(
+        `Missing required template variables: ${missing.join(", ")}`
+      );
     }
 
-    return { subject, html, text };
+    return renderEmail(template, data);
   }
 
   /**
@@ -262,24 +318,22 @@ export class EmailTemplatesRepository {
    */
   async preview(
     id: string,
-    sampleData: Record<string, string>
+    sampleData: TemplateData
   ): Promise<RenderedEmail> {
     const template = await this.findById(id);
-
-    let subject = template.subject;
-    let html = template.html_content;
-    let text = template.text_content || null;
-
-    for (const [key, value] of Object.entries(sampleData)) {
-      const pattern = new RegExp(`{{${key}}}`, "g");
-      subject = subject.replace(pattern, value);
-      html = html.replace(pattern, value);
-      if (text) {
-        text = text.replace(pattern, value);
+    const { data } = prepareTemplateData(
+      normalizeTemplateVariables(template.variables),
+      sampleData
+    );
+
+    try {
+      return renderEmail(template, data);
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        throw badRequestError(error.message);
       }
+      throw error;
     }
-
-    return { subject, html, text };
   }
 
   /**
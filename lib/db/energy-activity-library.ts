@@ -0,0 +1,116 @@
+/**
+ * Energy Activity Library Repository
+ * Manages the activities a user has saved for reuse in the Energy Budget tool
+ *
+ * Extends BaseRepository to inherit standard CRUD operations.
+ * Contains domain-specific methods for the activity library.
+ */
+
+import { internalError } from "@/lib/api";
+import { logger } from "@/lib/logging";
+import { Database } from "@/lib/types/supabase";
+import { getUpdateTimestamp } from "@/lib/utils";
+import { BaseRepository } from "./base-repository";
+import type { EnergyActivity } from "./energy-budgets";
+
+type LibraryActivityRow = Database["public"]["Tables"]["energy_activity_library"]["Row"];
+
+/**
+ * Saved activity in a user's library
+ */
+export interface LibraryActivity {
+  id: string;
+  user_id: string;
+  name: string;
+  cost: number; // positive = drain, negative = regenerate
+  category: EnergyActivity["category"];
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+/**
+ * Energy Activity Library Repository
+ * Extends BaseRepository with activity library operations
+ */
+export class EnergyActivityLibraryRepository extends BaseRepository<"energy_activity_library"> {
+  constructor() {
+    super("energy_activity_library");
+  }
+
+  /**
+   * Convert database row to typed LibraryActivity
+   */
+  private toLibraryActivity(row: LibraryActivityRow): LibraryActivity {
+    return {
+      ...row,
+      category: row.category as EnergyActivity["category"],
+    };
+  }
+
+  /**
+   * Get a user's saved activities, grouped by category then name
+   *
+   * @param userId - User ID
+   * @returns Saved activities
+   */
+  async getByUser(userId: string): Promise<LibraryActivity[]> {
+    const { data, error } = await this.supabase
+      .from("energy_activity_library")
+      .select("*")
+      .eq("user_id", userId)
+      .order("category", { ascending: true })
+      .order("name", { ascending: true });
+
+    if (error) {
+      logger.error(
+        "Error fetching energy activity library",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw internalError("Failed to fetch saved activities");
+    }
+
+    return (data || []).map((row) => this.toLibraryActivity(row));
+  }
+
+  /**
+   * Save an activity, replacing the cost and category of one with the same name
+   *
+   * @param userId - User ID
+   * @param activity - Activity to save
+   * @returns Saved activity
+   */
+  async save(
+    userId: string,
+    activity: Pick<LibraryActivity, "name" | "cost" | "category">
+  ): Promise<LibraryActivity> {
+    const { data, error } = await (this.supabase as any)
+      .from("energy_activity_library")
+      .upsert(
+        {
+          user_id: userId,
+          name: activity.name.trim(),
+          cost: activity.cost,
+          category: activity.category,
+          ...getUpdateTimestamp(),
+        },
+        { onConflict: "user_id,name" }
+      )
+      .select()
+      .single() as { data: LibraryActivityRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error(
+        "Error saving energy activity",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw internalError("Failed to save activity");
+    }
+
+    return this.toLibraryActivity(data);
+  }
+}
+
+/**
+ * Singleton instance of EnergyActivityLibraryRepository
+ */
+export const energyActivityLibraryRepository = new EnergyActivityLibraryRepository();
@@ -0,0 +1,119 @@
+/**
+ * Energy Budget Template Repository
+ * Manages recurring weekly templates for the Energy Budget tool
+ *
+ * Extends BaseRepository to inherit standard CRUD operations.
+ * Contains domain-specific methods for weekly templates.
+ */
+
+import { internalError } from "@/lib/api";
+import { logger } from "@/lib/logging";
+import { Database } from "@/lib/types/supabase";
+import { getUpdateTimestamp } from "@/lib/utils";
+import { BaseRepository } from "./base-repository";
+import type { EnergyActivity } from "./energy-budgets";
+
+type TemplateRow = Database["public"]["Tables"]["energy_budget_templates"]["Row"];
+
+/**
+ * Recurring template for one weekday (0 = Sunday)
+ */
+export interface EnergyBudgetTemplate {
+  id: string;
+  user_id: string;
+  weekday: number;
+  name: string | null;
+  total_budget: number;
+  activities: EnergyActivity[];
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+/**
+ * Energy Budget Template Repository
+ * Extends BaseRepository with weekly template operations
+ */
+export class EnergyBudgetTemplateRepository extends BaseRepository<"energy_budget_templates"> {
+  constructor() {
+    super("energy_budget_templates");
+  }
+
+  /**
+   * Convert database row to typed EnergyBudgetTemplate
+   */
+  private toTemplate(row: TemplateRow): EnergyBudgetTemplate {
+    return {
+      ...row,
+      activities: (row.activities as unknown as EnergyActivity[]) || [],
+    };
+  }
+
+  /**
+   * Get a user's templates ordered by weekday
+   *
+   * @param userId - User ID
+   * @returns Templates (at most one per weekday)
+   */
+  async getByUser(userId: string): Promise<EnergyBudgetTemplate[]> {
+    const { data, error } = await this.supabase
+      .from("energy_budget_templates")
+      .select("*")
+      .eq("user_id", userId)
+      .order("weekday", { ascending: true });
+
+    if (error) {
+      logger.error(
+        "Error fetching energy budget templates",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw internalError("Failed to fetch energy budget templates");
+    }
+
+    return (data || []).map((row) => this.toTemplate(row));
+  }
+
+  /**
+   * Create or replace the template for a weekday
+   *
+   * @param userId - User ID
+   * @param template - Weekday, name, budget and activities
+   * @returns Saved template
+   */
+  async saveForWeekday(
+    userId: string,
+    template: Pick<EnergyBudgetTemplate, "weekday" | "total_budget" | "activities"> & {
+      name?: string | null;
+    }
+  ): Promise<EnergyBudgetTemplate> {
+    const { data, error } = await (this.supabase as any)
+      .from("energy_budget_templates")
+      .upsert(
+        {
+          user_id: userId,
+          weekday: template.weekday,
+          name: template.name ?? null,
+          total_budget: template.total_budget,
+          activities: template.activities,
+          ...getUpdateTimestamp(),
+        },
+        { onConflict: "user_id,weekday" }
+      )
+      .select()
+      .single() as { data: TemplateRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error(
+        "Error saving energy budget template",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw internalError("Failed to save energy budget template");
+    }
+
+    return this.toTemplate(data);
+  }
+}
+
+/**
+ * Singleton instance of EnergyBudgetTemplateRepository
+ */
+export const energyBudgetTemplateRepository = new EnergyBudgetTemplateRepository();
@@ -37,6 +37,8 @@ export interface EnergyBudget {
   total_budget: number;
   activities: EnergyActivity[];
   remaining_budget: number;
+  /** Weekly template the budget was planned from, if any */
+  template_id?: string | null;
   created_at: string | null;
   updated_at: string | null;
 }
@@ -61,6 +63,7 @@ export class EnergyBudgetRepository extends BaseRepository<"energy_budgets"> {
       total_budget: row.total_budget,
       activities: (row.activities as unknown as EnergyActivity[]) || [],
       remaining_budget: row.remaining_budget,
+      template_id: row.template_id ?? null,
       created_at: row.created_at,
       updated_at: row.updated_at,
     };
@@ -110,6 +113,7 @@ export class EnergyBudgetRepository extends BaseRepository<"energy_budgets"> {
       total_budget?: number;
       activities?: EnergyActivity[];
       remaining_budget?: number;
+      template_id?: string | null;
     }
   ): Promise<EnergyBudget> {
     // Check if budget exists for this date
@@ -130,6 +134,9 @@ export class EnergyBudgetRepository extends BaseRepository<"energy_budgets"> {
       if (data.remaining_budget !== undefined) {
         updatePayload.remaining_budget = data.remaining_budget;
       }
+      if (data.template_id !== undefined) {
+        updatePayload.template_id = data.template_id;
+      }
 
       const { data: updated, error } = await (this.supabase as any)
         .from("energy_budgets")
@@ -155,6 +162,7 @@ export class EnergyBudgetRepository extends BaseRepository<"energy_budgets"> {
         total_budget: data.total_budget ?? 100,
         activities: data.activities ?? [],
         remaining_budget: data.remaining_budget ?? data.total_budget ?? 100,
+        template_id: data.template_id ?? null,
       };
 
       const { data: created, error } = await (this.supabase as any)
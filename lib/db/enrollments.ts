@@ -6,6 +6,7 @@
  */
 
 import { BaseRepository, type PaginatedResult } from './base-repository'
+import { applyCursor, buildCursorPage, type CursorPage, type CursorPageOptions } from './query-helpers'
 import { logger } from '@/lib/logging'
 // Direct import to avoid circular dependency with @/lib/api barrel
 import { internalError, notFoundError } from '@/lib/api/error-handler'
@@ -245,7 +246,8 @@ export class EnrollmentRepository extends BaseRepository<'course_enrollments'> {
   }
 
   /**
-   * Update enrollment progress
+   * Update enrollment progress. Completion is stamped separately with
+   * markCompletedOnce, so only one request sees the course completed.
    */
   async updateProgress(
     userId: string,
@@ -263,12 +265,28 @@ export class EnrollmentRepository extends BaseRepository<'course_enrollments'> {
       ...getUpdateTimestamp()
     }
 
-    // Mark as completed if progress is 100%
-    if (progressPercentage >= 100 && !enrollment.completed_at) {
-      updateData.completed_at = new Date().toISOString()
+    return this.update(enrollment.id, updateData)
+  }
+
+  /**
+   * Stamp an enrollment's completion time unless it's already completed
+   *
+   * @returns The completed enrollment, or null if it was completed before
+   */
+  async markCompletedOnce(enrollmentId: string, completedAt: string = new Date().toISOString()): Promise<CourseEnrollment | null> {
+    const { data, error } = await (this.supabase as any)
+      .from('course_enrollments')
+      .update({ completed_at: completedAt, ...getUpdateTimestamp() })
+      .eq('id', enrollmentId)
+      .is('completed_at', null)
+      .select() as { data: CourseEnrollment[] | null; error: Error | null }
+
+    if (error) {
+      logger.error('Error completing enrollment', toError(error))
+      throw internalError('Failed to complete enrollment')
     }
 
-    return this.update(enrollment.id, updateData)
+    return data?.[0] ?? null
   }
 
   /**
@@ -450,6 +468,67 @@ export class EnrollmentRepository extends BaseRepository<'course_enrollments'> {
     }
   }
 
+  /**
+   * Get one cursor page of enrollments for a set of users with course details
+   * Used by the public /api/v1 enrollments endpoint to list an organization's members
+   */
+  async getEnrollmentsForUsersPage(
+    userIds: string[],
+    options: CursorPageOptions & { courseId?: string }
+  ): Promise<CursorPage<EnrollmentWithCourse>> {
+    if (userIds.length === 0) {
+      return buildCursorPage<EnrollmentWithCourse>([], 'enrolled_at', options.limit)
+    }
+
+    let base = this.supabase
+      .from('course_enrollments')
+      .select(`
+        *,
+        course:courses(
+          id,
+          title,
+          slug,
+          thumbnail_url,
+          category,
+          duration_hours
+        )
+      `)
+      .in('user_id', userIds)
+
+    if (options.courseId) {
+      base = base.eq('course_id', options.courseId)
+    }
+
+    const { data, error } = await applyCursor(base, 'enrolled_at', options) as { data: EnrollmentWithCourse[] | null; error: Error | null }
+
+    if (error) {
+      logger.error('Error fetching enrollments page', toError(error))
+      throw internalError('Failed to fetch enrollments')
+    }
+
+    return buildCursorPage(data || [], 'enrolled_at', options.limit)
+  }
+
+  /**
+   * Enrollments of the given users in one course
+   */
+  async getCourseEnrollmentsForUsers(courseId: string, userIds: string[]): Promise<CourseEnrollment[]> {
+    if (userIds.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('course_enrollments')
+      .select('*')
+      .eq('course_id', courseId)
+      .in('user_id', userIds) as { data: CourseEnrollment[] | null; error: Error | null }
+
+    if (error) {
+      logger.error('Error fetching course enrollments for users', toError(error))
+      throw internalError('Failed to fetch enrollments')
+    }
+
+    return data || []
+  }
+
   /**
    * Bulk get enrollment counts for multiple users (optimized for N+1)
    */
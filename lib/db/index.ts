@@ -46,6 +46,16 @@ export {
   couponRepository,
   validateCoupon,
 } from "./coupons";
+export {
+  ContentPrerequisiteRepository,
+  contentPrerequisiteRepository,
+} from "./content-prerequisites";
+export {
+  CoursePrerequisiteRepository,
+  coursePrerequisiteRepository,
+  type CoursePrerequisiteEdge,
+  type RequiredCourse,
+} from "./course-prerequisites";
 export { CourseRepository, courseRepository } from "./courses";
 export {
   // Legacy wrapper exports for backward compatibility
@@ -87,6 +97,22 @@ export {
   type EventType,
   type EventWithStats,
 } from "./events";
+export {
+  InstructorAvailabilityRepository,
+  instructorAvailabilityRepository,
+  type AvailabilityExceptionInput,
+} from "./instructor-availability";
+export {
+  InstructorEarningsRepository,
+  instructorEarningsRepository,
+  type EarningWithCourse,
+  type RevenueSourceRows,
+} from "./instructor-earnings";
+export {
+  InstructorPayoutStatementRepository,
+  instructorPayoutStatementRepository,
+  type PayoutStatementWithInstructor,
+} from "./instructor-payout-statements";
 export {
   InstructorResourceRepository,
   instructorResourceRepository,
@@ -131,12 +157,58 @@ export {
 } from "./lesson-notes";
 export { LogsRepository, logsRepository } from "./logs";
 export { ModuleRepository, moduleRepository } from "./modules";
+export {
+  NotificationEmailQueueRepository,
+  notificationEmailQueueRepository,
+} from "./notification-email-queue";
+export {
+  NotificationPreferencesRepository,
+  notificationPreferencesRepository,
+} from "./notification-preferences";
+export { NotificationRepository, notificationRepository } from "./notifications";
 export { PricingRepository, pricingRepository } from "./pricing";
-export { QuizRepository, quizRepository, type QuizQuestion } from "./quizzes";
+export {
+  MAX_PUSH_FAILURES,
+  PushSubscriptionRepository,
+  pushSubscriptionRepository,
+  type PushSubscriptionInput,
+} from "./push-subscriptions";
+export {
+  QuizRepository,
+  quizRepository,
+  type QuizAttemptWithQuestions,
+  type QuizQuestion,
+  type QuizRandomizationSettings,
+  type QuizWithQuestions,
+} from "./quizzes";
+export {
+  QuizQuestionBankRepository,
+  quizQuestionBankRepository,
+  type QuizBankQuestion,
+  type QuizBankQuestionInput,
+  type QuizQuestionBankFilters,
+  type QuizQuestionBankWithQuestions,
+} from "./quiz-question-banks";
+export {
+  RateLimitViolationRepository,
+  rateLimitViolationRepository,
+} from "./rate-limit-violations";
+export {
+  ReminderDeliveryRepository,
+  reminderDeliveryRepository,
+} from "./reminder-deliveries";
 export {
   ScheduledEmailRepository,
   scheduledEmailRepository,
 } from "./scheduled-emails";
+export {
+  ACTIVE_SESSION_STATUSES,
+  SessionRepository,
+  sessionRepository,
+  type SessionBookingParams,
+  type SessionParticipant,
+  type SessionWithParticipants,
+} from "./sessions";
 export { TestimonialRepository, testimonialRepository } from "./testimonials";
 export { UserRepository, userRepository } from "./users";
 export {
@@ -172,6 +244,7 @@ export {
   getOrganizationMembers,
   getPendingInvitesForEmail,
   isEmailAlreadyMember,
+  type MemberWithProfile,
   MembershipRepository,
   membershipRepository,
   removeOrganizationMember,
@@ -180,6 +253,41 @@ export {
   updateMemberRole as updateMembershipRole,
 } from "./memberships";
 
+// Teams
+export {
+  TeamRepository,
+  teamRepository,
+  type OrganizationTeam,
+  type OrganizationTeamInput,
+} from "./teams";
+
+// Learning assignments
+export {
+  LearningAssignmentRepository,
+  learningAssignmentRepository,
+  type LearningAssignment,
+  type LearningAssignmentInsert,
+  type LearningAssignmentMember,
+  type LearningAssignmentMemberWithProfile,
+  type OpenAssignmentMemberFilters,
+  type OpenLearningAssignmentMember,
+} from "./learning-assignments";
+
+// Privacy
+export {
+  PrivacySettingsRepository,
+  privacySettingsRepository,
+  type OrganizationPrivacySettings,
+} from "./privacy-settings";
+export {
+  AggregateViewRepository,
+  aggregateViewRepository,
+  type AggregateView,
+  type AggregateViewFilters,
+  type AggregateViewInsert,
+  type AggregateViewWithViewer,
+} from "./aggregate-views";
+
 // Organizations - use organizationRepository for all operations
 export {
   getUserOrgRole,
@@ -199,6 +307,7 @@ export {
   type EmailSettings,
   type FeatureFlags,
   type GeneralSettings,
+  type PaymentSettings,
   type PlatformSettings,
   type SecuritySettings,
 } from "./platform-settings";
@@ -273,6 +382,49 @@ export {
   type RenderedEmail,
 } from "./email-templates";
 
+// Email deliveries
+export {
+  EmailDeliveryRepository,
+  emailDeliveryRepository,
+  type EmailDeliveryFilters,
+  type EmailDeliveryWithEvents,
+} from "./email-deliveries";
+
+// Email campaigns
+export {
+  EmailCampaignRepository,
+  emailCampaignRepository,
+  type EmailCampaign,
+  type EmailCampaignInput,
+  type EmailCampaignStats,
+  type EmailCampaignStep,
+  type EmailCampaignStepWithTemplate,
+  type EmailCampaignWithSteps,
+} from "./email-campaigns";
+export {
+  EmailCampaignEnrollmentRepository,
+  emailCampaignEnrollmentRepository,
+  type EmailCampaignEnrollment,
+  type EmailCampaignEnrollmentContext,
+} from "./email-campaign-enrollments";
+
+// Search sources
+export {
+  SearchSourceRepository,
+  searchSourceRepository,
+  type SearchSources,
+} from "./search-sources";
+
+// Background jobs
+export {
+  JobRepository,
+  jobRepository,
+  type EnqueueJobInput,
+  type JobFilters,
+  type JobRow,
+  type JobScheduleRow,
+} from "./jobs";
+
 // Content revisions
 export {
   ContentRevisionsRepository,
@@ -349,6 +501,18 @@ export {
   type EnergyBudget,
 } from "./energy-budgets";
 
+export {
+  EnergyActivityLibraryRepository,
+  energyActivityLibraryRepository,
+  type LibraryActivity,
+} from "./energy-activity-library";
+
+export {
+  EnergyBudgetTemplateRepository,
+  energyBudgetTemplateRepository,
+  type EnergyBudgetTemplate,
+} from "./energy-budget-templates";
+
 export {
   ShadowSessionRepository,
   shadowSessionRepository,
@@ -385,3 +549,15 @@ export {
 
 // Base repository (for extension)
 export { BaseRepository, createRepository } from "./base-repository";
+
+// Cursor pagination helpers
+export {
+  decodeCursor,
+  encodeCursor,
+  normalizeCursorLimit,
+  DEFAULT_CURSOR_LIMIT,
+  MAX_CURSOR_LIMIT,
+  type CursorPage,
+  type CursorPageOptions,
+  type CursorPosition,
+} from "./query-helpers";
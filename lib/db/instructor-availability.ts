@@ -0,0 +1,230 @@
+/**
+ * Instructor Availability Repository
+ * Recurring weekly availability, date exceptions and booking settings that
+ * define when students can book one-on-one sessions with an instructor
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import {
+  DEFAULT_BOOKING_POLICY,
+  type AvailabilityException,
+  type AvailabilityRule,
+  type BookingPolicy,
+} from '@/lib/scheduling/availability';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+
+type AvailabilityRuleRow = Database['public']['Tables']['instructor_availability_rules']['Row'];
+type AvailabilityExceptionRow = Database['public']['Tables']['instructor_availability_exceptions']['Row'];
+type BookingSettingsRow = Database['public']['Tables']['instructor_booking_settings']['Row'];
+
+/** Exception fields accepted when adding one */
+export interface AvailabilityExceptionInput {
+  date: string;
+  start_time?: string;
+  end_time?: string;
+  is_available: boolean;
+  reason?: string;
+}
+
+class InstructorAvailabilityRepository extends BaseRepository<'instructor_availability_rules'> {
+  constructor() {
+    super('instructor_availability_rules');
+  }
+
+  /**
+   * Get an instructor's weekly rules ordered by weekday and start time
+   */
+  async getRules(instructorId: string): Promise<AvailabilityRuleRow[]> {
+    const { data, error } = await this.supabase
+      .from('instructor_availability_rules')
+      .select('*')
+      .eq('instructor_id', instructorId)
+      .order('weekday')
+      .order('start_time');
+
+    if (error) {
+      logger.error('Error fetching availability rules', new Error(error.message));
+      throw internalError('Failed to fetch availability');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Replace all of an instructor's weekly rules
+   */
+  async replaceRules(instructorId: string, rules: AvailabilityRule[]): Promise<AvailabilityRuleRow[]> {
+    const { error: deleteError } = await this.supabase
+      .from('instructor_availability_rules')
+      .delete()
+      .eq('instructor_id', instructorId);
+
+    if (deleteError) {
+      logger.error('Error clearing availability rules', new Error(deleteError.message));
+      throw internalError('Failed to update availability');
+    }
+
+    if (rules.length === 0) return [];
+
+    const { data, error } = await (this.supabase as any)
+      .from('instructor_availability_rules')
+      .insert(rules.map((rule) => ({ ...rule, instructor_id: instructorId })))
+      .select() as { data: AvailabilityRuleRow[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error saving availability rules', new Error(error.message));
+      throw internalError('Failed to update availability');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get exceptions between two dates (YYYY-MM-DD, inclusive)
+   */
+  async getExceptions(instructorId: string, fromDate: string, toDate: string): Promise<AvailabilityExceptionRow[]> {
+    const { data, error } = await this.supabase
+      .from('instructor_availability_exceptions')
+      .select('*')
+      .eq('instructor_id', instructorId)
+      .gte('date', fromDate)
+      .lte('date', toDate)
+      .order('date');
+
+    if (error) {
+      logger.error('Error fetching availability exceptions', new Error(error.message));
+      throw internalError('Failed to fetch availability exceptions');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a single exception
+   */
+  async getException(exceptionId: string): Promise<AvailabilityExceptionRow | null> {
+    const { data, error } = await this.supabase
+      .from('instructor_availability_exceptions')
+      .select('*')
+      .eq('id', exceptionId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching availability exception', new Error(error.message));
+      throw internalError('Failed to fetch availability exception');
+    }
+
+    return data;
+  }
+
+  /**
+   * Add a blocked period or extra opening on a date
+   */
+  async addException(instructorId: string, input: AvailabilityExceptionInput): Promise<AvailabilityExceptionRow> {
+    const { data, error } = await (this.supabase as any)
+      .from('instructor_availability_exceptions')
+      .insert({
+        instructor_id: instructorId,
+        date: input.date,
+        start_time: input.start_time ?? null,
+        end_time: input.end_time ?? null,
+        is_available: input.is_available,
+        reason: input.reason ?? null,
+      })
+      .select()
+      .single() as { data: AvailabilityExceptionRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error adding availability exception', new Error(error?.message));
+      throw internalError('Failed to add availability exception');
+    }
+
+    return data;
+  }
+
+  /**
+   * Remove an exception
+   */
+  async deleteException(exceptionId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('instructor_availability_exceptions')
+      .delete()
+      .eq('id', exceptionId);
+
+    if (error) {
+      logger.error('Error deleting availability exception', new Error(error.message));
+      throw internalError('Failed to delete availability exception');
+    }
+  }
+
+  /**
+   * Get an instructor's booking policy, falling back to the defaults
+   */
+  async getBookingPolicy(instructorId: string): Promise<BookingPolicy> {
+    const { data, error } = await this.supabase
+      .from('instructor_booking_settings')
+      .select('*')
+      .eq('instructor_id', instructorId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching booking settings', new Error(error.message));
+      throw internalError('Failed to fetch booking settings');
+    }
+
+    return data ? this.toBookingPolicy(data) : { ...DEFAULT_BOOKING_POLICY };
+  }
+
+  /**
+   * Create or update an instructor's booking settings
+   */
+  async updateBookingSettings(instructorId: string, settings: Partial<BookingPolicy>): Promise<BookingPolicy> {
+    const { data, error } = await (this.supabase as any)
+      .from('instructor_booking_settings')
+      .upsert({ instructor_id: instructorId, ...settings, ...getUpdateTimestamp() }, { onConflict: 'instructor_id' })
+      .select()
+      .single() as { data: BookingSettingsRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error saving booking settings', new Error(error?.message));
+      throw internalError('Failed to save booking settings');
+    }
+
+    return this.toBookingPolicy(data);
+  }
+
+  /**
+   * Rules, exceptions and policy needed to compute slots between two dates
+   */
+  async getSchedule(
+    instructorId: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<{ rules: AvailabilityRule[]; exceptions: AvailabilityException[]; policy: BookingPolicy }> {
+    const [rules, exceptions, policy] = await Promise.all([
+      this.getRules(instructorId),
+      this.getExceptions(instructorId, fromDate, toDate),
+      this.getBookingPolicy(instructorId),
+    ]);
+
+    return { rules, exceptions, policy };
+  }
+
+  private toBookingPolicy(row: BookingSettingsRow): BookingPolicy {
+    return {
+      timezone: row.timezone,
+      buffer_minutes: row.buffer_minutes,
+      slot_interval_minutes: row.slot_interval_minutes,
+      min_notice_hours: row.min_notice_hours,
+      max_days_ahead: row.max_days_ahead,
+      cancellation_window_hours: row.cancellation_window_hours,
+    };
+  }
+}
+
+export const instructorAvailabilityRepository = new InstructorAvailabilityRepository();
+export { InstructorAvailabilityRepository };
@@ -0,0 +1,211 @@
+/**
+ * Instructor Earnings Repository
+ * Revenue-share ledger entries and the purchases they are attributed from:
+ * course orders, directly paid enrollments and paid sessions
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import type {
+  CourseOwner,
+  EnrollmentSale,
+  LedgerEntry,
+  OrderItemSale,
+  SessionSale,
+} from '@/lib/earnings/ledger';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+type EarningRow = Database['public']['Tables']['instructor_earnings']['Row'];
+
+/** Ledger entry with the course title */
+export interface EarningWithCourse extends EarningRow {
+  course: { title: string } | null;
+}
+
+/** Purchases that may earn instructors revenue */
+export interface RevenueSourceRows {
+  courses: CourseOwner[];
+  orderItems: OrderItemSale[];
+  enrollments: EnrollmentSale[];
+  sessions: SessionSale[];
+}
+
+class InstructorEarningsRepository extends BaseRepository<'instructor_earnings'> {
+  constructor() {
+    super('instructor_earnings');
+  }
+
+  /**
+   * Ledger entries for an instructor, newest first
+   */
+  async getByInstructor(instructorId: string, since?: Date): Promise<EarningWithCourse[]> {
+    let query = this.supabase
+      .from('instructor_earnings')
+      .select('*, course:courses(title)')
+      .eq('instructor_id', instructorId)
+      .order('occurred_at', { ascending: false });
+
+    if (since) {
+      query = query.gte('occurred_at', since.toISOString());
+    }
+
+    const { data, error } = await query as { data: EarningWithCourse[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching instructor earnings', error);
+      throw internalError('Failed to fetch earnings');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Ledger entries rolled up into a statement, oldest first
+   */
+  async getByStatement(statementId: string): Promise<EarningWithCourse[]> {
+    const { data, error } = await this.supabase
+      .from('instructor_earnings')
+      .select('*, course:courses(title)')
+      .eq('statement_id', statementId)
+      .order('occurred_at') as { data: EarningWithCourse[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching statement entries', error);
+      throw internalError('Failed to fetch statement entries');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Entries not yet on a statement that happened before the date
+   */
+  async getUnassigned(before: Date): Promise<EarningRow[]> {
+    const { data, error } = await this.supabase
+      .from('instructor_earnings')
+      .select('*')
+      .is('statement_id', null)
+      .lt('occurred_at', before.toISOString());
+
+    if (error) {
+      logger.error('Error fetching unassigned earnings', new Error(error.message));
+      throw internalError('Failed to fetch earnings');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Every recorded entry, optionally for one instructor, to find what is
+   * still missing from the ledger
+   */
+  async getRecorded(instructorId?: string): Promise<EarningRow[]> {
+    let query = this.supabase.from('instructor_earnings').select('*');
+
+    if (instructorId) {
+      query = query.eq('instructor_id', instructorId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('Error fetching recorded earnings', new Error(error.message));
+      throw internalError('Failed to fetch earnings');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Append entries, ignoring any already recorded for the same source
+   */
+  async record(entries: LedgerEntry[]): Promise<number> {
+    if (entries.length === 0) return 0;
+
+    const { data, error } = await (this.supabase as any)
+      .from('instructor_earnings')
+      .upsert(entries, { onConflict: 'source_type,source_id,entry_type', ignoreDuplicates: true })
+      .select('id') as { data: Array<{ id: string }> | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error recording instructor earnings', error);
+      throw internalError('Failed to record earnings');
+    }
+
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Course orders, paid enrollments and paid sessions, optionally for one
+   * instructor. Courses belong to the instructor who created them.
+   */
+  async getRevenueSources(instructorId?: string): Promise<RevenueSourceRows> {
+    let coursesQuery = this.supabase
+      .from('courses')
+      .select('id, title, created_by')
+      .not('created_by', 'is', null);
+    let sessionsQuery = this.supabase
+      .from('sessions')
+      .select('id, instructor_id, price_usd, status, scheduled_at, refunded_at')
+      .gt('price_usd', 0);
+
+    if (instructorId) {
+      coursesQuery = coursesQuery.eq('created_by', instructorId);
+      sessionsQuery = sessionsQuery.eq('instructor_id', instructorId);
+    }
+
+    const [coursesResult, sessionsResult] = await Promise.all([
+      coursesQuery as unknown as Promise<{
+        data: Array<{ id: string; title: string; created_by: string }> | null;
+        error: Error | null;
+      }>,
+      sessionsQuery as unknown as Promise<{ data: SessionSale[] | null; error: Error | null }>,
+    ]);
+
+    if (coursesResult.error || sessionsResult.error) {
+      logger.error('Error fetching revenue sources', coursesResult.error ?? sessionsResult.error ?? undefined);
+      throw internalError('Failed to fetch revenue sources');
+    }
+
+    const courses = (coursesResult.data || []).map((course) => ({
+      id: course.id,
+      title: course.title,
+      instructor_id: course.created_by,
+    }));
+    const courseIds = courses.map((course) => course.id);
+
+    if (courseIds.length === 0) {
+      return { courses, orderItems: [], enrollments: [], sessions: sessionsResult.data || [] };
+    }
+
+    const [orderItemsResult, enrollmentsResult] = await Promise.all([
+      this.supabase
+        .from('order_items')
+        .select('id, product_id, price_usd, order:orders!inner(user_id, status, created_at, completed_at, refunded_at)')
+        .eq('product_type', 'course')
+        .in('product_id', courseIds) as unknown as Promise<{ data: OrderItemSale[] | null; error: Error | null }>,
+      this.supabase
+        .from('course_enrollments')
+        .select('id, user_id, course_id, amount_paid, payment_status, enrolled_at, refunded_at')
+        .in('course_id', courseIds)
+        .gt('amount_paid', 0) as unknown as Promise<{ data: EnrollmentSale[] | null; error: Error | null }>,
+    ]);
+
+    if (orderItemsResult.error || enrollmentsResult.error) {
+      logger.error('Error fetching course sales', orderItemsResult.error ?? enrollmentsResult.error ?? undefined);
+      throw internalError('Failed to fetch revenue sources');
+    }
+
+    return {
+      courses,
+      orderItems: orderItemsResult.data || [],
+      enrollments: enrollmentsResult.data || [],
+      sessions: sessionsResult.data || [],
+    };
+  }
+}
+
+export const instructorEarningsRepository = new InstructorEarningsRepository();
+export { InstructorEarningsRepository };
@@ -0,0 +1,168 @@
+/**
+ * Instructor Payout Statements Repository
+ * Monthly roll-ups of the earnings ledger and their payout approval
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import type { PayoutStatementStatus, StatementDraft } from '@/lib/earnings/ledger';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+
+type PayoutStatementRow = Database['public']['Tables']['instructor_payout_statements']['Row'];
+
+/** Statement with the instructor's name and email */
+export interface PayoutStatementWithInstructor extends PayoutStatementRow {
+  instructor: { id: string; full_name: string | null; email: string } | null;
+}
+
+class InstructorPayoutStatementRepository extends BaseRepository<'instructor_payout_statements'> {
+  constructor() {
+    super('instructor_payout_statements');
+  }
+
+  /**
+   * An instructor's statements, newest first
+   */
+  async getByInstructor(instructorId: string): Promise<PayoutStatementRow[]> {
+    const { data, error } = await this.supabase
+      .from('instructor_payout_statements')
+      .select('*')
+      .eq('instructor_id', instructorId)
+      .order('period_start', { ascending: false });
+
+    if (error) {
+      logger.error('Error fetching payout statements', new Error(error.message));
+      throw internalError('Failed to fetch payout statements');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * A statement with its instructor
+   */
+  async findWithInstructor(statementId: string): Promise<PayoutStatementWithInstructor | null> {
+    const { data, error } = await this.supabase
+      .from('instructor_payout_statements')
+      .select('*, instructor:profiles!instructor_payout_statements_instructor_id_fkey(id, full_name, email)')
+      .eq('id', statementId)
+      .maybeSingle() as { data: PayoutStatementWithInstructor | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching payout statement', error);
+      throw internalError('Failed to fetch payout statement');
+    }
+
+    return data;
+  }
+
+  /**
+   * Statements across all instructors for the approval queue, newest first
+   */
+  async list(status?: PayoutStatementStatus): Promise<PayoutStatementWithInstructor[]> {
+    let query = this.supabase
+      .from('instructor_payout_statements')
+      .select('*, instructor:profiles!instructor_payout_statements_instructor_id_fkey(id, full_name, email)')
+      .order('period_start', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query as { data: PayoutStatementWithInstructor[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error listing payout statements', error);
+      throw internalError('Failed to fetch payout statements');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Instructor and month of every statement, to avoid creating duplicates
+   */
+  async getPeriods(): Promise<Array<{ instructor_id: string; period_start: string }>> {
+    const { data, error } = await this.supabase
+      .from('instructor_payout_statements')
+      .select('instructor_id, period_start');
+
+    if (error) {
+      logger.error('Error fetching statement periods', new Error(error.message));
+      throw internalError('Failed to fetch payout statements');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create a statement and move its ledger entries onto it
+   */
+  async create(draft: StatementDraft): Promise<PayoutStatementRow> {
+    const { entry_ids: entryIds, ...statement } = draft;
+
+    const { data, error } = await (this.supabase as any)
+      .from('instructor_payout_statements')
+      .insert(statement)
+      .select()
+      .single() as { data: PayoutStatementRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error creating payout statement', error ?? undefined);
+      throw internalError('Failed to create payout statement');
+    }
+
+    const { error: assignError } = await (this.supabase as any)
+      .from('instructor_earnings')
+      .update({ statement_id: data.id })
+      .in('id', entryIds)
+      .is('statement_id', null) as { error: Error | null };
+
+    if (assignError) {
+      logger.error('Error assigning earnings to statement', assignError, { statementId: data.id });
+      throw internalError('Failed to create payout statement');
+    }
+
+    return data;
+  }
+
+  /**
+   * Record an admin decision on a statement
+   */
+  async updateStatus(
+    statementId: string,
+    status: PayoutStatementStatus,
+    reviewerId: string,
+    notes?: string
+  ): Promise<PayoutStatementRow> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await (this.supabase as any)
+      .from('instructor_payout_statements')
+      .update({
+        status,
+        reviewed_by: reviewerId,
+        reviewed_at: now,
+        ...(status === 'paid' ? { paid_at: now } : {}),
+        ...(notes !== undefined ? { notes } : {}),
+        ...getUpdateTimestamp(),
+      })
+      .eq('id', statementId)
+      .select()
+      .single() as { data: PayoutStatementRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error updating payout statement', error ?? undefined);
+      throw internalError('Failed to update payout statement');
+    }
+
+    return data;
+  }
+}
+
+export const instructorPayoutStatementRepository = new InstructorPayoutStatementRepository();
+export { InstructorPayoutStatementRepository };
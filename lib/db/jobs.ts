@@ -0,0 +1,307 @@
+/**
+ * Jobs Repository
+ * Durable background job queue with leases, retries and a dead-letter state
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import type { JobStatus } from '@/lib/jobs/schedule';
+import { logger } from '@/lib/logging';
+import type { Database, Json } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+
+export type JobRow = Database['public']['Tables']['jobs']['Row'];
+export type JobScheduleRow = Database['public']['Tables']['job_schedules']['Row'];
+
+/** Postgres unique violation, raised when a dedupe key is already queued */
+const UNIQUE_VIOLATION = '23505';
+
+export interface EnqueueJobInput {
+  type: string;
+  payload: Json;
+  maxAttempts: number;
+  timeoutSeconds: number;
+  runAt?: Date;
+  /** Skip enqueueing while an unfinished job has this key */
+  dedupeKey?: string | null;
+  recurringName?: string | null;
+  createdBy?: string | null;
+}
+
+export interface JobFilters {
+  status?: JobStatus;
+  type?: string;
+  limit: number;
+  offset: number;
+}
+
+class JobRepository extends BaseRepository<'jobs'> {
+  constructor() {
+    super('jobs');
+  }
+
+  /**
+   * Add a job to the queue
+   *
+   * @returns The job, or null if one with the same dedupe key is still unfinished
+   */
+  async enqueue(input: EnqueueJobInput): Promise<JobRow | null> {
+    const { data, error } = await (this.supabase as any)
+      .from('jobs')
+      .insert({
+        type: input.type,
+        payload: input.payload,
+        max_attempts: input.maxAttempts,
+        timeout_seconds: input.timeoutSeconds,
+        run_at: (input.runAt ?? new Date()).toISOString(),
+        dedupe_key: input.dedupeKey ?? null,
+        recurring_name: input.recurringName ?? null,
+        created_by: input.createdBy ?? null,
+      })
+      .select()
+      .single() as { data: JobRow | null; error: { code?: string; message: string } | null };
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return null;
+    }
+    if (error || !data) {
+      logger.error('Error enqueueing job', error ? new Error(error.message) : undefined, { type: input.type });
+      throw internalError('Failed to enqueue job');
+    }
+
+    return data;
+  }
+
+  /**
+   * Lease due jobs to a worker for their visibility timeout; jobs whose lease
+   * expired are leased again, or dead-lettered if out of attempts
+   */
+  async lease(workerId: string, limit: number, types?: string[]): Promise<JobRow[]> {
+    const { data, error } = await (this.supabase as any).rpc('lease_jobs', {
+      p_worker_id: workerId,
+      p_limit: limit,
+      p_types: types ?? null,
+    }) as { data: JobRow[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error leasing jobs', error, { workerId });
+      throw internalError('Failed to lease jobs');
+    }
+
+    return data ?? [];
+  }
+
+  /**
+   * Mark a leased job as done
+   */
+  async complete(id: string, workerId: string, result: Json): Promise<void> {
+    await this.settle(id, workerId, {
+      status: 'succeeded',
+      result,
+      last_error: null,
+      finished_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a failed attempt: back in the queue at `runAt`, or dead-lettered
+   */
+  async fail(id: string, workerId: string, message: string, retryAt: Date | null): Promise<void> {
+    await this.settle(
+      id,
+      workerId,
+      retryAt
+        ? { status: 'queued', run_at: retryAt.toISOString(), last_error: message }
+        : { status: 'dead', last_error: message, finished_at: new Date().toISOString() }
+    );
+  }
+
+  /**
+   * Release the worker's lease with the attempt's outcome. A worker whose lease
+   * already expired and was taken over no longer owns the job, so its update is
+   * dropped.
+   */
+  private async settle(
+    id: string,
+    workerId: string,
+    update: Database['public']['Tables']['jobs']['Update']
+  ): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('jobs')
+      .update({ ...update, locked_until: null, locked_by: null, ...getUpdateTimestamp() })
+      .eq('id', id)
+      .eq('status', 'running')
+      .eq('locked_by', workerId) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error settling job', error, { jobId: id });
+      throw internalError('Failed to update job');
+    }
+  }
+
+  /**
+   * Queue a dead or queued job to run now with a fresh set of attempts
+   *
+   * @returns The job, or null if it isn't waiting or dead
+   */
+  async retry(id: string): Promise<JobRow | null> {
+    const { data, error } = await (this.supabase as any)
+      .from('jobs')
+      .update({
+        status: 'queued',
+        attempts: 0,
+        run_at: new Date().toISOString(),
+        finished_at: null,
+        ...getUpdateTimestamp(),
+      })
+      .eq('id', id)
+      .in('status', ['queued', 'dead'])
+      .select()
+      .maybeSingle() as { data: JobRow | null; error: { code?: string; message: string } | null };
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return null;
+    }
+    if (error) {
+      logger.error('Error retrying job', new Error(error.message), { jobId: id });
+      throw internalError('Failed to retry job');
+    }
+
+    return data;
+  }
+
+  /**
+   * Jobs for the admin queue view, newest first
+   */
+  async list(filters: JobFilters): Promise<{ jobs: JobRow[]; total: number }> {
+    let query = this.supabase
+      .from('jobs')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.type) query = query.eq('type', filters.type);
+
+    const { data, error, count } = await query as { data: JobRow[] | null; error: Error | null; count: number | null };
+
+    if (error) {
+      logger.error('Error listing jobs', error);
+      throw internalError('Failed to fetch jobs');
+    }
+
+    return { jobs: data ?? [], total: count ?? 0 };
+  }
+
+  /**
+   * Number of jobs in each status
+   */
+  async countByStatus(): Promise<Record<JobStatus, number>> {
+    const statuses: JobStatus[] = ['queued', 'running', 'succeeded', 'dead'];
+    const counts = await Promise.all(
+      statuses.map(async (status) => {
+        const { count, error } = await this.supabase
+          .from('jobs')
+          .select('id', { count: 'exact', head: true })
+          .eq('status', status) as { count: number | null; error: Error | null };
+
+        if (error) {
+          logger.error('Error counting jobs', error, { status });
+          throw internalError('Failed to count jobs');
+        }
+        return [status, count ?? 0] as const;
+      })
+    );
+
+    return Object.fromEntries(counts) as Record<JobStatus, number>;
+  }
+
+  /**
+   * Delete finished jobs older than the cutoff
+   *
+   * @returns Number of jobs deleted
+   */
+  async deleteFinishedBefore(cutoff: Date, statuses: JobStatus[]): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('jobs')
+      .delete()
+      .in('status', statuses)
+      .lt('finished_at', cutoff.toISOString())
+      .select('id') as { data: { id: string }[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error pruning jobs', error);
+      throw internalError('Failed to prune jobs');
+    }
+
+    return data?.length ?? 0;
+  }
+
+  /**
+   * When each recurring job was last enqueued and runs next
+   */
+  async getSchedules(): Promise<JobScheduleRow[]> {
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .select('*') as { data: JobScheduleRow[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching job schedules', error);
+      throw internalError('Failed to fetch job schedules');
+    }
+
+    return data ?? [];
+  }
+
+  /**
+   * Move a recurring job on to its next run, creating its schedule the first
+   * time. Only succeeds for the caller that still sees the previous
+   * next_run_at, so concurrent runners enqueue it once.
+   *
+   * @returns Whether this caller claimed the run
+   */
+  async advanceSchedule(
+    name: string,
+    previousRunAt: string | null,
+    nextRunAt: Date | null,
+    enqueuedAt: Date | null
+  ): Promise<boolean> {
+    const values = {
+      name,
+      ...(enqueuedAt && { last_enqueued_at: enqueuedAt.toISOString() }),
+      next_run_at: nextRunAt?.toISOString() ?? null,
+      ...getUpdateTimestamp(),
+    };
+
+    if (previousRunAt === null) {
+      const { error } = await (this.supabase as any)
+        .from('job_schedules')
+        .insert(values) as { error: { code?: string; message: string } | null };
+
+      if (error?.code === UNIQUE_VIOLATION) return false;
+      if (error) {
+        logger.error('Error creating job schedule', new Error(error.message), { name });
+        throw internalError('Failed to update job schedule');
+      }
+      return true;
+    }
+
+    const { data, error } = await (this.supabase as any)
+      .from('job_schedules')
+      .update(values)
+      .eq('name', name)
+      .eq('next_run_at', previousRunAt)
+      .select('name') as { data: { name: string }[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error advancing job schedule', error, { name });
+      throw internalError('Failed to update job schedule');
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+}
+
+export const jobRepository = new JobRepository();
+export { JobRepository };
@@ -0,0 +1,241 @@
+/**
+ * Learning Assignment Repository
+ * Courses, assessments and diagnostics assigned to organization members, and
+ * per-assignee completion and reminder tracking
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { AssignmentNotice } from '@/lib/organizations/learning-assignments';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+export type LearningAssignment = Database['public']['Tables']['learning_assignments']['Row'];
+export type LearningAssignmentInsert = Database['public']['Tables']['learning_assignments']['Insert'];
+export type LearningAssignmentMember = Database['public']['Tables']['learning_assignment_members']['Row'];
+
+/** Assignee with profile, for compliance views and exports */
+export interface LearningAssignmentMemberWithProfile extends LearningAssignmentMember {
+  profile: { email: string; full_name: string | null } | null;
+}
+
+/** Open assignee with its assignment, for completion tracking and notices */
+export interface OpenLearningAssignmentMember extends LearningAssignmentMemberWithProfile {
+  assignment: LearningAssignment;
+}
+
+/** Which open assignees to fetch */
+export interface OpenAssignmentMemberFilters {
+  userId?: string;
+  courseId?: string;
+  contentType?: LearningAssignment['content_type'];
+  /** Only assignments with a due date */
+  withDueDate?: boolean;
+}
+
+class LearningAssignmentRepository extends BaseRepository<'learning_assignments'> {
+  constructor() {
+    super('learning_assignments');
+  }
+
+  /**
+   * Every assignment of an organization, newest first
+   */
+  async getOrganizationAssignments(organizationId: string): Promise<LearningAssignment[]> {
+    const { data, error } = await this.supabase
+      .from('learning_assignments')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false }) as { data: LearningAssignment[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching learning assignments', error, { organizationId });
+      throw internalError('Failed to fetch assignments');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * An assignment, only if it belongs to the organization
+   */
+  async getOrganizationAssignment(organizationId: string, assignmentId: string): Promise<LearningAssignment | null> {
+    return this.findOne({ id: assignmentId, organization_id: organizationId });
+  }
+
+  /**
+   * Assignees of the given assignments with their profiles
+   */
+  async getMembers(assignmentIds: string[]): Promise<LearningAssignmentMemberWithProfile[]> {
+    if (assignmentIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('learning_assignment_members')
+      .select('*, profile:profiles!user_id(email, full_name)')
+      .in('assignment_id', assignmentIds)
+      .order('assigned_at') as { data: LearningAssignmentMemberWithProfile[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching assignees', error);
+      throw internalError('Failed to fetch assignees');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Assign members; members who already have the assignment are skipped
+   *
+   * @param completedAt - Completion time for members who already finished the content
+   * @returns The newly created assignee rows
+   */
+  async addMembers(
+    assignment: Pick<LearningAssignment, 'id' | 'organization_id'>,
+    userIds: string[],
+    completedAt: Map<string, string> = new Map()
+  ): Promise<LearningAssignmentMember[]> {
+    if (userIds.length === 0) return [];
+
+    const rows = userIds.map((userId) => ({
+      assignment_id: assignment.id,
+      organization_id: assignment.organization_id,
+      user_id: userId,
+      completed_at: completedAt.get(userId) ?? null,
+    }));
+
+    const { data, error } = await (this.supabase as any)
+      .from('learning_assignment_members')
+      .upsert(rows, { onConflict: 'assignment_id,user_id', ignoreDuplicates: true })
+      .select() as { data: LearningAssignmentMember[] | null; error: { message: string } | null };
+
+    if (error) {
+      logger.error('Error adding assignees', new Error(error.message), { assignmentId: assignment.id });
+      throw internalError('Failed to assign members');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Take a member off an assignment
+   *
+   * @returns Whether the member had the assignment
+   */
+  async removeMember(assignmentId: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('learning_assignment_members')
+      .delete()
+      .eq('assignment_id', assignmentId)
+      .eq('user_id', userId)
+      .select('id') as { data: Array<{ id: string }> | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error removing assignee', error, { assignmentId });
+      throw internalError('Failed to remove assignee');
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Assignees who haven't completed their assignment yet
+   */
+  async getOpenMembers(filters: OpenAssignmentMemberFilters = {}): Promise<OpenLearningAssignmentMember[]> {
+    let query = this.supabase
+      .from('learning_assignment_members')
+      .select('*, assignment:learning_assignments!inner(*), profile:profiles!user_id(email, full_name)')
+      .is('completed_at', null);
+
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+    if (filters.contentType) {
+      query = query.eq('assignment.content_type', filters.contentType);
+    }
+    if (filters.courseId) {
+      query = query.eq('assignment.course_id', filters.courseId);
+    }
+    if (filters.withDueDate) {
+      query = query.not('assignment.due_at', 'is', null);
+    }
+
+    const { data, error } = await query as { data: OpenLearningAssignmentMember[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching open assignees', error);
+      throw internalError('Failed to fetch open assignments');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Record completions; rows already completed keep their original time
+   *
+   * @returns IDs of the rows this call completed
+   */
+  async markMembersCompleted(completions: Array<{ id: string; completed_at: string }>): Promise<string[]> {
+    const idsByTime = new Map<string, string[]>();
+    for (const { id, completed_at } of completions) {
+      idsByTime.set(completed_at, [...(idsByTime.get(completed_at) ?? []), id]);
+    }
+
+    const completed: string[] = [];
+    for (const [completedAt, memberIds] of idsByTime) {
+      const { data, error } = await (this.supabase as any)
+        .from('learning_assignment_members')
+        .update({ completed_at: completedAt })
+        .in('id', memberIds)
+        .is('completed_at', null)
+        .select('id') as { data: Array<{ id: string }> | null; error: { message: string } | null };
+
+      if (error) {
+        logger.error('Error completing assignments', new Error(error.message));
+        throw internalError('Failed to record assignment completion');
+      }
+
+      completed.push(...(data || []).map((row) => row.id));
+    }
+
+    return completed;
+  }
+
+  /**
+   * Record that a reminder or overdue email went out
+   */
+  async markNotified(memberIds: string[], notice: AssignmentNotice, sentAt: string): Promise<void> {
+    if (memberIds.length === 0) return;
+
+    const column = notice === 'reminder' ? 'reminder_sent_at' : 'overdue_notified_at';
+    const { error } = await (this.supabase as any)
+      .from('learning_assignment_members')
+      .update({ [column]: sentAt })
+      .in('id', memberIds) as { error: { message: string } | null };
+
+    if (error) {
+      logger.error('Error recording assignment notice', new Error(error.message), { notice });
+      throw internalError('Failed to record assignment notice');
+    }
+  }
+
+  /**
+   * Let open assignees get the reminder and overdue emails again, after the
+   * due date moved
+   */
+  async resetNotices(assignmentId: string): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('learning_assignment_members')
+      .update({ reminder_sent_at: null, overdue_notified_at: null })
+      .eq('assignment_id', assignmentId)
+      .is('completed_at', null) as { error: { message: string } | null };
+
+    if (error) {
+      logger.error('Error resetting assignment notices', new Error(error.message), { assignmentId });
+      throw internalError('Failed to update assignment');
+    }
+  }
+}
+
+export const learningAssignmentRepository = new LearningAssignmentRepository();
+export { LearningAssignmentRepository };
@@ -47,6 +47,16 @@ export interface CheckInLog {
   intention?: string;
 }
 
+/**
+ * State tracker log entry
+ */
+export interface StateLogEntry {
+  id: string;
+  created_at: string;
+  element: string;
+  mode: string;
+}
+
 /**
  * Logs Repository
  * Extends BaseRepository with log-specific operations
@@ -144,26 +154,82 @@ export class LogsRepository extends BaseRepository<"logs"> {
     }
 
     // Filter and transform to check-in format
-    const checkIns = (data || [])
-      .filter((log) => {
-        const context = log.context as Record<string, unknown> | null;
-        return context?.activity_type === "daily_check_in";
-      })
-      .map((log) => {
-        const context = log.context as Record<string, unknown> | null;
-        return {
-          id: log.id,
-          created_at: log.timestamp || log.id, // Fallback to ID if timestamp missing
-          element: (context?.element as string) || "",
-          energy_level: (context?.energy_level as number) || 0,
-          current_state: (context?.current_state as string) || "",
-          reflection: context?.reflection as string | undefined,
-          gratitude: context?.gratitude as string | undefined,
-          intention: context?.intention as string | undefined,
-        };
-      });
-
-    return checkIns as CheckInLog[];
+    return (data || [])
+      .filter((log) => this.getActivityType(log) === "daily_check_in")
+      .map((log) => this.toCheckInLog(log));
+  }
+
+  /**
+   * Get a user's check-ins and state logs since a point in time
+   *
+   * @param userId - User ID
+   * @param since - ISO timestamp of the earliest entry to include
+   * @returns Check-ins and state logs, newest first
+   */
+  async getUserTrackingHistory(
+    userId: string,
+    since: string
+  ): Promise<{ checkIns: CheckInLog[]; stateLogs: StateLogEntry[] }> {
+    const { data, error } = await (this.supabase as any)
+      .from("logs")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("level", "info")
+      .gte("timestamp", since)
+      .in("context->>activity_type", ["daily_check_in", "state_tracker"])
+      .order("timestamp", { ascending: false }) as { data: Log[] | null; error: Error | null };
+
+    if (error) {
+      logger.error(
+        "Error fetching user tracking history",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw internalError("Failed to fetch tracking history");
+    }
+
+    const logs = data || [];
+
+    return {
+      checkIns: logs
+        .filter((log) => this.getActivityType(log) === "daily_check_in")
+        .map((log) => this.toCheckInLog(log)),
+      stateLogs: logs
+        .filter((log) => this.getActivityType(log) === "state_tracker")
+        .map((log) => {
+          const context = log.context as Record<string, unknown>;
+          return {
+            id: log.id,
+            created_at: log.timestamp || log.id,
+            element: (context.element as string) || "",
+            mode: (context.mode as string) || "",
+          };
+        }),
+    };
+  }
+
+  /**
+   * Activity type stored in a log's context, if any
+   */
+  private getActivityType(log: Log): unknown {
+    const context = log.context as Record<string, unknown> | null;
+    return context?.activity_type;
+  }
+
+  /**
+   * Convert a check-in log row to CheckInLog
+   */
+  private toCheckInLog(log: Log): CheckInLog {
+    const context = log.context as Record<string, unknown> | null;
+    return {
+      id: log.id,
+      created_at: log.timestamp || log.id, // Fallback to ID if timestamp missing
+      element: (context?.element as string) || "",
+      energy_level: (context?.energy_level as number) || 0,
+      current_state: (context?.current_state as string) || "",
+      reflection: context?.reflection as string | undefined,
+      gratitude: context?.gratitude as string | undefined,
+      intention: context?.intention as string | undefined,
+    };
   }
 
   /**
@@ -15,13 +15,14 @@ import { getCurrentTimestamp, getUpdateTimestamp } from '@/lib/utils';
 import { internalError, notFoundError } from '@/lib/api/error-handler';
 import type { Database } from '@/lib/types/supabase';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { applyCursor, buildCursorPage, type CursorPage, type CursorPageOptions } from './query-helpers';
 
 type OrganizationMembershipInsert = Database['public']['Tables']['organization_members']['Insert'];
 type OrganizationMembershipUpdate = Database['public']['Tables']['organization_members']['Update'];
 type OrganizationInviteInsert = Database['public']['Tables']['organization_invitations']['Insert'];
 
 /** Membership with joined profile data */
-interface MemberWithProfile extends OrganizationMembership {
+export interface MemberWithProfile extends OrganizationMembership {
   profiles: {
     id: string;
     full_name: string | null;
@@ -83,6 +84,135 @@ export class MembershipRepository extends BaseRepository<'organization_members'>
     return memberships[0] as OrganizationMembership;
   }
 
+  /**
+   * Deactivate a membership without deleting it
+   * Deactivated members keep their role and history but fail organization access checks
+   */
+  async deactivateOrganizationMember(organization_id: string, user_id: string): Promise<OrganizationMembership> {
+    return this.updateMembership(organization_id, user_id, { deactivated_at: getCurrentTimestamp() });
+  }
+
+  /**
+   * Restore access for a previously deactivated membership
+   */
+  async reactivateOrganizationMember(organization_id: string, user_id: string): Promise<OrganizationMembership> {
+    return this.updateMembership(organization_id, user_id, { deactivated_at: null });
+  }
+
+  /**
+   * Move a member into a team, or out of any team with `team_id` null
+   */
+  async updateMemberTeam(
+    organization_id: string,
+    user_id: string,
+    team_id: string | null
+  ): Promise<OrganizationMembership> {
+    return this.updateMembership(organization_id, user_id, { team_id });
+  }
+
+  /**
+   * Set the IdP identifier (SCIM externalId) for a membership
+   */
+  async updateMemberExternalId(
+    organization_id: string,
+    user_id: string,
+    scim_external_id: string | null
+  ): Promise<OrganizationMembership> {
+    return this.updateMembership(organization_id, user_id, { scim_external_id });
+  }
+
+  /**
+   * Move members into a team, or out of any team with `team_id` null
+   */
+  async setMembersTeam(organization_id: string, user_ids: string[], team_id: string | null): Promise<number> {
+    if (user_ids.length === 0) return 0;
+
+    const { data, error } = await (this.supabase as any)
+      .from('organization_members')
+      .update({ team_id })
+      .eq('organization_id', organization_id)
+      .in('user_id', user_ids)
+      .select('user_id') as { data: Array<{ user_id: string }> | null; error: { message: string } | null };
+
+    if (error) {
+      logger.error('Error assigning members to team', new Error(error.message));
+      throw internalError('Failed to assign members to team');
+    }
+
+    return data?.length ?? 0;
+  }
+
+  /**
+   * User IDs of active members, optionally only those in the given teams
+   */
+  async getActiveMemberIds(organization_id: string, team_ids?: string[]): Promise<string[]> {
+    if (team_ids && team_ids.length === 0) return [];
+
+    let query = this.supabase
+      .from('organization_members')
+      .select('user_id')
+      .eq('organization_id', organization_id)
+      .is('deactivated_at', null);
+
+    if (team_ids) {
+      query = query.in('team_id', team_ids);
+    }
+
+    const { data, error } = await query as { data: Array<{ user_id: string | null }> | null; error: { message: string } | null };
+
+    if (error) {
+      logger.error('Error fetching member IDs', new Error(error.message));
+      throw internalError('Failed to fetch organization members');
+    }
+
+    return (data || []).flatMap((member) => (member.user_id ? [member.user_id] : []));
+  }
+
+  private async updateMembership(
+    organization_id: string,
+    user_id: string,
+    updateData: OrganizationMembershipUpdate
+  ): Promise<OrganizationMembership> {
+    const memberships = await this.updateMany(
+      { organization_id, user_id } as Partial<OrganizationMembership>,
+      updateData
+    );
+
+    if (memberships.length === 0) {
+      throw notFoundError('Membership');
+    }
+
+    return memberships[0] as OrganizationMembership;
+  }
+
+  /**
+   * Get a single organization member with profile data
+   */
+  async getOrganizationMember(organization_id: string, user_id: string): Promise<MemberWithProfile | null> {
+    const { data, error } = await this.supabase
+      .from('organization_members')
+      .select(`
+        *,
+        profiles:user_id (
+          id,
+          full_name,
+          email,
+          avatar_url,
+          role
+        )
+      `)
+      .eq('organization_id', organization_id)
+      .eq('user_id', user_id)
+      .maybeSingle() as { data: MemberWithProfile | null; error: { message: string } | null };
+
+    if (error) {
+      logger.error('Error fetching member', new Error(error.message));
+      throw internalError('Failed to fetch organization member');
+    }
+
+    return data;
+  }
+
   async getOrganizationMembers(organization_id: string): Promise<MemberWithProfile[]> {
     try {
       const { data, error } = await this.supabase
@@ -113,6 +243,42 @@ export class MembershipRepository extends BaseRepository<'organization_members'>
     }
   }
 
+  /**
+   * Get one cursor page of organization members with profile data
+   * Ordered newest first; used by the public /api/v1 members endpoint
+   */
+  async getOrganizationMembersPage(
+    organization_id: string,
+    options: CursorPageOptions
+  ): Promise<CursorPage<MemberWithProfile>> {
+    const query = applyCursor(
+      this.supabase
+        .from('organization_members')
+        .select(`
+          *,
+          profiles:user_id (
+            id,
+            full_name,
+            email,
+            avatar_url,
+            role
+          )
+        `)
+        .eq('organization_id', organization_id),
+      'joined_at',
+      options
+    );
+
+    const { data, error } = await query as { data: MemberWithProfile[] | null; error: { message: string } | null };
+
+    if (error) {
+      logger.error('Error fetching members page', new Error(error.message));
+      throw internalError('Failed to fetch organization members');
+    }
+
+    return buildCursorPage(data || [], 'joined_at', options.limit);
+  }
+
   async createOrganizationInvite(data: {
     email: string;
     organization_id: string;
@@ -204,11 +370,13 @@ export class MembershipRepository extends BaseRepository<'organization_members'>
       throw notFoundError('Invite');
     }
 
-    const membership = await this.addOrganizationMember({
-      organization_id: invite.organization_id,
-      user_id,
-      role: invite.role as 'owner' | 'admin' | 'member',
-    });
+    const role = invite.role as 'owner' | 'admin' | 'member';
+    const existing = await this.getOrganizationMember(invite.organization_id, user_id);
+
+    // A deactivated member accepting an invite gets their membership back
+    const membership = existing?.deactivated_at
+      ? await this.updateMembership(invite.organization_id, user_id, { role, deactivated_at: null })
+      : await this.addOrganizationMember({ organization_id: invite.organization_id, user_id, role });
 
     // Delete invite
     await this.supabase.from('organization_invitations').delete().eq('id', invite_id);
@@ -0,0 +1,113 @@
+/**
+ * Notification Email Queue Repository
+ * Notification emails held for the user's digest or until their quiet hours
+ * end, claimed and sent by the digest cron
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+type QueuedEmailRow = Database['public']['Tables']['notification_email_queue']['Row'];
+type QueuedEmailInsert = Database['public']['Tables']['notification_email_queue']['Insert'];
+
+class NotificationEmailQueueRepository extends BaseRepository<'notification_email_queue'> {
+  constructor() {
+    super('notification_email_queue');
+  }
+
+  /**
+   * Hold an email until its delivery time
+   */
+  async enqueue(email: QueuedEmailInsert): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('notification_email_queue')
+      .insert(email) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error queueing notification email', error, { userId: email.user_id });
+      throw internalError('Failed to queue notification email');
+    }
+  }
+
+  /**
+   * Users with at least one email due
+   */
+  async getDueUserIds(now: Date, limit: number = 200): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('notification_email_queue')
+      .select('user_id')
+      .is('sent_at', null)
+      .lte('deliver_after', now.toISOString())
+      .order('deliver_after')
+      .limit(limit * 10) as { data: Array<{ user_id: string }> | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching due notification emails', error);
+      throw internalError('Failed to fetch queued notification emails');
+    }
+
+    return [...new Set((data || []).map((row) => row.user_id))].slice(0, limit);
+  }
+
+  /**
+   * Claim a user's due emails so an overlapping run cannot send them again
+   *
+   * @returns The claimed emails, oldest first
+   */
+  async claimDue(userId: string, now: Date): Promise<QueuedEmailRow[]> {
+    const { data, error } = await (this.supabase as any)
+      .from('notification_email_queue')
+      .update({ sent_at: now.toISOString() })
+      .eq('user_id', userId)
+      .is('sent_at', null)
+      .lte('deliver_after', now.toISOString())
+      .select() as { data: QueuedEmailRow[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error claiming notification emails', error, { userId });
+      throw internalError('Failed to claim queued notification emails');
+    }
+
+    return (data || []).sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''));
+  }
+
+  /**
+   * Move a user's unsent digest emails to a new delivery time, after they
+   * change their digest schedule
+   */
+  async rescheduleDigest(userId: string, deliverAfter: Date): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('notification_email_queue')
+      .update({ deliver_after: deliverAfter.toISOString() })
+      .eq('user_id', userId)
+      .eq('reason', 'digest')
+      .is('sent_at', null) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error rescheduling notification digest', error, { userId });
+      throw internalError('Failed to reschedule notification digest');
+    }
+  }
+
+  /**
+   * Return claimed emails to the queue after a failed send
+   */
+  async release(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const { error } = await (this.supabase as any)
+      .from('notification_email_queue')
+      .update({ sent_at: null })
+      .in('id', ids) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error releasing notification emails', error, { count: ids.length });
+    }
+  }
+}
+
+export const notificationEmailQueueRepository = new NotificationEmailQueueRepository();
+export { NotificationEmailQueueRepository };
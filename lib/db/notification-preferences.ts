@@ -0,0 +1,115 @@
+/**
+ * Notification Preferences Repository
+ * Per-kind channel choices, digest schedule and quiet hours for each user
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { ChannelSettings } from '@/lib/notifications/kinds';
+import {
+  getChannelOverrides,
+  resolvePreferences,
+  type DigestFrequency,
+  type NotificationPreferences,
+} from '@/lib/notifications/routing';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+
+type NotificationPreferencesRow = Database['public']['Tables']['notification_preferences']['Row'];
+
+function toPreferences(row: NotificationPreferencesRow | null): NotificationPreferences {
+  if (!row) return resolvePreferences(null);
+
+  return resolvePreferences({
+    channels: row.channels as Record<string, Partial<ChannelSettings>>,
+    digest: {
+      frequency: row.digest_frequency as DigestFrequency,
+      day_of_week: row.digest_day_of_week,
+      time_of_day: row.digest_time,
+    },
+    quiet_hours: {
+      enabled: row.quiet_hours_enabled,
+      start: row.quiet_hours_start,
+      end: row.quiet_hours_end,
+    },
+  });
+}
+
+class NotificationPreferencesRepository extends BaseRepository<'notification_preferences'> {
+  constructor() {
+    super('notification_preferences');
+  }
+
+  /**
+   * A user's preferences, with defaults for anything not chosen
+   */
+  async getByUser(userId: string): Promise<NotificationPreferences> {
+    const { data, error } = await this.supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching notification preferences', new Error(error.message), { userId });
+      throw internalError('Failed to fetch notification preferences');
+    }
+
+    return toPreferences(data);
+  }
+
+  /**
+   * Save a user's preferences. Only channels that differ from a kind's
+   * defaults are stored, so later changes to defaults still apply.
+   */
+  async upsertPreferences(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const { data, error } = await (this.supabase as any)
+      .from('notification_preferences')
+      .upsert(
+        {
+          user_id: userId,
+          channels: getChannelOverrides(preferences.channels),
+          digest_frequency: preferences.digest.frequency,
+          digest_day_of_week: preferences.digest.day_of_week,
+          digest_time: preferences.digest.time_of_day,
+          quiet_hours_enabled: preferences.quiet_hours.enabled,
+          quiet_hours_start: preferences.quiet_hours.start,
+          quiet_hours_end: preferences.quiet_hours.end,
+          ...getUpdateTimestamp(),
+        },
+        { onConflict: 'user_id' }
+      )
+      .select()
+      .single() as { data: NotificationPreferencesRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error saving notification preferences', error ?? undefined, { userId });
+      throw internalError('Failed to save notification preferences');
+    }
+
+    return toPreferences(data);
+  }
+
+  /**
+   * The user's timezone from their general preferences, if set
+   */
+  async getTimezone(userId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('user_preferences')
+      .select('timezone')
+      .eq('user_id', userId)
+      .maybeSingle() as { data: { timezone: string | null } | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching user timezone', error, { userId });
+      return null;
+    }
+
+    return data?.timezone ?? null;
+  }
+}
+
+export const notificationPreferencesRepository = new NotificationPreferencesRepository();
+export { NotificationPreferencesRepository };
@@ -0,0 +1,100 @@
+/**
+ * Notifications Repository
+ * In-app notifications shown in the notification center
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+type NotificationInsert = Database['public']['Tables']['notifications']['Insert'];
+
+class NotificationRepository extends BaseRepository<'notifications'> {
+  constructor() {
+    super('notifications');
+  }
+
+  /**
+   * Add a notification to a user's notification center
+   */
+  async createNotification(notification: NotificationInsert): Promise<NotificationRow> {
+    const { data, error } = await (this.supabase as any)
+      .from('notifications')
+      .insert({ read: false, ...notification })
+      .select()
+      .single() as { data: NotificationRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error creating notification', error ?? undefined, { userId: notification.user_id });
+      throw internalError('Failed to create notification');
+    }
+
+    return data;
+  }
+
+  /**
+   * Mark some of a user's notifications read or unread
+   *
+   * @returns IDs that were updated; others did not belong to the user
+   */
+  async setReadForUser(userId: string, ids: string[], read: boolean): Promise<string[]> {
+    const { data, error } = await (this.supabase as any)
+      .from('notifications')
+      .update({ read })
+      .eq('user_id', userId)
+      .in('id', ids)
+      .select('id') as { data: Array<{ id: string }> | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error updating notifications', error, { userId });
+      throw internalError('Failed to update notifications');
+    }
+
+    return (data || []).map((row) => row.id);
+  }
+
+  /**
+   * Delete some of a user's notifications
+   *
+   * @returns IDs that were deleted; others did not belong to the user
+   */
+  async deleteForUser(userId: string, ids: string[]): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', ids)
+      .select('id') as { data: Array<{ id: string }> | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error deleting notifications', error, { userId });
+      throw internalError('Failed to delete notifications');
+    }
+
+    return (data || []).map((row) => row.id);
+  }
+
+  /**
+   * Number of unread notifications
+   */
+  async countUnread(userId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) {
+      logger.error('Error counting unread notifications', new Error(error.message), { userId });
+      throw internalError('Failed to count notifications');
+    }
+
+    return count || 0;
+  }
+}
+
+export const notificationRepository = new NotificationRepository();
+export { NotificationRepository };
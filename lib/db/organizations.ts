@@ -227,7 +227,8 @@ export class OrganizationRepository extends BaseRepository<'organizations'> {
   }
 
   /**
-   * Check if user is a member of an organization
+   * Check if user is an active member of an organization
+   * (memberships deactivated by SCIM provisioning do not count)
    */
   async isUserOrgMember(userId: string, orgId: string): Promise<boolean> {
     try {
@@ -236,6 +237,7 @@ export class OrganizationRepository extends BaseRepository<'organizations'> {
         .select('organization_id')
         .eq('user_id', userId)
         .eq('organization_id', orgId)
+        .is('deactivated_at', null)
         .maybeSingle();
 
       return !!data;
@@ -315,7 +317,7 @@ export class OrganizationRepository extends BaseRepository<'organizations'> {
   }
 
   /**
-   * Get user's role in an organization
+   * Get user's role in an organization (null if not an active member)
    */
   async getUserOrgRole(userId: string, orgId: string): Promise<string | null> {
     try {
@@ -324,6 +326,7 @@ export class OrganizationRepository extends BaseRepository<'organizations'> {
         .select('role')
         .eq('user_id', userId)
         .eq('organization_id', orgId)
+        .is('deactivated_at', null)
         .maybeSingle() as { data: { role: string } | null; error: { message: string } | null };
 
       if (error) {
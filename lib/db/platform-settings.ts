@@ -39,6 +39,11 @@ export interface EmailSettings {
   reply_to: string;
 }
 
+export interface PaymentSettings {
+  instructor_platform_fee_percent: number;
+  instructor_minimum_payout: number;
+}
+
 export interface SecuritySettings {
   maintenance_mode: boolean;
   allow_registrations: boolean;
@@ -113,6 +118,17 @@ const DEFAULT_SETTINGS: Record<
     category: "email",
     description: "Reply-to email address",
   },
+  // Payment
+  instructor_platform_fee_percent: {
+    value: 30,
+    category: "payment",
+    description: "Platform fee taken from instructor sales, in percent",
+  },
+  instructor_minimum_payout: {
+    value: 50,
+    category: "payment",
+    description: "Minimum statement balance (USD) paid out to instructors",
+  },
   // Security
   maintenance_mode: {
     value: false,
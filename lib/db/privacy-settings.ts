@@ -0,0 +1,71 @@
+/**
+ * Privacy Settings Repository
+ * Per-organization policy for aggregates about members: minimum cohort size,
+ * small-cell handling and optional noise
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import { DEFAULT_PRIVACY_POLICY, type PrivacyPolicy, type SmallCellHandling } from '@/lib/privacy/aggregation';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+
+export type OrganizationPrivacySettings = Database['public']['Tables']['organization_privacy_settings']['Row'];
+
+class PrivacySettingsRepository extends BaseRepository<'organization_privacy_settings'> {
+  constructor() {
+    super('organization_privacy_settings');
+  }
+
+  /**
+   * The organization's privacy policy, or the default when it has none
+   */
+  async getPolicy(organizationId: string): Promise<PrivacyPolicy> {
+    const { data, error } = await this.supabase
+      .from('organization_privacy_settings')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .maybeSingle() as { data: OrganizationPrivacySettings | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching privacy settings', error, { organizationId });
+      throw internalError('Failed to fetch privacy settings');
+    }
+
+    if (!data) return { ...DEFAULT_PRIVACY_POLICY };
+
+    return {
+      minCohortSize: data.min_cohort_size,
+      smallCellHandling: data.small_cell_handling as SmallCellHandling,
+      noiseEpsilon: data.noise_epsilon === null ? null : Number(data.noise_epsilon),
+    };
+  }
+
+  /**
+   * Save the organization's privacy policy
+   */
+  async savePolicy(organizationId: string, policy: PrivacyPolicy, updatedBy: string): Promise<PrivacyPolicy> {
+    const { error } = await (this.supabase as any)
+      .from('organization_privacy_settings')
+      .upsert({
+        organization_id: organizationId,
+        min_cohort_size: policy.minCohortSize,
+        small_cell_handling: policy.smallCellHandling,
+        noise_epsilon: policy.noiseEpsilon,
+        updated_by: updatedBy,
+        ...getUpdateTimestamp(),
+      }, { onConflict: 'organization_id' }) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error saving privacy settings', error, { organizationId });
+      throw internalError('Failed to save privacy settings');
+    }
+
+    return policy;
+  }
+}
+
+export const privacySettingsRepository = new PrivacySettingsRepository();
+export { PrivacySettingsRepository };
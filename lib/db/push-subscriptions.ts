@@ -0,0 +1,168 @@
+/**
+ * Push Subscriptions Repository
+ * Browser Web Push subscriptions and their delivery health
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { PushSubscriptionKeys } from '@/lib/push/web-push';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+
+type PushSubscriptionRow = Database['public']['Tables']['push_subscriptions']['Row'];
+
+/** Subscription JSON from the browser, as sent by the client */
+export interface PushSubscriptionInput extends PushSubscriptionKeys {
+  /** Milliseconds since the epoch, when the browser sets one */
+  expirationTime?: number | null;
+}
+
+/** Consecutive failures after which a subscription is dropped */
+export const MAX_PUSH_FAILURES = 5;
+
+class PushSubscriptionRepository extends BaseRepository<'push_subscriptions'> {
+  constructor() {
+    super('push_subscriptions');
+  }
+
+  /**
+   * A user's subscriptions, one per browser
+   */
+  async getByUser(userId: string): Promise<PushSubscriptionRow[]> {
+    const { data, error } = await this.supabase
+      .from('push_subscriptions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Error fetching push subscriptions', new Error(error.message));
+      throw internalError('Failed to fetch push subscriptions');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Save a browser subscription for a user. An endpoint belongs to a single
+   * browser, so re-subscribing moves it to whoever is signed in now.
+   */
+  async upsert(
+    userId: string,
+    subscription: PushSubscriptionInput,
+    userAgent?: string | null
+  ): Promise<PushSubscriptionRow> {
+    const { data, error } = await (this.supabase as any)
+      .from('push_subscriptions')
+      .upsert(
+        {
+          user_id: userId,
+          endpoint: subscription.endpoint,
+          p256dh: subscription.keys.p256dh,
+          auth: subscription.keys.auth,
+          user_agent: userAgent ?? null,
+          expiration_time: subscription.expirationTime
+            ? new Date(subscription.expirationTime).toISOString()
+            : null,
+          failure_count: 0,
+          ...getUpdateTimestamp(),
+        },
+        { onConflict: 'endpoint' }
+      )
+      .select()
+      .single() as { data: PushSubscriptionRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error saving push subscription', error ?? undefined);
+      throw internalError('Failed to save push subscription');
+    }
+
+    return data;
+  }
+
+  /**
+   * Remove a user's subscription for a browser endpoint
+   */
+  async removeByEndpoint(userId: string, endpoint: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', userId)
+      .eq('endpoint', endpoint);
+
+    if (error) {
+      logger.error('Error removing push subscription', new Error(error.message));
+      throw internalError('Failed to remove push subscription');
+    }
+  }
+
+  /**
+   * Mark a successful delivery
+   */
+  async recordSuccess(id: string): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('push_subscriptions')
+      .update({ failure_count: 0, last_used_at: new Date().toISOString() })
+      .eq('id', id) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error updating push subscription', error, { id });
+    }
+  }
+
+  /**
+   * Count a failed delivery
+   */
+  async recordFailure(subscription: PushSubscriptionRow): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('push_subscriptions')
+      .update({ failure_count: subscription.failure_count + 1 })
+      .eq('id', subscription.id) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error updating push subscription', error, { id: subscription.id });
+    }
+  }
+
+  /**
+   * Delete subscriptions the push service reported as gone
+   */
+  async deleteByIds(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('push_subscriptions')
+      .delete()
+      .in('id', ids);
+
+    if (error) {
+      logger.error('Error deleting push subscriptions', new Error(error.message));
+      throw internalError('Failed to delete push subscriptions');
+    }
+  }
+
+  /**
+   * Delete subscriptions past their expiration time or that keep failing
+   *
+   * @returns Number of subscriptions removed
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('push_subscriptions')
+      .delete()
+      .or(`expiration_time.lt.${now.toISOString()},failure_count.gte.${MAX_PUSH_FAILURES}`)
+      .select('id');
+
+    if (error) {
+      logger.error('Error deleting expired push subscriptions', new Error(error.message));
+      throw internalError('Failed to delete expired push subscriptions');
+    }
+
+    return data?.length ?? 0;
+  }
+}
+
+export const pushSubscriptionRepository = new PushSubscriptionRepository();
+export { PushSubscriptionRepository };
@@ -0,0 +1,194 @@
+/**
+ * Cursor Pagination Helpers
+ * Keyset pagination for list endpoints that must stay stable while rows are
+ * being inserted (used by the public /api/v1 surface).
+ *
+ * A cursor is an opaque base64url token that encodes the sort value and id of
+ * the last row on the previous page. Rows are always ordered newest first with
+ * the id as a tie-breaker, so two rows sharing a timestamp are never skipped.
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { badRequestError } from '@/lib/api/error-handler';
+
+/** Default page size for cursor-paginated lists */
+export const DEFAULT_CURSOR_LIMIT = 25;
+
+/** Maximum page size for cursor-paginated lists */
+export const MAX_CURSOR_LIMIT = 100;
+
+/** Timestamp as PostgREST returns it, e.g. 2025-01-01T00:00:00.123456+00:00 */
+const CURSOR_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+const CURSOR_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Decoded cursor position */
+export interface CursorPosition {
+  /** Value of the sort column on the last row of the previous page */
+  value: string;
+  /** ID of the last row of the previous page */
+  id: string;
+}
+
+/** Options accepted by cursor-paginated repository methods */
+export interface CursorPageOptions {
+  cursor?: string | null;
+  limit?: number;
+}
+
+/** A single page of results */
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  limit: number;
+}
+
+/**
+ * Encode a cursor position into an opaque token
+ *
+ * @param position - Sort value and id of the last row on a page
+ * @returns base64url encoded cursor
+ *
+ * @example
+ * ```typescript
+ * const cursor = encodeCursor({ value: row.created_at, id: row.id })
+ * ```
+ */
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([position.value, position.id])).toString('base64url');
+}
+
+/**
+ * Decode an opaque cursor token
+ *
+ * @param cursor - Cursor previously returned by encodeCursor
+ * @returns Decoded cursor position
+ * @throws {ApiError} badRequestError if the cursor is malformed
+ *
+ * @example
+ * ```typescript
+ * const { value, id } = decodeCursor(searchParams.get('cursor')!)
+ * ```
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw badRequestError('Invalid cursor');
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 2 ||
+    typeof parsed[0] !== 'string' ||
+    typeof parsed[1] !== 'string'
+  ) {
+    throw badRequestError('Invalid cursor');
+  }
+
+  return { value: parsed[0], id: parsed[1] };
+}
+
+/**
+ * Clamp a requested page size to the allowed range
+ *
+ * @param limit - Requested page size
+ * @returns Page size between 1 and MAX_CURSOR_LIMIT
+ *
+ * @example
+ * ```typescript
+ * normalizeCursorLimit(500) // 100
+ * normalizeCursorLimit()    // 25
+ * ```
+ */
+export function normalizeCursorLimit(limit?: number): number {
+  if (!limit || Number.isNaN(limit)) {
+    return DEFAULT_CURSOR_LIMIT;
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_CURSOR_LIMIT);
+}
+
+/**
+ * Apply keyset ordering and the cursor filter to a Supabase query
+ *
+ * Fetches one extra row so that buildCursorPage can tell whether another page exists.
+ * The cursor comes from the client, so its parts must be a timestamp and a
+ * UUID before they are put into the filter string.
+ *
+ * @param query - Supabase filter builder (select already applied)
+ * @param column - Timestamp column to sort by (newest first)
+ * @param options - Cursor and limit from the request
+ * @returns The query with order, cursor filter and limit applied
+ * @throws {ApiError} badRequestError if the cursor is malformed
+ *
+ * @example
+ * ```typescript
+ * const query = applyCursor(
+ *   this.supabase.from('credit_transactions').select('*').eq('organization_id', orgId),
+ *   'created_at',
+ *   { cursor, limit }
+ * )
+ * const { data } = await query
+ * return buildCursorPage(data || [], 'created_at', limit)
+ * ```
+ */
+export function applyCursor<Q extends {
+  order: (column: string, options: { ascending: boolean }) => Q;
+  or: (filters: string) => Q;
+  limit: (count: number) => Q;
+}>(query: Q, column: string, options: CursorPageOptions): Q {
+  const limit = normalizeCursorLimit(options.limit);
+  let builder = query
+    .order(column, { ascending: false })
+    .order('id', { ascending: false });
+
+  if (options.cursor) {
+    const { value, id } = decodeCursor(options.cursor);
+    if (!CURSOR_TIMESTAMP_PATTERN.test(value) || Number.isNaN(Date.parse(value)) || !CURSOR_ID_PATTERN.test(id)) {
+      throw badRequestError('Invalid cursor');
+    }
+    // Values are quoted because timestamps contain reserved PostgREST characters
+    builder = builder.or(
+      `${column}.lt."${value}",and(${column}.eq."${value}",id.lt."${id}")`
+    );
+  }
+
+  return builder.limit(limit + 1);
+}
+
+/**
+ * Turn the rows returned by an applyCursor query into a page
+ *
+ * @param rows - Rows fetched with applyCursor (may contain one extra row)
+ * @param column - Sort column used in applyCursor
+ * @param requestedLimit - Page size requested by the caller
+ * @returns Page of items with the cursor for the next page
+ *
+ * @example
+ * ```typescript
+ * const page = buildCursorPage(rows, 'created_at', 25)
+ * // { items: [...25 rows], hasMore: true, nextCursor: 'WyIyMDI1...', limit: 25 }
+ * ```
+ */
+export function buildCursorPage<T extends { id: string }>(
+  rows: T[],
+  column: keyof T & string,
+  requestedLimit?: number
+): CursorPage<T> {
+  const limit = normalizeCursorLimit(requestedLimit);
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    hasMore,
+    limit,
+    nextCursor: hasMore && last
+      ? encodeCursor({ value: String(last[column] ?? ''), id: last.id })
+      : null,
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Quiz Question Bank Repository
+ * Reusable question banks, tagged by course or topic, that quizzes draw
+ * random questions from on each attempt
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError, notFoundError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+import { getSupabaseServer } from './supabase-server';
+import type { QuizAnswer, QuizQuestion } from './quizzes';
+
+type QuizQuestionBank = Database['public']['Tables']['quiz_question_banks']['Row'];
+type BankQuestionRow = Database['public']['Tables']['quiz_bank_questions']['Row'];
+type BankQuestionInsert = Database['public']['Tables']['quiz_bank_questions']['Insert'];
+type BankQuestionUpdate = Database['public']['Tables']['quiz_bank_questions']['Update'];
+
+/** Question stored in a bank */
+export interface QuizBankQuestion extends QuizQuestion {
+  bank_id: string;
+  tags: string[];
+}
+
+/** Question fields accepted when adding to or editing a bank */
+export type QuizBankQuestionInput = Omit<QuizBankQuestion, 'id' | 'bank_id' | 'tags'> & {
+  tags?: string[];
+};
+
+/** Bank with its questions */
+export interface QuizQuestionBankWithQuestions extends QuizQuestionBank {
+  questions: QuizBankQuestion[];
+}
+
+/** Filters for listing banks */
+export interface QuizQuestionBankFilters {
+  courseId?: string;
+  tag?: string;
+  createdBy?: string;
+}
+
+class QuizQuestionBankRepository extends BaseRepository<'quiz_question_banks'> {
+  constructor() {
+    super('quiz_question_banks');
+  }
+
+  /**
+   * List banks, optionally filtered by course, topic tag or author
+   */
+  async findBanks(filters: QuizQuestionBankFilters = {}): Promise<QuizQuestionBank[]> {
+    const supabase = getSupabaseServer();
+    let query = supabase.from('quiz_question_banks').select('*');
+
+    if (filters.courseId) query = query.eq('course_id', filters.courseId);
+    if (filters.tag) query = query.contains('tags', [filters.tag]);
+    if (filters.createdBy) query = query.eq('created_by', filters.createdBy);
+
+    const { data, error } = await query.order('title');
+
+    if (error) {
+      logger.error('Error fetching question banks', new Error(error.message));
+      throw internalError('Failed to fetch question banks');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a bank with all of its questions
+   */
+  async findWithQuestions(bankId: string): Promise<QuizQuestionBankWithQuestions | null> {
+    const bank = await this.findByIdOrNull(bankId);
+    if (!bank) return null;
+
+    const questions = await this.findQuestionsByBankIds([bankId]);
+    return { ...bank, questions };
+  }
+
+  /**
+   * Get every question in the given banks (used to draw pooled quiz attempts)
+   */
+  async findQuestionsByBankIds(bankIds: string[]): Promise<QuizBankQuestion[]> {
+    if (bankIds.length === 0) return [];
+
+    const supabase = getSupabaseServer();
+    const { data, error } = await supabase
+      .from('quiz_bank_questions')
+      .select('*')
+      .in('bank_id', bankIds)
+      .order('created_at');
+
+    if (error) {
+      logger.error('Error fetching bank questions', new Error(error.message));
+      throw internalError('Failed to fetch bank questions');
+    }
+
+    return (data || []).map((row) => this.parseQuestion(row));
+  }
+
+  /**
+   * IDs from the list that do not refer to an existing bank
+   */
+  async findMissingBankIds(bankIds: string[]): Promise<string[]> {
+    if (bankIds.length === 0) return [];
+
+    const supabase = getSupabaseServer();
+    const { data, error } = await (supabase as any)
+      .from('quiz_question_banks')
+      .select('id')
+      .in('id', bankIds) as { data: { id: string }[] | null; error: Error | null };
+
+    if (error) {
+      throw internalError('Failed to verify question banks');
+    }
+
+    const found = new Set((data || []).map((bank) => bank.id));
+    return bankIds.filter((id) => !found.has(id));
+  }
+
+  /**
+   * Add questions to a bank
+   */
+  async addQuestions(
+    bankId: string,
+    questions: QuizBankQuestionInput[]
+  ): Promise<QuizBankQuestion[]> {
+    const supabase = getSupabaseServer();
+    const rows: BankQuestionInsert[] = questions.map((question) => ({
+      bank_id: bankId,
+      question: question.question,
+      type: question.type,
+      options: question.options ?? null,
+      items: question.items ?? null,
+      correct_answer: question.correct_answer,
+      tolerance: question.tolerance ?? null,
+      partial_credit: question.partial_credit ?? null,
+      points: question.points,
+      explanation: question.explanation ?? null,
+      tags: question.tags ?? [],
+    }));
+
+    const { data, error } = await (supabase as any)
+      .from('quiz_bank_questions')
+      .insert(rows)
+      .select() as { data: BankQuestionRow[] | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error adding bank questions', new Error(error?.message ?? 'No data returned'));
+      throw internalError('Failed to add questions');
+    }
+
+    await this.touch(bankId);
+    return data.map((row) => this.parseQuestion(row));
+  }
+
+  /**
+   * Update a question in a bank. Past attempts keep the version they were served.
+   */
+  async updateQuestion(
+    bankId: string,
+    questionId: string,
+    updates: Partial<QuizBankQuestionInput>
+  ): Promise<QuizBankQuestion> {
+    const supabase = getSupabaseServer();
+    const { data, error } = await (supabase as any)
+      .from('quiz_bank_questions')
+      .update({ ...this.toQuestionUpdate(updates), ...getUpdateTimestamp() })
+      .eq('id', questionId)
+      .eq('bank_id', bankId)
+      .select()
+      .maybeSingle() as { data: BankQuestionRow | null; error: Error | null };
+
+    if (error) {
+      throw internalError('Failed to update question');
+    }
+    if (!data) {
+      throw notFoundError('Question');
+    }
+
+    await this.touch(bankId);
+    return this.parseQuestion(data);
+  }
+
+  /**
+   * Remove a question from a bank
+   */
+  async deleteQuestion(bankId: string, questionId: string): Promise<void> {
+    const supabase = getSupabaseServer();
+    const { data, error } = await (supabase as any)
+      .from('quiz_bank_questions')
+      .delete()
+      .eq('id', questionId)
+      .eq('bank_id', bankId)
+      .select('id') as { data: { id: string }[] | null; error: Error | null };
+
+    if (error) {
+      throw internalError('Failed to delete question');
+    }
+    if (!data || data.length === 0) {
+      throw notFoundError('Question');
+    }
+
+    await this.touch(bankId);
+  }
+
+  /**
+   * Bump the bank's updated_at after its questions change
+   */
+  private async touch(bankId: string): Promise<void> {
+    const supabase = getSupabaseServer();
+    await (supabase as any)
+      .from('quiz_question_banks')
+      .update(getUpdateTimestamp())
+      .eq('id', bankId);
+  }
+
+  /**
+   * Map the provided question fields to column updates
+   */
+  private toQuestionUpdate(question: Partial<QuizBankQuestionInput>): BankQuestionUpdate {
+    const row: BankQuestionUpdate = {};
+    if (question.question !== undefined) row.question = question.question;
+    if (question.type !== undefined) row.type = question.type;
+    if (question.options !== undefined) row.options = question.options;
+    if (question.items !== undefined) row.items = question.items;
+    if (question.correct_answer !== undefined) row.correct_answer = question.correct_answer;
+    if (question.tolerance !== undefined) row.tolerance = question.tolerance;
+    if (question.partial_credit !== undefined) row.partial_credit = question.partial_credit;
+    if (question.points !== undefined) row.points = question.points;
+    if (question.explanation !== undefined) row.explanation = question.explanation;
+    if (question.tags !== undefined) row.tags = question.tags;
+    return row;
+  }
+
+  /**
+   * Parse a question row into the quiz question shape
+   */
+  private parseQuestion(row: BankQuestionRow): QuizBankQuestion {
+    return {
+      id: row.id,
+      bank_id: row.bank_id,
+      question: row.question,
+      type: row.type as QuizQuestion['type'],
+      options: Array.isArray(row.options) ? (row.options as string[]) : undefined,
+      items: Array.isArray(row.items) ? (row.items as string[]) : undefined,
+      correct_answer: row.correct_answer as QuizAnswer,
+      tolerance: row.tolerance ?? undefined,
+      partial_credit: row.partial_credit ?? undefined,
+      points: row.points,
+      explanation: row.explanation ?? undefined,
+      tags: row.tags || [],
+    };
+  }
+}
+
+export const quizQuestionBankRepository = new QuizQuestionBankRepository();
+export { QuizQuestionBankRepository };
@@ -3,6 +3,20 @@
  * Handles quiz CRUD operations and quiz attempt management
  */
 
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { badRequestError, conflictError, notFoundError } from '@/lib/api/error-handler';
+import {
+  gradeQuestion,
+  type QuestionGrade,
+  type QuizAnswer,
+  type QuizQuestion,
+} from '@/lib/content/quiz-grading';
+import {
+  buildAttemptQuestions,
+  drawPoolQuestions,
+  type PooledQuestion,
+  type QuizQuestionPool,
+} from '@/lib/content/quiz-pools';
 import { BaseRepository } from './base-repository';
 import { getSupabaseServer } from './supabase-server';
 import type { Database } from '@/lib/types/supabase';
@@ -13,19 +27,23 @@ type QuizUpdate = Database['public']['Tables']['quizzes']['Update'];
 type QuizAttempt = Database['public']['Tables']['quiz_attempts']['Row'];
 type QuizAttemptInsert = Database['public']['Tables']['quiz_attempts']['Insert'];
 
-/** Question structure within a quiz */
-export interface QuizQuestion {
-  id: string;
-  question: string;
-  type: 'multiple_choice' | 'true_false' | 'short_answer';
-  options?: string[];
-  correct_answer: string | boolean;
-  points: number;
-  explanation?: string;
+export type { QuizAnswer, QuizQuestion };
+
+/** Quiz with parsed questions and pool configuration */
+export interface QuizWithQuestions extends Omit<Quiz, 'questions' | 'question_pools'> {
+  questions: QuizQuestion[];
+  question_pools: QuizQuestionPool[];
+}
+
+/** Per-attempt randomization settings of a quiz */
+export interface QuizRandomizationSettings {
+  question_pools?: QuizQuestionPool[];
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
 }
 
-/** Quiz with parsed questions */
-export interface QuizWithQuestions extends Omit<Quiz, 'questions'> {
+/** Quiz attempt with the questions that were served for it */
+export interface QuizAttemptWithQuestions extends Omit<QuizAttempt, 'questions'> {
   questions: QuizQuestion[];
 }
 
@@ -36,9 +54,11 @@ export interface QuizAttemptResult {
   passed: boolean;
   total_points: number;
   earned_points: number;
-  answers: Record<string, string | boolean>;
+  answers: Record<string, QuizAnswer>;
   correct_count: number;
   total_questions: number;
+  /** Per-question grades keyed by question ID */
+  question_grades: Record<string, QuestionGrade>;
 }
 
 class QuizRepository extends BaseRepository<'quizzes'> {
@@ -61,6 +81,22 @@ class QuizRepository extends BaseRepository<'quizzes'> {
     return this.parseQuizQuestions(data);
   }
 
+  /**
+   * Find the quizzes of several lessons, without their questions
+   */
+  async findByLessonIds(lessonIds: string[]): Promise<Array<Pick<Quiz, 'id' | 'lesson_id' | 'passing_score'>>> {
+    if (lessonIds.length === 0) return [];
+
+    const supabase = getSupabaseServer();
+    const { data, error } = await supabase
+      .from('quizzes')
+      .select('id, lesson_id, passing_score')
+      .in('lesson_id', lessonIds);
+
+    if (error) return [];
+    return data || [];
+  }
+
   /**
    * Find quiz by ID with parsed questions
    */
@@ -77,13 +113,17 @@ class QuizRepository extends BaseRepository<'quizzes'> {
     lessonId: string,
     title: string,
     questions: QuizQuestion[],
-    passingScore: number = 70
+    passingScore: number = 70,
+    settings: QuizRandomizationSettings = {}
   ): Promise<Quiz> {
     return this.create({
       lesson_id: lessonId,
       title,
       questions: questions as unknown as Database['public']['Tables']['quizzes']['Insert']['questions'],
       passing_score: passingScore,
+      question_pools: (settings.question_pools ?? []) as unknown as Database['public']['Tables']['quizzes']['Insert']['question_pools'],
+      shuffle_questions: settings.shuffle_questions ?? false,
+      shuffle_options: settings.shuffle_options ?? false,
     });
   }
 
@@ -109,22 +149,26 @@ class QuizRepository extends BaseRepository<'quizzes'> {
    */
   gradeQuiz(
     quiz: QuizWithQuestions,
-    answers: Record<string, string | boolean>
+    answers: Record<string, QuizAnswer>
   ): QuizAttemptResult {
     let earnedPoints = 0;
     let correctCount = 0;
+    const questionGrades: Record<string, QuestionGrade> = {};
     const totalPoints = quiz.questions.reduce((sum, q) => sum + q.points, 0);
 
     for (const question of quiz.questions) {
-      const userAnswer = answers[question.id];
-      const isCorrect = this.checkAnswer(question, userAnswer);
+      const grade = gradeQuestion(question, answers[question.id]);
+      questionGrades[question.id] = grade;
 
-      if (isCorrect) {
-        earnedPoints += question.points;
+      // Partial credit counts toward points but not the correct count
+      earnedPoints += grade.earned;
+      if (grade.correct) {
         correctCount++;
       }
     }
 
+    earnedPoints = Math.round(earnedPoints * 100) / 100;
+
     const score = totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : 0;
     const passed = score >= (quiz.passing_score || 70);
 
@@ -137,20 +181,109 @@ class QuizRepository extends BaseRepository<'quizzes'> {
       answers,
       correct_count: correctCount,
       total_questions: quiz.questions.length,
+      question_grades: questionGrades,
     };
   }
 
   /**
-   * Submit a quiz attempt
+   * Whether each attempt gets its own question set (drawn from pools or shuffled)
+   */
+  isRandomized(quiz: QuizWithQuestions): boolean {
+    return quiz.question_pools.length > 0 || quiz.shuffle_questions || quiz.shuffle_options;
+  }
+
+  /**
+   * Start an attempt, or resume the user's unfinished one so reloading the
+   * quiz does not draw a fresh set of questions.
+   *
+   * @param poolQuestions - Questions from the banks referenced by the quiz's pools
+   */
+  async startAttempt(
+    userId: string,
+    quiz: QuizWithQuestions,
+    poolQuestions: Array<QuizQuestion & PooledQuestion> = []
+  ): Promise<QuizAttemptWithQuestions> {
+    const openAttempt = await this.findOpenAttempt(userId, quiz.id);
+    if (openAttempt) return openAttempt;
+
+    const fixedIds = quiz.questions.map((q) => q.id);
+    const drawn = drawPoolQuestions(quiz.question_pools, poolQuestions, Math.random, fixedIds)
+      // Snapshot only the quiz question fields
+      .map(({ bank_id: _bankId, tags: _tags, ...question }) => question);
+
+    const questions = buildAttemptQuestions(quiz.questions, drawn, {
+      shuffleQuestions: quiz.shuffle_questions,
+      shuffleOptions: quiz.shuffle_options,
+    });
+
+    if (questions.length === 0) {
+      throw badRequestError('This quiz has no questions available');
+    }
+
+    const supabase = getSupabaseServer();
+    const { data: attempt, error } = await (supabase as any)
+      .from('quiz_attempts')
+      .insert({
+        user_id: userId,
+        quiz_id: quiz.id,
+        answers: {},
+        score: 0,
+        passed: false,
+        questions: questions as unknown as Database['public']['Tables']['quiz_attempts']['Insert']['questions'],
+        started_at: new Date().toISOString(),
+        completed_at: null,
+      })
+      .select()
+      .single() as { data: QuizAttempt | null; error: Error | null };
+
+    if (error || !attempt) {
+      throw new Error('Failed to start quiz attempt');
+    }
+
+    return { ...attempt, questions };
+  }
+
+  /**
+   * Get the user's unfinished attempt for a quiz
+   */
+  async findOpenAttempt(userId: string, quizId: string): Promise<QuizAttemptWithQuestions | null> {
+    const supabase = getSupabaseServer();
+    const { data, error } = await supabase
+      .from('quiz_attempts')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('quiz_id', quizId)
+      .is('completed_at', null)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return this.parseAttemptQuestions(data);
+  }
+
+  /**
+   * Submit a quiz attempt.
+   * With an attempt ID the answers are graded against that attempt's snapshot;
+   * without one (fixed quizzes only) they are graded against the current questions.
    */
   async submitAttempt(
     userId: string,
     quizId: string,
-    answers: Record<string, string | boolean>
-  ): Promise<{ attempt: QuizAttempt; result: QuizAttemptResult }> {
+    answers: Record<string, QuizAnswer>,
+    attemptId?: string
+  ): Promise<{ attempt: QuizAttempt; result: QuizAttemptResult; questions: QuizQuestion[] }> {
     const quiz = await this.findByIdWithQuestions(quizId);
     if (!quiz) {
-      throw new Error('Quiz not found');
+      throw notFoundError('Quiz');
+    }
+
+    if (attemptId) {
+      return this.completeAttempt(userId, quiz, attemptId, answers);
+    }
+
+    if (this.isRandomized(quiz)) {
+      throw badRequestError('Start an attempt before submitting this quiz');
     }
 
     const result = this.gradeQuiz(quiz, answers);
@@ -175,7 +308,59 @@ class QuizRepository extends BaseRepository<'quizzes'> {
       throw new Error('Failed to save quiz attempt');
     }
 
-    return { attempt, result };
+    return { attempt, result, questions: quiz.questions };
+  }
+
+  /**
+   * Grade an in-progress attempt against its snapshot and mark it complete
+   */
+  private async completeAttempt(
+    userId: string,
+    quiz: QuizWithQuestions,
+    attemptId: string,
+    answers: Record<string, QuizAnswer>
+  ): Promise<{ attempt: QuizAttempt; result: QuizAttemptResult; questions: QuizQuestion[] }> {
+    const supabase = getSupabaseServer();
+    const { data: existing } = await (supabase as any)
+      .from('quiz_attempts')
+      .select('*')
+      .eq('id', attemptId)
+      .eq('user_id', userId)
+      .eq('quiz_id', quiz.id)
+      .maybeSingle() as { data: QuizAttempt | null };
+
+    if (!existing) {
+      throw notFoundError('Quiz attempt');
+    }
+    if (existing.completed_at) {
+      throw conflictError('This quiz attempt has already been submitted');
+    }
+
+    const { questions } = this.parseAttemptQuestions(existing);
+    const result = this.gradeQuiz({ ...quiz, questions }, answers);
+
+    const { data: attempt, error } = await (supabase as any)
+      .from('quiz_attempts')
+      .update({
+        answers: answers as unknown as Database['public']['Tables']['quiz_attempts']['Update']['answers'],
+        score: result.score,
+        passed: result.passed,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', attemptId)
+      .is('completed_at', null)
+      .select()
+      .maybeSingle() as { data: QuizAttempt | null; error: Error | null };
+
+    if (error) {
+      throw new Error('Failed to save quiz attempt');
+    }
+    if (!attempt) {
+      // Another request completed the attempt first
+      throw conflictError('This quiz attempt has already been submitted');
+    }
+
+    return { attempt, result, questions };
   }
 
   /**
@@ -188,6 +373,7 @@ class QuizRepository extends BaseRepository<'quizzes'> {
       .select('*')
       .eq('user_id', userId)
       .eq('quiz_id', quizId)
+      .not('completed_at', 'is', null)
       .order('completed_at', { ascending: false });
 
     if (error) return [];
@@ -204,6 +390,7 @@ class QuizRepository extends BaseRepository<'quizzes'> {
       .select('*')
       .eq('user_id', userId)
       .eq('quiz_id', quizId)
+      .not('completed_at', 'is', null)
       .order('score', { ascending: false })
       .limit(1)
       .single();
@@ -212,6 +399,32 @@ class QuizRepository extends BaseRepository<'quizzes'> {
     return data;
   }
 
+  /**
+   * Get a user's best completed score on each of several quizzes
+   *
+   * @returns Best score by quiz ID; quizzes without a completed attempt are absent
+   */
+  async getBestScores(userId: string, quizIds: string[]): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    if (quizIds.length === 0) return scores;
+
+    const supabase = getSupabaseServer();
+    const { data, error } = await supabase
+      .from('quiz_attempts')
+      .select('quiz_id, score')
+      .eq('user_id', userId)
+      .in('quiz_id', quizIds)
+      .not('completed_at', 'is', null) as { data: Array<Pick<QuizAttempt, 'quiz_id' | 'score'>> | null; error: Error | null };
+
+    if (error) return scores;
+
+    for (const attempt of data || []) {
+      if (!attempt.quiz_id) continue;
+      scores.set(attempt.quiz_id, Math.max(attempt.score, scores.get(attempt.quiz_id) ?? 0));
+    }
+    return scores;
+  }
+
   /**
    * Check if user has passed the quiz
    */
@@ -241,7 +454,8 @@ class QuizRepository extends BaseRepository<'quizzes'> {
     const { data: attempts, error } = await (supabase as any)
       .from('quiz_attempts')
       .select('score, passed')
-      .eq('quiz_id', quizId) as { data: { score: number; passed: boolean }[] | null; error: Error | null };
+      .eq('quiz_id', quizId)
+      .not('completed_at', 'is', null) as { data: { score: number; passed: boolean }[] | null; error: Error | null };
 
     if (error || !attempts || attempts.length === 0) {
       return { total_attempts: 0, pass_rate: 0, average_score: 0 };
@@ -275,30 +489,29 @@ class QuizRepository extends BaseRepository<'quizzes'> {
     return {
       ...quiz,
       questions: questionsWithIds,
+      question_pools: Array.isArray(quiz.question_pools)
+        ? (quiz.question_pools as unknown as QuizQuestionPool[])
+        : [],
     };
   }
 
   /**
-   * Check if an answer is correct
+   * Parse the question snapshot stored on an attempt
    */
-  private checkAnswer(
-    question: QuizQuestion,
-    userAnswer: string | boolean | undefined
-  ): boolean {
-    if (userAnswer === undefined || userAnswer === null) return false;
-
-    switch (question.type) {
-      case 'true_false':
-        return userAnswer === question.correct_answer;
-      case 'multiple_choice':
-        return String(userAnswer).toLowerCase() === String(question.correct_answer).toLowerCase();
-      case 'short_answer':
-        // Case-insensitive comparison for short answers
-        return String(userAnswer).toLowerCase().trim() ===
-               String(question.correct_answer).toLowerCase().trim();
-      default:
-        return false;
-    }
+  private parseAttemptQuestions(attempt: QuizAttempt): QuizAttemptWithQuestions {
+    return {
+      ...attempt,
+      questions: Array.isArray(attempt.questions)
+        ? (attempt.questions as unknown as QuizQuestion[])
+        : [],
+    };
+  }
+
+  /**
+   * Check if an answer is fully correct
+   */
+  checkAnswer(question: QuizQuestion, userAnswer: QuizAnswer | undefined): boolean {
+    return gradeQuestion(question, userAnswer).correct;
   }
 }
 
@@ -0,0 +1,36 @@
+/**
+ * Rate Limit Violations Repository
+ * Requests rejected (or flagged, for soft limits) by the rate limiter
+ */
+
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+type RateLimitViolationInsert = Database['public']['Tables']['rate_limit_violations']['Insert'];
+
+class RateLimitViolationRepository extends BaseRepository<'rate_limit_violations'> {
+  constructor() {
+    super('rate_limit_violations');
+  }
+
+  /**
+   * Record a violation. Never throws: failing to log must not change the
+   * response the client gets.
+   */
+  async record(violation: RateLimitViolationInsert): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('rate_limit_violations')
+      .insert(violation) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error recording rate limit violation', error, {
+        scope: violation.scope,
+        identifier: violation.identifier,
+      });
+    }
+  }
+}
+
+export const rateLimitViolationRepository = new RateLimitViolationRepository();
+export { RateLimitViolationRepository };
@@ -0,0 +1,64 @@
+/**
+ * Reminder Deliveries Repository
+ * One row per check-in reminder sent, keyed by the user's local date
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { ReminderMethod } from '@/lib/reminders/schedule';
+import type { Database } from '@/lib/types/supabase';
+import { BaseRepository } from './base-repository';
+
+type ReminderDeliveryRow = Database['public']['Tables']['reminder_deliveries']['Row'];
+
+class ReminderDeliveryRepository extends BaseRepository<'reminder_deliveries'> {
+  constructor() {
+    super('reminder_deliveries');
+  }
+
+  /**
+   * Claim today's reminder for a user before sending it
+   *
+   * @returns The new delivery, or null if a reminder already went out for
+   * that local date (including from an overlapping cron run)
+   */
+  async claim(
+    userId: string,
+    localDate: string,
+    timezone: string,
+    method: ReminderMethod
+  ): Promise<ReminderDeliveryRow | null> {
+    const { data, error } = await (this.supabase as any)
+      .from('reminder_deliveries')
+      .upsert(
+        { user_id: userId, local_date: localDate, timezone, method },
+        { onConflict: 'user_id,local_date', ignoreDuplicates: true }
+      )
+      .select() as { data: ReminderDeliveryRow[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error claiming reminder delivery', error, { userId });
+      throw internalError('Failed to record reminder delivery');
+    }
+
+    return data?.[0] ?? null;
+  }
+
+  /**
+   * Record what was delivered
+   */
+  async complete(id: string, pushDelivered: number, emailDelivered: boolean): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('reminder_deliveries')
+      .update({ push_delivered: pushDelivered, email_delivered: emailDelivered })
+      .eq('id', id) as { error: Error | null };
+
+    if (error) {
+      logger.error('Error updating reminder delivery', error, { id });
+    }
+  }
+}
+
+export const reminderDeliveryRepository = new ReminderDeliveryRepository();
+export { ReminderDeliveryRepository };
@@ -21,6 +21,8 @@ interface ScheduledEmail {
   sent_at: string | null;
   error: string | null;
   created_at: string | null;
+  campaign_enrollment_id: string | null;
+  campaign_step_id: string | null;
 }
 
 /** Scheduled email insert type */
@@ -30,12 +32,19 @@ interface ScheduledEmailInsert {
   props?: Json;
   scheduled_for: string;
   status?: string;
+  campaign_enrollment_id?: string | null;
+  campaign_step_id?: string | null;
 }
 
 /**
  * Email status types
  */
-export type EmailStatus = "pending" | "sent" | "failed" | "cancelled";
+export type EmailStatus =
+  | "pending"
+  | "processing"
+  | "sent"
+  | "failed"
+  | "cancelled";
 
 /**
  * Scheduled Email Repository
@@ -101,6 +110,111 @@ export class ScheduledEmailRepository {
     return data as ScheduledEmail[];
   }
 
+  /**
+   * Get step emails of active campaigns that are ready to send
+   *
+   * Emails of paused campaigns stay pending without holding up the rest.
+   *
+   * @param limit - Maximum number of emails to return
+   * @param now - Current time
+   * @returns Pending step emails scheduled for now or earlier, oldest first
+   */
+  async getPendingCampaignEmails(
+    limit: number = 100,
+    now: Date = new Date()
+  ): Promise<ScheduledEmail[]> {
+    const { data, error } = await (this.supabase as any)
+      .from("scheduled_emails")
+      .select(
+        "*, enrollment:email_campaign_enrollments!inner(campaign:email_campaigns!inner(status))"
+      )
+      .eq("status", "pending")
+      .eq("enrollment.campaign.status", "active")
+      .lte("scheduled_for", now.toISOString())
+      .order("scheduled_for", { ascending: true })
+      .limit(limit) as { data: ScheduledEmail[] | null; error: { message: string } | null };
+
+    if (error) {
+      logger.error("Error fetching pending campaign emails", new Error(error.message));
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Claim a pending email for sending, so overlapping runs don't send it twice
+   *
+   * @param emailId - Email ID
+   * @returns False when another run claimed it first
+   */
+  async claim(emailId: string): Promise<boolean> {
+    const { data, error } = await (this.supabase as any)
+      .from("scheduled_emails")
+      .update({ status: "processing" })
+      .eq("id", emailId)
+      .eq("status", "pending")
+      .select("id") as { data: { id: string }[] | null; error: { message: string } | null };
+
+    if (error) {
+      logger.error("Error claiming scheduled email", new Error(error.message));
+      return false;
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Cancel the pending emails of campaign enrollments
+   *
+   * @param enrollmentIds - Campaign enrollment IDs
+   * @returns Number of cancelled emails
+   */
+  async cancelForEnrollments(enrollmentIds: string[]): Promise<number> {
+    if (enrollmentIds.length === 0) return 0;
+
+    const { data, error } = await (this.supabase as any)
+      .from("scheduled_emails")
+      .update({ status: "cancelled" })
+      .in("campaign_enrollment_id", enrollmentIds)
+      .eq("status", "pending")
+      .select("id") as { data: { id: string }[] | null; error: { message: string } | null };
+
+    if (error) {
+      logger.error("Error cancelling campaign emails", new Error(error.message));
+      throw internalError("Failed to cancel campaign emails");
+    }
+
+    return data?.length || 0;
+  }
+
+  /**
+   * Statuses of the emails sent for campaign steps, for per-step stats
+   *
+   * @param stepIds - Campaign step IDs
+   * @returns Step ID and status of each email
+   */
+  async getCampaignStepEmails(
+    stepIds: string[]
+  ): Promise<Array<{ campaign_step_id: string | null; status: string }>> {
+    if (stepIds.length === 0) return [];
+
+    const { data, error } = await (this.supabase as any)
+      .from("scheduled_emails")
+      .select("campaign_step_id, status")
+      .in("campaign_step_id", stepIds) as {
+        data: Array<{ campaign_step_id: string | null; status: string }> | null;
+        error: { message: string } | null;
+      };
+
+    if (error) {
+      logger.error("Error fetching campaign step emails", new Error(error.message));
+      return [];
+    }
+
+    return data || [];
+  }
+
   /**
    * Mark email as sent
    *
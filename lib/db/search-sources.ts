@@ -0,0 +1,173 @@
+/**
+ * Search Sources Repository
+ * Reads the published content the site search index is built from
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+export interface CourseSource {
+  id: string;
+  slug: string;
+  title: string;
+  subtitle: string | null;
+  description: string | null;
+  long_description: string | null;
+  category: string | null;
+  tags: string[] | null;
+  instructor_name: string | null;
+  thumbnail_url: string | null;
+  created_by: string | null;
+}
+
+/** Lesson text is left out: drip release and prerequisites gate it per student */
+export interface LessonSource {
+  id: string;
+  title: string;
+  is_preview: boolean | null;
+  module: { title: string; course_id: string | null } | null;
+}
+
+export interface BlogPostSource {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string | null;
+  content: string;
+  category: string | null;
+  tags: string[] | null;
+  featured_image_url: string | null;
+}
+
+export interface EventSource {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  event_type: string;
+  location_name: string | null;
+  start_datetime: string;
+  thumbnail_url: string | null;
+}
+
+export interface FaqSource {
+  id: string;
+  question: string;
+  answer: string;
+  category: string | null;
+}
+
+export interface QuizSource {
+  id: string;
+  title: string;
+}
+
+export interface SearchSources {
+  courses: CourseSource[];
+  lessons: LessonSource[];
+  blogPosts: BlogPostSource[];
+  events: EventSource[];
+  faqs: FaqSource[];
+  quizzes: QuizSource[];
+}
+
+/** Rows per request; PostgREST caps a response at its max rows (1000 by default) */
+const PAGE_SIZE = 1000;
+
+type PageQuery = (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: Error | null }>;
+
+export class SearchSourceRepository {
+  private get supabase() {
+    return createAdminClient();
+  }
+
+  /**
+   * Every row of a query, a page at a time, so the response cap can't cut
+   * the index short
+   *
+   * @param query - The query for rows `from` to `to`, in a stable order
+   */
+  private async getAllPages<T>(source: string, query: PageQuery): Promise<T[]> {
+    const rows: unknown[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await query(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        logger.error(`Error loading ${source} for search`, error);
+        throw internalError('Failed to build search index');
+      }
+
+      rows.push(...(data || []));
+      if ((data || []).length < PAGE_SIZE) break;
+    }
+
+    return rows as T[];
+  }
+
+  /**
+   * Published courses, blog posts, events and FAQs, the lessons of
+   * published courses, and every quiz
+   */
+  async getAll(): Promise<SearchSources> {
+    const [courses, lessons, blogPosts, events, faqs, quizzes] = await Promise.all([
+      this.getAllPages<CourseSource>('courses', (from, to) =>
+        this.supabase
+          .from('courses')
+          .select('id, slug, title, subtitle, description, long_description, category, tags, instructor_name, thumbnail_url, created_by')
+          .eq('is_published', true)
+          .order('id')
+          .range(from, to)
+      ),
+      this.getAllPages<LessonSource>('lessons', (from, to) =>
+        this.supabase
+          .from('course_lessons')
+          .select('id, title, is_preview, module:course_modules(title, course_id)')
+          .order('id')
+          .range(from, to)
+      ),
+      this.getAllPages<BlogPostSource>('blog posts', (from, to) =>
+        this.supabase
+          .from('blog_posts')
+          .select('id, slug, title, excerpt, content, category, tags, featured_image_url')
+          .eq('is_published', true)
+          .order('id')
+          .range(from, to)
+      ),
+      this.getAllPages<EventSource>('events', (from, to) =>
+        this.supabase
+          .from('events')
+          .select('id, slug, title, description, event_type, location_name, start_datetime, thumbnail_url')
+          .eq('is_published', true)
+          .order('id')
+          .range(from, to)
+      ),
+      this.getAllPages<FaqSource>('FAQs', (from, to) =>
+        (this.supabase as any)
+          .from('faqs')
+          .select('id, question, answer, category')
+          .eq('is_published', true)
+          .order('id')
+          .range(from, to)
+      ),
+      this.getAllPages<QuizSource>('quizzes', (from, to) =>
+        this.supabase.from('quizzes').select('id, title').order('id').range(from, to)
+      ),
+    ]);
+
+    const published = new Set(courses.map((course) => course.id));
+
+    return {
+      courses,
+      lessons: lessons.filter((lesson) => !!lesson.module?.course_id && published.has(lesson.module.course_id)),
+      blogPosts,
+      events,
+      faqs,
+      quizzes,
+    };
+  }
+}
+
+export const searchSourceRepository = new SearchSourceRepository();
@@ -0,0 +1,176 @@
+/**
+ * Sessions Repository
+ * One-on-one sessions between students and instructors: busy time for slot
+ * finding, atomic booking and rescheduling, and cancellation
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { conflictError, internalError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { TimeInterval } from '@/lib/scheduling/availability';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+
+type SessionRow = Database['public']['Tables']['sessions']['Row'];
+
+/** Statuses that hold the instructor's time */
+export const ACTIVE_SESSION_STATUSES = ['pending', 'confirmed'];
+
+/** Profile fields of a session participant */
+export interface SessionParticipant {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+/** Session with both participants */
+export interface SessionWithParticipants extends SessionRow {
+  student: SessionParticipant | null;
+  instructor: SessionParticipant | null;
+}
+
+/** Parameters for booking or moving a session */
+export interface SessionBookingParams {
+  instructorId: string;
+  studentId: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  bufferMinutes: number;
+  timezone: string;
+  notes?: string | null;
+  /** Set to move an existing session instead of creating one */
+  sessionId?: string;
+}
+
+/** Postgres exclusion_violation, raised when the time is already taken */
+const SLOT_TAKEN_CODE = '23P01';
+
+class SessionRepository extends BaseRepository<'sessions'> {
+  constructor() {
+    super('sessions');
+  }
+
+  /**
+   * Active sessions of an instructor overlapping the range
+   */
+  async getBusyIntervals(
+    instructorId: string,
+    from: Date,
+    to: Date,
+    excludeSessionId?: string
+  ): Promise<TimeInterval[]> {
+    // Sessions are at most a day long, so start a day early to catch overlaps
+    const searchStart = new Date(from.getTime() - 24 * 60 * 60 * 1000);
+
+    let query = this.supabase
+      .from('sessions')
+      .select('id, scheduled_at, ends_at, duration_minutes')
+      .eq('instructor_id', instructorId)
+      .in('status', ACTIVE_SESSION_STATUSES)
+      .gte('scheduled_at', searchStart.toISOString())
+      .lt('scheduled_at', to.toISOString());
+
+    if (excludeSessionId) {
+      query = query.neq('id', excludeSessionId);
+    }
+
+    const { data, error } = await query as {
+      data: Pick<SessionRow, 'id' | 'scheduled_at' | 'ends_at' | 'duration_minutes'>[] | null;
+      error: Error | null;
+    };
+
+    if (error) {
+      logger.error('Error fetching instructor sessions', new Error(error.message));
+      throw internalError('Failed to fetch instructor sessions');
+    }
+
+    return (data || [])
+      .map((session) => {
+        const start = new Date(session.scheduled_at);
+        const end = session.ends_at
+          ? new Date(session.ends_at)
+          : new Date(start.getTime() + session.duration_minutes * 60 * 1000);
+        return { start, end };
+      })
+      .filter((interval) => interval.end > from);
+  }
+
+  /**
+   * Book or move a session in one transaction, rejecting overlaps with the
+   * instructor's other sessions (including buffer time)
+   */
+  async book(params: SessionBookingParams): Promise<SessionRow> {
+    const { data, error } = await (this.supabase as any).rpc('book_instructor_session', {
+      p_instructor_id: params.instructorId,
+      p_student_id: params.studentId,
+      p_scheduled_at: params.scheduledAt.toISOString(),
+      p_duration_minutes: params.durationMinutes,
+      p_buffer_minutes: params.bufferMinutes,
+      p_timezone: params.timezone,
+      p_notes: params.notes ?? null,
+      p_session_id: params.sessionId ?? null,
+    }) as { data: SessionRow | null; error: { code?: string; message: string } | null };
+
+    if (error?.code === SLOT_TAKEN_CODE) {
+      throw conflictError('This time is no longer available. Please pick another slot.');
+    }
+
+    if (error || !data) {
+      logger.error('Error booking session', new Error(error?.message));
+      throw internalError('Failed to book session');
+    }
+
+    return data;
+  }
+
+  /**
+   * Get a session with student and instructor names and emails
+   */
+  async findWithParticipants(sessionId: string): Promise<SessionWithParticipants | null> {
+    const { data, error } = await (this.supabase as any)
+      .from('sessions')
+      .select(`
+        *,
+        student:profiles!sessions_student_id_fkey(id, full_name, email),
+        instructor:profiles!sessions_instructor_id_fkey(id, full_name, email)
+      `)
+      .eq('id', sessionId)
+      .maybeSingle() as { data: SessionWithParticipants | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching session', error);
+      throw internalError('Failed to fetch session');
+    }
+
+    return data;
+  }
+
+  /**
+   * Cancel a session, recording who cancelled it and why
+   */
+  async cancel(sessionId: string, cancelledBy: string, reason?: string): Promise<SessionRow> {
+    const { data, error } = await (this.supabase as any)
+      .from('sessions')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: cancelledBy,
+        cancellation_reason: reason ?? null,
+        ...getUpdateTimestamp(),
+      })
+      .eq('id', sessionId)
+      .select()
+      .single() as { data: SessionRow | null; error: Error | null };
+
+    if (error || !data) {
+      logger.error('Error cancelling session', error ?? undefined);
+      throw internalError('Failed to cancel session');
+    }
+
+    return data;
+  }
+}
+
+export const sessionRepository = new SessionRepository();
+export { SessionRepository };
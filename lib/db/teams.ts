@@ -0,0 +1,145 @@
+/**
+ * Team Repository
+ * Departments and teams inside organizations, and member counts per team
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { conflictError, internalError, type ApiError } from '@/lib/api/error-handler';
+import { logger } from '@/lib/logging';
+import type { TeamKind } from '@/lib/organizations/teams';
+import type { Database } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import { BaseRepository } from './base-repository';
+
+export type OrganizationTeam = Database['public']['Tables']['organization_teams']['Row'];
+
+/** Team fields admins edit */
+export interface OrganizationTeamInput {
+  name: string;
+  kind?: TeamKind;
+  parent_id?: string | null;
+  description?: string | null;
+  manager_id?: string | null;
+  external_id?: string | null;
+}
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+class TeamRepository extends BaseRepository<'organization_teams'> {
+  constructor() {
+    super('organization_teams');
+  }
+
+  /**
+   * Every team of an organization, by name
+   */
+  async getOrganizationTeams(organizationId: string): Promise<OrganizationTeam[]> {
+    const { data, error } = await this.supabase
+      .from('organization_teams')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name') as { data: OrganizationTeam[] | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error fetching organization teams', error, { organizationId });
+      throw internalError('Failed to fetch teams');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * A team, only if it belongs to the organization
+   */
+  async getOrganizationTeam(organizationId: string, teamId: string): Promise<OrganizationTeam | null> {
+    return this.findOne({ id: teamId, organization_id: organizationId });
+  }
+
+  async createTeam(
+    organizationId: string,
+    input: OrganizationTeamInput,
+    createdBy: string | null
+  ): Promise<OrganizationTeam> {
+    const { data, error } = await (this.supabase as any)
+      .from('organization_teams')
+      .insert({
+        organization_id: organizationId,
+        name: input.name.trim(),
+        kind: input.kind ?? 'team',
+        parent_id: input.parent_id ?? null,
+        description: input.description ?? null,
+        manager_id: input.manager_id ?? null,
+        external_id: input.external_id ?? null,
+        created_by: createdBy,
+      })
+      .select()
+      .single() as { data: OrganizationTeam | null; error: { code?: string; message: string } | null };
+
+    if (error || !data) {
+      throw this.writeError(error, 'create');
+    }
+
+    return data;
+  }
+
+  async updateTeam(teamId: string, updates: Partial<OrganizationTeamInput>): Promise<OrganizationTeam> {
+    const { data, error } = await (this.supabase as any)
+      .from('organization_teams')
+      .update({
+        ...updates,
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...getUpdateTimestamp(),
+      })
+      .eq('id', teamId)
+      .select()
+      .single() as { data: OrganizationTeam | null; error: { code?: string; message: string } | null };
+
+    if (error || !data) {
+      throw this.writeError(error, 'update');
+    }
+
+    return data;
+  }
+
+  /**
+   * Find a team by its IdP/HRIS identifier
+   */
+  async findByExternalId(organizationId: string, externalId: string): Promise<OrganizationTeam | null> {
+    return this.findOne({ organization_id: organizationId, external_id: externalId });
+  }
+
+  /**
+   * Active members per team ID
+   */
+  async getMemberCounts(organizationId: string): Promise<Record<string, number>> {
+    const { data, error } = await this.supabase
+      .from('organization_members')
+      .select('team_id')
+      .eq('organization_id', organizationId)
+      .is('deactivated_at', null)
+      .not('team_id', 'is', null) as { data: Array<{ team_id: string }> | null; error: Error | null };
+
+    if (error) {
+      logger.error('Error counting team members', error, { organizationId });
+      throw internalError('Failed to count team members');
+    }
+
+    const counts: Record<string, number> = {};
+    for (const { team_id } of data || []) {
+      counts[team_id] = (counts[team_id] || 0) + 1;
+    }
+    return counts;
+  }
+
+  private writeError(error: { code?: string; message: string } | null, action: 'create' | 'update'): ApiError {
+    if (error?.code === UNIQUE_VIOLATION) {
+      return conflictError('A team with this name or external ID already exists here');
+    }
+    logger.error(`Error trying to ${action} team`, error ? new Error(error.message) : undefined);
+    return internalError(`Failed to ${action} team`);
+  }
+}
+
+export const teamRepository = new TeamRepository();
+export { TeamRepository };
@@ -0,0 +1,63 @@
+/**
+ * Diagnostic Finalization
+ * Scores a diagnostic's responses and stores the aggregate report when the
+ * diagnostic is completed by an admin or reaches its deadline.
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { notFoundError } from '@/lib/api/error-handler';
+import { diagnosticsRepository, type OrganizationDiagnostic } from '@/lib/db/diagnostics';
+import { logger } from '@/lib/logging';
+import { buildDiagnosticReport } from './scoring';
+
+/**
+ * Score all responses of a diagnostic and mark it completed
+ *
+ * Per-response scores are written to the response rows; the aggregate
+ * results and insights to the diagnostic.
+ *
+ * @throws {ApiError} 404 if the diagnostic does not exist
+ */
+export async function finalizeDiagnostic(diagnosticId: string): Promise<OrganizationDiagnostic> {
+  const diagnostic = await diagnosticsRepository.getDiagnosticById(diagnosticId);
+  if (!diagnostic) {
+    throw notFoundError('Diagnostic');
+  }
+
+  const responses = await diagnosticsRepository.getDiagnosticResponses(diagnosticId);
+  const { results, insights, responseScores } = buildDiagnosticReport(diagnostic, responses);
+
+  await Promise.all(
+    Array.from(responseScores.entries()).map(([responseId, scores]) =>
+      diagnosticsRepository.updateResponseScores(responseId, scores)
+    )
+  );
+
+  return diagnosticsRepository.completeDiagnostic(diagnosticId, results, insights);
+}
+
+/**
+ * Finalize every running diagnostic whose deadline has passed
+ * A failure on one diagnostic is logged and does not stop the others.
+ */
+export async function finalizeDiagnosticsPastDeadline(
+  now: Date = new Date()
+): Promise<{ finalized: string[]; failed: string[] }> {
+  const due = await diagnosticsRepository.getDiagnosticsPastDeadline(now);
+  const finalized: string[] = [];
+  const failed: string[] = [];
+
+  for (const diagnostic of due) {
+    try {
+      await finalizeDiagnostic(diagnostic.id);
+      finalized.push(diagnostic.id);
+    } catch (error: unknown) {
+      logger.error('Error finalizing diagnostic', error instanceof Error ? error : undefined, {
+        diagnosticId: diagnostic.id,
+      });
+      failed.push(diagnostic.id);
+    }
+  }
+
+  return { finalized, failed };
+}
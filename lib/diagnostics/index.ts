@@ -0,0 +1,41 @@
+/**
+ * Diagnostics Barrel Export
+ * Scoring engine and finalization for organization diagnostics
+ */
+
+// Scoring engine
+export {
+  buildDiagnosticReport,
+  scoreDiagnosticResponse,
+  generateDiagnosticInsights,
+  registerDiagnosticScorer,
+  getDiagnosticScorer,
+  DIAGNOSTIC_ELEMENTS,
+  DIAGNOSTIC_DISTRIBUTION_BUCKETS,
+  DIAGNOSTIC_DEFAULT_SCALE,
+  type DiagnosticDimension,
+  type DiagnosticDimensionSummary,
+  type DiagnosticInsightSource,
+  type DiagnosticOptionRule,
+  type DiagnosticQuestionRule,
+  type DiagnosticQuestionScore,
+  type DiagnosticQuestionSummary,
+  type DiagnosticReport,
+  type DiagnosticReportTemplate,
+  type DiagnosticResponseScores,
+  type DiagnosticResults,
+  type DiagnosticScorer,
+  type DiagnosticScoringConfig,
+} from './scoring';
+
+// Finalization
+export { finalizeDiagnostic, finalizeDiagnosticsPastDeadline } from './finalize';
+
+// Privacy
+export {
+  protectDiagnosticResults,
+  type ProtectedDiagnosticResults,
+  type ReleasedDiagnosticResults,
+  type ReleasedDimensionSummary,
+} from './privacy';
+export { releaseDiagnosticResults } from './release';
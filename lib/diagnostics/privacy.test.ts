@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PRIVACY_POLICY, type PrivacyPolicy } from '@/lib/privacy/aggregation';
+import { protectDiagnosticResults } from './privacy';
+import type { DiagnosticResults } from './scoring';
+
+const policy: PrivacyPolicy = { ...DEFAULT_PRIVACY_POLICY, minCohortSize: 3 };
+
+function elements(values: Partial<DiagnosticResults['element_mix']> = {}): DiagnosticResults['element_mix'] {
+  return { electric: 0, fiery: 0, aquatic: 0, earthly: 0, airy: 0, metallic: 0, ...values };
+}
+
+const results: DiagnosticResults = {
+  status: 'ready',
+  generated_at: '2026-10-01T00:00:00.000Z',
+  participants: 6,
+  min_participants: 2,
+  anonymous: false,
+  dimensions: [
+    { id: 'trust', label: 'Trust', respondents: 6, mean: 72, median: 75, std_dev: 10, min: 50, max: 90, distribution: [0, 0, 1, 3, 2] },
+    { id: 'pace', label: 'Pace', respondents: 2, mean: 30, median: 30, std_dev: 5, distribution: [0, 2, 0, 0, 0] },
+  ],
+  element_mix: elements({ electric: 50, fiery: 50 }),
+  primary_elements: elements({ electric: 3, fiery: 2, aquatic: 1 }),
+  questions: [
+    {
+      id: 1,
+      text: 'Preferred meeting style',
+      type: 'multiple_choice',
+      responses: 6,
+      options: [
+        { option: 'Standing', count: 3, percentage: 50 },
+        { option: 'Seated', count: 2, percentage: 33.3 },
+        { option: 'Walking', count: 1, percentage: 16.7 },
+      ],
+    },
+  ],
+  individual: [{ user_id: 'u1', dimensions: { trust: 90 }, elements: { electric: 100 }, primary_element: 'electric' }],
+};
+
+describe('protectDiagnosticResults', () => {
+  it('withholds results below the larger of min_participants and the minimum cohort', () => {
+    const { results: released, privacy } = protectDiagnosticResults(results, { ...policy, minCohortSize: 7 });
+
+    expect(released.status).toBe('insufficient_participants');
+    expect(released.min_participants).toBe(7);
+    expect(released.dimensions).toEqual([]);
+    expect(privacy).toMatchObject({ cohortSize: 6, minCohortSize: 7, withheld: true });
+  });
+
+  it('leaves out individuals, extremes and small dimensions, buckets and cells', () => {
+    const { results: released, privacy } = protectDiagnosticResults(results, policy);
+
+    expect(released).not.toHaveProperty('individual');
+    expect(released.dimensions).toHaveLength(1);
+    expect(released.dimensions[0]).toEqual({
+      id: 'trust',
+      label: 'Trust',
+      respondents: 6,
+      mean: 72,
+      median: 75,
+      std_dev: 10,
+      distribution: [0, 0, null, 3, null],
+    });
+    expect(released.primary_elements).toEqual({ electric: 3, earthly: 0, airy: 0, metallic: 0 });
+    expect(released.questions[0].options).toEqual([{ option: 'Standing', count: 3, percentage: 50 }]);
+    expect(privacy.suppressedCells).toEqual(expect.arrayContaining([
+      'dimension:pace',
+      'dimension:trust:bucket:2',
+      'primary_element:fiery',
+      'question:1:Walking',
+    ]));
+  });
+
+  it('drops the median when adding noise and keeps means in range', () => {
+    const { results: released, privacy } = protectDiagnosticResults(results, { ...policy, noiseEpsilon: 1 }, {}, () => 0.999);
+
+    expect(released.dimensions[0].median).toBeUndefined();
+    expect(released.dimensions[0].mean).toBeLessThanOrEqual(100);
+    expect(privacy.noiseAdded).toBe(true);
+  });
+
+  it('regenerates insights from the released results', () => {
+    const { insights } = protectDiagnosticResults(results, policy);
+
+    expect(insights.some((insight) => insight.includes('Trust'))).toBe(true);
+    expect(insights.some((insight) => insight.includes('Pace'))).toBe(false);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Diagnostic Results Privacy
+ * Applies an organization's privacy policy to stored diagnostic results
+ * before they are released: the minimum cohort size raises the template's
+ * `min_participants`, dimensions, buckets, options and elements describing
+ * too few participants are suppressed or merged, and noise is added to
+ * means and counts if configured.
+ *
+ * Everything here is pure - loading the policy and recording views lives in
+ * ./release.ts.
+ */
+
+import type { ElementType } from '@/lib/content/assessment-questions';
+import {
+  addNoise,
+  describeAggregatePrivacy,
+  meetsMinCohort,
+  protectDistribution,
+  type AggregatePrivacy,
+  type PrivacyPolicy,
+  type RandomSource,
+} from '@/lib/privacy/aggregation';
+import {
+  DIAGNOSTIC_DEFAULT_SCALE,
+  DIAGNOSTIC_ELEMENTS,
+  generateDiagnosticInsights,
+  type DiagnosticDimensionSummary,
+  type DiagnosticQuestionSummary,
+  type DiagnosticReportTemplate,
+  type DiagnosticResults,
+  type DiagnosticScoringConfig,
+} from './scoring';
+
+/** A dimension as released; buckets of too few respondents are null */
+export interface ReleasedDimensionSummary
+  extends Omit<DiagnosticDimensionSummary, 'median' | 'min' | 'max' | 'distribution'> {
+  /** Left out when noise is added, as one person can move it too far */
+  median?: number;
+  distribution: Array<number | null>;
+}
+
+/**
+ * Diagnostic results as released: no per-participant scores, and primary
+ * elements of too few participants left out or merged into `other`
+ */
+export type ReleasedDiagnosticResults = Omit<DiagnosticResults, 'dimensions' | 'primary_elements' | 'individual'> & {
+  dimensions: ReleasedDimensionSummary[];
+  primary_elements: Record<string, number>;
+};
+
+export interface ProtectedDiagnosticResults {
+  results: ReleasedDiagnosticResults;
+  /** Regenerated from the protected results */
+  insights: string[];
+  privacy: AggregatePrivacy;
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function protectDimension(
+  dimension: DiagnosticDimensionSummary,
+  policy: PrivacyPolicy,
+  random: RandomSource,
+  suppressed: string[]
+): ReleasedDimensionSummary {
+  const n = dimension.respondents;
+  if (n === 0) {
+    const { min: _min, max: _max, ...unscored } = dimension;
+    return unscored;
+  }
+
+  // Score buckets are ordered, so they are never merged into "other"
+  const buckets = protectDistribution(
+    Object.fromEntries(dimension.distribution.map((count, bucket) => [String(bucket), count])),
+    { ...policy, smallCellHandling: 'suppress' },
+    random
+  );
+  suppressed.push(...buckets.suppressedCells.map((bucket) => `dimension:${dimension.id}:bucket:${bucket}`));
+
+  return {
+    id: dimension.id,
+    label: dimension.label,
+    respondents: n,
+    // One person moves a 0-100 mean by at most 100 / n
+    mean: round(clamp(addNoise(dimension.mean, 100 / n, policy, random), 0, 100)),
+    ...(!policy.noiseEpsilon && { median: dimension.median }),
+    std_dev: round(clamp(addNoise(dimension.std_dev, 100 / Math.sqrt(n), policy, random), 0, 100)),
+    distribution: dimension.distribution.map((_, bucket) => buckets.counts[String(bucket)] ?? null),
+  };
+}
+
+function protectQuestion(
+  question: DiagnosticQuestionSummary,
+  scale: { min: number; max: number },
+  policy: PrivacyPolicy,
+  random: RandomSource,
+  suppressed: string[]
+): DiagnosticQuestionSummary {
+  const n = question.responses;
+  const summary: DiagnosticQuestionSummary = { id: question.id, text: question.text, type: question.type, responses: n };
+
+  if (n > 0 && !meetsMinCohort(n, policy)) {
+    suppressed.push(`question:${question.id}`);
+    return summary;
+  }
+
+  if (question.average !== undefined) {
+    summary.average = round(
+      clamp(addNoise(question.average, (scale.max - scale.min) / n, policy, random), scale.min, scale.max),
+      2
+    );
+  }
+
+  if (question.average_rank) {
+    const positions = Object.keys(question.average_rank).length;
+    summary.average_rank = Object.fromEntries(
+      Object.entries(question.average_rank).map(([option, rank]) => [
+        option,
+        round(clamp(addNoise(rank, (positions - 1) / n, policy, random), 1, positions), 2),
+      ])
+    );
+  }
+
+  if (question.options) {
+    const options = protectDistribution(
+      Object.fromEntries(question.options.map(({ option, count }) => [option, count])),
+      policy,
+      random
+    );
+    suppressed.push(...options.suppressedCells.map((option) => `question:${question.id}:${option}`));
+    summary.options = Object.entries(options.counts).map(([option, count]) => ({
+      option,
+      count,
+      percentage: round((count / n) * 100),
+    }));
+  }
+
+  return summary;
+}
+
+/**
+ * Protect stored diagnostic results for release. Per-participant scores and
+ * dimension extremes are always left out.
+ *
+ * Below the larger of the template's `min_participants` and the policy's
+ * minimum cohort size, only participation counts are released.
+ *
+ * @example
+ * const { results, insights, privacy } = protectDiagnosticResults(
+ *   diagnostic.results as DiagnosticResults,
+ *   policy,
+ *   diagnostic.template
+ * );
+ */
+export function protectDiagnosticResults(
+  results: DiagnosticResults,
+  policy: PrivacyPolicy,
+  template: { scoring_config?: unknown; report_template?: unknown } = {},
+  random: RandomSource = Math.random
+): ProtectedDiagnosticResults {
+  const reportTemplate = (template.report_template ?? {}) as DiagnosticReportTemplate;
+  const scale = ((template.scoring_config ?? {}) as DiagnosticScoringConfig).scale ?? DIAGNOSTIC_DEFAULT_SCALE;
+  const minParticipants = Math.max(results.min_participants, policy.minCohortSize);
+  const participants = results.participants;
+
+  const base = {
+    generated_at: results.generated_at,
+    participants,
+    min_participants: minParticipants,
+    anonymous: results.anonymous,
+    element_mix: Object.fromEntries(DIAGNOSTIC_ELEMENTS.map((element) => [element, 0])) as Record<ElementType, number>,
+  };
+
+  if (results.status === 'insufficient_participants' || participants < minParticipants) {
+    const withheld: ReleasedDiagnosticResults = {
+      ...base,
+      status: 'insufficient_participants',
+      dimensions: [],
+      primary_elements: {},
+      questions: [],
+    };
+    return {
+      results: withheld,
+      insights: generateDiagnosticInsights(withheld, reportTemplate),
+      privacy: describeAggregatePrivacy(participants, { ...policy, minCohortSize: minParticipants }),
+    };
+  }
+
+  const suppressed: string[] = [];
+
+  const dimensions = results.dimensions.filter((dimension) => {
+    if (dimension.respondents === 0 || meetsMinCohort(dimension.respondents, policy)) return true;
+    suppressed.push(`dimension:${dimension.id}`);
+    return false;
+  });
+
+  // Element shares are averaged over every participant
+  for (const element of DIAGNOSTIC_ELEMENTS) {
+    base.element_mix[element] = round(
+      clamp(addNoise(results.element_mix[element] ?? 0, 100 / participants, policy, random), 0, 100)
+    );
+  }
+
+  const primaryElements = protectDistribution(
+    results.primary_elements,
+    policy,
+    random
+  );
+  suppressed.push(...primaryElements.suppressedCells.map((element) => `primary_element:${element}`));
+
+  const released: ReleasedDiagnosticResults = {
+    ...base,
+    status: 'ready',
+    dimensions: dimensions.map((dimension) => protectDimension(dimension, policy, random, suppressed)),
+    primary_elements: primaryElements.counts,
+    questions: results.questions.map((question) => protectQuestion(question, scale, policy, random, suppressed)),
+  };
+
+  return {
+    results: released,
+    insights: generateDiagnosticInsights(released, reportTemplate),
+    privacy: describeAggregatePrivacy(participants, { ...policy, minCohortSize: minParticipants }, suppressed),
+  };
+}
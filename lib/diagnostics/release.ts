@@ -0,0 +1,54 @@
+/**
+ * Diagnostic Results Release
+ * Protects a diagnostic's stored results with its organization's privacy
+ * policy and records who they were released to. Noise is seeded by the
+ * diagnostic and when its results were generated, so every view of the same
+ * results gets the same noise.
+ */
+
+import { privacySettingsRepository } from '@/lib/db/privacy-settings';
+import type { DiagnosticWithTemplate } from '@/lib/db/diagnostics';
+import { recordAggregateView } from '@/lib/privacy/audit';
+import { getReleaseRandom } from '@/lib/privacy/noise';
+import { protectDiagnosticResults, type ProtectedDiagnosticResults } from './privacy';
+import type { DiagnosticResults } from './scoring';
+
+/**
+ * The results and insights of a completed diagnostic as a viewer may see
+ * them, or null if it has not been scored yet
+ *
+ * @param viewerId - User viewing the results; null for API key access
+ * @throws {ApiError} 500 if the view can't be recorded
+ *
+ * @example
+ * const released = await releaseDiagnosticResults(diagnostic, user.id);
+ */
+export async function releaseDiagnosticResults(
+  diagnostic: DiagnosticWithTemplate,
+  viewerId: string | null
+): Promise<ProtectedDiagnosticResults | null> {
+  const results = diagnostic.results as Partial<DiagnosticResults> | null;
+  if (diagnostic.status !== 'completed' || !results?.status) {
+    return null;
+  }
+
+  const policy = await privacySettingsRepository.getPolicy(diagnostic.organization_id);
+  const released = protectDiagnosticResults(
+    results as DiagnosticResults,
+    policy,
+    diagnostic.template ?? {},
+    getReleaseRandom({ aggregate: 'diagnostic_results', cohort: diagnostic.id, period: results.generated_at ?? '' })
+  );
+
+  await recordAggregateView({
+    organizationId: diagnostic.organization_id,
+    viewerId,
+    aggregate: 'diagnostic_results',
+    resourceId: diagnostic.id,
+    teamId: diagnostic.target_team_id,
+    privacy: released.privacy,
+    policy,
+  });
+
+  return released;
+}
@@ -0,0 +1,665 @@
+/**
+ * Diagnostic Scoring Engine
+ * Turns diagnostic responses into per-dimension scores, team distributions,
+ * element mix and insights, driven by the template's `scoring_config` and
+ * `report_template`.
+ *
+ * Scoring is pluggable per question type: `scale`, `multiple_choice` and
+ * `ranking` ship built in, other types (e.g. `text`) are collected but not
+ * scored unless a scorer is registered with registerDiagnosticScorer().
+ *
+ * Everything here is pure - persistence lives in ./finalize.ts.
+ */
+
+import type { ElementType } from '@/lib/content/assessment-questions';
+import type {
+  DiagnosticQuestion,
+  DiagnosticResponse,
+  DiagnosticTemplate,
+  OrganizationDiagnostic,
+} from '@/lib/db/diagnostics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DIAGNOSTIC_ELEMENTS: ElementType[] = [
+  'electric',
+  'fiery',
+  'aquatic',
+  'earthly',
+  'airy',
+  'metallic',
+];
+
+/** Number of equal-width buckets in dimension distributions (0-20, 20-40, ...) */
+export const DIAGNOSTIC_DISTRIBUTION_BUCKETS = 5;
+
+export interface DiagnosticDimension {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+/** How one answer option scores */
+export interface DiagnosticOptionRule {
+  /** Score (0-100) the option gives the question's dimension */
+  value?: number;
+  /** Scores (0-100) for additional dimensions */
+  dimensions?: Record<string, number>;
+  /** Element the option expresses */
+  element?: ElementType;
+}
+
+/** Scoring rule for one question, keyed by question ID in scoring_config.questions */
+export interface DiagnosticQuestionRule {
+  /** Dimension the question contributes to */
+  dimension?: string;
+  /** Relative weight against other questions of the same dimension (default 1) */
+  weight?: number;
+  /** Reverse numeric scale answers (max becomes min) */
+  reverse?: boolean;
+  /** Option rules keyed by option text */
+  options?: Record<string, DiagnosticOptionRule>;
+}
+
+/** Shape of DiagnosticTemplate.scoring_config */
+export interface DiagnosticScoringConfig {
+  dimensions?: DiagnosticDimension[];
+  questions?: Record<string, DiagnosticQuestionRule>;
+  /** Range of numeric scale answers (default 1-5) */
+  scale?: { min: number; max: number };
+}
+
+/** Shape of DiagnosticTemplate.report_template */
+export interface DiagnosticReportTemplate {
+  insights?: {
+    /** Dimension average at or above which it is reported as a strength (default 70) */
+    strong_threshold?: number;
+    /** Dimension average at or below which it is reported as a gap (default 40) */
+    weak_threshold?: number;
+    /** Standard deviation at or above which opinions are reported as divided (default 25) */
+    divergence_threshold?: number;
+    /** Element share (%) at or above which it is reported as dominant (default 40) */
+    dominant_element_share?: number;
+  };
+  /** Custom insight text per dimension */
+  dimension_insights?: Record<string, { high?: string; low?: string }>;
+}
+
+/** What a scorer returns for one answered question */
+export interface DiagnosticQuestionScore {
+  /** 0-100 scores keyed by dimension */
+  dimensions: Record<string, number>;
+  /** Relative element weights */
+  elements: Partial<Record<ElementType, number>>;
+}
+
+/**
+ * Scores a single answer. Returns null when the answer cannot be scored
+ * (missing, malformed or not mapped by the rule).
+ */
+export type DiagnosticScorer = (
+  question: DiagnosticQuestion,
+  answer: unknown,
+  rule: DiagnosticQuestionRule,
+  config: DiagnosticScoringConfig
+) => DiagnosticQuestionScore | null;
+
+/** Scores stored on a DiagnosticResponse (a type so it fits the JSON column) */
+export type DiagnosticResponseScores = {
+  dimensions: Record<string, number>;
+  /** Element shares in percent */
+  elements: Partial<Record<ElementType, number>>;
+  primary_element: ElementType | null;
+};
+
+export interface DiagnosticDimensionSummary {
+  id: string;
+  label: string;
+  respondents: number;
+  mean: number;
+  median: number;
+  std_dev: number;
+  /** Omitted for anonymous diagnostics */
+  min?: number;
+  max?: number;
+  /** Respondent counts per score bucket */
+  distribution: number[];
+}
+
+export interface DiagnosticQuestionSummary {
+  id: number;
+  text: string;
+  type: DiagnosticQuestion['type'];
+  responses: number;
+  /** Choice counts (scale with options, multiple choice) */
+  options?: Array<{ option: string; count: number; percentage: number }>;
+  /** Mean numeric answer (numeric scale) */
+  average?: number;
+  /** Mean position per option, 1 = ranked first (ranking) */
+  average_rank?: Record<string, number>;
+}
+
+/** Stored in OrganizationDiagnostic.results (a type so it fits the JSON column) */
+export type DiagnosticResults = {
+  status: 'ready' | 'insufficient_participants';
+  generated_at: string;
+  participants: number;
+  min_participants: number;
+  anonymous: boolean;
+  dimensions: DiagnosticDimensionSummary[];
+  /** Average element share across participants, in percent */
+  element_mix: Record<ElementType, number>;
+  /** Participants per primary element */
+  primary_elements: Record<ElementType, number>;
+  questions: DiagnosticQuestionSummary[];
+  /** Per-participant scores, only when results are not anonymous */
+  individual?: Array<{ user_id: string } & DiagnosticResponseScores>;
+};
+
+/** What insights are derived from; results protected for release fit it too */
+export type DiagnosticInsightSource = Pick<
+  DiagnosticResults,
+  'status' | 'participants' | 'min_participants' | 'element_mix'
+> & {
+  dimensions: Array<Pick<DiagnosticDimensionSummary, 'id' | 'label' | 'respondents' | 'mean' | 'std_dev'>>;
+};
+
+export interface DiagnosticReport {
+  results: DiagnosticResults;
+  insights: string[];
+  /** Scores per response ID, for storing on the response rows */
+  responseScores: Map<string, DiagnosticResponseScores>;
+}
+
+// ============================================================================
+// Scorer registry
+// ============================================================================
+
+/** Range of numeric scale answers when the config sets none */
+export const DIAGNOSTIC_DEFAULT_SCALE = { min: 1, max: 5 };
+
+function clampScore(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Find an option rule by exact text, falling back to a case-insensitive match
+ */
+function findOptionRule(rule: DiagnosticQuestionRule, option: string): DiagnosticOptionRule | undefined {
+  if (!rule.options) return undefined;
+  if (rule.options[option]) return rule.options[option];
+
+  const normalized = option.trim().toLowerCase();
+  const key = Object.keys(rule.options).find((candidate) => candidate.trim().toLowerCase() === normalized);
+  return key ? rule.options[key] : undefined;
+}
+
+/**
+ * Resolve a choice answer to option text (answers may be the text or its index)
+ */
+function resolveOption(question: DiagnosticQuestion, answer: unknown): string | null {
+  if (typeof answer === 'string') {
+    return answer;
+  }
+  if (typeof answer === 'number' && question.options && Number.isInteger(answer)) {
+    return question.options[answer] ?? null;
+  }
+  return null;
+}
+
+/**
+ * Combine weighted option rules into one question score
+ */
+function scoreOptions(
+  rule: DiagnosticQuestionRule,
+  weighted: Array<{ option: DiagnosticOptionRule; weight: number }>
+): DiagnosticQuestionScore | null {
+  const sums: Record<string, { total: number; weight: number }> = {};
+  const elements: Partial<Record<ElementType, number>> = {};
+
+  const add = (dimension: string, value: number, weight: number) => {
+    sums[dimension] ??= { total: 0, weight: 0 };
+    sums[dimension].total += clampScore(value) * weight;
+    sums[dimension].weight += weight;
+  };
+
+  for (const { option, weight } of weighted) {
+    if (rule.dimension && typeof option.value === 'number') {
+      add(rule.dimension, option.value, weight);
+    }
+    for (const [dimension, value] of Object.entries(option.dimensions ?? {})) {
+      add(dimension, value, weight);
+    }
+    if (option.element) {
+      elements[option.element] = (elements[option.element] ?? 0) + weight;
+    }
+  }
+
+  const dimensions = Object.fromEntries(
+    Object.entries(sums).map(([dimension, { total, weight }]) => [dimension, total / weight])
+  );
+
+  if (Object.keys(dimensions).length === 0 && Object.keys(elements).length === 0) {
+    return null;
+  }
+
+  return { dimensions, elements };
+}
+
+/** Numeric answers on the configured scale, or a choice among the question's options */
+const scoreScale: DiagnosticScorer = (question, answer, rule, config) => {
+  if (typeof answer === 'number' && !(question.options?.length && rule.options)) {
+    const scale = config.scale ?? DIAGNOSTIC_DEFAULT_SCALE;
+    if (!Number.isFinite(answer) || scale.max <= scale.min || !rule.dimension) {
+      return null;
+    }
+
+    const normalized = clampScore(((answer - scale.min) / (scale.max - scale.min)) * 100);
+    return {
+      dimensions: { [rule.dimension]: rule.reverse ? 100 - normalized : normalized },
+      elements: {},
+    };
+  }
+
+  const option = resolveOption(question, answer);
+  const optionRule = option ? findOptionRule(rule, option) : undefined;
+  return optionRule ? scoreOptions(rule, [{ option: optionRule, weight: 1 }]) : null;
+};
+
+/** One or several selected options, each weighted equally */
+const scoreMultipleChoice: DiagnosticScorer = (question, answer, rule) => {
+  const selected = (Array.isArray(answer) ? answer : [answer])
+    .map((item) => resolveOption(question, item))
+    .map((option) => (option ? findOptionRule(rule, option) : undefined))
+    .filter((option): option is DiagnosticOptionRule => !!option);
+
+  return selected.length > 0
+    ? scoreOptions(rule, selected.map((option) => ({ option, weight: 1 })))
+    : null;
+};
+
+/** Ordered options; the first-ranked option weighs most */
+const scoreRanking: DiagnosticScorer = (question, answer, rule) => {
+  if (!Array.isArray(answer) || answer.length === 0) {
+    return null;
+  }
+
+  const weighted = answer
+    .map((item, index) => {
+      const option = resolveOption(question, item);
+      const optionRule = option ? findOptionRule(rule, option) : undefined;
+      return optionRule ? { option: optionRule, weight: answer.length - index } : null;
+    })
+    .filter((entry): entry is { option: DiagnosticOptionRule; weight: number } => !!entry);
+
+  return weighted.length > 0 ? scoreOptions(rule, weighted) : null;
+};
+
+const scorers = new Map<string, DiagnosticScorer>([
+  ['scale', scoreScale],
+  ['multiple_choice', scoreMultipleChoice],
+  ['ranking', scoreRanking],
+]);
+
+/**
+ * Register (or replace) the scorer for a question type
+ *
+ * @example
+ * registerDiagnosticScorer('slider', (question, answer, rule) =>
+ *   typeof answer === 'number' && rule.dimension
+ *     ? { dimensions: { [rule.dimension]: answer }, elements: {} }
+ *     : null
+ * );
+ */
+export function registerDiagnosticScorer(type: string, scorer: DiagnosticScorer): void {
+  scorers.set(type, scorer);
+}
+
+/**
+ * Get the scorer for a question type, if one is registered
+ */
+export function getDiagnosticScorer(type: string): DiagnosticScorer | undefined {
+  return scorers.get(type);
+}
+
+// ============================================================================
+// Response scoring
+// ============================================================================
+
+function emptyElementRecord(): Record<ElementType, number> {
+  return Object.fromEntries(DIAGNOSTIC_ELEMENTS.map((element) => [element, 0])) as Record<ElementType, number>;
+}
+
+/**
+ * Score one participant's answers
+ *
+ * Dimension scores are the weighted mean (0-100) of every scored question
+ * contributing to the dimension; element shares are normalized to percent.
+ */
+export function scoreDiagnosticResponse(
+  template: Pick<DiagnosticTemplate, 'questions' | 'scoring_config'>,
+  answers: Record<string, unknown>
+): DiagnosticResponseScores {
+  const config = (template.scoring_config ?? {}) as DiagnosticScoringConfig;
+  const dimensionSums: Record<string, { total: number; weight: number }> = {};
+  const elementWeights: Partial<Record<ElementType, number>> = {};
+
+  for (const question of template.questions ?? []) {
+    const answer = answers[String(question.id)];
+    const scorer = scorers.get(question.type);
+    if (answer === undefined || answer === null || !scorer) continue;
+
+    const rule = config.questions?.[String(question.id)] ?? {};
+    const score = scorer(question, answer, rule, config);
+    if (!score) continue;
+
+    const weight = rule.weight ?? 1;
+    for (const [dimension, value] of Object.entries(score.dimensions)) {
+      dimensionSums[dimension] ??= { total: 0, weight: 0 };
+      dimensionSums[dimension].total += value * weight;
+      dimensionSums[dimension].weight += weight;
+    }
+    for (const [element, value] of Object.entries(score.elements) as [ElementType, number][]) {
+      elementWeights[element] = (elementWeights[element] ?? 0) + value * weight;
+    }
+  }
+
+  const totalElementWeight = Object.values(elementWeights).reduce((sum, value) => sum + (value ?? 0), 0);
+  const elements: Partial<Record<ElementType, number>> = {};
+  let primary: ElementType | null = null;
+
+  for (const element of DIAGNOSTIC_ELEMENTS) {
+    const weight = elementWeights[element];
+    if (!weight || totalElementWeight === 0) continue;
+    elements[element] = round((weight / totalElementWeight) * 100);
+    if (primary === null || weight > (elementWeights[primary] ?? 0)) {
+      primary = element;
+    }
+  }
+
+  return {
+    dimensions: Object.fromEntries(
+      Object.entries(dimensionSums)
+        .filter(([, sum]) => sum.weight > 0)
+        .map(([dimension, sum]) => [dimension, round(sum.total / sum.weight)])
+    ),
+    elements,
+    primary_element: primary,
+  };
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function standardDeviation(values: number[], mean: number): number {
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+function summarizeDimension(
+  dimension: DiagnosticDimension,
+  scores: DiagnosticResponseScores[],
+  anonymous: boolean
+): DiagnosticDimensionSummary {
+  const values = scores
+    .map((score) => score.dimensions[dimension.id])
+    .filter((value): value is number => typeof value === 'number');
+  const distribution = new Array<number>(DIAGNOSTIC_DISTRIBUTION_BUCKETS).fill(0);
+
+  for (const value of values) {
+    const bucket = Math.min(
+      DIAGNOSTIC_DISTRIBUTION_BUCKETS - 1,
+      Math.floor(value / (100 / DIAGNOSTIC_DISTRIBUTION_BUCKETS))
+    );
+    distribution[bucket]++;
+  }
+
+  if (values.length === 0) {
+    return { id: dimension.id, label: dimension.label, respondents: 0, mean: 0, median: 0, std_dev: 0, distribution };
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return {
+    id: dimension.id,
+    label: dimension.label,
+    respondents: values.length,
+    mean: round(mean),
+    median: round(median(values)),
+    std_dev: round(standardDeviation(values, mean)),
+    // Extremes of a small team point at individuals
+    ...(!anonymous && { min: Math.min(...values), max: Math.max(...values) }),
+    distribution,
+  };
+}
+
+function summarizeQuestion(
+  question: DiagnosticQuestion,
+  answers: Array<Record<string, unknown>>
+): DiagnosticQuestionSummary {
+  const given = answers
+    .map((answer) => answer[String(question.id)])
+    .filter((answer) => answer !== undefined && answer !== null && answer !== '');
+  const summary: DiagnosticQuestionSummary = {
+    id: question.id,
+    text: question.text,
+    type: question.type,
+    responses: given.length,
+  };
+
+  if (question.type === 'text') {
+    // Free text is never aggregated into reports
+    return summary;
+  }
+
+  if (question.type === 'ranking') {
+    const positions: Record<string, number[]> = {};
+    for (const answer of given) {
+      if (!Array.isArray(answer)) continue;
+      answer.forEach((item, index) => {
+        const option = resolveOption(question, item);
+        if (option) (positions[option] ??= []).push(index + 1);
+      });
+    }
+    summary.average_rank = Object.fromEntries(
+      Object.entries(positions).map(([option, ranks]) => [
+        option,
+        round(ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length, 2),
+      ])
+    );
+    return summary;
+  }
+
+  const numeric = given.filter((answer): answer is number => typeof answer === 'number');
+  if (question.type === 'scale' && !question.options?.length && numeric.length > 0) {
+    summary.average = round(numeric.reduce((sum, value) => sum + value, 0) / numeric.length, 2);
+    return summary;
+  }
+
+  const counts = new Map<string, number>((question.options ?? []).map((option) => [option, 0]));
+  for (const answer of given) {
+    for (const item of Array.isArray(answer) ? answer : [answer]) {
+      const option = resolveOption(question, item);
+      if (option) counts.set(option, (counts.get(option) ?? 0) + 1);
+    }
+  }
+  summary.options = Array.from(counts.entries()).map(([option, count]) => ({
+    option,
+    count,
+    percentage: given.length > 0 ? round((count / given.length) * 100) : 0,
+  }));
+
+  return summary;
+}
+
+function formatElement(element: ElementType): string {
+  return element.charAt(0).toUpperCase() + element.slice(1);
+}
+
+/**
+ * Derive plain-language insights from aggregated results
+ */
+export function generateDiagnosticInsights(
+  results: DiagnosticInsightSource,
+  reportTemplate: DiagnosticReportTemplate = {}
+): string[] {
+  if (results.status === 'insufficient_participants') {
+    return [
+      `Results are shown once at least ${results.min_participants} participants have completed the diagnostic (${results.participants} so far).`,
+    ];
+  }
+
+  const thresholds = {
+    strong: reportTemplate.insights?.strong_threshold ?? 70,
+    weak: reportTemplate.insights?.weak_threshold ?? 40,
+    divergence: reportTemplate.insights?.divergence_threshold ?? 25,
+    dominant: reportTemplate.insights?.dominant_element_share ?? 40,
+  };
+  const insights: string[] = [];
+  const scored = results.dimensions.filter((dimension) => dimension.respondents > 0);
+
+  for (const dimension of [...scored].sort((a, b) => b.mean - a.mean)) {
+    const custom = reportTemplate.dimension_insights?.[dimension.id];
+    if (dimension.mean >= thresholds.strong) {
+      insights.push(custom?.high ?? `${dimension.label} is a team strength (average ${dimension.mean}/100).`);
+    } else if (dimension.mean <= thresholds.weak) {
+      insights.push(
+        custom?.low ?? `${dimension.label} scores low across the team (average ${dimension.mean}/100) and is worth discussing together.`
+      );
+    }
+    if (dimension.respondents > 1 && dimension.std_dev >= thresholds.divergence) {
+      insights.push(`Team members differ widely on ${dimension.label.toLowerCase()}, so expect different working styles here.`);
+    }
+  }
+
+  const mix = (Object.entries(results.element_mix) as [ElementType, number][])
+    .filter(([, share]) => share > 0)
+    .sort((a, b) => b[1] - a[1]);
+
+  if (mix.length > 0 && mix[0][1] >= thresholds.dominant) {
+    insights.push(`${formatElement(mix[0][0])} energy dominates the team (${mix[0][1]}% of the element mix).`);
+  }
+
+  const missing = DIAGNOSTIC_ELEMENTS.filter((element) => !results.element_mix[element]);
+  if (mix.length > 0 && results.participants >= 3 && missing.length > 0 && missing.length < DIAGNOSTIC_ELEMENTS.length) {
+    insights.push(`No one on the team leans ${missing.map(formatElement).join(', ')}; consider which perspectives that leaves out.`);
+  }
+
+  if (insights.length === 0 && scored.length > 0) {
+    insights.push('Scores are balanced across all dimensions, with no clear strengths or gaps.');
+  }
+
+  return insights;
+}
+
+/**
+ * Score every completed response and aggregate them into a report
+ *
+ * Applies the diagnostic's privacy settings:
+ * - Below the template's `min_participants`, only participation counts are
+ *   returned so no individual's answers can be inferred.
+ * - With `anonymous_results`, per-participant scores and dimension extremes
+ *   are left out.
+ *
+ * @example
+ * const { results, insights } = buildDiagnosticReport(diagnostic, responses);
+ * await diagnosticsRepository.completeDiagnostic(diagnostic.id, results, insights);
+ */
+export function buildDiagnosticReport(
+  diagnostic: Pick<OrganizationDiagnostic, 'anonymous_results'> & {
+    template: Pick<DiagnosticTemplate, 'questions' | 'scoring_config' | 'report_template' | 'min_participants'>;
+  },
+  responses: DiagnosticResponse[],
+  now: Date = new Date()
+): DiagnosticReport {
+  const { template } = diagnostic;
+  const config = (template.scoring_config ?? {}) as DiagnosticScoringConfig;
+  const completed = responses.filter((response) => response.is_complete);
+  const minParticipants = Math.max(1, template.min_participants ?? 1);
+  const anonymous = diagnostic.anonymous_results;
+
+  const responseScores = new Map<string, DiagnosticResponseScores>(
+    completed.map((response) => [response.id, scoreDiagnosticResponse(template, response.answers ?? {})])
+  );
+
+  const base = {
+    generated_at: now.toISOString(),
+    participants: completed.length,
+    min_participants: minParticipants,
+    anonymous,
+  };
+
+  if (completed.length < minParticipants) {
+    const results: DiagnosticResults = {
+      ...base,
+      status: 'insufficient_participants',
+      dimensions: [],
+      element_mix: emptyElementRecord(),
+      primary_elements: emptyElementRecord(),
+      questions: [],
+    };
+    return { results, insights: generateDiagnosticInsights(results), responseScores };
+  }
+
+  const scores = completed.map((response) => responseScores.get(response.id) as DiagnosticResponseScores);
+
+  // Dimensions declared in the config first, then any only referenced by rules
+  const declared = config.dimensions ?? [];
+  const referenced = new Set(scores.flatMap((score) => Object.keys(score.dimensions)));
+  const dimensions = [
+    ...declared,
+    ...Array.from(referenced)
+      .filter((id) => !declared.some((dimension) => dimension.id === id))
+      .map((id) => ({ id, label: id.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase()) })),
+  ];
+
+  const elementMix = emptyElementRecord();
+  const primaryElements = emptyElementRecord();
+  const withElements = scores.filter((score) => score.primary_element);
+
+  for (const score of withElements) {
+    for (const element of DIAGNOSTIC_ELEMENTS) {
+      elementMix[element] += (score.elements[element] ?? 0) / withElements.length;
+    }
+    primaryElements[score.primary_element as ElementType]++;
+  }
+  for (const element of DIAGNOSTIC_ELEMENTS) {
+    elementMix[element] = round(elementMix[element]);
+  }
+
+  const results: DiagnosticResults = {
+    ...base,
+    status: 'ready',
+    dimensions: dimensions.map((dimension) => summarizeDimension(dimension, scores, anonymous)),
+    element_mix: elementMix,
+    primary_elements: primaryElements,
+    questions: (template.questions ?? []).map((question) =>
+      summarizeQuestion(question, completed.map((response) => response.answers ?? {}))
+    ),
+    ...(!anonymous && {
+      individual: completed.map((response) => ({
+        user_id: response.user_id,
+        ...(responseScores.get(response.id) as DiagnosticResponseScores),
+      })),
+    }),
+  };
+
+  return {
+    results,
+    insights: generateDiagnosticInsights(results, (template.report_template ?? {}) as DiagnosticReportTemplate),
+    responseScores,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Earnings Barrel Export
+ * Instructor revenue-share ledger and payout statements
+ */
+
+// Ledger
+export {
+  attributeRevenue,
+  buildLedgerEntries,
+  buildStatementDrafts,
+  getNextStatementStatus,
+  getStatementPeriod,
+  splitRevenue,
+  summarizeByCourse,
+  summarizeEarnings,
+  type CourseEarnings,
+  type CourseOwner,
+  type EarningEntryType,
+  type EarningSourceType,
+  type EarningsTotals,
+  type EnrollmentSale,
+  type LedgerEntry,
+  type OrderItemSale,
+  type PayoutAction,
+  type PayoutStatementStatus,
+  type RecordedLedgerEntry,
+  type RevenueSource,
+  type SessionSale,
+  type StatementDraft,
+  type StatementPeriod,
+} from './ledger';
+
+// Payouts
+export {
+  generatePayoutStatements,
+  getEarningsOverview,
+  getRevenueShareSettings,
+  reviewPayoutStatement,
+  syncInstructorEarnings,
+  type EarningsOverview,
+  type EarningsPeriod,
+  type EarningsTransaction,
+  type RevenueShareSettings,
+} from './payouts';
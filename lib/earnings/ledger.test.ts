@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  attributeRevenue,
+  buildLedgerEntries,
+  buildStatementDrafts,
+  getNextStatementStatus,
+  getStatementPeriod,
+  splitRevenue,
+  summarizeEarnings,
+  type RecordedLedgerEntry,
+  type RevenueSource,
+} from './ledger';
+
+const courses = [{ id: 'course-1', title: 'Energy Mastery', instructor_id: 'instructor-1' }];
+
+const order = (status: string, refunded_at: string | null = null) => ({
+  user_id: 'student-1',
+  status,
+  created_at: '2026-03-05T10:00:00Z',
+  completed_at: '2026-03-05T10:01:00Z',
+  refunded_at,
+});
+
+const source: RevenueSource = {
+  source_type: 'order_item',
+  source_id: 'item-1',
+  instructor_id: 'instructor-1',
+  course_id: 'course-1',
+  description: 'Course sale: Energy Mastery',
+  gross_amount: 97,
+  occurred_at: '2026-03-05T10:01:00Z',
+  refunded_at: null,
+};
+
+const recordedEntries = (sources: RevenueSource[], feePercent = 30): RecordedLedgerEntry[] =>
+  buildLedgerEntries(sources, feePercent, []).map((entry, index) => ({
+    ...entry,
+    id: `entry-${index}`,
+    statement_id: null,
+  }));
+
+// ============================================================================
+// Attribution
+// ============================================================================
+
+describe('attributeRevenue', () => {
+  it('attributes course orders to the course creator and skips unpaid orders', () => {
+    const sources = attributeRevenue({
+      courses,
+      orderItems: [
+        { id: 'item-1', product_id: 'course-1', price_usd: 97, order: order('completed') },
+        { id: 'item-2', product_id: 'course-1', price_usd: 97, order: order('pending') },
+        { id: 'item-3', product_id: 'other-course', price_usd: 50, order: order('completed') },
+      ],
+      enrollments: [],
+      sessions: [],
+    });
+
+    expect(sources).toEqual([source]);
+  });
+
+  it('counts direct enrollments in dollars and never double counts an ordered course', () => {
+    const sources = attributeRevenue({
+      courses,
+      orderItems: [{ id: 'item-1', product_id: 'course-1', price_usd: 97, order: order('completed') }],
+      enrollments: [
+        { id: 'enr-1', user_id: 'student-1', course_id: 'course-1', amount_paid: 9700, payment_status: 'completed', enrolled_at: '2026-03-05T10:01:00Z', refunded_at: null },
+        { id: 'enr-2', user_id: 'student-2', course_id: 'course-1', amount_paid: 4900, payment_status: 'refunded', enrolled_at: '2026-03-06T10:00:00Z', refunded_at: '2026-03-20T10:00:00Z' },
+      ],
+      sessions: [],
+    });
+
+    expect(sources.map((s) => s.source_id)).toEqual(['item-1', 'enr-2']);
+    expect(sources[1]).toMatchObject({ gross_amount: 49, refunded_at: '2026-03-20T10:00:00Z' });
+  });
+
+  it('counts completed paid sessions', () => {
+    const session = { id: 's-1', instructor_id: 'instructor-2', price_usd: 80, status: 'completed', scheduled_at: '2026-03-10T15:00:00Z', refunded_at: null };
+    const sources = attributeRevenue({
+      courses,
+      orderItems: [],
+      enrollments: [],
+      sessions: [session, { ...session, id: 's-2', status: 'confirmed' }, { ...session, id: 's-3', price_usd: 0 }],
+    });
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0]).toMatchObject({ source_type: 'session', instructor_id: 'instructor-2', course_id: null });
+  });
+});
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+describe('buildLedgerEntries', () => {
+  it('applies the platform fee to new sales', () => {
+    const [sale] = buildLedgerEntries([source], 30, []);
+
+    expect(sale).toMatchObject({ entry_type: 'sale', gross_amount: 97, platform_fee: 29.1, net_amount: 67.9, fee_percent: 30 });
+  });
+
+  it('claws back a refund at the fee of the original sale, once', () => {
+    const [sale] = buildLedgerEntries([source], 30, []);
+    const refunded = { ...source, refunded_at: '2026-04-02T09:00:00Z' };
+
+    // The fee has changed since the sale was recorded
+    const entries = buildLedgerEntries([refunded], 20, [sale]);
+    expect(entries).toEqual([
+      expect.objectContaining({
+        entry_type: 'refund',
+        gross_amount: -97,
+        platform_fee: -29.1,
+        net_amount: -67.9,
+        fee_percent: 30,
+        occurred_at: '2026-04-02T09:00:00Z',
+      }),
+    ]);
+
+    expect(buildLedgerEntries([refunded], 20, [sale, ...entries])).toEqual([]);
+  });
+
+  it('Property: fee and net always add back up to the gross amount', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 1_000_000 }),
+        fc.integer({ min: 0, max: 100 }),
+        (cents, feePercent) => {
+          const gross = cents / 100;
+          const { platform_fee, net_amount } = splitRevenue(gross, feePercent);
+          expect(Math.round((platform_fee + net_amount) * 100)).toBe(cents);
+          expect(net_amount).toBeGreaterThanOrEqual(0);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
+
+// ============================================================================
+// Statements
+// ============================================================================
+
+describe('buildStatementDrafts', () => {
+  const now = new Date('2026-04-15T12:00:00Z');
+
+  it('rolls closed months up per instructor and leaves the current month open', () => {
+    const entries = recordedEntries([
+      source,
+      { ...source, source_id: 'item-2', gross_amount: 50, refunded_at: '2026-03-25T00:00:00Z' },
+      { ...source, source_id: 'item-3', occurred_at: '2026-04-02T00:00:00Z' },
+    ]);
+
+    const drafts = buildStatementDrafts(entries, [], now);
+    expect(drafts).toEqual([
+      expect.objectContaining({
+        instructor_id: 'instructor-1',
+        period_start: '2026-03-01',
+        period_end: '2026-03-31',
+        gross_amount: 147,
+        platform_fees: 29.1,
+        refunds: 35,
+        net_amount: 67.9,
+        entry_count: 3,
+      }),
+    ]);
+  });
+
+  it('carries late entries for a closed statement into the last closed month', () => {
+    const entries = recordedEntries([{ ...source, occurred_at: '2026-02-10T00:00:00Z' }]);
+
+    const drafts = buildStatementDrafts(entries, [{ instructor_id: 'instructor-1', period_start: '2026-02-01' }], now);
+    expect(drafts.map((d) => d.period_start)).toEqual(['2026-03-01']);
+
+    expect(
+      buildStatementDrafts(
+        entries,
+        [
+          { instructor_id: 'instructor-1', period_start: '2026-02-01' },
+          { instructor_id: 'instructor-1', period_start: '2026-03-01' },
+        ],
+        now
+      )
+    ).toEqual([]);
+  });
+
+  it('uses calendar months', () => {
+    expect(getStatementPeriod(new Date('2028-02-29T23:59:00Z'))).toEqual({
+      period_start: '2028-02-01',
+      period_end: '2028-02-29',
+    });
+  });
+});
+
+describe('getNextStatementStatus', () => {
+  it('only pays approved statements', () => {
+    expect(getNextStatementStatus('pending', 'approve')).toBe('approved');
+    expect(getNextStatementStatus('pending', 'mark_paid')).toBeNull();
+    expect(getNextStatementStatus('approved', 'mark_paid')).toBe('paid');
+    expect(getNextStatementStatus('paid', 'reject')).toBeNull();
+  });
+});
+
+describe('summarizeEarnings', () => {
+  it('counts everything outside paid statements as pending payout', () => {
+    const entries = recordedEntries([source, { ...source, source_id: 'item-2', occurred_at: '2026-04-01T00:00:00Z' }]);
+    entries[0].statement_id = 'statement-1';
+
+    expect(summarizeEarnings(entries, new Set(['statement-1']), new Date('2026-04-15T00:00:00Z'))).toEqual({
+      total_earnings: 135.8,
+      this_month: 67.9,
+      last_month: 67.9,
+      pending_payout: 67.9,
+    });
+  });
+});
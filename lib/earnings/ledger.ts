@@ -0,0 +1,425 @@
+/**
+ * Instructor Earnings Ledger
+ * Attributes course sales and paid sessions to instructors, applies the
+ * platform fee and refund clawbacks, and rolls the ledger up into monthly
+ * payout statements.
+ *
+ * The ledger is append-only: a sale is recorded once with the fee in force at
+ * the time, and a refund adds a clawback entry reversing exactly that sale in
+ * the month the refund happened. Closed statements are never rewritten.
+ *
+ * Everything here is pure - persistence lives in ./sync.ts.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EarningSourceType = 'order_item' | 'enrollment' | 'session';
+export type EarningEntryType = 'sale' | 'refund';
+export type PayoutStatementStatus = 'pending' | 'approved' | 'rejected' | 'paid';
+export type PayoutAction = 'approve' | 'reject' | 'mark_paid';
+
+/** A purchase that earns an instructor revenue */
+export interface RevenueSource {
+  source_type: EarningSourceType;
+  source_id: string;
+  instructor_id: string;
+  course_id: string | null;
+  description: string;
+  /** USD paid by the customer */
+  gross_amount: number;
+  occurred_at: string;
+  refunded_at: string | null;
+}
+
+export interface LedgerEntry {
+  instructor_id: string;
+  entry_type: EarningEntryType;
+  source_type: EarningSourceType;
+  source_id: string;
+  course_id: string | null;
+  description: string;
+  gross_amount: number;
+  platform_fee: number;
+  net_amount: number;
+  fee_percent: number;
+  occurred_at: string;
+}
+
+export interface RecordedLedgerEntry extends LedgerEntry {
+  id: string;
+  statement_id: string | null;
+}
+
+export interface StatementPeriod {
+  /** YYYY-MM-DD, first day of the month */
+  period_start: string;
+  /** YYYY-MM-DD, last day of the month */
+  period_end: string;
+}
+
+export interface StatementDraft extends StatementPeriod {
+  instructor_id: string;
+  gross_amount: number;
+  platform_fees: number;
+  /** Instructor share clawed back by refunds (positive) */
+  refunds: number;
+  net_amount: number;
+  entry_count: number;
+  entry_ids: string[];
+}
+
+export interface EarningsTotals {
+  total_earnings: number;
+  this_month: number;
+  last_month: number;
+  /** Net earnings not yet paid out */
+  pending_payout: number;
+}
+
+export interface CourseEarnings {
+  course_id: string;
+  total_revenue: number;
+  /** Sales less refunds */
+  sales: number;
+}
+
+// ============================================================================
+// Attribution inputs
+// ============================================================================
+
+export interface CourseOwner {
+  id: string;
+  title: string;
+  instructor_id: string;
+}
+
+export interface OrderItemSale {
+  id: string;
+  product_id: string | null;
+  price_usd: number;
+  order: {
+    user_id: string | null;
+    status: string;
+    created_at: string | null;
+    completed_at: string | null;
+    refunded_at: string | null;
+  };
+}
+
+export interface EnrollmentSale {
+  id: string;
+  user_id: string | null;
+  course_id: string | null;
+  /** Stripe amount in cents */
+  amount_paid: number | null;
+  payment_status: string | null;
+  enrolled_at: string | null;
+  refunded_at: string | null;
+}
+
+export interface SessionSale {
+  id: string;
+  instructor_id: string;
+  price_usd: number;
+  status: string;
+  scheduled_at: string;
+  refunded_at: string | null;
+}
+
+const PAID_ORDER_STATUSES = ['completed', 'refunded'];
+const PAID_ENROLLMENT_STATUSES = ['paid', 'completed', 'refunded'];
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const sum = (values: number[]) => roundCents(values.reduce((total, value) => total + value, 0));
+
+const ledgerKey = (entry: Pick<LedgerEntry, 'source_type' | 'source_id' | 'entry_type'>) =>
+  `${entry.source_type}:${entry.source_id}:${entry.entry_type}`;
+
+// ============================================================================
+// Attribution
+// ============================================================================
+
+/**
+ * Turn orders, enrollments and sessions into instructor revenue.
+ *
+ * Course sales come from order items; enrollments paid directly through
+ * checkout count only when no order covers the same student and course, so a
+ * purchase is never attributed twice.
+ */
+export function attributeRevenue(input: {
+  courses: CourseOwner[];
+  orderItems: OrderItemSale[];
+  enrollments: EnrollmentSale[];
+  sessions: SessionSale[];
+}): RevenueSource[] {
+  const courses = new Map(input.courses.map((course) => [course.id, course]));
+  const ordered = new Set<string>();
+  const sources: RevenueSource[] = [];
+
+  for (const item of input.orderItems) {
+    const course = item.product_id ? courses.get(item.product_id) : undefined;
+    if (!course || !PAID_ORDER_STATUSES.includes(item.order.status)) continue;
+
+    const occurredAt = item.order.completed_at || item.order.created_at;
+    if (!occurredAt) continue;
+
+    ordered.add(`${item.order.user_id}:${course.id}`);
+    sources.push({
+      source_type: 'order_item',
+      source_id: item.id,
+      instructor_id: course.instructor_id,
+      course_id: course.id,
+      description: `Course sale: ${course.title}`,
+      gross_amount: roundCents(item.price_usd),
+      occurred_at: occurredAt,
+      refunded_at: item.order.status === 'refunded' ? item.order.refunded_at || occurredAt : null,
+    });
+  }
+
+  for (const enrollment of input.enrollments) {
+    const course = enrollment.course_id ? courses.get(enrollment.course_id) : undefined;
+    if (
+      !course ||
+      !enrollment.amount_paid ||
+      !enrollment.enrolled_at ||
+      !PAID_ENROLLMENT_STATUSES.includes(enrollment.payment_status || '') ||
+      ordered.has(`${enrollment.user_id}:${course.id}`)
+    ) {
+      continue;
+    }
+
+    sources.push({
+      source_type: 'enrollment',
+      source_id: enrollment.id,
+      instructor_id: course.instructor_id,
+      course_id: course.id,
+      description: `Course enrollment: ${course.title}`,
+      gross_amount: roundCents(enrollment.amount_paid / 100),
+      occurred_at: enrollment.enrolled_at,
+      refunded_at:
+        enrollment.payment_status === 'refunded' ? enrollment.refunded_at || enrollment.enrolled_at : null,
+    });
+  }
+
+  for (const session of input.sessions) {
+    if (session.price_usd <= 0 || (session.status !== 'completed' && !session.refunded_at)) continue;
+
+    sources.push({
+      source_type: 'session',
+      source_id: session.id,
+      instructor_id: session.instructor_id,
+      course_id: null,
+      description: 'One-on-one session',
+      gross_amount: roundCents(session.price_usd),
+      occurred_at: session.scheduled_at,
+      refunded_at: session.refunded_at,
+    });
+  }
+
+  return sources;
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+/**
+ * Split a sale between the platform and the instructor, rounded to cents
+ */
+export function splitRevenue(
+  grossAmount: number,
+  feePercent: number
+): { platform_fee: number; net_amount: number } {
+  const platformFee = roundCents((grossAmount * feePercent) / 100);
+  return { platform_fee: platformFee, net_amount: roundCents(grossAmount - platformFee) };
+}
+
+/**
+ * Ledger entries still missing for the sources: a sale for every new
+ * purchase and a clawback for every refund that has not been recorded yet.
+ * A clawback reverses the recorded sale, including the fee charged on it.
+ */
+export function buildLedgerEntries(
+  sources: RevenueSource[],
+  feePercent: number,
+  recorded: LedgerEntry[]
+): LedgerEntry[] {
+  const existing = new Map(recorded.map((entry) => [ledgerKey(entry), entry]));
+  const entries: LedgerEntry[] = [];
+
+  for (const source of sources) {
+    const base = {
+      instructor_id: source.instructor_id,
+      source_type: source.source_type,
+      source_id: source.source_id,
+      course_id: source.course_id,
+    };
+
+    let sale = existing.get(ledgerKey({ ...base, entry_type: 'sale' }));
+    if (!sale) {
+      sale = {
+        ...base,
+        entry_type: 'sale',
+        description: source.description,
+        gross_amount: source.gross_amount,
+        ...splitRevenue(source.gross_amount, feePercent),
+        fee_percent: feePercent,
+        occurred_at: source.occurred_at,
+      };
+      entries.push(sale);
+    }
+
+    if (source.refunded_at && !existing.has(ledgerKey({ ...base, entry_type: 'refund' }))) {
+      entries.push({
+        ...base,
+        entry_type: 'refund',
+        description: `Refund: ${source.description}`,
+        gross_amount: -sale.gross_amount,
+        platform_fee: -sale.platform_fee,
+        net_amount: -sale.net_amount,
+        fee_percent: sale.fee_percent,
+        occurred_at: source.refunded_at,
+      });
+    }
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// Statements
+// ============================================================================
+
+/**
+ * Calendar month (UTC) containing the date
+ */
+export function getStatementPeriod(date: Date): StatementPeriod {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+  return {
+    period_start: start.toISOString().slice(0, 10),
+    period_end: end.toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Roll unassigned entries from closed months up into one statement per
+ * instructor and month. Entries recorded late for a month that already has a
+ * statement carry over into the most recently closed month instead; if that
+ * statement exists too they wait for the next run.
+ */
+export function buildStatementDrafts(
+  entries: RecordedLedgerEntry[],
+  existing: Array<{ instructor_id: string; period_start: string }>,
+  now: Date = new Date()
+): StatementDraft[] {
+  const currentPeriod = getStatementPeriod(now);
+  const lastClosed = getStatementPeriod(
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1))
+  );
+  const taken = new Set(existing.map((statement) => `${statement.instructor_id}:${statement.period_start}`));
+  const groups = new Map<string, { period: StatementPeriod; instructorId: string; entries: RecordedLedgerEntry[] }>();
+
+  for (const entry of entries) {
+    if (entry.statement_id) continue;
+
+    let period = getStatementPeriod(new Date(entry.occurred_at));
+    if (period.period_start >= currentPeriod.period_start) continue;
+
+    if (taken.has(`${entry.instructor_id}:${period.period_start}`)) {
+      period = lastClosed;
+      if (taken.has(`${entry.instructor_id}:${period.period_start}`)) continue;
+    }
+
+    const key = `${entry.instructor_id}:${period.period_start}`;
+    const group = groups.get(key) ?? { period, instructorId: entry.instructor_id, entries: [] };
+    group.entries.push(entry);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].map(({ period, instructorId, entries: grouped }) => {
+    const sales = grouped.filter((entry) => entry.entry_type === 'sale');
+    const refunds = grouped.filter((entry) => entry.entry_type === 'refund');
+
+    return {
+      ...period,
+      instructor_id: instructorId,
+      gross_amount: sum(sales.map((entry) => entry.gross_amount)),
+      platform_fees: sum(grouped.map((entry) => entry.platform_fee)),
+      refunds: -sum(refunds.map((entry) => entry.net_amount)),
+      net_amount: sum(grouped.map((entry) => entry.net_amount)),
+      entry_count: grouped.length,
+      entry_ids: grouped.map((entry) => entry.id),
+    };
+  });
+}
+
+/**
+ * Status a statement moves to for an admin action, or null when the action
+ * is not allowed from its current status
+ */
+export function getNextStatementStatus(
+  status: PayoutStatementStatus,
+  action: PayoutAction
+): PayoutStatementStatus | null {
+  switch (action) {
+    case 'approve':
+      return status === 'pending' || status === 'rejected' ? 'approved' : null;
+    case 'reject':
+      return status === 'pending' || status === 'approved' ? 'rejected' : null;
+    case 'mark_paid':
+      return status === 'approved' ? 'paid' : null;
+  }
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * Lifetime, monthly and unpaid net earnings
+ */
+export function summarizeEarnings(
+  entries: RecordedLedgerEntry[],
+  paidStatementIds: Set<string>,
+  now: Date = new Date()
+): EarningsTotals {
+  const thisMonth = getStatementPeriod(now).period_start.slice(0, 7);
+  const lastMonth = getStatementPeriod(
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1))
+  ).period_start.slice(0, 7);
+  const inMonth = (month: string) =>
+    entries.filter((entry) => entry.occurred_at.slice(0, 7) === month).map((entry) => entry.net_amount);
+
+  return {
+    total_earnings: sum(entries.map((entry) => entry.net_amount)),
+    this_month: sum(inMonth(thisMonth)),
+    last_month: sum(inMonth(lastMonth)),
+    pending_payout: sum(
+      entries
+        .filter((entry) => !entry.statement_id || !paidStatementIds.has(entry.statement_id))
+        .map((entry) => entry.net_amount)
+    ),
+  };
+}
+
+/**
+ * Net revenue and sales per course, highest earning first
+ */
+export function summarizeByCourse(entries: LedgerEntry[]): CourseEarnings[] {
+  const courses = new Map<string, CourseEarnings>();
+
+  for (const entry of entries) {
+    if (!entry.course_id) continue;
+
+    const course = courses.get(entry.course_id) ?? { course_id: entry.course_id, total_revenue: 0, sales: 0 };
+    course.total_revenue = roundCents(course.total_revenue + entry.net_amount);
+    course.sales += entry.entry_type === 'sale' ? 1 : -1;
+    courses.set(entry.course_id, course);
+  }
+
+  return [...courses.values()].sort((a, b) => b.total_revenue - a.total_revenue);
+}
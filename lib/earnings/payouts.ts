@@ -0,0 +1,240 @@
+/**
+ * Instructor Payouts
+ * Keeps the earnings ledger in step with orders, enrollments and sessions,
+ * rolls it up into monthly statements and moves statements through admin
+ * approval to payment.
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { badRequestError, notFoundError } from '@/lib/api/error-handler';
+import { instructorEarningsRepository, type EarningWithCourse } from '@/lib/db/instructor-earnings';
+import { instructorPayoutStatementRepository } from '@/lib/db/instructor-payout-statements';
+import { platformSettingsRepository } from '@/lib/db/platform-settings';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import {
+  attributeRevenue,
+  buildLedgerEntries,
+  buildStatementDrafts,
+  getNextStatementStatus,
+  getStatementPeriod,
+  summarizeByCourse,
+  summarizeEarnings,
+  type CourseEarnings,
+  type EarningsTotals,
+  type PayoutAction,
+  type PayoutStatementStatus,
+  type RecordedLedgerEntry,
+} from './ledger';
+
+type PayoutStatementRow = Database['public']['Tables']['instructor_payout_statements']['Row'];
+
+export interface RevenueShareSettings {
+  platform_fee_percent: number;
+  minimum_payout: number;
+}
+
+export type EarningsPeriod = 'all' | 'month' | 'week';
+
+export interface EarningsTransaction {
+  id: string;
+  date: string;
+  description: string;
+  course_title: string;
+  amount: number;
+  type: 'sale' | 'refund' | 'payout';
+  status: 'completed' | 'pending';
+}
+
+export interface EarningsOverview {
+  summary: EarningsTotals & { total_sales: number; total_courses: number };
+  transactions: EarningsTransaction[];
+  courseEarnings: Array<CourseEarnings & { title: string }>;
+  statements: PayoutStatementRow[];
+  settings: RevenueShareSettings;
+}
+
+const toNumber = (value: unknown, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const toLedgerEntry = (row: Database['public']['Tables']['instructor_earnings']['Row']): RecordedLedgerEntry => ({
+  ...row,
+  entry_type: row.entry_type as RecordedLedgerEntry['entry_type'],
+  source_type: row.source_type as RecordedLedgerEntry['source_type'],
+});
+
+const formatPeriod = (periodStart: string) =>
+  new Date(`${periodStart}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+/**
+ * Platform fee and minimum payout from platform settings
+ */
+export async function getRevenueShareSettings(): Promise<RevenueShareSettings> {
+  const [feePercent, minimumPayout] = await Promise.all([
+    platformSettingsRepository.get('instructor_platform_fee_percent'),
+    platformSettingsRepository.get('instructor_minimum_payout'),
+  ]);
+
+  return {
+    platform_fee_percent: Math.min(100, Math.max(0, toNumber(feePercent, 30))),
+    minimum_payout: toNumber(minimumPayout, 50),
+  };
+}
+
+/**
+ * Record ledger entries for new sales and refunds, for one instructor or all
+ *
+ * @returns Number of entries added
+ */
+export async function syncInstructorEarnings(instructorId?: string): Promise<number> {
+  const [settings, sourceRows, recorded] = await Promise.all([
+    getRevenueShareSettings(),
+    instructorEarningsRepository.getRevenueSources(instructorId),
+    instructorEarningsRepository.getRecorded(instructorId),
+  ]);
+
+  const entries = buildLedgerEntries(
+    attributeRevenue(sourceRows),
+    settings.platform_fee_percent,
+    recorded.map(toLedgerEntry)
+  );
+
+  return instructorEarningsRepository.record(entries);
+}
+
+/**
+ * Sync the ledger and create statements for every closed month
+ */
+export async function generatePayoutStatements(now: Date = new Date()): Promise<PayoutStatementRow[]> {
+  await syncInstructorEarnings();
+
+  const currentPeriod = getStatementPeriod(now);
+  const [unassigned, periods] = await Promise.all([
+    instructorEarningsRepository.getUnassigned(new Date(`${currentPeriod.period_start}T00:00:00Z`)),
+    instructorPayoutStatementRepository.getPeriods(),
+  ]);
+
+  const drafts = buildStatementDrafts(unassigned.map(toLedgerEntry), periods, now);
+  const statements: PayoutStatementRow[] = [];
+
+  // One at a time so a failure leaves the remaining entries for the next run
+  for (const draft of drafts) {
+    statements.push(await instructorPayoutStatementRepository.create(draft));
+  }
+
+  logger.info('Generated instructor payout statements', { count: statements.length });
+  return statements;
+}
+
+/**
+ * Apply an admin decision to a statement
+ *
+ * @throws {ApiError} 404 if the statement does not exist, 400 if the action
+ * is not allowed from its status or a payout is below the minimum
+ */
+export async function reviewPayoutStatement(
+  statementId: string,
+  action: PayoutAction,
+  reviewerId: string,
+  notes?: string
+): Promise<PayoutStatementRow> {
+  const statement = await instructorPayoutStatementRepository.findWithInstructor(statementId);
+  if (!statement) {
+    throw notFoundError('Payout statement');
+  }
+
+  const status = getNextStatementStatus(statement.status as PayoutStatementStatus, action);
+  if (!status) {
+    throw badRequestError(`Cannot ${action.replace('_', ' ')} a ${statement.status} statement`);
+  }
+
+  if (status === 'approved') {
+    const { minimum_payout } = await getRevenueShareSettings();
+    if (statement.net_amount < minimum_payout) {
+      throw badRequestError(`Statement balance is below the minimum payout of $${minimum_payout.toFixed(2)}`);
+    }
+  }
+
+  return instructorPayoutStatementRepository.updateStatus(statementId, status, reviewerId, notes);
+}
+
+/**
+ * Earnings summary, recent transactions, per-course revenue and statements
+ * for an instructor's earnings page. Syncs the ledger first so new sales and
+ * refunds show up straight away.
+ */
+export async function getEarningsOverview(
+  instructorId: string,
+  period: EarningsPeriod = 'all',
+  now: Date = new Date()
+): Promise<EarningsOverview> {
+  await syncInstructorEarnings(instructorId);
+
+  const [entries, statements, settings] = await Promise.all([
+    instructorEarningsRepository.getByInstructor(instructorId),
+    instructorPayoutStatementRepository.getByInstructor(instructorId),
+    getRevenueShareSettings(),
+  ]);
+
+  const ledger = entries.map(toLedgerEntry);
+  const paidStatements = statements.filter((statement) => statement.status === 'paid');
+  const paidIds = new Set(paidStatements.map((statement) => statement.id));
+  const since = getPeriodStart(period, now);
+
+  const transactions = [
+    ...entries.map((entry: EarningWithCourse): EarningsTransaction => ({
+      id: entry.id,
+      date: entry.occurred_at,
+      description: entry.description,
+      course_title: entry.course?.title || '-',
+      amount: entry.net_amount,
+      type: entry.entry_type === 'refund' ? 'refund' : 'sale',
+      status: entry.statement_id && paidIds.has(entry.statement_id) ? 'completed' : 'pending',
+    })),
+    ...paidStatements.map((statement): EarningsTransaction => ({
+      id: statement.id,
+      date: statement.paid_at || statement.updated_at || statement.period_end,
+      description: `Payout for ${formatPeriod(statement.period_start)}`,
+      course_title: '-',
+      amount: statement.net_amount,
+      type: 'payout',
+      status: 'completed',
+    })),
+  ]
+    .filter((transaction) => !since || new Date(transaction.date) >= since)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const titles = new Map(entries.map((entry) => [entry.course_id, entry.course?.title]));
+  const courseEarnings = summarizeByCourse(ledger).map((course) => ({
+    ...course,
+    title: titles.get(course.course_id) || 'Untitled course',
+  }));
+
+  return {
+    summary: {
+      ...summarizeEarnings(ledger, paidIds, now),
+      total_sales: ledger.reduce((count, entry) => count + (entry.entry_type === 'sale' ? 1 : -1), 0),
+      total_courses: courseEarnings.length,
+    },
+    transactions,
+    courseEarnings,
+    statements,
+    settings,
+  };
+}
+
+function getPeriodStart(period: EarningsPeriod, now: Date): Date | null {
+  if (period === 'month') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+  if (period === 'week') {
+    return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+  }
+  return null;
+}
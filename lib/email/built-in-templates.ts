@@ -0,0 +1,139 @@
+/**
+ * Built-in Email Templates
+ * Emails sent by emailService that an admin can override from the CMS by
+ * creating an active template with the same slug. Each entry lists the
+ * variables the service passes in; app_url is passed to every template.
+ * Safe to import on the client.
+ */
+
+import type { EmailTemplateCategory } from "@/lib/db/email-templates";
+import type { TemplateVariable } from "./template-engine";
+
+export type BuiltInEmailTemplate =
+  | "welcome"
+  | "payment-confirmation"
+  | "session-reminder"
+  | "session-booking-update"
+  | "password-reset"
+  | "course-completion"
+  | "check-in-reminder"
+  | "notification"
+  | "notification-digest";
+
+export interface BuiltInEmailTemplateDefinition {
+  name: string;
+  category: EmailTemplateCategory;
+  variables: TemplateVariable[];
+}
+
+const appUrl: TemplateVariable = { name: "app_url", description: "Base URL of the app", type: "string" };
+
+export const BUILT_IN_EMAIL_TEMPLATES: Record<BuiltInEmailTemplate, BuiltInEmailTemplateDefinition> = {
+  welcome: {
+    name: "Welcome Email",
+    category: "transactional",
+    variables: [
+      appUrl,
+      { name: "name", description: "Recipient name", type: "string", required: true },
+      { name: "email", description: "Recipient email", type: "string" },
+      { name: "role", description: "Role they signed up as", type: "string" },
+    ],
+  },
+  "payment-confirmation": {
+    name: "Payment Confirmation",
+    category: "transactional",
+    variables: [
+      appUrl,
+      { name: "name", description: "Recipient name", type: "string" },
+      { name: "amount", description: "Amount paid, in major units", type: "number", required: true },
+      { name: "currency", description: "Currency code", type: "string", default: "USD" },
+      { name: "item_type", description: "course, session, subscription or resource", type: "string" },
+      { name: "item_name", description: "What was bought", type: "string", required: true },
+      { name: "payment_id", description: "Payment reference", type: "string" },
+      { name: "invoice_number", description: "Invoice number, if any", type: "string" },
+      { name: "next_billing_date", description: "Next renewal, for subscriptions", type: "date" },
+    ],
+  },
+  "session-reminder": {
+    name: "Session Reminder",
+    category: "notification",
+    variables: [
+      appUrl,
+      { name: "student_name", description: "Student name", type: "string" },
+      { name: "instructor_name", description: "Instructor name", type: "string" },
+      { name: "session_type", description: "Kind of session", type: "string" },
+      { name: "scheduled_at", description: "Start time (UTC)", type: "date", required: true },
+      { name: "duration", description: "Length in minutes", type: "number" },
+      { name: "meeting_link", description: "Video call link, if any", type: "string" },
+      { name: "session_id", description: "Session ID", type: "string" },
+      { name: "is_instructor", description: "Whether the recipient is the instructor", type: "boolean" },
+    ],
+  },
+  "session-booking-update": {
+    name: "Session Booking Update",
+    category: "notification",
+    variables: [
+      appUrl,
+      { name: "recipient_name", description: "Recipient name", type: "string" },
+      { name: "other_party_name", description: "Who the session is with", type: "string" },
+      { name: "is_instructor", description: "Whether the recipient is the instructor", type: "boolean" },
+      { name: "change", description: "booked, rescheduled or cancelled", type: "string", required: true },
+      { name: "scheduled_at", description: "Start time (UTC)", type: "date", required: true },
+      { name: "previous_scheduled_at", description: "Previous start time when rescheduled", type: "date" },
+      { name: "duration", description: "Length in minutes", type: "number" },
+      { name: "timezone", description: "Recipient timezone", type: "string" },
+      { name: "session_id", description: "Session ID", type: "string" },
+      { name: "reason", description: "Reason given for the change", type: "string" },
+      { name: "cancellation_window_hours", description: "Free cancellation window", type: "number" },
+    ],
+  },
+  "password-reset": {
+    name: "Password Reset",
+    category: "system",
+    variables: [
+      appUrl,
+      { name: "name", description: "Recipient name", type: "string" },
+      { name: "reset_link", description: "Password reset URL", type: "string", required: true },
+      { name: "expires_in", description: "Hours until the link expires", type: "number", default: "1" },
+    ],
+  },
+  "course-completion": {
+    name: "Course Completion",
+    category: "transactional",
+    variables: [
+      appUrl,
+      { name: "name", description: "Recipient name", type: "string" },
+      { name: "course_name", description: "Completed course", type: "string", required: true },
+      { name: "completion_date", description: "When it was completed", type: "date" },
+      { name: "certificate_id", description: "Certificate ID, if issued", type: "string" },
+      { name: "grade", description: "Final grade (0-100)", type: "number" },
+      { name: "next_courses", description: "Suggested courses, each with id, title and description", type: "list" },
+    ],
+  },
+  "check-in-reminder": {
+    name: "Check-in Reminder",
+    category: "notification",
+    variables: [appUrl, { name: "name", description: "Recipient name", type: "string" }],
+  },
+  notification: {
+    name: "Notification",
+    category: "notification",
+    variables: [
+      appUrl,
+      { name: "name", description: "Recipient name", type: "string" },
+      { name: "title", description: "Notification title", type: "string", required: true },
+      { name: "message", description: "Notification message", type: "string", required: true },
+      { name: "action_url", description: "Path or URL to open", type: "string" },
+    ],
+  },
+  "notification-digest": {
+    name: "Notification Digest",
+    category: "notification",
+    variables: [
+      appUrl,
+      { name: "name", description: "Recipient name", type: "string" },
+      { name: "frequency", description: "daily or weekly; empty when held for quiet hours", type: "string" },
+      { name: "items", description: "Notifications, each with title, message and action_url", type: "list", required: true },
+    ],
+  },
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { applyDeliveryEvent, parseResendEvent } from "./delivery-events";
+
+describe("applyDeliveryEvent", () => {
+  it("moves a delivery forward", () => {
+    expect(applyDeliveryEvent("queued", "sent")).toBe("sent");
+    expect(applyDeliveryEvent("sent", "delayed")).toBe("delayed");
+    expect(applyDeliveryEvent("delayed", "delivered")).toBe("delivered");
+    expect(applyDeliveryEvent("delivered", "complained")).toBe("complained");
+  });
+
+  it("treats opens and clicks as delivered", () => {
+    expect(applyDeliveryEvent("sent", "opened")).toBe("delivered");
+    expect(applyDeliveryEvent("sent", "clicked")).toBe("delivered");
+  });
+
+  it("never goes back when events arrive out of order", () => {
+    expect(applyDeliveryEvent("bounced", "delivered")).toBe("bounced");
+    expect(applyDeliveryEvent("delivered", "sent")).toBe("delivered");
+    expect(applyDeliveryEvent("delivered", "delayed")).toBe("delivered");
+  });
+});
+
+describe("parseResendEvent", () => {
+  it("reads a hard bounce", () => {
+    const event = parseResendEvent({
+      type: "email.bounced",
+      created_at: "2026-10-19T10:00:00.000Z",
+      data: {
+        email_id: "4ef9a417-02e9-4d39-ad75-9611e0fcc33c",
+        to: ["gone@example.com"],
+        bounce: { type: "Permanent", subType: "General", message: "Mailbox does not exist" },
+      },
+    });
+
+    expect(event).toEqual({
+      providerMessageId: "4ef9a417-02e9-4d39-ad75-9611e0fcc33c",
+      type: "bounced",
+      recipients: ["gone@example.com"],
+      occurredAt: "2026-10-19T10:00:00.000Z",
+      detail: "Permanent · General · Mailbox does not exist",
+      hardBounce: true,
+    });
+  });
+
+  it("does not treat temporary bounces as hard", () => {
+    const event = parseResendEvent({
+      type: "email.bounced",
+      data: { email_id: "abc", to: "full@example.com", bounce: { type: "Transient", subType: "MailboxFull" } },
+    });
+
+    expect(event?.hardBounce).toBe(false);
+    expect(event?.recipients).toEqual(["full@example.com"]);
+  });
+
+  it("keeps the reason for failures", () => {
+    const event = parseResendEvent({
+      type: "email.failed",
+      data: { email_id: "abc", to: ["a@example.com"], failed: { reason: "reached_daily_quota" } },
+    });
+
+    expect(event?.type).toBe("failed");
+    expect(event?.detail).toBe("reached_daily_quota");
+  });
+
+  it("ignores events that aren't about a sent email", () => {
+    expect(parseResendEvent({ type: "contact.created", data: { id: "c1" } })).toBeNull();
+    expect(parseResendEvent({ type: "email.delivered", data: {} })).toBeNull();
+    expect(parseResendEvent(null)).toBeNull();
+  });
+});
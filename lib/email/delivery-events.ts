@@ -0,0 +1,166 @@
+/**
+ * Email Delivery Events
+ * Delivery statuses, how provider events move a delivery between them, and
+ * parsing of Resend webhook payloads. Safe to import on the client.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EmailDeliveryStatus =
+  | "queued"
+  | "sent"
+  | "delayed"
+  | "delivered"
+  | "failed"
+  | "suppressed"
+  | "bounced"
+  | "complained";
+
+export type EmailDeliveryEventType =
+  | "sent"
+  | "delayed"
+  | "delivered"
+  | "opened"
+  | "clicked"
+  | "failed"
+  | "suppressed"
+  | "bounced"
+  | "complained";
+
+/** Delivery event reported by the email provider */
+export interface ProviderDeliveryEvent {
+  providerMessageId: string;
+  type: EmailDeliveryEventType;
+  recipients: string[];
+  occurredAt: string;
+  detail: string | null;
+  /** Permanent bounce: the address should not be mailed again */
+  hardBounce: boolean;
+}
+
+// ============================================================================
+// Statuses
+// ============================================================================
+
+export const EMAIL_DELIVERY_STATUSES: Record<EmailDeliveryStatus, { label: string; description: string }> = {
+  queued: { label: "Queued", description: "Logged, not yet accepted by the transport" },
+  sent: { label: "Sent", description: "Accepted by the transport" },
+  delayed: { label: "Delayed", description: "The receiving server is deferring delivery" },
+  delivered: { label: "Delivered", description: "Accepted by the receiving server" },
+  failed: { label: "Failed", description: "Could not be sent" },
+  suppressed: { label: "Suppressed", description: "Not sent; the address previously hard-bounced" },
+  bounced: { label: "Bounced", description: "Rejected by the receiving server" },
+  complained: { label: "Complained", description: "The recipient marked it as spam" },
+};
+
+/** Status each event moves a delivery to; opens and clicks imply delivery */
+const EVENT_STATUS: Record<EmailDeliveryEventType, EmailDeliveryStatus> = {
+  sent: "sent",
+  delayed: "delayed",
+  delivered: "delivered",
+  opened: "delivered",
+  clicked: "delivered",
+  failed: "failed",
+  suppressed: "suppressed",
+  bounced: "bounced",
+  complained: "complained",
+};
+
+/** Later statuses win, so an out-of-order "delivered" can't hide a bounce */
+const STATUS_RANK: Record<EmailDeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delayed: 2,
+  delivered: 3,
+  failed: 4,
+  suppressed: 4,
+  bounced: 5,
+  complained: 6,
+};
+
+/**
+ * Status of a delivery after an event
+ *
+ * Webhooks can arrive out of order, so an event never moves a delivery back
+ * to an earlier status.
+ */
+export function applyDeliveryEvent(
+  status: EmailDeliveryStatus,
+  event: EmailDeliveryEventType
+): EmailDeliveryStatus {
+  const next = EVENT_STATUS[event];
+  return STATUS_RANK[next] >= STATUS_RANK[status] ? next : status;
+}
+
+// ============================================================================
+// Resend Webhooks
+// ============================================================================
+
+const RESEND_EVENTS: Record<string, EmailDeliveryEventType> = {
+  "email.sent": "sent",
+  "email.delivery_delayed": "delayed",
+  "email.delivered": "delivered",
+  "email.opened": "opened",
+  "email.clicked": "clicked",
+  "email.failed": "failed",
+  "email.bounced": "bounced",
+  "email.complained": "complained",
+};
+
+interface ResendWebhookPayload {
+  type?: unknown;
+  created_at?: unknown;
+  data?: {
+    email_id?: unknown;
+    to?: unknown;
+    bounce?: { type?: unknown; subType?: unknown; message?: unknown };
+    failed?: { reason?: unknown };
+    click?: { link?: unknown };
+  };
+}
+
+const asString = (value: unknown): string | null =>
+  typeof value === "string" && value.length > 0 ? value : null;
+
+/**
+ * Read a verified Resend webhook payload
+ *
+ * @returns The delivery event, or null for events that aren't about a sent
+ * email (contacts, domains, inbound mail)
+ */
+export function parseResendEvent(payload: unknown, now: Date = new Date()): ProviderDeliveryEvent | null {
+  const event = (payload ?? {}) as ResendWebhookPayload;
+  const type = typeof event.type === "string" ? RESEND_EVENTS[event.type] : undefined;
+  const providerMessageId = asString(event.data?.email_id);
+
+  if (!type || !providerMessageId) {
+    return null;
+  }
+
+  const recipients = Array.isArray(event.data?.to)
+    ? event.data.to.filter((to): to is string => typeof to === "string")
+    : asString(event.data?.to)
+      ? [event.data?.to as string]
+      : [];
+
+  const bounce = event.data?.bounce;
+  const detail =
+    type === "bounced"
+      ? [asString(bounce?.type), asString(bounce?.subType), asString(bounce?.message)].filter(Boolean).join(" · ")
+      : type === "failed"
+        ? asString(event.data?.failed?.reason)
+        : type === "clicked"
+          ? asString(event.data?.click?.link)
+          : null;
+
+  return {
+    providerMessageId,
+    type,
+    recipients,
+    occurredAt: asString(event.created_at) ?? now.toISOString(),
+    detail: detail || null,
+    hardBounce: type === "bounced" && bounce?.type === "Permanent",
+  };
+}
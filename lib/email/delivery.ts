@@ -0,0 +1,70 @@
+/**
+ * Email Delivery
+ * Every email goes out through deliverEmail: suppressed addresses are
+ * dropped, the send is logged to email_deliveries, and the configured
+ * transport sends it. Server-only.
+ */
+
+import { emailDeliveryRepository } from "@/lib/db/email-deliveries";
+import { emailPreferencesRepository } from "@/lib/db/email-preferences";
+import { logger } from "@/lib/logging";
+import { getEmailTransport, type EmailMessage, type EmailTransport } from "./transport";
+
+export interface DeliveryResult {
+  success: boolean;
+  data?: { id: string } | null;
+  error?: string | null;
+}
+
+/**
+ * Send an email and log its delivery
+ *
+ * Never throws. Logging problems don't stop the email going out; a
+ * transport failure is logged and returned as an error.
+ *
+ * @param message - Rendered email
+ * @param template - Which email this is (e.g. a template slug), for the log
+ */
+export async function deliverEmail(
+  message: EmailMessage,
+  template: string | null
+): Promise<DeliveryResult> {
+  let transport: EmailTransport;
+  try {
+    transport = getEmailTransport();
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.error("Email transport is not configured", err);
+    return { success: false, error: err.message };
+  }
+
+  const suppressed = await emailPreferencesRepository.getSuppressedAddresses(message.to);
+  const to = message.to.filter((address) => !suppressed.includes(address));
+
+  const delivery = await emailDeliveryRepository
+    .createDelivery({
+      transport: transport.name,
+      template,
+      recipients: message.to,
+      subject: message.subject,
+    })
+    .catch(() => null);
+
+  if (to.length === 0) {
+    const reason = "Recipient address is suppressed after a hard bounce";
+    if (delivery) await emailDeliveryRepository.markNotSent(delivery.id, "suppressed", reason);
+    logger.info("Email not sent to suppressed address", { template });
+    return { success: false, error: reason };
+  }
+
+  try {
+    const { id } = await transport.send({ ...message, to });
+    if (delivery) await emailDeliveryRepository.markSent(delivery.id, id);
+    return { success: true, data: { id } };
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.error("Email send error:", err, { template, transport: transport.name });
+    if (delivery) await emailDeliveryRepository.markNotSent(delivery.id, "failed", err.message);
+    return { success: false, error: err.message };
+  }
+}
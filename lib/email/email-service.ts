@@ -1,11 +1,18 @@
 import { logger } from "@/lib/logging";
 import type { Database, Json } from "@/lib/types/supabase";
 import type { JSXElementConstructor, ReactElement } from "react";
-import { Resend } from "resend";
+import type { BuiltInEmailTemplate } from "./built-in-templates";
+import { deliverEmail } from "./delivery";
+import type { TemplateData } from "./template-engine";
+import type { EmailAttachment } from "./transport";
 import type {
+    CheckInReminderProps,
     CourseCompletionProps,
+    NotificationDigestProps,
+    NotificationEmailProps,
     PasswordResetProps,
     PaymentConfirmationProps,
+    SessionBookingUpdateProps,
     SessionReminderProps,
     WelcomeEmailProps,
 } from "./templates";
@@ -18,20 +25,36 @@ type EmailComponent = ReactElement<
   string | JSXElementConstructor<unknown>
 >;
 
-// Lazy-initialized Resend client to avoid build-time errors
-let _resend: Resend | null = null;
+type ScheduledEmail = Database["public"]["Tables"]["scheduled_emails"]["Row"];
 
-function getResend(): Resend {
-  if (!_resend) {
-    if (!process.env.RESEND_API_KEY) {
-      throw new Error("RESEND_API_KEY is not defined in environment variables");
-    }
-    _resend = new Resend(process.env.RESEND_API_KEY);
-  }
-  return _resend;
+interface EmailContent {
+  subject: string;
+  component: EmailComponent;
 }
 
-type ScheduledEmail = Database["public"]["Tables"]["scheduled_emails"]["Row"];
+/**
+ * Turn component props into template data: camelCase keys become
+ * snake_case, including inside lists, and app_url is added
+ */
+function toTemplateData(props: object): TemplateData {
+  const convert = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(convert);
+    if (value === null || typeof value !== "object" || value instanceof Date) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`),
+        convert(item),
+      ])
+    );
+  };
+
+  return {
+    app_url: process.env.NEXT_PUBLIC_APP_URL,
+    ...(convert(props) as TemplateData),
+  };
+}
 
 interface EmailResult {
   success: boolean;
@@ -45,30 +68,35 @@ class EmailService {
   private replyTo = process.env.EMAIL_REPLY_TO || "support@neuroelemental.com";
 
   private async sendEmail(
+    template: string,
     to: string | string[],
     subject: string,
-    component: EmailComponent
+    body: { react: EmailComponent } | { html: string; text?: string },
+    attachments?: EmailAttachment[]
   ): Promise<EmailResult> {
     try {
-      // Resend handles React components directly
-      const { data, error } = await getResend().emails.send({
-        from: this.from,
-        to,
-        subject,
-        react: component,
-        replyTo: this.replyTo,
-      });
-
-      if (error) {
-        logger.error("Email send error:", error as Error);
-        return { success: false, error };
+      let content: { html: string; text?: string };
+      if ("react" in body) {
+        const { render } = await import("@react-email/render");
+        content = {
+          html: await render(body.react),
+          text: await render(body.react, { plainText: true }),
+        };
+      } else {
+        content = body;
       }
 
-      logger.info(
-        "Email sent successfully:",
-        data as unknown as Record<string, unknown>
+      return await deliverEmail(
+        {
+          from: this.from,
+          to: Array.isArray(to) ? to : [to],
+          subject,
+          ...content,
+          replyTo: this.replyTo,
+          attachments,
+        },
+        template
       );
-      return { success: true, data };
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       logger.error("Email service error:", err);
@@ -76,15 +104,63 @@ class EmailService {
     }
   }
 
+  /**
+   * Send a built-in email, preferring an active CMS template with the same
+   * slug. Falls back to the React component when there is no override or
+   * it can't be rendered (missing required data, broken template).
+   */
+  private async sendTemplate(
+    slug: BuiltInEmailTemplate,
+    to: string,
+    data: TemplateData,
+    builtIn: () => Promise<EmailContent>,
+    attachments?: EmailAttachment[]
+  ): Promise<EmailResult> {
+    try {
+      const { emailTemplatesRepository } = await import(
+        "@/lib/db/email-templates"
+      );
+      const override = await emailTemplatesRepository.render(slug, data);
+      if (override) {
+        return this.sendEmail(
+          slug,
+          to,
+          override.subject,
+          { html: override.html, text: override.text || undefined },
+          attachments
+        );
+      }
+    } catch (error) {
+      logger.warn(`Email template override "${slug}" not used`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const { subject, component } = await builtIn();
+    return this.sendEmail(
+      slug,
+      to,
+      subject,
+      { react: component },
+      attachments
+    );
+  }
+
   async sendWelcomeEmail(
     email: string,
     props: Omit<WelcomeEmailProps, "email">
   ): Promise<EmailResult> {
-    const { WelcomeEmail } = await import("./templates");
-    return this.sendEmail(
+    return this.sendTemplate(
+      "welcome",
       email,
-      `Welcome to NeuroElemental, ${props.name}!`,
-      WelcomeEmail({ ...props, email }) as EmailComponent
+      toTemplateData({ ...props, email }),
+      async () => {
+        const { WelcomeEmail } = await import("./templates");
+        return {
+          subject: `Welcome to NeuroElemental, ${props.name}!`,
+          component: WelcomeEmail({ ...props, email }) as EmailComponent,
+        };
+      }
     );
   }
 
@@ -92,11 +168,17 @@ class EmailService {
     email: string,
     props: PaymentConfirmationProps
   ): Promise<EmailResult> {
-    const { PaymentConfirmationEmail } = await import("./templates");
-    return this.sendEmail(
+    return this.sendTemplate(
+      "payment-confirmation",
       email,
-      `Payment Confirmation - ${props.itemName}`,
-      PaymentConfirmationEmail(props) as EmailComponent
+      toTemplateData(props),
+      async () => {
+        const { PaymentConfirmationEmail } = await import("./templates");
+        return {
+          subject: `Payment Confirmation - ${props.itemName}`,
+          component: PaymentConfirmationEmail(props) as EmailComponent,
+        };
+      }
     );
   }
 
@@ -104,15 +186,52 @@ class EmailService {
     email: string,
     props: SessionReminderProps
   ): Promise<EmailResult> {
-    const { SessionReminderEmail } = await import("./templates");
-    const timeStr = props.scheduledAt.toLocaleTimeString("en-US", {
-      hour: "numeric",
-      minute: "2-digit",
-    });
-    return this.sendEmail(
+    return this.sendTemplate(
+      "session-reminder",
+      email,
+      toTemplateData(props),
+      async () => {
+        const { SessionReminderEmail } = await import("./templates");
+        const timeStr = props.scheduledAt.toLocaleTimeString("en-US", {
+          hour: "numeric",
+          minute: "2-digit",
+        });
+        return {
+          subject: `Reminder: Your session is tomorrow at ${timeStr}`,
+          component: SessionReminderEmail(props) as EmailComponent,
+        };
+      }
+    );
+  }
+
+  async sendSessionBookingUpdate(
+    email: string,
+    props: SessionBookingUpdateProps,
+    ics: string
+  ): Promise<EmailResult> {
+    return this.sendTemplate(
+      "session-booking-update",
       email,
-      `Reminder: Your session is tomorrow at ${timeStr}`,
-      SessionReminderEmail(props) as EmailComponent
+      toTemplateData(props),
+      async () => {
+        const { SessionBookingUpdateEmail } = await import("./templates");
+        const subjects = {
+          booked: `Session booked with ${props.otherPartyName}`,
+          rescheduled: `Session with ${props.otherPartyName} rescheduled`,
+          cancelled: `Session with ${props.otherPartyName} cancelled`,
+        };
+        return {
+          subject: subjects[props.change],
+          component: SessionBookingUpdateEmail(props) as EmailComponent,
+        };
+      },
+      [
+        {
+          filename: props.change === "cancelled" ? "cancel.ics" : "invite.ics",
+          content: ics,
+          contentType: `text/calendar; method=${props.change === "cancelled" ? "CANCEL" : "REQUEST"}`,
+        },
+      ]
     );
   }
 
@@ -120,11 +239,21 @@ class EmailService {
     email: string,
     props: PasswordResetProps
   ): Promise<EmailResult> {
-    const { PasswordResetEmail } = await import("./templates");
-    return this.sendEmail(
+    return this.sendTemplate(
+      "password-reset",
       email,
-      "Reset Your NeuroElemental Password",
-      PasswordResetEmail(props) as EmailComponent
+      toTemplateData({
+        name: props.name,
+        resetLink: `${process.env.NEXT_PUBLIC_APP_URL}/auth/reset-password?token=${props.resetToken}`,
+        expiresIn: props.expiresIn,
+      }),
+      async () => {
+        const { PasswordResetEmail } = await import("./templates");
+        return {
+          subject: "Reset Your NeuroElemental Password",
+          component: PasswordResetEmail(props) as EmailComponent,
+        };
+      }
     );
   }
 
@@ -132,11 +261,74 @@ class EmailService {
     email: string,
     props: CourseCompletionProps
   ): Promise<EmailResult> {
-    const { CourseCompletionEmail } = await import("./templates");
-    return this.sendEmail(
+    return this.sendTemplate(
+      "course-completion",
+      email,
+      toTemplateData(props),
+      async () => {
+        const { CourseCompletionEmail } = await import("./templates");
+        return {
+          subject: `Congratulations! You've completed ${props.courseName}`,
+          component: CourseCompletionEmail(props) as EmailComponent,
+        };
+      }
+    );
+  }
+
+  async sendCheckInReminder(
+    email: string,
+    props: CheckInReminderProps
+  ): Promise<EmailResult> {
+    return this.sendTemplate(
+      "check-in-reminder",
+      email,
+      toTemplateData(props),
+      async () => {
+        const { CheckInReminderEmail } = await import("./templates");
+        return {
+          subject: "Time for your daily check-in",
+          component: CheckInReminderEmail(props) as EmailComponent,
+        };
+      }
+    );
+  }
+
+  async sendNotification(
+    email: string,
+    props: NotificationEmailProps
+  ): Promise<EmailResult> {
+    return this.sendTemplate(
+      "notification",
       email,
-      `Congratulations! You've completed ${props.courseName}`,
-      CourseCompletionEmail(props) as EmailComponent
+      toTemplateData(props),
+      async () => {
+        const { NotificationEmail } = await import("./templates");
+        return {
+          subject: props.title,
+          component: NotificationEmail(props) as EmailComponent,
+        };
+      }
+    );
+  }
+
+  async sendNotificationDigest(
+    email: string,
+    props: NotificationDigestProps
+  ): Promise<EmailResult> {
+    return this.sendTemplate(
+      "notification-digest",
+      email,
+      toTemplateData(props),
+      async () => {
+        const { NotificationDigestEmail } = await import("./templates");
+        const count = props.items.length;
+        return {
+          subject: props.frequency
+            ? `Your ${props.frequency} digest: ${count} new notification${count === 1 ? "" : "s"}`
+            : `You have ${count} new notification${count === 1 ? "" : "s"}`,
+          component: NotificationDigestEmail(props) as EmailComponent,
+        };
+      }
     );
   }
 
@@ -182,26 +374,7 @@ class EmailService {
       </div>
     `;
 
-    try {
-      const { data, error } = await getResend().emails.send({
-        from: this.from,
-        to: email,
-        subject,
-        html,
-        replyTo: this.replyTo,
-      });
-
-      if (error) {
-        logger.error("Payment failed email error:", error as Error);
-        return { success: false, error };
-      }
-
-      return { success: true, data };
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      logger.error("Email service error:", err);
-      return { success: false, error: err.message };
-    }
+    return this.sendEmail("payment-failed", email, subject, { html });
   }
 
   // Batch email sending for notifications
@@ -297,11 +470,13 @@ class EmailService {
       const { createAdminClient } = await import("@/lib/supabase/admin");
       const supabase = createAdminClient();
 
-      // Get pending emails scheduled for now or past
+      // Get pending emails scheduled for now or past; campaign steps are
+      // sent by the campaign runner
       const { data: emails, error } = await (supabase as any)
         .from("scheduled_emails")
         .select("*")
         .eq("status", "pending")
+        .is("campaign_enrollment_id", null)
         .lte("scheduled_for", new Date().toISOString())
         .limit(50) as { data: ScheduledEmail[] | null; error: Error | null };
 
@@ -473,10 +648,14 @@ export const emailService = new EmailService();
 
 // Export types
 export type {
+    CheckInReminderProps,
     CourseCompletionProps,
     EmailResult,
+    NotificationDigestProps,
+    NotificationEmailProps,
     PasswordResetProps,
     PaymentConfirmationProps,
+    SessionBookingUpdateProps,
     SessionReminderProps,
     WelcomeEmailProps
 };
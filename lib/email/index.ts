@@ -1,15 +1,20 @@
 /**
  * Email Barrel Export
- * Centralized exports for email service and sending functions
+ * Centralized exports for email service, sending functions, transports,
+ * delivery tracking and the template engine used for admin-edited templates
  */
 
 // Email service class for complex email operations
 export {
   emailService,
+  type CheckInReminderProps,
   type CourseCompletionProps,
   type EmailResult,
+  type NotificationDigestProps,
+  type NotificationEmailProps,
   type PasswordResetProps,
   type PaymentConfirmationProps,
+  type SessionBookingUpdateProps,
   type SessionReminderProps,
   type WelcomeEmailProps,
 } from './email-service'
@@ -23,4 +28,51 @@ export {
   sendCreditsPurchased,
   sendDataDeletionConfirmation,
   sendLowCreditsWarning,
+  sendLearningAssignmentDue,
 } from './send'
+
+// Transports and delivery logging (server-only)
+export { deliverEmail, type DeliveryResult } from './delivery'
+export {
+  EMAIL_TRANSPORTS,
+  getEmailTransport,
+  type EmailAttachment,
+  type EmailMessage,
+  type EmailTransport,
+  type EmailTransportName,
+} from './transport'
+export { readOutbox, type OutboxEntry } from './transports/outbox'
+
+// Delivery statuses and provider webhook events (client-safe)
+export {
+  EMAIL_DELIVERY_STATUSES,
+  applyDeliveryEvent,
+  parseResendEvent,
+  type EmailDeliveryEventType,
+  type EmailDeliveryStatus,
+  type ProviderDeliveryEvent,
+} from './delivery-events'
+
+// Template engine for admin-edited templates (client-safe)
+export {
+  TEMPLATE_FILTERS,
+  TemplateSyntaxError,
+  escapeHtml,
+  normalizeTemplateVariables,
+  parseTemplate,
+  prepareTemplateData,
+  renderTemplate,
+  validateTemplate,
+  type RenderOptions,
+  type TemplateData,
+  type TemplateIssue,
+  type TemplateVariable,
+  type TemplateVariableType,
+} from './template-engine'
+
+// Built-in emails that CMS templates can override
+export {
+  BUILT_IN_EMAIL_TEMPLATES,
+  type BuiltInEmailTemplate,
+  type BuiltInEmailTemplateDefinition,
+} from './built-in-templates'
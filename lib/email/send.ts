@@ -1,31 +1,19 @@
 /**
  * Email Service
- * Send transactional emails using Resend and React Email templates
+ * Send transactional emails rendered from React Email templates through the
+ * configured transport
  */
 
 import LowCreditsWarningEmail from "@/emails/low-credits-warning";
 import { CreditsPurchasedEmail } from "@/emails/templates/credits-purchased";
 import { DataDeletionConfirmationEmail } from "@/emails/templates/data-deletion-confirmation";
+import { LearningAssignmentDueEmail } from "@/emails/templates/learning-assignment-due";
 import { OrganizationInvitationEmail } from "@/emails/templates/organization-invitation";
 import { RoleChangedEmail } from "@/emails/templates/role-changed";
 import { WaitlistConfirmationEmail } from "@/emails/templates/waitlist-confirmation";
 import { WelcomeToOrganizationEmail } from "@/emails/templates/welcome-to-organization";
-import { logger } from "@/lib/logging";
 import { render } from "@react-email/render";
-import { Resend } from "resend";
-
-// Lazy-initialized Resend client to avoid build-time errors
-let _resend: Resend | null = null;
-
-function getResend(): Resend {
-  if (!_resend) {
-    if (!process.env.RESEND_API_KEY) {
-      throw new Error("RESEND_API_KEY is not defined in environment variables");
-    }
-    _resend = new Resend(process.env.RESEND_API_KEY);
-  }
-  return _resend;
-}
+import { deliverEmail } from "./delivery";
 
 const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || "noreply@neuroelement.al";
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
@@ -52,25 +40,15 @@ export async function sendOrganizationInvitation(params: {
     })
   );
 
-  try {
-    const { data, error } = await getResend().emails.send({
+  return deliverEmail(
+    {
       from: FROM_EMAIL,
-      to: params.to,
+      to: [params.to],
       subject: `You've been invited to join ${params.organizationName}`,
       html: emailHtml,
-    });
-
-    if (error) {
-      logger.error("Error sending organization invitation:", error as Error);
-      return { success: false, error };
-    }
-
-    return { success: true, data };
-  } catch (error) {
-    const err = error instanceof Error ? error : new Error(String(error));
-    logger.error("Error in sendOrganizationInvitation:", err as Error);
-    return { success: false, error };
-  }
+    },
+    "organization-invitation"
+  );
 }
 
 /**
@@ -94,24 +72,15 @@ export async function sendWelcomeToOrganization(params: {
     })
   );
 
-  try {
-    const { data, error } = await getResend().emails.send({
+  return deliverEmail(
+    {
       from: FROM_EMAIL,
-      to: params.to,
+      to: [params.to],
       subject: `Welcome to ${params.organizationName}!`,
       html: emailHtml,
-    });
-
-    if (error) {
-      logger.error("Error sending welcome email:", error as Error);
-      return { success: false, error };
-    }
-
-    return { success: true, data };
-  } catch (error) {
-    logger.error("Error in sendWelcomeToOrganization:", error as Error);
-    return { success: false, error };
-  }
+    },
+    "welcome-to-organization"
+  );
 }
 
 /**
@@ -139,24 +108,15 @@ export async function sendRoleChanged(params: {
     })
   );
 
-  try {
-    const { data, error } = await getResend().emails.send({
+  return deliverEmail(
+    {
       from: FROM_EMAIL,
-      to: params.to,
+      to: [params.to],
       subject: `Your role in ${params.organizationName} has been updated`,
       html: emailHtml,
-    });
-
-    if (error) {
-      logger.error("Error sending role change email:", error as Error);
-      return { success: false, error };
-    }
-
-    return { success: true, data };
-  } catch (error) {
-    logger.error("Error in sendRoleChanged:", error as Error);
-    return { success: false, error };
-  }
+    },
+    "role-changed"
+  );
 }
 
 /**
@@ -175,26 +135,17 @@ export async function sendWaitlistConfirmation(params: {
     })
   );
 
-  try {
-    const { data, error } = await getResend().emails.send({
+  return deliverEmail(
+    {
       from: FROM_EMAIL,
-      to: params.to,
+      to: [params.to],
       subject: params.courseName
         ? `You're on the waitlist for ${params.courseName}`
         : "You're on our waitlist!",
       html: emailHtml,
-    });
-
-    if (error) {
-      logger.error("Error sending waitlist confirmation:", error as Error);
-      return { success: false, error };
-    }
-
-    return { success: true, data };
-  } catch (error) {
-    logger.error("Error in sendWaitlistConfirmation:", error as Error);
-    return { success: false, error };
-  }
+    },
+    "waitlist-confirmation"
+  );
 }
 
 /**
@@ -222,24 +173,15 @@ export async function sendCreditsPurchased(params: {
     })
   );
 
-  try {
-    const { data, error } = await getResend().emails.send({
+  return deliverEmail(
+    {
       from: FROM_EMAIL,
-      to: params.to,
+      to: [params.to],
       subject: `Credits added to ${params.organizationName}`,
       html: emailHtml,
-    });
-
-    if (error) {
-      logger.error("Error sending credits purchased email:", error as Error);
-      return { success: false, error };
-    }
-
-    return { success: true, data };
-  } catch (error) {
-    logger.error("Error in sendCreditsPurchased:", error as Error);
-    return { success: false, error };
-  }
+    },
+    "credits-purchased"
+  );
 }
 
 /**
@@ -266,24 +208,15 @@ export async function sendDataDeletionConfirmation(params: {
       ? "Confirm Your Account Deletion Request"
       : "Confirm Your Data Deletion Request";
 
-  try {
-    const { data, error } = await getResend().emails.send({
+  return deliverEmail(
+    {
       from: FROM_EMAIL,
-      to: params.to,
+      to: [params.to],
       subject,
       html: emailHtml,
-    });
-
-    if (error) {
-      logger.error("Error sending data deletion confirmation:", error as Error);
-      return { success: false, error };
-    }
-
-    return { success: true, data };
-  } catch (error) {
-    logger.error("Error in sendDataDeletionConfirmation:", error as Error);
-    return { success: false, error };
-  }
+    },
+    "data-deletion-confirmation"
+  );
 }
 
 /**
@@ -309,22 +242,62 @@ export async function sendLowCreditsWarning(params: {
     })
   );
 
-  try {
-    const { data, error } = await getResend().emails.send({
+  return deliverEmail(
+    {
       from: FROM_EMAIL,
-      to: params.to,
+      to: [params.to],
       subject: `Low credit balance for ${params.organizationName}`,
       html: emailHtml,
-    });
+    },
+    "low-credits-warning"
+  );
+}
 
-    if (error) {
-      logger.error("Error sending low credits warning:", error as Error);
-      return { success: false, error };
-    }
+/**
+ * Send a learning assignment reminder before its due date, or the overdue notice
+ */
+export async function sendLearningAssignmentDue(params: {
+  to: string;
+  userName: string;
+  organizationName: string;
+  assignmentTitle: string;
+  notice: "reminder" | "overdue";
+  dueAt: string;
+  daysLeft: number;
+  message?: string | null;
+  /** App path of the assigned content */
+  contentPath: string;
+}) {
+  const dueDate = new Date(params.dueAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
 
-    return { success: true, data };
-  } catch (error) {
-    logger.error("Error in sendLowCreditsWarning:", error as Error);
-    return { success: false, error };
-  }
+  const emailHtml = await render(
+    LearningAssignmentDueEmail({
+      userName: params.userName,
+      organizationName: params.organizationName,
+      assignmentTitle: params.assignmentTitle,
+      notice: params.notice,
+      dueDate,
+      daysLeft: params.daysLeft,
+      message: params.message,
+      actionUrl: `${APP_URL}${params.contentPath}`,
+    })
+  );
+
+  return deliverEmail(
+    {
+      from: FROM_EMAIL,
+      to: [params.to],
+      subject:
+        params.notice === "overdue"
+          ? `Overdue: ${params.assignmentTitle}`
+          : `Reminder: ${params.assignmentTitle} is due ${dueDate}`,
+      html: emailHtml,
+    },
+    "learning-assignment-due"
+  );
 }
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  TemplateSyntaxError,
+  normalizeTemplateVariables,
+  prepareTemplateData,
+  renderTemplate,
+  validateTemplate,
+  type TemplateVariable,
+} from "./template-engine";
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+describe("renderTemplate", () => {
+  it("escapes values unless they use triple braces", () => {
+    const data = { name: '<b>Ada</b> & "co"' };
+
+    expect(renderTemplate("Hi {{name}}", data)).toBe("Hi &lt;b&gt;Ada&lt;/b&gt; &amp; &quot;co&quot;");
+    expect(renderTemplate("Hi {{{name}}}", data)).toBe('Hi <b>Ada</b> & "co"');
+    expect(renderTemplate("Hi {{name}}", data, { escape: false })).toBe('Hi <b>Ada</b> & "co"');
+  });
+
+  it("renders missing values as empty and skips comments", () => {
+    expect(renderTemplate("[{{missing.deep}}]{{! note to editors }}", {})).toBe("[]");
+  });
+
+  it("applies filters in order", () => {
+    const data = { name: "", course: "intro to focus", amount: 1234.5, starts: "2026-03-05T12:00:00Z" };
+
+    expect(renderTemplate('{{name | default:"there" | upper}}', data)).toBe("THERE");
+    expect(renderTemplate("{{course | capitalize}}", data)).toBe("Intro to focus");
+    expect(renderTemplate('{{amount | currency:"eur"}}', data)).toBe("€1,234.50");
+    expect(renderTemplate("{{amount | currency}}", data)).toBe("$1,234.50");
+    expect(renderTemplate('{{starts | date:"long"}}', data)).toBe("Thursday, March 5, 2026");
+    expect(renderTemplate("{{course | truncate:8}}", data)).toBe("intro t…");
+  });
+
+  it("lets filter values come from other variables", () => {
+    expect(renderTemplate("{{amount | currency:code}}", { amount: 5, code: "GBP" })).toBe("£5.00");
+  });
+
+  it("renders conditionals with else branches", () => {
+    const template = "{{#if coupon}}Use {{coupon}}{{else}}No coupon{{/if}}";
+
+    expect(renderTemplate(template, { coupon: "SAVE10" })).toBe("Use SAVE10");
+    expect(renderTemplate(template, { coupon: "" })).toBe("No coupon");
+    expect(renderTemplate("{{#if items}}some{{else}}none{{/if}}", { items: [] })).toBe("none");
+  });
+
+  it("loops over lists with item fields, outer variables and loop metadata", () => {
+    const template =
+      "{{#each courses}}{{@index}}. {{title}} for {{name}}{{#if @last}}.{{else}}, {{/if}}{{else}}Nothing yet{{/each}}";
+
+    expect(renderTemplate(template, { name: "Ada", courses: [{ title: "A" }, { title: "B" }] }))
+      .toBe("0. A for Ada, 1. B for Ada.");
+    expect(renderTemplate(template, { courses: [] })).toBe("Nothing yet");
+    expect(renderTemplate("{{#each tags}}<{{this}}>{{/each}}", { tags: ["x", "y"] }, { escape: false }))
+      .toBe("<x><y>");
+  });
+
+  it("throws a syntax error with the line number", () => {
+    expect(() => renderTemplate("line one\n{{#if a}}never closed", {})).toThrow(TemplateSyntaxError);
+    expect(() => renderTemplate("line one\n{{#if a}}never closed", {})).toThrow("(line 2)");
+    expect(() => renderTemplate("{{name | shout}}", {})).toThrow('Unknown filter "shout"');
+    expect(() => renderTemplate("{{/each}}", {})).toThrow("without a matching");
+  });
+});
+
+// ============================================================================
+// Variables
+// ============================================================================
+
+describe("prepareTemplateData", () => {
+  const variables: TemplateVariable[] = [
+    { name: "name", description: "Recipient", default: "there" },
+    { name: "link", description: "Action link", required: true },
+    { name: "coupon", description: "Optional coupon" },
+  ];
+
+  it("fills defaults and reports missing required values", () => {
+    expect(prepareTemplateData(variables, { name: "" })).toEqual({
+      data: { name: "there" },
+      missing: ["link"],
+    });
+  });
+});
+
+describe("normalizeTemplateVariables", () => {
+  it("accepts the older list-of-names format", () => {
+    expect(normalizeTemplateVariables(["name", { name: "link", description: "Link", required: true }, 3]))
+      .toEqual([
+        { name: "name", description: "" },
+        { name: "link", description: "Link", required: true },
+      ]);
+    expect(normalizeTemplateVariables(null)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe("validateTemplate", () => {
+  const variables: TemplateVariable[] = [
+    { name: "name", description: "Recipient" },
+    { name: "courses", description: "Courses", type: "list" },
+    { name: "total", description: "Total", type: "number" },
+  ];
+
+  it("accepts templates that only use declared variables", () => {
+    expect(
+      validateTemplate(
+        {
+          subject: "Hi {{name}}",
+          html_content: "{{#each courses}}{{title}} ({{@index}}){{/each}} {{total | currency}}",
+        },
+        variables
+      )
+    ).toEqual([]);
+  });
+
+  it("reports undeclared variables, misplaced loop references and non-list loops", () => {
+    const issues = validateTemplate(
+      { html_content: "{{coupon}}\n{{this}}\n{{#each total}}x{{/each}}", text_content: null },
+      variables
+    );
+
+    expect(issues).toEqual([
+      { field: "html_content", message: 'Unknown variable "coupon"', line: 1 },
+      { field: "html_content", message: "{{this}} can only be used inside {{#each}}", line: 2 },
+      { field: "html_content", message: '"total" is a number, so it can\'t be used with {{#each}}', line: 3 },
+    ]);
+  });
+
+  it("reports syntax errors and bad declarations", () => {
+    const issues = validateTemplate({ subject: "{{#if name}}" }, [
+      ...variables,
+      { name: "name", description: "Again" },
+      { name: "first-name", description: "Dashed" },
+    ]);
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      '"name" is declared more than once',
+      '"first-name" is not a valid variable name',
+      "{{#if name}} is never closed (line 1)",
+    ]);
+  });
+});
@@ -0,0 +1,627 @@
+/**
+ * Email Template Engine
+ * Renders admin-edited email templates. {{name}} outputs are HTML-escaped
+ * unless written as {{{name}}}, values can be piped through filters
+ * ({{amount | currency:"EUR"}}), and {{#if}} / {{#each}} blocks cover
+ * optional sections and lists. Safe to import on the client.
+ */
+
+import { DATE_FORMATS, formatDate, formatDateTime } from "@/lib/utils/date-formatting";
+import { formatCurrency, formatNumber } from "@/lib/utils/formatting";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TemplateVariableType = "string" | "number" | "boolean" | "date" | "list";
+
+/** Variable a template declares it can use */
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  type?: TemplateVariableType;
+  required?: boolean;
+  /** Used when the value is missing or empty */
+  default?: string;
+}
+
+export type TemplateData = Record<string, unknown>;
+
+export interface RenderOptions {
+  /** HTML-escape {{value}} outputs (default true); off for subjects and plain text */
+  escape?: boolean;
+}
+
+/** Problem found while validating a template before it is saved */
+export interface TemplateIssue {
+  field: string;
+  message: string;
+  line?: number;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(`${message} (line ${line})`);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+type FilterArgument =
+  | { kind: "literal"; value: string | number }
+  | { kind: "path"; path: string };
+
+interface FilterCall {
+  name: string;
+  argument: FilterArgument | null;
+}
+
+interface Expression {
+  path: string;
+  filters: FilterCall[];
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "output"; expression: Expression; raw: boolean; line: number }
+  | { type: "if"; path: string; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+  | { type: "each"; path: string; body: TemplateNode[]; otherwise: TemplateNode[]; line: number };
+
+type BlockNode = Extract<TemplateNode, { type: "if" | "each" }>;
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+const DATE_STYLES: Record<string, (value: Date) => string> = {
+  short: (value) => formatDate(value, DATE_FORMATS.SHORT),
+  long: (value) => formatDate(value, DATE_FORMATS.LONG),
+  numeric: (value) => formatDate(value, DATE_FORMATS.NUMERIC),
+  time: (value) => value.toLocaleTimeString("en-US", DATE_FORMATS.TIME),
+  datetime: (value) => formatDateTime(value),
+};
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function toDate(value: unknown): Date | null {
+  if (!(value instanceof Date) && typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function toNumber(value: unknown): number | null {
+  if (isEmpty(value) || typeof value === "boolean") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+interface FilterDefinition {
+  description: string;
+  argument: "none" | "optional" | "required";
+  apply: (value: unknown, argument: unknown) => unknown;
+}
+
+/** Filters available after a pipe, e.g. {{name | default:"there"}} */
+export const TEMPLATE_FILTERS: Record<string, FilterDefinition> = {
+  default: {
+    description: "Fallback when the value is empty",
+    argument: "required",
+    apply: (value, fallback) => (isEmpty(value) ? fallback : value),
+  },
+  upper: {
+    description: "UPPERCASE",
+    argument: "none",
+    apply: (value) => toText(value).toUpperCase(),
+  },
+  lower: {
+    description: "lowercase",
+    argument: "none",
+    apply: (value) => toText(value).toLowerCase(),
+  },
+  capitalize: {
+    description: "Capitalize the first letter",
+    argument: "none",
+    apply: (value) => {
+      const text = toText(value);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+  },
+  truncate: {
+    description: "Shorten to at most N characters",
+    argument: "required",
+    apply: (value, length) => {
+      const text = toText(value);
+      const max = toNumber(length) ?? text.length;
+      return text.length > max ? `${text.slice(0, Math.max(0, max - 1)).trimEnd()}…` : text;
+    },
+  },
+  date: {
+    description: 'Format a date: "short" (default), "long", "numeric", "time" or "datetime"',
+    argument: "optional",
+    apply: (value, style) => {
+      const date = toDate(value);
+      if (!date) return "";
+      const format = DATE_STYLES[toText(style)] ?? DATE_STYLES.short;
+      return format(date);
+    },
+  },
+  currency: {
+    description: 'Format an amount as money, e.g. currency:"EUR" (default USD)',
+    argument: "optional",
+    apply: (value, code) => {
+      const amount = toNumber(value);
+      if (amount === null) return "";
+      const currency = isEmpty(code) ? "USD" : toText(code).toUpperCase();
+      try {
+        return formatCurrency(amount, currency);
+      } catch {
+        return `${currency} ${amount.toFixed(2)}`;
+      }
+    },
+  },
+  number: {
+    description: "Format a number with thousands separators, optionally with N decimals",
+    argument: "optional",
+    apply: (value, decimals) => {
+      const number = toNumber(value);
+      return number === null ? "" : formatNumber(number, toNumber(decimals) ?? 0);
+    },
+  },
+  size: {
+    description: "Number of items in a list, or characters in text",
+    argument: "none",
+    apply: (value) => (Array.isArray(value) ? value.length : toText(value).length),
+  },
+  join: {
+    description: 'Join a list, e.g. join:" / " (default ", ")',
+    argument: "optional",
+    apply: (value, separator) =>
+      Array.isArray(value) ? value.map(toText).join(isEmpty(separator) ? ", " : toText(separator)) : value,
+  },
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const TAG_PATTERN = /\{\{\{\s*([\s\S]*?)\s*\}\}\}|\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(?:@index|@first|@last|this(?:\.[A-Za-z_]\w*)*|[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)$/;
+const FILTER_PATTERN = /^([a-z]+)(?:\s*:\s*([\s\S]+))?$/;
+
+function lineAt(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (source.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+/** Split on pipes that are not inside quotes */
+function splitPipes(content: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (const char of content) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "|") {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+function parsePath(path: string, line: number): string {
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateSyntaxError(`Invalid variable "${path}"`, line);
+  }
+  return path;
+}
+
+function parseArgument(raw: string, line: number): FilterArgument {
+  const quoted = raw.match(/^(["'])([\s\S]*)\1$/);
+  if (quoted) return { kind: "literal", value: quoted[2] };
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return { kind: "literal", value: Number(raw) };
+  return { kind: "path", path: parsePath(raw, line) };
+}
+
+function parseExpression(content: string, line: number): Expression {
+  const [path, ...filters] = splitPipes(content);
+
+  return {
+    path: parsePath(path, line),
+    filters: filters.map((filter) => {
+      const match = filter.match(FILTER_PATTERN);
+      const definition = match ? TEMPLATE_FILTERS[match[1]] : undefined;
+      if (!match || !definition) {
+        throw new TemplateSyntaxError(`Unknown filter "${filter.split(":")[0].trim()}"`, line);
+      }
+
+      const argument = match[2] ? parseArgument(match[2].trim(), line) : null;
+      if (definition.argument === "required" && !argument) {
+        throw new TemplateSyntaxError(`Filter "${match[1]}" needs a value, e.g. ${match[1]}:"..."`, line);
+      }
+      if (definition.argument === "none" && argument) {
+        throw new TemplateSyntaxError(`Filter "${match[1]}" does not take a value`, line);
+      }
+
+      return { name: match[1], argument };
+    }),
+  };
+}
+
+/**
+ * Parse a template into a tree
+ *
+ * @throws TemplateSyntaxError for unknown filters, bad variable names and
+ * unbalanced {{#if}} / {{#each}} blocks
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; inElse: boolean }> = [];
+  const target = () => {
+    const frame = stack[stack.length - 1];
+    if (!frame) return root;
+    if (frame.inElse) return frame.node.otherwise;
+    return frame.node.type === "if" ? frame.node.then : frame.node.body;
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    const line = lineAt(source, index);
+
+    if (index > cursor) {
+      target().push({ type: "text", value: source.slice(cursor, index) });
+    }
+    cursor = index + match[0].length;
+
+    if (match[1] !== undefined) {
+      target().push({ type: "output", expression: parseExpression(match[1], line), raw: true, line });
+      continue;
+    }
+
+    const tag = match[2];
+    if (tag.startsWith("!")) continue;
+
+    const block = tag.match(/^#(if|each)\s+([\s\S]+)$/);
+    if (block) {
+      const path = parsePath(block[2].trim(), line);
+      const node: BlockNode = block[1] === "if"
+        ? { type: "if", path, then: [], otherwise: [], line }
+        : { type: "each", path, body: [], otherwise: [], line };
+      target().push(node);
+      stack.push({ node, inElse: false });
+      continue;
+    }
+
+    if (tag === "else") {
+      const frame = stack[stack.length - 1];
+      if (!frame || frame.inElse) {
+        throw new TemplateSyntaxError("{{else}} without a matching {{#if}} or {{#each}}", line);
+      }
+      frame.inElse = true;
+      continue;
+    }
+
+    const close = tag.match(/^\/(if|each)$/);
+    if (close) {
+      const frame = stack.pop();
+      if (!frame || frame.node.type !== close[1]) {
+        throw new TemplateSyntaxError(`{{/${close[1]}}} without a matching {{#${close[1]}}}`, line);
+      }
+      continue;
+    }
+
+    if (tag.startsWith("#") || tag.startsWith("/")) {
+      throw new TemplateSyntaxError(`Unknown block "${tag}"`, line);
+    }
+
+    target().push({ type: "output", expression: parseExpression(tag, line), raw: false, line });
+  }
+
+  const open = stack.pop();
+  if (open) {
+    throw new TemplateSyntaxError(`{{#${open.node.type} ${open.node.path}}} is never closed`, open.node.line);
+  }
+
+  if (cursor < source.length) {
+    root.push({ type: "text", value: source.slice(cursor) });
+  }
+
+  return root;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+interface Scope {
+  value: unknown;
+  index?: number;
+  length?: number;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function toText(value: unknown): string {
+  if (isEmpty(value)) return "";
+  if (value instanceof Date) return formatDate(value);
+  if (Array.isArray(value)) return value.map(toText).join(", ");
+  if (typeof value === "object") return "";
+  return String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function getProperty(value: unknown, key: string): unknown {
+  if (value === null || typeof value !== "object" || !Object.hasOwn(value, key)) {
+    return undefined;
+  }
+  return (value as Record<string, unknown>)[key];
+}
+
+/** Resolve a path, looking outwards from the innermost {{#each}} item */
+function resolvePath(path: string, scopes: Scope[]): unknown {
+  const current = scopes[scopes.length - 1];
+
+  if (path === "@index") return current.index;
+  if (path === "@first") return current.index === 0;
+  if (path === "@last") return current.index !== undefined && current.index === (current.length ?? 0) - 1;
+
+  const [head, ...rest] = path.split(".");
+  let value: unknown;
+
+  if (head === "this") {
+    value = current.value;
+  } else {
+    const scope = [...scopes].reverse().find((s) => getProperty(s.value, head) !== undefined);
+    value = scope ? getProperty(scope.value, head) : undefined;
+  }
+
+  return rest.reduce(getProperty, value);
+}
+
+function evaluate(expression: Expression, scopes: Scope[]): unknown {
+  return expression.filters.reduce((value, filter) => {
+    const argument = !filter.argument
+      ? undefined
+      : filter.argument.kind === "literal"
+        ? filter.argument.value
+        : resolvePath(filter.argument.path, scopes);
+    return TEMPLATE_FILTERS[filter.name].apply(value, argument);
+  }, resolvePath(expression.path, scopes));
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], escape: boolean): string {
+  let output = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+      case "output": {
+        const text = toText(evaluate(node.expression, scopes));
+        output += escape && !node.raw ? escapeHtml(text) : text;
+        break;
+      }
+      case "if":
+        output += renderNodes(
+          isTruthy(resolvePath(node.path, scopes)) ? node.then : node.otherwise,
+          scopes,
+          escape
+        );
+        break;
+      case "each": {
+        const items = resolvePath(node.path, scopes);
+        if (!Array.isArray(items) || items.length === 0) {
+          output += renderNodes(node.otherwise, scopes, escape);
+          break;
+        }
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, [...scopes, { value: item, index, length: items.length }], escape);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a template with data
+ *
+ * @throws TemplateSyntaxError when the template cannot be parsed
+ *
+ * @example
+ * renderTemplate('Hi {{name | default:"there"}}', {}) // "Hi there"
+ * renderTemplate('{{#each courses}}<li>{{title}}</li>{{/each}}', { courses: [{ title: 'A & B' }] })
+ * // "<li>A &amp; B</li>"
+ */
+export function renderTemplate(source: string, data: TemplateData, options: RenderOptions = {}): string {
+  return renderNodes(parseTemplate(source), [{ value: data }], options.escape ?? true);
+}
+
+// ============================================================================
+// Variables
+// ============================================================================
+
+/**
+ * Normalize stored variable declarations, which older templates saved as a
+ * plain list of names
+ */
+export function normalizeTemplateVariables(raw: unknown): TemplateVariable[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((variable): TemplateVariable[] => {
+    if (typeof variable === "string") return [{ name: variable, description: "" }];
+    if (variable && typeof variable === "object" && typeof variable.name === "string") {
+      return [{ description: "", ...variable } as TemplateVariable];
+    }
+    return [];
+  });
+}
+
+/**
+ * Fill in declared defaults and report required variables that have no value
+ */
+export function prepareTemplateData(
+  variables: TemplateVariable[],
+  data: TemplateData
+): { data: TemplateData; missing: string[] } {
+  const prepared: TemplateData = { ...data };
+  const missing: string[] = [];
+
+  for (const variable of variables) {
+    if (!isEmpty(prepared[variable.name])) continue;
+
+    if (variable.default !== undefined) {
+      prepared[variable.name] = variable.default;
+    } else if (variable.required) {
+      missing.push(variable.name);
+    }
+  }
+
+  return { data: prepared, missing };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+interface Reference {
+  path: string;
+  line: number;
+  depth: number;
+  inEach: boolean;
+}
+
+function collectReferences(nodes: TemplateNode[], depth: number, references: Reference[]): Reference[] {
+  const add = (path: string, line: number) => references.push({ path, line, depth, inEach: depth > 0 });
+
+  for (const node of nodes) {
+    if (node.type === "output") {
+      add(node.expression.path, node.line);
+      for (const filter of node.expression.filters) {
+        if (filter.argument?.kind === "path") add(filter.argument.path, node.line);
+      }
+    } else if (node.type === "if") {
+      add(node.path, node.line);
+      collectReferences(node.then, depth, references);
+      collectReferences(node.otherwise, depth, references);
+    } else if (node.type === "each") {
+      add(node.path, node.line);
+      collectReferences(node.body, depth + 1, references);
+      collectReferences(node.otherwise, depth, references);
+    }
+  }
+
+  return references;
+}
+
+function collectEachPaths(nodes: TemplateNode[], paths: Array<{ path: string; line: number }> = []) {
+  for (const node of nodes) {
+    if (node.type === "if") {
+      collectEachPaths(node.then, paths);
+      collectEachPaths(node.otherwise, paths);
+    } else if (node.type === "each") {
+      paths.push({ path: node.path, line: node.line });
+      collectEachPaths(node.body, paths);
+      collectEachPaths(node.otherwise, paths);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Check templates against the variables they declare
+ *
+ * Reports syntax errors, top-level references to undeclared variables,
+ * {{this}} or {{@index}} outside a loop, and loops over variables that are
+ * not declared as lists. Names inside {{#each}} may be fields of the item,
+ * so they are only checked outside loops.
+ *
+ * @param sources - Template sources keyed by field (subject, html_content, ...)
+ */
+export function validateTemplate(
+  sources: Record<string, string | null | undefined>,
+  variables: TemplateVariable[]
+): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+  const declared = new Map<string, TemplateVariable>();
+
+  for (const variable of variables) {
+    if (!/^[A-Za-z_]\w*$/.test(variable.name)) {
+      issues.push({ field: "variables", message: `"${variable.name}" is not a valid variable name` });
+    } else if (declared.has(variable.name)) {
+      issues.push({ field: "variables", message: `"${variable.name}" is declared more than once` });
+    }
+    declared.set(variable.name, variable);
+  }
+
+  for (const [field, source] of Object.entries(sources)) {
+    if (!source) continue;
+
+    let nodes: TemplateNode[];
+    try {
+      nodes = parseTemplate(source);
+    } catch (error: unknown) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      issues.push({ field, message: error.message, line: error.line });
+      continue;
+    }
+
+    for (const reference of collectReferences(nodes, 0, [])) {
+      const head = reference.path.split(".")[0];
+
+      if (head.startsWith("@") || head === "this") {
+        if (!reference.inEach) {
+          issues.push({
+            field,
+            message: `{{${reference.path}}} can only be used inside {{#each}}`,
+            line: reference.line,
+          });
+        }
+      } else if (!reference.inEach && !declared.has(head)) {
+        issues.push({ field, message: `Unknown variable "${head}"`, line: reference.line });
+      }
+    }
+
+    for (const { path, line } of collectEachPaths(nodes)) {
+      const type = declared.get(path)?.type;
+      if (type && type !== "list") {
+        issues.push({ field, message: `"${path}" is a ${type}, so it can't be used with {{#each}}`, line });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,51 @@
+import * as React from 'react';
+import { BaseTemplate, Button } from './base-template';
+
+export interface CheckInReminderProps {
+  name?: string | null;
+}
+
+export const CheckInReminderEmail: React.FC<CheckInReminderProps> = ({ name }) => {
+  return (
+    <BaseTemplate preheader="A minute to notice how your energy is doing today">
+      <h2 style={{
+        margin: '0 0 24px 0',
+        fontSize: '24px',
+        fontWeight: 'bold',
+        color: '#111827',
+        textAlign: 'center'
+      }}>
+        Time for your check-in
+      </h2>
+
+      <p style={{
+        margin: '0 0 24px 0',
+        fontSize: '16px',
+        lineHeight: '24px',
+        color: '#4b5563'
+      }}>
+        Hi {name || 'there'},<br />
+        Take a minute to notice your energy, your current state and what you
+        need today. Regular check-ins make your patterns and insights clearer.
+      </p>
+
+      <Button href={`${process.env.NEXT_PUBLIC_APP_URL}/tools/daily-checkin`}>
+        Check In Now
+      </Button>
+
+      <p style={{
+        margin: '24px 0 0 0',
+        fontSize: '12px',
+        lineHeight: '20px',
+        color: '#6b7280',
+        fontStyle: 'italic'
+      }}>
+        You are receiving this because you turned on check-in reminders. You can
+        change the time, days or delivery method in your{' '}
+        <a href={`${process.env.NEXT_PUBLIC_APP_URL}/dashboard/settings/notifications`} style={{ color: '#7c3aed' }}>
+          notification settings
+        </a>.
+      </p>
+    </BaseTemplate>
+  );
+};
@@ -2,11 +2,19 @@ export { BaseTemplate, Button } from './base-template';
 export { WelcomeEmail } from './welcome';
 export { PaymentConfirmationEmail } from './payment-confirmation';
 export { SessionReminderEmail } from './session-reminder';
+export { SessionBookingUpdateEmail } from './session-booking-update';
 export { PasswordResetEmail } from './password-reset';
 export { CourseCompletionEmail } from './course-completion';
+export { CheckInReminderEmail } from './check-in-reminder';
+export { NotificationEmail } from './notification';
+export { NotificationDigestEmail } from './notification-digest';
 
 export type { WelcomeEmailProps } from './welcome';
 export type { PaymentConfirmationProps } from './payment-confirmation';
 export type { SessionReminderProps } from './session-reminder';
+export type { SessionBookingChange, SessionBookingUpdateProps } from './session-booking-update';
 export type { PasswordResetProps } from './password-reset';
-export type { CourseCompletionProps } from './course-completion';
\ No newline at end of file
+export type { CourseCompletionProps } from './course-completion';
+export type { CheckInReminderProps } from './check-in-reminder';
+export type { NotificationEmailProps } from './notification';
+export type { NotificationDigestItem, NotificationDigestProps } from './notification-digest';
\ No newline at end of file
@@ -0,0 +1,91 @@
+import * as React from 'react';
+import { BaseTemplate, Button } from './base-template';
+
+export interface NotificationDigestItem {
+  title: string;
+  message: string;
+  /** Path within the app, or a full URL */
+  actionUrl?: string | null;
+}
+
+export interface NotificationDigestProps {
+  name?: string | null;
+  /** Null when the emails were held during quiet hours rather than for a digest */
+  frequency: 'daily' | 'weekly' | null;
+  items: NotificationDigestItem[];
+}
+
+const toAbsoluteUrl = (url: string) =>
+  /^https?:\/\//.test(url) ? url : `${process.env.NEXT_PUBLIC_APP_URL}${url}`;
+
+const INTROS = {
+  daily: "Here's what happened today.",
+  weekly: "Here's what happened this week.",
+  held: 'These arrived during your quiet hours.',
+};
+
+export const NotificationDigestEmail: React.FC<NotificationDigestProps> = ({ name, frequency, items }) => {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+
+  return (
+    <BaseTemplate preheader={`You have ${items.length} new notification${items.length === 1 ? '' : 's'}`}>
+      <h2 style={{
+        margin: '0 0 24px 0',
+        fontSize: '24px',
+        fontWeight: 'bold',
+        color: '#111827',
+        textAlign: 'center'
+      }}>
+        {frequency === 'weekly' ? 'Your Weekly Digest' : frequency === 'daily' ? 'Your Daily Digest' : 'While You Were Away'}
+      </h2>
+
+      <p style={{
+        margin: '0 0 24px 0',
+        fontSize: '16px',
+        lineHeight: '24px',
+        color: '#4b5563'
+      }}>
+        Hi {name || 'there'},<br />
+        {INTROS[frequency ?? 'held']}
+      </p>
+
+      {items.map((item, index) => (
+        <div key={index} style={{
+          backgroundColor: '#f9fafb',
+          borderLeft: '4px solid #7c3aed',
+          borderRadius: '6px',
+          padding: '16px 20px',
+          margin: '0 0 12px 0',
+          fontSize: '14px',
+          lineHeight: '22px',
+          color: '#111827'
+        }}>
+          <div><strong>{item.title}</strong></div>
+          <div style={{ color: '#4b5563' }}>{item.message}</div>
+          {item.actionUrl && (
+            <a href={toAbsoluteUrl(item.actionUrl)} style={{ color: '#7c3aed', fontSize: '13px' }}>
+              View details
+            </a>
+          )}
+        </div>
+      ))}
+
+      <Button href={`${appUrl}/dashboard/notifications`}>
+        Open Notifications
+      </Button>
+
+      <p style={{
+        margin: '24px 0 0 0',
+        fontSize: '12px',
+        lineHeight: '20px',
+        color: '#6b7280',
+        fontStyle: 'italic'
+      }}>
+        You can change your digest schedule and quiet hours in your{' '}
+        <a href={`${appUrl}/dashboard/settings/notifications`} style={{ color: '#7c3aed' }}>
+          notification settings
+        </a>.
+      </p>
+    </BaseTemplate>
+  );
+};
@@ -0,0 +1,57 @@
+import * as React from 'react';
+import { BaseTemplate, Button } from './base-template';
+
+export interface NotificationEmailProps {
+  name?: string | null;
+  title: string;
+  message: string;
+  /** Path within the app, e.g. /dashboard/billing, or a full URL */
+  actionUrl?: string | null;
+}
+
+const toAbsoluteUrl = (url: string) =>
+  /^https?:\/\//.test(url) ? url : `${process.env.NEXT_PUBLIC_APP_URL}${url}`;
+
+export const NotificationEmail: React.FC<NotificationEmailProps> = ({ name, title, message, actionUrl }) => {
+  return (
+    <BaseTemplate preheader={message}>
+      <h2 style={{
+        margin: '0 0 24px 0',
+        fontSize: '24px',
+        fontWeight: 'bold',
+        color: '#111827',
+        textAlign: 'center'
+      }}>
+        {title}
+      </h2>
+
+      <p style={{
+        margin: '0 0 24px 0',
+        fontSize: '16px',
+        lineHeight: '24px',
+        color: '#4b5563'
+      }}>
+        Hi {name || 'there'},<br />
+        {message}
+      </p>
+
+      <Button href={toAbsoluteUrl(actionUrl || '/dashboard/notifications')}>
+        {actionUrl ? 'View Details' : 'View Notifications'}
+      </Button>
+
+      <p style={{
+        margin: '24px 0 0 0',
+        fontSize: '12px',
+        lineHeight: '20px',
+        color: '#6b7280',
+        fontStyle: 'italic'
+      }}>
+        You can choose which notifications you get by email, or batch them into
+        a daily or weekly digest, in your{' '}
+        <a href={`${process.env.NEXT_PUBLIC_APP_URL}/dashboard/settings/notifications`} style={{ color: '#7c3aed' }}>
+          notification settings
+        </a>.
+      </p>
+    </BaseTemplate>
+  );
+};
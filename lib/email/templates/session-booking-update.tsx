@@ -0,0 +1,115 @@
+import * as React from 'react';
+import { formatInTimeZone } from 'date-fns-tz';
+import { BaseTemplate, Button } from './base-template';
+
+export type SessionBookingChange = 'booked' | 'rescheduled' | 'cancelled';
+
+export interface SessionBookingUpdateProps {
+  recipientName: string;
+  otherPartyName: string;
+  isInstructor?: boolean;
+  change: SessionBookingChange;
+  scheduledAt: Date;
+  duration: number;
+  /** Timezone the recipient sees the time in */
+  timezone: string;
+  sessionId: string;
+  /** Previous start time when rescheduled */
+  previousScheduledAt?: Date;
+  reason?: string;
+  cancellationWindowHours: number;
+}
+
+const HEADINGS: Record<SessionBookingChange, { title: string; intro: string; color: string }> = {
+  booked: { title: 'Session Booked', intro: 'Your session is booked.', color: '#16a34a' },
+  rescheduled: { title: 'Session Rescheduled', intro: 'Your session has moved to a new time.', color: '#3b82f6' },
+  cancelled: { title: 'Session Cancelled', intro: 'Your session has been cancelled.', color: '#ef4444' },
+};
+
+const formatInZone = (date: Date, timezone: string) =>
+  formatInTimeZone(date, timezone, "EEEE, MMMM d, yyyy 'at' h:mm a (zzz)");
+
+export const SessionBookingUpdateEmail: React.FC<SessionBookingUpdateProps> = ({
+  recipientName,
+  otherPartyName,
+  isInstructor = false,
+  change,
+  scheduledAt,
+  duration,
+  timezone,
+  sessionId,
+  previousScheduledAt,
+  reason,
+  cancellationWindowHours,
+}) => {
+  const heading = HEADINGS[change];
+  const when = formatInZone(scheduledAt, timezone);
+
+  return (
+    <BaseTemplate preheader={`${heading.title}: ${when}`}>
+      <h2 style={{
+        margin: '0 0 24px 0',
+        fontSize: '24px',
+        fontWeight: 'bold',
+        color: heading.color,
+        textAlign: 'center'
+      }}>
+        {heading.title}
+      </h2>
+
+      <p style={{
+        margin: '0 0 24px 0',
+        fontSize: '16px',
+        lineHeight: '24px',
+        color: '#4b5563'
+      }}>
+        Hi {recipientName},<br />
+        {heading.intro}
+      </p>
+
+      <div style={{
+        backgroundColor: '#f9fafb',
+        borderLeft: `4px solid ${heading.color}`,
+        borderRadius: '6px',
+        padding: '20px',
+        margin: '24px 0',
+        fontSize: '14px',
+        lineHeight: '24px',
+        color: '#111827'
+      }}>
+        <div><strong>{isInstructor ? 'Student' : 'Instructor'}:</strong> {otherPartyName}</div>
+        <div><strong>When:</strong> {when}</div>
+        {previousScheduledAt && (
+          <div><strong>Previously:</strong> {formatInZone(previousScheduledAt, timezone)}</div>
+        )}
+        <div><strong>Duration:</strong> {duration} minutes</div>
+        {reason && <div><strong>Reason:</strong> {reason}</div>}
+      </div>
+
+      {change !== 'cancelled' && (
+        <>
+          <p style={{
+            margin: '0 0 24px 0',
+            fontSize: '14px',
+            color: '#4b5563'
+          }}>
+            The attached calendar invite adds the session to your calendar and
+            updates it if the time changes.
+          </p>
+          <Button href={`${process.env.NEXT_PUBLIC_APP_URL}/dashboard/sessions/${sessionId}`}>
+            View Session
+          </Button>
+          <p style={{
+            margin: '24px 0 0 0',
+            fontSize: '12px',
+            lineHeight: '20px',
+            color: '#6b7280',
+            fontStyle: 'italic'
+          }}>
+            Sessions can be rescheduled or cancelled up to {cancellationWindowHours} hours before they start.
+          </p>
+        </>
+      )}
+    </BaseTemplate>
+  );
+};
@@ -0,0 +1,76 @@
+/**
+ * Email Transport
+ * How an email leaves the app. EMAIL_TRANSPORT picks resend, smtp or outbox;
+ * without it, Resend is used when RESEND_API_KEY is set, then SMTP when
+ * SMTP_URL is set, and outside production the local outbox.
+ */
+
+import { createOutboxTransport } from "./transports/outbox";
+import { createResendTransport } from "./transports/resend";
+import { createSmtpTransport } from "./transports/smtp";
+
+export type EmailTransportName = "resend" | "smtp" | "outbox";
+
+export const EMAIL_TRANSPORTS: EmailTransportName[] = ["resend", "smtp", "outbox"];
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+}
+
+/** Fully rendered email, ready to hand to a transport */
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  /**
+   * Send a message
+   *
+   * @returns The provider's message ID, used to match delivery webhooks
+   * @throws When the transport rejects the message
+   */
+  send(message: EmailMessage): Promise<{ id: string }>;
+}
+
+let _transport: EmailTransport | null = null;
+
+function resolveTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT;
+  if (configured) {
+    if (!EMAIL_TRANSPORTS.includes(configured as EmailTransportName)) {
+      throw new Error(`Unknown EMAIL_TRANSPORT "${configured}"; use ${EMAIL_TRANSPORTS.join(", ")}`);
+    }
+    return configured as EmailTransportName;
+  }
+
+  if (process.env.RESEND_API_KEY) return "resend";
+  if (process.env.SMTP_URL) return "smtp";
+  if (process.env.NODE_ENV !== "production") return "outbox";
+
+  throw new Error("No email transport configured: set RESEND_API_KEY, SMTP_URL or EMAIL_TRANSPORT");
+}
+
+/**
+ * Lazily create the configured transport, so builds don't need email settings
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!_transport) {
+    const name = resolveTransportName();
+    _transport =
+      name === "resend"
+        ? createResendTransport(process.env.RESEND_API_KEY)
+        : name === "smtp"
+          ? createSmtpTransport(process.env.SMTP_URL)
+          : createOutboxTransport(process.env.EMAIL_OUTBOX_DIR);
+  }
+  return _transport;
+}
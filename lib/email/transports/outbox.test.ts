@@ -0,0 +1,39 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createOutboxTransport, readOutbox } from "./outbox";
+
+describe("outbox transport", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "outbox-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("saves each message and reads them back oldest first", async () => {
+    const transport = createOutboxTransport(dir);
+    const message = {
+      from: "NeuroElemental <noreply@example.com>",
+      to: ["ada@example.com"],
+      subject: "First",
+      html: "<p>Hello</p>",
+    };
+
+    const first = await transport.send(message);
+    await transport.send({ ...message, subject: "Second" });
+
+    const entries = await readOutbox(dir);
+    expect(entries.map((entry) => entry.message.subject)).toEqual(["First", "Second"]);
+    expect(entries[0].id).toBe(first.id);
+    expect(await readFile(path.join(dir, `${first.id}.html`), "utf8")).toBe("<p>Hello</p>");
+  });
+
+  it("reads an outbox that doesn't exist yet as empty", async () => {
+    expect(await readOutbox(path.join(dir, "missing"))).toEqual([]);
+  });
+});
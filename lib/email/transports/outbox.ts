@@ -0,0 +1,60 @@
+/**
+ * Outbox Transport
+ * Writes each email to a local directory instead of sending it, for
+ * development and tests. Every message is saved as <id>.json (the full
+ * message) next to <id>.html for opening in a browser.
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { EmailMessage, EmailTransport } from "../transport";
+
+export const DEFAULT_OUTBOX_DIR = path.join(process.cwd(), ".email-outbox");
+
+export interface OutboxEntry {
+  id: string;
+  savedAt: string;
+  message: EmailMessage;
+}
+
+export function createOutboxTransport(dir: string = DEFAULT_OUTBOX_DIR): EmailTransport {
+  return {
+    name: "outbox",
+    async send(message: EmailMessage) {
+      const savedAt = new Date().toISOString();
+      // Timestamp first so the directory lists oldest to newest
+      const id = `${savedAt.replace(/[:.]/g, "-")}-${randomUUID()}`;
+      const entry: OutboxEntry = { id, savedAt, message };
+
+      await mkdir(dir, { recursive: true });
+      await Promise.all([
+        writeFile(path.join(dir, `${id}.json`), JSON.stringify(entry, null, 2)),
+        writeFile(path.join(dir, `${id}.html`), message.html),
+      ]);
+
+      return { id };
+    },
+  };
+}
+
+/**
+ * Messages saved to an outbox, oldest first
+ */
+export async function readOutbox(dir: string = DEFAULT_OUTBOX_DIR): Promise<OutboxEntry[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const entries = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map(async (file) => JSON.parse(await readFile(path.join(dir, file), "utf8")) as OutboxEntry)
+  );
+
+  return entries;
+}
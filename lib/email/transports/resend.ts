@@ -0,0 +1,36 @@
+/**
+ * Resend Transport
+ * Sends through the Resend API. Delivery events come back through
+ * /api/resend/webhook.
+ */
+
+import { Resend } from "resend";
+import type { EmailMessage, EmailTransport } from "../transport";
+
+export function createResendTransport(apiKey: string | undefined): EmailTransport {
+  if (!apiKey) {
+    throw new Error("RESEND_API_KEY is not defined in environment variables");
+  }
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+    async send(message: EmailMessage) {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        replyTo: message.replyTo,
+        attachments: message.attachments,
+      });
+
+      if (error || !data) {
+        throw new Error(error?.message || "Resend did not accept the email");
+      }
+
+      return { id: data.id };
+    },
+  };
+}
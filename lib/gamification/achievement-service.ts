@@ -1,28 +1,7 @@
 import { getSupabaseServer } from "@/lib/db";
 import { logger } from "@/lib/logging";
 import { TOOL_ACHIEVEMENTS } from "@/lib/constants/achievements";
-
-/**
- * Server-side notification helper
- * Directly inserts into the notifications table
- */
-async function sendServerNotification(notification: {
-  user_id: string;
-  title: string;
-  message: string;
-  type: 'info' | 'success' | 'warning' | 'error';
-  action_url?: string;
-  read: boolean;
-}) {
-  const supabase = getSupabaseServer();
-  const { error } = await (supabase as any)
-    .from('notifications')
-    .insert(notification);
-  
-  if (error) {
-    logger.error('Error sending notification:', error as Error);
-  }
-}
+import { sendNotification } from "@/lib/notifications/dispatcher";
 
 export interface Achievement {
   id: string;
@@ -110,13 +89,10 @@ async function checkAndUnlockAchievement(
       }
 
       // Send notification
-      await sendServerNotification({
-        user_id: userId,
+      await sendNotification(userId, "achievement_unlocked", {
         title: "🏆 Achievement Unlocked!",
         message: `You earned "${achievement.name}" (+${achievement.points} points)`,
-        type: "success",
-        action_url: "/dashboard/student/achievements",
-        read: false,
+        actionUrl: "/dashboard/student/achievements",
       });
 
       logger.info(
@@ -334,13 +310,10 @@ async function checkAndUnlockByType(
           `You earned "${achievement.name}"!`;
 
         // Send notification
-        await sendServerNotification({
-          user_id: userId,
+        await sendNotification(userId, "achievement_unlocked", {
           title: "🏆 Achievement Unlocked!",
           message: `${celebrationMessage} (+${achievement.points} points)`,
-          type: "success",
-          action_url: "/dashboard/student/achievements",
-          read: false,
+          actionUrl: "/dashboard/student/achievements",
         });
 
         logger.info(
@@ -212,6 +212,29 @@ export async function getExportRequest(
   }
 }
 
+/**
+ * Pending export request IDs, oldest first
+ */
+export async function getPendingExportRequestIds(): Promise<string[]> {
+  const supabase = getSupabaseServer();
+
+  const { data, error } = await supabase
+    .from("data_export_requests")
+    .select("id")
+    .eq("status", "pending")
+    .order("created_at", { ascending: true }) as {
+    data: Array<{ id: string }> | null;
+    error: Error | null;
+  };
+
+  if (error) {
+    logger.error("Error fetching pending export requests", error);
+    return [];
+  }
+
+  return (data ?? []).map((request) => request.id);
+}
+
 /**
  * Update export request status
  */
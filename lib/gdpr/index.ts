@@ -7,6 +7,7 @@ export {
   createDataExportRequest,
   getUserExportRequests,
   getExportRequest,
+  getPendingExportRequestIds,
   updateExportRequestStatus,
   createDataDeletionRequest,
   confirmDataDeletionRequest,
@@ -18,3 +19,5 @@ export {
   type DataDeletionRequest,
   type DataAccessLog,
 } from './data-export'
+
+export { processDataExportRequest } from './export-processor'
@@ -0,0 +1,234 @@
+/**
+ * Job Handlers
+ * What each job type does, with its attempt limit, visibility timeout and
+ * retry backoff
+ */
+
+import { aggregateUsageMetrics } from '@/lib/analytics/usage-metrics';
+import { getPendingAuditExportJobIds, processAuditExportJob, runDueExportSchedules } from '@/lib/audit/export';
+import { checkLowCredits } from '@/lib/billing/credit-alerts';
+import { runEmailCampaigns } from '@/lib/campaigns';
+import { blogRepository } from '@/lib/db/blog';
+import { creditRepository } from '@/lib/db/credits';
+import { jobRepository, type JobRow } from '@/lib/db/jobs';
+import { finalizeDiagnosticsPastDeadline } from '@/lib/diagnostics';
+import { emailService } from '@/lib/email';
+import { getPendingExportRequestIds, processDataExportRequest } from '@/lib/gdpr';
+import { dispatchNotificationDigests } from '@/lib/notifications/dispatcher';
+import { sendAssignmentNotices, syncAssignmentCompletions } from '@/lib/organizations/assignment-tracking';
+import { dispatchCheckInReminders } from '@/lib/reminders';
+import { invalidateSearchIndex } from '@/lib/search';
+import type { Json } from '@/lib/types/supabase';
+import { retryPendingDeliveries } from '@/lib/webhooks/deliver';
+import { z } from 'zod';
+import type { JobPayloads, JobType } from './recurring';
+import type { RetryPolicy } from './schedule';
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  /** Skip enqueueing while an unfinished job has this key */
+  dedupeKey?: string;
+  recurringName?: string;
+  createdBy?: string;
+}
+
+export type EnqueueJob = <T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options?: EnqueueOptions
+) => Promise<JobRow | null>;
+
+export interface JobContext {
+  job: JobRow;
+  now: Date;
+  /** Queue follow-up work */
+  enqueue: EnqueueJob;
+}
+
+/** Summary of a finished job, stored on it */
+export type JobResult = { [key: string]: Json | undefined };
+
+export interface JobDefinition<P> {
+  /** Validates stored payloads before they reach `run` */
+  payload: z.ZodType<P>;
+  /** Attempts before the job is dead-lettered */
+  maxAttempts: number;
+  /** Lease length; a worker that hasn't finished by then is presumed dead */
+  timeoutSeconds: number;
+  retry?: RetryPolicy;
+  /**
+   * Do the work; throw to fail the attempt
+   *
+   * @returns Summary stored on the job
+   */
+  run(payload: P, context: JobContext): Promise<JobResult | void>;
+}
+
+const noPayload = z.object({}).strict();
+
+/** Jobs rerun on their next schedule anyway, so a few quick retries suffice */
+const RECURRING_DEFAULTS = { payload: noPayload, maxAttempts: 3, timeoutSeconds: 300 };
+
+/** Exports record their own failure; the user requests a new one */
+const EXPORT_DEFAULTS = { maxAttempts: 1, timeoutSeconds: 600 };
+
+/** Finished jobs are kept this long for the admin queue view */
+const SUCCEEDED_RETENTION_DAYS = 7;
+const DEAD_RETENTION_DAYS = 30;
+
+export const JOB_HANDLERS: { [T in JobType]: JobDefinition<JobPayloads[T]> } = {
+  'webhooks.retry': {
+    ...RECURRING_DEFAULTS,
+    async run() {
+      const result = await retryPendingDeliveries();
+      if (!result.success) {
+        throw result.error instanceof Error ? result.error : new Error('Failed to retry deliveries');
+      }
+      return { retried: result.retried };
+    },
+  },
+
+  'metrics.aggregate': {
+    ...RECURRING_DEFAULTS,
+    payload: z.object({ date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional() }),
+    timeoutSeconds: 900,
+    async run(payload) {
+      const result = await aggregateUsageMetrics(payload.date);
+      if (result.failedAggregations > 0) {
+        throw new Error(`Failed to aggregate metrics for ${result.failedAggregations} organizations`);
+      }
+      return { ...result };
+    },
+  },
+
+  'credits.check-low': {
+    ...RECURRING_DEFAULTS,
+    async run() {
+      const { creditBalancesChecked, warnings } = await checkLowCredits();
+      return { creditBalancesChecked, warningsSent: warnings.length };
+    },
+  },
+
+  'credits.expire': {
+    ...RECURRING_DEFAULTS,
+    async run(_payload, { now }) {
+      return { ...(await creditRepository.expireCredits(now)) };
+    },
+  },
+
+  'audit-exports.run-schedules': {
+    ...RECURRING_DEFAULTS,
+    async run(_payload, { now, enqueue }) {
+      const jobIds = await runDueExportSchedules(now);
+      for (const jobId of jobIds) {
+        await enqueue('audit-exports.process', { jobId }, { dedupeKey: `audit-export:${jobId}` });
+      }
+      return { exportsCreated: jobIds.length };
+    },
+  },
+
+  'audit-exports.process': {
+    ...EXPORT_DEFAULTS,
+    payload: z.object({ jobId: z.string().min(1) }),
+    async run(payload) {
+      return { ...(await processAuditExportJob(payload.jobId)) };
+    },
+  },
+
+  'data-exports.process': {
+    ...EXPORT_DEFAULTS,
+    payload: z.object({ requestId: z.string().min(1) }),
+    async run(payload) {
+      return { ...(await processDataExportRequest(payload.requestId)) };
+    },
+  },
+
+  'exports.enqueue-pending': {
+    ...RECURRING_DEFAULTS,
+    async run(_payload, { enqueue }) {
+      let queued = 0;
+      for (const jobId of await getPendingAuditExportJobIds()) {
+        if (await enqueue('audit-exports.process', { jobId }, { dedupeKey: `audit-export:${jobId}` })) queued++;
+      }
+      for (const requestId of await getPendingExportRequestIds()) {
+        if (await enqueue('data-exports.process', { requestId }, { dedupeKey: `data-export:${requestId}` })) queued++;
+      }
+      return { queued };
+    },
+  },
+
+  'emails.send-scheduled': {
+    ...RECURRING_DEFAULTS,
+    async run() {
+      await emailService.processScheduledEmails();
+    },
+  },
+
+  'blog.publish-scheduled': {
+    ...RECURRING_DEFAULTS,
+    async run() {
+      const published = await blogRepository.publishScheduledPosts();
+      if (published > 0) {
+        await invalidateSearchIndex();
+      }
+      return { published };
+    },
+  },
+
+  'diagnostics.finalize': {
+    ...RECURRING_DEFAULTS,
+    async run(_payload, { now }) {
+      const { finalized, failed } = await finalizeDiagnosticsPastDeadline(now);
+      if (failed.length > 0) {
+        throw new Error(`Failed to finalize diagnostics: ${failed.join(', ')}`);
+      }
+      return { finalized: finalized.length };
+    },
+  },
+
+  'assignments.process': {
+    ...RECURRING_DEFAULTS,
+    async run(_payload, { now }) {
+      // Completions first, so members who just finished don't get a notice
+      const { completed } = await syncAssignmentCompletions();
+      const { reminders, overdue } = await sendAssignmentNotices(now);
+      return { completed, reminders, overdue };
+    },
+  },
+
+  'reminders.send': {
+    ...RECURRING_DEFAULTS,
+    async run(_payload, { now }) {
+      return { ...(await dispatchCheckInReminders(now)) };
+    },
+  },
+
+  'notifications.send-digests': {
+    ...RECURRING_DEFAULTS,
+    async run(_payload, { now }) {
+      return { ...(await dispatchNotificationDigests(now)) };
+    },
+  },
+
+  'campaigns.run': {
+    ...RECURRING_DEFAULTS,
+    async run(_payload, { now }) {
+      return { ...(await runEmailCampaigns(now)) };
+    },
+  },
+
+  'jobs.prune': {
+    ...RECURRING_DEFAULTS,
+    async run(_payload, { now }) {
+      const day = 24 * 60 * 60 * 1000;
+      const succeeded = await jobRepository.deleteFinishedBefore(
+        new Date(now.getTime() - SUCCEEDED_RETENTION_DAYS * day),
+        ['succeeded']
+      );
+      const dead = await jobRepository.deleteFinishedBefore(new Date(now.getTime() - DEAD_RETENTION_DAYS * day), [
+        'dead',
+      ]);
+      return { deleted: succeeded + dead };
+    },
+  },
+};
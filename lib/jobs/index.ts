@@ -0,0 +1,47 @@
+/**
+ * Jobs Barrel Export
+ * Durable background job queue, its handlers and recurring schedules
+ */
+
+// Schedule (client-safe)
+export {
+  DEFAULT_RETRY_POLICY,
+  JOB_STATUSES,
+  getNextCronRun,
+  getRetryDecision,
+  getRetryDelaySeconds,
+  isValidCronExpression,
+  parseCronExpression,
+  type CronSchedule,
+  type JobStatus,
+  type RetryDecision,
+  type RetryPolicy,
+} from './schedule';
+
+// Job types and recurring jobs (client-safe)
+export {
+  JOB_TYPES,
+  RECURRING_JOBS,
+  type JobPayloads,
+  type JobType,
+  type RecurringJob,
+} from './recurring';
+
+// Handlers
+export {
+  JOB_HANDLERS,
+  type EnqueueJob,
+  type EnqueueOptions,
+  type JobContext,
+  type JobDefinition,
+} from './handlers';
+
+// Queue
+export {
+  enqueueDueRecurringJobs,
+  enqueueJob,
+  retryJob,
+  runJobs,
+  type JobRunResult,
+  type RunJobsOptions,
+} from './queue';
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { aggregateUsageMetrics } from '@/lib/analytics/usage-metrics';
+import { jobRepository, type JobRow } from '@/lib/db/jobs';
+import { runJobs } from './queue';
+
+vi.mock('@/lib/db/jobs', () => ({
+  jobRepository: {
+    getSchedules: vi.fn(),
+    advanceSchedule: vi.fn(),
+    lease: vi.fn(),
+    complete: vi.fn(),
+    fail: vi.fn(),
+  },
+}));
+vi.mock('@/lib/analytics/usage-metrics', () => ({ aggregateUsageMetrics: vi.fn() }));
+
+const mockJobs = vi.mocked(jobRepository);
+const mockAggregate = vi.mocked(aggregateUsageMetrics);
+
+function job(overrides: Partial<JobRow>): JobRow {
+  return {
+    id: 'job-1',
+    type: 'metrics.aggregate',
+    payload: {},
+    status: 'running',
+    attempts: 1,
+    max_attempts: 3,
+    ...overrides,
+  } as JobRow;
+}
+
+/** Run the queue once with the given jobs leased */
+async function runWith(...jobs: JobRow[]) {
+  mockJobs.lease.mockResolvedValueOnce(jobs).mockResolvedValue([]);
+  return runJobs({ now: () => new Date('2026-10-19T12:00:00Z') });
+}
+
+describe('runJobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Every recurring job is new, so none are enqueued
+    mockJobs.getSchedules.mockResolvedValue([]);
+  });
+
+  it('runs a handler with its validated payload and stores the result', async () => {
+    mockAggregate.mockResolvedValue({ date: '2026-10-18', organizationsProcessed: 2, failedAggregations: 0 } as never);
+
+    const result = await runWith(job({ payload: { date: '2026-10-18' } }));
+
+    expect(mockAggregate).toHaveBeenCalledWith('2026-10-18');
+    expect(mockJobs.complete).toHaveBeenCalledWith('job-1', expect.any(String), expect.objectContaining({ organizationsProcessed: 2 }));
+    expect(result.succeeded).toBe(1);
+  });
+
+  it('dead-letters a job whose payload does not match its type', async () => {
+    const result = await runWith(job({ payload: { date: 20261018 } }));
+
+    expect(mockAggregate).not.toHaveBeenCalled();
+    expect(mockJobs.fail).toHaveBeenCalledWith('job-1', expect.any(String), expect.stringContaining('Invalid payload'), null);
+    expect(result.dead).toBe(1);
+  });
+
+  it('dead-letters a job of an unknown type', async () => {
+    const result = await runWith(job({ type: 'jobs.unknown' }));
+
+    expect(mockJobs.fail).toHaveBeenCalledWith('job-1', expect.any(String), 'Unknown job type: jobs.unknown', null);
+    expect(result.dead).toBe(1);
+  });
+
+  it('retries a handler failure', async () => {
+    mockAggregate.mockRejectedValue(new Error('database unavailable'));
+
+    const result = await runWith(job({}));
+
+    expect(mockJobs.fail).toHaveBeenCalledWith('job-1', expect.any(String), 'database unavailable', expect.any(Date));
+    expect(result.retrying).toBe(1);
+  });
+});
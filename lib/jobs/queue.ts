@@ -0,0 +1,187 @@
+/**
+ * Job Queue
+ * Enqueues jobs and runs them. Each run of the run-jobs cron first enqueues
+ * the recurring jobs that are due, then leases queued jobs in batches and runs
+ * their handlers until the queue is empty or the time budget is spent. Failed
+ * attempts are retried with exponential backoff and dead-lettered after the
+ * job's last attempt.
+ */
+
+import { randomUUID } from 'crypto';
+import { jobRepository, type JobRow } from '@/lib/db/jobs';
+import { logger } from '@/lib/logging';
+import type { Json } from '@/lib/types/supabase';
+import { JOB_HANDLERS, type EnqueueJob, type JobContext, type JobResult } from './handlers';
+import { RECURRING_JOBS, type JobType } from './recurring';
+import { getNextCronRun, getRetryDecision } from './schedule';
+
+export interface JobRunResult {
+  /** Recurring jobs enqueued because their schedule was due */
+  enqueued: string[];
+  succeeded: number;
+  /** Failed attempts that will be retried */
+  retrying: number;
+  /** Jobs that used their last attempt */
+  dead: number;
+}
+
+export interface RunJobsOptions {
+  /** Jobs leased per batch */
+  batchSize?: number;
+  /** Stop leasing new batches after this long */
+  budgetMs?: number;
+  now?: () => Date;
+}
+
+const DEFAULT_BATCH_SIZE = 10;
+/** Leaves headroom within a serverless function's time limit */
+const DEFAULT_BUDGET_MS = 45_000;
+
+/**
+ * Add a job to the queue, using its handler's attempt limit and timeout
+ *
+ * @returns The job, or null if one with the same dedupe key is unfinished
+ */
+export const enqueueJob: EnqueueJob = async (type, payload, options = {}) => {
+  const definition = JOB_HANDLERS[type];
+  return jobRepository.enqueue({
+    type,
+    payload: payload as Json,
+    maxAttempts: definition.maxAttempts,
+    timeoutSeconds: definition.timeoutSeconds,
+    runAt: options.runAt,
+    dedupeKey: options.dedupeKey,
+    recurringName: options.recurringName,
+    createdBy: options.createdBy,
+  });
+};
+
+/**
+ * Enqueue every recurring job whose schedule is due. A job seen for the first
+ * time starts at its next scheduled run.
+ *
+ * @returns Names of the recurring jobs enqueued
+ */
+export async function enqueueDueRecurringJobs(now: Date = new Date()): Promise<string[]> {
+  const schedules = new Map((await jobRepository.getSchedules()).map((schedule) => [schedule.name, schedule]));
+  const enqueued: string[] = [];
+
+  for (const recurring of RECURRING_JOBS) {
+    const schedule = schedules.get(recurring.name);
+    const nextRunAt = getNextCronRun(recurring.cron, now);
+
+    if (!schedule) {
+      await jobRepository.advanceSchedule(recurring.name, null, nextRunAt, null);
+      continue;
+    }
+    if (!schedule.next_run_at || new Date(schedule.next_run_at) > now) {
+      continue;
+    }
+
+    // Another runner may have claimed this run already
+    const claimed = await jobRepository.advanceSchedule(recurring.name, schedule.next_run_at, nextRunAt, now);
+    if (!claimed) continue;
+
+    // Skipped while the previous run is still queued or running
+    const job = await enqueueJob(recurring.type, recurring.payload, {
+      dedupeKey: `recurring:${recurring.name}`,
+      recurringName: recurring.name,
+    });
+    if (job) {
+      enqueued.push(recurring.name);
+    }
+  }
+
+  return enqueued;
+}
+
+/** A job no retry can fix: its type is unknown or its payload invalid */
+class UnrunnableJobError extends Error {}
+
+function isJobType(type: string): type is JobType {
+  return type in JOB_HANDLERS;
+}
+
+/**
+ * Validate a stored payload against its job type's schema, then run the
+ * type's handler with it
+ *
+ * @throws {UnrunnableJobError} If the payload doesn't match the schema
+ */
+async function runDefinition<T extends JobType>(type: T, payload: Json, context: JobContext): Promise<JobResult | void> {
+  const definition = JOB_HANDLERS[type];
+  const parsed = definition.payload.safeParse(payload);
+  if (!parsed.success) {
+    throw new UnrunnableJobError(`Invalid payload for ${type}: ${parsed.error.message}`);
+  }
+  return definition.run(parsed.data, context);
+}
+
+/**
+ * Run one leased job and settle it
+ */
+async function runJob(job: JobRow, workerId: string, now: Date): Promise<'succeeded' | 'retrying' | 'dead'> {
+  const retry = isJobType(job.type) ? JOB_HANDLERS[job.type].retry : undefined;
+
+  try {
+    if (!isJobType(job.type)) {
+      throw new UnrunnableJobError(`Unknown job type: ${job.type}`);
+    }
+    const result = await runDefinition(job.type, job.payload, { job, now, enqueue: enqueueJob });
+    await jobRepository.complete(job.id, workerId, result ?? null);
+    return 'succeeded';
+  } catch (err: unknown) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    const decision =
+      err instanceof UnrunnableJobError ? { status: 'dead' as const } : getRetryDecision(job, new Date(), retry);
+
+    logger.error('Background job failed', error, {
+      jobId: job.id,
+      type: job.type,
+      attempt: job.attempts,
+      willRetry: decision.status === 'queued',
+    });
+
+    await jobRepository.fail(job.id, workerId, error.message, decision.status === 'queued' ? decision.runAt : null);
+    return decision.status === 'queued' ? 'retrying' : 'dead';
+  }
+}
+
+/**
+ * Enqueue due recurring jobs, then run queued jobs until none are due or the
+ * time budget is spent
+ */
+export async function runJobs(options: RunJobsOptions = {}): Promise<JobRunResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const budgetMs = options.budgetMs ?? DEFAULT_BUDGET_MS;
+  const now = options.now ?? (() => new Date());
+  const startedAt = Date.now();
+  const workerId = `${process.env.VERCEL_REGION ?? 'local'}:${randomUUID()}`;
+
+  const result: JobRunResult = {
+    enqueued: await enqueueDueRecurringJobs(now()),
+    succeeded: 0,
+    retrying: 0,
+    dead: 0,
+  };
+
+  while (Date.now() - startedAt < budgetMs) {
+    const jobs = await jobRepository.lease(workerId, batchSize);
+    if (jobs.length === 0) break;
+
+    for (const job of jobs) {
+      result[await runJob(job, workerId, now())]++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run a queued or dead job again now, with a fresh set of attempts
+ *
+ * @returns The job, or null if it is running, finished, or a copy is already queued
+ */
+export async function retryJob(id: string): Promise<JobRow | null> {
+  return jobRepository.retry(id);
+}
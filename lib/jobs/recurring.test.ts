@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { JOB_TYPES, RECURRING_JOBS } from './recurring';
+import { isValidCronExpression } from './schedule';
+
+describe('RECURRING_JOBS', () => {
+  it('has unique names', () => {
+    const names = RECURRING_JOBS.map((job) => job.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('uses valid cron expressions and registered job types', () => {
+    for (const job of RECURRING_JOBS) {
+      expect(isValidCronExpression(job.cron), job.name).toBe(true);
+      expect(JOB_TYPES[job.type], job.name).toBeDefined();
+    }
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Job Types and Recurring Jobs
+ * Every job type with its payload, and the one registry of cron schedules
+ * that enqueue them. Safe to import on the client.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type NoPayload = Record<string, never>;
+
+/** Payload of each job type */
+export interface JobPayloads {
+  'webhooks.retry': NoPayload;
+  'metrics.aggregate': {
+    /** Day to aggregate, YYYY-MM-DD; defaults to yesterday */
+    date?: string;
+  };
+  'credits.check-low': NoPayload;
+  'credits.expire': NoPayload;
+  'audit-exports.run-schedules': NoPayload;
+  'audit-exports.process': { jobId: string };
+  'data-exports.process': { requestId: string };
+  'exports.enqueue-pending': NoPayload;
+  'emails.send-scheduled': NoPayload;
+  'blog.publish-scheduled': NoPayload;
+  'diagnostics.finalize': NoPayload;
+  'assignments.process': NoPayload;
+  'reminders.send': NoPayload;
+  'notifications.send-digests': NoPayload;
+  'campaigns.run': NoPayload;
+  'jobs.prune': NoPayload;
+}
+
+export type JobType = keyof JobPayloads;
+
+export interface RecurringJob<T extends JobType = JobType> {
+  /** Unique name, used to track the schedule */
+  name: string;
+  type: T;
+  /** Five-field cron expression in UTC */
+  cron: string;
+  payload: JobPayloads[T];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const JOB_TYPES: Record<JobType, string> = {
+  'webhooks.retry': 'Retry failed webhook deliveries',
+  'metrics.aggregate': 'Aggregate daily organization usage metrics',
+  'credits.check-low': 'Warn organizations with low credit balances',
+  'credits.expire': 'Expire credits past their expiration date',
+  'audit-exports.run-schedules': 'Create audit exports for due schedules',
+  'audit-exports.process': 'Generate an audit log export',
+  'data-exports.process': 'Generate a personal data export',
+  'exports.enqueue-pending': 'Queue pending audit and data exports',
+  'emails.send-scheduled': 'Send scheduled emails',
+  'blog.publish-scheduled': 'Publish scheduled blog posts',
+  'diagnostics.finalize': 'Finalize diagnostics past their deadline',
+  'assignments.process': 'Record assignment completions and send due-date emails',
+  'reminders.send': 'Send check-in reminders',
+  'notifications.send-digests': 'Send notification digests',
+  'campaigns.run': 'Run email campaigns',
+  'jobs.prune': 'Delete old finished jobs',
+};
+
+function recurring<T extends JobType>(name: string, type: T, cron: string, payload: JobPayloads[T]): RecurringJob<T> {
+  return { name, type, cron, payload };
+}
+
+/** Recurring jobs; the run-jobs cron enqueues each one when its schedule is due */
+export const RECURRING_JOBS: RecurringJob[] = [
+  recurring('retry-webhooks', 'webhooks.retry', '* * * * *', {}),
+  recurring('send-scheduled-emails', 'emails.send-scheduled', '* * * * *', {}),
+  recurring('send-reminders', 'reminders.send', '*/5 * * * *', {}),
+  recurring('publish-scheduled-posts', 'blog.publish-scheduled', '*/5 * * * *', {}),
+  recurring('send-notification-digests', 'notifications.send-digests', '*/15 * * * *', {}),
+  recurring('run-email-campaigns', 'campaigns.run', '*/15 * * * *', {}),
+  recurring('enqueue-pending-exports', 'exports.enqueue-pending', '*/15 * * * *', {}),
+  recurring('run-audit-export-schedules', 'audit-exports.run-schedules', '*/15 * * * *', {}),
+  recurring('finalize-diagnostics', 'diagnostics.finalize', '0 * * * *', {}),
+  recurring('process-learning-assignments', 'assignments.process', '0 * * * *', {}),
+  recurring('aggregate-metrics', 'metrics.aggregate', '0 1 * * *', {}),
+  recurring('expire-credits', 'credits.expire', '30 1 * * *', {}),
+  recurring('prune-jobs', 'jobs.prune', '0 3 * * *', {}),
+  recurring('check-low-credits', 'credits.check-low', '0 9 * * *', {}),
+];
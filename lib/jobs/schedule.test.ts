@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNextCronRun,
+  getRetryDecision,
+  getRetryDelaySeconds,
+  isValidCronExpression,
+  parseCronExpression,
+} from './schedule';
+
+// ============================================================================
+// Cron
+// ============================================================================
+
+describe('parseCronExpression', () => {
+  it('expands wildcards, lists, ranges and steps', () => {
+    const schedule = parseCronExpression('*/15 9-11 1,15 * 1-5');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.restrictsBothDays).toBe(true);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(isValidCronExpression('* * * *')).toBe(false);
+    expect(isValidCronExpression('60 * * * *')).toBe(false);
+    expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+    expect(isValidCronExpression('5-1 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 9 * * *')).toBe(true);
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    const after = new Date('2026-10-19T10:07:30Z');
+    expect(getNextCronRun('*/15 * * * *', after)?.toISOString()).toBe('2026-10-19T10:15:00.000Z');
+    expect(getNextCronRun('* * * * *', new Date('2026-10-19T10:15:00Z'))?.toISOString()).toBe(
+      '2026-10-19T10:16:00.000Z'
+    );
+  });
+
+  it('rolls over to the next day, month and year', () => {
+    expect(getNextCronRun('0 9 * * *', new Date('2026-10-19T09:00:00Z'))?.toISOString()).toBe(
+      '2026-10-20T09:00:00.000Z'
+    );
+    expect(getNextCronRun('0 0 1 * *', new Date('2026-12-15T00:00:00Z'))?.toISOString()).toBe(
+      '2027-01-01T00:00:00.000Z'
+    );
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2026-10-19 is a Monday; the 21st comes before the next Sunday
+    expect(getNextCronRun('0 0 21 * 0', new Date('2026-10-19T12:00:00Z'))?.toISOString()).toBe(
+      '2026-10-21T00:00:00.000Z'
+    );
+    expect(getNextCronRun('0 0 * * 0', new Date('2026-10-19T12:00:00Z'))?.toISOString()).toBe(
+      '2026-10-25T00:00:00.000Z'
+    );
+  });
+
+  it('returns null for schedules that never fire', () => {
+    expect(getNextCronRun('0 0 30 2 *', new Date('2026-10-19T00:00:00Z'))).toBeNull();
+  });
+});
+
+// ============================================================================
+// Retries
+// ============================================================================
+
+describe('getRetryDelaySeconds', () => {
+  it('doubles the delay after each attempt up to the maximum', () => {
+    const policy = { baseDelaySeconds: 10, maxDelaySeconds: 100 };
+    expect([1, 2, 3, 4, 5].map((attempt) => getRetryDelaySeconds(attempt, policy))).toEqual([10, 20, 40, 80, 100]);
+  });
+});
+
+describe('getRetryDecision', () => {
+  const now = new Date('2026-10-19T10:00:00Z');
+
+  it('requeues with backoff while attempts remain', () => {
+    const decision = getRetryDecision({ attempts: 2, max_attempts: 5 }, now, {
+      baseDelaySeconds: 30,
+      maxDelaySeconds: 3600,
+    });
+    expect(decision).toEqual({ status: 'queued', runAt: new Date('2026-10-19T10:01:00Z') });
+  });
+
+  it('dead-letters the job after its last attempt', () => {
+    expect(getRetryDecision({ attempts: 5, max_attempts: 5 }, now)).toEqual({ status: 'dead' });
+  });
+});
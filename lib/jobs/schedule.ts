@@ -0,0 +1,212 @@
+/**
+ * Job Schedule
+ * Cron expressions for recurring jobs and the retry backoff for failed ones.
+ * Safe to import on the client.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+/** A parsed five-field cron expression, evaluated in UTC */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month and day-of-week fields were both restricted */
+  restrictsBothDays: boolean;
+}
+
+export interface RetryPolicy {
+  /** Delay before the first retry */
+  baseDelaySeconds: number;
+  /** Longest delay between retries */
+  maxDelaySeconds: number;
+}
+
+export type RetryDecision =
+  | { status: 'queued'; runAt: Date }
+  | { status: 'dead' };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const JOB_STATUSES: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Succeeded',
+  dead: 'Failed',
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelaySeconds: 30,
+  maxDelaySeconds: 3600,
+};
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+/** Give up looking for the next run after this many days (e.g. Feb 30) */
+const MAX_CRON_SEARCH_DAYS = 366 * 4;
+
+// ============================================================================
+// Cron
+// ============================================================================
+
+function parseCronField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron ${name} step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron ${name}: ${part}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression: minute hour day-of-month month day-of-week
+ *
+ * Supports `*`, lists, ranges and steps. Throws on invalid expressions.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index].min, CRON_FIELDS[index].max, CRON_FIELDS[index].name)
+  );
+
+  // 7 is Sunday too
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsBothDays: fields[2] !== '*' && fields[4] !== '*',
+  };
+}
+
+/**
+ * Whether the expression parses
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  // Like cron: when both day fields are restricted, either one matching is enough
+  return schedule.restrictsBothDays ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that the schedule fires, in UTC
+ *
+ * @returns null when the schedule never fires (e.g. 30 February)
+ */
+export function getNextCronRun(expression: string | CronSchedule, after: Date): Date | null {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_CRON_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1) || !matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Retries
+// ============================================================================
+
+/**
+ * Seconds to wait before retrying after the given failed attempt (1-based),
+ * doubling each time up to the policy's maximum
+ */
+export function getRetryDelaySeconds(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const exponent = Math.max(attempt, 1) - 1;
+  return Math.min(policy.baseDelaySeconds * 2 ** exponent, policy.maxDelaySeconds);
+}
+
+/**
+ * What happens to a job after a failed attempt: queued again with backoff, or
+ * dead-lettered once it has used all its attempts
+ */
+export function getRetryDecision(
+  job: { attempts: number; max_attempts: number },
+  now: Date,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryDecision {
+  if (job.attempts >= job.max_attempts) {
+    return { status: 'dead' };
+  }
+  return {
+    status: 'queued',
+    runAt: new Date(now.getTime() + getRetryDelaySeconds(job.attempts, policy) * 1000),
+  };
+}
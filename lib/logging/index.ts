@@ -4,7 +4,17 @@
  */
 
 // Main logger for client and general use
-export { logger, logError, type LogLevel } from './logger'
+export {
+  logger,
+  logError,
+  getLogTraceContext,
+  setLogContextProvider,
+  type LogLevel,
+  type LogTraceContext,
+} from './logger'
+
+// Request IDs (the server-only request context lives in ./request-context)
+export { REQUEST_ID_HEADER, resolveRequestId } from './request-id'
 
 // Server-side logger for API routes
 // Note: LogLevel is already exported from ./logger, no need to re-export
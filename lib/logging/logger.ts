@@ -23,6 +23,31 @@ interface SerializedError {
   stack?: string;
 }
 
+/** Trace fields of the request being handled, supplied on the server */
+export interface LogTraceContext {
+  requestId?: string;
+  userId?: string;
+}
+
+type LogContextProvider = () => LogTraceContext | undefined;
+
+let contextProvider: LogContextProvider | null = null;
+
+/**
+ * Register where log entries get the current request's trace fields from.
+ * Set by the server-only request context so this module stays client-safe.
+ */
+export function setLogContextProvider(provider: LogContextProvider | null) {
+  contextProvider = provider;
+}
+
+/**
+ * Trace fields of the request being handled, if any
+ */
+export function getLogTraceContext(): LogTraceContext | undefined {
+  return contextProvider?.();
+}
+
 /** Window with Sentry */
 interface WindowWithSentry extends Window {
   Sentry?: {
@@ -167,6 +192,12 @@ class Logger {
       entry.stack = error.stack;
     }
 
+    const trace = getLogTraceContext();
+    if (trace) {
+      entry.request_id = trace.requestId;
+      entry.user_id = trace.userId;
+    }
+
     // Add browser info only on client
     if (!this.isServer) {
       entry.browser = navigator.userAgent;
@@ -211,7 +242,9 @@ class Logger {
   private log(entry: LogEntry) {
     // On server, just use console (intentional - this IS the logger)
     if (this.isServer) {
-      const prefix = `[${entry.level.toUpperCase()}]`;
+      const prefix = entry.request_id
+        ? `[${entry.level.toUpperCase()}] [${entry.request_id}]`
+        : `[${entry.level.toUpperCase()}]`;
       if (entry.level === 'error' || entry.level === 'fatal') {
         console.error(prefix, entry.message, entry.context || '');
       } else if (entry.level === 'warn') {
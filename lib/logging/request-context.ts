@@ -0,0 +1,52 @@
+/**
+ * Request Context
+ * Carries the current API request's ID (and user, once known) through async
+ * calls so every log line written while handling it can be traced back to
+ * the request. Server-only.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { setLogContextProvider } from './logger'
+
+export interface RequestContext {
+  requestId: string
+  method?: string
+  /** Route template, e.g. /api/courses/:id */
+  route?: string
+  userId?: string
+}
+
+const storage = new AsyncLocalStorage<RequestContext>()
+
+/**
+ * Run `fn` with `context` as the current request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn)
+}
+
+/**
+ * The context of the request being handled, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore()
+}
+
+/**
+ * The ID of the request being handled, if any
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId
+}
+
+/**
+ * Record the authenticated user on the current request context
+ */
+export function setRequestUserId(userId: string): void {
+  const context = storage.getStore()
+  if (context) {
+    context.userId = userId
+  }
+}
+
+setLogContextProvider(getRequestContext)
@@ -0,0 +1,17 @@
+/**
+ * Request IDs
+ * The header that carries a request's ID from the proxy to route handlers
+ * and back to the caller. Safe to import on the client.
+ */
+
+export const REQUEST_ID_HEADER = 'x-request-id'
+
+/** IDs accepted from callers; anything else is replaced */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/
+
+/**
+ * The caller's request ID when it is well formed, otherwise a new one
+ */
+export function resolveRequestId(incoming: string | null | undefined): string {
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID()
+}
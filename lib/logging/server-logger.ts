@@ -4,6 +4,7 @@
  */
 
 import { errorReporter } from '@/lib/monitoring/error-reporter';
+import { getLogTraceContext } from './logger';
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'fatal';
 
@@ -27,8 +28,10 @@ class ServerLogger {
   private isProduction = process.env.NODE_ENV === 'production';
 
   private formatLogEntry(entry: ServerLogEntry): string {
-    const { level, message, timestamp, context, error } = entry;
-    const prefix = `[${level.toUpperCase()}] ${timestamp}`;
+    const { level, message, timestamp, context, error, requestId } = entry;
+    const prefix = requestId
+      ? `[${level.toUpperCase()}] ${timestamp} [${requestId}]`
+      : `[${level.toUpperCase()}] ${timestamp}`;
 
     let output = `${prefix} ${message}`;
 
@@ -52,12 +55,15 @@ class ServerLogger {
     context?: Record<string, unknown>,
     error?: Error
   ): ServerLogEntry {
+    const requestContext = getLogTraceContext();
     const entry: ServerLogEntry = {
       level,
       message,
       context,
       timestamp: new Date().toISOString(),
       environment: process.env.NODE_ENV || 'development',
+      requestId: requestContext?.requestId,
+      userId: requestContext?.userId,
     };
 
     if (error) {
@@ -102,7 +108,10 @@ class ServerLogger {
           userId: entry.userId,
         });
       } else {
-        errorReporter.captureMessage(entry.message, 'error', entry.context);
+        errorReporter.captureMessage(entry.message, 'error', {
+          ...entry.context,
+          requestId: entry.requestId,
+        });
       }
     }
   }
@@ -6,7 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateApiKey, hasScope, type ApiScope } from '@/lib/api-keys'
 import { getCurrentUser } from '@/lib/auth/get-current-user'
-import { withRateLimit, addRateLimitHeaders, checkRateLimit } from '@/lib/middleware/rate-limiter'
+import { withRateLimit, addRateLimitHeaders, type RateLimitResult } from '@/lib/middleware/rate-limiter'
 import { logger } from '@/lib/logging'
 
 export interface ApiAuthResult {
@@ -40,44 +40,61 @@ function extractApiKey(request: NextRequest): string | null {
 }
 
 /**
- * Authenticate request using API key OR session
- * Tries API key first, then falls back to session
+ * Authenticate request using an API key only
+ * Used by the public /api/v1 surface, where the organization comes from the key
+ * rather than from a session
  */
-export async function authenticateRequest(
+export async function authenticateApiKey(
   request: NextRequest
 ): Promise<ApiAuthResult> {
-  // Try API key authentication first
   const apiKey = extractApiKey(request)
 
-  if (apiKey) {
-    const validation = await validateApiKey(apiKey)
-
-    if (!validation.valid) {
-      return {
-        authenticated: false,
-        error: validation.error || 'Invalid API key',
-      }
+  if (!apiKey) {
+    return {
+      authenticated: false,
+      error: 'API key required. Provide "Authorization: Bearer <key>" or "X-API-Key: <key>".',
     }
+  }
 
-    if (!validation.key) {
-      return {
-        authenticated: false,
-        error: 'API key validation failed',
-      }
+  const validation = await validateApiKey(apiKey)
+
+  if (!validation.valid) {
+    return {
+      authenticated: false,
+      error: validation.error || 'Invalid API key',
     }
+  }
 
-    // API key authentication successful
-    // Note: api_keys table uses 'created_by' instead of 'user_id'
+  if (!validation.key) {
     return {
-      authenticated: true,
-      authMethod: 'api_key',
-      organizationId: validation.key.organization_id as string | undefined,
-      userId: (validation.key.created_by as string | undefined) || undefined,
-      scopes: validation.key.scopes as string[] | undefined,
-      keyId: validation.key.id as string | undefined,
+      authenticated: false,
+      error: 'API key validation failed',
     }
   }
 
+  // Note: api_keys table uses 'created_by' instead of 'user_id'
+  return {
+    authenticated: true,
+    authMethod: 'api_key',
+    organizationId: validation.key.organization_id as string | undefined,
+    userId: (validation.key.created_by as string | undefined) || undefined,
+    scopes: validation.key.scopes as string[] | undefined,
+    keyId: validation.key.id as string | undefined,
+  }
+}
+
+/**
+ * Authenticate request using API key OR session
+ * Tries API key first, then falls back to session
+ */
+export async function authenticateRequest(
+  request: NextRequest
+): Promise<ApiAuthResult> {
+  // Try API key authentication first
+  if (extractApiKey(request)) {
+    return authenticateApiKey(request)
+  }
+
   // Try session authentication
   try {
     const user = await getCurrentUser()
@@ -295,30 +312,28 @@ export async function requireAuthWithRateLimit(
   }
 
   // Then, check rate limits (unless skipped)
+  let rateLimitResult: RateLimitResult | null = null
+
   if (!options.skipRateLimit) {
-    const rateLimitError = await withRateLimit(request, options.organizationId, {
+    const rateLimit = await withRateLimit(request, options.organizationId, {
       apiKeyId: authResult.data.keyId,
       userId: authResult.data.userId,
     })
 
-    if (rateLimitError) {
+    if (rateLimit.response) {
       return {
-        error: rateLimitError,
+        error: rateLimit.response,
         data: null,
         addHeaders: null,
       }
     }
-  }
 
-  // Get current rate limit status for headers
-  const rateLimitStatus = await checkRateLimit(options.organizationId, {
-    apiKeyId: authResult.data.keyId,
-    windowType: 'minute',
-  })
+    rateLimitResult = rateLimit.result
+  }
 
   // Helper function to add rate limit headers to any response
   const addHeaders = (response: NextResponse): NextResponse => {
-    return addRateLimitHeaders(response, rateLimitStatus)
+    return rateLimitResult ? addRateLimitHeaders(response, rateLimitResult) : response
   }
 
   return {
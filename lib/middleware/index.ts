@@ -21,6 +21,7 @@ export {
 
 // API authentication
 export {
+  authenticateApiKey,
   authenticateRequest,
   checkApiScope,
   requireAuth,
@@ -33,6 +34,10 @@ export {
 // Rate limiting
 export {
   checkRateLimit,
-  incrementRateLimit,
   addRateLimitHeaders,
+  getRateLimitConfig,
+  getRateLimitStatus,
+  invalidateRateLimitConfig,
+  withRateLimit,
+  type RateLimitConfig,
 } from './rate-limiter'
@@ -1,24 +1,32 @@
 /**
  * Rate Limiting Middleware
  * Enforce API rate limits per organization
+ *
+ * Limits come from the organization's rate_limit_configs row when it has one,
+ * otherwise from its subscription plan. Requests are counted by the shared
+ * limiter in @/lib/rate-limit, so limits hold across instances.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createAdminClient } from '@/lib/supabase/admin'
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { errorResponse, rateLimitError } from '@/lib/api/error-handler'
+import { getSubscriptionLimits } from '@/lib/billing/subscriptions'
+import { cacheManager } from '@/lib/cache/cache-manager'
 import { logger } from '@/lib/logging'
+import {
+  applyRateLimitHeaders,
+  getRateLimitHeaders,
+  getViolationContext,
+  rateLimiter,
+  type RateLimitResult,
+  type RateLimitRule,
+} from '@/lib/rate-limit'
+import { createAdminClient } from '@/lib/supabase/admin'
 
-/** Window type for rate limiting */
-type WindowType = 'minute' | 'hour' | 'day';
-
-export interface RateLimitResult {
-  allowed: boolean
-  limit: number
-  remaining: number
-  reset: number // Unix timestamp
-  retryAfter?: number // Seconds
-}
+export type { RateLimitResult } from '@/lib/rate-limit'
 
 export interface RateLimitConfig {
+  tier: string
   requests_per_minute: number
   requests_per_hour: number
   requests_per_day: number
@@ -29,184 +37,146 @@ export interface RateLimitConfig {
   enforce_hard_limits: boolean
 }
 
+/** Free tier limits, used when neither a config nor a plan can be loaded */
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  tier: 'free',
+  requests_per_minute: 60,
+  requests_per_hour: 1000,
+  requests_per_day: 10000,
+  burst_allowance: 10,
+  webhooks_per_minute: 10,
+  webhooks_per_hour: 100,
+  max_concurrent_requests: 10,
+  enforce_hard_limits: true,
+}
+
+const CONFIG_CACHE_NAMESPACE = 'rate-limits'
+const CONFIG_CACHE_TTL_SECONDS = 60
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
 /**
- * Check rate limit for organization
+ * Get rate limit config for organization
+ * Cached for a minute; call invalidateRateLimitConfig after changing it
  */
-export async function checkRateLimit(
-  organizationId: string,
-  options?: {
-    apiKeyId?: string
-    windowType?: 'minute' | 'hour' | 'day'
-    isWebhook?: boolean
-  }
-): Promise<RateLimitResult> {
-  try {
-    const supabase = createAdminClient()
-    const windowType = options?.windowType || 'minute'
+export async function getRateLimitConfig(organizationId: string): Promise<RateLimitConfig> {
+  return cacheManager.memoize(organizationId, () => loadRateLimitConfig(organizationId), {
+    ttl: CONFIG_CACHE_TTL_SECONDS,
+    namespace: CONFIG_CACHE_NAMESPACE,
+  })
+}
 
-    // Call database function to check rate limit
-    const { data, error } = await (supabase as any).rpc('check_rate_limit', {
-      p_organization_id: organizationId,
-      p_api_key_id: options?.apiKeyId || null,
-      p_window_type: windowType,
-    }) as { data: { allowed: boolean; limit_value: number; current_count: number; retry_after?: number }[] | null; error: Error | null }
+/**
+ * Drop the cached config so the next request uses the new limits
+ */
+export async function invalidateRateLimitConfig(organizationId: string): Promise<void> {
+  await cacheManager.delete(organizationId, CONFIG_CACHE_NAMESPACE)
+}
 
-    if (error) {
-      logger.error('Error checking rate limit', undefined, { errorMsg: error instanceof Error ? error.message : String(error)   })
-      // Fail open - allow request if rate limit check fails
-      return {
-        allowed: true,
-        limit: 60,
-        remaining: 60,
-        reset: Math.floor(Date.now() / 1000) + 60,
-      }
-    }
+async function loadRateLimitConfig(organizationId: string): Promise<RateLimitConfig> {
+  const supabase = createAdminClient()
 
-    if (!data || data.length === 0) {
-      // No data returned, fail open
-      return {
-        allowed: true,
-        limit: 60,
-        remaining: 60,
-        reset: Math.floor(Date.now() / 1000) + 60,
-      }
-    }
+  const { data: config, error } = await supabase
+    .from('rate_limit_configs')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle() as { data: RateLimitConfig | null; error: Error | null }
 
-    const result = data[0]
+  if (error) {
+    logger.error('Error getting rate limit config', error, { organizationId })
+  }
 
+  if (config) {
     return {
-      allowed: result.allowed,
-      limit: result.limit_value,
-      remaining: Math.max(0, result.limit_value - result.current_count),
-      reset: Math.floor(Date.now() / 1000) + (result.retry_after ?? 60),
-      retryAfter: result.allowed ? undefined : (result.retry_after ?? undefined),
-    }
-  } catch (error) {
-    logger.error('Error in checkRateLimit', undefined, { errorMsg: error instanceof Error ? error.message : String(error)   })
-    // Fail open
-    return {
-      allowed: true,
-      limit: 60,
-      remaining: 60,
-      reset: Math.floor(Date.now() / 1000) + 60,
+      tier: config.tier,
+      requests_per_minute: config.requests_per_minute,
+      requests_per_hour: config.requests_per_hour,
+      requests_per_day: config.requests_per_day,
+      burst_allowance: config.burst_allowance,
+      webhooks_per_minute: config.webhooks_per_minute,
+      webhooks_per_hour: config.webhooks_per_hour,
+      max_concurrent_requests: config.max_concurrent_requests,
+      enforce_hard_limits: config.enforce_hard_limits,
     }
   }
-}
 
-/**
- * Increment rate limit counter
- */
-export async function incrementRateLimit(
-  organizationId: string,
-  options?: {
-    apiKeyId?: string
-    isWebhook?: boolean
+  // No custom config: use the limits of the organization's plan
+  const { limits } = await getSubscriptionLimits(organizationId)
+
+  if (!limits) {
+    return DEFAULT_RATE_LIMIT_CONFIG
   }
-): Promise<void> {
-  try {
-    const supabase = createAdminClient()
 
-    // Increment for all window types
-    const windowTypes: WindowType[] = ['minute', 'hour', 'day']
-
-    await Promise.all(
-      windowTypes.map((windowType) =>
-        (supabase as any).rpc('increment_rate_limit', {
-          p_organization_id: organizationId,
-          p_api_key_id: options?.apiKeyId || null,
-          p_window_type: windowType,
-          p_is_webhook: options?.isWebhook || false,
-        })
-      )
-    )
-  } catch (error) {
-    logger.error('Error incrementing rate limit', undefined, { errorMsg: error instanceof Error ? error.message : String(error)   })
-    // Don't throw - increment failures shouldn't break requests
+  return {
+    ...DEFAULT_RATE_LIMIT_CONFIG,
+    tier: limits.tier,
+    requests_per_minute: limits.requests_per_minute,
+    requests_per_hour: limits.requests_per_hour,
+    requests_per_day: limits.requests_per_day,
   }
 }
 
 /**
- * Log rate limit violation
+ * Rules for an organization's config
+ *
+ * The minute limit is a token bucket so the burst allowance can absorb
+ * short spikes; hour and day limits use sliding windows.
  */
-export async function logRateLimitViolation(params: {
-  organizationId: string
-  apiKeyId?: string
-  userId?: string
-  endpoint: string
-  method: string
-  limitType: string
-  currentCount: number
-  limitValue: number
-  ipAddress?: string
-  userAgent?: string
-  retryAfter?: number
-}): Promise<void> {
-  try {
-    const supabase = createAdminClient()
-
-    await (supabase as any).from('rate_limit_violations').insert({
-      organization_id: params.organizationId,
-      api_key_id: params.apiKeyId,
-      user_id: params.userId,
-      endpoint: params.endpoint,
-      method: params.method,
-      limit_type: params.limitType,
-      current_count: params.currentCount,
-      limit_value: params.limitValue,
-      ip_address: params.ipAddress,
-      user_agent: params.userAgent,
-      response_status: 429,
-      retry_after: params.retryAfter,
-    })
-  } catch (error) {
-    logger.error('Error logging rate limit violation', undefined, { errorMsg: error instanceof Error ? error.message : String(error)   })
+export function getRateLimitRules(config: RateLimitConfig, isWebhook: boolean = false): RateLimitRule[] {
+  if (isWebhook) {
+    return [
+      { name: 'webhooks_per_minute', limit: config.webhooks_per_minute, windowMs: MINUTE_MS },
+      { name: 'webhooks_per_hour', limit: config.webhooks_per_hour, windowMs: HOUR_MS },
+    ]
   }
+
+  return [
+    {
+      name: 'per_minute',
+      limit: config.requests_per_minute,
+      windowMs: MINUTE_MS,
+      algorithm: 'token-bucket',
+      burst: config.burst_allowance,
+    },
+    { name: 'per_hour', limit: config.requests_per_hour, windowMs: HOUR_MS },
+    { name: 'per_day', limit: config.requests_per_day, windowMs: DAY_MS },
+  ]
+}
+
+function getIdentifier(organizationId: string, isWebhook?: boolean): string {
+  return isWebhook ? `org:${organizationId}:webhooks` : `org:${organizationId}`
 }
 
 /**
- * Get rate limit config for organization
+ * Count a request against the organization's limits
  */
-export async function getRateLimitConfig(
-  organizationId: string
-): Promise<RateLimitConfig | null> {
-  try {
-    const supabase = createAdminClient()
-
-    const { data, error } = await (supabase as any)
-      .from('rate_limit_configs')
-      .select('*')
-      .eq('organization_id', organizationId)
-      .single() as { data: RateLimitConfig | null; error: Error | null }
-
-    if (error || !data) {
-      // Return default free tier if no config found
-      const { data: tierData } = await (supabase as any)
-        .from('rate_limit_tiers')
-        .select('*')
-        .eq('tier_name', 'free')
-        .single() as { data: RateLimitConfig | null }
-
-      if (tierData) {
-        return {
-          requests_per_minute: tierData.requests_per_minute,
-          requests_per_hour: tierData.requests_per_hour,
-          requests_per_day: tierData.requests_per_day,
-          burst_allowance: tierData.burst_allowance,
-          webhooks_per_minute: tierData.webhooks_per_minute,
-          webhooks_per_hour: tierData.webhooks_per_hour,
-          max_concurrent_requests: tierData.max_concurrent_requests,
-          enforce_hard_limits: true,
-        }
-      }
-
-      return null
-    }
-
-    return data
-  } catch (error) {
-    logger.error('Error getting rate limit config', undefined, { errorMsg: error instanceof Error ? error.message : String(error)   })
-    return null
+export async function checkRateLimit(
+  organizationId: string,
+  options?: {
+    isWebhook?: boolean
+    request?: NextRequest
+    apiKeyId?: string
+    userId?: string
   }
+): Promise<RateLimitResult> {
+  const config = await getRateLimitConfig(organizationId)
+
+  return rateLimiter.check(
+    getIdentifier(organizationId, options?.isWebhook),
+    getRateLimitRules(config, options?.isWebhook),
+    {
+      enforce: config.enforce_hard_limits,
+      violation: options?.request
+        ? getViolationContext(options.request, 'organization', {
+            organizationId,
+            apiKeyId: options.apiKeyId,
+            userId: options.userId,
+          })
+        : undefined,
+    }
+  )
 }
 
 /**
@@ -249,6 +219,8 @@ export async function updateRateLimitTier(
       return { success: false, error }
     }
 
+    await invalidateRateLimitConfig(organizationId)
+
     return { success: true }
   } catch (error) {
     logger.error('Error updating rate limit tier', undefined, { errorMsg: error instanceof Error ? error.message : String(error)   })
@@ -258,6 +230,12 @@ export async function updateRateLimitTier(
 
 /**
  * Rate limiting middleware for API routes
+ *
+ * Counts the request against the organization's minute, hour and day
+ * limits and records a violation when one is exceeded.
+ *
+ * @returns The limit result for response headers, and a 429 response when
+ * the request must be rejected
  */
 export async function withRateLimit(
   request: NextRequest,
@@ -265,79 +243,23 @@ export async function withRateLimit(
   options?: {
     apiKeyId?: string
     userId?: string
-    windowType?: 'minute' | 'hour' | 'day'
     isWebhook?: boolean
   }
-): Promise<NextResponse | null> {
-  const windowType = options?.windowType || 'minute'
-
-  // Check all window types (minute, hour, day)
-  const checks = await Promise.all([
-    checkRateLimit(organizationId, {
-      ...options,
-      windowType: 'minute',
-    }),
-    checkRateLimit(organizationId, {
-      ...options,
-      windowType: 'hour',
-    }),
-    checkRateLimit(organizationId, {
-      ...options,
-      windowType: 'day',
-    }),
-  ])
-
-  // Find first violation
-  const violation = checks.find((check) => !check.allowed)
-
-  if (violation) {
-    // Log violation
-    await logRateLimitViolation({
-      organizationId,
-      apiKeyId: options?.apiKeyId,
-      userId: options?.userId,
-      endpoint: request.nextUrl.pathname,
-      method: request.method,
-      limitType: `per_${windowType}`,
-      currentCount: violation.limit - violation.remaining,
-      limitValue: violation.limit,
-      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined,
-      userAgent: request.headers.get('user-agent') || undefined,
-      retryAfter: violation.retryAfter,
-    })
-
-    // Return 429 response
-    return NextResponse.json(
-      {
-        error: 'Rate limit exceeded',
-        message: `Too many requests. Please try again in ${violation.retryAfter} seconds.`,
-        limit: violation.limit,
-        remaining: 0,
-        reset: violation.reset,
-      },
-      {
-        status: 429,
-        headers: {
-          'X-RateLimit-Limit': violation.limit.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': violation.reset.toString(),
-          'Retry-After': (violation.retryAfter || 60).toString(),
-        },
-      }
-    )
-  }
+): Promise<{ result: RateLimitResult; response: NextResponse | null }> {
+  const result = await checkRateLimit(organizationId, { ...options, request })
 
-  // Increment counters
-  await incrementRateLimit(organizationId, {
-    apiKeyId: options?.apiKeyId,
-    isWebhook: options?.isWebhook,
-  })
+  if (result.allowed) {
+    return { result, response: null }
+  }
 
-  // Add rate limit headers to response (to be added by caller)
-  // Using the minute window for response headers
-  const _minuteCheck = checks[0]
+  const response = errorResponse(
+    rateLimitError(
+      `Too many requests. Please try again in ${result.retryAfter} seconds.`,
+      getRateLimitHeaders(result)
+    )
+  )
 
-  return null // No rate limit violation
+  return { result, response }
 }
 
 /**
@@ -347,32 +269,24 @@ export function addRateLimitHeaders(
   response: NextResponse,
   rateLimitResult: RateLimitResult
 ): NextResponse {
-  response.headers.set('X-RateLimit-Limit', rateLimitResult.limit.toString())
-  response.headers.set('X-RateLimit-Remaining', rateLimitResult.remaining.toString())
-  response.headers.set('X-RateLimit-Reset', rateLimitResult.reset.toString())
-
-  return response
+  return applyRateLimitHeaders(response, rateLimitResult)
 }
 
 /**
- * Get current rate limit status
+ * Get current rate limit status without counting a request
  */
 export async function getRateLimitStatus(
-  organizationId: string,
-  options?: {
-    apiKeyId?: string
-  }
+  organizationId: string
 ): Promise<{
   minute: RateLimitResult
   hour: RateLimitResult
   day: RateLimitResult
 }> {
-  const [minute, hour, day] = await Promise.all([
-    checkRateLimit(organizationId, { ...options, windowType: 'minute' }),
-    checkRateLimit(organizationId, { ...options, windowType: 'hour' }),
-    checkRateLimit(organizationId, { ...options, windowType: 'day' }),
-  ])
+  const config = await getRateLimitConfig(organizationId)
+  const [minute, hour, day] = await rateLimiter.peek(
+    getIdentifier(organizationId),
+    getRateLimitRules(config)
+  )
 
   return { minute, hour, day }
 }
-
@@ -60,6 +60,7 @@ export async function requireOrgAccess(
     .select('role')
     .eq('organization_id', organizationId)
     .eq('user_id', user.id)
+    .is('deactivated_at', null)
     .single() as { data: { role: string } | null; error: Error | null }
 
   if (error || !membership) {
@@ -101,6 +102,7 @@ export async function requireOrgAdmin(
     .select('role')
     .eq('organization_id', organizationId)
     .eq('user_id', user.id)
+    .is('deactivated_at', null)
     .in('role', ['owner', 'admin'])
     .single() as { data: { role: string } | null; error: Error | null }
 
@@ -143,6 +145,7 @@ export async function requireOrgOwner(
     .select('role')
     .eq('organization_id', organizationId)
     .eq('user_id', user.id)
+    .is('deactivated_at', null)
     .eq('role', 'owner')
     .single() as { data: { role: string } | null; error: Error | null }
 
@@ -233,6 +236,7 @@ export async function getUserOrgRoleMiddleware(
     .select('role')
     .eq('organization_id', organizationId)
     .eq('user_id', userId)
+    .is('deactivated_at', null)
     .single() as { data: { role: string } | null; error: Error | null }
 
   if (error || !data) {
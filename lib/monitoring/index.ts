@@ -13,11 +13,29 @@ export {
 } from './performance'
 
 export {
-  metricsCollector,
-  withMetrics,
-  createMetricsEndpoint,
+  metricsRegistry,
+  httpRequestDuration,
+  httpRequestsInFlight,
+  dbQueryDuration,
+  operationDuration,
+  userActionsTotal,
+  trackQuery,
+  trackUserAction,
 } from './metrics'
 
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  DEFAULT_BUCKETS,
+  PROMETHEUS_CONTENT_TYPE,
+  OPENMETRICS_CONTENT_TYPE,
+  getExpositionFormat,
+  type ExpositionFormat,
+  type LabelValues,
+} from './registry'
+
 export {
   webVitalsMonitor,
   useWebVitals,
@@ -4,6 +4,7 @@
  */
 
 import { logger } from '@/lib/logging';
+import { operationDuration } from './metrics'
 
 interface PerformanceMetric {
   name: string
@@ -41,6 +42,7 @@ class PerformanceMonitor {
     const duration = performance.now() - startTime
     delete this.timers[name]
 
+    operationDuration.observe({ operation: name, success: String(!metadata?.error) }, duration / 1000)
     this.recordMetric({
       name,
       duration,
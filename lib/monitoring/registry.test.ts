@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_SERIES_PER_METRIC, MetricsRegistry, getExpositionFormat } from './registry'
+
+describe('MetricsRegistry', () => {
+  it('renders counters and gauges with escaped labels', () => {
+    const registry = new MetricsRegistry()
+    const requests = registry.counter<'route'>({
+      name: 'requests_total',
+      help: 'Requests served',
+      labelNames: ['route'],
+    })
+    const inFlight = registry.gauge({ name: 'in_flight', help: 'Requests in flight' })
+
+    requests.inc({ route: '/api/a' })
+    requests.inc({ route: '/api/a' }, 2)
+    requests.inc({ route: 'say "hi"\n' })
+    inFlight.set(undefined, 3)
+    inFlight.dec()
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP requests_total Requests served',
+        '# TYPE requests_total counter',
+        'requests_total{route="/api/a"} 3',
+        'requests_total{route="say \\"hi\\"\\n"} 1',
+        '# HELP in_flight Requests in flight',
+        '# TYPE in_flight gauge',
+        'in_flight 2',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('renders cumulative histogram buckets with sum and count', () => {
+    const registry = new MetricsRegistry()
+    const latency = registry.histogram<'status'>({
+      name: 'latency_seconds',
+      help: 'Latency',
+      labelNames: ['status'],
+      buckets: [0.1, 1],
+    })
+
+    latency.observe({ status: '200' }, 0.05)
+    latency.observe({ status: '200' }, 0.5)
+    latency.observe({ status: '200' }, 3)
+
+    expect(registry.render().split('\n').slice(2, 7)).toEqual([
+      'latency_seconds_bucket{status="200",le="0.1"} 1',
+      'latency_seconds_bucket{status="200",le="1"} 2',
+      'latency_seconds_bucket{status="200",le="+Inf"} 3',
+      'latency_seconds_sum{status="200"} 3.55',
+      'latency_seconds_count{status="200"} 3',
+    ])
+  })
+
+  it('names counter families without _total in OpenMetrics and ends with EOF', () => {
+    const registry = new MetricsRegistry()
+    registry.counter({ name: 'jobs_total', help: 'Jobs' }).inc()
+
+    expect(registry.render('openmetrics')).toBe(
+      ['# HELP jobs Jobs', '# TYPE jobs counter', 'jobs_total 1', '# EOF', ''].join('\n')
+    )
+  })
+
+  it('returns the existing metric when a name is registered again', () => {
+    const registry = new MetricsRegistry()
+    const first = registry.counter({ name: 'jobs_total', help: 'Jobs' })
+    expect(registry.counter({ name: 'jobs_total', help: 'Jobs' })).toBe(first)
+    expect(() => registry.gauge({ name: 'jobs_total', help: 'Jobs' })).toThrow(/already registered/)
+  })
+
+  it('rejects invalid names, mismatched labels and decreasing counters', () => {
+    const registry = new MetricsRegistry()
+    expect(() => registry.counter({ name: 'jobs', help: 'Jobs' })).toThrow(/_total/)
+    expect(() => registry.gauge({ name: 'bad-name', help: 'Bad' })).toThrow(/Invalid metric name/)
+
+    const counter = registry.counter<'type'>({ name: 'runs_total', help: 'Runs', labelNames: ['type'] })
+    expect(() => counter.inc({ kind: 'x' } as never)).toThrow(/expects labels/)
+    expect(() => counter.inc({ type: 'x' }, -1)).toThrow(/only increase/)
+  })
+
+  it('drops new label combinations past the series limit', () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter<'id'>({ name: 'hits_total', help: 'Hits', labelNames: ['id'] })
+
+    for (let i = 0; i <= MAX_SERIES_PER_METRIC; i++) {
+      counter.inc({ id: String(i) })
+    }
+
+    expect(counter.get({ id: String(MAX_SERIES_PER_METRIC) })).toBe(0)
+    expect(counter.droppedCount).toBe(1)
+    counter.inc({ id: '0' })
+    expect(counter.get({ id: '0' })).toBe(2)
+  })
+
+  it('reset clears series but keeps metrics registered', () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter({ name: 'jobs_total', help: 'Jobs' })
+    counter.inc()
+    registry.reset()
+    expect(counter.get()).toBe(0)
+    expect(registry.render()).toBe('# HELP jobs_total Jobs\n# TYPE jobs_total counter\n')
+  })
+})
+
+describe('getExpositionFormat', () => {
+  it('prefers OpenMetrics only when the scraper accepts it', () => {
+    expect(getExpositionFormat('application/openmetrics-text; version=1.0.0,text/plain;q=0.5')).toBe('openmetrics')
+    expect(getExpositionFormat('text/plain')).toBe('prometheus')
+    expect(getExpositionFormat(null)).toBe('prometheus')
+  })
+})
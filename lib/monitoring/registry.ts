@@ -0,0 +1,383 @@
+/**
+ * Metrics Registry
+ * Counters, gauges and histograms with labels, rendered in the Prometheus
+ * text exposition format or as OpenMetrics. Safe to import on the client.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MetricType = 'counter' | 'gauge' | 'histogram'
+
+export type ExpositionFormat = 'prometheus' | 'openmetrics'
+
+/** One value for each of a metric's label names */
+export type LabelValues<L extends string> = Record<L, string>
+
+export interface MetricOptions<L extends string> {
+  /** Metric name; counters must end in `_total` */
+  name: string
+  help: string
+  labelNames?: readonly L[]
+}
+
+export interface HistogramOptions<L extends string> extends MetricOptions<L> {
+  /** Upper bounds of the buckets, in the observed unit */
+  buckets?: readonly number[]
+}
+
+interface Sample {
+  suffix: string
+  labels: Record<string, string>
+  value: number
+}
+
+interface Series<V> {
+  labels: Record<string, string>
+  value: V
+}
+
+interface HistogramValue {
+  /** Observations per bucket, not cumulative; the last entry is +Inf */
+  counts: number[]
+  sum: number
+  count: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Latency buckets in seconds, from 5ms to 10s */
+export const DEFAULT_BUCKETS: readonly number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+
+/** New label combinations past this are dropped so one unbounded label can't exhaust memory */
+export const MAX_SERIES_PER_METRIC = 1000
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  if (Number.isNaN(value)) return 'NaN'
+  return String(value)
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+abstract class Metric<L extends string, V> {
+  abstract readonly type: MetricType
+  readonly name: string
+  readonly help: string
+  readonly labelNames: readonly L[]
+  private series = new Map<string, Series<V>>()
+  private dropped = 0
+
+  constructor(options: MetricOptions<L>) {
+    if (!METRIC_NAME_PATTERN.test(options.name)) {
+      throw new Error(`Invalid metric name: ${options.name}`)
+    }
+    for (const labelName of options.labelNames ?? []) {
+      if (!LABEL_NAME_PATTERN.test(labelName) || labelName.startsWith('__') || labelName === 'le') {
+        throw new Error(`Invalid label name for ${options.name}: ${labelName}`)
+      }
+    }
+
+    this.name = options.name
+    this.help = options.help
+    this.labelNames = options.labelNames ?? []
+  }
+
+  protected abstract createValue(): V
+
+  protected abstract toSamples(value: V): Sample[]
+
+  /**
+   * The series for these label values, created on first use
+   *
+   * @returns null when the metric already has MAX_SERIES_PER_METRIC series
+   */
+  protected getSeries(labels?: LabelValues<L>): V | null {
+    const provided = labels ? Object.keys(labels) : []
+    if (provided.length !== this.labelNames.length || provided.some((name) => !this.labelNames.includes(name as L))) {
+      throw new Error(`${this.name} expects labels [${this.labelNames.join(', ')}], got [${provided.join(', ')}]`)
+    }
+
+    const values = this.labelNames.map((name) => String((labels as LabelValues<L>)[name]))
+    const key = JSON.stringify(values)
+
+    const existing = this.series.get(key)
+    if (existing) return existing.value
+
+    if (this.series.size >= MAX_SERIES_PER_METRIC) {
+      this.dropped++
+      return null
+    }
+
+    const series: Series<V> = {
+      labels: Object.fromEntries(this.labelNames.map((name, index) => [name, values[index]])),
+      value: this.createValue(),
+    }
+    this.series.set(key, series)
+    return series.value
+  }
+
+  protected peekSeries(labels?: LabelValues<L>): V | undefined {
+    const values = this.labelNames.map((name) => String(labels?.[name] ?? ''))
+    return this.series.get(JSON.stringify(values))?.value
+  }
+
+  /** Observations ignored because the series limit was reached */
+  get droppedCount(): number {
+    return this.dropped
+  }
+
+  /** Every sample line of the metric, with its labels */
+  collect(): Sample[] {
+    return [...this.series.values()].flatMap(({ labels, value }) =>
+      this.toSamples(value).map((sample) => ({ ...sample, labels: { ...labels, ...sample.labels } }))
+    )
+  }
+
+  reset(): void {
+    this.series.clear()
+    this.dropped = 0
+  }
+}
+
+/**
+ * A value that only goes up, e.g. requests served
+ */
+export class Counter<L extends string = never> extends Metric<L, { value: number }> {
+  readonly type = 'counter'
+
+  constructor(options: MetricOptions<L>) {
+    super(options)
+    if (!options.name.endsWith('_total')) {
+      throw new Error(`Counter names must end in _total: ${options.name}`)
+    }
+  }
+
+  protected createValue() {
+    return { value: 0 }
+  }
+
+  protected toSamples({ value }: { value: number }): Sample[] {
+    return [{ suffix: '', labels: {}, value }]
+  }
+
+  inc(labels?: LabelValues<L>, value = 1): void {
+    if (!(value >= 0)) {
+      throw new Error(`${this.name} can only increase, got ${value}`)
+    }
+    const series = this.getSeries(labels)
+    if (series) series.value += value
+  }
+
+  get(labels?: LabelValues<L>): number {
+    return this.peekSeries(labels)?.value ?? 0
+  }
+}
+
+/**
+ * A value that goes up and down, e.g. requests in flight
+ */
+export class Gauge<L extends string = never> extends Metric<L, { value: number }> {
+  readonly type = 'gauge'
+
+  protected createValue() {
+    return { value: 0 }
+  }
+
+  protected toSamples({ value }: { value: number }): Sample[] {
+    return [{ suffix: '', labels: {}, value }]
+  }
+
+  set(labels: LabelValues<L> | undefined, value: number): void {
+    const series = this.getSeries(labels)
+    if (series) series.value = value
+  }
+
+  inc(labels?: LabelValues<L>, value = 1): void {
+    const series = this.getSeries(labels)
+    if (series) series.value += value
+  }
+
+  dec(labels?: LabelValues<L>, value = 1): void {
+    this.inc(labels, -value)
+  }
+
+  get(labels?: LabelValues<L>): number | undefined {
+    return this.peekSeries(labels)?.value
+  }
+}
+
+/**
+ * Observations counted into buckets, e.g. request latency
+ */
+export class Histogram<L extends string = never> extends Metric<L, HistogramValue> {
+  readonly type = 'histogram'
+  readonly buckets: readonly number[]
+
+  constructor(options: HistogramOptions<L>) {
+    super(options)
+    const buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b)
+    if (buckets.length === 0 || buckets.some((bound, index) => !Number.isFinite(bound) || bound === buckets[index - 1])) {
+      throw new Error(`${options.name} needs distinct, finite bucket bounds`)
+    }
+    this.buckets = buckets
+  }
+
+  protected createValue(): HistogramValue {
+    return { counts: new Array<number>(this.buckets.length + 1).fill(0), sum: 0, count: 0 }
+  }
+
+  protected toSamples({ counts, sum, count }: HistogramValue): Sample[] {
+    let cumulative = 0
+    const bucketSamples = [...this.buckets, Infinity].map((bound, index) => {
+      cumulative += counts[index]
+      return { suffix: '_bucket', labels: { le: formatValue(bound) }, value: cumulative }
+    })
+    return [...bucketSamples, { suffix: '_sum', labels: {}, value: sum }, { suffix: '_count', labels: {}, value: count }]
+  }
+
+  observe(labels: LabelValues<L> | undefined, value: number): void {
+    const series = this.getSeries(labels)
+    if (!series) return
+
+    const index = this.buckets.findIndex((bound) => value <= bound)
+    series.counts[index === -1 ? this.buckets.length : index]++
+    series.sum += value
+    series.count++
+  }
+
+  /**
+   * Start timing; the returned function observes the elapsed seconds
+   */
+  startTimer(): (labels?: LabelValues<L>) => number {
+    const start = performance.now()
+    return (labels) => {
+      const seconds = (performance.now() - start) / 1000
+      this.observe(labels, seconds)
+      return seconds
+    }
+  }
+
+  get(labels?: LabelValues<L>): { sum: number; count: number } | undefined {
+    const series = this.peekSeries(labels)
+    return series ? { sum: series.sum, count: series.count } : undefined
+  }
+}
+
+type AnyMetric = Counter<string> | Gauge<string> | Histogram<string>
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * A set of named metrics rendered together
+ *
+ * Registering a name again returns the existing metric, so modules that are
+ * evaluated more than once (hot reload) keep counting into the same series.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, AnyMetric>()
+
+  private register<M extends AnyMetric>(type: MetricType, name: string, create: () => M): M {
+    const existing = this.metrics.get(name)
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`)
+      }
+      return existing as M
+    }
+
+    const metric = create()
+    this.metrics.set(name, metric)
+    return metric
+  }
+
+  counter<L extends string = never>(options: MetricOptions<L>): Counter<L> {
+    return this.register('counter', options.name, () => new Counter<L>(options))
+  }
+
+  gauge<L extends string = never>(options: MetricOptions<L>): Gauge<L> {
+    return this.register('gauge', options.name, () => new Gauge<L>(options))
+  }
+
+  histogram<L extends string = never>(options: HistogramOptions<L>): Histogram<L> {
+    return this.register('histogram', options.name, () => new Histogram<L>(options))
+  }
+
+  getMetric(name: string): AnyMetric | undefined {
+    return this.metrics.get(name)
+  }
+
+  /**
+   * Render every metric in the text exposition format
+   *
+   * OpenMetrics names counter families without the `_total` suffix and ends
+   * with `# EOF`; otherwise the formats are the same.
+   */
+  render(format: ExpositionFormat = 'prometheus'): string {
+    const lines: string[] = []
+
+    for (const metric of this.metrics.values()) {
+      const family =
+        format === 'openmetrics' && metric.type === 'counter' ? metric.name.slice(0, -'_total'.length) : metric.name
+
+      lines.push(`# HELP ${family} ${escapeHelp(metric.help)}`)
+      lines.push(`# TYPE ${family} ${metric.type}`)
+      for (const sample of metric.collect()) {
+        lines.push(`${metric.name}${sample.suffix}${formatLabels(sample.labels)} ${formatValue(sample.value)}`)
+      }
+    }
+
+    if (format === 'openmetrics') {
+      lines.push('# EOF')
+    }
+
+    return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+  }
+
+  /** Clear every series, keeping the metrics registered */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset()
+    }
+  }
+}
+
+/**
+ * The exposition format a scraper asked for in its Accept header
+ */
+export function getExpositionFormat(accept: string | null): ExpositionFormat {
+  return accept?.includes('application/openmetrics-text') ? 'openmetrics' : 'prometheus'
+}
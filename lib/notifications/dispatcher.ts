@@ -0,0 +1,229 @@
+/**
+ * Notification Dispatcher
+ * The one place notifications are sent from (server-only). Each kind is
+ * routed to the notification center, Web Push and email according to the
+ * user's preferences; emails may wait in a queue for the user's digest or the
+ * end of their quiet hours, which the digest cron then sends.
+ */
+
+import { notificationEmailQueueRepository } from '@/lib/db/notification-email-queue';
+import { notificationPreferencesRepository } from '@/lib/db/notification-preferences';
+import { notificationRepository } from '@/lib/db/notifications';
+import { pushSubscriptionRepository } from '@/lib/db/push-subscriptions';
+import { userRepository } from '@/lib/db/users';
+import { emailService } from '@/lib/email';
+import { logger } from '@/lib/logging';
+import { deliverPush } from '@/lib/push/delivery';
+import { getVapidDetails } from '@/lib/push/web-push';
+import { resolveTimezone } from '@/lib/reminders/schedule';
+import type { Database } from '@/lib/types/supabase';
+import { NOTIFICATION_KINDS, type NotificationKind, type NotificationSeverity } from './kinds';
+import { resolvePreferences, routeNotification, type NotificationPreferences } from './routing';
+
+type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+
+export interface NotificationContent {
+  title: string;
+  message: string;
+  /** Path within the app the notification links to */
+  actionUrl?: string | null;
+  /** Overrides the kind's usual styling */
+  severity?: NotificationSeverity;
+}
+
+export interface NotificationDispatchResult {
+  /** The notification center entry, unless the user turned it off */
+  notification: NotificationRow | null;
+  /** Browsers the push was delivered to */
+  push: number;
+  email: 'none' | 'sent' | 'queued' | 'failed';
+}
+
+export interface DigestDispatchResult {
+  /** Users with queued emails due */
+  due: number;
+  /** Emails sent, each covering one or more notifications */
+  sent: number;
+  notifications: number;
+  /** Users without an email address; their queued emails are dropped */
+  skipped: number;
+  failed: string[];
+}
+
+/**
+ * Send a notification to a user on the channels they chose for its kind
+ *
+ * Never throws: a notification that cannot be delivered must not fail the
+ * action that triggered it. Failures are logged per channel.
+ */
+export async function sendNotification(
+  userId: string,
+  kind: NotificationKind,
+  content: NotificationContent,
+  now: Date = new Date()
+): Promise<NotificationDispatchResult> {
+  const result: NotificationDispatchResult = { notification: null, push: 0, email: 'none' };
+
+  let preferences: NotificationPreferences;
+  let timezone: string;
+  try {
+    const [stored, storedTimezone] = await Promise.all([
+      notificationPreferencesRepository.getByUser(userId),
+      notificationPreferencesRepository.getTimezone(userId),
+    ]);
+    preferences = stored;
+    timezone = resolveTimezone(storedTimezone);
+  } catch {
+    // Fall back to the kind's defaults rather than dropping the notification
+    preferences = resolvePreferences(null);
+    timezone = 'UTC';
+  }
+
+  const route = routeNotification(kind, preferences, now, timezone);
+
+  if (route.in_app) {
+    try {
+      result.notification = await notificationRepository.createNotification({
+        user_id: userId,
+        kind,
+        type: content.severity ?? NOTIFICATION_KINDS[kind].severity,
+        title: content.title,
+        message: content.message,
+        action_url: content.actionUrl ?? null,
+      });
+    } catch (error: unknown) {
+      logger.error('Error creating in-app notification', error instanceof Error ? error : undefined, { userId, kind });
+    }
+  }
+
+  if (route.push) {
+    try {
+      result.push = await pushToUser(userId, kind, content);
+    } catch (error: unknown) {
+      logger.error('Error pushing notification', error instanceof Error ? error : undefined, { userId, kind });
+    }
+  }
+
+  try {
+    switch (route.email.action) {
+      case 'send':
+        result.email = (await emailNotification(userId, content)) ? 'sent' : 'failed';
+        break;
+      case 'queue':
+        await notificationEmailQueueRepository.enqueue({
+          user_id: userId,
+          notification_id: result.notification?.id ?? null,
+          kind,
+          title: content.title,
+          message: content.message,
+          action_url: content.actionUrl ?? null,
+          reason: route.email.reason,
+          deliver_after: route.email.deliverAfter.toISOString(),
+        });
+        result.email = 'queued';
+        break;
+    }
+  } catch (error: unknown) {
+    logger.error('Error emailing notification', error instanceof Error ? error : undefined, { userId, kind });
+    result.email = 'failed';
+  }
+
+  return result;
+}
+
+/**
+ * Send every queued notification email that is due, one email per user
+ */
+export async function dispatchNotificationDigests(now: Date = new Date()): Promise<DigestDispatchResult> {
+  const result: DigestDispatchResult = { due: 0, sent: 0, notifications: 0, skipped: 0, failed: [] };
+
+  const userIds = await notificationEmailQueueRepository.getDueUserIds(now);
+  result.due = userIds.length;
+
+  for (const userId of userIds) {
+    try {
+      const items = await notificationEmailQueueRepository.claimDue(userId, now);
+      if (items.length === 0) continue;
+
+      const profile = await userRepository.findByIdOrNull(userId);
+      if (!profile?.email) {
+        result.skipped++;
+        continue;
+      }
+
+      const { digest } = await notificationPreferencesRepository.getByUser(userId);
+      const frequency = digest.frequency !== 'never' && items.some((item) => item.reason === 'digest')
+        ? digest.frequency
+        : null;
+
+      const { success } = items.length === 1 && !frequency
+        ? await emailService.sendNotification(profile.email, {
+            name: profile.full_name,
+            title: items[0].title,
+            message: items[0].message,
+            actionUrl: items[0].action_url,
+          })
+        : await emailService.sendNotificationDigest(profile.email, {
+            name: profile.full_name,
+            frequency,
+            items: items.map((item) => ({ title: item.title, message: item.message, actionUrl: item.action_url })),
+          });
+
+      if (success) {
+        result.sent++;
+        result.notifications += items.length;
+      } else {
+        // Try again on the next run
+        await notificationEmailQueueRepository.release(items.map((item) => item.id));
+        result.failed.push(userId);
+      }
+    } catch (error: unknown) {
+      logger.error('Error sending notification digest', error instanceof Error ? error : undefined, { userId });
+      result.failed.push(userId);
+    }
+  }
+
+  logger.info('Dispatched notification digests', {
+    due: result.due,
+    sent: result.sent,
+    failed: result.failed.length,
+  });
+
+  return result;
+}
+
+/**
+ * Push to each of the user's browsers
+ *
+ * @returns Number of browsers the push service accepted the message for
+ */
+async function pushToUser(userId: string, kind: NotificationKind, content: NotificationContent): Promise<number> {
+  const vapid = getVapidDetails();
+  if (!vapid) return 0;
+
+  const subscriptions = await pushSubscriptionRepository.getByUser(userId);
+  if (subscriptions.length === 0) return 0;
+
+  const { delivered } = await deliverPush(
+    subscriptions,
+    { title: content.title, body: content.message, url: content.actionUrl || '/dashboard/notifications' },
+    vapid,
+    { ttl: 24 * 60 * 60, urgency: NOTIFICATION_KINDS[kind].urgent ? 'high' : 'normal' }
+  );
+
+  return delivered;
+}
+
+async function emailNotification(userId: string, content: NotificationContent): Promise<boolean> {
+  const profile = await userRepository.findByIdOrNull(userId);
+  if (!profile?.email) return false;
+
+  const { success } = await emailService.sendNotification(profile.email, {
+    name: profile.full_name,
+    title: content.title,
+    message: content.message,
+    actionUrl: content.actionUrl,
+  });
+
+  return success;
+}
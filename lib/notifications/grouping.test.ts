@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { groupNotifications } from './grouping';
+
+describe('groupNotifications', () => {
+  const now = new Date('2026-01-15T12:00:00');
+  const notifications = [
+    { id: '1', kind: 'achievement_unlocked', created_at: new Date('2026-01-15T09:00:00').toISOString() },
+    { id: '2', kind: 'course_enrollment', created_at: new Date('2026-01-14T09:00:00').toISOString() },
+    { id: '3', kind: null, created_at: new Date('2026-01-12T09:00:00').toISOString() },
+    { id: '4', kind: 'assignment_graded', created_at: new Date('2025-12-01T09:00:00').toISOString() },
+  ];
+
+  it('groups by day, newest first', () => {
+    const groups = groupNotifications(notifications, 'date', now);
+
+    expect(groups.map((group) => [group.label, group.items.map((item) => item.id)])).toEqual([
+      ['Today', ['1']],
+      ['Yesterday', ['2']],
+      ['Earlier this week', ['3']],
+      ['Older', ['4']],
+    ]);
+  });
+
+  it('groups by category, with older rows under announcements', () => {
+    const groups = groupNotifications(notifications, 'category', now);
+
+    expect(groups.map((group) => [group.label, group.items.map((item) => item.id)])).toEqual([
+      ['Courses', ['2', '4']],
+      ['Achievements', ['1']],
+      ['Announcements', ['3']],
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Notification Grouping
+ * Splits a newest-first notification list into sections for the
+ * notification center, by day or by kind of notification
+ */
+
+import { differenceInCalendarDays } from 'date-fns';
+import { NOTIFICATION_CATEGORIES, getNotificationCategory, type NotificationCategory } from './kinds';
+
+export type NotificationGrouping = 'none' | 'date' | 'category';
+
+export interface NotificationGroup<T> {
+  key: string;
+  label: string;
+  items: T[];
+}
+
+interface GroupableNotification {
+  kind?: string | null;
+  created_at: string | null;
+}
+
+function getDateGroup(createdAt: string | null, now: Date): { key: string; label: string } {
+  const days = createdAt ? differenceInCalendarDays(now, new Date(createdAt)) : Infinity;
+
+  if (days <= 0) return { key: 'today', label: 'Today' };
+  if (days === 1) return { key: 'yesterday', label: 'Yesterday' };
+  if (days < 7) return { key: 'this_week', label: 'Earlier this week' };
+  return { key: 'older', label: 'Older' };
+}
+
+/**
+ * Group notifications, keeping their order within each group
+ *
+ * Date groups follow the list order (newest first); category groups follow
+ * the order categories are defined in. Empty groups are left out.
+ */
+export function groupNotifications<T extends GroupableNotification>(
+  notifications: T[],
+  grouping: NotificationGrouping,
+  now: Date = new Date()
+): NotificationGroup<T>[] {
+  if (grouping === 'none') {
+    return notifications.length > 0 ? [{ key: 'all', label: 'All', items: notifications }] : [];
+  }
+
+  const groups = new Map<string, NotificationGroup<T>>();
+
+  if (grouping === 'category') {
+    for (const category of Object.keys(NOTIFICATION_CATEGORIES) as NotificationCategory[]) {
+      groups.set(category, { key: category, label: NOTIFICATION_CATEGORIES[category].label, items: [] });
+    }
+  }
+
+  for (const notification of notifications) {
+    const { key, label } = grouping === 'date'
+      ? getDateGroup(notification.created_at, now)
+      : { key: getNotificationCategory(notification.kind), label: '' };
+
+    const group = groups.get(key) ?? { key, label, items: [] };
+    group.items.push(notification);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].filter((group) => group.items.length > 0);
+}
@@ -1,11 +1,56 @@
 /**
  * Notifications Barrel Export
- * Centralized exports for realtime notification management
+ * Centralized exports for notification kinds, channel routing and realtime
+ * notification management. Sending lives in ./dispatcher, which is
+ * server-only and imported directly.
  */
 
+// Realtime
 export {
   notificationManager,
   type Notification,
 } from './realtime';
 
 export { useNotifications } from '@/hooks/use-notifications';
+
+// Kinds
+export {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_KINDS,
+  NOTIFICATION_SEVERITIES,
+  getNotificationCategory,
+  isNotificationKind,
+  type ChannelSettings,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationKind,
+  type NotificationKindDefinition,
+  type NotificationSeverity,
+} from './kinds';
+
+// Routing
+export {
+  DEFAULT_DIGEST_SETTINGS,
+  DEFAULT_QUIET_HOURS,
+  getChannelOverrides,
+  getNextDigestTime,
+  getNextLocalTime,
+  isWithinQuietHours,
+  resolvePreferences,
+  routeNotification,
+  type DigestFrequency,
+  type DigestSettings,
+  type EmailRoute,
+  type NotificationPreferences,
+  type NotificationRoute,
+  type QuietHours,
+  type StoredNotificationPreferences,
+} from './routing';
+
+// Grouping
+export {
+  groupNotifications,
+  type NotificationGroup,
+  type NotificationGrouping,
+} from './grouping';
@@ -0,0 +1,143 @@
+/**
+ * Notification Kinds
+ * Every notification the platform sends, with the channels it can go out on
+ * and where it goes by default. Safe to import on the client.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+
+export type NotificationKind =
+  | 'course_enrollment'
+  | 'assignment_graded'
+  | 'learning_assigned'
+  | 'achievement_unlocked'
+  | 'event_registration'
+  | 'payment_failed'
+  | 'system_announcement';
+
+export type NotificationCategory = 'courses' | 'achievements' | 'events' | 'billing' | 'system';
+
+/** Styling of the in-app notification, stored in notifications.type */
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error';
+
+export type ChannelSettings = Record<NotificationChannel, boolean>;
+
+export interface NotificationKindDefinition {
+  label: string;
+  description: string;
+  category: NotificationCategory;
+  severity: NotificationSeverity;
+  /** Channels the kind can be sent on; the rest are never used */
+  channels: NotificationChannel[];
+  /** Where it goes until the user changes it */
+  defaults: ChannelSettings;
+  /** Sent straight away on every enabled channel, ignoring digests and quiet hours */
+  urgent: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'push'];
+
+export const NOTIFICATION_SEVERITIES: NotificationSeverity[] = ['info', 'success', 'warning', 'error'];
+
+export const NOTIFICATION_CATEGORIES: Record<NotificationCategory, { label: string }> = {
+  courses: { label: 'Courses' },
+  achievements: { label: 'Achievements' },
+  events: { label: 'Events' },
+  billing: { label: 'Billing' },
+  system: { label: 'Announcements' },
+};
+
+export const NOTIFICATION_KINDS: Record<NotificationKind, NotificationKindDefinition> = {
+  course_enrollment: {
+    label: 'Course enrollment',
+    description: 'Confirmation when you enroll in a course',
+    category: 'courses',
+    severity: 'success',
+    channels: ['in_app', 'email', 'push'],
+    defaults: { in_app: true, email: true, push: false },
+    urgent: false,
+  },
+  assignment_graded: {
+    label: 'Assignment graded',
+    description: 'When an instructor grades your assignment',
+    category: 'courses',
+    severity: 'info',
+    channels: ['in_app', 'email', 'push'],
+    defaults: { in_app: true, email: true, push: true },
+    urgent: false,
+  },
+  learning_assigned: {
+    label: 'Learning assigned',
+    description: 'When your organization assigns you a course, assessment or diagnostic',
+    category: 'courses',
+    severity: 'info',
+    channels: ['in_app', 'email', 'push'],
+    defaults: { in_app: true, email: true, push: false },
+    urgent: false,
+  },
+  achievement_unlocked: {
+    label: 'Achievement unlocked',
+    description: 'When you earn an achievement',
+    category: 'achievements',
+    severity: 'success',
+    channels: ['in_app', 'email', 'push'],
+    defaults: { in_app: true, email: false, push: true },
+    urgent: false,
+  },
+  event_registration: {
+    label: 'Event registration',
+    description: 'Confirmation when you register for an event',
+    category: 'events',
+    severity: 'success',
+    // Registration sends its own confirmation email with the ticket
+    channels: ['in_app', 'push'],
+    defaults: { in_app: true, email: false, push: false },
+    urgent: false,
+  },
+  payment_failed: {
+    label: 'Payment failed',
+    description: 'When a payment could not be processed',
+    category: 'billing',
+    severity: 'error',
+    // The billing email is always sent by the payment flow itself
+    channels: ['in_app', 'push'],
+    defaults: { in_app: true, email: false, push: true },
+    urgent: true,
+  },
+  system_announcement: {
+    label: 'Announcements',
+    description: 'Messages from the NeuroElemental team',
+    category: 'system',
+    severity: 'info',
+    channels: ['in_app', 'email', 'push'],
+    defaults: { in_app: true, email: false, push: false },
+    urgent: false,
+  },
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a string is a known notification kind
+ */
+export function isNotificationKind(value: string | null | undefined): value is NotificationKind {
+  return !!value && Object.prototype.hasOwnProperty.call(NOTIFICATION_KINDS, value);
+}
+
+/**
+ * Category of a stored notification, for grouping. Rows written before kinds
+ * existed fall under announcements.
+ */
+export function getNotificationCategory(kind: string | null | undefined): NotificationCategory {
+  return isNotificationKind(kind) ? NOTIFICATION_KINDS[kind].category : 'system';
+}
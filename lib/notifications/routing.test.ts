@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getChannelOverrides,
+  getNextDigestTime,
+  isWithinQuietHours,
+  resolvePreferences,
+  routeNotification,
+  type NotificationPreferences,
+} from './routing';
+
+const preferences = (overrides: Partial<NotificationPreferences> = {}): NotificationPreferences => ({
+  ...resolvePreferences(null),
+  ...overrides,
+});
+
+const quietNights = { enabled: true, start: '22:00', end: '07:00' };
+
+// ============================================================================
+// Preferences
+// ============================================================================
+
+describe('resolvePreferences', () => {
+  it("uses each kind's defaults when nothing is stored", () => {
+    const resolved = resolvePreferences(null);
+
+    expect(resolved.channels.achievement_unlocked).toEqual({ in_app: true, email: false, push: true });
+    expect(resolved.digest.frequency).toBe('never');
+    expect(resolved.quiet_hours.enabled).toBe(false);
+  });
+
+  it('applies overrides and ignores channels a kind cannot use', () => {
+    const resolved = resolvePreferences({
+      channels: {
+        achievement_unlocked: { email: true },
+        payment_failed: { email: true },
+        unknown_kind: { push: true },
+      },
+    });
+
+    expect(resolved.channels.achievement_unlocked.email).toBe(true);
+    expect(resolved.channels.payment_failed.email).toBe(false);
+    expect(resolved.channels).not.toHaveProperty('unknown_kind');
+  });
+});
+
+describe('getChannelOverrides', () => {
+  it('keeps only choices that differ from the defaults', () => {
+    const { channels } = resolvePreferences({ channels: { assignment_graded: { push: false } } });
+
+    expect(getChannelOverrides(channels)).toEqual({ assignment_graded: { push: false } });
+  });
+});
+
+// ============================================================================
+// Local Times
+// ============================================================================
+
+describe('isWithinQuietHours', () => {
+  it('handles hours that wrap past midnight in the user timezone', () => {
+    // 23:30 in Berlin (UTC+1 in winter)
+    expect(isWithinQuietHours(quietNights, new Date('2026-01-15T22:30:00Z'), 'Europe/Berlin')).toBe(true);
+    // 06:59 in Berlin
+    expect(isWithinQuietHours(quietNights, new Date('2026-01-16T05:59:00Z'), 'Europe/Berlin')).toBe(true);
+    // 07:00 in Berlin
+    expect(isWithinQuietHours(quietNights, new Date('2026-01-16T06:00:00Z'), 'Europe/Berlin')).toBe(false);
+  });
+
+  it('is never quiet when disabled or the window is empty', () => {
+    const lateNight = new Date('2026-01-15T23:30:00Z');
+
+    expect(isWithinQuietHours({ ...quietNights, enabled: false }, lateNight, 'UTC')).toBe(false);
+    expect(isWithinQuietHours({ enabled: true, start: '22:00', end: '22:00' }, lateNight, 'UTC')).toBe(false);
+  });
+});
+
+describe('getNextDigestTime', () => {
+  // Thursday 2026-01-15, 10:00 in New York
+  const now = new Date('2026-01-15T15:00:00Z');
+
+  it('sends a daily digest at the next local time', () => {
+    const digest = { frequency: 'daily' as const, day_of_week: 1, time_of_day: '09:00' };
+
+    expect(getNextDigestTime(digest, now, 'America/New_York')?.toISOString()).toBe('2026-01-16T14:00:00.000Z');
+    expect(getNextDigestTime({ ...digest, time_of_day: '18:00' }, now, 'America/New_York')?.toISOString())
+      .toBe('2026-01-15T23:00:00.000Z');
+  });
+
+  it('sends a weekly digest on the chosen weekday', () => {
+    const digest = { frequency: 'weekly' as const, day_of_week: 1, time_of_day: '09:00' };
+
+    // Monday 2026-01-19
+    expect(getNextDigestTime(digest, now, 'America/New_York')?.toISOString()).toBe('2026-01-19T14:00:00.000Z');
+  });
+
+  it('is null when digests are off', () => {
+    expect(getNextDigestTime({ frequency: 'never', day_of_week: 1, time_of_day: '09:00' }, now, 'UTC')).toBeNull();
+  });
+});
+
+// ============================================================================
+// Routing
+// ============================================================================
+
+describe('routeNotification', () => {
+  const midday = new Date('2026-01-15T12:00:00Z');
+  const lateNight = new Date('2026-01-15T23:30:00Z');
+
+  it('sends email straight away with no digest or quiet hours', () => {
+    expect(routeNotification('assignment_graded', preferences(), midday, 'UTC')).toEqual({
+      in_app: true,
+      push: true,
+      email: { action: 'send' },
+    });
+  });
+
+  it('skips push and holds email during quiet hours', () => {
+    const route = routeNotification('assignment_graded', preferences({ quiet_hours: quietNights }), lateNight, 'UTC');
+
+    expect(route.in_app).toBe(true);
+    expect(route.push).toBe(false);
+    expect(route.email).toEqual({
+      action: 'queue',
+      reason: 'quiet_hours',
+      deliverAfter: new Date('2026-01-16T07:00:00Z'),
+    });
+  });
+
+  it('queues email for the digest', () => {
+    const route = routeNotification(
+      'course_enrollment',
+      preferences({ digest: { frequency: 'daily', day_of_week: 1, time_of_day: '18:00' } }),
+      midday,
+      'UTC'
+    );
+
+    expect(route.email).toEqual({
+      action: 'queue',
+      reason: 'digest',
+      deliverAfter: new Date('2026-01-15T18:00:00Z'),
+    });
+  });
+
+  it('delivers urgent kinds immediately, even during quiet hours', () => {
+    const route = routeNotification('payment_failed', preferences({ quiet_hours: quietNights }), lateNight, 'UTC');
+
+    expect(route).toEqual({ in_app: true, push: true, email: { action: 'none' } });
+  });
+
+  it('respects channels the user turned off', () => {
+    const prefs = resolvePreferences({ channels: { assignment_graded: { in_app: false, email: false } } });
+
+    expect(routeNotification('assignment_graded', prefs, midday, 'UTC')).toEqual({
+      in_app: false,
+      push: true,
+      email: { action: 'none' },
+    });
+  });
+});
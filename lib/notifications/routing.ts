@@ -0,0 +1,240 @@
+/**
+ * Notification Routing
+ * Resolves a user's per-kind channel preferences and decides, for one
+ * notification, which channels it goes out on now and which email waits for
+ * a digest or for quiet hours to end. Times are evaluated in the user's
+ * timezone.
+ */
+
+import { fromZonedTime } from 'date-fns-tz';
+import { getLocalMoment } from '@/lib/reminders/schedule';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_KINDS,
+  isNotificationKind,
+  type ChannelSettings,
+  type NotificationKind,
+} from './kinds';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DigestFrequency = 'never' | 'daily' | 'weekly';
+
+export interface DigestSettings {
+  frequency: DigestFrequency;
+  /** 0 = Sunday; weekly digests only */
+  day_of_week: number;
+  /** Local time of day, HH:MM */
+  time_of_day: string;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  /** Local time of day, HH:MM; may be later than end for overnight hours */
+  start: string;
+  end: string;
+}
+
+export interface NotificationPreferences {
+  channels: Record<NotificationKind, ChannelSettings>;
+  digest: DigestSettings;
+  quiet_hours: QuietHours;
+}
+
+/** Preferences as stored; any part may be missing */
+export interface StoredNotificationPreferences {
+  channels?: Record<string, Partial<ChannelSettings>> | null;
+  digest?: Partial<DigestSettings> | null;
+  quiet_hours?: Partial<QuietHours> | null;
+}
+
+export type EmailRoute =
+  | { action: 'none' }
+  | { action: 'send' }
+  | { action: 'queue'; reason: 'digest' | 'quiet_hours'; deliverAfter: Date };
+
+export interface NotificationRoute {
+  in_app: boolean;
+  push: boolean;
+  email: EmailRoute;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  frequency: 'never',
+  day_of_week: 1, // Monday
+  time_of_day: '09:00',
+};
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00',
+};
+
+// ============================================================================
+// Preferences
+// ============================================================================
+
+/**
+ * Full preferences from what is stored, filling gaps with each kind's
+ * defaults. Channels a kind cannot be sent on are always off.
+ */
+export function resolvePreferences(
+  stored: StoredNotificationPreferences | null | undefined
+): NotificationPreferences {
+  const channels = {} as Record<NotificationKind, ChannelSettings>;
+
+  for (const [kind, definition] of Object.entries(NOTIFICATION_KINDS) as Array<
+    [NotificationKind, (typeof NOTIFICATION_KINDS)[NotificationKind]]
+  >) {
+    const overrides = stored?.channels?.[kind] ?? {};
+    channels[kind] = {} as ChannelSettings;
+
+    for (const channel of NOTIFICATION_CHANNELS) {
+      channels[kind][channel] =
+        definition.channels.includes(channel) && (overrides[channel] ?? definition.defaults[channel]);
+    }
+  }
+
+  return {
+    channels,
+    digest: { ...DEFAULT_DIGEST_SETTINGS, ...stored?.digest },
+    quiet_hours: { ...DEFAULT_QUIET_HOURS, ...stored?.quiet_hours },
+  };
+}
+
+/**
+ * Channel overrides worth storing: only known kinds and channels that differ
+ * from the kind's defaults
+ */
+export function getChannelOverrides(
+  channels: Record<string, Partial<ChannelSettings>>
+): Record<string, Partial<ChannelSettings>> {
+  const overrides: Record<string, Partial<ChannelSettings>> = {};
+
+  for (const [kind, settings] of Object.entries(channels)) {
+    if (!isNotificationKind(kind)) continue;
+    const definition = NOTIFICATION_KINDS[kind];
+
+    for (const channel of definition.channels) {
+      const value = settings[channel];
+      if (value !== undefined && value !== definition.defaults[channel]) {
+        overrides[kind] = { ...overrides[kind], [channel]: value };
+      }
+    }
+  }
+
+  return overrides;
+}
+
+// ============================================================================
+// Local Times
+// ============================================================================
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether the local time falls within quiet hours. Hours that wrap past
+ * midnight (22:00-07:00) are supported; equal start and end means none.
+ */
+export function isWithinQuietHours(quietHours: QuietHours, now: Date, timezone: string): boolean {
+  if (!quietHours.enabled) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const { minutes } = getLocalMoment(now, timezone);
+
+  if (start === end) return false;
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * The next instant after now when the local clock reads the given time,
+ * optionally only on one weekday (0 = Sunday)
+ */
+export function getNextLocalTime(now: Date, timezone: string, time: string, weekday?: number): Date {
+  const { date } = getLocalMoment(now, timezone);
+  const [year, month, day] = date.split('-').map(Number);
+
+  // A week and a day covers every weekday plus a time earlier today
+  for (let offset = 0; offset <= 8; offset++) {
+    const candidate = new Date(Date.UTC(year, month - 1, day + offset));
+    if (weekday !== undefined && candidate.getUTCDay() !== weekday) continue;
+
+    const instant = fromZonedTime(`${candidate.toISOString().slice(0, 10)}T${time}:00`, timezone);
+    if (instant > now) return instant;
+  }
+
+  throw new Error(`No upcoming ${time} in ${timezone}`);
+}
+
+/**
+ * When the next digest goes out, or null if digests are off
+ */
+export function getNextDigestTime(digest: DigestSettings, now: Date, timezone: string): Date | null {
+  switch (digest.frequency) {
+    case 'daily':
+      return getNextLocalTime(now, timezone, digest.time_of_day);
+    case 'weekly':
+      return getNextLocalTime(now, timezone, digest.time_of_day, digest.day_of_week);
+    case 'never':
+      return null;
+  }
+}
+
+// ============================================================================
+// Routing
+// ============================================================================
+
+/**
+ * Where a notification of this kind goes for this user right now
+ *
+ * In-app notifications are always delivered straight away. During quiet hours
+ * push is skipped (the in-app copy remains) and email is held until they end.
+ * With a digest on, email waits for the next digest instead. Urgent kinds
+ * ignore both.
+ */
+export function routeNotification(
+  kind: NotificationKind,
+  preferences: NotificationPreferences,
+  now: Date,
+  timezone: string
+): NotificationRoute {
+  const channels = preferences.channels[kind];
+  const urgent = NOTIFICATION_KINDS[kind].urgent;
+  const quiet = !urgent && isWithinQuietHours(preferences.quiet_hours, now, timezone);
+
+  let email: EmailRoute = { action: 'none' };
+  if (channels.email) {
+    const digestAt = urgent ? null : getNextDigestTime(preferences.digest, now, timezone);
+
+    if (digestAt) {
+      email = { action: 'queue', reason: 'digest', deliverAfter: digestAt };
+    } else if (quiet) {
+      email = {
+        action: 'queue',
+        reason: 'quiet_hours',
+        deliverAfter: getNextLocalTime(now, timezone, preferences.quiet_hours.end),
+      };
+    } else {
+      email = { action: 'send' };
+    }
+  }
+
+  return {
+    in_app: channels.in_app,
+    push: channels.push && !quiet,
+    email,
+  };
+}
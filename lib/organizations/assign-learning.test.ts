@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { courseRepository } from '@/lib/db/courses';
+import { creditRepository } from '@/lib/db/credits';
+import { enrollmentRepository } from '@/lib/db/enrollments';
+import { learningAssignmentRepository, type LearningAssignment } from '@/lib/db/learning-assignments';
+import { membershipRepository } from '@/lib/db/memberships';
+import type { CreditTransaction } from '@/lib/types/supabase';
+import { addLearningAssignees, createLearningAssignment } from './assign-learning';
+
+vi.mock('@/lib/db/activity-log', () => ({ ActivityActions: {}, EntityTypes: {}, logActivity: vi.fn() }));
+vi.mock('@/lib/db/assessments', () => ({ assessmentRepository: {} }));
+vi.mock('@/lib/db/courses', () => ({ courseRepository: { findByIdOrNull: vi.fn() } }));
+vi.mock('@/lib/db/credits', () => ({
+  creditRepository: { hasSufficientCredits: vi.fn(), deductCredits: vi.fn(), refundCredits: vi.fn() },
+}));
+vi.mock('@/lib/db/diagnostics', () => ({ diagnosticsRepository: {} }));
+vi.mock('@/lib/db/enrollments', () => ({
+  enrollmentRepository: { getCourseEnrollmentsForUsers: vi.fn(), enrollUser: vi.fn() },
+}));
+vi.mock('@/lib/db/learning-assignments', () => ({
+  learningAssignmentRepository: { create: vi.fn(), update: vi.fn(), getMembers: vi.fn(), addMembers: vi.fn() },
+}));
+vi.mock('@/lib/db/memberships', () => ({ membershipRepository: { getActiveMemberIds: vi.fn() } }));
+vi.mock('@/lib/db/teams', () => ({ teamRepository: {} }));
+vi.mock('@/lib/notifications/dispatcher', () => ({ sendNotification: vi.fn() }));
+
+const COURSE = { id: 'course-1', title: 'Energy Basics', slug: 'energy-basics' };
+const MEMBERS = ['user-1', 'user-2', 'user-3'];
+const DEBIT = { id: 'debit-1', amount: 3 } as CreditTransaction;
+
+const assignment = {
+  id: 'assignment-1',
+  organization_id: 'org-1',
+  content_type: 'course',
+  course_id: COURSE.id,
+  diagnostic_id: null,
+  target_team_ids: [],
+  credits_used: 3,
+} as unknown as LearningAssignment;
+
+describe('assigning a course', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(courseRepository.findByIdOrNull).mockResolvedValue(COURSE as never);
+    vi.mocked(membershipRepository.getActiveMemberIds).mockResolvedValue(MEMBERS);
+    vi.mocked(enrollmentRepository.getCourseEnrollmentsForUsers).mockResolvedValue([]);
+    vi.mocked(creditRepository.hasSufficientCredits).mockResolvedValue(true);
+    vi.mocked(creditRepository.deductCredits).mockResolvedValue(DEBIT);
+    vi.mocked(learningAssignmentRepository.create).mockResolvedValue(assignment);
+    vi.mocked(learningAssignmentRepository.update).mockResolvedValue(assignment);
+    vi.mocked(learningAssignmentRepository.getMembers).mockResolvedValue([]);
+    vi.mocked(learningAssignmentRepository.addMembers).mockResolvedValue(
+      MEMBERS.map((user_id) => ({ user_id, completed_at: null })) as never
+    );
+  });
+
+  it('refunds the credits of members not enrolled when enrolling fails part way', async () => {
+    vi.mocked(enrollmentRepository.enrollUser)
+      .mockResolvedValueOnce({ id: 'enrollment-1' } as never)
+      .mockRejectedValueOnce(new Error('insert failed'));
+
+    await expect(
+      createLearningAssignment(
+        'org-1',
+        { content_type: 'course', course_id: COURSE.id, user_ids: MEMBERS, team_ids: [], reminder_days_before: 3 },
+        'admin-1'
+      )
+    ).rejects.toThrow('insert failed');
+
+    expect(creditRepository.refundCredits).toHaveBeenCalledWith(
+      DEBIT,
+      2,
+      expect.objectContaining({ assignment_id: 'assignment-1', members: 2 })
+    );
+    expect(learningAssignmentRepository.update).toHaveBeenCalledWith(
+      'assignment-1',
+      expect.objectContaining({ credits_used: 1 })
+    );
+  });
+
+  it('refunds every credit when adding assignees fails before anyone is enrolled', async () => {
+    vi.mocked(learningAssignmentRepository.update).mockResolvedValue({ ...assignment, credits_used: 6 });
+    vi.mocked(learningAssignmentRepository.addMembers).mockRejectedValue(new Error('insert failed'));
+
+    await expect(addLearningAssignees(assignment, { user_ids: MEMBERS, team_ids: [] }, 'admin-1')).rejects.toThrow(
+      'insert failed'
+    );
+
+    expect(enrollmentRepository.enrollUser).not.toHaveBeenCalled();
+    expect(creditRepository.refundCredits).toHaveBeenCalledWith(DEBIT, 3, expect.anything());
+    expect(learningAssignmentRepository.update).toHaveBeenLastCalledWith(
+      'assignment-1',
+      expect.objectContaining({ credits_used: 3 })
+    );
+  });
+
+  it('keeps the charge when every member is enrolled', async () => {
+    vi.mocked(enrollmentRepository.enrollUser).mockResolvedValue({ id: 'enrollment-1' } as never);
+
+    const result = await createLearningAssignment(
+      'org-1',
+      { content_type: 'course', course_id: COURSE.id, user_ids: MEMBERS, team_ids: [], reminder_days_before: 3 },
+      'admin-1'
+    );
+
+    expect(result).toMatchObject({ assigned: 3, enrolled: 3, creditsUsed: 3 });
+    expect(creditRepository.refundCredits).not.toHaveBeenCalled();
+  });
+});
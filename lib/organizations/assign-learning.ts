@@ -0,0 +1,415 @@
+/**
+ * Assigning Learning
+ * Gives a course, the NeuroElemental assessment or a diagnostic to members
+ * and teams: resolves the assignees, charges course credits and enrolls them,
+ * lets them respond to the diagnostic, and notifies them. Members who already
+ * finished the content are recorded as completed straight away.
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { badRequestError, notFoundError } from '@/lib/api/error-handler';
+import { ActivityActions, EntityTypes, logActivity } from '@/lib/db/activity-log';
+import { assessmentRepository } from '@/lib/db/assessments';
+import { courseRepository } from '@/lib/db/courses';
+import { creditRepository } from '@/lib/db/credits';
+import { diagnosticsRepository } from '@/lib/db/diagnostics';
+import { enrollmentRepository } from '@/lib/db/enrollments';
+import {
+  learningAssignmentRepository,
+  type LearningAssignment,
+  type LearningAssignmentMember,
+} from '@/lib/db/learning-assignments';
+import { membershipRepository } from '@/lib/db/memberships';
+import { teamRepository } from '@/lib/db/teams';
+import { logger } from '@/lib/logging';
+import { sendNotification } from '@/lib/notifications/dispatcher';
+import type { CreditTransaction } from '@/lib/types/supabase';
+import { getUpdateTimestamp } from '@/lib/utils';
+import type { LearningAssignmentCreate } from '@/lib/validation/schemas';
+import {
+  ASSIGNMENT_CONTENT_TYPES,
+  COURSE_CREDITS_PER_ASSIGNEE,
+  MAX_ASSIGNEES,
+  getAssignmentContentPath,
+  type AssignmentContentType,
+} from './learning-assignments';
+import { getTeamSubtreeIds } from './teams';
+
+export interface AssignLearningResult {
+  assignment: LearningAssignment;
+  /** Members newly given the assignment */
+  assigned: number;
+  /** Of those, members enrolled in the course */
+  enrolled: number;
+  /** Of those, members who had already finished the content */
+  alreadyCompleted: number;
+  creditsUsed: number;
+}
+
+/** What is being assigned, resolved from the request */
+interface AssignedContent {
+  contentType: AssignmentContentType;
+  title: string;
+  courseId: string | null;
+  courseSlug: string | null;
+  diagnosticId: string | null;
+}
+
+/** Assignees split by what needs doing for them */
+interface AssigneePlan {
+  userIds: string[];
+  /** Completion time by user, for members who already finished the content */
+  completedAt: Map<string, string>;
+  /** Members to enroll (and charge credits for) */
+  toEnroll: string[];
+  credits: number;
+}
+
+/**
+ * Create an assignment and give it to the requested members and teams
+ *
+ * @throws {ApiError} 404 if the course, diagnostic or a team doesn't exist
+ * @throws {ApiError} 400 if a user isn't an active member, nobody would be
+ * assigned, the diagnostic is closed or course credits are insufficient
+ */
+export async function createLearningAssignment(
+  organizationId: string,
+  input: LearningAssignmentCreate,
+  actorId: string
+): Promise<AssignLearningResult> {
+  const content = await resolveContent(organizationId, input);
+  const userIds = await resolveAssignees(organizationId, input.user_ids, input.team_ids);
+  if (userIds.length === 0) {
+    throw badRequestError('The selected teams have no active members');
+  }
+
+  const plan = await planAssignees(organizationId, content, userIds);
+
+  const assignment = await learningAssignmentRepository.create({
+    organization_id: organizationId,
+    content_type: content.contentType,
+    course_id: content.courseId,
+    diagnostic_id: content.diagnosticId,
+    title: content.title,
+    message: input.message ?? null,
+    due_at: input.due_at ?? null,
+    reminder_days_before: input.reminder_days_before,
+    target_team_ids: input.team_ids,
+    credits_used: plan.credits,
+    created_by: actorId,
+  });
+
+  let debit: CreditTransaction | null;
+  try {
+    debit = await chargeCredits(organizationId, content, plan, assignment.id);
+  } catch (error: unknown) {
+    // Another spend got the credits first; don't leave an unpaid assignment behind
+    await learningAssignmentRepository.delete(assignment.id);
+    throw error;
+  }
+
+  return applyAssignees(assignment, content, plan, actorId, debit);
+}
+
+/**
+ * Give an existing assignment to more members and teams; members who already
+ * have it are skipped
+ */
+export async function addLearningAssignees(
+  assignment: LearningAssignment,
+  assignees: { user_ids: string[]; team_ids: string[] },
+  actorId: string
+): Promise<AssignLearningResult> {
+  const content = await resolveContent(assignment.organization_id, {
+    content_type: assignment.content_type as AssignmentContentType,
+    course_id: assignment.course_id ?? undefined,
+    diagnostic_id: assignment.diagnostic_id ?? undefined,
+  });
+
+  const requested = await resolveAssignees(assignment.organization_id, assignees.user_ids, assignees.team_ids);
+  const existing = new Set((await learningAssignmentRepository.getMembers([assignment.id])).map((m) => m.user_id));
+  const userIds = requested.filter((userId) => !existing.has(userId));
+
+  const plan = await planAssignees(assignment.organization_id, content, userIds);
+
+  const teamIds = [...new Set([...assignment.target_team_ids, ...assignees.team_ids])];
+  const updated = await learningAssignmentRepository.update(assignment.id, {
+    target_team_ids: teamIds,
+    credits_used: assignment.credits_used + plan.credits,
+    ...getUpdateTimestamp(),
+  });
+
+  let debit: CreditTransaction | null;
+  try {
+    debit = await chargeCredits(assignment.organization_id, content, plan, assignment.id);
+  } catch (error: unknown) {
+    await learningAssignmentRepository.update(assignment.id, {
+      target_team_ids: assignment.target_team_ids,
+      credits_used: assignment.credits_used,
+      ...getUpdateTimestamp(),
+    });
+    throw error;
+  }
+
+  return applyAssignees(updated, content, plan, actorId, debit);
+}
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+async function resolveContent(
+  organizationId: string,
+  input: Pick<LearningAssignmentCreate, 'content_type' | 'course_id' | 'diagnostic_id'>
+): Promise<AssignedContent> {
+  if (input.content_type === 'course') {
+    const course = input.course_id ? await courseRepository.findByIdOrNull(input.course_id) : null;
+    if (!course) throw notFoundError('Course');
+
+    return {
+      contentType: 'course',
+      title: course.title,
+      courseId: course.id,
+      courseSlug: course.slug,
+      diagnosticId: null,
+    };
+  }
+
+  if (input.content_type === 'diagnostic') {
+    const diagnostic = input.diagnostic_id ? await diagnosticsRepository.getDiagnosticById(input.diagnostic_id) : null;
+    if (!diagnostic || diagnostic.organization_id !== organizationId) throw notFoundError('Diagnostic');
+    if (diagnostic.status === 'completed' || diagnostic.status === 'archived') {
+      throw badRequestError('This diagnostic is closed and can no longer be assigned');
+    }
+
+    return {
+      contentType: 'diagnostic',
+      title: diagnostic.name,
+      courseId: null,
+      courseSlug: null,
+      diagnosticId: diagnostic.id,
+    };
+  }
+
+  return {
+    contentType: 'assessment',
+    title: ASSIGNMENT_CONTENT_TYPES.assessment,
+    courseId: null,
+    courseSlug: null,
+    diagnosticId: null,
+  };
+}
+
+/**
+ * Active members named directly plus everyone in the teams and below them
+ */
+async function resolveAssignees(organizationId: string, userIds: string[], teamIds: string[]): Promise<string[]> {
+  const activeMembers = new Set(await membershipRepository.getActiveMemberIds(organizationId));
+
+  const unknown = userIds.filter((userId) => !activeMembers.has(userId));
+  if (unknown.length > 0) {
+    throw badRequestError('Some users are not active members of the organization', { user_ids: unknown });
+  }
+
+  const assignees = new Set(userIds);
+
+  if (teamIds.length > 0) {
+    const teams = await teamRepository.getOrganizationTeams(organizationId);
+    if (teamIds.some((teamId) => !teams.some((team) => team.id === teamId))) {
+      throw notFoundError('Team');
+    }
+
+    const subtree = [...getTeamSubtreeIds(teams, teamIds)];
+    for (const userId of await membershipRepository.getActiveMemberIds(organizationId, subtree)) {
+      assignees.add(userId);
+    }
+  }
+
+  if (assignees.size > MAX_ASSIGNEES) {
+    throw badRequestError(`An assignment can be given to at most ${MAX_ASSIGNEES} members at once`);
+  }
+
+  return [...assignees];
+}
+
+async function planAssignees(
+  organizationId: string,
+  content: AssignedContent,
+  userIds: string[]
+): Promise<AssigneePlan> {
+  const completedAt = new Map<string, string>();
+  const toEnroll: string[] = [];
+
+  if (content.contentType === 'course' && content.courseId) {
+    const enrollments = await enrollmentRepository.getCourseEnrollmentsForUsers(content.courseId, userIds);
+    const enrolled = new Set<string>();
+    for (const enrollment of enrollments) {
+      if (!enrollment.user_id) continue;
+      enrolled.add(enrollment.user_id);
+      if (enrollment.completed_at) completedAt.set(enrollment.user_id, enrollment.completed_at);
+    }
+    toEnroll.push(...userIds.filter((userId) => !enrolled.has(userId)));
+  } else if (content.contentType === 'assessment') {
+    for (const [userId, completed] of await assessmentRepository.getLatestCompletionTimes(userIds)) {
+      completedAt.set(userId, completed);
+    }
+  } else if (content.diagnosticId) {
+    const assignees = new Set(userIds);
+    for (const response of await diagnosticsRepository.getDiagnosticResponses(content.diagnosticId)) {
+      if (response.is_complete && assignees.has(response.user_id)) {
+        completedAt.set(response.user_id, response.completed_at ?? response.updated_at);
+      }
+    }
+  }
+
+  const credits = toEnroll.length * COURSE_CREDITS_PER_ASSIGNEE;
+  if (credits > 0 && !(await creditRepository.hasSufficientCredits(organizationId, 'course', credits))) {
+    const balance = await creditRepository.getOrganizationCreditBalance(organizationId, 'course');
+    throw badRequestError('Insufficient course credits', { required: credits, available: balance });
+  }
+
+  return { userIds, completedAt, toEnroll, credits };
+}
+
+/**
+ * @returns The deduction, or null if nobody needs enrolling
+ */
+async function chargeCredits(
+  organizationId: string,
+  content: AssignedContent,
+  plan: AssigneePlan,
+  assignmentId: string
+): Promise<CreditTransaction | null> {
+  if (plan.credits === 0) return null;
+
+  return creditRepository.deductCredits({
+    organization_id: organizationId,
+    credit_type: 'course',
+    amount: plan.credits,
+    metadata: {
+      source: 'learning_assignment',
+      assignment_id: assignmentId,
+      course_id: content.courseId,
+      members: plan.toEnroll.length,
+    },
+  });
+}
+
+/**
+ * Add the assignees and enroll them. If that fails part way, the credits of
+ * members who weren't enrolled are refunded.
+ */
+async function applyAssignees(
+  assignment: LearningAssignment,
+  content: AssignedContent,
+  plan: AssigneePlan,
+  actorId: string,
+  debit: CreditTransaction | null
+): Promise<AssignLearningResult> {
+  let added: LearningAssignmentMember[];
+  let enrolled = 0;
+
+  try {
+    added = await learningAssignmentRepository.addMembers(assignment, plan.userIds, plan.completedAt);
+
+    if (content.contentType === 'course' && content.courseId) {
+      for (const userId of plan.toEnroll) {
+        const enrollment = await enrollmentRepository.enrollUser(userId, content.courseId, 'paid');
+        enrolled++;
+
+        await logActivity({
+          organization_id: assignment.organization_id,
+          user_id: actorId,
+          action_type: ActivityActions.COURSE_ENROLLED,
+          entity_type: EntityTypes.ENROLLMENT,
+          entity_id: enrollment.id,
+          description: `Enrolled member in "${content.title}" through an assignment`,
+          metadata: { course_id: content.courseId, enrolled_user_id: userId, assignment_id: assignment.id },
+        });
+      }
+    }
+  } catch (error: unknown) {
+    await refundUnenrolled(assignment, plan, debit, enrolled);
+    throw error;
+  }
+
+  if (content.diagnosticId) {
+    await allowDiagnosticResponses(content.diagnosticId, plan.userIds);
+  }
+
+  const open = added.filter((member) => !member.completed_at).map((member) => member.user_id);
+  notifyAssignees(assignment, content, open).catch((error: unknown) => {
+    logger.error('Error notifying assignees', error instanceof Error ? error : undefined, {
+      assignmentId: assignment.id,
+    });
+  });
+
+  return {
+    assignment,
+    assigned: added.length,
+    enrolled: plan.toEnroll.length,
+    alreadyCompleted: added.length - open.length,
+    creditsUsed: plan.credits,
+  };
+}
+
+/**
+ * Give back the credits charged for members who didn't get enrolled
+ *
+ * @param assignment - The assignment with the charge included in its credits used
+ * @param enrolled - How many of the members to enroll were enrolled
+ */
+async function refundUnenrolled(
+  assignment: LearningAssignment,
+  plan: AssigneePlan,
+  debit: CreditTransaction | null,
+  enrolled: number
+): Promise<void> {
+  const credits = (plan.toEnroll.length - enrolled) * COURSE_CREDITS_PER_ASSIGNEE;
+  if (!debit || credits === 0) return;
+
+  await creditRepository.refundCredits(debit, credits, {
+    source: 'learning_assignment',
+    assignment_id: assignment.id,
+    members: plan.toEnroll.length - enrolled,
+    reason: 'enrollment_failed',
+  });
+  await learningAssignmentRepository.update(assignment.id, {
+    credits_used: Math.max(assignment.credits_used - credits, 0),
+    ...getUpdateTimestamp(),
+  });
+}
+
+/**
+ * Add assignees to a diagnostic's respondents unless all members already may respond
+ */
+async function allowDiagnosticResponses(diagnosticId: string, userIds: string[]): Promise<void> {
+  const diagnostic = await diagnosticsRepository.getDiagnosticById(diagnosticId);
+  if (!diagnostic || diagnostic.include_all_members) return;
+
+  const targeted = new Set(diagnostic.target_user_ids);
+  const missing = userIds.filter((userId) => !targeted.has(userId));
+  if (missing.length === 0) return;
+
+  await diagnosticsRepository.updateDiagnostic(diagnosticId, {
+    target_user_ids: [...diagnostic.target_user_ids, ...missing],
+  });
+}
+
+async function notifyAssignees(
+  assignment: LearningAssignment,
+  content: AssignedContent,
+  userIds: string[]
+): Promise<void> {
+  const due = assignment.due_at
+    ? ` by ${new Date(assignment.due_at).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' })}`
+    : '';
+
+  for (const userId of userIds) {
+    await sendNotification(userId, 'learning_assigned', {
+      title: `New assignment: ${content.title}`,
+      message: assignment.message || `Your organization asked you to complete ${content.title}${due}.`,
+      actionUrl: getAssignmentContentPath(assignment, content.courseSlug),
+    });
+  }
+}
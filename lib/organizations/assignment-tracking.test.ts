@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ActivityActions, logActivity } from '@/lib/db/activity-log';
+import { courseRepository } from '@/lib/db/courses';
+import { learningAssignmentRepository, type OpenLearningAssignmentMember } from '@/lib/db/learning-assignments';
+import { enrollmentRepository } from '@/lib/db/enrollments';
+import { organizationRepository } from '@/lib/db/organizations';
+import { recordCourseCompletion, syncAssignmentCompletions } from './assignment-tracking';
+
+vi.mock('@/lib/db/activity-log', () => ({
+  ActivityActions: { COURSE_COMPLETED: 'course.completed', ASSIGNMENT_COMPLETED: 'assignment.completed' },
+  EntityTypes: { COURSE: 'course', ASSIGNMENT: 'assignment' },
+  logActivity: vi.fn(),
+}));
+vi.mock('@/lib/db/assessments', () => ({ assessmentRepository: {} }));
+vi.mock('@/lib/db/courses', () => ({ courseRepository: { findByIdOrNull: vi.fn() } }));
+vi.mock('@/lib/db/diagnostics', () => ({ diagnosticsRepository: {} }));
+vi.mock('@/lib/db/enrollments', () => ({ enrollmentRepository: { getCourseEnrollmentsForUsers: vi.fn() } }));
+vi.mock('@/lib/db/learning-assignments', () => ({
+  learningAssignmentRepository: { getOpenMembers: vi.fn(), markMembersCompleted: vi.fn() },
+}));
+vi.mock('@/lib/db/memberships', () => ({ membershipRepository: {} }));
+vi.mock('@/lib/db/organizations', () => ({ organizationRepository: { getUserOrganizations: vi.fn() } }));
+vi.mock('@/lib/email', () => ({ sendLearningAssignmentDue: vi.fn() }));
+
+const COMPLETED_AT = '2026-10-19T12:00:00.000Z';
+
+/** An open assignee row of a course assignment */
+function openMember(id: string, assignmentId: string, organizationId = 'org-1'): OpenLearningAssignmentMember {
+  return {
+    id,
+    user_id: 'user-1',
+    completed_at: null,
+    assignment: {
+      id: assignmentId,
+      organization_id: organizationId,
+      content_type: 'course',
+      course_id: 'course-1',
+      diagnostic_id: null,
+      title: 'Energy Basics',
+      due_at: null,
+    },
+  } as unknown as OpenLearningAssignmentMember;
+}
+
+function loggedActions(): string[] {
+  return vi.mocked(logActivity).mock.calls.map(([entry]) => entry.action_type);
+}
+
+describe('recording course completions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(courseRepository.findByIdOrNull).mockResolvedValue({ id: 'course-1', title: 'Energy Basics' } as never);
+    vi.mocked(organizationRepository.getUserOrganizations).mockResolvedValue([
+      { organization_id: 'org-1', deactivated_at: null },
+    ] as never);
+  });
+
+  it('logs one course completion for a user with two open assignments of the course', async () => {
+    const members = [openMember('member-1', 'assignment-1'), openMember('member-2', 'assignment-2')];
+    vi.mocked(learningAssignmentRepository.getOpenMembers).mockResolvedValue(members);
+    vi.mocked(learningAssignmentRepository.markMembersCompleted).mockResolvedValue(['member-1', 'member-2']);
+
+    const completed = await recordCourseCompletion('user-1', 'course-1', COMPLETED_AT);
+
+    expect(completed).toBe(2);
+    expect(loggedActions().filter((action) => action === ActivityActions.COURSE_COMPLETED)).toHaveLength(1);
+    expect(logActivity).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action_type: ActivityActions.COURSE_COMPLETED,
+        organization_id: 'org-1',
+        metadata: expect.objectContaining({ assignment_ids: ['assignment-1', 'assignment-2'] }),
+      })
+    );
+  });
+
+  it('logs a course completion that was never assigned in each active organization', async () => {
+    vi.mocked(learningAssignmentRepository.getOpenMembers).mockResolvedValue([]);
+    vi.mocked(organizationRepository.getUserOrganizations).mockResolvedValue([
+      { organization_id: 'org-1', deactivated_at: null },
+      { organization_id: 'org-2', deactivated_at: '2026-10-01T00:00:00.000Z' },
+    ] as never);
+
+    await recordCourseCompletion('user-1', 'course-1', COMPLETED_AT);
+
+    expect(logActivity).toHaveBeenCalledTimes(1);
+    expect(logActivity).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action_type: ActivityActions.COURSE_COMPLETED,
+        organization_id: 'org-1',
+        metadata: expect.objectContaining({ assignment_ids: [] }),
+      })
+    );
+  });
+
+  it('only logs the assignments this call completed', async () => {
+    const members = [openMember('member-1', 'assignment-1'), openMember('member-2', 'assignment-2')];
+    vi.mocked(learningAssignmentRepository.getOpenMembers).mockResolvedValue(members);
+    vi.mocked(learningAssignmentRepository.markMembersCompleted).mockResolvedValue(['member-2']);
+
+    const completed = await recordCourseCompletion('user-1', 'course-1', COMPLETED_AT);
+
+    expect(completed).toBe(1);
+    expect(loggedActions().filter((action) => action === ActivityActions.ASSIGNMENT_COMPLETED)).toHaveLength(1);
+    expect(logActivity).toHaveBeenCalledWith(
+      expect.objectContaining({ action_type: ActivityActions.ASSIGNMENT_COMPLETED, entity_id: 'assignment-2' })
+    );
+  });
+
+  it('leaves course completions to the completion hook when syncing', async () => {
+    vi.mocked(learningAssignmentRepository.getOpenMembers).mockResolvedValue([openMember('member-1', 'assignment-1')]);
+    vi.mocked(enrollmentRepository.getCourseEnrollmentsForUsers).mockResolvedValue([
+      { user_id: 'user-1', completed_at: COMPLETED_AT },
+    ] as never);
+
+    // A completion hook completed the row after it was read
+    vi.mocked(learningAssignmentRepository.markMembersCompleted).mockResolvedValue([]);
+    await expect(syncAssignmentCompletions()).resolves.toEqual({ checked: 1, completed: 0 });
+    expect(logActivity).not.toHaveBeenCalled();
+
+    vi.mocked(learningAssignmentRepository.markMembersCompleted).mockResolvedValue(['member-1']);
+    await expect(syncAssignmentCompletions()).resolves.toEqual({ checked: 1, completed: 1 });
+    expect(loggedActions()).toEqual([ActivityActions.ASSIGNMENT_COMPLETED]);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Assignment Tracking
+ * Records when assignees finish their assigned content and sends the
+ * due-date reminder and overdue emails. A completed course is logged once as
+ * COURSE_COMPLETED activity in each of the user's organizations, which feeds
+ * their webhooks; each completed assignment is logged as ASSIGNMENT_COMPLETED.
+ */
+
+import { ActivityActions, EntityTypes, logActivity } from '@/lib/db/activity-log';
+import { assessmentRepository } from '@/lib/db/assessments';
+import { courseRepository } from '@/lib/db/courses';
+import { diagnosticsRepository } from '@/lib/db/diagnostics';
+import { enrollmentRepository } from '@/lib/db/enrollments';
+import {
+  learningAssignmentRepository,
+  type LearningAssignment,
+  type OpenLearningAssignmentMember,
+} from '@/lib/db/learning-assignments';
+import { membershipRepository } from '@/lib/db/memberships';
+import { organizationRepository } from '@/lib/db/organizations';
+import { sendLearningAssignmentDue } from '@/lib/email';
+import { logger } from '@/lib/logging';
+import {
+  getAssignmentContentPath,
+  getAssignmentMemberStatus,
+  getDaysUntilDue,
+  getDueNotice,
+  summarizeCompliance,
+  type AssignmentNotice,
+  type ComplianceExportRow,
+  type ComplianceSummary,
+} from './learning-assignments';
+import { scopeIncludesTeam, type TeamScope } from './team-scope';
+import { formatTeamPath } from './teams';
+
+export interface AssignmentCompletionSyncResult {
+  checked: number;
+  completed: number;
+}
+
+export interface AssignmentNoticeResult {
+  reminders: number;
+  overdue: number;
+}
+
+/** One assignee's row on the compliance dashboard and in the export */
+export interface AssignmentComplianceMember extends ComplianceExportRow {
+  user_id: string;
+  team_id: string | null;
+}
+
+export interface AssignmentCompliance {
+  members: AssignmentComplianceMember[];
+  summary: ComplianceSummary;
+}
+
+interface Completion {
+  member: OpenLearningAssignmentMember;
+  completedAt: string;
+}
+
+// ============================================================================
+// Completions
+// ============================================================================
+
+/**
+ * Record that a user finished a course: complete their open assignments of
+ * it and log the completion in each organization they're an active member
+ * of, assigned or not. Call this once per enrollment, when it's completed.
+ *
+ * @returns Number of assignments completed
+ */
+export async function recordCourseCompletion(
+  userId: string,
+  courseId: string,
+  completedAt: string = new Date().toISOString()
+): Promise<number> {
+  const open = await learningAssignmentRepository.getOpenMembers({ userId, courseId, contentType: 'course' });
+  const completed = await completeMembers(open.map((member) => ({ member, completedAt })));
+
+  const [course, memberships] = await Promise.all([
+    courseRepository.findByIdOrNull(courseId),
+    organizationRepository.getUserOrganizations(userId),
+  ]);
+
+  const organizationIds = memberships
+    .filter((membership) => !membership.deactivated_at)
+    .map((membership) => membership.organization_id)
+    .filter((organizationId): organizationId is string => !!organizationId);
+
+  for (const organizationId of organizationIds) {
+    await logActivity({
+      organization_id: organizationId,
+      user_id: userId,
+      action_type: ActivityActions.COURSE_COMPLETED,
+      entity_type: EntityTypes.COURSE,
+      entity_id: courseId,
+      description: `Completed course "${course?.title ?? 'Unknown course'}"`,
+      metadata: {
+        course_id: courseId,
+        completed_user_id: userId,
+        completed_at: completedAt,
+        assignment_ids: completed
+          .filter(({ member }) => member.assignment.organization_id === organizationId)
+          .map(({ member }) => member.assignment.id),
+      },
+    });
+  }
+
+  return completed.length;
+}
+
+/**
+ * Complete a user's open assessment assignments, once they submit the assessment
+ *
+ * @returns Number of assignments completed
+ */
+export async function recordAssessmentCompletion(
+  userId: string,
+  completedAt: string = new Date().toISOString()
+): Promise<number> {
+  const open = await learningAssignmentRepository.getOpenMembers({ userId, contentType: 'assessment' });
+  const completed = await completeMembers(open.map((member) => ({ member, completedAt })));
+  return completed.length;
+}
+
+/**
+ * Check every open assignee against their enrollments, assessments and
+ * diagnostic responses, catching completions no hook recorded (diagnostic
+ * responses, or a hook that failed)
+ */
+export async function syncAssignmentCompletions(): Promise<AssignmentCompletionSyncResult> {
+  const open = await learningAssignmentRepository.getOpenMembers();
+  const completions: Completion[] = [];
+
+  const byContent = new Map<string, OpenLearningAssignmentMember[]>();
+  for (const member of open) {
+    const { content_type, course_id, diagnostic_id } = member.assignment;
+    const key = `${content_type}:${course_id ?? diagnostic_id ?? ''}`;
+    byContent.set(key, [...(byContent.get(key) ?? []), member]);
+  }
+
+  for (const members of byContent.values()) {
+    const { content_type, course_id, diagnostic_id } = members[0].assignment;
+    const userIds = [...new Set(members.map((member) => member.user_id))];
+    const completedAt = new Map<string, string>();
+
+    if (content_type === 'course' && course_id) {
+      for (const enrollment of await enrollmentRepository.getCourseEnrollmentsForUsers(course_id, userIds)) {
+        if (enrollment.user_id && enrollment.completed_at) completedAt.set(enrollment.user_id, enrollment.completed_at);
+      }
+    } else if (content_type === 'assessment') {
+      for (const [userId, completed] of await assessmentRepository.getLatestCompletionTimes(userIds)) {
+        completedAt.set(userId, completed);
+      }
+    } else if (content_type === 'diagnostic' && diagnostic_id) {
+      for (const response of await diagnosticsRepository.getDiagnosticResponses(diagnostic_id)) {
+        if (response.is_complete) completedAt.set(response.user_id, response.completed_at ?? response.updated_at);
+      }
+    }
+
+    for (const member of members) {
+      const completed = completedAt.get(member.user_id);
+      if (completed) completions.push({ member, completedAt: completed });
+    }
+  }
+
+  const completed = await completeMembers(completions);
+  return { checked: open.length, completed: completed.length };
+}
+
+/**
+ * Mark assignees completed and log the rows this call completed; rows a
+ * concurrent hook or sync already completed are skipped, so each assignment
+ * completion is logged once
+ *
+ * @returns The completions that were recorded
+ */
+async function completeMembers(completions: Completion[]): Promise<Completion[]> {
+  if (completions.length === 0) return [];
+
+  const updated = new Set(
+    await learningAssignmentRepository.markMembersCompleted(
+      completions.map(({ member, completedAt }) => ({ id: member.id, completed_at: completedAt }))
+    )
+  );
+  const completed = completions.filter(({ member }) => updated.has(member.id));
+
+  for (const { member, completedAt } of completed) {
+    const { assignment } = member;
+    const onTime = getAssignmentMemberStatus({ completed_at: completedAt }, assignment.due_at, new Date()) === 'completed';
+
+    await logActivity({
+      organization_id: assignment.organization_id,
+      user_id: member.user_id,
+      action_type: ActivityActions.ASSIGNMENT_COMPLETED,
+      entity_type: EntityTypes.ASSIGNMENT,
+      entity_id: assignment.id,
+      description: `Completed assigned ${assignment.content_type} "${assignment.title}"`,
+      metadata: {
+        assignment_id: assignment.id,
+        course_id: assignment.course_id,
+        completed_user_id: member.user_id,
+        completed_at: completedAt,
+        on_time: onTime,
+      },
+    });
+  }
+
+  return completed;
+}
+
+// ============================================================================
+// Notices
+// ============================================================================
+
+/**
+ * Send the reminder and overdue emails that are due. Each is attempted once
+ * per assignee; failed sends show up in the email delivery log.
+ */
+export async function sendAssignmentNotices(now: Date = new Date()): Promise<AssignmentNoticeResult> {
+  const open = await learningAssignmentRepository.getOpenMembers({ withDueDate: true });
+  const sent: Record<AssignmentNotice, string[]> = { reminder: [], overdue: [] };
+
+  const organizationNames = new Map<string, string>();
+  const courseSlugs = new Map<string, string | null>();
+
+  for (const member of open) {
+    const { assignment, profile } = member;
+    const notice = getDueNotice(member, assignment, now);
+    if (!notice || !assignment.due_at) continue;
+
+    if (profile?.email) {
+      if (!organizationNames.has(assignment.organization_id)) {
+        const organization = await organizationRepository.findByIdOrNull(assignment.organization_id);
+        organizationNames.set(assignment.organization_id, organization?.name ?? 'Your organization');
+      }
+      if (assignment.course_id && !courseSlugs.has(assignment.course_id)) {
+        const course = await courseRepository.findByIdOrNull(assignment.course_id);
+        courseSlugs.set(assignment.course_id, course?.slug ?? null);
+      }
+
+      const result = await sendLearningAssignmentDue({
+        to: profile.email,
+        userName: profile.full_name || 'there',
+        organizationName: organizationNames.get(assignment.organization_id) as string,
+        assignmentTitle: assignment.title,
+        notice,
+        dueAt: assignment.due_at,
+        daysLeft: getDaysUntilDue(assignment.due_at, now),
+        message: assignment.message,
+        contentPath: getAssignmentContentPath(
+          assignment,
+          assignment.course_id ? courseSlugs.get(assignment.course_id) : null
+        ),
+      });
+
+      if (!result.success) {
+        logger.warn('Assignment notice not delivered', { assignmentId: assignment.id, notice, error: result.error });
+      }
+    }
+
+    sent[notice].push(member.id);
+  }
+
+  const sentAt = now.toISOString();
+  await learningAssignmentRepository.markNotified(sent.reminder, 'reminder', sentAt);
+  await learningAssignmentRepository.markNotified(sent.overdue, 'overdue', sentAt);
+
+  return { reminders: sent.reminder.length, overdue: sent.overdue.length };
+}
+
+// ============================================================================
+// Compliance
+// ============================================================================
+
+/**
+ * Assignee rows and completion summaries of assignments, limited to the
+ * members a team scope covers; members who left the organization only show
+ * up for admins
+ *
+ * @returns Compliance by assignment ID
+ */
+export async function getAssignmentCompliance(
+  organizationId: string,
+  assignments: LearningAssignment[],
+  scope: TeamScope,
+  now: Date = new Date()
+): Promise<Map<string, AssignmentCompliance>> {
+  const [assignees, memberships] = await Promise.all([
+    learningAssignmentRepository.getMembers(assignments.map((assignment) => assignment.id)),
+    membershipRepository.getOrganizationMembers(organizationId),
+  ]);
+  const teamByUser = new Map(memberships.map((membership) => [membership.user_id, membership.team_id]));
+
+  const compliance = new Map<string, AssignmentCompliance>();
+  for (const assignment of assignments) {
+    const members = assignees
+      .filter((assignee) => assignee.assignment_id === assignment.id)
+      .filter((assignee) => scopeIncludesTeam(scope, teamByUser.get(assignee.user_id) ?? null))
+      .map((assignee): AssignmentComplianceMember => {
+        const teamId = teamByUser.get(assignee.user_id) ?? null;
+        return {
+          user_id: assignee.user_id,
+          name: assignee.profile?.full_name ?? null,
+          email: assignee.profile?.email ?? '',
+          team_id: teamId,
+          team: teamId ? formatTeamPath(scope.teams, teamId) : null,
+          assigned_at: assignee.assigned_at,
+          due_at: assignment.due_at,
+          completed_at: assignee.completed_at,
+          status: getAssignmentMemberStatus(assignee, assignment.due_at, now),
+        };
+      });
+
+    compliance.set(assignment.id, { members, summary: summarizeCompliance(members, assignment.due_at, now) });
+  }
+
+  return compliance;
+}
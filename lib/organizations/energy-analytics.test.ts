@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PRIVACY_POLICY, type PrivacyPolicy } from '@/lib/privacy/aggregation';
+import { summarizeTeamEnergy, type EnergyCheckIn } from './energy-analytics';
+
+const policy: PrivacyPolicy = { ...DEFAULT_PRIVACY_POLICY, minCohortSize: 3 };
+const counts = { totalMembers: 10, optedInMembers: 6 };
+
+function checkIn(userId: string, energy: number, state: string): EnergyCheckIn {
+  return { user_id: userId, data: { energy_level: energy, state } };
+}
+
+describe('summarizeTeamEnergy', () => {
+  it('withholds everything when too few members checked in', () => {
+    const summary = summarizeTeamEnergy(counts, [checkIn('a', 2, 'protection'), checkIn('b', 4, 'passion')], 1, policy);
+
+    expect(summary).toMatchObject({
+      totalMembers: 10,
+      optedInMembers: 6,
+      checkInsThisWeek: null,
+      averageEnergy: null,
+      modeDistribution: {},
+      protectionModeAlerts: null,
+    });
+    expect(summary.privacy).toMatchObject({ cohortSize: 2, withheld: true });
+  });
+
+  it('averages per member and counts each member under one mode', () => {
+    const summary = summarizeTeamEnergy(counts, [
+      checkIn('a', 5, 'passion'),
+      checkIn('a', 5, 'passion'),
+      checkIn('a', 5, 'passion'),
+      checkIn('b', 2, 'passion'),
+      checkIn('c', 2, 'passion'),
+    ], 0, policy);
+
+    expect(summary.checkInsThisWeek).toBe(5);
+    expect(summary.averageEnergy).toBe(3);
+    expect(summary.modeDistribution).toEqual({ passion: 100 });
+    expect(summary.protectionModeAlerts).toBe(0);
+    expect(summary.privacy).toMatchObject({ cohortSize: 3, withheld: false, suppressedCells: [] });
+  });
+
+  it('suppresses small modes and alerts about too few members', () => {
+    const summary = summarizeTeamEnergy(counts, [
+      checkIn('a', 3, 'societal'),
+      checkIn('b', 3, 'societal'),
+      checkIn('c', 3, 'societal'),
+      checkIn('d', 1, 'protection'),
+    ], 1, policy);
+
+    expect(summary.modeDistribution).toEqual({});
+    expect(summary.protectionModeAlerts).toBeNull();
+    expect(summary.privacy.suppressedCells.sort()).toEqual(['protection', 'protectionModeAlerts', 'societal']);
+  });
+
+  it('withholds everything when a team inside the group leaves too few others', () => {
+    const checkIns = ['a', 'b', 'c', 'd'].map((userId) => checkIn(userId, 3, 'passion'));
+
+    const summary = summarizeTeamEnergy(counts, checkIns, 0, policy, Math.random, [['a', 'b', 'c', 'x']]);
+
+    expect(summary.averageEnergy).toBeNull();
+    expect(summary.privacy).toMatchObject({ cohortSize: 4, withheld: true });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Team Energy Analytics
+ * Summarizes the check-ins of members who share them with their
+ * organization, protected by the organization's privacy policy so no
+ * member's energy or operating mode can be read off the aggregate.
+ * Safe to import on the client.
+ */
+
+import {
+  addNoise,
+  describeAggregatePrivacy,
+  isolatesSmallRemainder,
+  protectCount,
+  protectDistribution,
+  protectMean,
+  toPercentages,
+  type AggregatePrivacy,
+  type PrivacyPolicy,
+  type RandomSource,
+} from '@/lib/privacy/aggregation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EnergyCheckIn {
+  user_id: string;
+  data: { energy_level?: number; state?: string } | null;
+}
+
+/**
+ * Energy analytics for a team or organization. Values are null when they
+ * describe too few members to release.
+ */
+export interface TeamEnergySummary {
+  totalMembers: number;
+  optedInMembers: number;
+  checkInsThisWeek: number | null;
+  /** Mean of each member's average energy level, 1-5 */
+  averageEnergy: number | null;
+  /** Percentage of members by their most frequent operating mode */
+  modeDistribution: Record<string, number>;
+  /** Members in Protection Mode for 3+ consecutive days */
+  protectionModeAlerts: number | null;
+  privacy: AggregatePrivacy;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ENERGY_LEVEL_BOUNDS = { min: 1, max: 5 } as const;
+
+/** Most check-ins one member adds to the weekly count when noise is added */
+export const MAX_WEEKLY_CHECK_INS_PER_MEMBER = 7;
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+/**
+ * Summarize a week of check-ins. The cohort is the members who checked in;
+ * below the policy's minimum, or when the teams inside it would leave fewer
+ * than that many members to be worked out, nothing but its size is released.
+ *
+ * @param protectionModeAlerts - Members in Protection Mode for 3+ days
+ * @param teamCohorts - Member IDs of each team subtree inside the summarized group
+ */
+export function summarizeTeamEnergy(
+  counts: { totalMembers: number; optedInMembers: number },
+  checkIns: EnergyCheckIn[],
+  protectionModeAlerts: number,
+  policy: PrivacyPolicy,
+  random: RandomSource = Math.random,
+  teamCohorts: string[][] = []
+): TeamEnergySummary {
+  const byMember = new Map<string, EnergyCheckIn[]>();
+  for (const checkIn of checkIns) {
+    byMember.set(checkIn.user_id, [...(byMember.get(checkIn.user_id) ?? []), checkIn]);
+  }
+
+  const isolatesRemainder = isolatesSmallRemainder([...byMember.keys()], teamCohorts, policy);
+  const privacy = describeAggregatePrivacy(byMember.size, policy, [], isolatesRemainder);
+  if (privacy.withheld) {
+    return {
+      ...counts,
+      checkInsThisWeek: null,
+      averageEnergy: null,
+      modeDistribution: {},
+      protectionModeAlerts: null,
+      privacy,
+    };
+  }
+
+  // One average per member, so frequent check-ins don't outweigh the rest
+  const memberEnergy: number[] = [];
+  const modeCounts: Record<string, number> = {};
+
+  for (const memberCheckIns of byMember.values()) {
+    const levels = memberCheckIns
+      .map((checkIn) => checkIn.data?.energy_level)
+      .filter((level): level is number => typeof level === 'number' && level > 0)
+      .map((level) => Math.min(ENERGY_LEVEL_BOUNDS.max, Math.max(ENERGY_LEVEL_BOUNDS.min, level)));
+    if (levels.length > 0) {
+      memberEnergy.push(levels.reduce((sum, level) => sum + level, 0) / levels.length);
+    }
+
+    const mode = mostFrequentMode(memberCheckIns);
+    if (mode) {
+      modeCounts[mode] = (modeCounts[mode] ?? 0) + 1;
+    }
+  }
+
+  const averageEnergy = memberEnergy.length > 0
+    ? protectMean(
+      memberEnergy.reduce((sum, level) => sum + level, 0) / memberEnergy.length,
+      memberEnergy.length,
+      ENERGY_LEVEL_BOUNDS,
+      policy,
+      random
+    )
+    : null;
+
+  const modes = protectDistribution(modeCounts, policy, random);
+  const alerts = protectCount(protectionModeAlerts, policy, random);
+
+  // With noise, each member counts for at most one check-in a day
+  const checkInsThisWeek = policy.noiseEpsilon
+    ? Math.max(0, Math.round(addNoise(
+      [...byMember.values()].reduce(
+        (sum, memberCheckIns) => sum + Math.min(memberCheckIns.length, MAX_WEEKLY_CHECK_INS_PER_MEMBER),
+        0
+      ),
+      MAX_WEEKLY_CHECK_INS_PER_MEMBER,
+      policy,
+      random
+    )))
+    : checkIns.length;
+
+  const suppressed = [
+    ...modes.suppressedCells,
+    ...(memberEnergy.length > 0 && averageEnergy === null ? ['averageEnergy'] : []),
+    ...(alerts === null ? ['protectionModeAlerts'] : []),
+  ];
+
+  return {
+    ...counts,
+    checkInsThisWeek,
+    averageEnergy,
+    modeDistribution: toPercentages(modes.counts),
+    protectionModeAlerts: alerts,
+    privacy: describeAggregatePrivacy(byMember.size, policy, suppressed),
+  };
+}
+
+/**
+ * The operating mode a member checked in with most; ties go to the latest
+ * of them in `checkIns` order
+ */
+function mostFrequentMode(checkIns: EnergyCheckIn[]): string | null {
+  const counts = new Map<string, number>();
+  let best: string | null = null;
+
+  for (const checkIn of checkIns) {
+    const state = checkIn.data?.state;
+    if (!state) continue;
+
+    const count = (counts.get(state) ?? 0) + 1;
+    counts.set(state, count);
+    if (best === null || count >= (counts.get(best) ?? 0)) {
+      best = state;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAssignmentMemberStatus,
+  getDaysUntilDue,
+  getDueNotice,
+  summarizeCompliance,
+  toComplianceCsvRecord,
+  type AssignmentMemberProgress,
+} from './learning-assignments';
+
+const DUE = '2026-03-10T17:00:00.000Z';
+
+const open: AssignmentMemberProgress = {
+  assigned_at: '2026-03-01T09:00:00.000Z',
+  completed_at: null,
+  reminder_sent_at: null,
+  overdue_notified_at: null,
+};
+
+// ============================================================================
+// Status
+// ============================================================================
+
+describe('getAssignmentMemberStatus', () => {
+  it('is pending before the due date and overdue after it', () => {
+    expect(getAssignmentMemberStatus(open, DUE, new Date('2026-03-10T16:59:00Z'))).toBe('pending');
+    expect(getAssignmentMemberStatus(open, DUE, new Date('2026-03-10T17:01:00Z'))).toBe('overdue');
+  });
+
+  it('never becomes overdue without a due date', () => {
+    expect(getAssignmentMemberStatus(open, null, new Date('2030-01-01'))).toBe('pending');
+  });
+
+  it('tells on-time from late completions', () => {
+    const now = new Date('2026-04-01');
+    expect(getAssignmentMemberStatus({ completed_at: '2026-03-09T12:00:00Z' }, DUE, now)).toBe('completed');
+    expect(getAssignmentMemberStatus({ completed_at: '2026-03-11T12:00:00Z' }, DUE, now)).toBe('completed_late');
+    expect(getAssignmentMemberStatus({ completed_at: '2026-03-11T12:00:00Z' }, null, now)).toBe('completed');
+  });
+});
+
+describe('summarizeCompliance', () => {
+  it('counts members per status and rounds the completion rate', () => {
+    const summary = summarizeCompliance(
+      [
+        { completed_at: '2026-03-09T12:00:00Z' },
+        { completed_at: '2026-03-12T12:00:00Z' },
+        { completed_at: null },
+      ],
+      DUE,
+      new Date('2026-03-15')
+    );
+
+    expect(summary).toEqual({
+      assigned: 3,
+      completed: 1,
+      completedLate: 1,
+      pending: 0,
+      overdue: 1,
+      completionRate: 67,
+    });
+  });
+
+  it('reports a zero rate for an assignment without members', () => {
+    expect(summarizeCompliance([], DUE, new Date()).completionRate).toBe(0);
+  });
+});
+
+// ============================================================================
+// Notices
+// ============================================================================
+
+describe('getDueNotice', () => {
+  const schedule = { due_at: DUE, reminder_days_before: 3 };
+
+  it('sends the reminder once the window opens, and only once', () => {
+    expect(getDueNotice(open, schedule, new Date('2026-03-07T16:00:00Z'))).toBeNull();
+    expect(getDueNotice(open, schedule, new Date('2026-03-07T17:00:00Z'))).toBe('reminder');
+    expect(
+      getDueNotice({ ...open, reminder_sent_at: '2026-03-07T17:00:00Z' }, schedule, new Date('2026-03-09'))
+    ).toBeNull();
+  });
+
+  it('sends the overdue notice once after the due date, even without a reminder', () => {
+    const late = new Date('2026-03-11');
+    expect(getDueNotice(open, schedule, late)).toBe('overdue');
+    expect(getDueNotice({ ...open, overdue_notified_at: '2026-03-11T00:00:00Z' }, schedule, late)).toBeNull();
+  });
+
+  it('sends nothing for completed members or assignments without a due date', () => {
+    const now = new Date('2026-03-09');
+    expect(getDueNotice({ ...open, completed_at: '2026-03-08T00:00:00Z' }, schedule, now)).toBeNull();
+    expect(getDueNotice(open, { due_at: null, reminder_days_before: 3 }, now)).toBeNull();
+  });
+
+  it('reminds on the due day itself when reminder_days_before is 0', () => {
+    expect(getDueNotice(open, { due_at: DUE, reminder_days_before: 0 }, new Date('2026-03-10T12:00:00Z'))).toBeNull();
+    expect(getDueNotice(open, { due_at: DUE, reminder_days_before: 0 }, new Date(DUE))).toBe('reminder');
+  });
+});
+
+describe('getDaysUntilDue', () => {
+  it('rounds partial days up and never goes negative', () => {
+    expect(getDaysUntilDue(DUE, new Date('2026-03-08T18:00:00Z'))).toBe(2);
+    expect(getDaysUntilDue(DUE, new Date('2026-03-12'))).toBe(0);
+  });
+});
+
+// ============================================================================
+// Export
+// ============================================================================
+
+describe('toComplianceCsvRecord', () => {
+  it('labels the status and blanks missing values', () => {
+    expect(
+      toComplianceCsvRecord({
+        name: null,
+        email: 'ada@example.com',
+        team: 'Engineering > Platform',
+        assigned_at: '2026-03-01T09:00:00.000Z',
+        due_at: null,
+        completed_at: null,
+        status: 'pending',
+      })
+    ).toEqual({
+      Name: '',
+      Email: 'ada@example.com',
+      Team: 'Engineering > Platform',
+      Status: 'Pending',
+      'Assigned At': '2026-03-01T09:00:00.000Z',
+      'Due At': '',
+      'Completed At': '',
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Learning Assignments
+ * Courses, the NeuroElemental assessment and diagnostics assigned to
+ * organization members with a due date: per-member status, compliance
+ * summaries, when to send reminder and overdue emails, and the CSV export
+ * layout. Safe to import on the client.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AssignmentContentType = 'course' | 'assessment' | 'diagnostic';
+
+/**
+ * Where a member stands on an assignment; `completed_late` means completed
+ * after the due date
+ */
+export type AssignmentMemberStatus = 'pending' | 'overdue' | 'completed' | 'completed_late';
+
+/** Email due for a member */
+export type AssignmentNotice = 'reminder' | 'overdue';
+
+export interface AssignmentSchedule {
+  due_at: string | null;
+  /** Days before the due date to send the reminder */
+  reminder_days_before: number;
+}
+
+export interface AssignmentMemberProgress {
+  assigned_at: string;
+  completed_at: string | null;
+  reminder_sent_at: string | null;
+  overdue_notified_at: string | null;
+}
+
+export interface ComplianceSummary {
+  assigned: number;
+  /** Completed on time or without a due date */
+  completed: number;
+  completedLate: number;
+  pending: number;
+  overdue: number;
+  /** Completed (on time or late) as a whole percentage of assigned */
+  completionRate: number;
+}
+
+export interface ComplianceExportRow {
+  name: string | null;
+  email: string;
+  team: string | null;
+  assigned_at: string;
+  due_at: string | null;
+  completed_at: string | null;
+  status: AssignmentMemberStatus;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ASSIGNMENT_CONTENT_TYPES: Record<AssignmentContentType, string> = {
+  course: 'Course',
+  assessment: 'NeuroElemental Assessment',
+  diagnostic: 'Diagnostic',
+};
+
+export const ASSIGNMENT_MEMBER_STATUSES: Record<AssignmentMemberStatus, string> = {
+  pending: 'Pending',
+  overdue: 'Overdue',
+  completed: 'Completed',
+  completed_late: 'Completed late',
+};
+
+/** Course credits consumed for each member enrolled through an assignment */
+export const COURSE_CREDITS_PER_ASSIGNEE = 1;
+
+export const DEFAULT_REMINDER_DAYS_BEFORE = 3;
+export const MAX_REMINDER_DAYS_BEFORE = 30;
+
+/** Members a single assignment may be given to at once */
+export const MAX_ASSIGNEES = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Status
+// ============================================================================
+
+/**
+ * A member's status on an assignment at a point in time
+ *
+ * @example
+ * getAssignmentMemberStatus({ completed_at: null }, '2026-01-01T00:00:00Z', new Date('2026-02-01')) // 'overdue'
+ */
+export function getAssignmentMemberStatus(
+  member: Pick<AssignmentMemberProgress, 'completed_at'>,
+  dueAt: string | null,
+  now: Date
+): AssignmentMemberStatus {
+  const due = dueAt ? new Date(dueAt).getTime() : null;
+
+  if (member.completed_at) {
+    return due !== null && new Date(member.completed_at).getTime() > due ? 'completed_late' : 'completed';
+  }
+
+  return due !== null && now.getTime() > due ? 'overdue' : 'pending';
+}
+
+/**
+ * Count members per status for a compliance dashboard
+ */
+export function summarizeCompliance(
+  members: Array<Pick<AssignmentMemberProgress, 'completed_at'>>,
+  dueAt: string | null,
+  now: Date
+): ComplianceSummary {
+  const summary: ComplianceSummary = {
+    assigned: members.length,
+    completed: 0,
+    completedLate: 0,
+    pending: 0,
+    overdue: 0,
+    completionRate: 0,
+  };
+
+  for (const member of members) {
+    const status = getAssignmentMemberStatus(member, dueAt, now);
+    if (status === 'completed') summary.completed++;
+    else if (status === 'completed_late') summary.completedLate++;
+    else if (status === 'overdue') summary.overdue++;
+    else summary.pending++;
+  }
+
+  if (members.length > 0) {
+    summary.completionRate = Math.round(((summary.completed + summary.completedLate) / members.length) * 100);
+  }
+
+  return summary;
+}
+
+// ============================================================================
+// Notices
+// ============================================================================
+
+/**
+ * The email a member should get now, if any. Each is sent once: the reminder
+ * inside the reminder window before the due date, the overdue notice once the
+ * due date has passed. A member assigned after the window opened still gets
+ * the reminder, so nobody is only ever told they are late.
+ */
+export function getDueNotice(
+  member: AssignmentMemberProgress,
+  assignment: AssignmentSchedule,
+  now: Date
+): AssignmentNotice | null {
+  if (member.completed_at || !assignment.due_at) return null;
+
+  const due = new Date(assignment.due_at).getTime();
+
+  if (now.getTime() > due) {
+    return member.overdue_notified_at ? null : 'overdue';
+  }
+
+  const windowStart = due - assignment.reminder_days_before * DAY_MS;
+  if (now.getTime() >= windowStart && !member.reminder_sent_at) {
+    return 'reminder';
+  }
+
+  return null;
+}
+
+/**
+ * App path where an assignee works on the assigned content
+ */
+export function getAssignmentContentPath(
+  assignment: { content_type: string; organization_id: string; diagnostic_id: string | null },
+  courseSlug?: string | null
+): string {
+  if (assignment.content_type === 'course' && courseSlug) {
+    return `/courses/${courseSlug}`;
+  }
+  if (assignment.content_type === 'diagnostic' && assignment.diagnostic_id) {
+    return `/dashboard/organizations/${assignment.organization_id}/diagnostics/${assignment.diagnostic_id}`;
+  }
+  if (assignment.content_type === 'assessment') {
+    return '/assessment';
+  }
+  return '/dashboard';
+}
+
+/**
+ * Whole days left until the due date, rounded up; 0 on the due day itself
+ */
+export function getDaysUntilDue(dueAt: string, now: Date): number {
+  return Math.max(0, Math.ceil((new Date(dueAt).getTime() - now.getTime()) / DAY_MS));
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * CSV columns for one member of an assignment, in export order
+ */
+export function toComplianceCsvRecord(row: ComplianceExportRow): Record<string, string> {
+  return {
+    Name: row.name ?? '',
+    Email: row.email,
+    Team: row.team ?? '',
+    Status: ASSIGNMENT_MEMBER_STATUSES[row.status],
+    'Assigned At': row.assigned_at,
+    'Due At': row.due_at ?? '',
+    'Completed At': row.completed_at ?? '',
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Team Composition
+ * The element mix of a team or organization from its members' latest
+ * assessment results, protected by the organization's privacy policy so no
+ * member's element can be read off the report.
+ * Safe to import on the client.
+ */
+
+import {
+  describeAggregatePrivacy,
+  isolatesSmallRemainder,
+  protectDistribution,
+  toPercentages,
+  type AggregatePrivacy,
+  type PrivacyPolicy,
+  type RandomSource,
+} from '@/lib/privacy/aggregation';
+
+/** Stored as the data of a team composition report */
+export interface TeamCompositionReport {
+  members: number;
+  /** Members with an assessment result */
+  assessed: number;
+  /** Members per top element; small elements are left out or merged into `other` */
+  elements: Record<string, number>;
+  /** Percentage of released members per top element */
+  percentages: Record<string, number>;
+  privacy: AggregatePrivacy;
+}
+
+/**
+ * Summarize the top elements of a group's members. The cohort is the members
+ * with a result; below the policy's minimum, or when the teams inside it
+ * would leave fewer than that many members to be worked out, no elements are
+ * released.
+ *
+ * @param topElements - Top element of each assessed member, by user ID
+ * @param teamCohorts - Member IDs of each team subtree inside the group
+ */
+export function summarizeTeamComposition(
+  members: number,
+  topElements: Map<string, string>,
+  policy: PrivacyPolicy,
+  random: RandomSource = Math.random,
+  teamCohorts: string[][] = []
+): TeamCompositionReport {
+  const isolatesRemainder = isolatesSmallRemainder([...topElements.keys()], teamCohorts, policy);
+  const privacy = describeAggregatePrivacy(topElements.size, policy, [], isolatesRemainder);
+  if (privacy.withheld) {
+    return { members, assessed: topElements.size, elements: {}, percentages: {}, privacy };
+  }
+
+  const counts: Record<string, number> = {};
+  for (const element of topElements.values()) {
+    counts[element] = (counts[element] ?? 0) + 1;
+  }
+
+  const elements = protectDistribution(counts, policy, random);
+
+  return {
+    members,
+    assessed: topElements.size,
+    elements: elements.counts,
+    percentages: toPercentages(elements.counts),
+    privacy: describeAggregatePrivacy(topElements.size, policy, elements.suppressedCells),
+  };
+}
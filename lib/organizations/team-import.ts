@@ -0,0 +1,144 @@
+/**
+ * Team Import
+ * Applies a CSV of member-to-team assignments: creates missing departments
+ * and teams, records their external IDs, moves members and sets managers.
+ * Every row is validated before anything is written, so an invalid row
+ * rejects the whole import. The writes themselves are not transactional:
+ * a failure while applying leaves the earlier writes in place, and the same
+ * CSV can be imported again to finish.
+ */
+
+import { membershipRepository } from '@/lib/db/memberships';
+import { teamRepository } from '@/lib/db/teams';
+import {
+  findTeamByPath,
+  planTeamImport,
+  teamPathKey,
+  TEAM_PATH_SEPARATOR,
+  type TeamImportPlan,
+  type TeamImportRow,
+} from './teams';
+
+export interface TeamImportResult {
+  dryRun: boolean;
+  /** Paths of the teams created (or that would be created) */
+  teamsCreated: string[];
+  membersAssigned: number;
+  managersSet: number;
+  errors: TeamImportPlan['errors'];
+}
+
+function formatPath(path: string[]): string {
+  return path.join(` ${TEAM_PATH_SEPARATOR} `);
+}
+
+/**
+ * Import team assignments for an organization's members
+ *
+ * @param rows - Parsed CSV rows keyed by lower-case header
+ * @param options.dryRun - Validate and report without writing anything
+ */
+export async function importTeamAssignments(
+  organizationId: string,
+  rows: TeamImportRow[],
+  options: { dryRun: boolean; actorId: string }
+): Promise<TeamImportResult> {
+  const [teams, members] = await Promise.all([
+    teamRepository.getOrganizationTeams(organizationId),
+    membershipRepository.getOrganizationMembers(organizationId),
+  ]);
+
+  const plan = planTeamImport(rows, teams);
+  // Deactivated members can't be assigned, as when assigning learning
+  const userIdsByEmail = new Map(
+    members.flatMap((member) =>
+      member.user_id && member.profiles && !member.deactivated_at
+        ? [[member.profiles.email.toLowerCase(), member.user_id] as const]
+        : []
+    )
+  );
+
+  for (const assignment of plan.assignments) {
+    if (!userIdsByEmail.has(assignment.email)) {
+      plan.errors.push({
+        row: assignment.row,
+        message: `${assignment.email} is not an active member of this organization`,
+      });
+    }
+
+    // The external ID may already belong to a different team
+    if (assignment.externalId) {
+      const owner = teams.find((team) => team.external_id === assignment.externalId);
+      if (owner && owner.id !== findTeamByPath(teams, assignment.path)?.id) {
+        plan.errors.push({
+          row: assignment.row,
+          message: `team_external_id ${assignment.externalId} already belongs to another team`,
+        });
+      }
+    }
+  }
+
+  const result: TeamImportResult = {
+    dryRun: options.dryRun,
+    teamsCreated: plan.newTeams.map(formatPath),
+    membersAssigned: plan.assignments.length,
+    managersSet: plan.assignments.filter((assignment) => assignment.manager && assignment.path.length > 0).length,
+    errors: plan.errors.sort((a, b) => a.row - b.row),
+  };
+
+  if (options.dryRun || plan.errors.length > 0) {
+    return result;
+  }
+
+  // Create missing teams, parents first; top-level teams are departments
+  const externalIds = new Map(
+    plan.assignments.flatMap((assignment) =>
+      assignment.externalId ? [[teamPathKey(assignment.path), assignment.externalId] as const] : []
+    )
+  );
+
+  for (const path of plan.newTeams) {
+    const parent = path.length > 1 ? findTeamByPath(teams, path.slice(0, -1)) : undefined;
+    const created = await teamRepository.createTeam(
+      organizationId,
+      {
+        name: path[path.length - 1],
+        kind: path.length === 1 ? 'department' : 'team',
+        parent_id: parent?.id ?? null,
+        external_id: externalIds.get(teamPathKey(path)) ?? null,
+      },
+      options.actorId
+    );
+    teams.push(created);
+  }
+
+  // Group members by target team (null = no team) and apply
+  const membersByTeam = new Map<string | null, string[]>();
+  const managers = new Map<string, string>();
+
+  for (const assignment of plan.assignments) {
+    const team = assignment.path.length > 0 ? findTeamByPath(teams, assignment.path) : undefined;
+    const teamId = team?.id ?? null;
+    const userId = userIdsByEmail.get(assignment.email) as string;
+
+    membersByTeam.set(teamId, [...(membersByTeam.get(teamId) ?? []), userId]);
+
+    if (team && assignment.manager) {
+      managers.set(team.id, userId);
+    }
+    if (team && assignment.externalId && team.external_id !== assignment.externalId) {
+      await teamRepository.updateTeam(team.id, { external_id: assignment.externalId });
+      team.external_id = assignment.externalId;
+    }
+  }
+
+  for (const [teamId, userIds] of membersByTeam) {
+    await membershipRepository.setMembersTeam(organizationId, userIds, teamId);
+  }
+
+  for (const [teamId, userId] of managers) {
+    await teamRepository.updateTeam(teamId, { manager_id: userId });
+  }
+
+  return result;
+}
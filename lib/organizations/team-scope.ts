@@ -0,0 +1,117 @@
+/**
+ * Team Scope
+ * Which part of an organization a user may see in analytics and reports:
+ * owners and admins see the whole organization, team managers the teams
+ * they manage and everything below them.
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { forbiddenError, notFoundError } from '@/lib/api/error-handler';
+import { membershipRepository } from '@/lib/db/memberships';
+import { getUserOrgRole } from '@/lib/db/organizations';
+import { teamRepository, type OrganizationTeam } from '@/lib/db/teams';
+import type { OrganizationRole } from '@/lib/types/supabase';
+import { getManagedTeamIds, getTeamSubtreeIds } from './teams';
+
+export interface TeamScope {
+  role: OrganizationRole;
+  /** Every team of the organization */
+  teams: OrganizationTeam[];
+  /** Teams in scope; null means the whole organization */
+  teamIds: string[] | null;
+}
+
+/**
+ * Resolve what a user may see, optionally narrowed to one team's subtree
+ *
+ * @param teamId - Team to narrow to; managers may only pick teams they manage
+ * @throws {ApiError} 403 if the user is neither an admin nor a manager of the team
+ * @throws {ApiError} 404 if `teamId` is not a team of the organization
+ *
+ * @example
+ * ```typescript
+ * const scope = await resolveTeamScope(user.id, organizationId, searchParams.get('teamId'));
+ * const memberIds = await getScopedMemberIds(organizationId, scope);
+ * ```
+ */
+export async function resolveTeamScope(
+  userId: string,
+  organizationId: string,
+  teamId?: string | null
+): Promise<TeamScope> {
+  const role = (await getUserOrgRole(userId, organizationId)) as OrganizationRole | null;
+  if (!role) {
+    throw forbiddenError('You must be a member of this organization');
+  }
+
+  const teams = await teamRepository.getOrganizationTeams(organizationId);
+  if (teamId && !teams.some((team) => team.id === teamId)) {
+    throw notFoundError('Team');
+  }
+
+  const requested = teamId ? [...getTeamSubtreeIds(teams, [teamId])] : null;
+
+  if (role === 'owner' || role === 'admin') {
+    return { role, teams, teamIds: requested };
+  }
+
+  const managed = getManagedTeamIds(teams, userId);
+  if (managed.size === 0) {
+    throw forbiddenError('Only organization admins and team managers can view this');
+  }
+  if (teamId && !managed.has(teamId)) {
+    throw forbiddenError('You can only view teams you manage');
+  }
+
+  return { role, teams, teamIds: requested ?? [...managed] };
+}
+
+/**
+ * Whether a scope covers a team; the whole-organization scope covers every team
+ */
+export function scopeIncludesTeam(scope: Pick<TeamScope, 'teamIds'>, teamId: string | null): boolean {
+  if (scope.teamIds === null) return true;
+  return teamId !== null && scope.teamIds.includes(teamId);
+}
+
+/**
+ * User IDs of the active members a scope covers
+ */
+export async function getScopedMemberIds(organizationId: string, scope: TeamScope): Promise<string[]> {
+  return membershipRepository.getActiveMemberIds(organizationId, scope.teamIds ?? undefined);
+}
+
+/**
+ * Active member IDs of each team subtree in a scope: the narrower cohorts an
+ * aggregate about the scope could be compared against
+ */
+export async function getScopedTeamCohorts(
+  organizationId: string,
+  scope: Pick<TeamScope, 'teams' | 'teamIds'>
+): Promise<string[][]> {
+  const members = await membershipRepository.getOrganizationMembers(organizationId);
+  const teams = scope.teams.filter((team) => scopeIncludesTeam(scope, team.id));
+
+  return teams.map((team) => {
+    const subtree = getTeamSubtreeIds(scope.teams, [team.id]);
+    return members
+      .filter((member) => !member.deactivated_at && member.team_id !== null && subtree.has(member.team_id))
+      .map((member) => member.user_id)
+      .filter((userId): userId is string => !!userId);
+  });
+}
+
+/**
+ * Whether a member belongs to a team or any team below it
+ */
+export async function isMemberInTeamSubtree(
+  organizationId: string,
+  userId: string,
+  teamId: string
+): Promise<boolean> {
+  const member = await membershipRepository.getOrganizationMember(organizationId, userId);
+  if (!member?.team_id || member.deactivated_at) return false;
+
+  const teams = await teamRepository.getOrganizationTeams(organizationId);
+  return getTeamSubtreeIds(teams, [teamId]).has(member.team_id);
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TEAM_DEPTH,
+  buildTeamTree,
+  findTeamByPath,
+  formatTeamPath,
+  getManagedTeamIds,
+  getSubtreeHeight,
+  getTeamPlacementError,
+  getTeamSubtreeIds,
+  parseTeamPath,
+  planTeamImport,
+  wouldCreateCycle,
+  type TeamNode,
+} from './teams';
+
+const teams: TeamNode[] = [
+  { id: 'eng', parent_id: null, name: 'Engineering', manager_id: 'cto' },
+  { id: 'platform', parent_id: 'eng', name: 'Platform', manager_id: 'lead-1' },
+  { id: 'infra', parent_id: 'platform', name: 'Infrastructure', manager_id: null },
+  { id: 'apps', parent_id: 'eng', name: 'Apps', manager_id: 'lead-2' },
+  { id: 'sales', parent_id: null, name: 'Sales', manager_id: 'lead-1' },
+];
+
+// ============================================================================
+// Hierarchy
+// ============================================================================
+
+describe('buildTeamTree', () => {
+  it('nests teams under their parents with siblings sorted by name', () => {
+    const tree = buildTeamTree(teams);
+
+    expect(tree.map((team) => team.name)).toEqual(['Engineering', 'Sales']);
+    expect(tree[0].children.map((team) => team.name)).toEqual(['Apps', 'Platform']);
+    expect(tree[0].children[1].children[0]).toMatchObject({ id: 'infra', depth: 2 });
+  });
+
+  it('treats teams whose parent is missing as top-level', () => {
+    const tree = buildTeamTree([{ id: 'orphan', parent_id: 'gone', name: 'Orphan', manager_id: null }]);
+    expect(tree).toMatchObject([{ id: 'orphan', depth: 0 }]);
+  });
+});
+
+describe('getTeamSubtreeIds / getManagedTeamIds', () => {
+  it('includes the team and everything below it', () => {
+    expect([...getTeamSubtreeIds(teams, ['platform'])].sort()).toEqual(['infra', 'platform']);
+    expect(getTeamSubtreeIds(teams, ['eng']).size).toBe(4);
+  });
+
+  it('combines every subtree a manager runs and nothing else', () => {
+    expect([...getManagedTeamIds(teams, 'lead-1')].sort()).toEqual(['infra', 'platform', 'sales']);
+    expect(getManagedTeamIds(teams, 'nobody').size).toBe(0);
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  it('rejects moving a team under itself or a descendant', () => {
+    expect(wouldCreateCycle(teams, 'eng', 'eng')).toBe(true);
+    expect(wouldCreateCycle(teams, 'eng', 'infra')).toBe(true);
+    expect(wouldCreateCycle(teams, 'infra', 'apps')).toBe(false);
+    expect(wouldCreateCycle(teams, 'platform', null)).toBe(false);
+  });
+});
+
+describe('getTeamPlacementError', () => {
+  it('allows valid moves and explains invalid ones', () => {
+    expect(getTeamPlacementError(teams, null, null)).toBeNull();
+    expect(getTeamPlacementError(teams, 'apps', 'platform')).toBeNull();
+    expect(getTeamPlacementError(teams, null, 'missing')).toBe('Parent team not found');
+    expect(getTeamPlacementError(teams, 'platform', 'infra')).toMatch(/under itself/);
+  });
+
+  it('limits nesting depth, counting the moved subtree', () => {
+    const chain: TeamNode[] = Array.from({ length: MAX_TEAM_DEPTH + 1 }, (_, i) => ({
+      id: `level-${i}`,
+      parent_id: i === 0 ? null : `level-${i - 1}`,
+      name: `Level ${i}`,
+      manager_id: null,
+    }));
+    const deepest = `level-${MAX_TEAM_DEPTH}`;
+
+    expect(getTeamPlacementError(chain, null, `level-${MAX_TEAM_DEPTH - 1}`)).toBeNull();
+    expect(getTeamPlacementError(chain, null, deepest)).toMatch(/at most/);
+    expect(getTeamPlacementError([...chain, ...teams], 'eng', `level-${MAX_TEAM_DEPTH - 2}`)).toMatch(/at most/);
+  });
+});
+
+describe('paths', () => {
+  it('formats and resolves paths case-insensitively', () => {
+    expect(formatTeamPath(teams, 'infra')).toBe('Engineering > Platform > Infrastructure');
+    expect(findTeamByPath(teams, parseTeamPath('engineering >platform> INFRASTRUCTURE'))?.id).toBe('infra');
+    expect(findTeamByPath(teams, ['Platform'])).toBeUndefined();
+  });
+
+  it('measures subtree height', () => {
+    expect(getSubtreeHeight(teams, 'eng')).toBe(2);
+    expect(getSubtreeHeight(teams, 'infra')).toBe(0);
+  });
+});
+
+// ============================================================================
+// CSV import
+// ============================================================================
+
+describe('planTeamImport', () => {
+  it('plans missing teams parents first and skips existing ones', () => {
+    const plan = planTeamImport(
+      [
+        { email: 'Ada@Example.com', team: 'Engineering > Platform > Data', manager: 'yes' },
+        { email: 'bob@example.com', team: 'Support > Tier 1', team_external_id: 'hr-42' },
+        { email: 'cy@example.com', team: 'Support' },
+      ],
+      teams
+    );
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.newTeams).toEqual([
+      ['Engineering', 'Platform', 'Data'],
+      ['Support'],
+      ['Support', 'Tier 1'],
+    ]);
+    expect(plan.assignments[0]).toMatchObject({ email: 'ada@example.com', manager: true, externalId: null });
+    expect(plan.assignments[1]).toMatchObject({ externalId: 'hr-42', manager: false });
+  });
+
+  it('reports invalid, duplicate and too-deep rows without planning them', () => {
+    const tooDeep = Array.from({ length: MAX_TEAM_DEPTH + 2 }, (_, i) => `Level ${i}`).join(' > ');
+    const plan = planTeamImport(
+      [
+        { email: 'not-an-email', team: 'Sales' },
+        { email: 'ada@example.com', team: 'Sales' },
+        { email: 'ADA@example.com', team: 'Engineering' },
+        { email: 'deep@example.com', team: tooDeep },
+      ],
+      teams
+    );
+
+    expect(plan.assignments.map((assignment) => assignment.row)).toEqual([2]);
+    expect(plan.errors.map((error) => error.row)).toEqual([1, 3, 4]);
+    expect(plan.newTeams).toEqual([]);
+  });
+
+  it('treats an empty team as removal from any team', () => {
+    const plan = planTeamImport([{ email: 'ada@example.com', team: '' }], teams);
+    expect(plan.assignments[0].path).toEqual([]);
+  });
+
+  it('flags conflicting external IDs for the same team', () => {
+    const plan = planTeamImport(
+      [
+        { email: 'a@example.com', team: 'Sales', team_external_id: 'one' },
+        { email: 'b@example.com', team: 'sales', team_external_id: 'two' },
+      ],
+      teams
+    );
+    expect(plan.errors).toEqual([{ row: 2, message: 'Conflicting team_external_id for sales' }]);
+  });
+});
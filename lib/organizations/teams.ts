@@ -0,0 +1,339 @@
+/**
+ * Organization team hierarchy
+ * Tree building, subtree and manager scoping, cycle checks and CSV import
+ * planning for departments and teams. Safe to import on the client.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TeamKind = 'department' | 'team';
+
+/** The fields of a team the hierarchy helpers need */
+export interface TeamNode {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  manager_id: string | null;
+}
+
+export type TeamTreeNode<T extends TeamNode> = T & {
+  depth: number;
+  children: TeamTreeNode<T>[];
+};
+
+/** One data row of a team import CSV, keyed by lower-case header */
+export type TeamImportRow = Record<string, string | undefined>;
+
+export interface TeamImportAssignment {
+  /** 1-based data row number, for error messages */
+  row: number;
+  email: string;
+  /** Team names from the top-level department down */
+  path: string[];
+  /** IdP/HRIS identifier for the team at the end of the path */
+  externalId: string | null;
+  /** The member becomes the team's manager */
+  manager: boolean;
+}
+
+export interface TeamImportPlan {
+  assignments: TeamImportAssignment[];
+  /** Paths of teams that do not exist yet, parents before children */
+  newTeams: string[][];
+  errors: Array<{ row: number; message: string }>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Deepest allowed nesting; top-level departments are depth 0 */
+export const MAX_TEAM_DEPTH = 7;
+
+/** Separator between team names in an import path, e.g. "Engineering > Platform" */
+export const TEAM_PATH_SEPARATOR = '>';
+
+/** Rows accepted in one import */
+export const MAX_TEAM_IMPORT_ROWS = 5000;
+
+const TRUE_VALUES = new Set(['1', 'true', 'yes', 'y', 'x']);
+
+// ============================================================================
+// Hierarchy
+// ============================================================================
+
+function childrenByParent<T extends TeamNode>(teams: T[]): Map<string | null, T[]> {
+  const ids = new Set(teams.map((team) => team.id));
+  const children = new Map<string | null, T[]>();
+
+  for (const team of teams) {
+    // A parent outside the list (e.g. deleted concurrently) makes the team a root
+    const parent = team.parent_id && ids.has(team.parent_id) ? team.parent_id : null;
+    const siblings = children.get(parent) ?? [];
+    siblings.push(team);
+    children.set(parent, siblings);
+  }
+
+  return children;
+}
+
+/**
+ * Nest teams under their parents, siblings sorted by name
+ *
+ * @example
+ * buildTeamTree(teams) // [{ name: 'Engineering', depth: 0, children: [{ name: 'Platform', depth: 1, ... }] }]
+ */
+export function buildTeamTree<T extends TeamNode>(teams: T[]): TeamTreeNode<T>[] {
+  const children = childrenByParent(teams);
+  const visited = new Set<string>();
+
+  const build = (parentId: string | null, depth: number): TeamTreeNode<T>[] =>
+    (children.get(parentId) ?? [])
+      .filter((team) => !visited.has(team.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((team) => {
+        visited.add(team.id);
+        return { ...team, depth, children: build(team.id, depth + 1) };
+      });
+
+  return build(null, 0);
+}
+
+/**
+ * IDs of the given teams and every team below them
+ */
+export function getTeamSubtreeIds<T extends TeamNode>(teams: T[], rootIds: Iterable<string>): Set<string> {
+  const children = childrenByParent(teams);
+  const subtree = new Set<string>();
+  const queue = [...rootIds];
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (subtree.has(id)) continue;
+    subtree.add(id);
+    for (const child of children.get(id) ?? []) {
+      queue.push(child.id);
+    }
+  }
+
+  return subtree;
+}
+
+/**
+ * IDs of the teams a user manages, including every team below them
+ */
+export function getManagedTeamIds<T extends TeamNode>(teams: T[], userId: string): Set<string> {
+  return getTeamSubtreeIds(
+    teams,
+    teams.filter((team) => team.manager_id === userId).map((team) => team.id)
+  );
+}
+
+/**
+ * Whether moving `teamId` under `parentId` would make a team its own ancestor
+ */
+export function wouldCreateCycle<T extends TeamNode>(teams: T[], teamId: string, parentId: string | null): boolean {
+  if (parentId === null) return false;
+  return getTeamSubtreeIds(teams, [teamId]).has(parentId);
+}
+
+/**
+ * Teams from the top-level department down to `teamId`
+ */
+export function getTeamAncestry<T extends TeamNode>(teams: T[], teamId: string): T[] {
+  const byId = new Map(teams.map((team) => [team.id, team]));
+  const ancestry: T[] = [];
+  let current = byId.get(teamId);
+
+  while (current && !ancestry.includes(current)) {
+    ancestry.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return ancestry;
+}
+
+/**
+ * Depth of the deepest team below `teamId`, relative to it (0 for a leaf)
+ */
+export function getSubtreeHeight<T extends TeamNode>(teams: T[], teamId: string): number {
+  const children = childrenByParent(teams);
+  const height = (id: string, seen: Set<string>): number => {
+    if (seen.has(id)) return 0;
+    seen.add(id);
+    const heights = (children.get(id) ?? []).map((child) => height(child.id, seen) + 1);
+    return Math.max(0, ...heights);
+  };
+  return height(teamId, new Set());
+}
+
+/**
+ * Why a team cannot be placed under `parentId`, or null if it can
+ *
+ * @param teamId - The team being moved, or null for a new team
+ */
+export function getTeamPlacementError<T extends TeamNode>(
+  teams: T[],
+  teamId: string | null,
+  parentId: string | null
+): string | null {
+  if (parentId === null) return null;
+  if (!teams.some((team) => team.id === parentId)) {
+    return 'Parent team not found';
+  }
+  if (teamId && wouldCreateCycle(teams, teamId, parentId)) {
+    return 'A team cannot be moved under itself or one of its sub-teams';
+  }
+
+  const depth = getTeamAncestry(teams, parentId).length;
+  const height = teamId ? getSubtreeHeight(teams, teamId) : 0;
+  if (depth + height > MAX_TEAM_DEPTH) {
+    return `Teams can be nested at most ${MAX_TEAM_DEPTH + 1} levels deep`;
+  }
+
+  return null;
+}
+
+/**
+ * Display path of a team, e.g. "Engineering > Platform"
+ */
+export function formatTeamPath<T extends TeamNode>(teams: T[], teamId: string): string {
+  return getTeamAncestry(teams, teamId)
+    .map((team) => team.name)
+    .join(` ${TEAM_PATH_SEPARATOR} `);
+}
+
+// ============================================================================
+// CSV import
+// ============================================================================
+
+/**
+ * Split an import path into team names
+ *
+ * @example
+ * parseTeamPath('Engineering > Platform ') // ['Engineering', 'Platform']
+ */
+export function parseTeamPath(path: string): string[] {
+  return path
+    .split(TEAM_PATH_SEPARATOR)
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+}
+
+/**
+ * Case-insensitive key for a team path, for matching paths from different rows
+ */
+export function teamPathKey(path: string[]): string {
+  return path.map((name) => name.toLowerCase()).join('\u0000');
+}
+
+/**
+ * Find a team by its path of names (case-insensitive)
+ */
+export function findTeamByPath<T extends TeamNode>(teams: T[], path: string[]): T | undefined {
+  let parentId: string | null = null;
+  let found: T | undefined;
+
+  for (const name of path) {
+    found = teams.find(
+      (team) => team.parent_id === parentId && team.name.toLowerCase() === name.toLowerCase()
+    );
+    if (!found) return undefined;
+    parentId = found.id;
+  }
+
+  return found;
+}
+
+/**
+ * Validate import rows and work out which teams have to be created
+ *
+ * Columns: `email`, `team` (a path such as "Engineering > Platform"),
+ * optional `team_external_id` and `manager` (yes/true/1). Rows with an empty
+ * `team` remove the member from their team. Nothing is written; the caller
+ * applies the plan.
+ */
+export function planTeamImport<T extends TeamNode>(rows: TeamImportRow[], existingTeams: T[]): TeamImportPlan {
+  const plan: TeamImportPlan = { assignments: [], newTeams: [], errors: [] };
+  const seenEmails = new Set<string>();
+  const plannedPaths = new Set<string>();
+
+  if (rows.length > MAX_TEAM_IMPORT_ROWS) {
+    plan.errors.push({ row: 0, message: `Imports are limited to ${MAX_TEAM_IMPORT_ROWS} rows` });
+    return plan;
+  }
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const email = raw.email?.trim().toLowerCase() ?? '';
+    const path = parseTeamPath(raw.team ?? '');
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      plan.errors.push({ row, message: `Invalid email: ${raw.email ?? ''}` });
+      return;
+    }
+    if (seenEmails.has(email)) {
+      plan.errors.push({ row, message: `${email} appears more than once` });
+      return;
+    }
+    if (path.length > MAX_TEAM_DEPTH + 1) {
+      plan.errors.push({ row, message: `Team paths can be at most ${MAX_TEAM_DEPTH + 1} levels deep` });
+      return;
+    }
+    if (path.some((name) => name.length > 100)) {
+      plan.errors.push({ row, message: 'Team names must be 100 characters or less' });
+      return;
+    }
+
+    seenEmails.add(email);
+    plan.assignments.push({
+      row,
+      email,
+      path,
+      externalId: raw.team_external_id?.trim() || null,
+      manager: TRUE_VALUES.has(raw.manager?.trim().toLowerCase() ?? ''),
+    });
+
+    for (let length = 1; length <= path.length; length++) {
+      const prefix = path.slice(0, length);
+      const key = teamPathKey(prefix);
+      if (!plannedPaths.has(key) && !findTeamByPath(existingTeams, prefix)) {
+        plannedPaths.add(key);
+        plan.newTeams.push(prefix);
+      }
+    }
+  });
+
+  // Two rows naming different external IDs for the same team
+  const externalIds = new Map<string, string>();
+  for (const assignment of plan.assignments) {
+    if (!assignment.externalId) continue;
+    const key = teamPathKey(assignment.path);
+    const previous = externalIds.get(key);
+    if (previous && previous !== assignment.externalId) {
+      plan.errors.push({
+        row: assignment.row,
+        message: `Conflicting team_external_id for ${assignment.path.join(` ${TEAM_PATH_SEPARATOR} `)}`,
+      });
+    }
+    externalIds.set(key, assignment.externalId);
+  }
+
+  // Two managers named for the same team
+  const managers = new Map<string, string>();
+  for (const assignment of plan.assignments) {
+    if (!assignment.manager || assignment.path.length === 0) continue;
+    const key = teamPathKey(assignment.path);
+    if (managers.has(key)) {
+      plan.errors.push({
+        row: assignment.row,
+        message: `${assignment.path.join(` ${TEAM_PATH_SEPARATOR} `)} already has a manager (${managers.get(key)})`,
+      });
+    }
+    managers.set(key, assignment.email);
+  }
+
+  return plan;
+}
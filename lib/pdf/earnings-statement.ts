@@ -0,0 +1,187 @@
+import { jsPDF } from "jspdf";
+
+/**
+ * Earnings Statement PDF Generator
+ *
+ * Generates a monthly payout statement for an instructor: totals after the
+ * platform fee and refunds, followed by every ledger entry on the statement
+ */
+
+interface StatementEntry {
+  date: string;
+  description: string;
+  gross_amount: number;
+  platform_fee: number;
+  net_amount: number;
+}
+
+interface EarningsStatementPDFData {
+  instructorName: string;
+  periodStart: string;
+  periodEnd: string;
+  status: string;
+  grossAmount: number;
+  platformFees: number;
+  refunds: number;
+  netAmount: number;
+  entries: StatementEntry[];
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(
+    amount
+  );
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { timeZone: "UTC" });
+
+/**
+ * Generate PDF for a payout statement
+ */
+export async function generateEarningsStatementPDF(
+  data: EarningsStatementPDFData
+): Promise<Blob> {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  // Colors
+  const textColor = "#1f2937";
+  const mutedColor = "#6b7280";
+
+  // Header
+  doc.setFillColor(124, 58, 237);
+  doc.rect(0, 0, pageWidth, 40, "F");
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(24);
+  doc.setFont("helvetica", "bold");
+  doc.text("NeuroElemental", pageWidth / 2, 20, { align: "center" });
+
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "normal");
+  doc.text("Instructor Earnings Statement", pageWidth / 2, 30, {
+    align: "center",
+  });
+
+  // Instructor and period
+  let yPos = 55;
+  doc.setTextColor(textColor);
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text(data.instructorName, 20, yPos);
+  yPos += 8;
+
+  doc.setTextColor(mutedColor);
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    `Period: ${formatDay(data.periodStart)} - ${formatDay(data.periodEnd)}   Status: ${data.status}`,
+    20,
+    yPos
+  );
+  yPos += 15;
+
+  // Totals
+  const totals = [
+    { label: "Gross Sales", value: formatCurrency(data.grossAmount) },
+    { label: "Platform Fees", value: formatCurrency(data.platformFees) },
+    { label: "Refunds", value: formatCurrency(data.refunds) },
+    { label: "Net Payout", value: formatCurrency(data.netAmount) },
+  ];
+
+  const boxWidth = (pageWidth - 55) / 4;
+  totals.forEach((total, index) => {
+    const x = 20 + index * (boxWidth + 5);
+
+    doc.setFillColor(248, 250, 252);
+    doc.roundedRect(x, yPos, boxWidth, 25, 3, 3, "F");
+
+    doc.setFontSize(13);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(textColor);
+    doc.text(total.value, x + boxWidth / 2, yPos + 12, { align: "center" });
+
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(mutedColor);
+    doc.text(total.label, x + boxWidth / 2, yPos + 20, { align: "center" });
+  });
+
+  yPos += 35;
+
+  // Entries
+  doc.setTextColor(textColor);
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text("Transactions", 20, yPos);
+  yPos += 10;
+
+  const drawTableHeader = () => {
+    doc.setFillColor(248, 250, 252);
+    doc.rect(20, yPos, pageWidth - 40, 8, "F");
+
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(mutedColor);
+    doc.text("Date", 25, yPos + 5);
+    doc.text("Description", 50, yPos + 5);
+    doc.text("Gross", 140, yPos + 5, { align: "right" });
+    doc.text("Fee", 163, yPos + 5, { align: "right" });
+    doc.text("Net", pageWidth - 25, yPos + 5, { align: "right" });
+    yPos += 10;
+
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(textColor);
+  };
+
+  drawTableHeader();
+
+  data.entries.forEach((entry) => {
+    if (yPos > pageHeight - 40) {
+      doc.addPage();
+      yPos = 20;
+      drawTableHeader();
+    }
+
+    const description =
+      entry.description.length > 48
+        ? `${entry.description.slice(0, 45)}...`
+        : entry.description;
+
+    doc.text(formatDay(entry.date), 25, yPos + 5);
+    doc.text(description, 50, yPos + 5);
+    doc.text(formatCurrency(entry.gross_amount), 140, yPos + 5, {
+      align: "right",
+    });
+    doc.text(formatCurrency(entry.platform_fee), 163, yPos + 5, {
+      align: "right",
+    });
+    doc.text(formatCurrency(entry.net_amount), pageWidth - 25, yPos + 5, {
+      align: "right",
+    });
+
+    yPos += 8;
+  });
+
+  // Footer
+  doc.setFillColor(240, 240, 240);
+  doc.rect(0, pageHeight - 25, pageWidth, 25, "F");
+
+  doc.setTextColor(mutedColor);
+  doc.setFontSize(9);
+  doc.text(
+    "NeuroElemental™ - Energy Management for Neurodivergent Minds",
+    pageWidth / 2,
+    pageHeight - 15,
+    { align: "center" }
+  );
+  doc.text(
+    `Generated ${new Date().toLocaleDateString()}`,
+    pageWidth / 2,
+    pageHeight - 8,
+    { align: "center" }
+  );
+
+  return doc.output("blob");
+}
@@ -16,6 +16,8 @@ export {
   userHasAnyPermission,
   userHasAllPermissions,
   assignRoleToUser,
+  removeRoleFromUser,
+  getRoleMemberIds,
   getRoleAssignmentHistory,
   getMembersCountByRole,
   type Permission,
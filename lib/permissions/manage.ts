@@ -25,6 +25,8 @@ export interface OrganizationRole {
   is_system: boolean;
   is_default: boolean;
   permissions: string[];
+  /** IdP group this role is provisioned from (SCIM externalId) */
+  scim_external_id?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -157,13 +159,14 @@ export async function getOrganizationRole(
  */
 export async function createOrganizationRole(
   organizationId: string,
-  userId: string,
+  userId: string | null,
   config: {
     name: string;
     description?: string;
     color?: string;
     permissions: string[];
     is_default?: boolean;
+    scim_external_id?: string | null;
   }
 ): Promise<{ success: boolean; role?: OrganizationRole; error?: string }> {
   try {
@@ -199,6 +202,7 @@ export async function createOrganizationRole(
         permissions: config.permissions,
         is_default: config.is_default ?? false,
         is_system: false,
+        scim_external_id: config.scim_external_id,
       })
       .select()
       .single() as { data: OrganizationRole | null; error: Error | null };
@@ -232,6 +236,7 @@ export async function updateOrganizationRole(
     color?: string;
     permissions?: string[];
     is_default?: boolean;
+    scim_external_id?: string | null;
   }
 ): Promise<{ success: boolean; role?: OrganizationRole; error?: string }> {
   try {
@@ -452,7 +457,7 @@ export async function userHasAllPermissions(
 }
 
 /**
- * Assign role to user
+ * Assign role to an active member
  */
 export async function assignRoleToUser(
   userId: string,
@@ -466,7 +471,8 @@ export async function assignRoleToUser(
       .from("organization_members")
       .update({ role_id: roleId })
       .eq("organization_id", organizationId)
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .is("deactivated_at", null);
 
     if (error) {
       logger.error("Error assigning role to user", error as Error);
@@ -486,6 +492,78 @@ export async function assignRoleToUser(
   }
 }
 
+/**
+ * Remove a custom role from a user
+ * Only clears the assignment if the user still has this role
+ */
+export async function removeRoleFromUser(
+  userId: string,
+  organizationId: string,
+  roleId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = getSupabaseServer();
+
+    const { error } = await (supabase as any)
+      .from("organization_members")
+      .update({ role_id: null })
+      .eq("organization_id", organizationId)
+      .eq("user_id", userId)
+      .eq("role_id", roleId);
+
+    if (error) {
+      logger.error("Error removing role from user", error as Error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : "An unexpected error occurred";
+    logger.error(
+      "Error in removeRoleFromUser",
+      error instanceof Error ? error : undefined,
+      { errorMsg: String(error) }
+    );
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Get IDs of active members assigned to a custom role
+ */
+export async function getRoleMemberIds(
+  organizationId: string,
+  roleId: string
+): Promise<string[]> {
+  try {
+    const supabase = getSupabaseServer();
+
+    const { data, error } = await supabase
+      .from("organization_members")
+      .select("user_id")
+      .eq("organization_id", organizationId)
+      .eq("role_id", roleId)
+      .is("deactivated_at", null);
+
+    if (error) {
+      logger.error("Error fetching role members", error as Error);
+      return [];
+    }
+
+    return (data || [])
+      .map((member: { user_id: string | null }) => member.user_id)
+      .filter((userId): userId is string => !!userId);
+  } catch (error: unknown) {
+    logger.error(
+      "Error in getRoleMemberIds",
+      error instanceof Error ? error : undefined,
+      { errorMsg: String(error) }
+    );
+    return [];
+  }
+}
+
 /**
  * Get role assignment history
  */
@@ -538,7 +616,7 @@ export async function getRoleAssignmentHistory(
 }
 
 /**
- * Get members count by role
+ * Get active members count by role
  */
 export async function getMembersCountByRole(
   organizationId: string
@@ -549,7 +627,8 @@ export async function getMembersCountByRole(
     const { data, error } = await supabase
       .from("organization_members")
       .select("role, role_id")
-      .eq("organization_id", organizationId);
+      .eq("organization_id", organizationId)
+      .is("deactivated_at", null);
 
     if (error) {
       logger.error("Error fetching members count by role", error as Error);
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PRIVACY_POLICY,
+  OTHER_CELL,
+  addNoise,
+  describeAggregatePrivacy,
+  isolatesSmallRemainder,
+  laplaceNoise,
+  protectCount,
+  protectDistribution,
+  protectMean,
+  toPercentages,
+  type PrivacyPolicy,
+} from './aggregation';
+
+const policy: PrivacyPolicy = { ...DEFAULT_PRIVACY_POLICY, minCohortSize: 5 };
+const coarsen: PrivacyPolicy = { ...policy, smallCellHandling: 'coarsen' };
+const noisy: PrivacyPolicy = { ...policy, noiseEpsilon: 1 };
+
+// ============================================================================
+// Noise
+// ============================================================================
+
+describe('laplaceNoise', () => {
+  it('is zero at the median and grows with the scale', () => {
+    expect(laplaceNoise(1, () => 0.5)).toBeCloseTo(0);
+    expect(laplaceNoise(2, () => 0.9)).toBeCloseTo(2 * Math.log(5));
+    expect(laplaceNoise(2, () => 0.1)).toBeCloseTo(-2 * Math.log(5));
+  });
+});
+
+describe('addNoise', () => {
+  it('leaves values alone without a budget', () => {
+    expect(addNoise(10, 1, policy, () => 0.99)).toBe(10);
+  });
+
+  it('scales the noise by sensitivity over epsilon', () => {
+    expect(addNoise(10, 2, { ...policy, noiseEpsilon: 0.5 }, () => 0.9)).toBeCloseTo(10 + 4 * Math.log(5));
+  });
+});
+
+// ============================================================================
+// Values
+// ============================================================================
+
+describe('protectCount', () => {
+  it('withholds counts of 1 to k - 1 people', () => {
+    expect(protectCount(0, policy)).toBe(0);
+    expect(protectCount(1, policy)).toBeNull();
+    expect(protectCount(4, policy)).toBeNull();
+    expect(protectCount(5, policy)).toBe(5);
+  });
+
+  it('rounds noisy counts and never goes below zero', () => {
+    expect(protectCount(6, noisy, () => 0.9)).toBe(Math.round(6 + Math.log(5)));
+    expect(protectCount(0, noisy, () => 0.01)).toBe(0);
+  });
+});
+
+describe('protectMean', () => {
+  it('withholds means of fewer than k people', () => {
+    expect(protectMean(3.2, 4, { min: 1, max: 5 }, policy)).toBeNull();
+    expect(protectMean(3.2, 5, { min: 1, max: 5 }, policy)).toBe(3.2);
+  });
+
+  it('calibrates noise to one person and stays within bounds', () => {
+    // One of 8 people can move a 1-5 mean by 0.5
+    expect(protectMean(3, 8, { min: 1, max: 5 }, noisy, () => 0.9)).toBeCloseTo(3 + 0.5 * Math.log(5));
+    expect(protectMean(4.9, 5, { min: 1, max: 5 }, noisy, () => 0.999)).toBe(5);
+  });
+});
+
+/** Member IDs m0..m(n-1), starting at `from` */
+function ids(n: number, from: number = 0): string[] {
+  return Array.from({ length: n }, (_, i) => `m${from + i}`);
+}
+
+describe('isolatesSmallRemainder', () => {
+  it('withholds a group whose team leaves fewer than k others', () => {
+    expect(isolatesSmallRemainder(ids(12), [ids(10)], policy)).toBe(true);
+    expect(isolatesSmallRemainder(ids(15), [ids(10)], policy)).toBe(false);
+    expect(isolatesSmallRemainder(ids(10), [ids(10)], policy)).toBe(false);
+  });
+
+  it('takes away every released team at once', () => {
+    // Two teams of 6 and 2 members in no team: the 2 are the difference
+    expect(isolatesSmallRemainder(ids(14), [ids(6), ids(6, 6)], policy)).toBe(true);
+    expect(isolatesSmallRemainder(ids(12), [ids(6), ids(6, 6)], policy)).toBe(false);
+  });
+
+  it('ignores teams too small to be released', () => {
+    expect(isolatesSmallRemainder(ids(8), [ids(3)], policy)).toBe(false);
+  });
+
+  it('ignores teams withheld for their own sub-teams', () => {
+    // The 7-member team is withheld, as its 6-member sub-team leaves 1
+    expect(isolatesSmallRemainder(ids(12), [ids(7), ids(6)], policy)).toBe(false);
+  });
+
+  it('only counts team members in the group', () => {
+    expect(isolatesSmallRemainder(ids(6), [ids(10, 3)], policy)).toBe(false);
+  });
+});
+
+// ============================================================================
+// Distributions
+// ============================================================================
+
+describe('protectDistribution', () => {
+  it('releases distributions without small cells unchanged', () => {
+    expect(protectDistribution({ a: 6, b: 5, c: 0 }, policy)).toEqual({
+      counts: { a: 6, b: 5, c: 0 },
+      suppressedCells: [],
+    });
+  });
+
+  it('suppresses small cells', () => {
+    const result = protectDistribution({ a: 10, b: 2, c: 3, d: 8 }, policy);
+    expect(result.counts).toEqual({ a: 10, d: 8 });
+    expect(result.suppressedCells.sort()).toEqual(['b', 'c']);
+  });
+
+  it('suppresses the next smallest cell when only one would be hidden', () => {
+    const result = protectDistribution({ a: 10, b: 2, c: 6 }, policy);
+    expect(result.counts).toEqual({ a: 10 });
+    expect(result.suppressedCells.sort()).toEqual(['b', 'c']);
+  });
+
+  it('merges small cells into other when coarsening', () => {
+    const result = protectDistribution({ a: 10, b: 2, c: 3 }, coarsen);
+    expect(result.counts).toEqual({ a: 10, [OTHER_CELL]: 5 });
+    expect(result.suppressedCells.sort()).toEqual(['b', 'c']);
+  });
+
+  it('suppresses the merged cell when it is still small', () => {
+    const result = protectDistribution({ a: 10, b: 2, c: 7 }, coarsen);
+    expect(result.counts).toEqual({ a: 10 });
+    expect(result.suppressedCells.sort()).toEqual(['b', 'c', OTHER_CELL]);
+  });
+
+  it('judges cells by the people behind them', () => {
+    // 12 answers in "b", but from only 3 people
+    const result = protectDistribution({ a: 30, b: 12, c: 20 }, policy, Math.random, { a: 9, b: 3, c: 6 });
+    expect(result.counts).toEqual({ a: 30 });
+    expect(result.suppressedCells.sort()).toEqual(['b', 'c']);
+  });
+});
+
+describe('toPercentages', () => {
+  it('shares out the released cells', () => {
+    expect(toPercentages({ a: 3, b: 1 })).toEqual({ a: 75, b: 25 });
+    expect(toPercentages({})).toEqual({});
+  });
+});
+
+describe('describeAggregatePrivacy', () => {
+  it('marks cohorts under k as withheld', () => {
+    expect(describeAggregatePrivacy(3, policy)).toEqual({
+      minCohortSize: 5,
+      cohortSize: 3,
+      withheld: true,
+      suppressedCells: [],
+      noiseAdded: false,
+    });
+    expect(describeAggregatePrivacy(5, noisy, ['b']).withheld).toBe(false);
+    expect(describeAggregatePrivacy(5, noisy).noiseAdded).toBe(true);
+  });
+
+  it('marks cohorts that would single out a remainder as withheld', () => {
+    expect(describeAggregatePrivacy(12, policy, [], true).withheld).toBe(true);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Privacy-Preserving Aggregation
+ * Applies an organization's privacy policy to aggregates about its members:
+ * cohorts smaller than the minimum size (k-anonymity) are withheld, cells
+ * describing fewer than k people are suppressed or merged, and optional
+ * Laplace noise is calibrated to how much one person can move each value.
+ * An aggregate is also withheld when subtracting the narrower cohorts inside
+ * it, such as its teams, would leave fewer than k people.
+ * Safe to import on the client; seeding noise per release lives in
+ * ./noise.ts.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What happens to a cell describing fewer than k people: `suppress` leaves it
+ * out, `coarsen` merges it into an "other" cell
+ */
+export type SmallCellHandling = 'suppress' | 'coarsen';
+
+export interface PrivacyPolicy {
+  /** Fewest people an aggregate or cell may describe (k) */
+  minCohortSize: number;
+  smallCellHandling: SmallCellHandling;
+  /** Privacy budget per released value, lower is noisier; null adds no noise */
+  noiseEpsilon: number | null;
+}
+
+/** How a released aggregate was protected, returned alongside it */
+export interface AggregatePrivacy {
+  minCohortSize: number;
+  /** People the aggregate describes */
+  cohortSize: number;
+  /** The cohort is smaller than k, so only its size is released */
+  withheld: boolean;
+  /** Cells and values left out or merged for describing too few people */
+  suppressedCells: string[];
+  noiseAdded: boolean;
+}
+
+export interface ProtectedDistribution {
+  counts: Record<string, number>;
+  /** Cells left out, or merged into the "other" cell */
+  suppressedCells: string[];
+}
+
+/** Range values are clamped to before averaging */
+export interface ValueBounds {
+  min: number;
+  max: number;
+}
+
+/** Aggregates that are protected and audited */
+export type AggregateKind = 'energy_analytics' | 'diagnostic_results' | 'report';
+
+/** Uniform random numbers in [0, 1); injectable for tests */
+export type RandomSource = () => number;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = {
+  minCohortSize: 5,
+  smallCellHandling: 'suppress',
+  noiseEpsilon: null,
+};
+
+export const MIN_COHORT_SIZE_LIMITS = { min: 2, max: 50 } as const;
+export const NOISE_EPSILON_LIMITS = { min: 0.1, max: 10 } as const;
+
+export const SMALL_CELL_HANDLING: Record<SmallCellHandling, string> = {
+  suppress: 'Hide small groups',
+  coarsen: 'Merge small groups into "Other"',
+};
+
+export const AGGREGATE_KINDS: Record<AggregateKind, string> = {
+  energy_analytics: 'Team energy analytics',
+  diagnostic_results: 'Diagnostic results',
+  report: 'Organization report',
+};
+
+/** Cell small cells are merged into when coarsening */
+export const OTHER_CELL = 'other';
+
+// ============================================================================
+// Noise
+// ============================================================================
+
+/**
+ * A sample from the Laplace distribution centred on 0
+ */
+export function laplaceNoise(scale: number, random: RandomSource = Math.random): number {
+  // Inverse CDF of a uniform sample in (-0.5, 0.5)
+  const u = random() - 0.5;
+  return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+}
+
+/**
+ * A value with Laplace noise for the policy's budget, given how much one
+ * person can change it; unchanged when the policy adds no noise
+ */
+export function addNoise(
+  value: number,
+  sensitivity: number,
+  policy: PrivacyPolicy,
+  random: RandomSource = Math.random
+): number {
+  if (!policy.noiseEpsilon) return value;
+  return value + laplaceNoise(sensitivity / policy.noiseEpsilon, random);
+}
+
+// ============================================================================
+// Cohorts and values
+// ============================================================================
+
+/**
+ * Whether a group of people is large enough to release anything about
+ */
+export function meetsMinCohort(cohortSize: number, policy: PrivacyPolicy): boolean {
+  return cohortSize >= policy.minCohortSize;
+}
+
+/**
+ * Whether releasing a cohort alongside the narrower cohorts inside it would
+ * single out fewer than k people: the members left once every sub-cohort
+ * that is released in its own right is taken away. Sub-cohorts are checked
+ * the same way, smallest first, so a withheld team doesn't count as taken
+ * away from the teams above it.
+ *
+ * @param subCohorts - Member IDs of the cohorts released inside this one,
+ * such as each team subtree below it; nested or disjoint, like teams
+ *
+ * @example
+ * // An organization of 12 with a team of 10: the other 2 can be worked out
+ * isolatesSmallRemainder(organizationIds, [teamIds], policy) // true
+ */
+export function isolatesSmallRemainder(cohort: string[], subCohorts: string[][], policy: PrivacyPolicy): boolean {
+  const members = new Set(cohort);
+  const inner = subCohorts
+    .map((subCohort) => new Set(subCohort.filter((id) => members.has(id))))
+    .filter((subCohort) => subCohort.size > 0 && subCohort.size < members.size)
+    .sort((a, b) => a.size - b.size);
+
+  const released: Array<Set<string>> = [];
+  for (const group of [...inner, members]) {
+    if (!meetsMinCohort(group.size, policy)) continue;
+
+    const covered = new Set<string>();
+    for (const smaller of released) {
+      if (smaller.size < group.size && [...smaller].every((id) => group.has(id))) {
+        smaller.forEach((id) => covered.add(id));
+      }
+    }
+
+    const remainder = group.size - covered.size;
+    if (remainder > 0 && !meetsMinCohort(remainder, policy)) {
+      if (group === members) return true;
+      continue;
+    }
+    released.push(group);
+  }
+
+  return false;
+}
+
+/**
+ * A count of people, or null when it describes between 1 and k - 1 of them.
+ * Zero is released, since it describes nobody.
+ */
+export function protectCount(
+  count: number,
+  policy: PrivacyPolicy,
+  random: RandomSource = Math.random
+): number | null {
+  if (count > 0 && !meetsMinCohort(count, policy)) return null;
+  return Math.max(0, Math.round(addNoise(count, 1, policy, random)));
+}
+
+/**
+ * The mean of one value per person, or null below k people. Noise is scaled
+ * to the most one person can move the mean: the width of the bounds over n.
+ *
+ * @example
+ * protectMean(3.4, 12, { min: 1, max: 5 }, policy) // 3.4, give or take noise
+ */
+export function protectMean(
+  mean: number,
+  count: number,
+  bounds: ValueBounds,
+  policy: PrivacyPolicy,
+  random: RandomSource = Math.random
+): number | null {
+  if (!meetsMinCohort(count, policy)) return null;
+
+  const noisy = addNoise(mean, (bounds.max - bounds.min) / count, policy, random);
+  return Math.min(bounds.max, Math.max(bounds.min, noisy));
+}
+
+// ============================================================================
+// Distributions
+// ============================================================================
+
+/**
+ * Counts of people per category with small cells protected
+ *
+ * - `suppress`: cells of 1 to k - 1 people are left out. When that would
+ *   leave out a single cell, the next smallest goes too, so the hidden one
+ *   can't be worked out by subtracting the rest from the total.
+ * - `coarsen`: small cells are merged into `other`; if that is still small,
+ *   it is suppressed as above.
+ *
+ * @param people - People per cell when `counts` count something else (such
+ * as answers); defaults to `counts`
+ */
+export function protectDistribution(
+  counts: Record<string, number>,
+  policy: PrivacyPolicy,
+  random: RandomSource = Math.random,
+  people: Record<string, number> = counts
+): ProtectedDistribution {
+  const isSmall = (cell: string) => (people[cell] ?? 0) > 0 && !meetsMinCohort(people[cell] ?? 0, policy);
+  const small = Object.keys(counts).filter(isSmall);
+
+  let cells = { ...counts };
+  let cellPeople = { ...people };
+
+  if (policy.smallCellHandling === 'coarsen' && small.length > 0) {
+    cells = Object.fromEntries(Object.entries(cells).filter(([cell]) => !small.includes(cell)));
+    cellPeople = Object.fromEntries(Object.entries(cellPeople).filter(([cell]) => !small.includes(cell)));
+    cells[OTHER_CELL] = (cells[OTHER_CELL] ?? 0) + small.reduce((sum, cell) => sum + counts[cell], 0);
+    cellPeople[OTHER_CELL] = (cellPeople[OTHER_CELL] ?? 0) + small.reduce((sum, cell) => sum + (people[cell] ?? 0), 0);
+  }
+
+  const hidden = new Set(
+    Object.keys(cells).filter((cell) => (cellPeople[cell] ?? 0) > 0 && !meetsMinCohort(cellPeople[cell] ?? 0, policy))
+  );
+
+  if (hidden.size === 1) {
+    const [next] = Object.keys(cells)
+      .filter((cell) => !hidden.has(cell) && (cellPeople[cell] ?? 0) > 0)
+      .sort((a, b) => (cellPeople[a] ?? 0) - (cellPeople[b] ?? 0));
+    if (next) hidden.add(next);
+  }
+
+  const released: Record<string, number> = {};
+  for (const [cell, count] of Object.entries(cells)) {
+    if (hidden.has(cell)) continue;
+    released[cell] = Math.max(0, Math.round(addNoise(count, 1, policy, random)));
+  }
+
+  return {
+    counts: released,
+    suppressedCells: [...new Set([...small, ...hidden])].filter((cell) => cell !== OTHER_CELL || hidden.has(cell)),
+  };
+}
+
+/**
+ * Whole-number percentages of the released cells
+ */
+export function toPercentages(counts: Record<string, number>): Record<string, number> {
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  return Object.fromEntries(
+    Object.entries(counts).map(([cell, count]) => [cell, total > 0 ? Math.round((count / total) * 100) : 0])
+  );
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+/**
+ * The privacy note for an aggregate
+ *
+ * @param isolatesRemainder - The cohort is withheld, though large enough,
+ * because of the cohorts inside it (see isolatesSmallRemainder)
+ */
+export function describeAggregatePrivacy(
+  cohortSize: number,
+  policy: PrivacyPolicy,
+  suppressedCells: string[] = [],
+  isolatesRemainder: boolean = false
+): AggregatePrivacy {
+  return {
+    minCohortSize: policy.minCohortSize,
+    cohortSize,
+    withheld: isolatesRemainder || !meetsMinCohort(cohortSize, policy),
+    suppressedCells,
+    noiseAdded: !!policy.noiseEpsilon,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Aggregate View Audit
+ * Records who viewed which aggregate about an organization's members, with
+ * the cohort it described and the policy it was protected with
+ */
+
+import { aggregateViewRepository } from '@/lib/db/aggregate-views';
+import type { AggregateKind, AggregatePrivacy, PrivacyPolicy } from './aggregation';
+
+export interface AggregateViewRecord {
+  organizationId: string;
+  /** Null for API key access */
+  viewerId: string | null;
+  aggregate: AggregateKind;
+  /** Diagnostic or report viewed */
+  resourceId?: string | null;
+  /** Team the aggregate was narrowed to */
+  teamId?: string | null;
+  privacy: AggregatePrivacy;
+  policy: PrivacyPolicy;
+}
+
+/**
+ * Log views of aggregates. Callers await this before responding, so an
+ * aggregate is never released without a record of it.
+ *
+ * @throws {ApiError} 500 if the views can't be logged
+ */
+export async function recordAggregateViews(records: AggregateViewRecord[]): Promise<void> {
+  await aggregateViewRepository.recordViews(
+    records.map((record) => ({
+      organization_id: record.organizationId,
+      viewer_id: record.viewerId,
+      aggregate: record.aggregate,
+      resource_id: record.resourceId ?? null,
+      team_id: record.teamId ?? null,
+      cohort_size: record.privacy.cohortSize,
+      withheld: record.privacy.withheld,
+      suppressed_cells: record.privacy.suppressedCells,
+      policy: { ...record.policy },
+    }))
+  );
+}
+
+/**
+ * Log one view of an aggregate
+ *
+ * @throws {ApiError} 500 if the view can't be logged
+ */
+export async function recordAggregateView(record: AggregateViewRecord): Promise<void> {
+  await recordAggregateViews([record]);
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getReleaseDay, getReleaseRandom } from './noise';
+
+function draws(random: () => number, n: number = 3): number[] {
+  return Array.from({ length: n }, () => random());
+}
+
+describe('getReleaseRandom', () => {
+  const secret = process.env.PRIVACY_NOISE_SECRET;
+
+  beforeEach(() => {
+    process.env.PRIVACY_NOISE_SECRET = 'test-secret';
+  });
+
+  afterEach(() => {
+    if (secret === undefined) delete process.env.PRIVACY_NOISE_SECRET;
+    else process.env.PRIVACY_NOISE_SECRET = secret;
+  });
+
+  it('draws the same values for the same aggregate, cohort and period', () => {
+    const key = { aggregate: 'energy_analytics' as const, cohort: ['b', 'a', 'c'], period: '2026-10-19' };
+
+    expect(draws(getReleaseRandom(key))).toEqual(draws(getReleaseRandom({ ...key, cohort: ['c', 'b', 'a'] })));
+  });
+
+  it('draws different values for another cohort, period or secret', () => {
+    const key = { aggregate: 'energy_analytics' as const, cohort: ['a', 'b', 'c'], period: '2026-10-19' };
+    const values = draws(getReleaseRandom(key));
+
+    expect(draws(getReleaseRandom({ ...key, cohort: ['a', 'b'] }))).not.toEqual(values);
+    expect(draws(getReleaseRandom({ ...key, period: '2026-10-20' }))).not.toEqual(values);
+
+    process.env.PRIVACY_NOISE_SECRET = 'other-secret';
+    expect(draws(getReleaseRandom(key))).not.toEqual(values);
+  });
+
+  it('draws uniform values in [0, 1)', () => {
+    const values = draws(getReleaseRandom({ aggregate: 'report', cohort: 'report-1', period: '2026-10-19' }), 200);
+
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+    expect(new Set(values).size).toBe(200);
+  });
+});
+
+describe('getReleaseDay', () => {
+  it('is the UTC date', () => {
+    expect(getReleaseDay(new Date('2026-10-19T23:30:00-02:00'))).toBe('2026-10-20');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Release Noise
+ * Random sources for the noise added to released aggregates, derived from
+ * the aggregate, its cohort and its period with a server secret. Asking for
+ * the same aggregate again returns the same noisy values, so repeated
+ * requests can't be averaged to cancel the noise, and viewers can't
+ * recompute the noise to subtract it.
+ */
+
+import { createHmac } from 'crypto';
+import type { AggregateKind, RandomSource } from './aggregation';
+
+/** What a released aggregate describes */
+export interface ReleaseKey {
+  aggregate: AggregateKind;
+  /** The people described (member IDs, in any order) or the resource they responded to */
+  cohort: string | string[];
+  /** The data's period, such as the day a rolling window ends or when results were generated */
+  period: string;
+}
+
+function getNoiseSecret(): string {
+  const secret = process.env.PRIVACY_NOISE_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error('PRIVACY_NOISE_SECRET is not set');
+  }
+  return secret;
+}
+
+/**
+ * A deterministic random source for one release. Each draw hashes the key
+ * with a counter, so the n-th value of an aggregate always gets the same
+ * noise for the same cohort and period.
+ *
+ * @example
+ * const random = getReleaseRandom({ aggregate: 'diagnostic_results', cohort: diagnostic.id, period: results.generated_at });
+ * protectDiagnosticResults(results, policy, template, random);
+ */
+export function getReleaseRandom(key: ReleaseKey): RandomSource {
+  const cohort = Array.isArray(key.cohort) ? [...key.cohort].sort().join(',') : key.cohort;
+  const seed = [key.aggregate, cohort, key.period].join('|');
+  let draw = 0;
+
+  // The secret is only needed once noise is drawn
+  return () => {
+    const digest = createHmac('sha256', getNoiseSecret()).update(`${seed}|${draw++}`).digest();
+    // 48 random bits as a fraction in [0, 1)
+    return digest.readUIntBE(0, 6) / 2 ** 48;
+  };
+}
+
+/**
+ * The UTC day of a time, the period of aggregates over a rolling window
+ */
+export function getReleaseDay(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
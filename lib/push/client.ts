@@ -0,0 +1,81 @@
+/**
+ * Web Push (browser)
+ * Registers the service worker and subscribes this browser to push
+ * notifications. Client-only; the server side lives in ./web-push.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+const SUBSCRIPTIONS_API = '/api/user/push-subscriptions';
+
+/**
+ * Whether this browser can receive Web Push and the app has a VAPID key
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  );
+}
+
+/** Decode a base64url VAPID key for PushManager.subscribe() */
+function decodeApplicationServerKey(key: string): Uint8Array<ArrayBuffer> {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Ask for notification permission, subscribe this browser and save the
+ * subscription for the signed-in user
+ *
+ * @returns false if push is unsupported or permission was not granted
+ */
+export async function subscribeToPush(): Promise<boolean> {
+  if (!isPushSupported()) return false;
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return false;
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeApplicationServerKey(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY as string),
+    }));
+
+  const response = await fetch(SUBSCRIPTIONS_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription.toJSON()),
+  });
+
+  return response.ok;
+}
+
+/**
+ * Unsubscribe this browser and forget its subscription
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await fetch(SUBSCRIPTIONS_API, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+  await subscription.unsubscribe();
+}
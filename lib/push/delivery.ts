@@ -0,0 +1,81 @@
+/**
+ * Push Delivery
+ * Sends one message to each of a user's browsers and keeps subscription
+ * health up to date: failures are counted and subscriptions the push service
+ * reports as gone are removed
+ */
+
+import { pushSubscriptionRepository } from '@/lib/db/push-subscriptions';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import { sendWebPush, type VapidDetails, type WebPushOptions } from './web-push';
+
+type PushSubscriptionRow = Database['public']['Tables']['push_subscriptions']['Row'];
+
+/** Message shown by the service worker (public/sw.js) */
+export interface PushMessage {
+  title: string;
+  body: string;
+  url: string;
+  /** Replaces an earlier notification with the same tag */
+  tag?: string;
+}
+
+export interface PushDeliveryResult {
+  /** Browsers the push service accepted the message for */
+  delivered: number;
+  failed: number;
+  /** Subscriptions removed because the push service reported them gone */
+  expired: number;
+}
+
+/**
+ * Push a message to each subscription
+ */
+export async function deliverPush(
+  subscriptions: PushSubscriptionRow[],
+  message: PushMessage,
+  vapid: VapidDetails,
+  options: WebPushOptions = {}
+): Promise<PushDeliveryResult> {
+  const payload = JSON.stringify(message);
+  const result: PushDeliveryResult = { delivered: 0, failed: 0, expired: 0 };
+  const expired: string[] = [];
+
+  for (const subscription of subscriptions) {
+    try {
+      const response = await sendWebPush(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        vapid,
+        options
+      );
+
+      if (response.delivered) {
+        result.delivered++;
+        await pushSubscriptionRepository.recordSuccess(subscription.id);
+      } else if (response.expired) {
+        expired.push(subscription.id);
+      } else {
+        logger.warn('Push service rejected message', {
+          statusCode: response.statusCode,
+          subscriptionId: subscription.id,
+          tag: message.tag,
+        });
+        result.failed++;
+        await pushSubscriptionRepository.recordFailure(subscription);
+      }
+    } catch (error: unknown) {
+      logger.error('Error sending push notification', error instanceof Error ? error : undefined, {
+        subscriptionId: subscription.id,
+      });
+      result.failed++;
+      await pushSubscriptionRepository.recordFailure(subscription);
+    }
+  }
+
+  await pushSubscriptionRepository.deleteByIds(expired);
+
+  result.expired = expired.length;
+  return result;
+}
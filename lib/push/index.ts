@@ -0,0 +1,24 @@
+/**
+ * Push Barrel Export
+ * Web Push delivery to browser push services (server-only)
+ */
+
+export {
+  MAX_PAYLOAD_BYTES,
+  createVapidToken,
+  encryptPayload,
+  generateVapidKeys,
+  getVapidDetails,
+  sendWebPush,
+  type PushSubscriptionKeys,
+  type VapidDetails,
+  type VapidKeys,
+  type WebPushOptions,
+  type WebPushResult,
+} from './web-push';
+
+export {
+  deliverPush,
+  type PushDeliveryResult,
+  type PushMessage,
+} from './delivery';
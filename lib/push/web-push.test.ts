@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import crypto from 'crypto';
+import {
+  MAX_PAYLOAD_BYTES,
+  createVapidToken,
+  encryptPayload,
+  generateVapidKeys,
+  sendWebPush,
+  type PushSubscriptionKeys,
+} from './web-push';
+
+const hkdf = (salt: Buffer, ikm: Buffer, info: string | Buffer, length: number) =>
+  Buffer.from(crypto.hkdfSync('sha256', ikm, salt, typeof info === 'string' ? Buffer.from(info) : info, length));
+
+/** A browser-side subscription with its private key, for decrypting */
+const createBrowser = () => {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = crypto.randomBytes(16);
+
+  const subscription: PushSubscriptionKeys = {
+    endpoint: 'https://push.example.com/send/abc123',
+    keys: {
+      p256dh: ecdh.getPublicKey().toString('base64url'),
+      auth: auth.toString('base64url'),
+    },
+  };
+
+  return { ecdh, auth, subscription };
+};
+
+/** Decrypt as the browser would (RFC 8291 / RFC 8188) */
+const decrypt = (body: Buffer, browser: ReturnType<typeof createBrowser>) => {
+  const salt = body.subarray(0, 16);
+  const recordSize = body.readUInt32BE(16);
+  const keyIdLength = body[20];
+  const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = browser.ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    browser.ecdh.getPublicKey(),
+    serverPublicKey,
+  ]);
+  const ikm = hkdf(browser.auth, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(salt, ikm, 'Content-Encoding: aes128gcm\0', 16);
+  const nonce = hkdf(salt, ikm, 'Content-Encoding: nonce\0', 12);
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+  return { recordSize, delimiter: padded[padded.length - 1], plaintext: padded.subarray(0, -1).toString('utf8') };
+};
+
+const vapid = { ...generateVapidKeys(), subject: 'mailto:support@example.com' };
+
+// ============================================================================
+// Payload encryption
+// ============================================================================
+
+describe('encryptPayload', () => {
+  it('produces a single aes128gcm record the browser can decrypt', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 500 }), (payload) => {
+        const browser = createBrowser();
+        const result = decrypt(encryptPayload(payload, browser.subscription), browser);
+
+        expect(result.plaintext).toBe(payload);
+        expect(result.delimiter).toBe(0x02);
+        expect(result.recordSize).toBe(4096);
+      }),
+      { numRuns: 25 }
+    );
+  });
+
+  it('uses a fresh salt and key for every message', () => {
+    const browser = createBrowser();
+    const first = encryptPayload('hello', browser.subscription);
+    const second = encryptPayload('hello', browser.subscription);
+
+    expect(first.subarray(0, 86).equals(second.subarray(0, 86))).toBe(false);
+  });
+
+  it('rejects payloads that do not fit in one record', () => {
+    const browser = createBrowser();
+    expect(() => encryptPayload('x'.repeat(MAX_PAYLOAD_BYTES + 1), browser.subscription)).toThrow();
+    expect(encryptPayload('x'.repeat(MAX_PAYLOAD_BYTES), browser.subscription).length).toBeLessThanOrEqual(4096);
+  });
+});
+
+// ============================================================================
+// VAPID
+// ============================================================================
+
+describe('createVapidToken', () => {
+  it('signs an ES256 JWT for the endpoint origin', () => {
+    const now = new Date('2026-10-19T09:00:00Z');
+    const token = createVapidToken('https://push.example.com/send/abc123', vapid, now);
+    const [header, claims, signature] = token.split('.');
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ typ: 'JWT', alg: 'ES256' });
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toEqual({
+      aud: 'https://push.example.com',
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: 'mailto:support@example.com',
+    });
+
+    const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+    const key = crypto.createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+
+    expect(
+      crypto.verify('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+    ).toBe(true);
+  });
+});
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+describe('sendWebPush', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    [201, { delivered: true, expired: false }],
+    [404, { delivered: false, expired: true }],
+    [410, { delivered: false, expired: true }],
+    [429, { delivered: false, expired: false }],
+  ])('reports status %i', async (status, expected) => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const browser = createBrowser();
+    const result = await sendWebPush(browser.subscription, '{"title":"Hi"}', vapid, { ttl: 60 });
+
+    expect(result).toEqual({ statusCode: status, ...expected });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(browser.subscription.endpoint);
+    expect(init.headers).toMatchObject({
+      'Content-Encoding': 'aes128gcm',
+      TTL: '60',
+      Authorization: expect.stringMatching(new RegExp(`^vapid t=[\\w-]+\\.[\\w-]+\\.[\\w-]+, k=${vapid.publicKey}$`)),
+    });
+  });
+});
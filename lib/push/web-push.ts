@@ -0,0 +1,261 @@
+/**
+ * Web Push
+ * Sends notifications to browser push services using VAPID authentication
+ * (RFC 8292) and aes128gcm payload encryption (RFC 8291)
+ */
+
+import crypto from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Subscription as returned by PushSubscription.toJSON() in the browser */
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  keys: {
+    /** Browser's P-256 public key, base64url */
+    p256dh: string;
+    /** Browser's 16-byte auth secret, base64url */
+    auth: string;
+  };
+}
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key, base64url */
+  publicKey: string;
+  /** P-256 private scalar, base64url */
+  privateKey: string;
+}
+
+export interface VapidDetails extends VapidKeys {
+  /** Contact for the push service operator: a mailto: or https: URL */
+  subject: string;
+}
+
+export interface WebPushOptions {
+  /** Seconds the push service should keep an undelivered message */
+  ttl?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  /** Replaces an undelivered message with the same topic */
+  topic?: string;
+}
+
+export interface WebPushResult {
+  statusCode: number;
+  /** The subscription no longer exists and should be deleted */
+  expired: boolean;
+  delivered: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Record size advertised in the aes128gcm header; payloads fit in one record */
+const RECORD_SIZE = 4096;
+
+/** Push services cap messages at 4096 bytes including the 86-byte header and tag */
+export const MAX_PAYLOAD_BYTES = RECORD_SIZE - 86 - 17;
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+/** VAPID tokens may be valid for up to 24 hours; stay well inside that */
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+
+// ============================================================================
+// Encoding helpers
+// ============================================================================
+
+const toBase64Url = (buffer: Buffer) => buffer.toString('base64url');
+
+const fromBase64Url = (value: string) => Buffer.from(value, 'base64url');
+
+const hkdf = (salt: Buffer, ikm: Buffer, info: Buffer, length: number) =>
+  Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+const createEphemeralKeys = () => {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return ecdh;
+};
+
+// ============================================================================
+// VAPID
+// ============================================================================
+
+/**
+ * Read VAPID keys from the environment
+ *
+ * @returns null when push is not configured
+ */
+export function getVapidDetails(): VapidDetails | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+
+  if (!publicKey || !privateKey) {
+    return null;
+  }
+
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || 'mailto:support@neuroelemental.com',
+  };
+}
+
+/**
+ * Generate a new VAPID key pair
+ */
+export function generateVapidKeys(): VapidKeys {
+  const ecdh = createEphemeralKeys();
+
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    privateKey: toBase64Url(ecdh.getPrivateKey()),
+  };
+}
+
+/**
+ * Signed VAPID JWT for the push service that owns the endpoint
+ */
+export function createVapidToken(
+  endpoint: string,
+  vapid: VapidDetails,
+  now: Date = new Date()
+): string {
+  const publicKey = fromBase64Url(vapid.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point');
+  }
+
+  const key = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+        sub: vapid.subject,
+      })
+    )
+  );
+
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `${header}.${claims}.${toBase64Url(signature)}`;
+}
+
+// ============================================================================
+// Payload encryption
+// ============================================================================
+
+/**
+ * Encrypt a payload for a subscription (single aes128gcm record)
+ *
+ * @param salt - Random 16 bytes; only injectable for tests
+ * @param serverKeys - Ephemeral ECDH key pair with keys generated; only injectable for tests
+ */
+export function encryptPayload(
+  payload: string | Buffer,
+  subscription: PushSubscriptionKeys,
+  salt: Buffer = crypto.randomBytes(16),
+  serverKeys: crypto.ECDH = createEphemeralKeys()
+): Buffer {
+  const plaintext = typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+  if (plaintext.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload exceeds ${MAX_PAYLOAD_BYTES} bytes`);
+  }
+
+  const clientPublicKey = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+
+  const serverPublicKey = serverKeys.getPublicKey();
+  const sharedSecret = serverKeys.computeSecret(clientPublicKey);
+
+  // RFC 8291 section 3.4: combine the ECDH secret with the auth secret
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0', 'utf8'),
+    clientPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+  // RFC 8188: content encryption key and nonce
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0', 'utf8'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0', 'utf8'), 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext),
+    // Padding delimiter for the last (and only) record
+    cipher.update(Buffer.from([0x02])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublicKey.length]),
+    serverPublicKey,
+    ciphertext,
+  ]);
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * Deliver a notification to one subscription
+ *
+ * 404 and 410 from the push service mean the subscription is gone; callers
+ * should delete it. Other failures are reported but left for a retry.
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionKeys,
+  payload: string,
+  vapid: VapidDetails,
+  options: WebPushOptions = {}
+): Promise<WebPushResult> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/octet-stream',
+    'Content-Encoding': 'aes128gcm',
+    TTL: String(options.ttl ?? DEFAULT_TTL_SECONDS),
+    Urgency: options.urgency ?? 'normal',
+    Authorization: `vapid t=${createVapidToken(subscription.endpoint, vapid)}, k=${vapid.publicKey}`,
+  };
+
+  if (options.topic) {
+    headers.Topic = options.topic;
+  }
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers,
+    body: new Uint8Array(encryptPayload(payload, subscription)),
+  });
+
+  return {
+    statusCode: response.status,
+    expired: response.status === 404 || response.status === 410,
+    delivered: response.ok,
+  };
+}
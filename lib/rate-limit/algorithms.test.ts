@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  applyRule,
+  applySlidingWindow,
+  applyTokenBucket,
+  describeSlidingWindow,
+  getStateTtlMs,
+  type RateLimitRule,
+  type RateLimitState,
+} from './algorithms';
+
+const MINUTE = 60_000;
+
+const slidingRule: RateLimitRule = { name: 'minute', limit: 10, windowMs: MINUTE };
+const bucketRule: RateLimitRule = {
+  name: 'minute',
+  limit: 60,
+  windowMs: MINUTE,
+  algorithm: 'token-bucket',
+  burst: 10,
+};
+
+/** Send `count` requests at `now`, returning how many were allowed */
+function burst(rule: RateLimitRule, count: number, now: number, state: RateLimitState | null = null) {
+  let allowed = 0;
+  for (let i = 0; i < count; i++) {
+    const result = applyRule(state, rule, now);
+    state = result.state;
+    if (result.decision.allowed) allowed++;
+  }
+  return { allowed, state };
+}
+
+// ============================================================================
+// Sliding Window Counter
+// ============================================================================
+
+describe('sliding window', () => {
+  it('allows the limit within a window and rejects the next request', () => {
+    const { allowed, state } = burst(slidingRule, 15, 1_000);
+    expect(allowed).toBe(10);
+
+    const { decision } = applyRule(state, slidingRule, 2_000);
+    expect(decision).toMatchObject({ allowed: false, limit: 10, remaining: 0 });
+    expect(decision.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('weights the previous window by its remaining overlap', () => {
+    const { state } = burst(slidingRule, 10, 0);
+
+    // Halfway through the next window, half of the previous count still applies
+    const halfway = MINUTE + MINUTE / 2;
+    expect(burst(slidingRule, 10, halfway, state).allowed).toBe(5);
+  });
+
+  it('forgets counts older than the previous window', () => {
+    const { state } = burst(slidingRule, 10, 0);
+    expect(burst(slidingRule, 10, 3 * MINUTE, state).allowed).toBe(10);
+  });
+
+  it('does not count a request when cost is 0', () => {
+    const { state } = burst(slidingRule, 3, 0);
+    const peek = applySlidingWindow(state as never, slidingRule, 0, 0);
+
+    expect(peek.state).toEqual(state);
+    expect(describeSlidingWindow(peek.state, slidingRule, 0, peek.allowed).remaining).toBe(7);
+  });
+
+  it('allows a request once the retry-after delay has passed', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 50 }),
+        fc.integer({ min: 0, max: 100 }),
+        fc.integer({ min: 0, max: MINUTE * 3 }),
+        (limit, requests, start) => {
+          const rule: RateLimitRule = { name: 'minute', limit, windowMs: MINUTE };
+          let state: RateLimitState | null = null;
+          let decision = applyRule(state, rule, start);
+
+          for (let i = 0; i < requests && decision.decision.allowed; i++) {
+            state = decision.state;
+            decision = applyRule(state, rule, start);
+          }
+          if (decision.decision.allowed) return;
+
+          const retryAt = start + decision.decision.retryAfterMs;
+          expect(applyRule(decision.state, rule, retryAt).decision.allowed).toBe(true);
+        }
+      )
+    );
+  });
+
+  it('never allows more than twice the limit in any window-length span', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: MINUTE * 4 }), { maxLength: 200 }),
+        (times) => {
+          const sorted = [...times].sort((a, b) => a - b);
+          let state: RateLimitState | null = null;
+          const accepted: number[] = [];
+
+          for (const now of sorted) {
+            const result = applyRule(state, slidingRule, now);
+            state = result.state;
+            if (result.decision.allowed) accepted.push(now);
+          }
+
+          for (const from of accepted) {
+            const inSpan = accepted.filter((t) => t >= from && t < from + MINUTE).length;
+            expect(inSpan).toBeLessThanOrEqual(slidingRule.limit * 2);
+          }
+        }
+      )
+    );
+  });
+});
+
+// ============================================================================
+// Token Bucket
+// ============================================================================
+
+describe('token bucket', () => {
+  it('allows a burst up to capacity, then refills at the sustained rate', () => {
+    const { allowed, state } = burst(bucketRule, 100, 0);
+    expect(allowed).toBe(70);
+
+    // One token per second at 60 per minute
+    expect(burst(bucketRule, 5, 1_000, state).allowed).toBe(1);
+    expect(burst(bucketRule, 5, 10_000, state).allowed).toBe(5);
+  });
+
+  it('never refills above capacity', () => {
+    const { state } = applyTokenBucket(null, bucketRule, 0);
+    const later = applyTokenBucket(state, bucketRule, 24 * 60 * MINUTE, 0);
+    expect(later.state.tokens).toBe(70);
+  });
+
+  it('reports the time until the next token', () => {
+    const { state } = burst(bucketRule, 70, 0);
+    const { decision } = applyRule(state, bucketRule, 0);
+
+    expect(decision).toMatchObject({ allowed: false, limit: 70, remaining: 0, retryAfterMs: 1_000 });
+    expect(decision.resetMs).toBe(70_000);
+  });
+
+  it('allows at most capacity plus refill over any period', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: MINUTE * 2 }), { maxLength: 300 }),
+        (times) => {
+          const sorted = [...times].sort((a, b) => a - b);
+          const { allowed } = sorted.reduce<{ allowed: number; state: RateLimitState | null }>(
+            (acc, now) => {
+              const result = applyRule(acc.state, bucketRule, now);
+              return { allowed: acc.allowed + (result.decision.allowed ? 1 : 0), state: result.state };
+            },
+            { allowed: 0, state: null }
+          );
+
+          const span = sorted.length > 0 ? sorted[sorted.length - 1] - sorted[0] : 0;
+          expect(allowed).toBeLessThanOrEqual(70 + Math.floor((span * 60) / MINUTE));
+        }
+      )
+    );
+  });
+});
+
+describe('getStateTtlMs', () => {
+  it('keeps state for as long as it can affect a decision', () => {
+    expect(getStateTtlMs(slidingRule)).toBe(2 * MINUTE);
+    expect(getStateTtlMs(bucketRule)).toBe(70_000);
+  });
+});
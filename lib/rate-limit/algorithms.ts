@@ -0,0 +1,231 @@
+/**
+ * Rate Limiting Algorithms
+ * Pure state transitions for the sliding-window counter and token bucket
+ * algorithms. Stores persist the state; the Redis store runs the same
+ * transitions in Lua so that they are atomic across instances.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+  /** Identifies the rule in storage keys, RateLimit-Policy and violation logs */
+  name: string;
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+  /** Defaults to sliding-window */
+  algorithm?: RateLimitAlgorithm;
+  /** Token bucket only: extra requests allowed in a burst above `limit` */
+  burst?: number;
+}
+
+/** Counts for the current and previous fixed windows */
+export interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export type RateLimitState = SlidingWindowState | TokenBucketState;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Requests the rule allows, including any burst */
+  limit: number;
+  /** Requests left after this one */
+  remaining: number;
+  /** Milliseconds until the quota is fully restored */
+  resetMs: number;
+  /** Milliseconds until a request would be allowed again; 0 when allowed */
+  retryAfterMs: number;
+}
+
+// ============================================================================
+// Sliding Window Counter
+// ============================================================================
+
+/**
+ * Move the state into the window containing `now`
+ */
+function rollSlidingWindow(
+  state: SlidingWindowState | null,
+  windowMs: number,
+  now: number
+): SlidingWindowState {
+  const windowStart = now - (now % windowMs);
+
+  if (!state || state.windowStart < windowStart - windowMs) {
+    return { windowStart, current: 0, previous: 0 };
+  }
+  if (state.windowStart === windowStart - windowMs) {
+    return { windowStart, current: 0, previous: state.current };
+  }
+  return state;
+}
+
+/** Requests counted against the rule: the previous window weighted by its overlap */
+function slidingWindowEstimate(state: SlidingWindowState, windowMs: number, now: number): number {
+  const weight = 1 - (now - state.windowStart) / windowMs;
+  return state.previous * weight + state.current;
+}
+
+/**
+ * Apply a request to a sliding-window counter
+ *
+ * @param cost - Requests to count; 0 evaluates the rule without counting
+ */
+export function applySlidingWindow(
+  state: SlidingWindowState | null,
+  rule: RateLimitRule,
+  now: number,
+  cost: number = 1
+): { state: SlidingWindowState; allowed: boolean } {
+  const rolled = rollSlidingWindow(state, rule.windowMs, now);
+  const allowed = slidingWindowEstimate(rolled, rule.windowMs, now) + Math.max(cost, 1) <= rule.limit;
+
+  return {
+    state: allowed && cost > 0 ? { ...rolled, current: rolled.current + cost } : rolled,
+    allowed,
+  };
+}
+
+/**
+ * Describe a sliding-window counter after a request was applied
+ */
+export function describeSlidingWindow(
+  state: SlidingWindowState,
+  rule: RateLimitRule,
+  now: number,
+  allowed: boolean
+): RateLimitDecision {
+  const { limit, windowMs } = rule;
+  const elapsed = now - state.windowStart;
+  const estimate = slidingWindowEstimate(state, windowMs, now);
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - estimate)),
+    resetMs: estimate > 0 ? windowMs - elapsed + (state.current > 0 ? windowMs : 0) : 0,
+    retryAfterMs: allowed ? 0 : msUntilSlidingWindowRoom(state, limit, windowMs, elapsed),
+  };
+}
+
+/**
+ * Time until the estimate drops low enough for one more request
+ */
+function msUntilSlidingWindowRoom(
+  state: SlidingWindowState,
+  limit: number,
+  windowMs: number,
+  elapsed: number
+): number {
+  const room = limit - 1 - state.current;
+
+  if (room >= 0) {
+    // previous * (1 - (elapsed + t) / windowMs) <= room
+    const wait = windowMs * (1 - room / state.previous) - elapsed;
+    return Math.max(1, Math.ceil(wait));
+  }
+
+  // The current window is full; it becomes the previous window next
+  const waitInNextWindow = windowMs * (1 - (limit - 1) / state.current);
+  return Math.ceil(windowMs - elapsed + Math.max(0, waitInNextWindow));
+}
+
+// ============================================================================
+// Token Bucket
+// ============================================================================
+
+/** Bucket size: the sustained limit plus any burst allowance */
+export function getBucketCapacity(rule: RateLimitRule): number {
+  return rule.limit + (rule.burst ?? 0);
+}
+
+/** Tokens restored per millisecond */
+function refillRate(rule: RateLimitRule): number {
+  return rule.limit / rule.windowMs;
+}
+
+/**
+ * Apply a request to a token bucket
+ *
+ * @param cost - Tokens to take; 0 evaluates the rule without taking any
+ */
+export function applyTokenBucket(
+  state: TokenBucketState | null,
+  rule: RateLimitRule,
+  now: number,
+  cost: number = 1
+): { state: TokenBucketState; allowed: boolean } {
+  const capacity = getBucketCapacity(rule);
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const tokens = state ? Math.min(capacity, state.tokens + elapsed * refillRate(rule)) : capacity;
+  const allowed = tokens >= Math.max(cost, 1);
+
+  return {
+    state: { tokens: allowed ? tokens - cost : tokens, updatedAt: now },
+    allowed,
+  };
+}
+
+/**
+ * Describe a token bucket after a request was applied
+ */
+export function describeTokenBucket(
+  state: TokenBucketState,
+  rule: RateLimitRule,
+  allowed: boolean
+): RateLimitDecision {
+  const capacity = getBucketCapacity(rule);
+  const rate = refillRate(rule);
+
+  return {
+    allowed,
+    limit: capacity,
+    remaining: Math.max(0, Math.floor(state.tokens)),
+    resetMs: Math.ceil((capacity - state.tokens) / rate),
+    retryAfterMs: allowed ? 0 : Math.max(1, Math.ceil((1 - state.tokens) / rate)),
+  };
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Apply a request to either algorithm
+ */
+export function applyRule(
+  state: RateLimitState | null,
+  rule: RateLimitRule,
+  now: number,
+  cost: number = 1
+): { state: RateLimitState; decision: RateLimitDecision } {
+  if (rule.algorithm === 'token-bucket') {
+    const result = applyTokenBucket(state as TokenBucketState | null, rule, now, cost);
+    return { state: result.state, decision: describeTokenBucket(result.state, rule, result.allowed) };
+  }
+
+  const result = applySlidingWindow(state as SlidingWindowState | null, rule, now, cost);
+  return { state: result.state, decision: describeSlidingWindow(result.state, rule, now, result.allowed) };
+}
+
+/**
+ * How long an unused state must be kept before it no longer affects a decision
+ */
+export function getStateTtlMs(rule: RateLimitRule): number {
+  if (rule.algorithm === 'token-bucket') {
+    return Math.ceil(getBucketCapacity(rule) / refillRate(rule));
+  }
+  return rule.windowMs * 2;
+}
@@ -0,0 +1,37 @@
+/**
+ * Rate Limiting Barrel Export
+ * One limiter for the proxy, API routes and organization API traffic, with
+ * sliding-window and token-bucket algorithms over a memory or Redis store
+ */
+
+// Algorithms
+export {
+  applyRule,
+  applySlidingWindow,
+  applyTokenBucket,
+  getBucketCapacity,
+  type RateLimitAlgorithm,
+  type RateLimitDecision,
+  type RateLimitRule,
+} from './algorithms';
+
+// Stores
+export {
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  createRateLimitStore,
+  type RateLimitStore,
+} from './stores';
+
+// Limiter
+export {
+  RateLimiter,
+  applyRateLimitHeaders,
+  getRateLimitHeaders,
+  getViolationContext,
+  rateLimiter,
+  type RateLimitCheckOptions,
+  type RateLimitResult,
+  type RateLimitScope,
+  type RateLimitViolationContext,
+} from './limiter';
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { RateLimitRule } from './algorithms';
+import { getRateLimitHeaders, RateLimiter } from './limiter';
+import { MemoryRateLimitStore } from './stores';
+
+const record = vi.fn().mockResolvedValue(undefined);
+
+vi.mock('@/lib/db/rate-limit-violations', () => ({
+  rateLimitViolationRepository: { record: (...args: unknown[]) => record(...args) },
+}));
+
+const rules: RateLimitRule[] = [
+  { name: 'per_minute', limit: 3, windowMs: 60_000, algorithm: 'token-bucket', burst: 1 },
+  { name: 'per_hour', limit: 10, windowMs: 3_600_000 },
+];
+
+const violation = { scope: 'organization' as const, endpoint: '/api/v1/members', method: 'GET', organizationId: 'org-1' };
+
+let now = 1_000_000;
+let limiter: RateLimiter;
+
+beforeEach(() => {
+  now = 1_000_000;
+  limiter = new RateLimiter(new MemoryRateLimitStore(100, () => now));
+  record.mockClear();
+});
+
+describe('RateLimiter', () => {
+  it('reports the rule closest to its limit while allowed', async () => {
+    const result = await limiter.check('org:1', rules);
+
+    expect(result).toMatchObject({ allowed: true, exceeded: false, limit: 4, remaining: 3 });
+    expect(result.rule.name).toBe('per_minute');
+  });
+
+  it('rejects at the first exceeded rule and records one violation per window', async () => {
+    for (let i = 0; i < 4; i++) await limiter.check('org:1', rules, { violation });
+
+    const first = await limiter.check('org:1', rules, { violation });
+    const second = await limiter.check('org:1', rules, { violation });
+    await vi.waitFor(() => expect(record).toHaveBeenCalledTimes(1));
+
+    expect(first).toMatchObject({ allowed: false, exceeded: true, remaining: 0, retryAfter: 20 });
+    expect(second.allowed).toBe(false);
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scope: 'organization',
+        identifier: 'org:1',
+        organization_id: 'org-1',
+        limit_type: 'per_minute',
+        response_status: 429,
+      })
+    );
+
+    // Rejected requests do not use up the hourly quota
+    const [, hour] = await limiter.peek('org:1', rules);
+    expect(hour.remaining).toBe(6);
+  });
+
+  it('lets requests through soft limits but still flags them', async () => {
+    for (let i = 0; i < 4; i++) await limiter.check('org:1', rules);
+
+    const result = await limiter.check('org:1', rules, { enforce: false, violation });
+    await vi.waitFor(() => expect(record).toHaveBeenCalledTimes(1));
+
+    expect(result).toMatchObject({ allowed: true, exceeded: true });
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({ response_status: null }));
+  });
+
+  it('keeps identifiers apart and can reset one', async () => {
+    for (let i = 0; i < 4; i++) await limiter.check('ip:a', rules);
+
+    expect((await limiter.check('ip:a', rules)).allowed).toBe(false);
+    expect((await limiter.check('ip:b', rules)).allowed).toBe(true);
+
+    await limiter.reset('ip:a');
+    expect((await limiter.check('ip:a', rules)).allowed).toBe(true);
+  });
+});
+
+describe('getRateLimitHeaders', () => {
+  it('emits standard and legacy headers, with Retry-After only when rejected', async () => {
+    const allowed = getRateLimitHeaders(await limiter.check('org:1', rules));
+
+    expect(allowed).toMatchObject({
+      'RateLimit-Limit': '4',
+      'RateLimit-Remaining': '3',
+      'RateLimit-Reset': '20',
+      'RateLimit-Policy': '3;w=60;burst=1, 10;w=3600',
+      'X-RateLimit-Limit': '4',
+      'X-RateLimit-Remaining': '3',
+    });
+    expect(Number(allowed['X-RateLimit-Reset'])).toBeGreaterThan(Date.now() / 1000);
+    expect(allowed['Retry-After']).toBeUndefined();
+
+    for (let i = 0; i < 3; i++) await limiter.check('org:1', rules);
+    const rejected = getRateLimitHeaders(await limiter.check('org:1', rules));
+
+    expect(rejected['RateLimit-Remaining']).toBe('0');
+    expect(rejected['Retry-After']).toBe('20');
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Rate Limiter
+ * Checks a request against one or more rules for an identifier (client IP,
+ * user or organization), produces the standard `RateLimit-*` and
+ * `Retry-After` headers, and records violations.
+ */
+
+import { getClientIP, getUserAgent } from '@/lib/api/request-helpers';
+import { rateLimitViolationRepository } from '@/lib/db/rate-limit-violations';
+import { logger } from '@/lib/logging';
+import type { NextRequest } from 'next/server';
+import type { RateLimitDecision, RateLimitRule } from './algorithms';
+import { createRateLimitStore, type RateLimitStore } from './stores';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RateLimitScope = 'ip' | 'user' | 'organization';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** A limit was exceeded; with soft limits the request is still allowed */
+  exceeded: boolean;
+  limit: number;
+  remaining: number;
+  /** Unix timestamp (seconds) when the quota is fully restored */
+  reset: number;
+  /** Seconds until the quota is fully restored */
+  resetAfter: number;
+  /** Seconds to wait before retrying; set when a limit was exceeded */
+  retryAfter?: number;
+  /** The rule the figures above describe: the exceeded one, or the closest to it */
+  rule: RateLimitRule;
+  /** Every rule checked, for the RateLimit-Policy header */
+  rules: RateLimitRule[];
+}
+
+/** Request details stored with a violation */
+export interface RateLimitViolationContext {
+  scope: RateLimitScope;
+  endpoint: string;
+  method: string;
+  organizationId?: string | null;
+  apiKeyId?: string | null;
+  userId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface RateLimitCheckOptions {
+  /** Requests to count (default 1) */
+  cost?: number;
+  /** Reject requests over the limit (default true); false makes limits soft */
+  enforce?: boolean;
+  /** Record a violation with these details when a limit is exceeded */
+  violation?: RateLimitViolationContext;
+}
+
+// ============================================================================
+// Limiter
+// ============================================================================
+
+export class RateLimiter {
+  constructor(private readonly store: RateLimitStore) {}
+
+  /**
+   * Count a request against every rule
+   *
+   * Rules are checked in order and checking stops at the first one exceeded,
+   * so list the shortest window first.
+   */
+  async check(
+    identifier: string,
+    rules: RateLimitRule[],
+    options: RateLimitCheckOptions = {}
+  ): Promise<RateLimitResult> {
+    if (rules.length === 0) {
+      throw new Error('At least one rate limit rule is required');
+    }
+
+    const enforce = options.enforce ?? true;
+    const decisions: Array<{ rule: RateLimitRule; decision: RateLimitDecision }> = [];
+
+    for (const rule of rules) {
+      const decision = await this.store.apply(`${identifier}:${rule.name}`, rule, options.cost ?? 1);
+      decisions.push({ rule, decision });
+      if (!decision.allowed && enforce) break;
+    }
+
+    const exceeded = decisions.find(({ decision }) => !decision.allowed);
+    const reported =
+      exceeded ??
+      decisions.reduce((closest, current) =>
+        current.decision.remaining < closest.decision.remaining ? current : closest
+      );
+    const result = toResult(reported.rule, reported.decision, rules, !exceeded || !enforce);
+
+    if (exceeded && options.violation) {
+      this.recordViolation(identifier, result, options.violation);
+    }
+
+    return result;
+  }
+
+  /**
+   * Current state of every rule, without counting a request
+   */
+  async peek(identifier: string, rules: RateLimitRule[]): Promise<RateLimitResult[]> {
+    return Promise.all(
+      rules.map(async (rule) => {
+        const decision = await this.store.apply(`${identifier}:${rule.name}`, rule, 0);
+        return toResult(rule, decision, rules, decision.allowed);
+      })
+    );
+  }
+
+  /**
+   * Clear every rule's state for an identifier
+   */
+  async reset(identifier: string): Promise<void> {
+    await this.store.reset(identifier);
+  }
+
+  /**
+   * Record a violation, at most once per identifier and rule per window so a
+   * client hammering a limit cannot flood the table
+   */
+  private recordViolation(identifier: string, result: RateLimitResult, context: RateLimitViolationContext): void {
+    const { rule } = result;
+
+    this.store
+      .apply(`violation:${identifier}:${rule.name}`, { name: 'violation', limit: 1, windowMs: rule.windowMs }, 1)
+      .then((logged) => {
+        if (!logged.allowed) return;
+
+        logger.warn('Rate limit exceeded', { identifier, rule: rule.name, endpoint: context.endpoint });
+
+        return rateLimitViolationRepository.record({
+          scope: context.scope,
+          identifier,
+          organization_id: context.organizationId ?? null,
+          api_key_id: context.apiKeyId ?? null,
+          user_id: context.userId ?? null,
+          endpoint: context.endpoint,
+          method: context.method,
+          limit_type: rule.name,
+          current_count: result.limit - result.remaining,
+          limit_value: result.limit,
+          ip_address: context.ipAddress ?? null,
+          user_agent: context.userAgent ?? null,
+          response_status: result.allowed ? null : 429,
+          retry_after: result.retryAfter ?? null,
+        });
+      })
+      .catch((error: unknown) => {
+        logger.error('Error recording rate limit violation', error instanceof Error ? error : undefined, {
+          identifier,
+        });
+      });
+  }
+}
+
+function toResult(
+  rule: RateLimitRule,
+  decision: RateLimitDecision,
+  rules: RateLimitRule[],
+  allowed: boolean
+): RateLimitResult {
+  const resetAfter = Math.ceil(decision.resetMs / 1000);
+
+  return {
+    allowed,
+    exceeded: !decision.allowed,
+    limit: decision.limit,
+    remaining: decision.remaining,
+    reset: Math.ceil(Date.now() / 1000) + resetAfter,
+    resetAfter,
+    retryAfter: decision.allowed ? undefined : Math.max(1, Math.ceil(decision.retryAfterMs / 1000)),
+    rule,
+    rules,
+  };
+}
+
+/** Shared limiter: Redis-backed when REDIS_URL is set, otherwise in-memory */
+export const rateLimiter = new RateLimiter(createRateLimitStore());
+
+// ============================================================================
+// Request Helpers
+// ============================================================================
+
+/**
+ * Violation details for a request
+ *
+ * @example
+ * ```typescript
+ * await rateLimiter.check(`user:${user.id}`, rules, {
+ *   violation: getViolationContext(request, 'user', { userId: user.id }),
+ * })
+ * ```
+ */
+export function getViolationContext(
+  request: NextRequest,
+  scope: RateLimitScope,
+  ids: Pick<RateLimitViolationContext, 'organizationId' | 'apiKeyId' | 'userId'> = {}
+): RateLimitViolationContext {
+  return {
+    scope,
+    endpoint: request.nextUrl.pathname,
+    method: request.method,
+    ipAddress: getClientIP(request) ?? null,
+    userAgent: getUserAgent(request) ?? null,
+    ...ids,
+  };
+}
+
+// ============================================================================
+// Headers
+// ============================================================================
+
+/**
+ * Response headers describing a rate limit result
+ *
+ * Emits the IETF `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset`
+ * (seconds until reset) and `RateLimit-Policy` headers, `Retry-After` when
+ * the request was rejected, and the legacy `X-RateLimit-*` headers (reset as
+ * a Unix timestamp) for existing integrations.
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetAfter),
+    'RateLimit-Policy': result.rules.map(formatPolicy).join(', '),
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.reset),
+  };
+
+  if (!result.allowed && result.retryAfter !== undefined) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+
+  return headers;
+}
+
+/**
+ * Set rate limit headers on a response
+ */
+export function applyRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(getRateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/** e.g. `60;w=60;burst=10` */
+function formatPolicy(rule: RateLimitRule): string {
+  const policy = `${rule.limit};w=${Math.round(rule.windowMs / 1000)}`;
+  return rule.burst ? `${policy};burst=${rule.burst}` : policy;
+}
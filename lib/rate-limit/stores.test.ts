@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Redis } from 'ioredis';
+import { MemoryRateLimitStore, RedisRateLimitStore } from './stores';
+
+vi.mock('@/lib/cache/cache-manager', () => ({ cacheManager: { getRedisClient: () => null } }));
+
+/** A Redis client whose SCAN returns the given pages in order */
+function fakeRedis(pages: Array<[string, string[]]>) {
+  const scan = vi.fn();
+  pages.forEach((page) => scan.mockResolvedValueOnce(page));
+  return {
+    scan,
+    del: vi.fn().mockResolvedValue(1),
+    keys: vi.fn(),
+  };
+}
+
+describe('RedisRateLimitStore.reset', () => {
+  it('scans for rule keys in batches instead of using KEYS', async () => {
+    const redis = fakeRedis([
+      ['17', ['ratelimit:org:1:per_minute']],
+      ['42', []],
+      ['0', ['ratelimit:org:1:per_hour']],
+    ]);
+    const store = new RedisRateLimitStore(() => redis as unknown as Redis, new MemoryRateLimitStore());
+
+    await store.reset('org:1');
+
+    expect(redis.keys).not.toHaveBeenCalled();
+    expect(redis.scan.mock.calls.map(([cursor]) => cursor)).toEqual(['0', '17', '42']);
+    expect(redis.scan).toHaveBeenCalledWith('0', 'MATCH', 'ratelimit:org:1:*', 'COUNT', expect.any(Number));
+    expect(redis.del.mock.calls).toEqual([
+      ['ratelimit:org:1'],
+      ['ratelimit:org:1:per_minute'],
+      ['ratelimit:org:1:per_hour'],
+    ]);
+  });
+
+  it('matches glob characters in the key literally', async () => {
+    const redis = fakeRedis([['0', []]]);
+    const store = new RedisRateLimitStore(() => redis as unknown as Redis, new MemoryRateLimitStore());
+
+    await store.reset('ip:[::1]*');
+
+    expect(redis.scan).toHaveBeenCalledWith('0', 'MATCH', 'ratelimit:ip:\\[::1\\]\\*:*', 'COUNT', expect.any(Number));
+  });
+});
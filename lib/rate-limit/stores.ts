@@ -0,0 +1,274 @@
+/**
+ * Rate Limit Stores
+ * Where limiter state lives. The memory store is per process (development,
+ * tests); the Redis store shares state between instances so limits hold no
+ * matter how many instances serve traffic.
+ */
+
+import { cacheManager } from '@/lib/cache/cache-manager';
+import { logger } from '@/lib/logging';
+import type { Redis } from 'ioredis';
+import {
+  applyRule,
+  describeSlidingWindow,
+  describeTokenBucket,
+  getBucketCapacity,
+  getStateTtlMs,
+  type RateLimitDecision,
+  type RateLimitRule,
+  type RateLimitState,
+} from './algorithms';
+
+const KEY_PREFIX = 'ratelimit:';
+
+/** Keys Redis checks per SCAN call when resetting */
+const SCAN_BATCH_SIZE = 100;
+
+/** A key with glob characters escaped, for a SCAN MATCH pattern */
+function escapeGlob(key: string): string {
+  return key.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+export interface RateLimitStore {
+  readonly kind: 'memory' | 'redis';
+  /**
+   * Apply a request to the rule's state under `key`
+   *
+   * @param cost - Requests to count; 0 evaluates the rule without counting
+   */
+  apply(key: string, rule: RateLimitRule, cost: number): Promise<RateLimitDecision>;
+  /** Forget all state under `key` */
+  reset(key: string): Promise<void>;
+}
+
+// ============================================================================
+// Memory Store
+// ============================================================================
+
+/**
+ * In-process store. Each instance counts separately.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind = 'memory' as const;
+  private entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries: number = 10_000,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async apply(key: string, rule: RateLimitRule, cost: number): Promise<RateLimitDecision> {
+    const now = this.now();
+    const entry = this.entries.get(key);
+    const { state, decision } = applyRule(entry && entry.expiresAt > now ? entry.state : null, rule, now, cost);
+
+    this.entries.set(key, { state, expiresAt: now + getStateTtlMs(rule) });
+    this.prune(now);
+
+    return decision;
+  }
+
+  async reset(key: string): Promise<void> {
+    for (const stored of Array.from(this.entries.keys())) {
+      if (stored === key || stored.startsWith(`${key}:`)) {
+        this.entries.delete(stored);
+      }
+    }
+  }
+
+  /** Drop expired entries once the map grows past its bound */
+  private prune(now: number): void {
+    if (this.entries.size <= this.maxEntries) return;
+
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Redis Store
+// ============================================================================
+
+/**
+ * Sliding window transition, matching applySlidingWindow. Uses the Redis
+ * clock so instances with skewed clocks share the same windows.
+ *
+ * ARGV: windowMs, limit, cost, ttlMs
+ * Returns: { now, windowStart, current, previous, allowed }
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local start = now - (now % window)
+
+local saved = redis.call('HMGET', KEYS[1], 'start', 'current', 'previous')
+local savedStart = tonumber(saved[1])
+local current = tonumber(saved[2]) or 0
+local previous = tonumber(saved[3]) or 0
+
+if savedStart == nil or savedStart < start - window then
+  current = 0
+  previous = 0
+elseif savedStart == start - window then
+  previous = current
+  current = 0
+end
+
+local allowed = 0
+if previous * (1 - (now - start) / window) + current + math.max(cost, 1) <= limit then
+  allowed = 1
+  current = current + cost
+end
+
+redis.call('HSET', KEYS[1], 'start', start, 'current', current, 'previous', previous)
+redis.call('PEXPIRE', KEYS[1], tonumber(ARGV[4]))
+return { now, start, current, previous, allowed }
+`;
+
+/**
+ * Token bucket transition, matching applyTokenBucket
+ *
+ * ARGV: limit, windowMs, capacity, cost, ttlMs
+ * Returns: { now, tokens (string, fractional), allowed }
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local rate = tonumber(ARGV[1]) / tonumber(ARGV[2])
+local capacity = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+
+local saved = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local tokens = tonumber(saved[1])
+local updatedAt = tonumber(saved[2])
+
+if tokens == nil or updatedAt == nil then
+  tokens = capacity
+else
+  tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * rate)
+end
+
+local allowed = 0
+if tokens >= math.max(cost, 1) then
+  allowed = 1
+  tokens = tokens - cost
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', now)
+redis.call('PEXPIRE', KEYS[1], tonumber(ARGV[5]))
+return { now, tostring(tokens), allowed }
+`;
+
+/**
+ * Store backed by Redis. Every transition runs as one Lua script, so
+ * concurrent requests on different instances cannot over-admit.
+ *
+ * Falls back to a memory store while Redis is unavailable; limits are then
+ * per instance until the connection returns.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly kind = 'redis' as const;
+
+  constructor(
+    private readonly getClient: () => Redis | null,
+    private readonly fallback: RateLimitStore = new MemoryRateLimitStore()
+  ) {}
+
+  async apply(key: string, rule: RateLimitRule, cost: number): Promise<RateLimitDecision> {
+    const redis = this.getClient();
+    if (!redis) {
+      return this.fallback.apply(key, rule, cost);
+    }
+
+    try {
+      return rule.algorithm === 'token-bucket'
+        ? await this.applyTokenBucket(redis, key, rule, cost)
+        : await this.applySlidingWindow(redis, key, rule, cost);
+    } catch (error: unknown) {
+      logger.error('Redis rate limit error, using in-memory limits', error instanceof Error ? error : undefined, {
+        key,
+      });
+      return this.fallback.apply(key, rule, cost);
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.fallback.reset(key);
+
+    const redis = this.getClient();
+    if (!redis) return;
+
+    await redis.del(`${KEY_PREFIX}${key}`);
+
+    // SCAN walks the keyspace in batches instead of blocking Redis like KEYS
+    const pattern = `${escapeGlob(`${KEY_PREFIX}${key}`)}:*`;
+    let cursor = '0';
+    do {
+      const [next, keys] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', SCAN_BATCH_SIZE);
+      if (keys.length > 0) {
+        await redis.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  private async applySlidingWindow(
+    redis: Redis,
+    key: string,
+    rule: RateLimitRule,
+    cost: number
+  ): Promise<RateLimitDecision> {
+    const [now, windowStart, current, previous, allowed] = (await redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      `${KEY_PREFIX}${key}`,
+      rule.windowMs,
+      rule.limit,
+      cost,
+      getStateTtlMs(rule)
+    )) as [number, number, number, number, number];
+
+    return describeSlidingWindow({ windowStart, current, previous }, rule, now, allowed === 1);
+  }
+
+  private async applyTokenBucket(
+    redis: Redis,
+    key: string,
+    rule: RateLimitRule,
+    cost: number
+  ): Promise<RateLimitDecision> {
+    const [, tokens, allowed] = (await redis.eval(
+      TOKEN_BUCKET_SCRIPT,
+      1,
+      `${KEY_PREFIX}${key}`,
+      rule.limit,
+      rule.windowMs,
+      getBucketCapacity(rule),
+      cost,
+      getStateTtlMs(rule)
+    )) as [number, string, number];
+
+    return describeTokenBucket({ tokens: Number(tokens), updatedAt: 0 }, rule, allowed === 1);
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Redis (through the shared cache connection) when REDIS_URL is set,
+ * otherwise in-memory
+ */
+export function createRateLimitStore(): RateLimitStore {
+  if (process.env.REDIS_URL) {
+    return new RedisRateLimitStore(() => cacheManager.getRedisClient());
+  }
+  return new MemoryRateLimitStore();
+}
@@ -0,0 +1,150 @@
+/**
+ * Check-in Reminder Dispatcher
+ * Run by cron: finds users whose local reminder time has arrived, skips
+ * anyone who already checked in, and sends the reminder by Web Push and/or
+ * email. Subscriptions the push service reports as gone are removed.
+ */
+
+import { pushSubscriptionRepository } from '@/lib/db/push-subscriptions';
+import { reminderDeliveryRepository } from '@/lib/db/reminder-deliveries';
+import { emailService } from '@/lib/email';
+import { logger } from '@/lib/logging';
+import { deliverPush } from '@/lib/push/delivery';
+import { getVapidDetails, type VapidDetails } from '@/lib/push/web-push';
+import type { Database } from '@/lib/types/supabase';
+import { getUsersForReminder, type ReminderCandidate } from '@/lib/utils/reminder-logic';
+import { getReminderChannels } from './schedule';
+
+type PushSubscriptionRow = Database['public']['Tables']['push_subscriptions']['Row'];
+
+export interface ReminderDispatchResult {
+  /** Users whose reminder was due and who had not checked in */
+  due: number;
+  sent: number;
+  /** Already reminded today, e.g. by an overlapping run */
+  duplicates: number;
+  failed: string[];
+  push: { delivered: number; failed: number; expired: number };
+  email: { delivered: number; failed: number };
+  /** Expired or repeatedly failing subscriptions removed before sending */
+  subscriptionsRemoved: number;
+}
+
+/** Notification shown by the service worker */
+export const CHECK_IN_REMINDER_NOTIFICATION = {
+  title: 'Time for your check-in',
+  body: 'Take a minute to notice how your energy is doing today.',
+  url: '/tools/daily-checkin',
+  tag: 'check-in-reminder',
+};
+
+/**
+ * Send every check-in reminder that is due now
+ */
+export async function dispatchCheckInReminders(now: Date = new Date()): Promise<ReminderDispatchResult> {
+  const result: ReminderDispatchResult = {
+    due: 0,
+    sent: 0,
+    duplicates: 0,
+    failed: [],
+    push: { delivered: 0, failed: 0, expired: 0 },
+    email: { delivered: 0, failed: 0 },
+    subscriptionsRemoved: await pushSubscriptionRepository.deleteExpired(now),
+  };
+
+  const vapid = getVapidDetails();
+  if (!vapid) {
+    logger.warn('VAPID keys are not configured; check-in reminders will be sent by email only');
+  }
+
+  const candidates = await getUsersForReminder(now);
+  result.due = candidates.length;
+
+  for (const candidate of candidates) {
+    try {
+      const delivery = await reminderDeliveryRepository.claim(
+        candidate.userId,
+        candidate.localDate,
+        candidate.timezone,
+        candidate.method
+      );
+      if (!delivery) {
+        result.duplicates++;
+        continue;
+      }
+
+      const subscriptions =
+        vapid && candidate.method !== 'email'
+          ? await pushSubscriptionRepository.getByUser(candidate.userId)
+          : [];
+      const channels = getReminderChannels(candidate.method, subscriptions.length > 0);
+
+      const pushDelivered = vapid && channels.includes('push')
+        ? await sendPushReminder(subscriptions, vapid, result)
+        : 0;
+
+      // Email also covers push-only users whose every subscription just failed
+      const sendEmail = channels.includes('email') || (channels.includes('push') && pushDelivered === 0);
+      const emailDelivered = sendEmail ? await sendEmailReminder(candidate, result) : false;
+
+      await reminderDeliveryRepository.complete(delivery.id, pushDelivered, emailDelivered);
+
+      if (pushDelivered > 0 || emailDelivered) {
+        result.sent++;
+      } else {
+        result.failed.push(candidate.userId);
+      }
+    } catch (error: unknown) {
+      logger.error('Error sending check-in reminder', error instanceof Error ? error : undefined, {
+        userId: candidate.userId,
+      });
+      result.failed.push(candidate.userId);
+    }
+  }
+
+  logger.info('Dispatched check-in reminders', {
+    due: result.due,
+    sent: result.sent,
+    failed: result.failed.length,
+  });
+
+  return result;
+}
+
+/**
+ * Push to each of the user's browsers
+ *
+ * @returns Number of browsers the push service accepted the message for
+ */
+async function sendPushReminder(
+  subscriptions: PushSubscriptionRow[],
+  vapid: VapidDetails,
+  result: ReminderDispatchResult
+): Promise<number> {
+  const push = await deliverPush(subscriptions, CHECK_IN_REMINDER_NOTIFICATION, vapid, {
+    // Not worth showing hours after the chosen time
+    ttl: 6 * 60 * 60,
+    topic: CHECK_IN_REMINDER_NOTIFICATION.tag,
+  });
+
+  result.push.delivered += push.delivered;
+  result.push.failed += push.failed;
+  result.push.expired += push.expired;
+  return push.delivered;
+}
+
+async function sendEmailReminder(candidate: ReminderCandidate, result: ReminderDispatchResult): Promise<boolean> {
+  if (!candidate.email) {
+    result.email.failed++;
+    return false;
+  }
+
+  const { success } = await emailService.sendCheckInReminder(candidate.email, { name: candidate.name });
+
+  if (success) {
+    result.email.delivered++;
+  } else {
+    result.email.failed++;
+  }
+  return success;
+}
@@ -0,0 +1,28 @@
+/**
+ * Reminders Barrel Export
+ * Timezone-aware check-in reminder scheduling and delivery
+ */
+
+// Schedule
+export {
+  DEFAULT_REMINDER_SETTINGS,
+  REMINDER_WINDOW_MINUTES,
+  getLocalDayBounds,
+  getLocalMoment,
+  getReminderChannels,
+  getReminderDecision,
+  isValidTimezone,
+  resolveTimezone,
+  type LocalMoment,
+  type ReminderChannel,
+  type ReminderDecision,
+  type ReminderMethod,
+  type ReminderSettings,
+} from './schedule';
+
+// Dispatcher
+export {
+  CHECK_IN_REMINDER_NOTIFICATION,
+  dispatchCheckInReminders,
+  type ReminderDispatchResult,
+} from './dispatcher';
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  getLocalDayBounds,
+  getLocalMoment,
+  getReminderChannels,
+  getReminderDecision,
+  resolveTimezone,
+  type ReminderSettings,
+} from './schedule';
+
+const settings: ReminderSettings = {
+  enabled: true,
+  time: '09:00',
+  method: 'both',
+  days: [1, 2, 3, 4, 5],
+};
+
+// ============================================================================
+// Timezones
+// ============================================================================
+
+describe('resolveTimezone', () => {
+  it('uses the first valid candidate and falls back to UTC', () => {
+    expect(resolveTimezone(undefined, 'Not/AZone', 'Europe/Berlin')).toBe('Europe/Berlin');
+    expect(resolveTimezone('America/New_York', 'Europe/Berlin')).toBe('America/New_York');
+    expect(resolveTimezone(null, '')).toBe('UTC');
+  });
+});
+
+describe('getLocalMoment', () => {
+  it('reads date, weekday and time on the local wall clock', () => {
+    // Monday 02:30 UTC is still Sunday evening in New York
+    expect(getLocalMoment(new Date('2026-10-19T02:30:00Z'), 'America/New_York')).toEqual({
+      date: '2026-10-18',
+      weekday: 0,
+      minutes: 22 * 60 + 30,
+    });
+    expect(getLocalMoment(new Date('2026-10-19T02:30:00Z'), 'Asia/Tokyo')).toEqual({
+      date: '2026-10-19',
+      weekday: 1,
+      minutes: 11 * 60 + 30,
+    });
+  });
+});
+
+describe('getLocalDayBounds', () => {
+  it('spans the local day, including DST changes', () => {
+    expect(getLocalDayBounds('2026-10-19', 'Europe/Berlin')).toEqual({
+      start: new Date('2026-10-18T22:00:00Z'),
+      end: new Date('2026-10-19T22:00:00Z'),
+    });
+
+    // Clocks go back on 25 October 2026 in Berlin
+    const { start, end } = getLocalDayBounds('2026-10-25', 'Europe/Berlin');
+    expect((end.getTime() - start.getTime()) / 3_600_000).toBe(25);
+  });
+
+  it('contains every instant whose local date is that day', () => {
+    fc.assert(
+      fc.property(
+        fc.date({ min: new Date('2026-01-01T00:00:00Z'), max: new Date('2027-01-01T00:00:00Z'), noInvalidDate: true }),
+        fc.constantFrom('UTC', 'America/Los_Angeles', 'Europe/London', 'Asia/Kolkata', 'Australia/Sydney'),
+        (now, timezone) => {
+          const { date } = getLocalMoment(now, timezone);
+          const { start, end } = getLocalDayBounds(date, timezone);
+
+          expect(now.getTime()).toBeGreaterThanOrEqual(start.getTime());
+          expect(now.getTime()).toBeLessThan(end.getTime());
+        }
+      )
+    );
+  });
+});
+
+// ============================================================================
+// Decisions
+// ============================================================================
+
+describe('getReminderDecision', () => {
+  it('is due from the local reminder time until the window closes', () => {
+    // 13:00 UTC is 09:00 in New York (EDT)
+    const decide = (iso: string) => getReminderDecision(settings, new Date(iso), 'America/New_York', 15);
+
+    expect(decide('2026-10-19T12:59:00Z')).toMatchObject({ due: false, reason: 'not_reminder_time' });
+    expect(decide('2026-10-19T13:00:00Z')).toMatchObject({ due: true, local: { date: '2026-10-19' } });
+    expect(decide('2026-10-19T13:14:00Z')).toMatchObject({ due: true });
+    expect(decide('2026-10-19T13:15:00Z')).toMatchObject({ due: false, reason: 'not_reminder_time' });
+  });
+
+  it('checks the weekday in the user timezone', () => {
+    const sundayOnly = { ...settings, time: '22:00', days: [0] };
+
+    // Monday 02:00 UTC is Sunday 22:00 in New York
+    expect(getReminderDecision(sundayOnly, new Date('2026-10-19T02:00:00Z'), 'America/New_York').due).toBe(true);
+    expect(getReminderDecision(sundayOnly, new Date('2026-10-19T02:00:00Z'), 'UTC')).toMatchObject({
+      due: false,
+      reason: 'not_reminder_day',
+    });
+  });
+
+  it('never sends when disabled', () => {
+    expect(getReminderDecision({ ...settings, enabled: false }, new Date('2026-10-19T09:00:00Z'), 'UTC')).toEqual({
+      due: false,
+      reason: 'disabled',
+      local: null,
+    });
+  });
+
+  it('is due during exactly one window per local day', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 23 }),
+        fc.integer({ min: 0, max: 59 }),
+        fc.constantFrom('UTC', 'America/Los_Angeles', 'Asia/Kolkata'),
+        (hours, minutes, timezone) => {
+          const time = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+          const everyDay = { ...settings, time, days: [0, 1, 2, 3, 4, 5, 6] };
+          const { start } = getLocalDayBounds('2026-06-10', timezone);
+
+          const dueMinutes: number[] = [];
+          for (let minute = 0; minute < 24 * 60; minute++) {
+            if (getReminderDecision(everyDay, new Date(start.getTime() + minute * 60_000), timezone).due) {
+              dueMinutes.push(minute);
+            }
+          }
+
+          const first = hours * 60 + minutes;
+          expect(dueMinutes[0]).toBe(first);
+          expect(dueMinutes.length).toBe(Math.min(15, 24 * 60 - first));
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
+
+describe('getReminderChannels', () => {
+  it('falls back to email without a push subscription', () => {
+    expect(getReminderChannels('push', true)).toEqual(['push']);
+    expect(getReminderChannels('push', false)).toEqual(['email']);
+    expect(getReminderChannels('both', true)).toEqual(['push', 'email']);
+    expect(getReminderChannels('both', false)).toEqual(['email']);
+    expect(getReminderChannels('email', true)).toEqual(['email']);
+  });
+});
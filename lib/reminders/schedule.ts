@@ -0,0 +1,156 @@
+/**
+ * Check-in Reminder Schedule
+ * Decides whether a user's reminder is due from their settings, evaluated in
+ * their own timezone, and which channels it goes out on
+ */
+
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReminderMethod = 'push' | 'email' | 'both';
+
+export type ReminderChannel = 'push' | 'email';
+
+export interface ReminderSettings {
+  enabled: boolean;
+  /** Local time of day, HH:MM */
+  time: string;
+  method: ReminderMethod;
+  /** Weekdays, 0 = Sunday */
+  days: number[];
+  /** IANA timezone; falls back to the profile timezone, then UTC */
+  timezone?: string;
+}
+
+/** A moment as seen on the user's wall clock */
+export interface LocalMoment {
+  /** YYYY-MM-DD */
+  date: string;
+  /** 0 = Sunday */
+  weekday: number;
+  /** Minutes since local midnight */
+  minutes: number;
+}
+
+export type ReminderDecision =
+  | { due: true; local: LocalMoment }
+  | { due: false; reason: 'disabled' | 'not_reminder_day' | 'not_reminder_time'; local: LocalMoment | null };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  time: '09:00',
+  method: 'push',
+  days: [1, 2, 3, 4, 5], // Weekdays by default
+};
+
+/**
+ * How long after the chosen time a reminder may still go out. Covers the
+ * cron interval plus a missed run; the delivery record stops duplicates.
+ */
+export const REMINDER_WINDOW_MINUTES = 15;
+
+// ============================================================================
+// Timezones
+// ============================================================================
+
+/**
+ * Whether a string is a timezone the runtime recognises
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First valid timezone among the candidates, or UTC
+ */
+export function resolveTimezone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find((tz): tz is string => !!tz && isValidTimezone(tz)) ?? 'UTC';
+}
+
+/**
+ * Date, weekday and time of day in a timezone
+ */
+export function getLocalMoment(now: Date, timezone: string): LocalMoment {
+  const [date, isoWeekday, time] = formatInTimeZone(now, timezone, 'yyyy-MM-dd|i|HH:mm').split('|');
+  const [hours, minutes] = time.split(':').map(Number);
+
+  return {
+    date,
+    weekday: Number(isoWeekday) % 7,
+    minutes: hours * 60 + minutes,
+  };
+}
+
+/**
+ * UTC instants bounding a local calendar day (23 or 25 hours across DST changes)
+ */
+export function getLocalDayBounds(date: string, timezone: string): { start: Date; end: Date } {
+  const [year, month, day] = date.split('-').map(Number);
+  const nextDate = new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+
+  return {
+    start: fromZonedTime(`${date}T00:00:00`, timezone),
+    end: fromZonedTime(`${nextDate}T00:00:00`, timezone),
+  };
+}
+
+// ============================================================================
+// Decisions
+// ============================================================================
+
+/**
+ * Whether a reminder is due now for these settings
+ *
+ * Due from the chosen local time until the window closes, on chosen weekdays.
+ * The window never crosses local midnight, so a late reminder is not sent on
+ * the following day.
+ */
+export function getReminderDecision(
+  settings: ReminderSettings,
+  now: Date,
+  timezone: string,
+  windowMinutes: number = REMINDER_WINDOW_MINUTES
+): ReminderDecision {
+  if (!settings.enabled) {
+    return { due: false, reason: 'disabled', local: null };
+  }
+
+  const local = getLocalMoment(now, timezone);
+
+  if (!settings.days.includes(local.weekday)) {
+    return { due: false, reason: 'not_reminder_day', local };
+  }
+
+  const [hours, minutes] = settings.time.split(':').map(Number);
+  const elapsed = local.minutes - (hours * 60 + minutes);
+
+  if (elapsed < 0 || elapsed >= windowMinutes) {
+    return { due: false, reason: 'not_reminder_time', local };
+  }
+
+  return { due: true, local };
+}
+
+/**
+ * Channels for a reminder method
+ *
+ * Push-only reminders fall back to email when the user has no working push
+ * subscription, so turning on reminders never silently does nothing.
+ */
+export function getReminderChannels(method: ReminderMethod, hasPushSubscription: boolean): ReminderChannel[] {
+  if (method === 'email') return ['email'];
+  if (method === 'both') return hasPushSubscription ? ['push', 'email'] : ['email'];
+  return hasPushSubscription ? ['push'] : ['email'];
+}
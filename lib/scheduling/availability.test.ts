@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  DEFAULT_BOOKING_POLICY,
+  findAvailableSlots,
+  getAvailabilityWindows,
+  getChangeWindow,
+  getSlotUnavailableReason,
+  subtractIntervals,
+  type AvailabilityRule,
+  type BookingPolicy,
+} from './availability';
+
+const policy: BookingPolicy = {
+  ...DEFAULT_BOOKING_POLICY,
+  timezone: 'America/New_York',
+  buffer_minutes: 15,
+  slot_interval_minutes: 60,
+  min_notice_hours: 0,
+};
+
+/** Mondays 09:00-12:00 New York time */
+const mondayMornings: AvailabilityRule[] = [
+  { weekday: 1, start_time: '09:00:00', end_time: '12:00:00' },
+];
+
+// 2026-03-02 is a Monday (EST, UTC-5); 2026-03-09 is the Monday after DST starts (EDT, UTC-4)
+const now = new Date('2026-03-01T00:00:00Z');
+const at = (iso: string) => new Date(iso);
+
+// ============================================================================
+// Availability Windows
+// ============================================================================
+
+describe('getAvailabilityWindows', () => {
+  it('converts weekly rules to UTC across daylight saving changes', () => {
+    const windows = getAvailabilityWindows(
+      at('2026-03-01T00:00:00Z'),
+      at('2026-03-15T00:00:00Z'),
+      mondayMornings,
+      [],
+      'America/New_York'
+    );
+
+    expect(windows.map((w) => w.start.toISOString())).toEqual([
+      '2026-03-02T14:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+    ]);
+  });
+
+  it('applies whole-day blocks, partial blocks and extra openings', () => {
+    const windows = getAvailabilityWindows(
+      at('2026-03-01T00:00:00Z'),
+      at('2026-03-15T00:00:00Z'),
+      mondayMornings,
+      [
+        { date: '2026-03-02', start_time: null, end_time: null, is_available: false },
+        { date: '2026-03-09', start_time: '10:00', end_time: '11:00', is_available: false },
+        { date: '2026-03-10', start_time: '14:00', end_time: '15:00', is_available: true },
+      ],
+      'America/New_York'
+    );
+
+    expect(windows.map((w) => [w.start.toISOString(), w.end.toISOString()])).toEqual([
+      ['2026-03-09T13:00:00.000Z', '2026-03-09T14:00:00.000Z'],
+      ['2026-03-09T15:00:00.000Z', '2026-03-09T16:00:00.000Z'],
+      ['2026-03-10T18:00:00.000Z', '2026-03-10T19:00:00.000Z'],
+    ]);
+  });
+});
+
+describe('subtractIntervals', () => {
+  it('Property: free time never overlaps a blocked interval', () => {
+    const interval = fc
+      .tuple(fc.integer({ min: 0, max: 1000 }), fc.integer({ min: 1, max: 200 }))
+      .map(([start, length]) => ({ start: new Date(start * 60000), end: new Date((start + length) * 60000) }));
+
+    fc.assert(
+      fc.property(fc.array(interval, { maxLength: 5 }), fc.array(interval, { maxLength: 5 }), (windows, blocked) => {
+        const free = subtractIntervals(windows, blocked);
+        free.forEach((f) => {
+          expect(f.end > f.start).toBe(true);
+          blocked.forEach((b) => expect(f.start >= b.end || f.end <= b.start).toBe(true));
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ============================================================================
+// Slots
+// ============================================================================
+
+describe('findAvailableSlots', () => {
+  const search = {
+    from: at('2026-03-02T00:00:00Z'),
+    to: at('2026-03-03T00:00:00Z'),
+    durationMinutes: 60,
+    rules: mondayMornings,
+    exceptions: [],
+    busy: [],
+    policy,
+    now,
+  };
+
+  it('steps through the window and presents slots in the viewer timezone', () => {
+    const slots = findAvailableSlots({ ...search, viewerTimezone: 'Europe/London' });
+
+    expect(slots.map((s) => s.start)).toEqual([
+      '2026-03-02T14:00:00.000Z',
+      '2026-03-02T15:00:00.000Z',
+      '2026-03-02T16:00:00.000Z',
+    ]);
+    expect(slots[0]).toMatchObject({ local_date: '2026-03-02', local_time: '14:00', timezone: 'Europe/London' });
+  });
+
+  it('keeps the buffer clear around existing sessions', () => {
+    const slots = findAvailableSlots({
+      ...search,
+      busy: [{ start: at('2026-03-02T15:00:00Z'), end: at('2026-03-02T15:30:00Z') }],
+    });
+
+    // 14:00-15:00 ends inside the buffer before the session; 15:45 is the first start after it
+    expect(slots.map((s) => s.start)).toEqual(['2026-03-02T15:45:00.000Z']);
+  });
+
+  it('respects minimum notice', () => {
+    const slots = findAvailableSlots({
+      ...search,
+      policy: { ...policy, min_notice_hours: 24 },
+      now: at('2026-03-01T15:30:00Z'),
+    });
+
+    expect(slots.map((s) => s.start)).toEqual(['2026-03-02T16:00:00.000Z']);
+  });
+});
+
+describe('getSlotUnavailableReason', () => {
+  const search = {
+    durationMinutes: 60,
+    rules: mondayMornings,
+    exceptions: [],
+    busy: [{ start: at('2026-03-02T16:00:00Z'), end: at('2026-03-02T17:00:00Z') }],
+    policy,
+    now,
+  };
+
+  it('accepts any start that fits a free window, not only slot boundaries', () => {
+    expect(getSlotUnavailableReason(at('2026-03-02T14:30:00Z'), search)).toBeNull();
+  });
+
+  it('rejects times outside availability or inside a buffer', () => {
+    expect(getSlotUnavailableReason(at('2026-03-02T13:00:00Z'), search)).toMatch(/not available/);
+    expect(getSlotUnavailableReason(at('2026-03-02T15:00:00Z'), search)).toMatch(/not available/);
+  });
+
+  it('rejects times too soon or too far ahead', () => {
+    expect(getSlotUnavailableReason(at('2026-03-02T14:00:00Z'), { ...search, policy: { ...policy, min_notice_hours: 48 } })).toMatch(/in advance/);
+    expect(getSlotUnavailableReason(at('2026-06-01T14:00:00Z'), search)).toMatch(/days ahead/);
+  });
+});
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+describe('getChangeWindow', () => {
+  it('closes the cancellation window hours before the session', () => {
+    const start = at('2026-03-02T14:00:00Z');
+
+    expect(getChangeWindow(start, { cancellation_window_hours: 24 }, at('2026-03-01T13:59:00Z')).allowed).toBe(true);
+    expect(getChangeWindow(start, { cancellation_window_hours: 24 }, at('2026-03-01T14:01:00Z'))).toEqual({
+      allowed: false,
+      deadline: at('2026-03-01T14:00:00Z'),
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Instructor Availability Engine
+ * Turns an instructor's recurring weekly rules, date exceptions and existing
+ * sessions into bookable slots, and checks booking and cancellation policy.
+ *
+ * Rules and exceptions are wall-clock times in the instructor's timezone, so
+ * availability follows daylight saving changes. Slots are returned as UTC
+ * instants with a local date and time for the viewer's timezone.
+ *
+ * Everything here is pure - persistence lives in ./booking.ts.
+ */
+
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Recurring weekly window (times are HH:MM or HH:MM:SS, instructor local) */
+export interface AvailabilityRule {
+  /** 0 = Sunday */
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
+/** Date-specific change: blocked time (whole day without times) or an extra opening */
+export interface AvailabilityException {
+  /** YYYY-MM-DD, instructor local */
+  date: string;
+  start_time: string | null;
+  end_time: string | null;
+  is_available: boolean;
+}
+
+export interface BookingPolicy {
+  timezone: string;
+  /** Free time kept before and after every session */
+  buffer_minutes: number;
+  /** Spacing of slot start times within a window */
+  slot_interval_minutes: number;
+  min_notice_hours: number;
+  max_days_ahead: number;
+  /** Sessions can be rescheduled or cancelled until this many hours before the start */
+  cancellation_window_hours: number;
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface AvailableSlot {
+  /** UTC ISO instant */
+  start: string;
+  end: string;
+  /** Start in the viewer's timezone */
+  local_date: string;
+  local_time: string;
+  timezone: string;
+}
+
+export interface SlotSearch {
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  rules: AvailabilityRule[];
+  exceptions: AvailabilityException[];
+  /** Active sessions of the instructor */
+  busy: TimeInterval[];
+  policy: BookingPolicy;
+  /** Timezone slots are presented in (defaults to the instructor's) */
+  viewerTimezone?: string;
+  now?: Date;
+}
+
+export interface ChangeWindow {
+  allowed: boolean;
+  /** Last moment the session can be changed */
+  deadline: Date;
+}
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  timezone: 'UTC',
+  buffer_minutes: 15,
+  slot_interval_minutes: 30,
+  min_notice_hours: 24,
+  max_days_ahead: 60,
+  cancellation_window_hours: 24,
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// ============================================================================
+// Intervals
+// ============================================================================
+
+/**
+ * Sort and merge overlapping or touching intervals
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = [...intervals]
+    .filter((interval) => interval.end > interval.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return sorted.reduce<TimeInterval[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = new Date(Math.max(last.end.getTime(), interval.end.getTime()));
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Remove the blocked intervals from the windows
+ */
+export function subtractIntervals(
+  windows: TimeInterval[],
+  blocked: TimeInterval[]
+): TimeInterval[] {
+  const blocks = mergeIntervals(blocked);
+
+  return mergeIntervals(windows).flatMap((window) => {
+    const free: TimeInterval[] = [];
+    let cursor = window.start;
+
+    for (const block of blocks) {
+      if (block.end <= cursor || block.start >= window.end) continue;
+      if (block.start > cursor) {
+        free.push({ start: cursor, end: block.start });
+      }
+      cursor = new Date(Math.max(cursor.getTime(), block.end.getTime()));
+    }
+
+    if (cursor < window.end) {
+      free.push({ start: cursor, end: window.end });
+    }
+    return free;
+  });
+}
+
+// ============================================================================
+// Availability
+// ============================================================================
+
+/**
+ * Whether Intl recognizes the IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * UTC instant of a wall-clock time on a date in the timezone
+ */
+export function zonedTime(date: string, time: string, timezone: string): Date {
+  return fromZonedTime(`${date}T${time.slice(0, 5)}:00`, timezone);
+}
+
+/**
+ * Instructor-local dates (YYYY-MM-DD) touched by the range
+ */
+function getLocalDates(from: Date, to: Date, timezone: string): string[] {
+  const dates: string[] = [];
+  const last = formatInTimeZone(to, timezone, 'yyyy-MM-dd');
+  let cursor = formatInTimeZone(from, timezone, 'yyyy-MM-dd');
+
+  while (cursor <= last) {
+    dates.push(cursor);
+    const next = new Date(`${cursor}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    cursor = next.toISOString().slice(0, 10);
+  }
+  return dates;
+}
+
+/**
+ * Open windows between two instants from weekly rules and exceptions
+ */
+export function getAvailabilityWindows(
+  from: Date,
+  to: Date,
+  rules: AvailabilityRule[],
+  exceptions: AvailabilityException[],
+  timezone: string
+): TimeInterval[] {
+  const windows: TimeInterval[] = [];
+  const blocked: TimeInterval[] = [];
+
+  for (const date of getLocalDates(from, to, timezone)) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const dayExceptions = exceptions.filter((exception) => exception.date === date);
+
+    // A whole-day block overrides the weekly rules and any openings
+    if (dayExceptions.some((exception) => !exception.start_time && !exception.is_available)) {
+      continue;
+    }
+
+    const toInterval = (start: string, end: string): TimeInterval => ({
+      start: zonedTime(date, start, timezone),
+      end: zonedTime(date, end, timezone),
+    });
+
+    rules
+      .filter((rule) => rule.weekday === weekday)
+      .forEach((rule) => windows.push(toInterval(rule.start_time, rule.end_time)));
+
+    dayExceptions.forEach((exception) => {
+      if (!exception.start_time || !exception.end_time) return;
+      (exception.is_available ? windows : blocked).push(
+        toInterval(exception.start_time, exception.end_time)
+      );
+    });
+  }
+
+  return subtractIntervals(windows, blocked)
+    .map((window) => ({
+      start: new Date(Math.max(window.start.getTime(), from.getTime())),
+      end: new Date(Math.min(window.end.getTime(), to.getTime())),
+    }))
+    .filter((window) => window.end > window.start);
+}
+
+/**
+ * Free windows after removing busy sessions and the buffer around them
+ */
+function getFreeWindows(search: SlotSearch): TimeInterval[] {
+  const { policy } = search;
+  const windows = getAvailabilityWindows(
+    search.from,
+    search.to,
+    search.rules,
+    search.exceptions,
+    policy.timezone
+  );
+  const buffer = policy.buffer_minutes * MINUTE;
+
+  return subtractIntervals(
+    windows,
+    search.busy.map((session) => ({
+      start: new Date(session.start.getTime() - buffer),
+      end: new Date(session.end.getTime() + buffer),
+    }))
+  );
+}
+
+/**
+ * Earliest and latest start allowed by the notice and horizon policy
+ */
+function getBookingRange(policy: BookingPolicy, now: Date): TimeInterval {
+  return {
+    start: new Date(now.getTime() + policy.min_notice_hours * HOUR),
+    end: new Date(now.getTime() + policy.max_days_ahead * DAY),
+  };
+}
+
+/**
+ * Bookable slot start times, stepping through each free window
+ */
+export function findAvailableSlots(search: SlotSearch): AvailableSlot[] {
+  const { policy, durationMinutes } = search;
+  const viewerTimezone = search.viewerTimezone || policy.timezone;
+  const range = getBookingRange(policy, search.now ?? new Date());
+  const duration = durationMinutes * MINUTE;
+  const step = policy.slot_interval_minutes * MINUTE;
+  const slots: AvailableSlot[] = [];
+
+  for (const window of getFreeWindows(search)) {
+    for (
+      let start = window.start.getTime();
+      start + duration <= window.end.getTime();
+      start += step
+    ) {
+      if (start < range.start.getTime() || start > range.end.getTime()) continue;
+
+      const slotStart = new Date(start);
+      slots.push({
+        start: slotStart.toISOString(),
+        end: new Date(start + duration).toISOString(),
+        local_date: formatInTimeZone(slotStart, viewerTimezone, 'yyyy-MM-dd'),
+        local_time: formatInTimeZone(slotStart, viewerTimezone, 'HH:mm'),
+        timezone: viewerTimezone,
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Why a start time cannot be booked, or null when it can
+ */
+export function getSlotUnavailableReason(
+  start: Date,
+  search: Omit<SlotSearch, 'from' | 'to'>
+): string | null {
+  const range = getBookingRange(search.policy, search.now ?? new Date());
+  const end = new Date(start.getTime() + search.durationMinutes * MINUTE);
+
+  if (start < range.start) {
+    return `Sessions must be booked at least ${search.policy.min_notice_hours} hours in advance`;
+  }
+  if (start > range.end) {
+    return `Sessions can be booked at most ${search.policy.max_days_ahead} days ahead`;
+  }
+
+  const fits = getFreeWindows({ ...search, from: start, to: end }).some(
+    (window) => window.start <= start && window.end >= end
+  );
+  return fits ? null : 'The instructor is not available at this time';
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/**
+ * Whether a session starting at scheduledAt can still be rescheduled or cancelled
+ */
+export function getChangeWindow(
+  scheduledAt: Date,
+  policy: Pick<BookingPolicy, 'cancellation_window_hours'>,
+  now: Date = new Date()
+): ChangeWindow {
+  const deadline = new Date(scheduledAt.getTime() - policy.cancellation_window_hours * HOUR);
+  return { allowed: now <= deadline, deadline };
+}
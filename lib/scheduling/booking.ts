@@ -0,0 +1,294 @@
+/**
+ * Session Booking
+ * Finds bookable slots and books, reschedules and cancels one-on-one
+ * sessions against an instructor's availability and booking policy, sending
+ * both participants an email with an iCalendar attachment for every change.
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import {
+  badRequestError,
+  forbiddenError,
+  notFoundError,
+} from '@/lib/api/error-handler';
+import { generateICalEvent } from '@/lib/calendar-export';
+import { instructorAvailabilityRepository } from '@/lib/db/instructor-availability';
+import {
+  ACTIVE_SESSION_STATUSES,
+  sessionRepository,
+  type SessionWithParticipants,
+} from '@/lib/db/sessions';
+import { emailService } from '@/lib/email/email-service';
+import type { SessionBookingChange } from '@/lib/email/templates';
+import { logger } from '@/lib/logging';
+import type { Database } from '@/lib/types/supabase';
+import {
+  findAvailableSlots,
+  getChangeWindow,
+  getSlotUnavailableReason,
+  type AvailableSlot,
+  type BookingPolicy,
+} from './availability';
+
+type SessionRow = Database['public']['Tables']['sessions']['Row'];
+
+export interface SlotQuery {
+  instructorId: string;
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  viewerTimezone?: string;
+}
+
+export interface BookingRequest {
+  studentId: string;
+  instructorId: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  timezone?: string;
+  notes?: string | null;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const toDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Availability inputs for the instructor around a time range
+ */
+async function loadSchedule(instructorId: string, from: Date, to: Date, excludeSessionId?: string) {
+  // Exceptions are stored by local date, so widen by a day for timezone offsets
+  const [schedule, busy] = await Promise.all([
+    instructorAvailabilityRepository.getSchedule(
+      instructorId,
+      toDate(new Date(from.getTime() - DAY)),
+      toDate(new Date(to.getTime() + DAY))
+    ),
+    sessionRepository.getBusyIntervals(instructorId, from, to, excludeSessionId),
+  ]);
+
+  return { ...schedule, busy };
+}
+
+/**
+ * Check that the session can be booked at the time, throwing the reason if not
+ */
+async function assertBookable(
+  instructorId: string,
+  scheduledAt: Date,
+  durationMinutes: number,
+  excludeSessionId?: string
+): Promise<BookingPolicy> {
+  const end = new Date(scheduledAt.getTime() + durationMinutes * 60 * 1000);
+  const schedule = await loadSchedule(instructorId, scheduledAt, end, excludeSessionId);
+
+  const reason = getSlotUnavailableReason(scheduledAt, { ...schedule, durationMinutes });
+  if (reason) {
+    throw badRequestError(reason);
+  }
+
+  return schedule.policy;
+}
+
+/**
+ * Load a session the user takes part in and that is still active
+ */
+async function getChangeableSession(sessionId: string, userId: string): Promise<SessionWithParticipants> {
+  const session = await sessionRepository.findWithParticipants(sessionId);
+  if (!session) {
+    throw notFoundError('Session');
+  }
+
+  if (session.student_id !== userId && session.instructor_id !== userId) {
+    throw forbiddenError('You can only change your own sessions');
+  }
+
+  if (!ACTIVE_SESSION_STATUSES.includes(session.status)) {
+    throw badRequestError(`This session is ${session.status} and can no longer be changed`);
+  }
+
+  return session;
+}
+
+/**
+ * Students must respect the cancellation window; instructors can always make changes
+ */
+function assertWithinChangeWindow(session: SessionRow, userId: string, policy: BookingPolicy): void {
+  if (session.instructor_id === userId) return;
+
+  const { allowed } = getChangeWindow(new Date(session.scheduled_at), policy);
+  if (!allowed) {
+    throw forbiddenError(
+      `Sessions can only be rescheduled or cancelled up to ${policy.cancellation_window_hours} hours before they start`
+    );
+  }
+}
+
+/**
+ * Email both participants about the change with a calendar attachment in their timezone
+ */
+async function notifyParticipants(
+  session: SessionRow,
+  participants: Pick<SessionWithParticipants, 'student' | 'instructor'>,
+  change: SessionBookingChange,
+  policy: BookingPolicy,
+  extra: { previousScheduledAt?: Date; reason?: string } = {}
+): Promise<void> {
+  const { student, instructor } = participants;
+  if (!student || !instructor) return;
+
+  const startDate = new Date(session.scheduled_at);
+  const endDate = new Date(startDate.getTime() + session.duration_minutes * 60 * 1000);
+  const recipients = [
+    { person: student, other: instructor, isInstructor: false, timezone: session.timezone || policy.timezone },
+    { person: instructor, other: student, isInstructor: true, timezone: policy.timezone },
+  ];
+
+  const results = await Promise.allSettled(
+    recipients.map(({ person, other, isInstructor, timezone }) => {
+      const ics = generateICalEvent({
+        title: `Session with ${other.full_name || 'NeuroElemental'}`,
+        description: session.notes || 'One-on-one session',
+        startDate,
+        endDate,
+        url: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/sessions/${session.id}`,
+        timezone,
+        uid: `session-${session.id}@neuroelemental.com`,
+        // Cancelling must outrank the last update for calendars to apply it
+        sequence: change === 'cancelled' ? session.ics_sequence + 1 : session.ics_sequence,
+        method: change === 'cancelled' ? 'CANCEL' : 'REQUEST',
+        organizer: { name: instructor.full_name, email: instructor.email },
+        attendees: [{ name: student.full_name, email: student.email }],
+      });
+
+      return emailService.sendSessionBookingUpdate(
+        person.email,
+        {
+          recipientName: person.full_name || 'there',
+          otherPartyName: other.full_name || (isInstructor ? 'your student' : 'your instructor'),
+          isInstructor,
+          change,
+          scheduledAt: startDate,
+          duration: session.duration_minutes,
+          timezone,
+          sessionId: session.id,
+          previousScheduledAt: extra.previousScheduledAt,
+          reason: extra.reason,
+          cancellationWindowHours: policy.cancellation_window_hours,
+        },
+        ics
+      );
+    })
+  );
+
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      logger.error(
+        'Failed to send session update email',
+        result.reason instanceof Error ? result.reason : new Error(String(result.reason))
+      );
+    }
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Bookable slots for an instructor in the viewer's timezone
+ */
+export async function findSessionSlots(query: SlotQuery): Promise<{ slots: AvailableSlot[]; policy: BookingPolicy }> {
+  const schedule = await loadSchedule(query.instructorId, query.from, query.to);
+
+  const slots = findAvailableSlots({
+    ...schedule,
+    from: query.from,
+    to: query.to,
+    durationMinutes: query.durationMinutes,
+    viewerTimezone: query.viewerTimezone,
+  });
+
+  return { slots, policy: schedule.policy };
+}
+
+/**
+ * Book a session if the instructor is available
+ *
+ * @throws {ApiError} 400 if the time is outside availability or policy, 409 if it was just taken
+ */
+export async function bookSession(request: BookingRequest): Promise<SessionRow> {
+  if (request.studentId === request.instructorId) {
+    throw badRequestError('You cannot book a session with yourself');
+  }
+
+  const policy = await assertBookable(request.instructorId, request.scheduledAt, request.durationMinutes);
+
+  const session = await sessionRepository.book({
+    instructorId: request.instructorId,
+    studentId: request.studentId,
+    scheduledAt: request.scheduledAt,
+    durationMinutes: request.durationMinutes,
+    bufferMinutes: policy.buffer_minutes,
+    timezone: request.timezone || policy.timezone,
+    notes: request.notes,
+  });
+
+  const participants = await sessionRepository.findWithParticipants(session.id);
+  if (participants) {
+    await notifyParticipants(session, participants, 'booked', policy);
+  }
+
+  return session;
+}
+
+/**
+ * Move a session to a new time
+ *
+ * @throws {ApiError} 403 outside the cancellation window, 400/409 if the new time is unavailable
+ */
+export async function rescheduleSession(
+  sessionId: string,
+  userId: string,
+  change: { scheduledAt: Date; timezone?: string }
+): Promise<SessionRow> {
+  const existing = await getChangeableSession(sessionId, userId);
+  const policy = await instructorAvailabilityRepository.getBookingPolicy(existing.instructor_id);
+  assertWithinChangeWindow(existing, userId, policy);
+
+  await assertBookable(existing.instructor_id, change.scheduledAt, existing.duration_minutes, sessionId);
+
+  const session = await sessionRepository.book({
+    sessionId,
+    instructorId: existing.instructor_id,
+    studentId: existing.student_id,
+    scheduledAt: change.scheduledAt,
+    durationMinutes: existing.duration_minutes,
+    bufferMinutes: policy.buffer_minutes,
+    // Only the student's timezone is stored on the session
+    timezone: (existing.student_id === userId && change.timezone) || existing.timezone || policy.timezone,
+  });
+
+  await notifyParticipants(session, existing, 'rescheduled', policy, {
+    previousScheduledAt: new Date(existing.scheduled_at),
+  });
+
+  return session;
+}
+
+/**
+ * Cancel a session
+ *
+ * @throws {ApiError} 403 outside the cancellation window
+ */
+export async function cancelSession(sessionId: string, userId: string, reason?: string): Promise<SessionRow> {
+  const existing = await getChangeableSession(sessionId, userId);
+  const policy = await instructorAvailabilityRepository.getBookingPolicy(existing.instructor_id);
+  assertWithinChangeWindow(existing, userId, policy);
+
+  const session = await sessionRepository.cancel(sessionId, userId, reason);
+
+  await notifyParticipants(session, existing, 'cancelled', policy, { reason });
+
+  return session;
+}
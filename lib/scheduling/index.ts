@@ -0,0 +1,34 @@
+/**
+ * Scheduling Barrel Export
+ * Instructor availability engine and session booking
+ */
+
+// Availability engine
+export {
+  findAvailableSlots,
+  getAvailabilityWindows,
+  getChangeWindow,
+  getSlotUnavailableReason,
+  isValidTimezone,
+  mergeIntervals,
+  subtractIntervals,
+  zonedTime,
+  DEFAULT_BOOKING_POLICY,
+  type AvailabilityException,
+  type AvailabilityRule,
+  type AvailableSlot,
+  type BookingPolicy,
+  type ChangeWindow,
+  type SlotSearch,
+  type TimeInterval,
+} from './availability';
+
+// Booking
+export {
+  bookSession,
+  cancelSession,
+  findSessionSlots,
+  rescheduleSession,
+  type BookingRequest,
+  type SlotQuery,
+} from './booking';
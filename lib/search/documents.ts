@@ -0,0 +1,146 @@
+/**
+ * Search Documents
+ * Turns site content into the documents the search index is built from
+ */
+
+import type { SearchSources } from '@/lib/db/search-sources';
+import { elementsData } from '@/lib/elements-data';
+import type { SearchDocument } from './engine';
+
+/**
+ * Strip HTML and Markdown down to searchable text
+ */
+export function toPlainText(content: string | null | undefined): string {
+  if (!content) return '';
+  return content
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&(?:lt|gt|quot|#39);/g, ' ')
+    .replace(/[#*_>`~|]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Documents for every element profile
+ */
+export function getElementDocuments(): SearchDocument[] {
+  return Object.values(elementsData).map((element) => ({
+    id: element.slug,
+    type: 'element',
+    title: `${element.name} Element`,
+    description: element.tagline,
+    body: [
+      element.shortDescription,
+      ...element.overview,
+      ...element.keyCharacteristics,
+      ...element.energySources.map((source) => `${source.title}. ${source.description}`),
+      ...element.energyDrains.map((drain) => `${drain.title}. ${drain.description}`),
+      ...element.growthEdges,
+    ].join(' '),
+    keywords: [element.name, element.energyType, ...element.motivations],
+    url: `/elements/${element.slug}`,
+    meta: { icon: element.icon },
+    visibility: { audience: 'public' },
+  }));
+}
+
+/**
+ * Documents for published content and the built-in element profiles
+ *
+ * Lessons are visible to the course's students (previews to everyone) and
+ * indexed by title and module only: drip release and prerequisites lock
+ * their text per student, which the index can't check. Quizzes are visible
+ * to admins only.
+ */
+export function buildSearchDocuments(sources: SearchSources): SearchDocument[] {
+  const courses = new Map(sources.courses.map((course) => [course.id, course]));
+
+  const documents: SearchDocument[] = sources.courses.map((course) => ({
+    id: course.id,
+    type: 'course',
+    title: course.title,
+    description: course.subtitle || course.description || undefined,
+    body: [course.description, toPlainText(course.long_description)].filter(Boolean).join(' '),
+    keywords: [course.category, course.instructor_name, ...(course.tags ?? [])].filter(
+      (keyword): keyword is string => !!keyword
+    ),
+    url: `/courses/${course.slug}`,
+    image: course.thumbnail_url || undefined,
+    visibility: { audience: 'public' },
+  }));
+
+  for (const lesson of sources.lessons) {
+    const course = courses.get(lesson.module?.course_id ?? '');
+    if (!course) continue;
+    documents.push({
+      id: lesson.id,
+      type: 'lesson',
+      title: lesson.title,
+      description: `${course.title}${lesson.module?.title ? ` · ${lesson.module.title}` : ''}`,
+      keywords: [course.title],
+      url: `/courses/${course.slug}/learn?lesson=${lesson.id}`,
+      meta: { courseId: course.id },
+      visibility: lesson.is_preview
+        ? { audience: 'public' }
+        : { audience: 'enrolled', courseId: course.id, ownerId: course.created_by },
+    });
+  }
+
+  for (const post of sources.blogPosts) {
+    documents.push({
+      id: post.id,
+      type: 'blog',
+      title: post.title,
+      description: post.excerpt || undefined,
+      body: toPlainText(post.content),
+      keywords: [post.category, ...(post.tags ?? [])].filter((keyword): keyword is string => !!keyword),
+      url: `/blog/${post.slug}`,
+      image: post.featured_image_url || undefined,
+      visibility: { audience: 'public' },
+    });
+  }
+
+  for (const event of sources.events) {
+    documents.push({
+      id: event.id,
+      type: 'event',
+      title: event.title,
+      description: event.description || undefined,
+      body: toPlainText(event.description),
+      keywords: [event.event_type, event.location_name].filter((keyword): keyword is string => !!keyword),
+      url: `/events/${event.slug}`,
+      image: event.thumbnail_url || undefined,
+      meta: { startsAt: event.start_datetime },
+      visibility: { audience: 'public' },
+    });
+  }
+
+  for (const faq of sources.faqs) {
+    documents.push({
+      id: faq.id,
+      type: 'faq',
+      title: faq.question,
+      description: toPlainText(faq.answer),
+      body: toPlainText(faq.answer),
+      keywords: faq.category ? [faq.category] : [],
+      url: '/#faq',
+      visibility: { audience: 'public' },
+    });
+  }
+
+  for (const quiz of sources.quizzes) {
+    documents.push({
+      id: quiz.id,
+      type: 'quiz',
+      title: quiz.title,
+      url: `/dashboard/admin/quizzes/${quiz.id}/edit`,
+      visibility: { audience: 'staff' },
+    });
+  }
+
+  return [...documents, ...getElementDocuments()];
+}
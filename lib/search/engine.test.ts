@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canView,
+  combineSearchResults,
+  createSearchIndex,
+  createSnippet,
+  editDistance,
+  highlight,
+  normalizeTerm,
+  searchIndex,
+  tokenize,
+  type SearchDocument,
+  type SearchViewer,
+} from './engine';
+
+const visitor: SearchViewer = { userId: 'u1', role: 'student', enrolledCourseIds: new Set() };
+
+function doc(overrides: Partial<SearchDocument> & Pick<SearchDocument, 'id' | 'title'>): SearchDocument {
+  return { type: 'course', url: `/x/${overrides.id}`, visibility: { audience: 'public' }, ...overrides };
+}
+
+const documents: SearchDocument[] = [
+  doc({ id: 'c1', title: 'Energy Management Basics', body: 'Learn how to plan your week around energy.' }),
+  doc({ id: 'c2', title: 'Leadership for Teams', body: 'Managing energy across a team of different elements.' }),
+  doc({ id: 'b1', type: 'blog', title: 'Why burnout happens', keywords: ['energy', 'burnout'], body: 'Burnout is not a character flaw.' }),
+  doc({ id: 'e1', type: 'element', title: 'Electric', body: 'Electric types thrive on novelty and fast ideas.' }),
+  doc({
+    id: 'l1',
+    type: 'lesson',
+    title: 'Secret lesson on energy',
+    body: 'Only enrolled students should find this.',
+    visibility: { audience: 'enrolled', courseId: 'c1', ownerId: 'instructor' },
+  }),
+  doc({ id: 'q1', type: 'quiz', title: 'Energy quiz', visibility: { audience: 'staff' } }),
+];
+
+const index = createSearchIndex(documents);
+
+describe('normalizeTerm / tokenize', () => {
+  it('lowercases, strips accents and plurals', () => {
+    expect(normalizeTerm('Cafés')).toBe('cafe');
+    expect(normalizeTerm('Courses')).toBe('course');
+    expect(normalizeTerm('strategies')).toBe('strategy');
+    expect(normalizeTerm('boxes')).toBe('box');
+    expect(normalizeTerm('focus')).toBe('focus');
+    expect(normalizeTerm('class')).toBe('class');
+  });
+
+  it('drops stop words', () => {
+    expect(tokenize('How to manage your Energy')).toEqual(['manage', 'energy']);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts substitutions, insertions and transpositions', () => {
+    expect(editDistance('energy', 'enrgy', 2)).toBe(1);
+    expect(editDistance('energy', 'eenrgy', 2)).toBe(1);
+    expect(editDistance('electric', 'elcetric', 2)).toBe(1);
+    expect(editDistance('energy', 'synergy', 2)).toBe(2);
+  });
+
+  it('stops once the distance exceeds the maximum', () => {
+    expect(editDistance('energy', 'leadership', 1)).toBe(2);
+  });
+});
+
+describe('searchIndex', () => {
+  it('ranks title matches above body matches', () => {
+    const { hits } = searchIndex(index, 'leadership', visitor);
+    expect(hits.map((hit) => hit.id)).toEqual(['c2']);
+
+    const energy = searchIndex(index, 'energy', visitor).hits.map((hit) => hit.id);
+    expect(energy[0]).toBe('c1');
+    expect(energy.indexOf('c1')).toBeLessThan(energy.indexOf('c2'));
+  });
+
+  it('matches prefixes while typing', () => {
+    expect(searchIndex(index, 'lead', visitor).hits.map((hit) => hit.id)).toEqual(['c2']);
+    expect(searchIndex(index, 'elec', visitor).hits.map((hit) => hit.id)).toEqual(['e1']);
+  });
+
+  it('tolerates typos', () => {
+    expect(searchIndex(index, 'eletcric', visitor).hits.map((hit) => hit.id)).toEqual(['e1']);
+    expect(searchIndex(index, 'burnuot', visitor).hits.map((hit) => hit.id)).toEqual(['b1']);
+  });
+
+  it('ranks exact matches above typo matches', () => {
+    const typoIndex = createSearchIndex([
+      doc({ id: 'a', title: 'Team rituals' }),
+      doc({ id: 'b', title: 'Steam engines' }),
+    ]);
+    expect(searchIndex(typoIndex, 'team', visitor).hits.map((hit) => hit.id)).toEqual(['a', 'b']);
+  });
+
+  it('requires every term when some document has them all', () => {
+    const ids = searchIndex(index, 'energy team', visitor).hits.map((hit) => hit.id);
+    expect(ids).toEqual(['c2']);
+  });
+
+  it('falls back to partial matches when no document has every term', () => {
+    const ids = searchIndex(index, 'burnout leadership', visitor).hits.map((hit) => hit.id);
+    expect(ids.sort()).toEqual(['b1', 'c2']);
+  });
+
+  it('hides documents the viewer may not see', () => {
+    const ids = searchIndex(index, 'energy', visitor).hits.map((hit) => hit.id);
+    expect(ids).not.toContain('l1');
+    expect(ids).not.toContain('q1');
+
+    const student = { ...visitor, enrolledCourseIds: new Set(['c1']) };
+    expect(searchIndex(index, 'secret', student).hits.map((hit) => hit.id)).toEqual(['l1']);
+
+    const instructor = { ...visitor, userId: 'instructor', role: 'instructor' };
+    expect(searchIndex(index, 'secret', instructor).hits.map((hit) => hit.id)).toEqual(['l1']);
+
+    const admin = { ...visitor, role: 'admin' };
+    expect(searchIndex(index, 'quiz', admin).hits.map((hit) => hit.id)).toEqual(['q1']);
+  });
+
+  it('counts visible matches per type, before the type filter', () => {
+    const { hits, facets } = searchIndex(index, 'energy', visitor, 'blog');
+    expect(hits.map((hit) => hit.id)).toEqual(['b1']);
+    expect(facets).toEqual({ course: 2, blog: 1 });
+  });
+
+  it('highlights matched words in the title and snippet', () => {
+    const [hit] = searchIndex(index, 'elec', visitor).hits;
+    expect(hit.highlights.title).toEqual([{ text: 'Electric', match: true }]);
+    expect(hit.highlights.snippet?.[0]).toEqual({ text: 'Electric', match: true });
+  });
+
+  it('returns nothing for a query of only stop words', () => {
+    expect(searchIndex(index, 'the and', visitor)).toEqual({ hits: [], facets: {} });
+  });
+});
+
+describe('canView', () => {
+  it('needs an enrollment in the course for enrolled documents', () => {
+    const visibility = { audience: 'enrolled' as const, courseId: 'c9' };
+    expect(canView(visibility, visitor)).toBe(false);
+    expect(canView(visibility, { ...visitor, enrolledCourseIds: new Set(['c9']) })).toBe(true);
+  });
+});
+
+describe('combineSearchResults', () => {
+  it('merges hits by score and sums facets', () => {
+    const a = searchIndex(index, 'energy', visitor);
+    const people = createSearchIndex([doc({ id: 'p1', type: 'user', title: 'Energy Expert' })]);
+    const b = searchIndex(people, 'energy', visitor);
+
+    const combined = combineSearchResults(a, b);
+    expect(combined.hits).toHaveLength(a.hits.length + 1);
+    expect(combined.facets.user).toBe(1);
+    for (let i = 1; i < combined.hits.length; i++) {
+      expect(combined.hits[i - 1].score).toBeGreaterThanOrEqual(combined.hits[i].score);
+    }
+  });
+});
+
+describe('highlight / createSnippet', () => {
+  it('merges unmatched runs', () => {
+    expect(highlight('Plan your week', new Set(['week']))).toEqual([
+      { text: 'Plan your ', match: false },
+      { text: 'week', match: true },
+    ]);
+  });
+
+  it('centres the snippet on the first match and marks cut-offs', () => {
+    const text = `${'filler '.repeat(30)}the energy budget ${'more '.repeat(60)}`;
+    const snippet = createSnippet(text, new Set(['budget']))!;
+    expect(snippet[0]).toEqual({ text: '… ', match: false });
+    expect(snippet.some((part) => part.match && part.text === 'budget')).toBe(true);
+    expect(snippet[snippet.length - 1].text.endsWith('…')).toBe(true);
+    expect(snippet.map((part) => part.text).join('').length).toBeLessThanOrEqual(170);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(createSnippet('Nothing here', new Set(['energy']))).toBeNull();
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * Search Engine
+ * In-memory full-text index over site content: weighted fields, prefix and
+ * typo-tolerant matching, per-viewer visibility, facet counts and
+ * highlighted snippets. Safe to import on the client.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SearchResultType = 'course' | 'lesson' | 'blog' | 'event' | 'faq' | 'element' | 'quiz' | 'user';
+
+/**
+ * Who may see a document
+ *
+ * - public: everyone
+ * - enrolled: students with an active enrollment in `courseId`
+ * - staff: admins only
+ *
+ * Admins and the document's owner (e.g. a lesson's course instructor) see
+ * every document.
+ */
+export interface SearchVisibility {
+  audience: 'public' | 'enrolled' | 'staff';
+  courseId?: string | null;
+  ownerId?: string | null;
+}
+
+export interface SearchDocument {
+  /** Unique within its type */
+  id: string;
+  type: SearchResultType;
+  title: string;
+  /** Short summary shown under the title */
+  description?: string;
+  /** Full plain text, searched and used for snippets */
+  body?: string;
+  /** Tags, categories and other terms that describe the document */
+  keywords?: string[];
+  url: string;
+  image?: string;
+  meta?: Record<string, unknown>;
+  visibility: SearchVisibility;
+}
+
+export interface SearchViewer {
+  userId: string | null;
+  role: string | null;
+  /** Courses the viewer has an active enrollment in */
+  enrolledCourseIds: ReadonlySet<string>;
+}
+
+/** Text split into runs, with the runs that matched the query marked */
+export type HighlightedText = Array<{ text: string; match: boolean }>;
+
+export interface SearchHit {
+  id: string;
+  type: SearchResultType;
+  title: string;
+  description?: string;
+  url: string;
+  image?: string;
+  meta?: Record<string, unknown>;
+  score: number;
+  highlights: {
+    title: HighlightedText;
+    /** Passage of the body around the first match, if the body matched */
+    snippet: HighlightedText | null;
+  };
+}
+
+export interface SearchResults {
+  /** Every visible match, best first */
+  hits: SearchHit[];
+  /** Visible matches per type, before the type filter */
+  facets: Partial<Record<SearchResultType, number>>;
+}
+
+type SearchField = 'title' | 'keywords' | 'body';
+
+interface IndexedDocument {
+  document: SearchDocument;
+  /** Term frequencies per field */
+  fields: Record<SearchField, Map<string, number>>;
+  lengths: Record<SearchField, number>;
+}
+
+export interface SearchIndex {
+  documents: IndexedDocument[];
+  /** Term to the positions (in `documents`) of the documents containing it */
+  postings: Map<string, number[]>;
+  /** Distinct terms, sorted, for prefix and typo expansion */
+  terms: string[];
+  averageLengths: Record<SearchField, number>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SEARCH_RESULT_TYPES: Record<SearchResultType, string> = {
+  course: 'Courses',
+  lesson: 'Lessons',
+  blog: 'Blog Posts',
+  event: 'Events',
+  faq: 'FAQs',
+  element: 'Elements',
+  quiz: 'Quizzes',
+  user: 'Users',
+};
+
+/** Shortest query the API accepts */
+export const MIN_QUERY_LENGTH = 2;
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 4, keywords: 2, body: 1 };
+
+/** How much a query term counts when it matched as a prefix or with typos */
+const PREFIX_WEIGHT = 0.75;
+const TYPO_WEIGHTS = [1, 0.55, 0.35];
+
+/** Titles containing the whole query rank above scattered matches */
+const TITLE_PHRASE_BOOST = 1.5;
+
+/** BM25 parameters */
+const K1 = 1.2;
+const B = 0.75;
+
+/** Query terms beyond this are ignored */
+const MAX_QUERY_TERMS = 8;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'my', 'of', 'on', 'or', 'the', 'to', 'what', 'when', 'with', 'you', 'your',
+]);
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// ============================================================================
+// Text
+// ============================================================================
+
+/**
+ * Reduce a word to the form it is indexed under: lowercase, without
+ * accents, singular
+ */
+export function normalizeTerm(word: string): string {
+  const term = word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  if (term.length <= 3 || /\d/.test(term)) return term;
+  if (term.endsWith('ies') && term.length > 4) return `${term.slice(0, -3)}y`;
+  if (/(?:ss|sh|ch|x|z)es$/.test(term)) return term.slice(0, -2);
+  if (term.endsWith('s') && !/(?:ss|us|is)$/.test(term)) return term.slice(0, -1);
+  return term;
+}
+
+/**
+ * Split text into indexable terms, without stop words
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const [word] of text.matchAll(WORD_PATTERN)) {
+    const term = normalizeTerm(word);
+    if (!STOP_WORDS.has(term)) terms.push(term);
+  }
+  return terms;
+}
+
+/**
+ * Edit distance (with adjacent transpositions), or `max + 1` once it is
+ * certain to exceed `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+/** Typos tolerated in a query term of this length */
+function maxTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+function countTerms(text: string): { terms: Map<string, number>; length: number } {
+  const terms = new Map<string, number>();
+  const tokens = tokenize(text);
+  for (const term of tokens) terms.set(term, (terms.get(term) ?? 0) + 1);
+  return { terms, length: tokens.length };
+}
+
+/**
+ * Build an index over a set of documents
+ */
+export function createSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, number[]>();
+  const totals: Record<SearchField, number> = { title: 0, keywords: 0, body: 0 };
+
+  const indexed = documents.map((document, position): IndexedDocument => {
+    const title = countTerms(document.title);
+    const keywords = countTerms((document.keywords ?? []).join(' '));
+    const body = countTerms(document.body ?? document.description ?? '');
+
+    const seen = new Set([...title.terms.keys(), ...keywords.terms.keys(), ...body.terms.keys()]);
+    for (const term of seen) {
+      const list = postings.get(term);
+      if (list) list.push(position);
+      else postings.set(term, [position]);
+    }
+
+    totals.title += title.length;
+    totals.keywords += keywords.length;
+    totals.body += body.length;
+
+    return {
+      document,
+      fields: { title: title.terms, keywords: keywords.terms, body: body.terms },
+      lengths: { title: title.length, keywords: keywords.length, body: body.length },
+    };
+  });
+
+  const count = Math.max(documents.length, 1);
+  return {
+    documents: indexed,
+    postings,
+    terms: [...postings.keys()].sort(),
+    averageLengths: {
+      title: totals.title / count || 1,
+      keywords: totals.keywords / count || 1,
+      body: totals.body / count || 1,
+    },
+  };
+}
+
+/**
+ * Index terms a query term matches, with how much each counts: exact
+ * matches fully, prefixes and near misses less
+ */
+function expandTerm(index: SearchIndex, queryTerm: string): Map<string, number> {
+  const matches = new Map<string, number>();
+  if (index.postings.has(queryTerm)) matches.set(queryTerm, 1);
+
+  // Terms sharing the prefix sit together in the sorted list
+  let low = 0;
+  let high = index.terms.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (index.terms[middle] < queryTerm) low = middle + 1;
+    else high = middle;
+  }
+  for (let i = low; i < index.terms.length && index.terms[i].startsWith(queryTerm); i++) {
+    if (!matches.has(index.terms[i])) matches.set(index.terms[i], PREFIX_WEIGHT);
+  }
+
+  const typos = maxTypos(queryTerm);
+  if (typos > 0) {
+    for (const term of index.terms) {
+      if (matches.has(term)) continue;
+      const distance = editDistance(queryTerm, term, typos);
+      if (distance <= typos) matches.set(term, TYPO_WEIGHTS[distance]);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Whether a viewer may see a document
+ */
+export function canView(visibility: SearchVisibility, viewer: SearchViewer): boolean {
+  if (viewer.role === 'admin') return true;
+  if (visibility.ownerId && visibility.ownerId === viewer.userId) return true;
+  switch (visibility.audience) {
+    case 'public':
+      return true;
+    case 'enrolled':
+      return !!visibility.courseId && viewer.enrolledCourseIds.has(visibility.courseId);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Search an index as a viewer
+ *
+ * Documents must match every query term; when none do, documents matching
+ * some of them are returned, ranked by how many they match.
+ *
+ * @param type - Only return documents of this type (facets still count all)
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  viewer: SearchViewer,
+  type: SearchResultType | null = null
+): SearchResults {
+  const queryTerms = [...new Set(tokenize(query))].slice(0, MAX_QUERY_TERMS);
+  if (queryTerms.length === 0) return { hits: [], facets: {} };
+
+  const total = index.documents.length;
+  const candidates = new Map<number, { score: number; matchedTerms: number; terms: Set<string> }>();
+
+  for (const queryTerm of queryTerms) {
+    // Best-scoring expansion per document for this query term
+    const best = new Map<number, { score: number; term: string }>();
+    for (const [term, weight] of expandTerm(index, queryTerm)) {
+      const positions = index.postings.get(term) ?? [];
+      const idf = Math.log(1 + (total - positions.length + 0.5) / (positions.length + 0.5));
+
+      for (const position of positions) {
+        const entry = index.documents[position];
+        let score = 0;
+        for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+          const frequency = entry.fields[field].get(term) ?? 0;
+          if (frequency === 0) continue;
+          const norm = 1 - B + (B * entry.lengths[field]) / index.averageLengths[field];
+          score += FIELD_WEIGHTS[field] * ((frequency * (K1 + 1)) / (frequency + K1 * norm));
+        }
+        score *= idf * weight;
+
+        const current = best.get(position);
+        if (!current || score > current.score) best.set(position, { score, term });
+      }
+    }
+
+    for (const [position, { score, term }] of best) {
+      const candidate = candidates.get(position) ?? { score: 0, matchedTerms: 0, terms: new Set<string>() };
+      candidate.score += score;
+      candidate.matchedTerms++;
+      candidate.terms.add(term);
+      candidates.set(position, candidate);
+    }
+  }
+
+  const visible = [...candidates.entries()].filter(([position]) =>
+    canView(index.documents[position].document.visibility, viewer)
+  );
+  const required = visible.some(([, candidate]) => candidate.matchedTerms === queryTerms.length)
+    ? queryTerms.length
+    : 1;
+
+  const phrase = queryTerms.join(' ');
+  const facets: SearchResults['facets'] = {};
+  const hits: SearchHit[] = [];
+
+  for (const [position, candidate] of visible) {
+    if (candidate.matchedTerms < required) continue;
+    const { document } = index.documents[position];
+    facets[document.type] = (facets[document.type] ?? 0) + 1;
+    if (type && document.type !== type) continue;
+
+    let score = candidate.score * (candidate.matchedTerms / queryTerms.length);
+    if (tokenize(document.title).join(' ').includes(phrase)) score *= TITLE_PHRASE_BOOST;
+
+    hits.push({
+      id: document.id,
+      type: document.type,
+      title: document.title,
+      description: document.description,
+      url: document.url,
+      image: document.image,
+      meta: document.meta,
+      score,
+      highlights: {
+        title: highlight(document.title, candidate.terms),
+        snippet: document.body ? createSnippet(document.body, candidate.terms) : null,
+      },
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title));
+  return { hits, facets };
+}
+
+/**
+ * Merge results from several indexes into one ranking
+ */
+export function combineSearchResults(...results: SearchResults[]): SearchResults {
+  const facets: SearchResults['facets'] = {};
+  for (const result of results) {
+    for (const [type, count] of Object.entries(result.facets) as [SearchResultType, number][]) {
+      facets[type] = (facets[type] ?? 0) + count;
+    }
+  }
+
+  const hits = results
+    .flatMap((result) => result.hits)
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title));
+  return { hits, facets };
+}
+
+// ============================================================================
+// Highlighting
+// ============================================================================
+
+/**
+ * Mark the words of a text that are indexed under one of the given terms
+ */
+export function highlight(text: string, terms: ReadonlySet<string>): HighlightedText {
+  const parts: HighlightedText = [];
+  const push = (part: string, match: boolean) => {
+    if (!part) return;
+    const last = parts[parts.length - 1];
+    if (last && last.match === match) last.text += part;
+    else parts.push({ text: part, match });
+  };
+
+  let cursor = 0;
+  for (const found of text.matchAll(WORD_PATTERN)) {
+    const start = found.index ?? 0;
+    if (!terms.has(normalizeTerm(found[0]))) continue;
+    push(text.slice(cursor, start), false);
+    push(found[0], true);
+    cursor = start + found[0].length;
+  }
+  push(text.slice(cursor), false);
+
+  return parts;
+}
+
+/**
+ * A passage of the text around its first matching word, highlighted
+ *
+ * @returns null when no word of the text matches
+ */
+export function createSnippet(
+  text: string,
+  terms: ReadonlySet<string>,
+  length: number = SNIPPET_LENGTH
+): HighlightedText | null {
+  let first = -1;
+  for (const found of text.matchAll(WORD_PATTERN)) {
+    if (terms.has(normalizeTerm(found[0]))) {
+      first = found.index ?? 0;
+      break;
+    }
+  }
+  if (first === -1) return null;
+
+  // Start and end on word boundaries
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < first ? space + 1 : first;
+  }
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > first) end = space;
+  }
+
+  const parts = highlight(text.slice(start, end).trim(), terms);
+  if (start > 0) parts.unshift({ text: '… ', match: false });
+  if (end < text.length) parts.push({ text: ' …', match: false });
+  return parts;
+}
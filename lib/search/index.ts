@@ -0,0 +1,31 @@
+/**
+ * Search Barrel Export
+ * Ranked, typo-tolerant site search with facets and highlighting
+ */
+
+// Engine
+export {
+  MIN_QUERY_LENGTH,
+  SEARCH_RESULT_TYPES,
+  canView,
+  combineSearchResults,
+  createSearchIndex,
+  createSnippet,
+  highlight,
+  searchIndex,
+  tokenize,
+  type HighlightedText,
+  type SearchDocument,
+  type SearchHit,
+  type SearchIndex,
+  type SearchResults,
+  type SearchResultType,
+  type SearchViewer,
+  type SearchVisibility,
+} from './engine';
+
+// Documents
+export { buildSearchDocuments, getElementDocuments, toPlainText } from './documents';
+
+// Service
+export { getSearchViewer, invalidateSearchIndex, searchSite } from './service';
@@ -0,0 +1,113 @@
+/**
+ * Search Service
+ * Keeps the site search index built and fresh, and runs searches as a user
+ *
+ * The indexed documents are cached for a few minutes and the cache is cleared
+ * whenever indexed content changes, so edits show up on the next search.
+ */
+
+import { cacheManager } from '@/lib/cache';
+import { INACTIVE_PAYMENT_STATUSES } from '@/lib/courses/access';
+import { enrollmentRepository } from '@/lib/db/enrollments';
+import { searchSourceRepository } from '@/lib/db/search-sources';
+import { userRepository } from '@/lib/db/users';
+import { buildSearchDocuments } from './documents';
+import {
+  combineSearchResults,
+  createSearchIndex,
+  searchIndex,
+  type SearchDocument,
+  type SearchIndex,
+  type SearchResults,
+  type SearchResultType,
+  type SearchViewer,
+} from './engine';
+
+const CACHE_NAMESPACE = 'search';
+const CACHE_TTL_SECONDS = 600;
+
+/** Staff look up people by name or email alongside content */
+const PEOPLE_SEARCH_ROLES = ['admin', 'instructor'];
+const PEOPLE_SEARCH_LIMIT = 20;
+
+interface IndexSnapshot {
+  builtAt: string;
+  documents: SearchDocument[];
+}
+
+/** Index built from the latest snapshot, reused until the snapshot changes */
+let current: { builtAt: string; index: SearchIndex } | null = null;
+
+async function getSearchIndex(): Promise<SearchIndex> {
+  const snapshot = await cacheManager.memoize<IndexSnapshot>(
+    'documents',
+    async () => ({
+      builtAt: new Date().toISOString(),
+      documents: buildSearchDocuments(await searchSourceRepository.getAll()),
+    }),
+    { ttl: CACHE_TTL_SECONDS, namespace: CACHE_NAMESPACE }
+  );
+
+  if (current?.builtAt !== snapshot.builtAt) {
+    current = { builtAt: snapshot.builtAt, index: createSearchIndex(snapshot.documents) };
+  }
+  return current.index;
+}
+
+/**
+ * Rebuild the index on the next search; call after indexed content changes
+ */
+export async function invalidateSearchIndex(): Promise<void> {
+  current = null;
+  await cacheManager.clear(CACHE_NAMESPACE);
+}
+
+/**
+ * The signed-in user as the search sees them, with their active enrollments
+ */
+export async function getSearchViewer(user: { id: string; role?: string | null }): Promise<SearchViewer> {
+  const enrollments = await enrollmentRepository.getUserEnrollments(user.id);
+  return {
+    userId: user.id,
+    role: user.role ?? null,
+    enrolledCourseIds: new Set(
+      enrollments
+        .filter((enrollment) => !INACTIVE_PAYMENT_STATUSES.includes(enrollment.payment_status ?? ''))
+        .map((enrollment) => enrollment.course_id)
+        .filter((id): id is string => !!id)
+    ),
+  };
+}
+
+/**
+ * Search site content, and people for staff
+ *
+ * @param type - Only return results of this type
+ */
+export async function searchSite(
+  viewer: SearchViewer,
+  query: string,
+  type: SearchResultType | null = null
+): Promise<SearchResults> {
+  const content = searchIndex(await getSearchIndex(), query, viewer, type);
+  if (!PEOPLE_SEARCH_ROLES.includes(viewer.role ?? '')) {
+    return content;
+  }
+
+  const people = await userRepository.searchUsers(query, PEOPLE_SEARCH_LIMIT);
+  const peopleIndex = createSearchIndex(
+    people.map((person) => ({
+      id: person.id,
+      type: 'user',
+      title: person.full_name || person.email,
+      description: person.role ?? undefined,
+      keywords: [person.email],
+      url: `/dashboard/admin/users?search=${encodeURIComponent(person.email)}`,
+      image: person.avatar_url || undefined,
+      meta: { email: person.email, role: person.role },
+      visibility: { audience: 'public' },
+    }))
+  );
+
+  return combineSearchResults(content, searchIndex(peopleIndex, query, viewer, type));
+}
@@ -15,6 +15,8 @@ export {
   getSSOUserMapping,
   autoProvisionSSOUser,
   createSSOSession,
+  recordSAMLRequest,
+  consumeSAMLRequest,
   getUserSSOSessions,
   logoutSSOSession,
   testSSOProvider,
@@ -32,9 +34,48 @@ export {
   encodeSAMLRequest,
   decodeSAMLResponse,
   parseSAMLAssertion,
+  parseSAMLResponseEnvelope,
+  validateSAMLConditions,
+  getSAMLServiceProviderUrls,
   buildSAMLSSOUrl,
+  SAML_CLOCK_SKEW_MS,
+  SAML_REQUEST_TTL_MS,
+  type SAMLAssertion,
+  type SAMLErrorCode,
+  type SAMLResponseEnvelope,
+  type SAMLSignatureResult,
+  type SAMLValidationResult,
 } from './saml'
 
+// SCIM provisioning
+export {
+  listScimUsers,
+  getScimUser,
+  createScimUser,
+  replaceScimUser,
+  patchScimUser,
+  deleteScimUser,
+  listScimGroups,
+  getScimGroup,
+  createScimGroup,
+  replaceScimGroup,
+  patchScimGroup,
+  deleteScimGroup,
+  parseScimFilter,
+  matchesScimFilter,
+  applyScimPatch,
+  buildScimListResponse,
+  SCIM_SCHEMAS,
+  SCIM_MAX_RESULTS,
+  type ScimUser,
+  type ScimGroup,
+  type ScimListResponse,
+  type ScimListOptions,
+  type ScimPatchOperation,
+  type ScimFilter,
+  type ScimFilterExpression,
+} from './scim'
+
 // OAuth handlers
 export {
   generateOAuthAuthorizationUrl,
@@ -525,6 +525,80 @@ export async function createSSOSession(session: {
   }
 }
 
+/**
+ * Record an issued SAML AuthnRequest
+ * The IdP echoes the request ID back as InResponseTo; see consumeSAMLRequest
+ */
+export async function recordSAMLRequest(request: {
+  organization_id: string;
+  provider_id: string;
+  request_id: string;
+  expires_at: string;
+}): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = getSupabaseServer();
+
+    const { error } = await (supabase as any)
+      .from("sso_saml_requests")
+      .insert(request) as { error: { message: string } | null };
+
+    if (error) {
+      logger.error("Error recording SAML request", error as Error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : "An unexpected error occurred";
+    logger.error(
+      "Error in recordSAMLRequest",
+      error instanceof Error ? error : undefined,
+      { errorMsg: String(error) }
+    );
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Consume an outstanding SAML AuthnRequest
+ * Returns true only the first time a response for an unexpired request is seen,
+ * so replayed or unsolicited responses are rejected
+ */
+export async function consumeSAMLRequest(
+  providerId: string,
+  requestId: string
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseServer();
+    const now = new Date().toISOString();
+
+    const { data, error } = await (supabase as any)
+      .from("sso_saml_requests")
+      .update({ consumed_at: now })
+      .eq("provider_id", providerId)
+      .eq("request_id", requestId)
+      .is("consumed_at", null)
+      .gt("expires_at", now)
+      .select("id")
+      .maybeSingle() as { data: { id: string } | null; error: { message: string } | null };
+
+    if (error) {
+      logger.error("Error consuming SAML request", error as Error);
+      return false;
+    }
+
+    return !!data;
+  } catch (error: unknown) {
+    logger.error(
+      "Error in consumeSAMLRequest",
+      error instanceof Error ? error : undefined,
+      { errorMsg: String(error) }
+    );
+    return false;
+  }
+}
+
 /**
  * Get active SSO sessions for user
  */
@@ -1,12 +1,59 @@
 /**
  * SAML 2.0 Authentication Handler
- * Handles SAML SSO flows (Service Provider initiated and IdP initiated)
+ * Handles Service Provider initiated SAML SSO flows
+ *
+ * Responses must be signed by the IdP certificate configured for the
+ * organization and must answer an AuthnRequest we issued (InResponseTo).
  */
 
 import crypto from 'crypto'
 import { deflateRawSync } from 'zlib'
-import { getSSOProvider, logSSOAuthAttempt, autoProvisionSSOUser, createSSOSession } from './manage'
+import { DOMParser } from '@xmldom/xmldom'
+import { SignedXml } from 'xml-crypto'
+import { getSSOProvider, logSSOAuthAttempt, autoProvisionSSOUser, createSSOSession, consumeSAMLRequest } from './manage'
 import { logger } from '@/lib/logging'
+import { getAppUrl } from '@/lib/utils'
+
+const SAML_PROTOCOL_NS = 'urn:oasis:names:tc:SAML:2.0:protocol'
+const SAML_ASSERTION_NS = 'urn:oasis:names:tc:SAML:2.0:assertion'
+const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#'
+const SAML_BEARER_METHOD = 'urn:oasis:names:tc:SAML:2.0:cm:bearer'
+const SAML_STATUS_SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success'
+const ELEMENT_NODE = 1
+
+/** Signature algorithms accepted from IdPs (SHA-1 is rejected) */
+const ALLOWED_SIGNATURE_ALGORITHMS: string[] = [
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha512',
+]
+
+/** Reference digest algorithms accepted from IdPs */
+const ALLOWED_DIGEST_ALGORITHMS: string[] = [
+  'http://www.w3.org/2001/04/xmlenc#sha256',
+  'http://www.w3.org/2001/04/xmlenc#sha512',
+]
+
+/** Tolerated clock difference between us and the IdP */
+export const SAML_CLOCK_SKEW_MS = 3 * 60 * 1000
+
+/** How long an issued AuthnRequest can be answered */
+export const SAML_REQUEST_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Service Provider entity ID and ACS URL for an organization
+ * These are what IdPs are configured with (see SP metadata) and what
+ * assertions must name as audience and recipient
+ */
+export function getSAMLServiceProviderUrls(organizationId: string): {
+  entityId: string
+  acsUrl: string
+} {
+  const baseUrl = getAppUrl()
+  return {
+    entityId: `${baseUrl}/api/sso/saml/sp/${organizationId}`,
+    acsUrl: `${baseUrl}/api/sso/saml/acs`,
+  }
+}
 
 /**
  * Generate SAML AuthnRequest
@@ -55,68 +102,476 @@ export function decodeSAMLResponse(encodedResponse: string): string {
 }
 
 /**
- * Parse SAML assertion (simplified - in production use a proper SAML library like samlify)
+ * Why a SAML response was rejected (stored as sso_auth_attempts.error_code)
+ */
+export type SAMLErrorCode =
+  | 'invalid_xml'
+  | 'invalid_assertion'
+  | 'idp_status_error'
+  | 'certificate_not_configured'
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'unsupported_signature_algorithm'
+  | 'issuer_mismatch'
+  | 'audience_mismatch'
+  | 'recipient_mismatch'
+  | 'assertion_not_yet_valid'
+  | 'assertion_expired'
+  | 'missing_in_response_to'
+  | 'in_response_to_mismatch'
+  | 'replayed_response'
+
+/**
+ * Message shown to the user for each rejection reason
+ * (details stay in the auth attempt log)
+ */
+const SAML_ERROR_MESSAGES: Record<SAMLErrorCode, string> = {
+  invalid_xml: 'Invalid SAML response',
+  invalid_assertion: 'Invalid SAML assertion',
+  idp_status_error: 'Identity provider reported an error',
+  certificate_not_configured: 'SSO provider certificate not configured',
+  missing_signature: 'SAML response is not signed',
+  invalid_signature: 'Invalid SAML signature',
+  unsupported_signature_algorithm: 'Unsupported SAML signature algorithm',
+  issuer_mismatch: 'SAML assertion issued by an unexpected identity provider',
+  audience_mismatch: 'SAML assertion is not intended for this application',
+  recipient_mismatch: 'SAML response sent to the wrong endpoint',
+  assertion_not_yet_valid: 'SAML assertion is not yet valid',
+  assertion_expired: 'SAML assertion has expired',
+  missing_in_response_to: 'Please start sign-in from the login page',
+  in_response_to_mismatch: 'Invalid SAML response',
+  replayed_response: 'SAML response has already been used or has expired',
+}
+
+/**
+ * Result of a single SAML validation step
+ */
+export interface SAMLValidationResult {
+  valid: boolean
+  errorCode?: SAMLErrorCode
+  reason?: string
+}
+
+/**
+ * Result of SAML signature validation
+ * `signedXml` is the canonical XML of the signed element (Response or Assertion)
+ * and is the only XML that should be trusted after validation
+ */
+export interface SAMLSignatureResult extends SAMLValidationResult {
+  signedXml?: string
+}
+
+/**
+ * Fields read from the outer (possibly unsigned) samlp:Response element
  */
-export function parseSAMLAssertion(xml: string): {
+export interface SAMLResponseEnvelope {
+  statusCode: string | null
+  destination?: string
+  inResponseTo?: string
+}
+
+/**
+ * Parsed SAML assertion
+ */
+export interface SAMLAssertion {
   nameID: string
   attributes: Record<string, string>
   sessionIndex?: string
   issuer: string
-} {
-  // In production, use a proper XML parser and SAML library like samlify or passport-saml
-  // This is a simplified version for demonstration
+  /** Audience values from Conditions/AudienceRestriction */
+  audiences: string[]
+  /** Conditions NotBefore / NotOnOrAfter */
+  notBefore?: string
+  notOnOrAfter?: string
+  /** Bearer SubjectConfirmationData Recipient / NotOnOrAfter / InResponseTo */
+  recipient?: string
+  subjectNotOnOrAfter?: string
+  inResponseTo?: string
+}
+
+/**
+ * Parse a SAML document into a DOM, rejecting malformed XML and DOCTYPEs
+ * (DTDs enable entity expansion attacks and are never used by SAML)
+ */
+function parseSAMLXml(xml: string): Document {
+  if (/<!DOCTYPE/i.test(xml)) {
+    throw new Error('SAML documents must not contain a DOCTYPE')
+  }
+
+  const errors: string[] = []
+  const doc = new DOMParser({
+    errorHandler: {
+      warning: () => undefined,
+      error: (msg) => errors.push(String(msg)),
+      fatalError: (msg) => errors.push(String(msg)),
+    },
+  }).parseFromString(xml, 'text/xml')
+
+  if (errors.length > 0 || !doc.documentElement) {
+    throw new Error(`Malformed SAML XML: ${errors[0] ?? 'missing root element'}`)
+  }
 
-  const nameIDMatch = xml.match(/<saml:NameID[^>]*>([^<]+)<\/saml:NameID>/)
-  const issuerMatch = xml.match(/<saml:Issuer[^>]*>([^<]+)<\/saml:Issuer>/)
-  const sessionIndexMatch = xml.match(/SessionIndex="([^"]+)"/)
+  return doc
+}
+
+/**
+ * Direct child elements with the given namespace and local name
+ */
+function childElements(parent: Element, namespace: string, localName: string): Element[] {
+  const children: Element[] = []
+  for (let i = 0; i < parent.childNodes.length; i++) {
+    const node = parent.childNodes[i]
+    if (
+      node.nodeType === ELEMENT_NODE &&
+      (node as Element).namespaceURI === namespace &&
+      (node as Element).localName === localName
+    ) {
+      children.push(node as Element)
+    }
+  }
+  return children
+}
 
-  if (!nameIDMatch || !issuerMatch) {
+/**
+ * Trimmed text content of an element, or undefined when missing/empty
+ */
+function elementText(element: Element | undefined): string | undefined {
+  const text = element?.textContent?.trim()
+  return text || undefined
+}
+
+/**
+ * Attribute value of an element, or undefined when missing/empty
+ */
+function elementAttribute(element: Element | undefined, name: string): string | undefined {
+  return element?.getAttribute(name) || undefined
+}
+
+/**
+ * Normalize a configured IdP certificate to PEM
+ * Accepts full PEM (certificate or public key) or the bare base64 body
+ * that IdP metadata usually contains
+ */
+function normalizeCertificate(certificate: string): string {
+  const trimmed = certificate.trim()
+  if (trimmed.includes('-----BEGIN')) {
+    return trimmed
+  }
+
+  const body = trimmed.replace(/\s+/g, '').match(/.{1,64}/g)?.join('\n') ?? ''
+  return `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----`
+}
+
+/**
+ * Parse SAML assertion
+ * Accepts a full samlp:Response or a bare saml:Assertion (e.g. the signed XML
+ * returned by validateSAMLSignature). Elements are matched by namespace, so any
+ * prefix the IdP chooses is supported.
+ */
+export function parseSAMLAssertion(xml: string): SAMLAssertion {
+  const doc = parseSAMLXml(xml)
+  const assertions = doc.getElementsByTagNameNS(SAML_ASSERTION_NS, 'Assertion')
+
+  if (assertions.length !== 1) {
+    throw new Error('Invalid SAML assertion: expected exactly one assertion')
+  }
+
+  const assertion = assertions[0]
+  const subject = childElements(assertion, SAML_ASSERTION_NS, 'Subject')[0]
+  const nameID = subject && elementText(childElements(subject, SAML_ASSERTION_NS, 'NameID')[0])
+  const issuer = elementText(childElements(assertion, SAML_ASSERTION_NS, 'Issuer')[0])
+
+  if (!nameID || !issuer) {
     throw new Error('Invalid SAML assertion: missing required fields')
   }
 
-  const attributes: Record<string, string> = {}
+  // Only bearer confirmations are meaningful for browser SSO
+  const bearer = subject
+    ? childElements(subject, SAML_ASSERTION_NS, 'SubjectConfirmation').find(
+        (confirmation) => confirmation.getAttribute('Method') === SAML_BEARER_METHOD
+      )
+    : undefined
+  const confirmationData = bearer
+    ? childElements(bearer, SAML_ASSERTION_NS, 'SubjectConfirmationData')[0]
+    : undefined
+
+  const conditions = childElements(assertion, SAML_ASSERTION_NS, 'Conditions')[0]
+  const audiences = conditions
+    ? childElements(conditions, SAML_ASSERTION_NS, 'AudienceRestriction').flatMap((restriction) =>
+        childElements(restriction, SAML_ASSERTION_NS, 'Audience')
+          .map((audience) => elementText(audience))
+          .filter((audience): audience is string => !!audience)
+      )
+    : []
 
-  // Extract attributes (simplified)
-  const attributeRegex = /<saml:Attribute[^>]*Name="([^"]+)"[^>]*>[\s\S]*?<saml:AttributeValue[^>]*>([^<]+)<\/saml:AttributeValue>[\s\S]*?<\/saml:Attribute>/g
-  let match
-  while ((match = attributeRegex.exec(xml)) !== null) {
-    attributes[match[1]] = match[2]
+  const authnStatement = childElements(assertion, SAML_ASSERTION_NS, 'AuthnStatement')[0]
+
+  // First value of each attribute
+  const attributes: Record<string, string> = {}
+  for (const statement of childElements(assertion, SAML_ASSERTION_NS, 'AttributeStatement')) {
+    for (const attribute of childElements(statement, SAML_ASSERTION_NS, 'Attribute')) {
+      const name = attribute.getAttribute('Name')
+      const value = elementText(childElements(attribute, SAML_ASSERTION_NS, 'AttributeValue')[0])
+      if (name && value !== undefined) {
+        attributes[name] = value
+      }
+    }
   }
 
   return {
-    nameID: nameIDMatch[1],
+    nameID,
     attributes,
-    sessionIndex: sessionIndexMatch?.[1],
-    issuer: issuerMatch[1],
+    sessionIndex: elementAttribute(authnStatement, 'SessionIndex'),
+    issuer,
+    audiences,
+    notBefore: elementAttribute(conditions, 'NotBefore'),
+    notOnOrAfter: elementAttribute(conditions, 'NotOnOrAfter'),
+    recipient: elementAttribute(confirmationData, 'Recipient'),
+    subjectNotOnOrAfter: elementAttribute(confirmationData, 'NotOnOrAfter'),
+    inResponseTo: elementAttribute(confirmationData, 'InResponseTo'),
   }
 }
 
 /**
- * Validate SAML signature (simplified)
- * In production, use a proper SAML library for complete validation
+ * Parse the outer samlp:Response element (status, Destination, InResponseTo)
+ */
+export function parseSAMLResponseEnvelope(xml: string): SAMLResponseEnvelope {
+  const response = parseSAMLXml(xml).documentElement
+
+  if (response.namespaceURI !== SAML_PROTOCOL_NS || response.localName !== 'Response') {
+    throw new Error('Invalid SAML response: root element is not samlp:Response')
+  }
+
+  const status = childElements(response, SAML_PROTOCOL_NS, 'Status')[0]
+  const statusCode = status && childElements(status, SAML_PROTOCOL_NS, 'StatusCode')[0]
+
+  return {
+    statusCode: elementAttribute(statusCode, 'Value') ?? null,
+    destination: elementAttribute(response, 'Destination'),
+    inResponseTo: elementAttribute(response, 'InResponseTo'),
+  }
+}
+
+/**
+ * Validate SAML signature
+ *
+ * Verifies the enveloped XML signature on the assertion (preferred) or on the
+ * response against the IdP certificate configured for the provider:
+ * - The signature must reference the element it is enveloped in (by ID), which
+ *   defeats signature wrapping attacks
+ * - SignedInfo is canonicalized and its RSA signature verified with the
+ *   configured certificate only - certificates embedded in KeyInfo are ignored
+ * - Reference digests are recomputed over the canonicalized element
+ * - Only RSA-SHA256/512 and SHA-256/512 digests are accepted
+ *
+ * On success, callers must read the assertion from `signedXml`, never from the
+ * original document.
  */
 export function validateSAMLSignature(
-  _xml: string,
-  _certificate: string
-): boolean {
+  xml: string,
+  certificate: string
+): SAMLSignatureResult {
   try {
-    // In production, implement proper XML signature validation
-    // This requires:
-    // 1. Extract signature from XML
-    // 2. Canonicalize signed info
-    // 3. Verify signature using public key from certificate
-
-    // For now, return true if certificate is provided
-    // In production, use xml-crypto or similar library
-    return _certificate.includes('BEGIN CERTIFICATE')
-  } catch (error) {
-    logger.error('Error validating SAML signature', undefined, { errorMsg: error instanceof Error ? error instanceof Error ? error.message : String(error) : String(error) })
-    return false
+    const doc = parseSAMLXml(xml)
+    const response = doc.documentElement
+    const assertions = doc.getElementsByTagNameNS(SAML_ASSERTION_NS, 'Assertion')
+
+    if (assertions.length !== 1) {
+      return {
+        valid: false,
+        errorCode: 'invalid_assertion',
+        reason: `Expected exactly one assertion, found ${assertions.length}`,
+      }
+    }
+
+    const assertion = assertions[0]
+    const assertionSignature = childElements(assertion, XMLDSIG_NS, 'Signature')[0]
+    const responseSignature = childElements(response, XMLDSIG_NS, 'Signature')[0]
+    const signatureNode = assertionSignature ?? responseSignature
+    const signedElement = assertionSignature ? assertion : response
+
+    if (!signatureNode) {
+      return {
+        valid: false,
+        errorCode: 'missing_signature',
+        reason: 'Neither the response nor the assertion is signed',
+      }
+    }
+
+    const signedXml = new SignedXml({ publicCert: normalizeCertificate(certificate) })
+    signedXml.loadSignature(signatureNode)
+
+    if (!signedXml.signatureAlgorithm || !ALLOWED_SIGNATURE_ALGORITHMS.includes(signedXml.signatureAlgorithm)) {
+      return {
+        valid: false,
+        errorCode: 'unsupported_signature_algorithm',
+        reason: `Signature algorithm ${signedXml.signatureAlgorithm ?? 'unknown'} is not allowed`,
+      }
+    }
+
+    const references = signedXml.getReferences()
+    const elementId = signedElement.getAttribute('ID')
+
+    if (!elementId || references.length !== 1 || references[0].uri !== `#${elementId}`) {
+      return {
+        valid: false,
+        errorCode: 'invalid_signature',
+        reason: 'Signature does not reference the signed element',
+      }
+    }
+
+    if (!ALLOWED_DIGEST_ALGORITHMS.includes(references[0].digestAlgorithm)) {
+      return {
+        valid: false,
+        errorCode: 'unsupported_signature_algorithm',
+        reason: `Digest algorithm ${references[0].digestAlgorithm} is not allowed`,
+      }
+    }
+
+    if (!signedXml.checkSignature(xml)) {
+      return {
+        valid: false,
+        errorCode: 'invalid_signature',
+        reason: 'Signature verification failed',
+      }
+    }
+
+    const [signedReference] = signedXml.getSignedReferences()
+    if (!signedReference) {
+      return {
+        valid: false,
+        errorCode: 'invalid_signature',
+        reason: 'Signature verification failed',
+      }
+    }
+
+    return { valid: true, signedXml: signedReference }
+  } catch (error: unknown) {
+    logger.error('Error validating SAML signature', undefined, { errorMsg: error instanceof Error ? error.message : String(error) })
+    return {
+      valid: false,
+      errorCode: 'invalid_signature',
+      reason: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+/**
+ * Validate assertion issuer, audience, recipient, validity window and InResponseTo
+ *
+ * Timestamps are compared with SAML_CLOCK_SKEW_MS of tolerance. The response
+ * envelope's Destination and InResponseTo, when present, must agree with the
+ * signed assertion.
+ */
+export function validateSAMLConditions(
+  assertion: SAMLAssertion,
+  envelope: SAMLResponseEnvelope,
+  expected: {
+    /** SP entity ID the assertion must be addressed to */
+    audience: string
+    /** ACS URL the response must be delivered to */
+    recipient: string
+    /** IdP entity ID, when configured */
+    issuer?: string
+    now?: Date
+  }
+): SAMLValidationResult {
+  const now = (expected.now ?? new Date()).getTime()
+
+  if (expected.issuer && assertion.issuer !== expected.issuer) {
+    return {
+      valid: false,
+      errorCode: 'issuer_mismatch',
+      reason: `Unexpected issuer ${assertion.issuer}`,
+    }
+  }
+
+  if (!assertion.audiences.includes(expected.audience)) {
+    return {
+      valid: false,
+      errorCode: 'audience_mismatch',
+      reason: `Assertion is not intended for ${expected.audience}`,
+    }
+  }
+
+  if (assertion.recipient !== expected.recipient) {
+    return {
+      valid: false,
+      errorCode: 'recipient_mismatch',
+      reason: `Unexpected recipient ${assertion.recipient ?? '(none)'}`,
+    }
+  }
+
+  if (envelope.destination && envelope.destination !== expected.recipient) {
+    return {
+      valid: false,
+      errorCode: 'recipient_mismatch',
+      reason: `Unexpected destination ${envelope.destination}`,
+    }
+  }
+
+  const notBefore = assertion.notBefore ? Date.parse(assertion.notBefore) : null
+  const expiries = [assertion.notOnOrAfter, assertion.subjectNotOnOrAfter]
+    .filter((value): value is string => !!value)
+    .map((value) => Date.parse(value))
+
+  if (Number.isNaN(notBefore) || expiries.some(Number.isNaN)) {
+    return {
+      valid: false,
+      errorCode: 'invalid_assertion',
+      reason: 'Assertion contains an invalid timestamp',
+    }
+  }
+
+  if (!assertion.subjectNotOnOrAfter) {
+    return {
+      valid: false,
+      errorCode: 'invalid_assertion',
+      reason: 'Bearer subject confirmation has no NotOnOrAfter',
+    }
+  }
+
+  if (notBefore !== null && now + SAML_CLOCK_SKEW_MS < notBefore) {
+    return {
+      valid: false,
+      errorCode: 'assertion_not_yet_valid',
+      reason: `Assertion is not valid before ${assertion.notBefore}`,
+    }
+  }
+
+  if (expiries.some((expiry) => now - SAML_CLOCK_SKEW_MS >= expiry)) {
+    return {
+      valid: false,
+      errorCode: 'assertion_expired',
+      reason: 'Assertion has expired',
+    }
   }
+
+  if (!assertion.inResponseTo) {
+    return {
+      valid: false,
+      errorCode: 'missing_in_response_to',
+      reason: 'Unsolicited SAML responses are not accepted',
+    }
+  }
+
+  if (envelope.inResponseTo && envelope.inResponseTo !== assertion.inResponseTo) {
+    return {
+      valid: false,
+      errorCode: 'in_response_to_mismatch',
+      reason: 'Response and assertion InResponseTo do not match',
+    }
+  }
+
+  return { valid: true }
 }
 
 /**
  * Process SAML response and authenticate user
+ *
+ * Validation order: IdP status, signature, assertion conditions, then the
+ * InResponseTo request is consumed so each response can be used only once.
+ * Every rejection is recorded through logSSOAuthAttempt with a SAMLErrorCode.
  */
 export async function processSAMLResponse(
   encodedResponse: string,
@@ -167,32 +622,83 @@ export async function processSAMLResponse(
       }
     }
 
-    // Validate SAML signature
-    if (provider.saml_certificate) {
-      const isValid = validateSAMLSignature(xml, provider.saml_certificate)
-      if (!isValid) {
-        await logSSOAuthAttempt({
-          organization_id: organizationId,
-          provider_id: provider.id,
-          email: '',
-          status: 'failed',
-          error_code: 'invalid_signature',
-          error_message: 'SAML signature validation failed',
-          duration_ms: Date.now() - startTime,
-          saml_assertion: xml,
-          ip_address: options?.ip_address,
-          user_agent: options?.user_agent,
-        })
-        return {
-          success: false,
-          error: 'Invalid SAML signature',
-          errorCode: 'invalid_signature',
-        }
+    // Record a rejected response and build the failure result
+    const reject = async (
+      errorCode: SAMLErrorCode,
+      reason: string,
+      details?: { email?: string; requestId?: string }
+    ) => {
+      await logSSOAuthAttempt({
+        organization_id: organizationId,
+        provider_id: provider.id,
+        email: details?.email ?? '',
+        status: 'failed',
+        error_code: errorCode,
+        error_message: reason,
+        duration_ms: Date.now() - startTime,
+        saml_request_id: details?.requestId,
+        saml_assertion: xml,
+        ip_address: options?.ip_address,
+        user_agent: options?.user_agent,
+      })
+      return {
+        success: false,
+        email: details?.email,
+        error: SAML_ERROR_MESSAGES[errorCode],
+        errorCode,
       }
     }
 
-    // Parse SAML assertion
-    const assertion = parseSAMLAssertion(xml)
+    if (!provider.saml_certificate) {
+      return reject('certificate_not_configured', 'No IdP signing certificate configured')
+    }
+
+    let envelope: SAMLResponseEnvelope
+    try {
+      envelope = parseSAMLResponseEnvelope(xml)
+    } catch (error: unknown) {
+      return reject('invalid_xml', error instanceof Error ? error.message : String(error))
+    }
+
+    if (envelope.statusCode !== SAML_STATUS_SUCCESS) {
+      return reject('idp_status_error', `IdP returned status ${envelope.statusCode ?? '(none)'}`, {
+        requestId: envelope.inResponseTo,
+      })
+    }
+
+    // Validate SAML signature
+    const signature = validateSAMLSignature(xml, provider.saml_certificate)
+    if (!signature.valid || !signature.signedXml) {
+      return reject(
+        signature.errorCode ?? 'invalid_signature',
+        signature.reason ?? 'SAML signature validation failed',
+        { requestId: envelope.inResponseTo }
+      )
+    }
+
+    // Parse SAML assertion (from the signed XML only)
+    const assertion = parseSAMLAssertion(signature.signedXml)
+
+    const { entityId, acsUrl } = getSAMLServiceProviderUrls(organizationId)
+    const conditions = validateSAMLConditions(assertion, envelope, {
+      audience: entityId,
+      recipient: acsUrl,
+      issuer: provider.saml_entity_id,
+    })
+    if (!conditions.valid) {
+      return reject(conditions.errorCode ?? 'invalid_assertion', conditions.reason ?? 'Invalid SAML assertion', {
+        email: assertion.nameID,
+        requestId: assertion.inResponseTo,
+      })
+    }
+
+    const requestId = assertion.inResponseTo
+    if (!requestId || !(await consumeSAMLRequest(provider.id, requestId))) {
+      return reject('replayed_response', 'InResponseTo does not match an outstanding request', {
+        email: assertion.nameID,
+        requestId,
+      })
+    }
 
     // Map attributes using provider's attribute mapping
     const mapping = provider.attribute_mapping
@@ -212,6 +718,7 @@ export async function processSAMLResponse(
         error_code: 'domain_mismatch',
         error_message: `Email domain ${emailDomain} not allowed`,
         duration_ms: Date.now() - startTime,
+        saml_request_id: requestId,
         ip_address: options?.ip_address,
         user_agent: options?.user_agent,
       })
@@ -246,6 +753,7 @@ export async function processSAMLResponse(
           error_code: 'provisioning_failed',
           error_message: provisionResult.error || 'Failed to provision user',
           duration_ms: Date.now() - startTime,
+          saml_request_id: requestId,
           ip_address: options?.ip_address,
           user_agent: options?.user_agent,
         })
@@ -279,6 +787,7 @@ export async function processSAMLResponse(
         email,
         status: 'success',
         duration_ms: Date.now() - startTime,
+        saml_request_id: requestId,
         saml_assertion: xml,
         ip_address: options?.ip_address,
         user_agent: options?.user_agent,
@@ -299,6 +808,7 @@ export async function processSAMLResponse(
         error_code: 'user_not_found',
         error_message: 'User does not exist and auto-provisioning is disabled',
         duration_ms: Date.now() - startTime,
+        saml_request_id: requestId,
         ip_address: options?.ip_address,
         user_agent: options?.user_agent,
       })
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { membershipRepository } from '@/lib/db/memberships';
+import { assignRoleToUser, createOrganizationRole, getOrganizationRoles } from '@/lib/permissions/manage';
+import { autoProvisionSSOUser } from './manage';
+import { createScimGroup, createScimUser } from './scim';
+
+vi.mock('@/lib/db/activity-log', () => ({
+  ActivityActions: {},
+  EntityTypes: {},
+  logActivity: vi.fn(),
+}));
+vi.mock('@/lib/db/memberships', () => ({
+  membershipRepository: { isEmailAlreadyMember: vi.fn(), getOrganizationMember: vi.fn() },
+}));
+vi.mock('@/lib/db/teams', () => ({ teamRepository: {} }));
+vi.mock('@/lib/db/users', () => ({ userRepository: {} }));
+vi.mock('@/lib/permissions/manage', () => ({
+  assignRoleToUser: vi.fn(),
+  createOrganizationRole: vi.fn(),
+  deleteOrganizationRole: vi.fn(),
+  getOrganizationRole: vi.fn(),
+  getOrganizationRoles: vi.fn(),
+  removeRoleFromUser: vi.fn(),
+  updateOrganizationRole: vi.fn(),
+}));
+vi.mock('./manage', () => ({ autoProvisionSSOUser: vi.fn() }));
+
+const provider = { id: 'provider-1', domains: ['Acme.com'] };
+
+describe('SCIM provisioning', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(membershipRepository.isEmailAlreadyMember).mockResolvedValue(false);
+  });
+
+  it('rejects a user whose email domain is not one of the provider domains', async () => {
+    await expect(
+      createScimUser('org-1', provider, { userName: 'ceo@other.com' })
+    ).rejects.toMatchObject({ status: 400, details: { scimType: 'invalidValue' } });
+
+    await expect(
+      createScimUser('org-1', provider, { userName: 'jane', emails: [{ value: 'jane@acme.com.evil.io', primary: true }] })
+    ).rejects.toMatchObject({ status: 400, details: { scimType: 'invalidValue' } });
+
+    expect(autoProvisionSSOUser).not.toHaveBeenCalled();
+  });
+
+  it('provisions a user from a provider domain', async () => {
+    vi.mocked(autoProvisionSSOUser).mockResolvedValue({ success: false, error: 'stop here' } as never);
+
+    await expect(createScimUser('org-1', provider, { userName: 'Jane@ACME.com' })).rejects.toMatchObject({
+      status: 500,
+    });
+    expect(autoProvisionSSOUser).toHaveBeenCalledWith(
+      'org-1',
+      'provider-1',
+      expect.objectContaining({ email: 'jane@acme.com' })
+    );
+  });
+
+  it('rejects a deactivated member added to a group', async () => {
+    vi.mocked(getOrganizationRoles).mockResolvedValue([]);
+    vi.mocked(createOrganizationRole).mockResolvedValue({ success: true, role: { id: 'role-1' } } as never);
+    vi.mocked(membershipRepository.getOrganizationMember).mockResolvedValue({
+      user_id: 'user-1',
+      deactivated_at: '2026-10-01T00:00:00.000Z',
+    } as never);
+
+    await expect(
+      createScimGroup('org-1', null, { displayName: 'Engineers', members: [{ value: 'user-1' }] })
+    ).rejects.toMatchObject({ status: 400, details: { scimType: 'invalidValue' } });
+    expect(assignRoleToUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,1093 @@
+/**
+ * SCIM 2.0 Provisioning
+ * Users and Groups resources (RFC 7643 / RFC 7644) for organizations with SSO
+ *
+ * - Users map onto organization memberships. `active: false` deactivates the
+ *   membership (access is revoked but history is kept), DELETE removes it.
+ * - Groups map onto custom organization roles. Group members are the users
+ *   assigned that role; a member holds one custom role at a time, so adding a
+ *   user to a group replaces their previous custom role.
+ * - The enterprise extension's `department` maps onto the member's team,
+ *   matched by team external ID or by path ("Engineering > Platform");
+ *   unknown departments are created.
+ */
+
+// Direct import to avoid circular dependency with @/lib/api barrel
+import { badRequestError, conflictError, internalError, notFoundError } from '@/lib/api/error-handler'
+import { ActivityActions, EntityTypes, logActivity } from '@/lib/db/activity-log'
+import { membershipRepository, type MemberWithProfile } from '@/lib/db/memberships'
+import { teamRepository, type OrganizationTeam } from '@/lib/db/teams'
+import { userRepository } from '@/lib/db/users'
+import { findTeamByPath, formatTeamPath, MAX_TEAM_DEPTH, parseTeamPath } from '@/lib/organizations/teams'
+import {
+  assignRoleToUser,
+  createOrganizationRole,
+  deleteOrganizationRole,
+  getOrganizationRole,
+  getOrganizationRoles,
+  removeRoleFromUser,
+  updateOrganizationRole,
+  type OrganizationRole,
+} from '@/lib/permissions/manage'
+import { getAppUrl } from '@/lib/utils'
+import type { ScimGroupInput, ScimUserInput } from '@/lib/validation/schemas'
+import { autoProvisionSSOUser, type SSOProvider } from './manage'
+
+export const SCIM_SCHEMAS = {
+  USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  GROUP: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  ENTERPRISE_USER: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  PATCH_OP: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  SERVICE_PROVIDER_CONFIG: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+} as const
+
+/** Largest page a client may request */
+export const SCIM_MAX_RESULTS = 200
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScimMultiValue {
+  value: string
+  display?: string
+  primary?: boolean
+  type?: string
+}
+
+export interface ScimMeta {
+  resourceType: 'User' | 'Group'
+  created?: string
+  location: string
+}
+
+export interface ScimUser {
+  schemas: string[]
+  id: string
+  externalId?: string
+  userName: string
+  name: {
+    formatted?: string
+    givenName?: string
+    familyName?: string
+  }
+  displayName: string
+  emails: ScimMultiValue[]
+  active: boolean
+  groups: ScimMultiValue[]
+  'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User'?: {
+    department?: string
+  }
+  meta: ScimMeta
+}
+
+export interface ScimGroup {
+  schemas: string[]
+  id: string
+  externalId?: string
+  displayName: string
+  members: ScimMultiValue[]
+  meta: ScimMeta
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[]
+  totalResults: number
+  startIndex: number
+  itemsPerPage: number
+  Resources: T[]
+}
+
+export interface ScimListOptions {
+  filter?: string | null
+  /** 1-based index of the first result */
+  startIndex: number
+  count: number
+}
+
+export interface ScimPatchOperation {
+  op: string
+  path?: string
+  value?: unknown
+}
+
+export type ScimFilterOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le' | 'pr'
+
+export interface ScimFilterExpression {
+  attribute: string
+  operator: ScimFilterOperator
+  value?: string | number | boolean | null
+}
+
+/**
+ * Parsed filter in disjunctive normal form: the filter matches when every
+ * expression of at least one group matches (`and` binds tighter than `or`)
+ */
+export type ScimFilter = ScimFilterExpression[][]
+
+type ScimObject = Record<string, unknown>
+
+// ============================================================================
+// Filtering
+// ============================================================================
+
+const FILTER_COMPARISON = /^([A-Za-z][\w:.$-]*)\s+(eq|ne|co|sw|ew|gt|ge|lt|le)\s+("(?:[^"\\]|\\.)*"|true|false|null|-?\d+(?:\.\d+)?)/i
+const FILTER_PRESENT = /^([A-Za-z][\w:.$-]*)\s+pr\b/i
+const FILTER_LOGICAL = /^\s+(and|or)\s+/i
+
+function isScimObject(value: unknown): value is ScimObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Strip a core schema URN prefix from an attribute path
+ * (`urn:ietf:params:scim:schemas:core:2.0:User:userName` -> `userName`)
+ */
+function stripSchemaPrefix(path: string): string {
+  for (const schema of [SCIM_SCHEMAS.USER, SCIM_SCHEMAS.GROUP]) {
+    if (path.toLowerCase().startsWith(`${schema.toLowerCase()}:`)) {
+      return path.slice(schema.length + 1)
+    }
+  }
+  return path
+}
+
+/**
+ * Find an existing key case-insensitively (SCIM attribute names are case-insensitive)
+ */
+function findKey(target: ScimObject, name: string): string {
+  return Object.keys(target).find((key) => key.toLowerCase() === name.toLowerCase()) ?? name
+}
+
+function invalidFilter(filter: string): never {
+  throw badRequestError(`Unsupported or malformed filter: ${filter}`, { scimType: 'invalidFilter' })
+}
+
+/**
+ * Parse a SCIM filter
+ *
+ * Supports attribute comparisons (eq, ne, co, sw, ew, gt, ge, lt, le), presence
+ * (pr) and `and` / `or` combinations. Grouping with parentheses, `not` and
+ * value-path filters are not supported and are rejected as invalidFilter.
+ *
+ * @example
+ * parseScimFilter('userName eq "jane@acme.com"')
+ * // [[{ attribute: 'userName', operator: 'eq', value: 'jane@acme.com' }]]
+ */
+export function parseScimFilter(filter: string): ScimFilter {
+  const groups: ScimFilter = [[]]
+  let rest = filter.trim()
+
+  if (!rest) {
+    invalidFilter(filter)
+  }
+
+  while (rest) {
+    const comparison = rest.match(FILTER_COMPARISON)
+    const present = comparison ? null : rest.match(FILTER_PRESENT)
+    const match = comparison ?? present
+
+    if (!match) {
+      invalidFilter(filter)
+    }
+
+    const expression: ScimFilterExpression = {
+      attribute: stripSchemaPrefix(match[1]),
+      operator: (comparison ? comparison[2].toLowerCase() : 'pr') as ScimFilterOperator,
+    }
+
+    if (comparison) {
+      const literal = comparison[3]
+      expression.value = literal.startsWith('"')
+        ? (JSON.parse(literal) as string)
+        : literal === 'true' || literal === 'false'
+          ? literal === 'true'
+          : literal === 'null'
+            ? null
+            : Number(literal)
+    }
+
+    groups[groups.length - 1].push(expression)
+    rest = rest.slice(match[0].length)
+
+    if (!rest.trim()) {
+      break
+    }
+
+    const logical = rest.match(FILTER_LOGICAL)
+    if (!logical) {
+      invalidFilter(filter)
+    }
+
+    if (logical[1].toLowerCase() === 'or') {
+      groups.push([])
+    }
+    rest = rest.slice(logical[0].length)
+  }
+
+  return groups
+}
+
+/**
+ * Resolve an attribute path (e.g. `emails.value`, `name.givenName`) to its values
+ * Multi-valued complex attributes without a sub-attribute resolve to their `value`
+ */
+function resolveAttribute(resource: unknown, path: string): unknown[] {
+  let values: unknown[] = [resource]
+
+  for (const segment of path.split('.')) {
+    values = values.flatMap((value) => {
+      if (!isScimObject(value)) return []
+      const resolved = value[findKey(value, segment)]
+      if (resolved === undefined || resolved === null) return []
+      return Array.isArray(resolved) ? resolved : [resolved]
+    })
+  }
+
+  return values.map((value) => (isScimObject(value) && 'value' in value ? value.value : value))
+}
+
+function compareScimValue(
+  actual: unknown,
+  operator: ScimFilterOperator,
+  expected: ScimFilterExpression['value']
+): boolean {
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    const a = actual.toLowerCase()
+    const b = expected.toLowerCase()
+    switch (operator) {
+      case 'eq': return a === b
+      case 'ne': return a !== b
+      case 'co': return a.includes(b)
+      case 'sw': return a.startsWith(b)
+      case 'ew': return a.endsWith(b)
+      case 'gt': return a > b
+      case 'ge': return a >= b
+      case 'lt': return a < b
+      case 'le': return a <= b
+      default: return false
+    }
+  }
+
+  // Booleans sometimes arrive as strings ("True") from IdPs
+  const normalized = typeof actual === 'string' && typeof expected === 'boolean'
+    ? actual.toLowerCase() === 'true'
+    : actual
+
+  switch (operator) {
+    case 'eq': return normalized === expected
+    case 'ne': return normalized !== expected
+    case 'gt': return typeof normalized === 'number' && typeof expected === 'number' && normalized > expected
+    case 'ge': return typeof normalized === 'number' && typeof expected === 'number' && normalized >= expected
+    case 'lt': return typeof normalized === 'number' && typeof expected === 'number' && normalized < expected
+    case 'le': return typeof normalized === 'number' && typeof expected === 'number' && normalized <= expected
+    default: return false
+  }
+}
+
+function matchesExpression(resource: unknown, expression: ScimFilterExpression): boolean {
+  const values = resolveAttribute(resource, expression.attribute)
+
+  if (expression.operator === 'pr') {
+    return values.some((value) => value !== '' && value !== undefined && value !== null)
+  }
+
+  if (expression.operator === 'ne') {
+    return values.every((value) => compareScimValue(value, 'ne', expression.value))
+  }
+
+  return values.some((value) => compareScimValue(value, expression.operator, expression.value))
+}
+
+/**
+ * Check whether a SCIM resource matches a parsed filter
+ *
+ * @example
+ * matchesScimFilter(user, parseScimFilter('active eq true and emails.value ew "@acme.com"'))
+ */
+export function matchesScimFilter(resource: unknown, filter: ScimFilter): boolean {
+  return filter.some((group) => group.every((expression) => matchesExpression(resource, expression)))
+}
+
+/**
+ * Filter and paginate resources into a SCIM ListResponse
+ *
+ * @example
+ * return scimResponse(buildScimListResponse(users, { filter, startIndex: 1, count: 100 }))
+ */
+export function buildScimListResponse<T>(
+  resources: T[],
+  options: ScimListOptions
+): ScimListResponse<T> {
+  const filter = options.filter ? parseScimFilter(options.filter) : null
+  const matching = filter ? resources.filter((resource) => matchesScimFilter(resource, filter)) : resources
+  const page = matching.slice(options.startIndex - 1, options.startIndex - 1 + options.count)
+
+  return {
+    schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+    totalResults: matching.length,
+    startIndex: options.startIndex,
+    itemsPerPage: page.length,
+    Resources: page,
+  }
+}
+
+// ============================================================================
+// PATCH
+// ============================================================================
+
+/**
+ * Split a PATCH path into attribute, optional value filter and sub-attribute
+ * (`members[value eq "123"]`, `emails[type eq "work"].value`, `name.givenName`)
+ */
+function parsePatchPath(path: string): {
+  attribute: string
+  filter?: ScimFilter
+  subAttribute?: string
+} {
+  const trimmed = path.trim()
+
+  // Extension attributes: `urn:...:enterprise:2.0:User:department`, or the whole extension
+  const extension = SCIM_SCHEMAS.ENTERPRISE_USER
+  if (trimmed.toLowerCase() === extension.toLowerCase()) {
+    return { attribute: extension }
+  }
+  if (trimmed.toLowerCase().startsWith(`${extension.toLowerCase()}:`)) {
+    return { attribute: extension, subAttribute: trimmed.slice(extension.length + 1) }
+  }
+
+  const stripped = stripSchemaPrefix(trimmed)
+  const filtered = stripped.match(/^([^[\]]+)\[(.+)\](?:\.([A-Za-z]\w*))?$/)
+
+  if (filtered) {
+    return {
+      attribute: filtered[1],
+      filter: parseScimFilter(filtered[2]),
+      subAttribute: filtered[3],
+    }
+  }
+
+  const [attribute, subAttribute] = stripped.split('.', 2)
+  return { attribute, subAttribute }
+}
+
+/**
+ * Build a new multi-valued item from the `eq` expressions of a value filter
+ * (`emails[type eq "work"]` -> `{ type: 'work' }`)
+ */
+function itemFromFilter(filter: ScimFilter): ScimObject {
+  const item: ScimObject = {}
+  for (const expression of filter[0] ?? []) {
+    if (expression.operator === 'eq' && !expression.attribute.includes('.')) {
+      item[expression.attribute] = expression.value
+    }
+  }
+  return item
+}
+
+function multiValueKey(item: unknown): string | null {
+  return isScimObject(item) && item.value !== undefined ? String(item.value) : null
+}
+
+function applyPathOperation(target: ScimObject, op: string, path: string, value: unknown): void {
+  const { attribute, filter, subAttribute } = parsePatchPath(path)
+  const key = findKey(target, attribute)
+
+  if (filter) {
+    const items = Array.isArray(target[key]) ? (target[key] as unknown[]) : []
+    const matches = (item: unknown) => isScimObject(item) && matchesScimFilter(item, filter)
+
+    if (op === 'remove') {
+      if (subAttribute) {
+        items.filter(matches).forEach((item) => {
+          delete (item as ScimObject)[findKey(item as ScimObject, subAttribute)]
+        })
+      } else {
+        target[key] = items.filter((item) => !matches(item))
+      }
+      return
+    }
+
+    const matched = items.filter(matches) as ScimObject[]
+    const targets = matched.length > 0 ? matched : [itemFromFilter(filter)]
+
+    for (const item of targets) {
+      if (subAttribute) {
+        item[findKey(item, subAttribute)] = value
+      } else if (isScimObject(value)) {
+        Object.assign(item, value)
+      }
+    }
+
+    if (matched.length === 0) {
+      target[key] = [...items, ...targets]
+    }
+    return
+  }
+
+  if (subAttribute) {
+    const parent = isScimObject(target[key]) ? (target[key] as ScimObject) : {}
+    if (op === 'remove') {
+      delete parent[findKey(parent, subAttribute)]
+    } else {
+      parent[findKey(parent, subAttribute)] = value
+    }
+    target[key] = parent
+    return
+  }
+
+  const current = target[key]
+
+  if (op === 'remove') {
+    // Azure AD style: { op: 'remove', path: 'members', value: [{ value: 'id' }] }
+    if (Array.isArray(current) && Array.isArray(value)) {
+      const removed = new Set(value.map((item) => multiValueKey(item) ?? String(item)))
+      target[key] = current.filter((item) => !removed.has(multiValueKey(item) ?? ''))
+    } else {
+      delete target[key]
+    }
+    return
+  }
+
+  if (op === 'add' && Array.isArray(current)) {
+    const additions = Array.isArray(value) ? value : [value]
+    const existing = new Set(current.map(multiValueKey))
+    target[key] = [
+      ...current,
+      ...additions.filter((item) => {
+        const itemKey = multiValueKey(item)
+        return itemKey === null || !existing.has(itemKey)
+      }),
+    ]
+    return
+  }
+
+  if (op === 'add' && isScimObject(current) && isScimObject(value)) {
+    Object.assign(current, value)
+    return
+  }
+
+  target[key] = value
+}
+
+/**
+ * Apply SCIM PATCH operations to a resource
+ *
+ * Returns a patched copy; the caller diffs it against the original to decide
+ * what to persist. Operation names are case-insensitive (Azure AD sends
+ * "Replace"), path-less operations apply each key of the value object.
+ *
+ * @throws {ApiError} 400 with scimType invalidValue / noTarget for bad operations
+ *
+ * @example
+ * applyScimPatch(user, [{ op: 'replace', path: 'active', value: false }])
+ */
+export function applyScimPatch<T extends object>(resource: T, operations: ScimPatchOperation[]): T {
+  const result = structuredClone(resource) as ScimObject
+
+  for (const operation of operations) {
+    const op = operation.op.toLowerCase()
+
+    if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+      throw badRequestError(`Unsupported patch operation: ${operation.op}`, { scimType: 'invalidValue' })
+    }
+
+    if (operation.path) {
+      applyPathOperation(result, op, operation.path, operation.value)
+      continue
+    }
+
+    if (op === 'remove') {
+      throw badRequestError('Remove operations require a path', { scimType: 'noTarget' })
+    }
+
+    if (!isScimObject(operation.value)) {
+      throw badRequestError('Patch value must be an object when no path is given', { scimType: 'invalidValue' })
+    }
+
+    for (const [path, value] of Object.entries(operation.value)) {
+      applyPathOperation(result, op, path, value)
+    }
+  }
+
+  return result as T
+}
+
+/**
+ * Interpret a SCIM boolean (IdPs sometimes send "True"/"False" strings)
+ */
+function toScimBoolean(value: unknown): boolean {
+  return value === true || (typeof value === 'string' && value.toLowerCase() === 'true')
+}
+
+// ============================================================================
+// Resource mapping
+// ============================================================================
+
+function scimLocation(resourceType: 'Users' | 'Groups', id: string): string {
+  return `${getAppUrl()}/api/scim/v2/${resourceType}/${id}`
+}
+
+/**
+ * Map a membership (with profile) to a SCIM User
+ */
+function toScimUser(
+  member: MemberWithProfile,
+  roles: Map<string, OrganizationRole>,
+  teams: Map<string, OrganizationTeam>
+): ScimUser | null {
+  if (!member.user_id || !member.profiles) {
+    return null
+  }
+
+  const fullName = member.profiles.full_name?.trim() || ''
+  const [givenName, ...familyNames] = fullName.split(/\s+/)
+  const role = member.role_id ? roles.get(member.role_id) : undefined
+  const team = member.team_id ? teams.get(member.team_id) : undefined
+
+  return {
+    schemas: team ? [SCIM_SCHEMAS.USER, SCIM_SCHEMAS.ENTERPRISE_USER] : [SCIM_SCHEMAS.USER],
+    id: member.user_id,
+    externalId: member.scim_external_id ?? undefined,
+    userName: member.profiles.email,
+    name: {
+      formatted: fullName || undefined,
+      givenName: givenName || undefined,
+      familyName: familyNames.join(' ') || undefined,
+    },
+    displayName: fullName || member.profiles.email,
+    emails: [{ value: member.profiles.email, primary: true, type: 'work' }],
+    active: !member.deactivated_at,
+    groups: role ? [{ value: role.id, display: role.name }] : [],
+    ...(team && {
+      [SCIM_SCHEMAS.ENTERPRISE_USER]: { department: team.external_id ?? formatTeamPath([...teams.values()], team.id) },
+    }),
+    meta: {
+      resourceType: 'User',
+      created: member.joined_at ?? undefined,
+      location: scimLocation('Users', member.user_id),
+    },
+  }
+}
+
+/**
+ * Map a custom role and the members holding it to a SCIM Group
+ */
+function toScimGroup(role: OrganizationRole, members: MemberWithProfile[]): ScimGroup {
+  return {
+    schemas: [SCIM_SCHEMAS.GROUP],
+    id: role.id,
+    externalId: role.scim_external_id ?? undefined,
+    displayName: role.name,
+    members: members
+      .filter((member) => member.role_id === role.id && member.user_id)
+      .map((member) => ({
+        value: member.user_id as string,
+        display: member.profiles?.email,
+      })),
+    meta: {
+      resourceType: 'Group',
+      created: role.created_at,
+      location: scimLocation('Groups', role.id),
+    },
+  }
+}
+
+/** Custom (non-system) roles of an organization, keyed by ID */
+async function getCustomRoles(organizationId: string): Promise<Map<string, OrganizationRole>> {
+  const roles = await getOrganizationRoles(organizationId)
+  return new Map(roles.filter((role) => !role.is_system).map((role) => [role.id, role]))
+}
+
+/** Teams of an organization, keyed by ID */
+async function getTeams(organizationId: string): Promise<Map<string, OrganizationTeam>> {
+  const teams = await teamRepository.getOrganizationTeams(organizationId)
+  return new Map(teams.map((team) => [team.id, team]))
+}
+
+/**
+ * The enterprise extension's `department` of a SCIM User payload
+ *
+ * @returns undefined when the extension is absent (leave the team alone),
+ * null when it is present without a department (remove from the team)
+ */
+function getScimDepartment(resource: ScimObject): string | null | undefined {
+  const extension = resource[findKey(resource, SCIM_SCHEMAS.ENTERPRISE_USER)]
+  if (!isScimObject(extension)) return undefined
+
+  const department = extension[findKey(extension, 'department')]
+  return typeof department === 'string' && department.trim() ? department.trim() : null
+}
+
+/**
+ * Find the team for a department, by external ID and then by path of names,
+ * creating the missing levels of the path
+ */
+async function resolveScimDepartment(organizationId: string, department: string): Promise<string> {
+  const byExternalId = await teamRepository.findByExternalId(organizationId, department)
+  if (byExternalId) return byExternalId.id
+
+  const teams = await teamRepository.getOrganizationTeams(organizationId)
+  const path = parseTeamPath(department)
+    .slice(0, MAX_TEAM_DEPTH + 1)
+    .map((name) => name.slice(0, 100))
+
+  let parentId: string | null = null
+  for (let length = 1; length <= path.length; length++) {
+    const existing = findTeamByPath(teams, path.slice(0, length))
+    if (existing) {
+      parentId = existing.id
+      continue
+    }
+
+    const created: OrganizationTeam = await teamRepository.createTeam(
+      organizationId,
+      { name: path[length - 1], kind: length === 1 ? 'department' : 'team', parent_id: parentId },
+      null
+    )
+    teams.push(created)
+    parentId = created.id
+  }
+
+  return parentId as string
+}
+
+/**
+ * Move a member to the team for their IdP department (or out of any team)
+ */
+async function syncScimDepartment(organizationId: string, userId: string, department: string | null): Promise<void> {
+  const member = await membershipRepository.getOrganizationMember(organizationId, userId)
+  const teamId = department ? await resolveScimDepartment(organizationId, department) : null
+
+  if (member && member.team_id !== teamId) {
+    await membershipRepository.updateMemberTeam(organizationId, userId, teamId)
+  }
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+/**
+ * List the organization's members as SCIM Users
+ */
+export async function listScimUsers(
+  organizationId: string,
+  options: ScimListOptions
+): Promise<ScimListResponse<ScimUser>> {
+  const [members, roles, teams] = await Promise.all([
+    membershipRepository.getOrganizationMembers(organizationId),
+    getCustomRoles(organizationId),
+    getTeams(organizationId),
+  ])
+
+  const users = members
+    .map((member) => toScimUser(member, roles, teams))
+    .filter((user): user is ScimUser => user !== null)
+
+  return buildScimListResponse(users, options)
+}
+
+/**
+ * Get a member as a SCIM User
+ * @throws {ApiError} 404 if the user is not a member of the organization
+ */
+export async function getScimUser(organizationId: string, userId: string): Promise<ScimUser> {
+  const [member, roles, teams] = await Promise.all([
+    membershipRepository.getOrganizationMember(organizationId, userId),
+    getCustomRoles(organizationId),
+    getTeams(organizationId),
+  ])
+
+  const user = member ? toScimUser(member, roles, teams) : null
+  if (!user) {
+    throw notFoundError('User')
+  }
+
+  return user
+}
+
+/**
+ * Provision a user into the organization
+ *
+ * Creates the platform user if needed (same path as SSO just-in-time
+ * provisioning) and adds the organization membership. As with SSO login,
+ * only emails in the provider's domains are accepted, since an existing
+ * account with the email is attached to the organization.
+ *
+ * @throws {ApiError} 400 with scimType invalidValue for emails outside the provider's domains
+ */
+export async function createScimUser(
+  organizationId: string,
+  provider: Pick<SSOProvider, 'id' | 'domains'>,
+  input: ScimUserInput
+): Promise<ScimUser> {
+  const email = (input.emails?.find((entry) => entry.primary)?.value ?? input.emails?.[0]?.value ?? input.userName)
+    .toLowerCase()
+    .trim()
+
+  const emailDomain = email.split('@')[1] ?? ''
+  if (!provider.domains.some((domain) => domain.toLowerCase() === emailDomain)) {
+    throw badRequestError(`Email domain ${emailDomain || '(none)'} is not allowed for this identity provider`, {
+      scimType: 'invalidValue',
+    })
+  }
+
+  if (await membershipRepository.isEmailAlreadyMember(email, organizationId)) {
+    throw conflictError(`User ${email} already exists`)
+  }
+
+  const provisioned = await autoProvisionSSOUser(organizationId, provider.id, {
+    email,
+    first_name: input.name?.givenName ?? '',
+    last_name: input.name?.familyName ?? '',
+    idp_user_id: input.userName,
+    idp_attributes: { source: 'scim', externalId: input.externalId ?? null },
+  })
+
+  if (!provisioned.success || !provisioned.userId) {
+    throw internalError(provisioned.error || 'Failed to provision user')
+  }
+
+  if (input.externalId) {
+    await membershipRepository.updateMemberExternalId(organizationId, provisioned.userId, input.externalId)
+  }
+
+  if (input.active === false) {
+    await membershipRepository.deactivateOrganizationMember(organizationId, provisioned.userId)
+  }
+
+  const department = getScimDepartment(input)
+  if (department) {
+    await syncScimDepartment(organizationId, provisioned.userId, department)
+  }
+
+  await logActivity({
+    organization_id: organizationId,
+    user_id: provisioned.userId,
+    action_type: ActivityActions.MEMBER_JOINED,
+    entity_type: EntityTypes.MEMBER,
+    entity_id: provisioned.userId,
+    description: `${email} was provisioned by the identity provider`,
+    metadata: { source: 'scim' },
+  })
+
+  return getScimUser(organizationId, provisioned.userId)
+}
+
+/**
+ * Persist the writable differences between two versions of a SCIM User
+ * (active, externalId, name, enterprise department). userName and emails
+ * are owned by the account and are not changed through SCIM.
+ */
+async function saveScimUserChanges(
+  organizationId: string,
+  current: ScimUser,
+  next: {
+    active?: unknown
+    externalId?: unknown
+    displayName?: unknown
+    name?: unknown
+  }
+): Promise<ScimUser> {
+  const userId = current.id
+  const active = next.active === undefined ? current.active : toScimBoolean(next.active)
+
+  if (active !== current.active) {
+    const member = await membershipRepository.getOrganizationMember(organizationId, userId)
+    if (!active && member?.role === 'owner') {
+      throw badRequestError('Organization owners cannot be deactivated through SCIM', { scimType: 'mutability' })
+    }
+
+    if (active) {
+      await membershipRepository.reactivateOrganizationMember(organizationId, userId)
+    } else {
+      await membershipRepository.deactivateOrganizationMember(organizationId, userId)
+    }
+
+    await logActivity({
+      organization_id: organizationId,
+      user_id: userId,
+      action_type: active ? ActivityActions.MEMBER_REACTIVATED : ActivityActions.MEMBER_DEACTIVATED,
+      entity_type: EntityTypes.MEMBER,
+      entity_id: userId,
+      description: `${current.userName} was ${active ? 'reactivated' : 'deactivated'} by the identity provider`,
+      metadata: { source: 'scim' },
+    })
+  }
+
+  const externalId = typeof next.externalId === 'string' && next.externalId ? next.externalId : undefined
+  if (externalId !== current.externalId) {
+    await membershipRepository.updateMemberExternalId(organizationId, userId, externalId ?? null)
+  }
+
+  const name = isScimObject(next.name) ? next.name : {}
+  const givenName = typeof name.givenName === 'string' ? name.givenName.trim() : ''
+  const familyName = typeof name.familyName === 'string' ? name.familyName.trim() : ''
+  const fullName =
+    [givenName, familyName].filter(Boolean).join(' ') ||
+    (typeof name.formatted === 'string' ? name.formatted.trim() : '') ||
+    (typeof next.displayName === 'string' ? next.displayName.trim() : '')
+
+  if (fullName && fullName !== (current.name.formatted ?? '')) {
+    await userRepository.updateProfile(userId, { full_name: fullName })
+  }
+
+  const department = getScimDepartment(next)
+  if (department !== undefined) {
+    await syncScimDepartment(organizationId, userId, department)
+  }
+
+  return getScimUser(organizationId, userId)
+}
+
+/**
+ * Replace a SCIM User (PUT)
+ */
+export async function replaceScimUser(
+  organizationId: string,
+  userId: string,
+  input: ScimUserInput
+): Promise<ScimUser> {
+  const current = await getScimUser(organizationId, userId)
+  return saveScimUserChanges(organizationId, current, {
+    ...input,
+    active: input.active ?? true,
+  })
+}
+
+/**
+ * Apply PATCH operations to a SCIM User
+ */
+export async function patchScimUser(
+  organizationId: string,
+  userId: string,
+  operations: ScimPatchOperation[]
+): Promise<ScimUser> {
+  const current = await getScimUser(organizationId, userId)
+  return saveScimUserChanges(organizationId, current, applyScimPatch(current, operations))
+}
+
+/**
+ * Deprovision a user (DELETE) - removes the organization membership
+ */
+export async function deleteScimUser(organizationId: string, userId: string): Promise<void> {
+  const member = await membershipRepository.getOrganizationMember(organizationId, userId)
+
+  if (!member) {
+    throw notFoundError('User')
+  }
+
+  if (member.role === 'owner') {
+    throw badRequestError('Organization owners cannot be removed through SCIM', { scimType: 'mutability' })
+  }
+
+  await membershipRepository.removeOrganizationMember(organizationId, userId)
+
+  await logActivity({
+    organization_id: organizationId,
+    user_id: userId,
+    action_type: ActivityActions.MEMBER_REMOVED,
+    entity_type: EntityTypes.MEMBER,
+    entity_id: userId,
+    description: `${member.profiles?.email ?? userId} was removed by the identity provider`,
+    metadata: { source: 'scim' },
+  })
+}
+
+// ============================================================================
+// Groups
+// ============================================================================
+
+/**
+ * List the organization's custom roles as SCIM Groups
+ */
+export async function listScimGroups(
+  organizationId: string,
+  options: ScimListOptions
+): Promise<ScimListResponse<ScimGroup>> {
+  const [roles, members] = await Promise.all([
+    getCustomRoles(organizationId),
+    membershipRepository.getOrganizationMembers(organizationId),
+  ])
+
+  const groups = Array.from(roles.values()).map((role) => toScimGroup(role, members))
+  return buildScimListResponse(groups, options)
+}
+
+/**
+ * Get a custom role as a SCIM Group
+ * @throws {ApiError} 404 if the role does not exist, is a system role or belongs to another organization
+ */
+export async function getScimGroup(organizationId: string, groupId: string): Promise<ScimGroup> {
+  const role = await getOrganizationRole(groupId)
+
+  if (!role || role.organization_id !== organizationId || role.is_system) {
+    throw notFoundError('Group')
+  }
+
+  const members = await membershipRepository.getOrganizationMembers(organizationId)
+  return toScimGroup(role, members)
+}
+
+/**
+ * Bring a role's members in line with the requested member IDs
+ */
+async function syncGroupMembers(
+  organizationId: string,
+  roleId: string,
+  currentIds: string[],
+  nextIds: string[]
+): Promise<void> {
+  const added = nextIds.filter((id) => !currentIds.includes(id))
+  const removed = currentIds.filter((id) => !nextIds.includes(id))
+
+  for (const userId of added) {
+    const member = await membershipRepository.getOrganizationMember(organizationId, userId)
+    if (!member) {
+      throw badRequestError(`User ${userId} is not a member of this organization`, { scimType: 'invalidValue' })
+    }
+    // Roles are only assigned to active memberships
+    if (member.deactivated_at) {
+      throw badRequestError(`User ${userId} is deactivated and can't be added to a group`, { scimType: 'invalidValue' })
+    }
+
+    const result = await assignRoleToUser(userId, organizationId, roleId)
+    if (!result.success) {
+      throw internalError(result.error || 'Failed to add group member')
+    }
+  }
+
+  for (const userId of removed) {
+    const result = await removeRoleFromUser(userId, organizationId, roleId)
+    if (!result.success) {
+      throw internalError(result.error || 'Failed to remove group member')
+    }
+  }
+
+  if (added.length > 0 || removed.length > 0) {
+    await logActivity({
+      organization_id: organizationId,
+      action_type: ActivityActions.MEMBER_ROLE_CHANGED,
+      entity_type: EntityTypes.MEMBER,
+      entity_id: roleId,
+      description: `Identity provider updated group membership (${added.length} added, ${removed.length} removed)`,
+      metadata: { source: 'scim', role_id: roleId, added, removed },
+    })
+  }
+}
+
+/**
+ * Collect member IDs from a SCIM members value
+ */
+function memberIds(members: unknown): string[] {
+  if (!Array.isArray(members)) return []
+  return Array.from(new Set(members.map(multiValueKey).filter((id): id is string => !!id)))
+}
+
+/**
+ * Create a SCIM Group as a custom role without permissions
+ * Permissions are granted to the role by organization admins
+ */
+export async function createScimGroup(
+  organizationId: string,
+  createdBy: string | null,
+  input: ScimGroupInput
+): Promise<ScimGroup> {
+  const roles = await getCustomRoles(organizationId)
+  const displayName = input.displayName.trim()
+
+  if (Array.from(roles.values()).some((role) => role.name.toLowerCase() === displayName.toLowerCase())) {
+    throw conflictError(`Group ${displayName} already exists`)
+  }
+
+  const created = await createOrganizationRole(organizationId, createdBy, {
+    name: displayName,
+    description: 'Provisioned by your identity provider',
+    permissions: [],
+    scim_external_id: input.externalId ?? null,
+  })
+
+  if (!created.success || !created.role) {
+    throw internalError(created.error || 'Failed to create group')
+  }
+
+  await syncGroupMembers(organizationId, created.role.id, [], memberIds(input.members))
+
+  return getScimGroup(organizationId, created.role.id)
+}
+
+/**
+ * Persist the writable differences between two versions of a SCIM Group
+ */
+async function saveScimGroupChanges(
+  organizationId: string,
+  current: ScimGroup,
+  next: { displayName?: unknown; externalId?: unknown; members?: unknown }
+): Promise<ScimGroup> {
+  const displayName = typeof next.displayName === 'string' ? next.displayName.trim() : current.displayName
+  const externalId = typeof next.externalId === 'string' && next.externalId ? next.externalId : undefined
+
+  if (!displayName) {
+    throw badRequestError('displayName is required', { scimType: 'invalidValue' })
+  }
+
+  if (displayName !== current.displayName || externalId !== current.externalId) {
+    const updated = await updateOrganizationRole(current.id, {
+      name: displayName,
+      scim_external_id: externalId ?? null,
+    })
+    if (!updated.success) {
+      throw internalError(updated.error || 'Failed to update group')
+    }
+  }
+
+  await syncGroupMembers(
+    organizationId,
+    current.id,
+    memberIds(current.members),
+    memberIds(next.members)
+  )
+
+  return getScimGroup(organizationId, current.id)
+}
+
+/**
+ * Replace a SCIM Group (PUT)
+ */
+export async function replaceScimGroup(
+  organizationId: string,
+  groupId: string,
+  input: ScimGroupInput
+): Promise<ScimGroup> {
+  const current = await getScimGroup(organizationId, groupId)
+  return saveScimGroupChanges(organizationId, current, { ...input, members: input.members ?? [] })
+}
+
+/**
+ * Apply PATCH operations to a SCIM Group
+ */
+export async function patchScimGroup(
+  organizationId: string,
+  groupId: string,
+  operations: ScimPatchOperation[]
+): Promise<ScimGroup> {
+  const current = await getScimGroup(organizationId, groupId)
+  return saveScimGroupChanges(organizationId, current, applyScimPatch(current, operations))
+}
+
+/**
+ * Delete a SCIM Group - unassigns the role from its members, then deletes it
+ */
+export async function deleteScimGroup(organizationId: string, groupId: string): Promise<void> {
+  const current = await getScimGroup(organizationId, groupId)
+
+  await syncGroupMembers(organizationId, current.id, memberIds(current.members), [])
+
+  const deleted = await deleteOrganizationRole(current.id)
+  if (!deleted.success) {
+    throw internalError(deleted.error || 'Failed to delete group')
+  }
+}
@@ -61,6 +61,48 @@ export type Database = {
         }
         Relationships: []
       }
+      aggregate_views: {
+        Row: {
+          aggregate: string
+          cohort_size: number
+          id: string
+          organization_id: string
+          policy: Json
+          resource_id: string | null
+          suppressed_cells: string[]
+          team_id: string | null
+          viewed_at: string
+          viewer_id: string | null
+          withheld: boolean
+        }
+        Insert: {
+          aggregate: string
+          cohort_size: number
+          id?: string
+          organization_id: string
+          policy?: Json
+          resource_id?: string | null
+          suppressed_cells?: string[]
+          team_id?: string | null
+          viewed_at?: string
+          viewer_id?: string | null
+          withheld?: boolean
+        }
+        Update: {
+          aggregate?: string
+          cohort_size?: number
+          id?: string
+          organization_id?: string
+          policy?: Json
+          resource_id?: string | null
+          suppressed_cells?: string[]
+          team_id?: string | null
+          viewed_at?: string
+          viewer_id?: string | null
+          withheld?: boolean
+        }
+        Relationships: []
+      }
       api_keys: {
         Row: {
           created_at: string
@@ -493,6 +535,47 @@ export type Database = {
         }
         Relationships: []
       }
+      content_prerequisites: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          id: string
+          min_score: number | null
+          requirement_id: string
+          requirement_type: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          id?: string
+          min_score?: number | null
+          requirement_id: string
+          requirement_type: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          id?: string
+          min_score?: number | null
+          requirement_id?: string
+          requirement_type?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_prerequisites_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coupons: {
         Row: {
           applicable_products: string[] | null
@@ -554,6 +637,7 @@ export type Database = {
           last_accessed_at: string | null
           payment_status: string | null
           progress_percentage: number | null
+          refunded_at: string | null
           stripe_session_id: string | null
           user_id: string | null
         }
@@ -566,6 +650,7 @@ export type Database = {
           last_accessed_at?: string | null
           payment_status?: string | null
           progress_percentage?: number | null
+          refunded_at?: string | null
           stripe_session_id?: string | null
           user_id?: string | null
         }
@@ -578,6 +663,7 @@ export type Database = {
           last_accessed_at?: string | null
           payment_status?: string | null
           progress_percentage?: number | null
+          refunded_at?: string | null
           stripe_session_id?: string | null
           user_id?: string | null
         }
@@ -594,6 +680,8 @@ export type Database = {
           is_preview: boolean | null
           module_id: string | null
           order_index: number
+          release_at: string | null
+          release_offset_days: number | null
           title: string
         }
         Insert: {
@@ -606,6 +694,8 @@ export type Database = {
           is_preview?: boolean | null
           module_id?: string | null
           order_index: number
+          release_at?: string | null
+          release_offset_days?: number | null
           title: string
         }
         Update: {
@@ -618,6 +708,8 @@ export type Database = {
           is_preview?: boolean | null
           module_id?: string | null
           order_index?: number
+          release_at?: string | null
+          release_offset_days?: number | null
           title?: string
         }
         Relationships: []
@@ -629,6 +721,8 @@ export type Database = {
           description: string | null
           id: string
           order_index: number
+          release_at: string | null
+          release_offset_days: number | null
           title: string
         }
         Insert: {
@@ -637,6 +731,8 @@ export type Database = {
           description?: string | null
           id?: string
           order_index: number
+          release_at?: string | null
+          release_offset_days?: number | null
           title: string
         }
         Update: {
@@ -645,10 +741,48 @@ export type Database = {
           description?: string | null
           id?: string
           order_index?: number
+          release_at?: string | null
+          release_offset_days?: number | null
           title?: string
         }
         Relationships: []
       }
+      course_prerequisites: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          id: string
+          required_course_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          id?: string
+          required_course_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          id?: string
+          required_course_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_prerequisites_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_prerequisites_required_course_id_fkey"
+            columns: ["required_course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       course_progress: {
         Row: {
           course_id: string
@@ -973,6 +1107,220 @@ export type Database = {
         }
         Relationships: []
       }
+      email_campaign_enrollments: {
+        Row: {
+          campaign_id: string
+          context: Json
+          enrolled_at: string
+          exit_reason: string | null
+          finished_at: string | null
+          id: string
+          next_position: number
+          status: string
+          user_id: string
+        }
+        Insert: {
+          campaign_id: string
+          context?: Json
+          enrolled_at?: string
+          exit_reason?: string | null
+          finished_at?: string | null
+          id?: string
+          next_position?: number
+          status?: string
+          user_id: string
+        }
+        Update: {
+          campaign_id?: string
+          context?: Json
+          enrolled_at?: string
+          exit_reason?: string | null
+          finished_at?: string | null
+          id?: string
+          next_position?: number
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_campaign_enrollments_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_campaign_steps: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          delay_hours: number
+          id: string
+          position: number
+          template_id: string
+          updated_at: string
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          delay_hours?: number
+          id?: string
+          position: number
+          template_id: string
+          updated_at?: string
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          delay_hours?: number
+          id?: string
+          position?: number
+          template_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_campaign_steps_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_campaign_steps_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_campaigns: {
+        Row: {
+          activated_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          exit_conditions: string[]
+          id: string
+          name: string
+          segment: Json
+          status: string
+          swept_until: string | null
+          trigger_config: Json
+          trigger_type: string
+          updated_at: string
+        }
+        Insert: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          exit_conditions?: string[]
+          id?: string
+          name: string
+          segment?: Json
+          status?: string
+          swept_until?: string | null
+          trigger_config?: Json
+          trigger_type: string
+          updated_at?: string
+        }
+        Update: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          exit_conditions?: string[]
+          id?: string
+          name?: string
+          segment?: Json
+          status?: string
+          swept_until?: string | null
+          trigger_config?: Json
+          trigger_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_deliveries: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          provider_message_id: string | null
+          recipients: string[]
+          sent_at: string | null
+          status: string
+          subject: string
+          template: string | null
+          transport: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          provider_message_id?: string | null
+          recipients: string[]
+          sent_at?: string | null
+          status?: string
+          subject: string
+          template?: string | null
+          transport: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          provider_message_id?: string | null
+          recipients?: string[]
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          template?: string | null
+          transport?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_delivery_events: {
+        Row: {
+          created_at: string
+          delivery_id: string
+          detail: string | null
+          id: string
+          occurred_at: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          delivery_id: string
+          detail?: string | null
+          id?: string
+          occurred_at?: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          delivery_id?: string
+          detail?: string | null
+          id?: string
+          occurred_at?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_delivery_events_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "email_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       email_preferences: {
         Row: {
           course_updates: boolean | null
@@ -981,6 +1329,8 @@ export type Database = {
           marketing: boolean | null
           payment_receipts: boolean | null
           session_reminders: boolean | null
+          suppressed_at: string | null
+          suppression_reason: string | null
           updated_at: string | null
           user_id: string
         }
@@ -991,6 +1341,8 @@ export type Database = {
           marketing?: boolean | null
           payment_receipts?: boolean | null
           session_reminders?: boolean | null
+          suppressed_at?: string | null
+          suppression_reason?: string | null
           updated_at?: string | null
           user_id: string
         }
@@ -1001,6 +1353,8 @@ export type Database = {
           marketing?: boolean | null
           payment_receipts?: boolean | null
           session_reminders?: boolean | null
+          suppressed_at?: string | null
+          suppression_reason?: string | null
           updated_at?: string | null
           user_id?: string
         }
@@ -1060,40 +1414,37 @@ export type Database = {
         }
         Relationships: []
       }
-      energy_budgets: {
+      energy_activity_library: {
         Row: {
-          activities: Json
+          category: string
+          cost: number
           created_at: string | null
-          date: string
           id: string
-          remaining_budget: number
-          total_budget: number
+          name: string
           updated_at: string | null
-          user_id: string | null
+          user_id: string
         }
         Insert: {
-          activities?: Json
+          category: string
+          cost: number
           created_at?: string | null
-          date: string
           id?: string
-          remaining_budget: number
-          total_budget?: number
+          name: string
           updated_at?: string | null
-          user_id?: string | null
+          user_id: string
         }
         Update: {
-          activities?: Json
+          category?: string
+          cost?: number
           created_at?: string | null
-          date?: string
           id?: string
-          remaining_budget?: number
-          total_budget?: number
+          name?: string
           updated_at?: string | null
-          user_id?: string | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "energy_budgets_user_id_fkey"
+            foreignKeyName: "energy_activity_library_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -1101,49 +1452,141 @@ export type Database = {
           }
         ]
       }
-      enrollments: {
+      energy_budget_templates: {
         Row: {
-          cancelled_at: string | null
-          completed_at: string | null
-          course_id: string
+          activities: Json
           created_at: string | null
-          enrolled_at: string | null
           id: string
-          progress_percentage: number | null
-          status: string
+          name: string | null
+          total_budget: number
           updated_at: string | null
           user_id: string
+          weekday: number
         }
         Insert: {
-          cancelled_at?: string | null
-          completed_at?: string | null
-          course_id: string
+          activities?: Json
           created_at?: string | null
-          enrolled_at?: string | null
           id?: string
-          progress_percentage?: number | null
-          status?: string
+          name?: string | null
+          total_budget?: number
           updated_at?: string | null
           user_id: string
+          weekday: number
         }
         Update: {
-          cancelled_at?: string | null
-          completed_at?: string | null
-          course_id?: string
+          activities?: Json
           created_at?: string | null
-          enrolled_at?: string | null
           id?: string
-          progress_percentage?: number | null
-          status?: string
+          name?: string | null
+          total_budget?: number
           updated_at?: string | null
           user_id?: string
+          weekday?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "energy_budget_templates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
       }
-      event_registrations: {
+      energy_budgets: {
         Row: {
-          attended: boolean | null
-          event_id: string | null
+          activities: Json
+          created_at: string | null
+          date: string
+          id: string
+          remaining_budget: number
+          template_id: string | null
+          total_budget: number
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          activities?: Json
+          created_at?: string | null
+          date: string
+          id?: string
+          remaining_budget: number
+          template_id?: string | null
+          total_budget?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          activities?: Json
+          created_at?: string | null
+          date?: string
+          id?: string
+          remaining_budget?: number
+          template_id?: string | null
+          total_budget?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "energy_budgets_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "energy_budget_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "energy_budgets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      enrollments: {
+        Row: {
+          cancelled_at: string | null
+          completed_at: string | null
+          course_id: string
+          created_at: string | null
+          enrolled_at: string | null
+          id: string
+          progress_percentage: number | null
+          status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          completed_at?: string | null
+          course_id: string
+          created_at?: string | null
+          enrolled_at?: string | null
+          id?: string
+          progress_percentage?: number | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          completed_at?: string | null
+          course_id?: string
+          created_at?: string | null
+          enrolled_at?: string | null
+          id?: string
+          progress_percentage?: number | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      event_registrations: {
+        Row: {
+          attended: boolean | null
+          event_id: string | null
           id: string
           registered_at: string | null
           ticket_code: string
@@ -1236,6 +1679,271 @@ export type Database = {
         }
         Relationships: []
       }
+      instructor_availability_exceptions: {
+        Row: {
+          created_at: string | null
+          date: string
+          end_time: string | null
+          id: string
+          instructor_id: string
+          is_available: boolean
+          reason: string | null
+          start_time: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          date: string
+          end_time?: string | null
+          id?: string
+          instructor_id: string
+          is_available?: boolean
+          reason?: string | null
+          start_time?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          date?: string
+          end_time?: string | null
+          id?: string
+          instructor_id?: string
+          is_available?: boolean
+          reason?: string | null
+          start_time?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "instructor_availability_exceptions_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      instructor_availability_rules: {
+        Row: {
+          created_at: string | null
+          end_time: string
+          id: string
+          instructor_id: string
+          start_time: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string | null
+          end_time: string
+          id?: string
+          instructor_id: string
+          start_time: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string | null
+          end_time?: string
+          id?: string
+          instructor_id?: string
+          start_time?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "instructor_availability_rules_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      instructor_booking_settings: {
+        Row: {
+          buffer_minutes: number
+          cancellation_window_hours: number
+          created_at: string | null
+          instructor_id: string
+          max_days_ahead: number
+          min_notice_hours: number
+          slot_interval_minutes: number
+          timezone: string
+          updated_at: string | null
+        }
+        Insert: {
+          buffer_minutes?: number
+          cancellation_window_hours?: number
+          created_at?: string | null
+          instructor_id: string
+          max_days_ahead?: number
+          min_notice_hours?: number
+          slot_interval_minutes?: number
+          timezone?: string
+          updated_at?: string | null
+        }
+        Update: {
+          buffer_minutes?: number
+          cancellation_window_hours?: number
+          created_at?: string | null
+          instructor_id?: string
+          max_days_ahead?: number
+          min_notice_hours?: number
+          slot_interval_minutes?: number
+          timezone?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "instructor_booking_settings_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      instructor_earnings: {
+        Row: {
+          course_id: string | null
+          created_at: string | null
+          description: string
+          entry_type: string
+          fee_percent: number
+          gross_amount: number
+          id: string
+          instructor_id: string
+          net_amount: number
+          occurred_at: string
+          platform_fee: number
+          source_id: string
+          source_type: string
+          statement_id: string | null
+        }
+        Insert: {
+          course_id?: string | null
+          created_at?: string | null
+          description: string
+          entry_type: string
+          fee_percent: number
+          gross_amount: number
+          id?: string
+          instructor_id: string
+          net_amount: number
+          occurred_at: string
+          platform_fee: number
+          source_id: string
+          source_type: string
+          statement_id?: string | null
+        }
+        Update: {
+          course_id?: string | null
+          created_at?: string | null
+          description?: string
+          entry_type?: string
+          fee_percent?: number
+          gross_amount?: number
+          id?: string
+          instructor_id?: string
+          net_amount?: number
+          occurred_at?: string
+          platform_fee?: number
+          source_id?: string
+          source_type?: string
+          statement_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "instructor_earnings_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "instructor_earnings_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "instructor_earnings_statement_id_fkey"
+            columns: ["statement_id"]
+            isOneToOne: false
+            referencedRelation: "instructor_payout_statements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      instructor_payout_statements: {
+        Row: {
+          created_at: string | null
+          entry_count: number
+          gross_amount: number
+          id: string
+          instructor_id: string
+          net_amount: number
+          notes: string | null
+          paid_at: string | null
+          period_end: string
+          period_start: string
+          platform_fees: number
+          refunds: number
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          entry_count?: number
+          gross_amount?: number
+          id?: string
+          instructor_id: string
+          net_amount?: number
+          notes?: string | null
+          paid_at?: string | null
+          period_end: string
+          period_start: string
+          platform_fees?: number
+          refunds?: number
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          entry_count?: number
+          gross_amount?: number
+          id?: string
+          instructor_id?: string
+          net_amount?: number
+          notes?: string | null
+          paid_at?: string | null
+          period_end?: string
+          period_start?: string
+          platform_fees?: number
+          refunds?: number
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "instructor_payout_statements_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "instructor_payout_statements_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       instructor_profiles: {
         Row: {
           approved_at: string | null
@@ -1350,6 +2058,177 @@ export type Database = {
         }
         Relationships: []
       }
+      job_schedules: {
+        Row: {
+          last_enqueued_at: string | null
+          name: string
+          next_run_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          last_enqueued_at?: string | null
+          name: string
+          next_run_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          last_enqueued_at?: string | null
+          name?: string
+          next_run_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          created_by: string | null
+          dedupe_key: string | null
+          finished_at: string | null
+          id: string
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          payload: Json
+          recurring_name: string | null
+          result: Json | null
+          run_at: string
+          started_at: string | null
+          status: string
+          timeout_seconds: number
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          created_by?: string | null
+          dedupe_key?: string | null
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          recurring_name?: string | null
+          result?: Json | null
+          run_at?: string
+          started_at?: string | null
+          status?: string
+          timeout_seconds?: number
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          created_by?: string | null
+          dedupe_key?: string | null
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          recurring_name?: string | null
+          result?: Json | null
+          run_at?: string
+          started_at?: string | null
+          status?: string
+          timeout_seconds?: number
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      learning_assignment_members: {
+        Row: {
+          assigned_at: string
+          assignment_id: string
+          completed_at: string | null
+          id: string
+          organization_id: string
+          overdue_notified_at: string | null
+          reminder_sent_at: string | null
+          user_id: string
+        }
+        Insert: {
+          assigned_at?: string
+          assignment_id: string
+          completed_at?: string | null
+          id?: string
+          organization_id: string
+          overdue_notified_at?: string | null
+          reminder_sent_at?: string | null
+          user_id: string
+        }
+        Update: {
+          assigned_at?: string
+          assignment_id?: string
+          completed_at?: string | null
+          id?: string
+          organization_id?: string
+          overdue_notified_at?: string | null
+          reminder_sent_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      learning_assignments: {
+        Row: {
+          content_type: string
+          course_id: string | null
+          created_at: string | null
+          created_by: string | null
+          credits_used: number
+          diagnostic_id: string | null
+          due_at: string | null
+          id: string
+          message: string | null
+          organization_id: string
+          reminder_days_before: number
+          target_team_ids: string[]
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          content_type: string
+          course_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          credits_used?: number
+          diagnostic_id?: string | null
+          due_at?: string | null
+          id?: string
+          message?: string | null
+          organization_id: string
+          reminder_days_before?: number
+          target_team_ids?: string[]
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          content_type?: string
+          course_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          credits_used?: number
+          diagnostic_id?: string | null
+          due_at?: string | null
+          id?: string
+          message?: string | null
+          organization_id?: string
+          reminder_days_before?: number
+          target_team_ids?: string[]
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       lesson_completions: {
         Row: {
           completed_at: string | null
@@ -1427,19 +2306,100 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
-          browser?: string | null
-          context?: Json | null
-          environment?: string | null
-          error?: Json | null
+          browser?: string | null
+          context?: Json | null
+          environment?: string | null
+          error?: Json | null
+          id?: string
+          level?: string
+          message?: string
+          request_id?: string | null
+          session_id?: string | null
+          stack?: string | null
+          timestamp?: string | null
+          url?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      notification_email_queue: {
+        Row: {
+          action_url: string | null
+          created_at: string | null
+          deliver_after: string
+          id: string
+          kind: string
+          message: string
+          notification_id: string | null
+          reason: string
+          sent_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          action_url?: string | null
+          created_at?: string | null
+          deliver_after: string
+          id?: string
+          kind: string
+          message: string
+          notification_id?: string | null
+          reason: string
+          sent_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          action_url?: string | null
+          created_at?: string | null
+          deliver_after?: string
           id?: string
-          level?: string
+          kind?: string
           message?: string
-          request_id?: string | null
-          session_id?: string | null
-          stack?: string | null
-          timestamp?: string | null
-          url?: string | null
-          user_id?: string | null
+          notification_id?: string | null
+          reason?: string
+          sent_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          channels: Json
+          created_at: string | null
+          digest_day_of_week: number
+          digest_frequency: string
+          digest_time: string
+          quiet_hours_enabled: boolean
+          quiet_hours_end: string
+          quiet_hours_start: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          channels?: Json
+          created_at?: string | null
+          digest_day_of_week?: number
+          digest_frequency?: string
+          digest_time?: string
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          channels?: Json
+          created_at?: string | null
+          digest_day_of_week?: number
+          digest_frequency?: string
+          digest_time?: string
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          updated_at?: string | null
+          user_id?: string
         }
         Relationships: []
       }
@@ -1448,6 +2408,7 @@ export type Database = {
           action_url: string | null
           created_at: string | null
           id: string
+          kind: string | null
           message: string
           read: boolean | null
           title: string
@@ -1458,6 +2419,7 @@ export type Database = {
           action_url?: string | null
           created_at?: string | null
           id?: string
+          kind?: string | null
           message: string
           read?: boolean | null
           title: string
@@ -1468,6 +2430,7 @@ export type Database = {
           action_url?: string | null
           created_at?: string | null
           id?: string
+          kind?: string | null
           message?: string
           read?: boolean | null
           title?: string
@@ -1512,6 +2475,7 @@ export type Database = {
           created_at: string | null
           currency: string | null
           id: string
+          refunded_at: string | null
           status: string
           stripe_customer_id: string | null
           stripe_payment_intent_id: string | null
@@ -1523,6 +2487,7 @@ export type Database = {
           created_at?: string | null
           currency?: string | null
           id?: string
+          refunded_at?: string | null
           status: string
           stripe_customer_id?: string | null
           stripe_payment_intent_id?: string | null
@@ -1534,6 +2499,7 @@ export type Database = {
           created_at?: string | null
           currency?: string | null
           id?: string
+          refunded_at?: string | null
           status?: string
           stripe_customer_id?: string | null
           stripe_payment_intent_id?: string | null
@@ -1580,34 +2546,70 @@ export type Database = {
       }
       organization_members: {
         Row: {
+          deactivated_at: string | null
           id: string
           invited_by: string | null
           joined_at: string | null
           organization_id: string | null
           role: string
           role_id: string | null
+          scim_external_id: string | null
+          team_id: string | null
           user_id: string | null
         }
         Insert: {
+          deactivated_at?: string | null
           id?: string
           invited_by?: string | null
           joined_at?: string | null
           organization_id?: string | null
           role: string
           role_id?: string | null
+          scim_external_id?: string | null
+          team_id?: string | null
           user_id?: string | null
         }
         Update: {
+          deactivated_at?: string | null
           id?: string
           invited_by?: string | null
           joined_at?: string | null
           organization_id?: string | null
           role?: string
           role_id?: string | null
+          scim_external_id?: string | null
+          team_id?: string | null
           user_id?: string | null
         }
         Relationships: []
       }
+      organization_privacy_settings: {
+        Row: {
+          min_cohort_size: number
+          noise_epsilon: number | null
+          organization_id: string
+          small_cell_handling: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          min_cohort_size?: number
+          noise_epsilon?: number | null
+          organization_id: string
+          small_cell_handling?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          min_cohort_size?: number
+          noise_epsilon?: number | null
+          organization_id?: string
+          small_cell_handling?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       organization_roles: {
         Row: {
           color: string | null
@@ -1620,6 +2622,7 @@ export type Database = {
           name: string
           organization_id: string
           permissions: string[]
+          scim_external_id: string | null
           updated_at: string | null
         }
         Insert: {
@@ -1633,6 +2636,7 @@ export type Database = {
           name: string
           organization_id: string
           permissions?: string[]
+          scim_external_id?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -1646,6 +2650,49 @@ export type Database = {
           name?: string
           organization_id?: string
           permissions?: string[]
+          scim_external_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      organization_teams: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          external_id: string | null
+          id: string
+          kind: string
+          manager_id: string | null
+          name: string
+          organization_id: string
+          parent_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          external_id?: string | null
+          id?: string
+          kind?: string
+          manager_id?: string | null
+          name: string
+          organization_id: string
+          parent_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          external_id?: string | null
+          id?: string
+          kind?: string
+          manager_id?: string | null
+          name?: string
+          organization_id?: string
+          parent_id?: string | null
           updated_at?: string | null
         }
         Relationships: []
@@ -1797,14 +2844,66 @@ export type Database = {
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string | null
+          endpoint: string
+          expiration_time: string | null
+          failure_count: number
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          updated_at: string | null
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string | null
+          endpoint: string
+          expiration_time?: string | null
+          failure_count?: number
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          updated_at?: string | null
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string | null
+          endpoint?: string
+          expiration_time?: string | null
+          failure_count?: number
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          updated_at?: string | null
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quiz_attempts: {
         Row: {
           answers: Json
           completed_at: string | null
           id: string
           passed: boolean
+          questions: Json | null
           quiz_id: string | null
           score: number
+          started_at: string | null
           user_id: string | null
         }
         Insert: {
@@ -1812,8 +2911,10 @@ export type Database = {
           completed_at?: string | null
           id?: string
           passed: boolean
+          questions?: Json | null
           quiz_id?: string | null
           score: number
+          started_at?: string | null
           user_id?: string | null
         }
         Update: {
@@ -1821,32 +2922,127 @@ export type Database = {
           completed_at?: string | null
           id?: string
           passed?: boolean
+          questions?: Json | null
           quiz_id?: string | null
           score?: number
+          started_at?: string | null
           user_id?: string | null
         }
         Relationships: []
       }
+      quiz_bank_questions: {
+        Row: {
+          bank_id: string
+          correct_answer: Json
+          created_at: string | null
+          explanation: string | null
+          id: string
+          items: Json | null
+          options: Json | null
+          partial_credit: boolean | null
+          points: number
+          question: string
+          tags: string[]
+          tolerance: number | null
+          type: string
+          updated_at: string | null
+        }
+        Insert: {
+          bank_id: string
+          correct_answer: Json
+          created_at?: string | null
+          explanation?: string | null
+          id?: string
+          items?: Json | null
+          options?: Json | null
+          partial_credit?: boolean | null
+          points?: number
+          question: string
+          tags?: string[]
+          tolerance?: number | null
+          type: string
+          updated_at?: string | null
+        }
+        Update: {
+          bank_id?: string
+          correct_answer?: Json
+          created_at?: string | null
+          explanation?: string | null
+          id?: string
+          items?: Json | null
+          options?: Json | null
+          partial_credit?: boolean | null
+          points?: number
+          question?: string
+          tags?: string[]
+          tolerance?: number | null
+          type?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      quiz_question_banks: {
+        Row: {
+          course_id: string | null
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          tags: string[]
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          course_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          tags?: string[]
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          course_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          tags?: string[]
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       quizzes: {
         Row: {
           id: string
           lesson_id: string | null
           passing_score: number | null
+          question_pools: Json
           questions: Json
+          shuffle_options: boolean
+          shuffle_questions: boolean
           title: string
         }
         Insert: {
           id?: string
           lesson_id?: string | null
           passing_score?: number | null
+          question_pools?: Json
           questions: Json
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           title: string
         }
         Update: {
           id?: string
           lesson_id?: string | null
           passing_score?: number | null
+          question_pools?: Json
           questions?: Json
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           title?: string
         }
         Relationships: []
@@ -1883,6 +3079,47 @@ export type Database = {
           }
         ]
       }
+      reminder_deliveries: {
+        Row: {
+          created_at: string | null
+          email_delivered: boolean
+          id: string
+          local_date: string
+          method: string
+          push_delivered: number
+          timezone: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          email_delivered?: boolean
+          id?: string
+          local_date: string
+          method: string
+          push_delivered?: number
+          timezone: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          email_delivered?: boolean
+          id?: string
+          local_date?: string
+          method?: string
+          push_delivered?: number
+          timezone?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       resource_downloads: {
         Row: {
           downloaded_at: string | null
@@ -1978,6 +3215,8 @@ export type Database = {
       }
       scheduled_emails: {
         Row: {
+          campaign_enrollment_id: string | null
+          campaign_step_id: string | null
           created_at: string | null
           error: string | null
           id: string
@@ -1989,6 +3228,8 @@ export type Database = {
           type: string
         }
         Insert: {
+          campaign_enrollment_id?: string | null
+          campaign_step_id?: string | null
           created_at?: string | null
           error?: string | null
           id?: string
@@ -2000,6 +3241,8 @@ export type Database = {
           type: string
         }
         Update: {
+          campaign_enrollment_id?: string | null
+          campaign_step_id?: string | null
           created_at?: string | null
           error?: string | null
           id?: string
@@ -2010,7 +3253,22 @@ export type Database = {
           to?: string
           type?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_emails_campaign_enrollment_id_fkey"
+            columns: ["campaign_enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaign_enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_emails_campaign_step_id_fkey"
+            columns: ["campaign_step_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaign_steps"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       session_bookings: {
         Row: {
@@ -2044,40 +3302,67 @@ export type Database = {
       }
       sessions: {
         Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           created_at: string
           duration_minutes: number
+          ends_at: string | null
+          ics_sequence: number
           id: string
           instructor_id: string
           meeting_link: string | null
           notes: string | null
+          price_usd: number
+          refunded_at: string | null
           scheduled_at: string
           status: string
           student_id: string
+          timezone: string | null
           type: string
+          updated_at: string | null
         }
         Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           created_at?: string
           duration_minutes?: number
+          ends_at?: string | null
+          ics_sequence?: number
           id?: string
           instructor_id: string
           meeting_link?: string | null
           notes?: string | null
+          price_usd?: number
+          refunded_at?: string | null
           scheduled_at: string
           status?: string
           student_id: string
+          timezone?: string | null
           type: string
+          updated_at?: string | null
         }
         Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           created_at?: string
           duration_minutes?: number
+          ends_at?: string | null
+          ics_sequence?: number
           id?: string
           instructor_id?: string
           meeting_link?: string | null
           notes?: string | null
+          price_usd?: number
+          refunded_at?: string | null
           scheduled_at?: string
           status?: string
           student_id?: string
+          timezone?: string | null
           type?: string
+          updated_at?: string | null
         }
         Relationships: []
       }
@@ -2893,6 +4178,7 @@ export type Database = {
           format: string
           created_by: string | null
           created_at: string
+          team_id: string | null
         }
         Insert: {
           id?: string
@@ -2904,6 +4190,7 @@ export type Database = {
           format?: string
           created_by?: string | null
           created_at?: string
+          team_id?: string | null
         }
         Update: {
           id?: string
@@ -2915,6 +4202,7 @@ export type Database = {
           format?: string
           created_by?: string | null
           created_at?: string
+          team_id?: string | null
         }
         Relationships: []
       }
@@ -3065,7 +4353,7 @@ export type Database = {
       rate_limit_violations: {
         Row: {
           id: string
-          organization_id: string
+          organization_id: string | null
           api_key_id: string | null
           user_id: string | null
           endpoint: string
@@ -3077,11 +4365,13 @@ export type Database = {
           user_agent: string | null
           response_status: number | null
           retry_after: number | null
+          scope: string
+          identifier: string | null
           created_at: string
         }
         Insert: {
           id?: string
-          organization_id: string
+          organization_id?: string | null
           api_key_id?: string | null
           user_id?: string | null
           endpoint: string
@@ -3093,11 +4383,13 @@ export type Database = {
           user_agent?: string | null
           response_status?: number | null
           retry_after?: number | null
+          scope?: string
+          identifier?: string | null
           created_at?: string
         }
         Update: {
           id?: string
-          organization_id?: string
+          organization_id?: string | null
           api_key_id?: string | null
           user_id?: string | null
           endpoint?: string
@@ -3109,6 +4401,8 @@ export type Database = {
           user_agent?: string | null
           response_status?: number | null
           retry_after?: number | null
+          scope?: string
+          identifier?: string | null
           created_at?: string
         }
         Relationships: []
@@ -3394,8 +4688,67 @@ export type Database = {
       }
     }
     Functions: {
+      book_instructor_session: {
+        Args: {
+          p_instructor_id: string
+          p_student_id: string
+          p_scheduled_at: string
+          p_duration_minutes: number
+          p_buffer_minutes: number
+          p_timezone: string
+          p_notes?: string | null
+          p_session_id?: string | null
+        }
+        Returns: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          created_at: string
+          duration_minutes: number
+          ends_at: string | null
+          ics_sequence: number
+          id: string
+          instructor_id: string
+          meeting_link: string | null
+          notes: string | null
+          scheduled_at: string
+          status: string
+          student_id: string
+          timezone: string | null
+          type: string
+          updated_at: string | null
+        }
+      }
       increment_event_spots: { Args: { event_id: string }; Returns: undefined }
       increment_usage_metric: { Args: { p_organization_id: string; p_metric_name: string; p_increment?: number }; Returns: undefined }
+      lease_jobs: {
+        Args: {
+          p_worker_id: string
+          p_limit?: number
+          p_types?: string[] | null
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          created_by: string | null
+          dedupe_key: string | null
+          finished_at: string | null
+          id: string
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          payload: Json
+          recurring_name: string | null
+          result: Json | null
+          run_at: string
+          started_at: string | null
+          status: string
+          timeout_seconds: number
+          type: string
+          updated_at: string
+        }[]
+      }
       check_rate_limit: {
         Args: {
           p_organization_id: string
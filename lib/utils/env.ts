@@ -82,6 +82,10 @@ const OPTIONAL_ENV_VARS = {
   RESEND_API_KEY: 'Resend API key for transactional emails',
   SENTRY_DSN: 'Sentry DSN for error tracking',
   REDIS_URL: 'Redis connection URL for caching',
+  NEXT_PUBLIC_VAPID_PUBLIC_KEY: 'VAPID public key for Web Push notifications',
+  VAPID_PRIVATE_KEY: 'VAPID private key for Web Push notifications',
+  METRICS_TOKEN: 'Bearer token for scraping /api/metrics',
+  PRIVACY_NOISE_SECRET: 'Secret seeding aggregate noise (defaults to the service role key)',
 } as const
 
 type CriticalEnvVar = keyof typeof CRITICAL_ENV_VARS
@@ -185,6 +189,21 @@ export function getCronSecret(): string {
   return secret
 }
 
+/**
+ * Gets METRICS_TOKEN with validation
+ * Throws a clear error if not configured
+ */
+export function getMetricsToken(): string {
+  const token = process.env.METRICS_TOKEN
+  if (!token) {
+    throw new Error(
+      'METRICS_TOKEN environment variable is not configured. ' +
+      'The metrics endpoint requires this for authentication.'
+    )
+  }
+  return token
+}
+
 /**
  * Gets STRIPE_WEBHOOK_SECRET with validation
  * Throws a clear error if not configured
@@ -199,3 +218,18 @@ export function getStripeWebhookSecret(): string {
   }
   return secret
 }
+
+/**
+ * Gets RESEND_WEBHOOK_SECRET with validation
+ * Throws a clear error if not configured
+ */
+export function getResendWebhookSecret(): string {
+  const secret = process.env.RESEND_WEBHOOK_SECRET
+  if (!secret) {
+    throw new Error(
+      'RESEND_WEBHOOK_SECRET environment variable is not configured. ' +
+      'Resend webhooks require this for signature verification.'
+    )
+  }
+  return secret
+}
@@ -2,40 +2,66 @@
  * Reminder Skip Logic
  * Requirements: 12.2
  *
- * Utilities for determining when to skip reminders
+ * Utilities for determining when to skip reminders. Days and times are
+ * evaluated in each user's own timezone.
  */
 
 import { getSupabaseServer } from "@/lib/db";
+import { logger } from "@/lib/logging";
+import {
+  getLocalDayBounds,
+  getLocalMoment,
+  getReminderDecision,
+  resolveTimezone,
+  type ReminderMethod,
+  type ReminderSettings,
+} from "@/lib/reminders/schedule";
+
+/** A user whose reminder is due now */
+export interface ReminderCandidate {
+  userId: string;
+  email: string | null;
+  name: string | null;
+  method: ReminderMethod;
+  timezone: string;
+  /** The user's local date, YYYY-MM-DD */
+  localDate: string;
+}
 
-interface ReminderSettings {
-  enabled: boolean;
-  time: string;
-  method: "push" | "email" | "both";
-  days: number[];
-  timezone?: string;
+interface ReminderPreferencesRow {
+  user_id: string;
+  timezone: string | null;
+  metadata: { reminder_settings?: ReminderSettings } | null;
+  profile: { email: string | null; full_name: string | null } | null;
 }
 
 /**
  * Check if user has already checked in today
  * Requirements: 12.2 - Skip reminder if already checked in
+ *
+ * @param timezone - The user's timezone; "today" is their local day
  */
-export async function hasCheckedInToday(userId: string): Promise<boolean> {
+export async function hasCheckedInToday(
+  userId: string,
+  timezone: string = "UTC",
+  now: Date = new Date()
+): Promise<boolean> {
   const supabase = getSupabaseServer();
+  const { start, end } = getLocalDayBounds(getLocalMoment(now, timezone).date, timezone);
 
-  // Get today's date in user's timezone (or UTC)
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-
-  const { data: checkIns } = await supabase
+  const { data: checkIns, error } = await supabase
     .from("logs")
     .select("id")
     .eq("user_id", userId)
-    .eq("type", "check_in")
-    .gte("created_at", today.toISOString())
-    .lt("created_at", tomorrow.toISOString())
-    .limit(1);
+    .eq("context->>activity_type", "daily_check_in")
+    .gte("timestamp", start.toISOString())
+    .lt("timestamp", end.toISOString())
+    .limit(1) as { data: Array<{ id: string }> | null; error: Error | null };
+
+  if (error) {
+    logger.error("Error checking today's check-in", error, { userId });
+    throw error;
+  }
 
   return (checkIns?.length || 0) > 0;
 }
@@ -50,21 +76,24 @@ export async function hasCheckedInToday(userId: string): Promise<boolean> {
  */
 export async function shouldSendReminder(
   userId: string,
-  settings: ReminderSettings
+  settings: ReminderSettings,
+  now: Date = new Date()
 ): Promise<{ shouldSend: boolean; reason: string }> {
   // Check if reminders are enabled
   if (!settings.enabled) {
     return { shouldSend: false, reason: "Reminders are disabled" };
   }
 
+  const timezone = resolveTimezone(settings.timezone);
+
   // Check if today is a reminder day
-  const today = new Date().getDay(); // 0 = Sunday
+  const today = getLocalMoment(now, timezone).weekday; // 0 = Sunday
   if (!settings.days.includes(today)) {
     return { shouldSend: false, reason: "Today is not a reminder day" };
   }
 
   // Check if user has already checked in today
-  const alreadyCheckedIn = await hasCheckedInToday(userId);
+  const alreadyCheckedIn = await hasCheckedInToday(userId, timezone, now);
   if (alreadyCheckedIn) {
     return { shouldSend: false, reason: "User has already checked in today" };
   }
@@ -72,65 +101,54 @@ export async function shouldSendReminder(
   return { shouldSend: true, reason: "Reminder should be sent" };
 }
 
-/**
- * Check if current time matches reminder time
- * Used by cron job to determine which users to notify
- */
-export function isReminderTime(
-  reminderTime: string,
-  currentTime: Date,
-  toleranceMinutes: number = 5
-): boolean {
-  const [hours, minutes] = reminderTime.split(":").map(Number);
-  const reminderDate = new Date(currentTime);
-  reminderDate.setHours(hours, minutes, 0, 0);
-
-  const diffMs = Math.abs(currentTime.getTime() - reminderDate.getTime());
-  const diffMinutes = diffMs / (1000 * 60);
-
-  return diffMinutes <= toleranceMinutes;
-}
-
 /**
  * Get users who should receive reminders at the current time
  * Used by cron job
+ *
+ * Users whose local reminder time has arrived on a reminder day, and who
+ * have not checked in yet today.
  */
-export async function getUsersForReminder(): Promise<
-  Array<{ userId: string; method: "push" | "email" | "both" }>
-> {
+export async function getUsersForReminder(
+  now: Date = new Date()
+): Promise<ReminderCandidate[]> {
   const supabase = getSupabaseServer();
-  const now = new Date();
-  const currentHour = now.getHours().toString().padStart(2, "0");
-  const currentMinute = Math.floor(now.getMinutes() / 5) * 5; // Round to nearest 5 minutes
-  const timeWindow = `${currentHour}:${currentMinute.toString().padStart(2, "0")}`;
 
-  // Get all users with reminders enabled at this time
-  const { data: preferences } = await supabase
+  const { data: preferences, error } = await supabase
     .from("user_preferences")
-    .select("user_id, preferences");
-
-  if (!preferences) return [];
+    .select("user_id, timezone, metadata, profile:profiles(email, full_name)")
+    .eq("metadata->reminder_settings->>enabled", "true") as {
+    data: ReminderPreferencesRow[] | null;
+    error: Error | null;
+  };
+
+  if (error) {
+    logger.error("Error fetching reminder settings", error);
+    throw error;
+  }
 
-  const usersToNotify: Array<{ userId: string; method: "push" | "email" | "both" }> = [];
+  const usersToNotify: ReminderCandidate[] = [];
 
-  for (const pref of preferences as { user_id: string; preferences: Record<string, unknown> }[]) {
-    const settings = pref.preferences?.reminder_settings as ReminderSettings;
+  for (const pref of preferences || []) {
+    const settings = pref.metadata?.reminder_settings;
     if (!settings?.enabled) continue;
 
-    // Check if time matches (within 5 minute window)
-    if (!isReminderTime(settings.time, now)) continue;
+    const timezone = resolveTimezone(settings.timezone, pref.timezone);
 
-    // Check if today is a reminder day
-    const today = now.getDay();
-    if (!settings.days.includes(today)) continue;
+    // Check the local day and time
+    const decision = getReminderDecision(settings, now, timezone);
+    if (!decision.due) continue;
 
     // Check if already checked in
-    const alreadyCheckedIn = await hasCheckedInToday(pref.user_id);
+    const alreadyCheckedIn = await hasCheckedInToday(pref.user_id, timezone, now);
     if (alreadyCheckedIn) continue;
 
     usersToNotify.push({
       userId: pref.user_id,
-method: settings.method,
+      email: pref.profile?.email ?? null,
+      name: pref.profile?.full_name ?? null,
+      method: settings.method,
+      timezone,
+      localDate: decision.local.date,
     });
   }
 
@@ -10,6 +10,7 @@ import {
     slugSchema,
     urlSchema,
     datetimeSchema,
+    calendarDateSchema,
     positiveIntSchema,
     nonNegativeNumberSchema,
     paginationLimitSchema,
@@ -95,6 +96,20 @@ describe('Reusable Field Schemas', () => {
         })
     })
 
+    describe('calendarDateSchema', () => {
+        it('should accept real calendar dates', () => {
+            expect(calendarDateSchema.parse('2026-10-19')).toBe('2026-10-19')
+            expect(calendarDateSchema.parse('2028-02-29')).toBe('2028-02-29')
+        })
+
+        it('should reject days a month does not have', () => {
+            expect(() => calendarDateSchema.parse('2026-02-31')).toThrow()
+            expect(() => calendarDateSchema.parse('2026-02-29')).toThrow()
+            expect(() => calendarDateSchema.parse('2026-13-01')).toThrow()
+            expect(() => calendarDateSchema.parse('2026-1-19')).toThrow()
+        })
+    })
+
     describe('positiveIntSchema', () => {
         it('should accept positive integers', () => {
             expect(positiveIntSchema.parse(1)).toBe(1)
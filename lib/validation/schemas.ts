@@ -62,6 +62,9 @@ export const urlSchema = z.string().url('Invalid URL format')
  */
 export const datetimeSchema = z.string().datetime('Invalid datetime format')
 
+/** Time of day validation schema (HH:MM, 24-hour) */
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format')
+
 /**
  * Positive integer validation schema
  * @example 42
@@ -378,6 +381,15 @@ export const courseReviewSchema = z.object({
 // MODULE SCHEMAS
 // ============================================
 
+/**
+ * Drip release fields shared by modules and lessons
+ * Days after enrollment and/or a fixed date; the later of the two applies
+ */
+const releaseScheduleFields = {
+  release_offset_days: z.number().int('Release offset must be whole days').min(0, 'Release offset must be zero or greater').nullable().optional(),
+  release_at: datetimeSchema.nullable().optional(),
+}
+
 /**
  * Module creation schema
  * Used for creating new modules within a course
@@ -395,6 +407,7 @@ export const moduleCreateSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title must be 200 characters or less'),
   description: z.string().optional(),
   order_index: z.number().int('Order index must be an integer').min(0, 'Order index must be zero or greater'),
+  ...releaseScheduleFields,
 })
 
 /**
@@ -434,6 +447,7 @@ export const lessonCreateSchema = z.object({
   order_index: z.number().int('Order index must be an integer').min(0, 'Order index must be zero or greater'),
   is_preview: z.boolean().default(false),
   is_free: z.boolean().default(false),
+  ...releaseScheduleFields,
 })
 
 /**
@@ -459,6 +473,43 @@ export const lessonCompleteSchema = z.object({
   timeSpent: positiveIntSchema.optional(),
 })
 
+/**
+ * Content prerequisite schema
+ * A requirement a student must meet before a module or lesson unlocks
+ *
+ * @example
+ * ```typescript
+ * {
+ *   target_type: 'lesson',
+ *   target_id: '550e8400-e29b-41d4-a716-446655440000',
+ *   requirement_type: 'quiz_pass',
+ *   requirement_id: '6ba7b810-9dad-11d1-80b4-00c04fd430c8',
+ *   min_score: 80
+ * }
+ * ```
+ */
+export const contentPrerequisiteCreateSchema = z.object({
+  target_type: z.enum(['module', 'lesson']),
+  target_id: uuidSchema,
+  requirement_type: z.enum(['lesson_complete', 'module_complete', 'quiz_pass']),
+  requirement_id: uuidSchema,
+  min_score: z.number().int('Minimum score must be a whole percentage').min(0).max(100).nullable().default(null),
+}).refine((data) => data.min_score === null || data.requirement_type === 'quiz_pass', {
+  message: 'min_score only applies to quiz_pass requirements',
+  path: ['min_score'],
+}).refine((data) => data.target_id !== data.requirement_id, {
+  message: 'Content cannot require itself',
+  path: ['requirement_id'],
+})
+
+/**
+ * Course prerequisites schema
+ * Replaces the courses a student must complete before enrolling
+ */
+export const coursePrerequisitesUpdateSchema = z.object({
+  required_course_ids: z.array(uuidSchema).max(20, 'Too many prerequisite courses'),
+})
+
 // ============================================
 // EVENT SCHEMAS
 // ============================================
@@ -575,6 +626,12 @@ export const assessmentAnswersSchema = z.object({
   answers: z.record(z.string(), z.number().int('Rating must be an integer').min(1, 'Rating must be at least 1').max(5, 'Rating must be at most 5')),
 })
 
+/**
+ * Assessment comparison IDs schema
+ * Used for the comma-separated `ids` query parameter of the comparison
+ */
+export const assessmentCompareIdsSchema = z.array(uuidSchema)
+
 // ============================================
 // PAYMENT SCHEMAS
 // ============================================
@@ -617,6 +674,23 @@ export const webhookEventSchema = z.object({
   data: z.record(z.string(), z.any()),
 })
 
+/**
+ * Payout statement review schema
+ * Used by admins to approve, reject or mark an instructor payout statement as paid
+ *
+ * @example
+ * ```typescript
+ * {
+ *   action: 'approve',
+ *   notes: 'Verified against Stripe balance'
+ * }
+ * ```
+ */
+export const payoutReviewSchema = z.object({
+  action: z.enum(['approve', 'reject', 'mark_paid']),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional(),
+})
+
 // ============================================
 // ASSIGNMENT & QUIZ SCHEMAS
 // ============================================
@@ -698,23 +772,168 @@ export const quizSubmitSchema = z.object({
  * }
  * ```
  */
-/** Quiz question schema */
-export const quizQuestionSchema = z.object({
+/** Quiz answer: option text, boolean, number, option list or item-to-option map */
+export const quizAnswerSchema = z.union([
+  z.string(),
+  z.boolean(),
+  z.number(),
+  z.array(z.string()),
+  z.record(z.string(), z.string()),
+])
+
+/** Quiz question fields (answer shape is checked per type by checkQuizQuestionAnswer) */
+const quizQuestionFieldsSchema = z.object({
   id: z.string().optional(),
   question: z.string().min(1, 'Question is required'),
-  type: z.enum(['multiple_choice', 'true_false', 'short_answer']),
+  type: z.enum([
+    'multiple_choice',
+    'true_false',
+    'short_answer',
+    'multi_select',
+    'matching',
+    'ordering',
+    'numeric',
+    'fill_blank',
+  ]),
   options: z.array(z.string()).optional(),
-  correct_answer: z.union([z.string(), z.boolean()]),
+  items: z.array(z.string().min(1)).optional(),
+  correct_answer: quizAnswerSchema,
+  tolerance: z.number().min(0, 'Tolerance cannot be negative').optional(),
+  partial_credit: z.boolean().optional(),
   points: positiveIntSchema.default(1),
   explanation: z.string().optional(),
 })
 
+/**
+ * Check that a question's correct answer has the shape its type needs
+ * (skipped for partial updates that change neither the type nor the answer)
+ */
+function checkQuizQuestionAnswer(
+  question: Partial<z.infer<typeof quizQuestionFieldsSchema>>,
+  ctx: z.RefinementCtx
+) {
+  const { type, correct_answer: answer, options = [], items = [] } = question
+  if (type === undefined || answer === undefined) return
+
+  const issue = (message: string) =>
+    ctx.addIssue({ code: 'custom', message, path: ['correct_answer'] })
+  const isList = Array.isArray(answer)
+  const inOptions = (value: string) => options.includes(value)
+
+  switch (type) {
+    case 'multiple_choice':
+      if (options.length < 2) issue('Multiple choice questions need at least 2 options')
+      else if (typeof answer !== 'string' || !inOptions(answer)) issue('Correct answer must be one of the options')
+      break
+    case 'true_false':
+      if (typeof answer !== 'boolean') issue('Correct answer must be true or false')
+      break
+    case 'short_answer':
+      if (typeof answer !== 'string' || !answer.trim()) issue('Correct answer is required')
+      break
+    case 'multi_select':
+      if (options.length < 2) issue('Multi-select questions need at least 2 options')
+      else if (!isList || answer.length === 0 || !answer.every(inOptions)) {
+        issue('Select at least one correct option')
+      }
+      break
+    case 'ordering':
+      if (
+        !isList ||
+        answer.length < 2 ||
+        answer.length !== options.length ||
+        !answer.every(inOptions) ||
+        new Set(answer).size !== answer.length
+      ) {
+        issue('Correct order must list every item exactly once')
+      }
+      break
+    case 'matching':
+      if (items.length < 2 || options.length < 2) issue('Matching questions need at least 2 items and 2 options')
+      else if (
+        typeof answer !== 'object' ||
+        isList ||
+        !items.every((item) => typeof answer[item] === 'string' && inOptions(answer[item]))
+      ) {
+        issue('Every item must be matched to one of the options')
+      }
+      break
+    case 'numeric':
+      if (typeof answer !== 'number' || !Number.isFinite(answer)) issue('Correct answer must be a number')
+      break
+    case 'fill_blank':
+      if (!isList || !answer.some((accepted) => accepted.trim())) issue('Add at least one accepted answer')
+      break
+  }
+}
+
+/**
+ * Store matching options sorted rather than in the order of the items they
+ * match, so the stored order carries nothing of the answer
+ */
+function sortMatchingOptions<T extends { type?: string; options?: string[] }>(question: T): T {
+  if (question.type !== 'matching' || !question.options) return question
+  return { ...question, options: [...question.options].sort((a, b) => a.localeCompare(b)) }
+}
+
+/** Quiz question schema */
+export const quizQuestionSchema = quizQuestionFieldsSchema.superRefine(checkQuizQuestionAnswer).transform(sortMatchingOptions)
+
+/** Question bank pool a quiz draws from on each attempt */
+export const quizQuestionPoolSchema = z.object({
+  bank_id: uuidSchema,
+  draw_count: positiveIntSchema.max(100, 'Cannot draw more than 100 questions from one pool'),
+  tags: z.array(z.string().min(1)).optional(),
+})
+
 export const quizCreateSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title must be 200 characters or less'),
   passing_score: percentageSchema.default(70),
   questions: z.array(quizQuestionSchema),
+  question_pools: z.array(quizQuestionPoolSchema).max(20, 'Maximum 20 pools per quiz').optional(),
+  shuffle_questions: z.boolean().optional(),
+  shuffle_options: z.boolean().optional(),
+})
+
+/** Topic tags on question banks and bank questions */
+const questionTagsSchema = z.array(z.string().min(1).max(50)).max(20, 'Maximum 20 tags')
+
+/**
+ * Question bank schema
+ * Used by instructors to create reusable question banks
+ *
+ * @example
+ * ```typescript
+ * {
+ *   title: 'Nervous System Basics',
+ *   course_id: '550e8400-e29b-41d4-a716-446655440000',
+ *   tags: ['neurons', 'module-1']
+ * }
+ * ```
+ */
+export const questionBankSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200, 'Title must be 200 characters or less'),
+  description: z.string().max(2000).optional(),
+  course_id: uuidSchema.nullable().optional(),
+  tags: questionTagsSchema.default([]),
 })
 
+/** Question bank update schema (no defaults, so omitted fields are left unchanged) */
+export const questionBankUpdateSchema = questionBankSchema.extend({
+  tags: questionTagsSchema,
+}).partial()
+
+/** Question stored in a question bank */
+export const bankQuestionSchema = quizQuestionFieldsSchema.omit({ id: true }).extend({
+  tags: questionTagsSchema.default([]),
+}).superRefine(checkQuizQuestionAnswer).transform(sortMatchingOptions)
+
+/** Bank question update schema (no defaults, so omitted fields are left unchanged) */
+export const bankQuestionUpdateSchema = quizQuestionFieldsSchema.omit({ id: true }).extend({
+  points: positiveIntSchema,
+  tags: questionTagsSchema,
+}).partial().superRefine(checkQuizQuestionAnswer).transform(sortMatchingOptions)
+
 // ============================================
 // BLOG SCHEMAS
 // ============================================
@@ -875,6 +1094,162 @@ export const organizationRoleCreateSchema = z.object({
   is_default: z.boolean().default(false),
 })
 
+/**
+ * Organization team creation schema
+ * Used for creating departments and teams; parent_id nests the team
+ *
+ * @example
+ * ```typescript
+ * {
+ *   name: 'Platform',
+ *   kind: 'team',
+ *   parent_id: '550e8400-e29b-41d4-a716-446655440000',
+ *   manager_id: '660e8400-e29b-41d4-a716-446655440000'
+ * }
+ * ```
+ */
+export const organizationTeamCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Team name is required').max(100, 'Team name must be 100 characters or less')
+    .refine((name) => !name.includes('>'), 'Team names cannot contain ">"'),
+  kind: z.enum(['department', 'team']).default('team'),
+  parent_id: uuidSchema.nullable().optional(),
+  description: z.string().max(500, 'Description must be 500 characters or less').nullable().optional(),
+  manager_id: uuidSchema.nullable().optional(),
+  external_id: z.string().trim().min(1).max(255, 'External ID must be 255 characters or less').nullable().optional(),
+})
+
+/**
+ * Organization team update schema
+ * Used for renaming, moving and changing the manager of a team
+ */
+export const organizationTeamUpdateSchema = organizationTeamCreateSchema
+  .extend({ kind: z.enum(['department', 'team']) })
+  .partial()
+
+/**
+ * Team membership schema
+ * Used for adding members to (or removing them from) a team
+ *
+ * @example
+ * ```typescript
+ * { user_ids: ['550e8400-e29b-41d4-a716-446655440000'] }
+ * ```
+ */
+export const organizationTeamMembersSchema = z.object({
+  user_ids: z.array(uuidSchema).min(1, 'At least one member is required').max(1000),
+})
+
+/**
+ * Team import schema
+ * Used for bulk-assigning members to teams from a CSV with the columns
+ * email, team ("Department > Team"), team_external_id and manager
+ *
+ * @example
+ * ```typescript
+ * {
+ *   csv: 'email,team,manager\nada@example.com,Engineering > Platform,yes',
+ *   dry_run: true
+ * }
+ * ```
+ */
+export const organizationTeamImportSchema = z.object({
+  csv: z.string().min(1, 'CSV is required').max(2_000_000, 'CSV must be 2MB or less'),
+  dry_run: z.boolean().default(false),
+})
+
+/**
+ * Learning assignee schema
+ * Members and teams (with everything below them) to give an assignment to
+ *
+ * @example
+ * ```typescript
+ * {
+ *   user_ids: ['550e8400-e29b-41d4-a716-446655440000'],
+ *   team_ids: ['660e8400-e29b-41d4-a716-446655440000']
+ * }
+ * ```
+ */
+export const learningAssigneesSchema = z.object({
+  user_ids: z.array(uuidSchema).max(1000).default([]),
+  team_ids: z.array(uuidSchema).max(100).default([]),
+})
+
+const hasAssignees = (data: { user_ids: string[]; team_ids: string[] }) =>
+  data.user_ids.length > 0 || data.team_ids.length > 0
+
+/**
+ * Learning assignment creation schema
+ * Used for assigning a course, the NeuroElemental assessment or a diagnostic
+ * to members and teams
+ *
+ * @example
+ * ```typescript
+ * {
+ *   content_type: 'course',
+ *   course_id: '550e8400-e29b-41d4-a716-446655440000',
+ *   team_ids: ['660e8400-e29b-41d4-a716-446655440000'],
+ *   due_at: '2026-03-10T17:00:00.000Z',
+ *   reminder_days_before: 3
+ * }
+ * ```
+ */
+export const learningAssignmentCreateSchema = learningAssigneesSchema
+  .extend({
+    content_type: z.enum(['course', 'assessment', 'diagnostic']),
+    course_id: uuidSchema.optional(),
+    diagnostic_id: uuidSchema.optional(),
+    due_at: z.string().datetime().nullable().optional(),
+    reminder_days_before: z.number().int().min(0).max(30).default(3),
+    message: z.string().trim().max(1000, 'Message must be 1000 characters or less').nullable().optional(),
+  })
+  .refine(hasAssignees, { message: 'Assign at least one member or team', path: ['user_ids'] })
+  .refine((data) => data.content_type !== 'course' || !!data.course_id, {
+    message: 'course_id is required for course assignments',
+    path: ['course_id'],
+  })
+  .refine((data) => data.content_type !== 'diagnostic' || !!data.diagnostic_id, {
+    message: 'diagnostic_id is required for diagnostic assignments',
+    path: ['diagnostic_id'],
+  })
+  .refine((data) => !data.due_at || new Date(data.due_at).getTime() > Date.now(), {
+    message: 'Due date must be in the future',
+    path: ['due_at'],
+  })
+
+/**
+ * Learning assignment update schema
+ * Used for moving the due date and editing the reminder and message
+ */
+export const learningAssignmentUpdateSchema = z.object({
+  due_at: z.string().datetime().nullable().optional(),
+  reminder_days_before: z.number().int().min(0).max(30).optional(),
+  message: z.string().trim().max(1000, 'Message must be 1000 characters or less').nullable().optional(),
+})
+
+/**
+ * Schema for adding assignees to an existing learning assignment
+ */
+export const learningAssignmentMembersSchema = learningAssigneesSchema.refine(hasAssignees, {
+  message: 'Assign at least one member or team',
+  path: ['user_ids'],
+})
+
+/**
+ * Organization privacy settings update schema
+ * Used for the minimum cohort size, small-cell handling and noise applied to
+ * aggregates about members
+ *
+ * @example
+ * ```typescript
+ * { min_cohort_size: 5, small_cell_handling: 'coarsen', noise_epsilon: 1 }
+ * ```
+ */
+export const organizationPrivacySettingsSchema = z.object({
+  min_cohort_size: z.number().int().min(2, 'Minimum cohort size must be at least 2').max(50).optional(),
+  small_cell_handling: z.enum(['suppress', 'coarsen']).optional(),
+  noise_epsilon: z.number().min(0.1).max(10).nullable().optional(),
+})
+
 // ============================================
 // WAITLIST SCHEMAS
 // ============================================
@@ -1021,6 +1396,183 @@ export const notificationUpdateSchema = z.object({
   is_read: z.boolean(),
 })
 
+/**
+ * Notification bulk action schema
+ * Used for marking several notifications read or unread, or deleting them
+ *
+ * @example
+ * ```typescript
+ * {
+ *   action: 'mark_read',
+ *   ids: ['550e8400-e29b-41d4-a716-446655440000']
+ * }
+ * ```
+ */
+export const notificationBulkActionSchema = z.object({
+  action: z.enum(['mark_read', 'mark_unread', 'delete']),
+  ids: z.array(uuidSchema).min(1, 'Select at least one notification').max(100, 'At most 100 notifications at a time'),
+})
+
+/**
+ * Notification preferences update schema
+ * Channels are keyed by notification kind; anything omitted is unchanged
+ *
+ * @example
+ * ```typescript
+ * {
+ *   channels: { achievement_unlocked: { email: false, push: true } },
+ *   digest: { frequency: 'weekly', day_of_week: 1, time_of_day: '09:00' },
+ *   quiet_hours: { enabled: true, start: '22:00', end: '07:00' }
+ * }
+ * ```
+ */
+export const notificationPreferencesUpdateSchema = z.object({
+  channels: z.record(z.string(), z.object({
+    in_app: z.boolean().optional(),
+    email: z.boolean().optional(),
+    push: z.boolean().optional(),
+  })).optional(),
+  digest: z.object({
+    frequency: z.enum(['never', 'daily', 'weekly']).optional(),
+    day_of_week: z.number().int().min(0).max(6).optional(),
+    time_of_day: timeOfDaySchema.optional(),
+  }).optional(),
+  quiet_hours: z.object({
+    enabled: z.boolean().optional(),
+    start: timeOfDaySchema.optional(),
+    end: timeOfDaySchema.optional(),
+  }).optional(),
+})
+
+/**
+ * Web Push subscription schema
+ * Matches PushSubscription.toJSON() from the browser
+ *
+ * @example
+ * ```typescript
+ * {
+ *   endpoint: 'https://fcm.googleapis.com/fcm/send/abc123',
+ *   expirationTime: null,
+ *   keys: { p256dh: 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM', auth: 'tBHItJI5svbpez7KI4CCXg' }
+ * }
+ * ```
+ */
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url('Invalid push endpoint').startsWith('https://', 'Push endpoint must use HTTPS'),
+  expirationTime: z.number().int().positive().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().regex(/^[A-Za-z0-9_-]{87}=?$/, 'Invalid p256dh key'),
+    auth: z.string().regex(/^[A-Za-z0-9_-]{22}(==)?$/, 'Invalid auth secret'),
+  }),
+})
+
+/**
+ * Web Push unsubscribe schema
+ */
+export const pushUnsubscribeSchema = z.object({
+  endpoint: z.string().url('Invalid push endpoint'),
+})
+
+// ============================================
+// EMAIL TEMPLATE SCHEMAS
+// ============================================
+
+/**
+ * Email template variable declarations
+ * A bare name is accepted and stored as an untyped, optional variable
+ *
+ * @example
+ * ```typescript
+ * [
+ *   'name',
+ *   { name: 'courses', description: 'Recommended courses', type: 'list' },
+ *   { name: 'reset_link', description: 'Reset URL', required: true }
+ * ]
+ * ```
+ */
+export const emailTemplateVariablesSchema = z.array(
+  z.union([
+    z
+      .string()
+      .trim()
+      .min(1)
+      .transform((name) => ({ name, description: '' })),
+    z.object({
+      name: z.string().trim().min(1).max(100),
+      description: z.string().max(500).default(''),
+      type: z.enum(['string', 'number', 'boolean', 'date', 'list']).optional(),
+      required: z.boolean().optional(),
+      default: z.string().max(500).optional(),
+    }),
+  ])
+)
+
+// ============================================
+// EMAIL CAMPAIGN SCHEMAS
+// ============================================
+
+const campaignElementSchema = z.enum(['electric', 'fiery', 'aquatic', 'earthly', 'airy', 'metallic'])
+
+/**
+ * Email campaign schema
+ * Steps are listed in send order; each delay counts from the previous step
+ *
+ * @example
+ * ```typescript
+ * {
+ *   name: 'Assessment follow-up',
+ *   trigger_type: 'assessment_completed',
+ *   trigger_config: { element: 'fiery' },
+ *   segment: { roles: ['student'] },
+ *   exit_conditions: ['course_enrolled'],
+ *   steps: [
+ *     { template_id: '123e4567-e89b-12d3-a456-426614174000', delay_hours: 24 },
+ *     { template_id: '123e4567-e89b-12d3-a456-426614174001', delay_hours: 72 }
+ *   ]
+ * }
+ * ```
+ */
+export const emailCampaignSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  description: z.string().max(1000).nullable().optional(),
+  trigger_type: z.enum(['signup', 'assessment_completed', 'course_inactive']),
+  trigger_config: z
+    .object({
+      element: campaignElementSchema.nullable().optional(),
+      inactiveDays: z.number().int().min(1).max(365).optional(),
+      courseId: z.string().uuid().nullable().optional(),
+    })
+    .optional(),
+  segment: z
+    .object({
+      elements: z.array(campaignElementSchema).optional(),
+      roles: z.array(z.string().min(1)).optional(),
+      organizationIds: z.array(z.string().uuid()).optional(),
+    })
+    .optional(),
+  exit_conditions: z
+    .array(z.enum(['assessment_completed', 'course_enrolled', 'course_resumed', 'course_completed', 'purchased']))
+    .optional(),
+  steps: z
+    .array(
+      z.object({
+        id: z.string().uuid().optional(),
+        template_id: z.string().uuid('Choose an email template'),
+        delay_hours: z.number().int().min(0).max(24 * 365),
+      })
+    )
+    .max(20, 'A campaign can have at most 20 steps')
+    .optional(),
+})
+
+/**
+ * Email campaign update schema
+ * Any campaign field, and/or a status change
+ */
+export const emailCampaignUpdateSchema = emailCampaignSchema.partial().extend({
+  status: z.enum(['draft', 'active', 'paused', 'archived']).optional(),
+})
+
 // ============================================
 // PRODUCT SCHEMAS
 // ============================================
@@ -1317,7 +1869,7 @@ export const certificationApplicationSchema = z.object({
  * {
  *   template_id: '550e8400-e29b-41d4-a716-446655440000',
  *   name: 'Q4 Team Assessment',
- *   include_all_members: true
+ *   target_team_id: '660e8400-e29b-41d4-a716-446655440000'
  * }
  * ```
  */
@@ -1326,7 +1878,7 @@ export const createDiagnosticSchema = z.object({
   name: z.string().min(1, 'Name is required').max(255),
   description: z.string().optional(),
   target_user_ids: z.array(z.string().uuid()).optional(),
-  target_department: z.string().optional(),
+  target_team_id: z.string().uuid('Invalid team ID').optional(),
   include_all_members: z.boolean().optional(),
   anonymous_results: z.boolean().optional(),
   deadline_at: z.string().datetime().optional(),
@@ -1349,7 +1901,7 @@ export const updateDiagnosticSchema = z.object({
   description: z.string().nullable().optional(),
   status: z.enum(['draft', 'active', 'in_progress', 'completed', 'archived']).optional(),
   target_user_ids: z.array(z.string().uuid()).optional(),
-  target_department: z.string().nullable().optional(),
+  target_team_id: z.string().uuid('Invalid team ID').nullable().optional(),
   include_all_members: z.boolean().optional(),
   anonymous_results: z.boolean().optional(),
   deadline_at: z.string().datetime().nullable().optional(),
@@ -1380,6 +1932,16 @@ export const sessionBookingSchema = z.object({
   notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional(),
 })
 
+/** Timezone that Intl recognizes (IANA name such as 'Europe/Berlin') */
+const ianaTimezoneSchema = timezoneSchema.refine((timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}, 'Unknown timezone')
+
 /**
  * Session creation request schema
  * Used when booking a session via API
@@ -1397,8 +1959,96 @@ export const sessionBookingSchema = z.object({
 export const sessionCreateRequestSchema = z.object({
   instructor_id: uuidSchema,
   scheduled_at: datetimeSchema,
-  duration: positiveIntSchema.optional().default(60),
+  duration: positiveIntSchema.max(240, 'Sessions can be at most 4 hours').optional().default(60),
   notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional(),
+  timezone: ianaTimezoneSchema.optional(),
+})
+
+/**
+ * Session reschedule schema
+ *
+ * @example
+ * ```typescript
+ * { scheduled_at: '2024-01-16T15:00:00Z', timezone: 'Europe/London' }
+ * ```
+ */
+export const sessionRescheduleSchema = z.object({
+  scheduled_at: datetimeSchema,
+  timezone: ianaTimezoneSchema.optional(),
+})
+
+/**
+ * Session cancellation schema
+ */
+export const sessionCancelSchema = z.object({
+  reason: z.string().max(500, 'Reason must be 500 characters or less').optional(),
+})
+
+/**
+ * Weekly availability schema - replaces all of an instructor's weekly rules
+ *
+ * @example
+ * ```typescript
+ * {
+ *   timezone: 'America/New_York',
+ *   rules: [{ weekday: 1, start_time: '09:00', end_time: '12:00' }]
+ * }
+ * ```
+ */
+export const availabilityRulesSchema = z.object({
+  timezone: ianaTimezoneSchema.optional(),
+  rules: z
+    .array(
+      z
+        .object({
+          weekday: z.number().int().min(0).max(6),
+          start_time: timeOfDaySchema,
+          end_time: timeOfDaySchema,
+        })
+        .refine((rule) => rule.end_time > rule.start_time, {
+          message: 'End time must be after start time',
+          path: ['end_time'],
+        })
+    )
+    .max(50, 'Maximum 50 availability windows'),
+})
+
+/**
+ * Availability exception schema
+ * Without times and with is_available false, the whole day is blocked
+ *
+ * @example
+ * ```typescript
+ * { date: '2024-12-24', is_available: false, reason: 'Holiday' }
+ * { date: '2024-12-28', start_time: '10:00', end_time: '12:00', is_available: true }
+ * ```
+ */
+export const availabilityExceptionSchema = z
+  .object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+    start_time: timeOfDaySchema.optional(),
+    end_time: timeOfDaySchema.optional(),
+    is_available: z.boolean().default(false),
+    reason: z.string().max(200, 'Reason must be 200 characters or less').optional(),
+  })
+  .refine(
+    (exception) =>
+      exception.start_time && exception.end_time
+        ? exception.end_time > exception.start_time
+        : !exception.start_time && !exception.end_time && !exception.is_available,
+    { message: 'Give both a start and end time (end after start), or neither to block the whole day' }
+  )
+
+/**
+ * Instructor booking settings schema
+ */
+export const bookingSettingsSchema = z.object({
+  timezone: ianaTimezoneSchema.optional(),
+  buffer_minutes: z.number().int().min(0).max(240).optional(),
+  slot_interval_minutes: z.number().int().min(5).max(240).optional(),
+  min_notice_hours: z.number().int().min(0).max(720).optional(),
+  max_days_ahead: z.number().int().min(1).max(365).optional(),
+  cancellation_window_hours: z.number().int().min(0).max(720).optional(),
 })
 
 // ============================================
@@ -1572,6 +2222,110 @@ export const apiKeyCreateSchema = z.object({
   expiresInDays: z.number().int('Expiration must be an integer').min(1, 'Expiration must be at least 1 day').max(365, 'Expiration cannot exceed 365 days').optional(),
 })
 
+// ============================================
+// PUBLIC API (v1) SCHEMAS
+// ============================================
+
+/**
+ * Public API enrollment schema
+ * Used by POST /api/v1/enrollments to enroll an organization member in a course
+ *
+ * @example
+ * ```typescript
+ * {
+ *   user_id: '550e8400-e29b-41d4-a716-446655440000',
+ *   course_id: '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+ * }
+ * ```
+ */
+export const v1EnrollmentCreateSchema = z.object({
+  user_id: uuidSchema,
+  course_id: uuidSchema,
+})
+
+// ============================================
+// SCIM SCHEMAS
+// ============================================
+
+/**
+ * SCIM User schema
+ * Used by POST/PUT /api/scim/v2/Users. The enterprise extension's
+ * department sets the member's team; other unknown attributes are ignored.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+ *   userName: 'jane@acme.com',
+ *   externalId: '00u1abcd',
+ *   name: { givenName: 'Jane', familyName: 'Doe' },
+ *   emails: [{ value: 'jane@acme.com', primary: true }],
+ *   active: true
+ * }
+ * ```
+ */
+export const scimUserSchema = z.object({
+  schemas: z.array(z.string()).optional(),
+  userName: z.string().trim().min(1, 'userName is required').max(255, 'userName must be 255 characters or less'),
+  externalId: z.string().max(255, 'externalId must be 255 characters or less').optional(),
+  name: z.object({
+    givenName: z.string().max(100).optional(),
+    familyName: z.string().max(100).optional(),
+    formatted: z.string().max(200).optional(),
+  }).optional(),
+  displayName: z.string().max(200).optional(),
+  emails: z.array(z.object({
+    value: emailSchema,
+    primary: z.boolean().optional(),
+    type: z.string().optional(),
+  })).optional(),
+  active: z.boolean().optional(),
+  'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User': z.object({
+    department: z.string().max(255, 'department must be 255 characters or less').optional(),
+  }).optional(),
+})
+
+/**
+ * SCIM Group schema
+ * Used by POST/PUT /api/scim/v2/Groups
+ *
+ * @example
+ * ```typescript
+ * {
+ *   schemas: ['urn:ietf:params:scim:schemas:core:2.0:Group'],
+ *   displayName: 'Engineering',
+ *   members: [{ value: '550e8400-e29b-41d4-a716-446655440000' }]
+ * }
+ * ```
+ */
+export const scimGroupSchema = z.object({
+  schemas: z.array(z.string()).optional(),
+  displayName: z.string().trim().min(1, 'displayName is required').max(100, 'displayName must be 100 characters or less'),
+  externalId: z.string().max(255, 'externalId must be 255 characters or less').optional(),
+  members: z.array(z.object({ value: z.string().min(1) })).optional(),
+})
+
+/**
+ * SCIM PatchOp schema
+ * Used by PATCH /api/scim/v2/Users/[id] and /api/scim/v2/Groups/[id]
+ *
+ * @example
+ * ```typescript
+ * {
+ *   schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+ *   Operations: [{ op: 'replace', path: 'active', value: false }]
+ * }
+ * ```
+ */
+export const scimPatchSchema = z.object({
+  schemas: z.array(z.string()).optional(),
+  Operations: z.array(z.object({
+    op: z.string().min(1, 'op is required'),
+    path: z.string().optional(),
+    value: z.unknown().optional(),
+  })).min(1, 'At least one operation is required').max(100, 'Too many operations'),
+})
+
 // ============================================
 // SEARCH SCHEMAS
 // ============================================
@@ -1675,6 +2429,76 @@ export const emailPreferencesUpdateSchema = z.object({
   payment_receipts: z.boolean().optional().default(true),
 })
 
+// ============================================
+// ENERGY BUDGET PLANNING SCHEMAS
+// ============================================
+
+/** Calendar date validation schema (YYYY-MM-DD), rejecting days a month doesn't have */
+export const calendarDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`)
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  }, 'Date must be a valid calendar date')
+
+/** Activity category in an energy budget */
+const energyActivityCategorySchema = z.enum(['work', 'social', 'chore', 'regeneration'])
+
+/**
+ * Energy activity schema (positive cost drains, negative regenerates)
+ *
+ * @example
+ * ```typescript
+ * { id: 'a1', name: 'Standup', cost: 10, category: 'work' }
+ * ```
+ */
+export const energyActivitySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  cost: z.number().int().min(-100).max(100),
+  category: energyActivityCategorySchema,
+})
+
+/**
+ * Saved library activity schema
+ *
+ * @example
+ * ```typescript
+ * { name: 'Commute', cost: 10, category: 'chore' }
+ * ```
+ */
+export const energyLibraryActivitySchema = energyActivitySchema.omit({ id: true })
+
+/**
+ * Recurring weekly energy budget template schema
+ *
+ * @example
+ * ```typescript
+ * {
+ *   weekday: 1, // Monday
+ *   name: 'Office day',
+ *   total_budget: 100,
+ *   activities: [{ id: 'a1', name: 'Standup', cost: 10, category: 'work' }]
+ * }
+ * ```
+ */
+export const energyBudgetTemplateSchema = z.object({
+  weekday: z.number().int().min(0).max(6),
+  name: z.string().max(100).nullable().optional(),
+  total_budget: z.number().int().min(1).max(200).default(100),
+  activities: z.array(energyActivitySchema).max(50, 'Maximum 50 activities per day').default([]),
+})
+
+/**
+ * Apply weekly templates to the days of a week
+ * Days that already have a budget are kept unless overwrite is set
+ */
+export const energyWeekApplySchema = z.object({
+  week_start: calendarDateSchema,
+  overwrite: z.boolean().default(false),
+})
+
 // ============================================
 // TYPE EXPORTS
 // ============================================
@@ -1693,11 +2517,20 @@ export type BlogPostCreate = z.infer<typeof blogPostCreateSchema>
 export type BlogPostUpdate = z.infer<typeof blogPostUpdateSchema>
 export type OrganizationCreate = z.infer<typeof organizationCreateSchema>
 export type OrganizationUpdate = z.infer<typeof organizationUpdateSchema>
+export type OrganizationTeamCreate = z.infer<typeof organizationTeamCreateSchema>
+export type OrganizationTeamUpdate = z.infer<typeof organizationTeamUpdateSchema>
+export type LearningAssignmentCreate = z.infer<typeof learningAssignmentCreateSchema>
+export type LearningAssignmentUpdate = z.infer<typeof learningAssignmentUpdateSchema>
+export type OrganizationPrivacySettingsUpdate = z.infer<typeof organizationPrivacySettingsSchema>
 export type SSOLogin = z.infer<typeof ssoLoginSchema>
 export type SSOProvider = z.infer<typeof ssoProviderSchema>
 export type WebhookCreate = z.infer<typeof webhookCreateSchema>
 export type ApiKeyCreate = z.infer<typeof apiKeyCreateSchema>
+export type V1EnrollmentCreate = z.infer<typeof v1EnrollmentCreateSchema>
+export type ScimUserInput = z.infer<typeof scimUserSchema>
+export type ScimGroupInput = z.infer<typeof scimGroupSchema>
 export type SearchQuery = z.infer<typeof searchSchema>
 export type AssignmentContent = z.infer<typeof assignmentContentSchema>
 export type ReviewContent = z.infer<typeof reviewContentSchema>
 export type PasswordReset = z.infer<typeof passwordResetSchema>
+export type EnergyBudgetTemplateInput = z.infer<typeof energyBudgetTemplateSchema>
@@ -113,6 +113,20 @@ const nextConfig = {
           },
         ],
       },
+      {
+        // Service worker must never be served stale, or push handling lags behind deploys
+        source: '/sw.js',
+        headers: [
+          {
+            key: 'Content-Type',
+            value: 'application/javascript; charset=utf-8',
+          },
+          {
+            key: 'Cache-Control',
+            value: 'no-cache, no-store, must-revalidate',
+          },
+        ],
+      },
     ];
   },
 };
@@ -1,92 +1,40 @@
 /**
  * Next.js Proxy (formerly Middleware)
  * Handles rate limiting, CSRF protection, and request validation
- * Runs on the Edge runtime for all matching routes
+ * Runs on the Node.js runtime for all matching routes (the shared rate
+ * limiter uses the Redis connection)
  *
  * Note: In Next.js 16, middleware.ts was renamed to proxy.ts
  * to better reflect its purpose as a network boundary layer
  */
 
+import { getClientIP } from "@/lib/api/request-helpers";
+import { REQUEST_ID_HEADER, resolveRequestId } from "@/lib/logging/request-id";
+import {
+  applyRateLimitHeaders,
+  getRateLimitHeaders,
+  getViolationContext,
+  rateLimiter,
+  type RateLimitRule,
+} from "@/lib/rate-limit";
 import { createServerClient } from "@supabase/ssr";
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 
-// Simple in-memory rate limiter
-// In production with multiple instances, use Upstash Redis
-const ipRequests = new Map<string, { count: number; resetTime: number }>();
-
-// Rate limit configurations by route type
+// Per-IP rate limits by route type. Counted by the shared limiter, so the
+// limits hold across instances when Redis is configured.
 const RATE_LIMITS = {
   // Public API endpoints - stricter limits
-  public: { limit: 30, windowMs: 60 * 1000 }, // 30 req/min
+  public: { name: "per_minute", limit: 30, windowMs: 60 * 1000 }, // 30 req/min
   // Auth endpoints - very strict to prevent brute force
-  auth: { limit: 30, windowMs: 60 * 1000 }, // 30 req/min (relaxed for debugging)
+  auth: { name: "per_minute", limit: 30, windowMs: 60 * 1000 }, // 30 req/min (relaxed for debugging)
   // Webhooks - need higher limits for legitimate traffic
-  webhook: { limit: 100, windowMs: 60 * 1000 }, // 100 req/min
+  webhook: { name: "per_minute", limit: 100, windowMs: 60 * 1000 }, // 100 req/min
   // General API - moderate limits
-  api: { limit: 60, windowMs: 60 * 1000 }, // 60 req/min
+  api: { name: "per_minute", limit: 60, windowMs: 60 * 1000 }, // 60 req/min
   // Health checks - no rate limiting
-  health: { limit: 1000, windowMs: 60 * 1000 }, // Effectively unlimited
-};
-
-/**
- * Get client IP from request headers
- */
-function getClientIp(request: NextRequest): string {
-  return (
-    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
-    request.headers.get("x-real-ip") ||
-    "unknown"
-  );
-}
-
-/**
- * Check if request is rate limited
- */
-function checkRateLimit(
-  ip: string,
-  routeType: keyof typeof RATE_LIMITS
-): { limited: boolean; remaining: number; resetIn: number } {
-  const config = RATE_LIMITS[routeType];
-  const now = Date.now();
-  const key = `${ip}:${routeType}`;
-
-  const record = ipRequests.get(key);
-
-  // Clean up expired entries periodically
-  if (ipRequests.size > 10000) {
-    for (const [k, v] of ipRequests.entries()) {
-      if (now > v.resetTime) {
-        ipRequests.delete(k);
-      }
-    }
-  }
-
-  if (!record || now > record.resetTime) {
-    // New window
-    ipRequests.set(key, { count: 1, resetTime: now + config.windowMs });
-    return {
-      limited: false,
-      remaining: config.limit - 1,
-      resetIn: config.windowMs,
-    };
-  }
-
-  if (record.count >= config.limit) {
-    return {
-      limited: true,
-      remaining: 0,
-      resetIn: Math.max(0, record.resetTime - now),
-    };
-  }
-
-  record.count++;
-  return {
-    limited: false,
-    remaining: config.limit - record.count,
-    resetIn: Math.max(0, record.resetTime - now),
-  };
-}
+  health: { name: "per_minute", limit: 1000, windowMs: 60 * 1000 }, // Effectively unlimited
+} satisfies Record<string, RateLimitRule>;
 
 /**
  * Determine route type for rate limiting
@@ -367,29 +315,28 @@ export async function proxy(request: NextRequest) {
   }
 
   // Get client IP
-  const ip = getClientIp(request);
+  const ip = getClientIP(request) || "unknown";
 
   // Determine route type
   const routeType = getRouteType(pathname);
 
   // Check rate limit
-  const { limited, remaining, resetIn } = checkRateLimit(ip, routeType);
+  const rateLimit = await rateLimiter.check(
+    `ip:${ip}:${routeType}`,
+    [RATE_LIMITS[routeType]],
+    { violation: getViolationContext(request, "ip") }
+  );
 
-  if (limited) {
+  if (!rateLimit.allowed) {
     return NextResponse.json(
       {
         error: "Too Many Requests",
         message: "Rate limit exceeded. Please try again later.",
-        retryAfter: Math.ceil(resetIn / 1000),
+        retryAfter: rateLimit.retryAfter,
       },
       {
         status: 429,
-        headers: {
-          "Retry-After": Math.ceil(resetIn / 1000).toString(),
-          "X-RateLimit-Limit": RATE_LIMITS[routeType].limit.toString(),
-          "X-RateLimit-Remaining": "0",
-          "X-RateLimit-Reset": new Date(Date.now() + resetIn).toISOString(),
-        },
+        headers: getRateLimitHeaders(rateLimit),
       }
     );
   }
@@ -405,30 +352,26 @@ export async function proxy(request: NextRequest) {
     );
   }
 
+  // Forward the request ID so route handlers log and return the same one
+  const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+
   // Add rate limit headers to response
   let response = NextResponse.next({
     request: {
-      headers: request.headers,
+      headers: requestHeaders,
     },
   });
 
   // Refresh Supabase auth session
   response = await refreshSupabaseSession(request, response);
 
-  // Add security headers
-  response.headers.set(
-    "X-RateLimit-Limit",
-    RATE_LIMITS[routeType].limit.toString()
-  );
-  response.headers.set("X-RateLimit-Remaining", remaining.toString());
-  response.headers.set(
-    "X-RateLimit-Reset",
-    new Date(Date.now() + resetIn).toISOString()
-  );
+  // Add rate limit headers
+  applyRateLimitHeaders(response, rateLimit);
 
   // Add request ID for tracing
-  const requestId = crypto.randomUUID();
-  response.headers.set("X-Request-ID", requestId);
+  response.headers.set(REQUEST_ID_HEADER, requestId);
 
   return response;
 }
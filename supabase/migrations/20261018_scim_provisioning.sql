@@ -0,0 +1,475 @@
+/**
+ * SCIM 2.0 Provisioning
+ * Membership deactivation and IdP identifiers for users and groups
+ * provisioned through /api/scim/v2
+ */
+
+-- Memberships deactivated by the IdP keep their row (history, role) but lose access
+ALTER TABLE organization_members
+  ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS scim_external_id TEXT;
+
+-- SCIM groups map onto custom roles
+ALTER TABLE organization_roles
+  ADD COLUMN IF NOT EXISTS scim_external_id TEXT;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_org_members_active
+  ON organization_members(organization_id, user_id)
+  WHERE deactivated_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_org_members_scim_external_id
+  ON organization_members(organization_id, scim_external_id)
+  WHERE scim_external_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_org_roles_scim_external_id
+  ON organization_roles(organization_id, scim_external_id)
+  WHERE scim_external_id IS NOT NULL;
+
+-- Comments
+COMMENT ON COLUMN organization_members.deactivated_at IS 'Set when the IdP deactivates the user (SCIM active=false); deactivated members have no organization access';
+COMMENT ON COLUMN organization_members.scim_external_id IS 'IdP identifier for the user (SCIM externalId)';
+COMMENT ON COLUMN organization_roles.scim_external_id IS 'IdP identifier for the group this role is provisioned from (SCIM externalId)';
+
+-- ============================================
+-- Deactivated members lose organization access
+-- ============================================
+
+-- Permissions only come from active memberships
+CREATE OR REPLACE FUNCTION get_user_permissions(
+  p_user_id UUID,
+  p_organization_id UUID
+)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_role TEXT;
+  v_role_id UUID;
+  v_permissions TEXT[];
+BEGIN
+  -- Get user's role in organization
+  SELECT om.role, om.role_id
+  INTO v_role, v_role_id
+  FROM organization_members om
+  WHERE om.user_id = p_user_id
+    AND om.organization_id = p_organization_id
+    AND om.deactivated_at IS NULL;
+
+  -- If not an active member, return empty
+  IF v_role IS NULL THEN
+    RETURN '{}';
+  END IF;
+
+  -- If using custom role, return role's permissions
+  IF v_role_id IS NOT NULL THEN
+    SELECT permissions
+    INTO v_permissions
+    FROM organization_roles
+    WHERE id = v_role_id;
+
+    RETURN COALESCE(v_permissions, '{}');
+  END IF;
+
+  -- Otherwise return system role permissions
+  CASE v_role
+    WHEN 'owner' THEN
+      -- Owners have all permissions
+      RETURN ARRAY(SELECT code FROM permissions);
+
+    WHEN 'admin' THEN
+      -- Admins have most permissions except dangerous org operations
+      RETURN ARRAY(
+        SELECT code FROM permissions
+        WHERE code NOT IN ('org.delete', 'roles.delete')
+      );
+
+    WHEN 'member' THEN
+      -- Members have read-only permissions
+      RETURN ARRAY(
+        SELECT code FROM permissions
+        WHERE code LIKE '%.read'
+      );
+
+    ELSE
+      RETURN '{}';
+  END CASE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to check if user has permission
+CREATE OR REPLACE FUNCTION user_has_permission(
+  p_user_id UUID,
+  p_organization_id UUID,
+  p_permission_code TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_permissions TEXT[];
+BEGIN
+  v_permissions := get_user_permissions(p_user_id, p_organization_id);
+  RETURN p_permission_code = ANY(v_permissions);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Policies that grant access through organization_members only count active memberships
+DROP POLICY IF EXISTS "Org admins can view org assessments" ON assessments;
+CREATE POLICY "Org admins can view org assessments"
+  ON assessments FOR SELECT
+  USING (
+    is_organizational = true AND
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role = 'admin' AND deactivated_at IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can view their organization" ON organizations;
+CREATE POLICY "Members can view their organization"
+  ON organizations FOR SELECT
+  USING (
+    id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND deactivated_at IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view usage metrics" ON organization_usage_metrics;
+CREATE POLICY "Organization admins can view usage metrics"
+  ON organization_usage_metrics FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_usage_metrics.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can view own activity metrics" ON user_activity_metrics;
+CREATE POLICY "Members can view own activity metrics"
+  ON user_activity_metrics FOR SELECT
+  USING (
+    user_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = user_activity_metrics.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view API logs" ON api_usage_log;
+CREATE POLICY "Organization admins can view API logs"
+  ON api_usage_log FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = api_usage_log.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view reports" ON usage_reports;
+CREATE POLICY "Organization admins can view reports"
+  ON usage_reports FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = usage_reports.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can create reports" ON usage_reports;
+CREATE POLICY "Organization admins can create reports"
+  ON usage_reports FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = usage_reports.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view rate limit config" ON rate_limit_configs;
+CREATE POLICY "Organization admins can view rate limit config"
+  ON rate_limit_configs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = rate_limit_configs.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view usage" ON rate_limit_usage;
+CREATE POLICY "Organization admins can view usage"
+  ON rate_limit_usage FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = rate_limit_usage.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view violations" ON rate_limit_violations;
+CREATE POLICY "Organization admins can view violations"
+  ON rate_limit_violations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = rate_limit_violations.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view subscription" ON organization_subscriptions;
+CREATE POLICY "Organization admins can view subscription"
+  ON organization_subscriptions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_subscriptions.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view invoices" ON invoices;
+CREATE POLICY "Organization admins can view invoices"
+  ON invoices FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = invoices.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view payment methods" ON payment_methods;
+CREATE POLICY "Organization admins can view payment methods"
+  ON payment_methods FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = payment_methods.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view usage" ON usage_records;
+CREATE POLICY "Organization admins can view usage"
+  ON usage_records FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = usage_records.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can manage SSO providers" ON sso_providers;
+CREATE POLICY "Organization admins can manage SSO providers"
+  ON sso_providers FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = sso_providers.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view SSO attempts" ON sso_auth_attempts;
+CREATE POLICY "Organization admins can view SSO attempts"
+  ON sso_auth_attempts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = sso_auth_attempts.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view their SSO mappings" ON sso_user_mappings;
+CREATE POLICY "Users can view their SSO mappings"
+  ON sso_user_mappings FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = sso_user_mappings.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view their SSO sessions" ON sso_sessions;
+CREATE POLICY "Users can view their SSO sessions"
+  ON sso_sessions FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = sso_sessions.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can manage export jobs" ON audit_export_jobs;
+CREATE POLICY "Organization admins can manage export jobs"
+  ON audit_export_jobs FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = audit_export_jobs.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can manage export schedules" ON audit_export_schedules;
+CREATE POLICY "Organization admins can manage export schedules"
+  ON audit_export_schedules FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = audit_export_schedules.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view export access logs" ON audit_export_access_log;
+CREATE POLICY "Organization admins can view export access logs"
+  ON audit_export_access_log FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = audit_export_access_log.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization members can view roles" ON organization_roles;
+CREATE POLICY "Organization members can view roles"
+  ON organization_roles FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_roles.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization owners can manage roles" ON organization_roles;
+CREATE POLICY "Organization owners can manage roles"
+  ON organization_roles FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_roles.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role = 'owner'
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view role history" ON role_assignment_history;
+CREATE POLICY "Organization admins can view role history"
+  ON role_assignment_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = role_assignment_history.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can view org data access logs" ON data_access_log;
+CREATE POLICY "Organization admins can view org data access logs"
+  ON data_access_log FOR SELECT
+  USING (
+    organization_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = data_access_log.organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.deactivated_at IS NULL
+        AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Org members can view diagnostics" ON organization_diagnostics;
+CREATE POLICY "Org members can view diagnostics"
+  ON organization_diagnostics FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_diagnostics.organization_id
+      AND organization_members.user_id = auth.uid()
+      AND organization_members.deactivated_at IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Org admins can manage diagnostics" ON organization_diagnostics;
+CREATE POLICY "Org admins can manage diagnostics"
+  ON organization_diagnostics FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_diagnostics.organization_id
+      AND organization_members.user_id = auth.uid()
+      AND organization_members.deactivated_at IS NULL
+      AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Org admins can view diagnostic responses" ON diagnostic_responses;
+CREATE POLICY "Org admins can view diagnostic responses"
+  ON diagnostic_responses FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_diagnostics od
+      JOIN organization_members om ON om.organization_id = od.organization_id
+      WHERE od.id = diagnostic_responses.diagnostic_id
+      AND om.user_id = auth.uid()
+      AND om.deactivated_at IS NULL
+      AND om.role IN ('owner', 'admin')
+    )
+  );
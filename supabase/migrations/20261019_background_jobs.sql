@@ -0,0 +1,111 @@
+/**
+ * Background Jobs
+ * Durable queue for background work. A single cron endpoint enqueues the
+ * recurring jobs that are due and runs queued jobs: each run leases a batch
+ * for the job's visibility timeout, so a crashed worker's jobs are picked up
+ * again once the lease expires. Failures retry with exponential backoff and
+ * land in the dead state after the last attempt.
+ */
+
+-- Queued work
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  timeout_seconds INTEGER NOT NULL DEFAULT 300 CHECK (timeout_seconds > 0),
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,
+  locked_by TEXT,
+  dedupe_key TEXT,
+  recurring_name TEXT,
+  last_error TEXT,
+  result JSONB,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_jobs_lease ON jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_type ON jobs(type, created_at DESC);
+
+-- At most one unfinished job per dedupe key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_dedupe ON jobs(dedupe_key) WHERE dedupe_key IS NOT NULL AND status IN ('queued', 'running');
+
+-- When each recurring job was last enqueued and is due next
+CREATE TABLE IF NOT EXISTS job_schedules (
+  name TEXT PRIMARY KEY,
+  last_enqueued_at TIMESTAMPTZ,
+  next_run_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Lease due jobs to a worker. Queued jobs whose run_at has passed and running
+-- jobs whose lease expired are claimed; expired jobs already out of attempts
+-- are dead-lettered instead.
+CREATE OR REPLACE FUNCTION lease_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_types TEXT[] DEFAULT NULL
+)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE jobs
+    SET status = 'dead',
+        locked_until = NULL,
+        locked_by = NULL,
+        last_error = COALESCE(last_error, 'Lease expired'),
+        finished_at = NOW(),
+        updated_at = NOW()
+    WHERE status = 'running'
+      AND locked_until < NOW()
+      AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE jobs
+    SET status = 'running',
+        attempts = jobs.attempts + 1,
+        locked_until = NOW() + make_interval(secs => jobs.timeout_seconds),
+        locked_by = p_worker_id,
+        started_at = NOW(),
+        updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM jobs
+      WHERE ((status = 'queued' AND run_at <= NOW()) OR (status = 'running' AND locked_until < NOW()))
+        AND (p_types IS NULL OR type = ANY(p_types))
+      ORDER BY run_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING jobs.*;
+END;
+$$;
+
+-- Enable RLS
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_schedules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: admins can see the queue; the service role runs it
+CREATE POLICY "Admins can view jobs"
+  ON jobs FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = (SELECT auth.uid()) AND profiles.role = 'admin'));
+
+CREATE POLICY "Admins can view job schedules"
+  ON job_schedules FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = (SELECT auth.uid()) AND profiles.role = 'admin'));
+
+-- Comments
+COMMENT ON COLUMN jobs.type IS 'Registered job handler, e.g. webhooks.retry';
+COMMENT ON COLUMN jobs.timeout_seconds IS 'Visibility timeout: how long a lease lasts before another worker may claim the job';
+COMMENT ON COLUMN jobs.dedupe_key IS 'Enqueueing is skipped while a queued or running job has the same key';
+COMMENT ON COLUMN jobs.recurring_name IS 'Recurring definition that enqueued the job, if any';
+COMMENT ON COLUMN job_schedules.name IS 'Recurring job name from the job registry';
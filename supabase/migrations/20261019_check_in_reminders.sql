@@ -0,0 +1,74 @@
+/**
+ * Check-in Reminders
+ * Web Push subscriptions for browsers that opted in to notifications, and a
+ * per-day delivery record so the reminder cron sends at most one reminder per
+ * user per local day
+ */
+
+-- Browser push subscriptions (one row per browser endpoint)
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  expiration_time TIMESTAMPTZ,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Reminders sent, keyed by the user's local date
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  local_date DATE NOT NULL,
+  timezone TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('push', 'email', 'both')),
+  push_delivered INTEGER NOT NULL DEFAULT 0,
+  email_delivered BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_reminder_per_local_day UNIQUE (user_id, local_date)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_expiration ON push_subscriptions(expiration_time) WHERE expiration_time IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_user ON reminder_deliveries(user_id, local_date DESC);
+
+-- Reminder settings live in user_preferences.metadata; find enabled users quickly
+CREATE INDEX IF NOT EXISTS idx_user_preferences_reminders_enabled
+  ON user_preferences(((metadata->'reminder_settings'->>'enabled')))
+  WHERE (metadata->'reminder_settings'->>'enabled') = 'true';
+
+-- Enable RLS
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: users manage their own subscriptions and see their own reminders
+CREATE POLICY "Users can manage own push subscriptions"
+  ON push_subscriptions FOR ALL
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can view own reminder deliveries"
+  ON reminder_deliveries FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Admins can view reminder deliveries"
+  ON reminder_deliveries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Comments
+COMMENT ON TABLE push_subscriptions IS 'Web Push subscriptions; removed when the push service reports them gone (404/410) or they expire';
+COMMENT ON COLUMN push_subscriptions.failure_count IS 'Consecutive failed deliveries; reset on success';
+COMMENT ON TABLE reminder_deliveries IS 'Check-in reminders sent, at most one per user per local day';
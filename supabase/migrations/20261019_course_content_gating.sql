@@ -0,0 +1,101 @@
+/**
+ * Course Content Gating
+ * Drip release of modules and lessons (days after enrollment or on a fixed
+ * date), lesson/module prerequisites (complete a lesson or module, pass a
+ * quiz) and course-to-course prerequisites checked at enrollment
+ */
+
+-- Drip release: days after the student enrolled, and/or a fixed date.
+-- When both are set the later of the two applies.
+ALTER TABLE course_modules
+  ADD COLUMN IF NOT EXISTS release_offset_days INTEGER CHECK (release_offset_days >= 0),
+  ADD COLUMN IF NOT EXISTS release_at TIMESTAMPTZ;
+
+ALTER TABLE course_lessons
+  ADD COLUMN IF NOT EXISTS release_offset_days INTEGER CHECK (release_offset_days >= 0),
+  ADD COLUMN IF NOT EXISTS release_at TIMESTAMPTZ;
+
+-- Requirements a student must meet before a module or lesson unlocks
+CREATE TABLE IF NOT EXISTS content_prerequisites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('module', 'lesson')),
+  target_id UUID NOT NULL,
+  requirement_type TEXT NOT NULL CHECK (requirement_type IN ('lesson_complete', 'module_complete', 'quiz_pass')),
+  requirement_id UUID NOT NULL, -- lesson, module or quiz ID, by requirement_type
+  min_score INTEGER CHECK (min_score BETWEEN 0 AND 100), -- quiz_pass only; NULL = the quiz's passing score
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (target_type, target_id, requirement_type, requirement_id),
+  CONSTRAINT content_prerequisites_not_self CHECK (target_id <> requirement_id),
+  CONSTRAINT content_prerequisites_min_score CHECK (min_score IS NULL OR requirement_type = 'quiz_pass')
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_prerequisites_course ON content_prerequisites(course_id);
+
+-- Courses a student must have completed before enrolling in another
+CREATE TABLE IF NOT EXISTS course_prerequisites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  required_course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (course_id, required_course_id),
+  CONSTRAINT course_prerequisites_not_self CHECK (course_id <> required_course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_prerequisites_required ON course_prerequisites(required_course_id);
+
+-- RLS
+ALTER TABLE content_prerequisites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view content prerequisites"
+  ON content_prerequisites FOR SELECT
+  USING (true);
+
+CREATE POLICY "Instructors and admins can manage content prerequisites"
+  ON content_prerequisites FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'instructor')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'instructor')
+    )
+  );
+
+CREATE POLICY "Anyone can view course prerequisites"
+  ON course_prerequisites FOR SELECT
+  USING (true);
+
+CREATE POLICY "Instructors and admins can manage course prerequisites"
+  ON course_prerequisites FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'instructor')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'instructor')
+    )
+  );
+
+-- Comments
+COMMENT ON COLUMN course_modules.release_offset_days IS 'Days after enrollment before the module unlocks (drip release)';
+COMMENT ON COLUMN course_modules.release_at IS 'Fixed date the module unlocks for every student';
+COMMENT ON COLUMN course_lessons.release_offset_days IS 'Days after enrollment before the lesson unlocks (drip release)';
+COMMENT ON COLUMN course_lessons.release_at IS 'Fixed date the lesson unlocks for every student';
+COMMENT ON TABLE content_prerequisites IS 'Lesson completions, module completions or quiz scores required to unlock a module or lesson';
+COMMENT ON TABLE course_prerequisites IS 'Courses that must be completed before enrolling in a course';
@@ -0,0 +1,170 @@
+/**
+ * Diagnostic Scoring Configuration
+ * Dimensions and option scoring for the system diagnostic templates, used by
+ * the scoring engine (lib/diagnostics) to build team reports.
+ *
+ * scoring_config shape:
+ *   dimensions: [{ id, label }]
+ *   questions:  { "<question id>": { dimension, options: { "<option text>": { value (0-100), element } } } }
+ */
+
+-- Leadership Assessment
+UPDATE diagnostic_templates SET scoring_config = '{
+  "dimensions": [
+    {"id": "decisiveness", "label": "Decisiveness"},
+    {"id": "directness", "label": "Directness in conflict"},
+    {"id": "structure", "label": "Structured communication"}
+  ],
+  "questions": {
+    "1": {"dimension": "decisiveness", "options": {
+      "Quickly and intuitively": {"value": 100, "element": "fiery"},
+      "After careful analysis": {"value": 40, "element": "airy"},
+      "After consulting with others": {"value": 30, "element": "aquatic"},
+      "Based on past experience": {"value": 70, "element": "earthly"}
+    }},
+    "2": {"dimension": "directness", "options": {
+      "Address it directly": {"value": 100, "element": "fiery"},
+      "Mediate calmly": {"value": 60, "element": "aquatic"},
+      "Seek compromise": {"value": 50, "element": "earthly"},
+      "Avoid until necessary": {"value": 0, "element": "airy"}
+    }},
+    "3": {"dimension": "structure", "options": {
+      "Direct and energetic": {"value": 20, "element": "electric"},
+      "Thoughtful and detailed": {"value": 80, "element": "airy"},
+      "Warm and empathetic": {"value": 30, "element": "aquatic"},
+      "Structured and clear": {"value": 100, "element": "metallic"}
+    }}
+  }
+}'::jsonb
+WHERE type = 'leadership' AND is_system = true;
+
+-- Communication Audit
+UPDATE diagnostic_templates SET scoring_config = '{
+  "dimensions": [
+    {"id": "synchronous", "label": "Preference for live conversation"},
+    {"id": "verbal_processing", "label": "Verbal processing"},
+    {"id": "meeting_participation", "label": "Meeting participation"}
+  ],
+  "questions": {
+    "1": {"dimension": "synchronous", "options": {
+      "Send a detailed email": {"value": 0, "element": "metallic"},
+      "Have a quick call": {"value": 80, "element": "electric"},
+      "Schedule a meeting": {"value": 100, "element": "aquatic"},
+      "Use instant messaging": {"value": 40, "element": "airy"}
+    }},
+    "2": {"dimension": "verbal_processing", "options": {
+      "Visual (charts, diagrams)": {"value": 30, "element": "airy"},
+      "Written (detailed documents)": {"value": 0, "element": "metallic"},
+      "Verbal (discussions)": {"value": 100, "element": "aquatic"},
+      "Hands-on (examples)": {"value": 50, "element": "earthly"}
+    }},
+    "3": {"dimension": "meeting_participation", "options": {
+      "Lead the discussion": {"value": 100, "element": "fiery"},
+      "Listen and analyze": {"value": 30, "element": "airy"},
+      "Support others": {"value": 60, "element": "aquatic"},
+      "Take notes": {"value": 20, "element": "metallic"}
+    }}
+  }
+}'::jsonb
+WHERE type = 'communication' AND is_system = true;
+
+-- Conflict Resolution
+UPDATE diagnostic_templates SET scoring_config = '{
+  "dimensions": [
+    {"id": "assertiveness", "label": "Assertiveness"},
+    {"id": "relational_focus", "label": "Relational focus"},
+    {"id": "direct_resolution", "label": "Preference for direct resolution"}
+  ],
+  "questions": {
+    "1": {"dimension": "assertiveness", "options": {
+      "Defend my position": {"value": 100, "element": "fiery"},
+      "Seek to understand": {"value": 40, "element": "aquatic"},
+      "Find middle ground": {"value": 50, "element": "earthly"},
+      "Step back and observe": {"value": 10, "element": "airy"}
+    }},
+    "2": {"dimension": "relational_focus", "options": {
+      "It involves emotions": {"value": 70, "element": "metallic"},
+      "Facts are disputed": {"value": 20, "element": "airy"},
+      "Relationships are at risk": {"value": 100, "element": "aquatic"},
+      "Progress is blocked": {"value": 10, "element": "fiery"}
+    }},
+    "3": {"dimension": "direct_resolution", "options": {
+      "Direct conversation": {"value": 100, "element": "fiery"},
+      "Written communication": {"value": 40, "element": "metallic"},
+      "Third-party mediation": {"value": 60, "element": "earthly"},
+      "Time to cool off": {"value": 0, "element": "airy"}
+    }}
+  }
+}'::jsonb
+WHERE type = 'conflict_resolution' AND is_system = true;
+
+-- Motivation & Engagement
+UPDATE diagnostic_templates SET scoring_config = '{
+  "dimensions": [
+    {"id": "achievement_drive", "label": "Achievement drive"},
+    {"id": "public_recognition", "label": "Need for visible recognition"},
+    {"id": "need_for_variety", "label": "Need for variety"}
+  ],
+  "questions": {
+    "1": {"dimension": "achievement_drive", "options": {
+      "Tackling new challenges": {"value": 70, "element": "electric"},
+      "Achieving goals": {"value": 100, "element": "fiery"},
+      "Helping others": {"value": 30, "element": "earthly"},
+      "Learning new things": {"value": 50, "element": "airy"}
+    }},
+    "2": {"dimension": "public_recognition", "options": {
+      "Public acknowledgment": {"value": 100, "element": "fiery"},
+      "Private appreciation": {"value": 20, "element": "aquatic"},
+      "Financial rewards": {"value": 50, "element": "metallic"},
+      "Growth opportunities": {"value": 40, "element": "airy"}
+    }},
+    "3": {"dimension": "need_for_variety", "options": {
+      "Routine tasks": {"value": 100, "element": "electric"},
+      "Unclear expectations": {"value": 20, "element": "metallic"},
+      "Conflict": {"value": 40, "element": "aquatic"},
+      "Lack of autonomy": {"value": 70, "element": "airy"}
+    }}
+  }
+}'::jsonb
+WHERE type = 'motivation_engagement' AND is_system = true;
+
+-- Sales Team Optimization
+UPDATE diagnostic_templates SET scoring_config = '{
+  "dimensions": [
+    {"id": "hunting", "label": "New business focus"},
+    {"id": "resilience", "label": "Resilience to rejection"},
+    {"id": "competitiveness", "label": "Competitive drive"}
+  ],
+  "questions": {
+    "1": {"dimension": "hunting", "options": {
+      "Prospecting/outreach": {"value": 100, "element": "electric"},
+      "Building relationships": {"value": 40, "element": "aquatic"},
+      "Closing deals": {"value": 80, "element": "fiery"},
+      "Account management": {"value": 10, "element": "earthly"}
+    }},
+    "2": {"dimension": "resilience", "options": {
+      "Moving on quickly": {"value": 100, "element": "electric"},
+      "Analyzing what went wrong": {"value": 60, "element": "airy"},
+      "Seeking support": {"value": 30, "element": "aquatic"},
+      "Adjusting my approach": {"value": 80, "element": "metallic"}
+    }},
+    "3": {"dimension": "competitiveness", "options": {
+      "High-energy, competitive": {"value": 100, "element": "fiery"},
+      "Collaborative, supportive": {"value": 20, "element": "aquatic"},
+      "Independent, self-directed": {"value": 60, "element": "airy"},
+      "Structured, process-driven": {"value": 40, "element": "metallic"}
+    }}
+  }
+}'::jsonb
+WHERE type = 'sales_optimization' AND is_system = true;
+
+-- Comments
+COMMENT ON COLUMN diagnostic_templates.scoring_config IS 'Scoring rules: dimensions, per-question dimension and option values/elements (see lib/diagnostics/scoring.ts)';
+COMMENT ON COLUMN diagnostic_templates.report_template IS 'Report settings: insight thresholds and custom per-dimension insight text';
+COMMENT ON COLUMN diagnostic_responses.scores IS 'Per-participant dimension scores, element shares and primary element, computed when the diagnostic is finalized';
+COMMENT ON COLUMN organization_diagnostics.results IS 'Aggregate team report computed when the diagnostic completes or reaches its deadline';
+
+-- Deadline sweep for the finalize-diagnostics cron
+CREATE INDEX IF NOT EXISTS idx_organization_diagnostics_deadline
+  ON organization_diagnostics(deadline_at)
+  WHERE status IN ('active', 'in_progress') AND deadline_at IS NOT NULL;
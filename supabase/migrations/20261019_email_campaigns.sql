@@ -0,0 +1,89 @@
+/**
+ * Email Campaigns
+ * Admin-defined lifecycle sequences: a trigger enrolls users who match the
+ * campaign's audience segment, then ordered steps send email templates after
+ * a delay until the sequence ends or an exit condition is met. Step emails
+ * are queued in scheduled_emails, which also provides per-step stats.
+ */
+
+-- Campaign definitions
+CREATE TABLE IF NOT EXISTS email_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'paused', 'archived')),
+  trigger_type TEXT NOT NULL CHECK (trigger_type IN ('signup', 'assessment_completed', 'course_inactive')),
+  trigger_config JSONB NOT NULL DEFAULT '{}',
+  segment JSONB NOT NULL DEFAULT '{}',
+  exit_conditions TEXT[] NOT NULL DEFAULT '{}',
+  activated_at TIMESTAMPTZ,
+  swept_until TIMESTAMPTZ,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_campaigns_status ON email_campaigns(status);
+
+-- Ordered steps; each sends one email template
+CREATE TABLE IF NOT EXISTS email_campaign_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES email_campaigns(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 0),
+  delay_hours INTEGER NOT NULL DEFAULT 0 CHECK (delay_hours >= 0),
+  template_id UUID NOT NULL REFERENCES email_templates(id) ON DELETE RESTRICT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_campaign_steps_campaign ON email_campaign_steps(campaign_id, position);
+CREATE INDEX IF NOT EXISTS idx_email_campaign_steps_template ON email_campaign_steps(template_id);
+
+-- One run of a campaign for one user
+CREATE TABLE IF NOT EXISTS email_campaign_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES email_campaigns(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'exited')),
+  next_position INTEGER NOT NULL DEFAULT 0,
+  context JSONB NOT NULL DEFAULT '{}',
+  exit_reason TEXT,
+  enrolled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  UNIQUE (campaign_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_campaign_enrollments_campaign ON email_campaign_enrollments(campaign_id, status);
+CREATE INDEX IF NOT EXISTS idx_email_campaign_enrollments_user ON email_campaign_enrollments(user_id);
+
+-- Step emails go through the scheduled email queue
+ALTER TABLE scheduled_emails ADD COLUMN IF NOT EXISTS campaign_enrollment_id UUID REFERENCES email_campaign_enrollments(id) ON DELETE CASCADE;
+ALTER TABLE scheduled_emails ADD COLUMN IF NOT EXISTS campaign_step_id UUID REFERENCES email_campaign_steps(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_campaign_step ON scheduled_emails(campaign_step_id, status) WHERE campaign_step_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_campaign_enrollment ON scheduled_emails(campaign_enrollment_id) WHERE campaign_enrollment_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE email_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_campaign_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_campaign_enrollments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: admins manage campaigns; the service role runs them
+CREATE POLICY "Admins can manage email campaigns"
+  ON email_campaigns FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = (SELECT auth.uid()) AND profiles.role = 'admin'));
+
+CREATE POLICY "Admins can manage email campaign steps"
+  ON email_campaign_steps FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = (SELECT auth.uid()) AND profiles.role = 'admin'));
+
+CREATE POLICY "Admins can view email campaign enrollments"
+  ON email_campaign_enrollments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = (SELECT auth.uid()) AND profiles.role = 'admin'));
+
+-- Comments
+COMMENT ON COLUMN email_campaigns.trigger_config IS 'Trigger options: element for assessment_completed; inactiveDays and courseId for course_inactive';
+COMMENT ON COLUMN email_campaigns.segment IS 'Audience filter: elements, roles and organizationIds; an empty list matches everyone';
+COMMENT ON COLUMN email_campaigns.swept_until IS 'Trigger events up to this time have been checked for new enrollments';
+COMMENT ON COLUMN email_campaign_enrollments.next_position IS 'Position of the step scheduled next';
+COMMENT ON COLUMN email_campaign_enrollments.context IS 'Trigger details used in step emails, e.g. the inactive course';
@@ -0,0 +1,63 @@
+/**
+ * Email Deliveries
+ * A log of every email sent, whichever transport sent it, with the delivery
+ * events reported back by the provider, and suppression of addresses that
+ * hard-bounce
+ */
+
+-- One row per email sent
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transport TEXT NOT NULL CHECK (transport IN ('resend', 'smtp', 'outbox')),
+  provider_message_id TEXT,
+  template TEXT,
+  recipients TEXT[] NOT NULL,
+  subject TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'delayed', 'delivered', 'failed', 'suppressed', 'bounced', 'complained')),
+  error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_deliveries_provider_message
+  ON email_deliveries(transport, provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_created ON email_deliveries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_status ON email_deliveries(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_template ON email_deliveries(template, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_recipients ON email_deliveries USING GIN (recipients);
+
+-- What happened to each email (sent, delivered, bounced, ...)
+CREATE TABLE IF NOT EXISTS email_delivery_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID NOT NULL REFERENCES email_deliveries(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('sent', 'delayed', 'delivered', 'opened', 'clicked', 'failed', 'suppressed', 'bounced', 'complained')),
+  detail TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_delivery_events_delivery ON email_delivery_events(delivery_id, occurred_at);
+
+-- Addresses that hard-bounced are no longer mailed
+ALTER TABLE email_preferences ADD COLUMN IF NOT EXISTS suppressed_at TIMESTAMPTZ;
+ALTER TABLE email_preferences ADD COLUMN IF NOT EXISTS suppression_reason TEXT;
+
+-- Enable RLS
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_delivery_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: admins read the log; the service role writes it
+CREATE POLICY "Admins can view email deliveries"
+  ON email_deliveries FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = (SELECT auth.uid()) AND profiles.role = 'admin'));
+
+CREATE POLICY "Admins can view email delivery events"
+  ON email_delivery_events FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = (SELECT auth.uid()) AND profiles.role = 'admin'));
+
+-- Comments
+COMMENT ON COLUMN email_deliveries.template IS 'Which email this was, e.g. a built-in template slug like password-reset';
+COMMENT ON COLUMN email_deliveries.provider_message_id IS 'Message ID from the transport, used to match delivery webhooks';
+COMMENT ON COLUMN email_preferences.suppressed_at IS 'Set when the address hard-bounces; nothing is sent to it while set';
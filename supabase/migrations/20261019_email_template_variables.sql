@@ -0,0 +1,27 @@
+/**
+ * Email Template Variables
+ * Variable declarations are now objects ({ name, description, type?,
+ * required?, default? }) that templates are validated against. Convert the
+ * older plain list of names, as seeded in 20250130_cms_full_tables.sql.
+ */
+
+UPDATE email_templates
+SET variables = (
+  SELECT COALESCE(
+    jsonb_agg(
+      CASE
+        WHEN jsonb_typeof(variable) = 'string'
+          THEN jsonb_build_object('name', variable #>> '{}', 'description', '')
+        ELSE variable
+      END
+    ),
+    '[]'::jsonb
+  )
+  FROM jsonb_array_elements(email_templates.variables) AS variable
+)
+WHERE jsonb_typeof(variables) = 'array'
+  AND EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(email_templates.variables) AS variable
+    WHERE jsonb_typeof(variable) = 'string'
+  );
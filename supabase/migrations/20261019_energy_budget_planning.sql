@@ -0,0 +1,61 @@
+/**
+ * Energy Budget Planning
+ * Saved activity libraries, recurring weekly templates and links from daily
+ * budgets back to the template they were planned from
+ */
+
+-- Saved activities a user can reuse across days and templates
+CREATE TABLE IF NOT EXISTS energy_activity_library (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  cost INTEGER NOT NULL, -- positive = drain, negative = regenerate
+  category TEXT NOT NULL CHECK (category IN ('work', 'social', 'chore', 'regeneration')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_energy_activity_name_per_user UNIQUE (user_id, name)
+);
+
+-- Recurring weekly templates, one per weekday
+CREATE TABLE IF NOT EXISTS energy_budget_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  name TEXT,
+  total_budget INTEGER NOT NULL DEFAULT 100 CHECK (total_budget BETWEEN 1 AND 200),
+  activities JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_energy_budget_template_per_weekday UNIQUE (user_id, weekday)
+);
+
+-- Daily budgets created from a template
+ALTER TABLE energy_budgets
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES energy_budget_templates(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_energy_activity_library_user ON energy_activity_library(user_id);
+CREATE INDEX IF NOT EXISTS idx_energy_budget_templates_user ON energy_budget_templates(user_id);
+
+-- Enable RLS
+ALTER TABLE energy_activity_library ENABLE ROW LEVEL SECURITY;
+ALTER TABLE energy_budget_templates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own library and templates
+CREATE POLICY "Users can manage own energy activities"
+  ON energy_activity_library FOR ALL
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can manage own energy budget templates"
+  ON energy_budget_templates FOR ALL
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+-- Comments
+COMMENT ON TABLE energy_activity_library IS 'Activities a user has saved for reuse in daily budgets and weekly templates';
+COMMENT ON TABLE energy_budget_templates IS 'Recurring weekly energy budget templates (e.g. Monday: standup, gym)';
+COMMENT ON COLUMN energy_budget_templates.activities IS 'Activities planned for the weekday: [{ id, name, cost, category }]';
+COMMENT ON COLUMN energy_budgets.template_id IS 'Template the budget was planned from, if any';
@@ -0,0 +1,215 @@
+/**
+ * Instructor Availability & Session Booking
+ * Recurring weekly availability, date exceptions and booking policy per
+ * instructor, plus conflict-free booking of one-on-one sessions
+ */
+
+-- btree_gist lets the exclusion constraint combine instructor_id (=) with time ranges (&&)
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Recurring weekly availability, in the instructor's local time
+CREATE TABLE IF NOT EXISTS instructor_availability_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  instructor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT instructor_availability_rule_order CHECK (end_time > start_time)
+);
+
+-- One-off changes for a date: blocked time (or the whole day) and extra openings
+CREATE TABLE IF NOT EXISTS instructor_availability_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  instructor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  start_time TIME, -- NULL start and end = the whole day
+  end_time TIME,
+  is_available BOOLEAN NOT NULL DEFAULT false,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT instructor_availability_exception_times CHECK (
+    (start_time IS NULL AND end_time IS NULL AND NOT is_available)
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+  )
+);
+
+-- Booking policy, one row per instructor
+CREATE TABLE IF NOT EXISTS instructor_booking_settings (
+  instructor_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  buffer_minutes INTEGER NOT NULL DEFAULT 15 CHECK (buffer_minutes BETWEEN 0 AND 240),
+  slot_interval_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_interval_minutes BETWEEN 5 AND 240),
+  min_notice_hours INTEGER NOT NULL DEFAULT 24 CHECK (min_notice_hours BETWEEN 0 AND 720),
+  max_days_ahead INTEGER NOT NULL DEFAULT 60 CHECK (max_days_ahead BETWEEN 1 AND 365),
+  cancellation_window_hours INTEGER NOT NULL DEFAULT 24 CHECK (cancellation_window_hours BETWEEN 0 AND 720),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Session end time, student timezone and cancellation details
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS timezone TEXT,
+  ADD COLUMN IF NOT EXISTS ics_sequence INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+UPDATE sessions
+  SET ends_at = scheduled_at + make_interval(mins => duration_minutes)
+  WHERE ends_at IS NULL;
+
+-- Sessions booked before overlaps were checked may collide. Walk them in
+-- booking order and cancel each one that overlaps an earlier booking still
+-- kept, so the constraint below can be added; review the cancelled rows with
+-- the affected students
+DO $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  FOR v_session IN
+    SELECT id, instructor_id, scheduled_at, ends_at, created_at FROM sessions
+    WHERE status IN ('pending', 'confirmed') AND ends_at IS NOT NULL
+    ORDER BY created_at, id
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM sessions
+      WHERE instructor_id = v_session.instructor_id
+        AND status IN ('pending', 'confirmed')
+        AND ends_at IS NOT NULL
+        AND (created_at, id) < (v_session.created_at, v_session.id)
+        AND tstzrange(scheduled_at, ends_at) && tstzrange(v_session.scheduled_at, v_session.ends_at)
+    ) THEN
+      UPDATE sessions
+        SET status = 'cancelled',
+            cancelled_at = NOW(),
+            cancellation_reason = 'Cancelled automatically: overlapped an earlier booking with the same instructor',
+            updated_at = NOW()
+        WHERE id = v_session.id;
+    END IF;
+  END LOOP;
+END $$;
+
+-- Last line of defence against double booking: active sessions of an
+-- instructor may never overlap (buffers are enforced by book_instructor_session)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'sessions_no_instructor_overlap'
+      AND conrelid = 'sessions'::regclass
+  ) THEN
+    ALTER TABLE sessions
+      ADD CONSTRAINT sessions_no_instructor_overlap
+      EXCLUDE USING gist (
+        instructor_id WITH =,
+        tstzrange(scheduled_at, ends_at) WITH &&
+      ) WHERE (status IN ('pending', 'confirmed') AND ends_at IS NOT NULL);
+  END IF;
+END $$;
+
+/**
+ * Book (or move) a session if the instructor is free for it, including the
+ * buffer on either side. Bookings for the same instructor are serialized with
+ * an advisory lock so two students cannot take the same slot.
+ * Raises exclusion_violation (23P01) when the time is taken.
+ */
+CREATE OR REPLACE FUNCTION book_instructor_session(
+  p_instructor_id UUID,
+  p_student_id UUID,
+  p_scheduled_at TIMESTAMPTZ,
+  p_duration_minutes INTEGER,
+  p_buffer_minutes INTEGER,
+  p_timezone TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_session_id UUID DEFAULT NULL
+)
+RETURNS sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_ends_at TIMESTAMPTZ := p_scheduled_at + make_interval(mins => p_duration_minutes);
+  v_buffer INTERVAL := make_interval(mins => p_buffer_minutes);
+  v_session sessions;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('instructor_booking:' || p_instructor_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM sessions
+    WHERE instructor_id = p_instructor_id
+      AND status IN ('pending', 'confirmed')
+      AND (p_session_id IS NULL OR id <> p_session_id)
+      AND tstzrange(scheduled_at - v_buffer, ends_at + v_buffer) && tstzrange(p_scheduled_at, v_ends_at)
+  ) THEN
+    RAISE EXCEPTION 'Instructor is not available at this time' USING ERRCODE = '23P01';
+  END IF;
+
+  IF p_session_id IS NULL THEN
+    INSERT INTO sessions (student_id, instructor_id, scheduled_at, ends_at, duration_minutes, notes, status, type, timezone)
+    VALUES (p_student_id, p_instructor_id, p_scheduled_at, v_ends_at, p_duration_minutes, p_notes, 'pending', 'one-on-one', p_timezone)
+    RETURNING * INTO v_session;
+  ELSE
+    UPDATE sessions
+      SET scheduled_at = p_scheduled_at,
+          ends_at = v_ends_at,
+          duration_minutes = p_duration_minutes,
+          timezone = COALESCE(p_timezone, timezone),
+          ics_sequence = ics_sequence + 1,
+          updated_at = NOW()
+      WHERE id = p_session_id
+      RETURNING * INTO v_session;
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_instructor_availability_rules_instructor ON instructor_availability_rules(instructor_id, weekday);
+CREATE INDEX IF NOT EXISTS idx_instructor_availability_exceptions_instructor ON instructor_availability_exceptions(instructor_id, date);
+CREATE INDEX IF NOT EXISTS idx_sessions_instructor_time ON sessions(instructor_id, scheduled_at);
+
+-- Enable RLS
+ALTER TABLE instructor_availability_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE instructor_availability_exceptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE instructor_booking_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: availability is public to read, instructors manage their own
+CREATE POLICY "Anyone can view instructor availability"
+  ON instructor_availability_rules FOR SELECT
+  USING (true);
+
+CREATE POLICY "Instructors can manage own availability"
+  ON instructor_availability_rules FOR ALL
+  USING ((SELECT auth.uid()) = instructor_id)
+  WITH CHECK ((SELECT auth.uid()) = instructor_id);
+
+CREATE POLICY "Anyone can view instructor availability exceptions"
+  ON instructor_availability_exceptions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Instructors can manage own availability exceptions"
+  ON instructor_availability_exceptions FOR ALL
+  USING ((SELECT auth.uid()) = instructor_id)
+  WITH CHECK ((SELECT auth.uid()) = instructor_id);
+
+CREATE POLICY "Anyone can view instructor booking settings"
+  ON instructor_booking_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Instructors can manage own booking settings"
+  ON instructor_booking_settings FOR ALL
+  USING ((SELECT auth.uid()) = instructor_id)
+  WITH CHECK ((SELECT auth.uid()) = instructor_id);
+
+-- Comments
+COMMENT ON TABLE instructor_availability_rules IS 'Recurring weekly availability windows in the instructor''s timezone';
+COMMENT ON TABLE instructor_availability_exceptions IS 'Date-specific blocked time or extra availability, overriding the weekly rules';
+COMMENT ON TABLE instructor_booking_settings IS 'Per-instructor booking policy: timezone, buffers, notice and cancellation window';
+COMMENT ON COLUMN sessions.ics_sequence IS 'iCalendar SEQUENCE, incremented on every reschedule so calendar clients update the event';
+COMMENT ON FUNCTION book_instructor_session IS 'Atomically book or reschedule a session, rejecting overlaps including buffer time';
@@ -0,0 +1,107 @@
+/**
+ * Instructor Earnings Ledger
+ * Revenue-share ledger attributing course sales and paid sessions to
+ * instructors, with platform fees, refund clawbacks and monthly payout
+ * statements approved by admins
+ */
+
+-- Paid one-on-one sessions
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS price_usd NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (price_usd >= 0),
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+
+-- When a purchase was refunded, so clawbacks land in the right statement
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+ALTER TABLE course_enrollments ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+
+-- Monthly payout statements, one per instructor and month
+CREATE TABLE IF NOT EXISTS instructor_payout_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  instructor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  gross_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  platform_fees NUMERIC(10,2) NOT NULL DEFAULT 0,
+  refunds NUMERIC(10,2) NOT NULL DEFAULT 0, -- instructor share clawed back
+  net_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'paid')),
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_payout_statement_per_month UNIQUE (instructor_id, period_start)
+);
+
+-- Ledger entries: a sale per purchase, and a clawback when it is refunded
+CREATE TABLE IF NOT EXISTS instructor_earnings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  instructor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('sale', 'refund')),
+  source_type TEXT NOT NULL CHECK (source_type IN ('order_item', 'enrollment', 'session')),
+  source_id UUID NOT NULL,
+  course_id UUID REFERENCES courses(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  gross_amount NUMERIC(10,2) NOT NULL, -- negative for refunds
+  platform_fee NUMERIC(10,2) NOT NULL,
+  net_amount NUMERIC(10,2) NOT NULL,
+  fee_percent NUMERIC(5,2) NOT NULL CHECK (fee_percent BETWEEN 0 AND 100),
+  occurred_at TIMESTAMPTZ NOT NULL,
+  statement_id UUID REFERENCES instructor_payout_statements(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_instructor_earning_per_source UNIQUE (source_type, source_id, entry_type)
+);
+
+-- Revenue share configuration
+INSERT INTO platform_settings (key, value, category, description) VALUES
+  ('instructor_platform_fee_percent', '30', 'payment', 'Platform fee taken from instructor sales, in percent'),
+  ('instructor_minimum_payout', '50', 'payment', 'Minimum statement balance (USD) paid out to instructors')
+ON CONFLICT (key) DO NOTHING;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_instructor_earnings_instructor ON instructor_earnings(instructor_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_instructor_earnings_unassigned ON instructor_earnings(occurred_at) WHERE statement_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_instructor_payout_statements_status ON instructor_payout_statements(status, period_start DESC);
+
+-- Enable RLS
+ALTER TABLE instructor_earnings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE instructor_payout_statements ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: instructors read their own ledger, admins manage everything
+CREATE POLICY "Instructors can view own earnings"
+  ON instructor_earnings FOR SELECT
+  USING ((SELECT auth.uid()) = instructor_id);
+
+CREATE POLICY "Admins can manage earnings"
+  ON instructor_earnings FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Instructors can view own payout statements"
+  ON instructor_payout_statements FOR SELECT
+  USING ((SELECT auth.uid()) = instructor_id);
+
+CREATE POLICY "Admins can manage payout statements"
+  ON instructor_payout_statements FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Comments
+COMMENT ON TABLE instructor_earnings IS 'Revenue-share ledger: instructor sales and refund clawbacks with the platform fee applied';
+COMMENT ON COLUMN instructor_earnings.fee_percent IS 'Platform fee at the time of the sale, so fee changes never rewrite history';
+COMMENT ON TABLE instructor_payout_statements IS 'Monthly roll-up of an instructor''s ledger entries awaiting admin payout approval';
+COMMENT ON COLUMN sessions.price_usd IS 'Price of a paid session; completed paid sessions earn the instructor revenue';
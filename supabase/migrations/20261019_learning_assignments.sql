@@ -0,0 +1,113 @@
+/**
+ * Learning Assignments
+ * Organization admins assign a course, the NeuroElemental assessment or a
+ * diagnostic to members or teams with an optional due date. Each assignee has
+ * a row tracking completion and which reminder emails were sent.
+ */
+
+CREATE TABLE IF NOT EXISTS learning_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  content_type TEXT NOT NULL CHECK (content_type IN ('course', 'assessment', 'diagnostic')),
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE,
+  diagnostic_id UUID REFERENCES organization_diagnostics(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  message TEXT,
+  due_at TIMESTAMPTZ,
+  reminder_days_before INTEGER NOT NULL DEFAULT 3 CHECK (reminder_days_before BETWEEN 0 AND 30),
+  target_team_ids UUID[] NOT NULL DEFAULT '{}',
+  credits_used INTEGER NOT NULL DEFAULT 0 CHECK (credits_used >= 0),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT learning_assignments_content CHECK (
+    (content_type = 'course') = (course_id IS NOT NULL)
+    AND (content_type = 'diagnostic') = (diagnostic_id IS NOT NULL)
+  )
+);
+
+CREATE TABLE IF NOT EXISTS learning_assignment_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID NOT NULL REFERENCES learning_assignments(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  reminder_sent_at TIMESTAMPTZ,
+  overdue_notified_at TIMESTAMPTZ,
+
+  UNIQUE (assignment_id, user_id)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_learning_assignments_org
+  ON learning_assignments(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_learning_assignments_course
+  ON learning_assignments(course_id)
+  WHERE course_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_learning_assignments_diagnostic
+  ON learning_assignments(diagnostic_id)
+  WHERE diagnostic_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_learning_assignment_members_user_open
+  ON learning_assignment_members(user_id)
+  WHERE completed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_learning_assignment_members_open
+  ON learning_assignment_members(assignment_id)
+  WHERE completed_at IS NULL;
+
+-- RLS
+ALTER TABLE learning_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_assignment_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization admins can manage learning assignments"
+  ON learning_assignments FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = learning_assignments.organization_id
+        AND organization_members.user_id = (SELECT auth.uid())
+        AND organization_members.role IN ('owner', 'admin')
+        AND organization_members.deactivated_at IS NULL
+    )
+  );
+
+CREATE POLICY "Members can view learning assignments given to them"
+  ON learning_assignments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learning_assignment_members
+      WHERE learning_assignment_members.assignment_id = learning_assignments.id
+        AND learning_assignment_members.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY "Organization admins can manage assignees"
+  ON learning_assignment_members FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = learning_assignment_members.organization_id
+        AND organization_members.user_id = (SELECT auth.uid())
+        AND organization_members.role IN ('owner', 'admin')
+        AND organization_members.deactivated_at IS NULL
+    )
+  );
+
+CREATE POLICY "Members can view their own assignments"
+  ON learning_assignment_members FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+-- Comments
+COMMENT ON TABLE learning_assignments IS 'Courses, assessments and diagnostics assigned to organization members';
+COMMENT ON COLUMN learning_assignments.title IS 'Title of the assigned content when it was assigned';
+COMMENT ON COLUMN learning_assignments.reminder_days_before IS 'Days before due_at to email open assignees a reminder';
+COMMENT ON COLUMN learning_assignments.target_team_ids IS 'Teams whose members (and sub-teams) were assigned';
+COMMENT ON COLUMN learning_assignments.credits_used IS 'Course credits consumed enrolling assignees';
+COMMENT ON TABLE learning_assignment_members IS 'One row per assignee with completion and reminder tracking';
+COMMENT ON COLUMN learning_assignment_members.reminder_sent_at IS 'When the due-date reminder email was sent';
+COMMENT ON COLUMN learning_assignment_members.overdue_notified_at IS 'When the overdue email was sent';
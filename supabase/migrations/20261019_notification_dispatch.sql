@@ -0,0 +1,78 @@
+/**
+ * Notification Dispatch
+ * Typed notification kinds, per-user per-kind channel preferences with digest
+ * batching and quiet hours, and a queue of emails held for a digest or until
+ * quiet hours end
+ */
+
+-- Kind of notification (see lib/notifications/kinds.ts); null for older rows
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS kind TEXT;
+
+-- Channel preferences, digest and quiet hours (one row per user)
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  channels JSONB NOT NULL DEFAULT '{}'::jsonb,
+  digest_frequency TEXT NOT NULL DEFAULT 'never' CHECK (digest_frequency IN ('never', 'daily', 'weekly')),
+  digest_day_of_week SMALLINT NOT NULL DEFAULT 1 CHECK (digest_day_of_week BETWEEN 0 AND 6),
+  digest_time TEXT NOT NULL DEFAULT '09:00' CHECK (digest_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  quiet_hours_start TEXT NOT NULL DEFAULT '22:00' CHECK (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  quiet_hours_end TEXT NOT NULL DEFAULT '07:00' CHECK (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Emails waiting for the user's digest or the end of their quiet hours
+CREATE TABLE IF NOT EXISTS notification_email_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  action_url TEXT,
+  reason TEXT NOT NULL CHECK (reason IN ('digest', 'quiet_hours')),
+  deliver_after TIMESTAMPTZ NOT NULL,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_notifications_user_kind ON notifications(user_id, kind);
+CREATE INDEX IF NOT EXISTS idx_notification_email_queue_due
+  ON notification_email_queue(deliver_after)
+  WHERE sent_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notification_email_queue_user ON notification_email_queue(user_id, created_at);
+
+-- Carry over emails turned off in the older email_preferences table
+INSERT INTO notification_preferences (user_id, channels)
+SELECT
+  user_id,
+  jsonb_strip_nulls(jsonb_build_object(
+    'course_enrollment', CASE WHEN course_updates = false THEN '{"email": false}'::jsonb END,
+    'assignment_graded', CASE WHEN course_updates = false THEN '{"email": false}'::jsonb END,
+    'event_registration', CASE WHEN session_reminders = false THEN '{"email": false}'::jsonb END
+  ))
+FROM email_preferences
+WHERE user_id IS NOT NULL
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_email_queue ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: users manage their own preferences and see their own queued emails
+CREATE POLICY "Users can manage own notification preferences"
+  ON notification_preferences FOR ALL
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can view own queued notification emails"
+  ON notification_email_queue FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+-- Comments
+COMMENT ON COLUMN notifications.kind IS 'Notification kind, which decides the channels it is routed to';
+COMMENT ON COLUMN notification_preferences.channels IS 'Per-kind overrides, e.g. {"achievement_unlocked": {"email": false}}; unset channels use the kind defaults';
+COMMENT ON COLUMN notification_preferences.digest_time IS 'Local time of day (HH:MM) in the timezone from user_preferences';
+COMMENT ON TABLE notification_email_queue IS 'Notification emails held for a digest or until quiet hours end; sent_at is set when a cron run claims them';
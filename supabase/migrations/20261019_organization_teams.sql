@@ -0,0 +1,108 @@
+/**
+ * Organization Teams
+ * Nested departments and teams with managers, member assignment and IdP
+ * identifiers. Diagnostics and reports can target a team; the free-text
+ * diagnostic department is migrated onto top-level departments.
+ */
+
+-- Departments and teams; a team's subtree is everything below it through parent_id
+CREATE TABLE IF NOT EXISTS organization_teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES organization_teams(id) ON DELETE RESTRICT,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  kind TEXT NOT NULL DEFAULT 'team' CHECK (kind IN ('department', 'team')),
+  description TEXT,
+  manager_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  external_id TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT organization_teams_not_own_parent CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+-- Each member belongs to at most one team
+ALTER TABLE organization_members
+  ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES organization_teams(id) ON DELETE SET NULL;
+
+-- Diagnostics and reports scoped to a team (and its subtree)
+ALTER TABLE organization_diagnostics
+  ADD COLUMN IF NOT EXISTS target_team_id UUID REFERENCES organization_teams(id) ON DELETE SET NULL;
+
+ALTER TABLE usage_reports
+  ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES organization_teams(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_org_teams_sibling_name
+  ON organization_teams(organization_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_org_teams_external_id
+  ON organization_teams(organization_id, external_id)
+  WHERE external_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_org_teams_parent ON organization_teams(parent_id);
+CREATE INDEX IF NOT EXISTS idx_org_teams_manager
+  ON organization_teams(manager_id)
+  WHERE manager_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_org_members_team
+  ON organization_members(organization_id, team_id)
+  WHERE team_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_org_diagnostics_target_team
+  ON organization_diagnostics(target_team_id)
+  WHERE target_team_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_usage_reports_team
+  ON usage_reports(team_id)
+  WHERE team_id IS NOT NULL;
+
+-- Free-text diagnostic departments become top-level departments
+INSERT INTO organization_teams (organization_id, name, kind)
+SELECT DISTINCT organization_id, btrim(target_department), 'department'
+FROM organization_diagnostics
+WHERE NULLIF(btrim(target_department), '') IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+UPDATE organization_diagnostics d
+SET target_team_id = t.id
+FROM organization_teams t
+WHERE d.target_team_id IS NULL
+  AND t.organization_id = d.organization_id
+  AND t.parent_id IS NULL
+  AND lower(t.name) = lower(btrim(d.target_department));
+
+ALTER TABLE organization_diagnostics DROP COLUMN IF EXISTS target_department;
+
+-- RLS
+ALTER TABLE organization_teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization members can view teams"
+  ON organization_teams FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_teams.organization_id
+        AND organization_members.user_id = (SELECT auth.uid())
+        AND organization_members.deactivated_at IS NULL
+    )
+  );
+
+CREATE POLICY "Organization admins can manage teams"
+  ON organization_teams FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_teams.organization_id
+        AND organization_members.user_id = (SELECT auth.uid())
+        AND organization_members.role IN ('owner', 'admin')
+        AND organization_members.deactivated_at IS NULL
+    )
+  );
+
+-- Comments
+COMMENT ON TABLE organization_teams IS 'Departments and teams inside an organization, nested through parent_id';
+COMMENT ON COLUMN organization_teams.kind IS 'department or team; informational, both nest the same way';
+COMMENT ON COLUMN organization_teams.manager_id IS 'Manager of the team; sees analytics and reports for the team and everything below it';
+COMMENT ON COLUMN organization_teams.external_id IS 'IdP or HRIS identifier used by CSV import and the SCIM enterprise department attribute';
+COMMENT ON COLUMN organization_members.team_id IS 'Team the member belongs to';
+COMMENT ON COLUMN organization_diagnostics.target_team_id IS 'Members of this team and its subtree may respond';
+COMMENT ON COLUMN usage_reports.team_id IS 'Team (and subtree) the report covers; NULL for the whole organization';
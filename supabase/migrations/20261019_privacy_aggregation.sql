@@ -0,0 +1,88 @@
+/**
+ * Privacy-Preserving Aggregation
+ * Per-organization policy for aggregates about members (energy analytics,
+ * diagnostic results, reports): the minimum cohort size, how small cells are
+ * handled and optional noise. Every view of such an aggregate is logged.
+ */
+
+CREATE TABLE IF NOT EXISTS organization_privacy_settings (
+  organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  min_cohort_size INTEGER NOT NULL DEFAULT 5 CHECK (min_cohort_size BETWEEN 2 AND 50),
+  small_cell_handling TEXT NOT NULL DEFAULT 'suppress' CHECK (small_cell_handling IN ('suppress', 'coarsen')),
+  noise_epsilon NUMERIC CHECK (noise_epsilon IS NULL OR noise_epsilon BETWEEN 0.1 AND 10),
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS aggregate_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  viewer_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  aggregate TEXT NOT NULL CHECK (aggregate IN ('energy_analytics', 'diagnostic_results', 'report')),
+  resource_id UUID,
+  team_id UUID REFERENCES organization_teams(id) ON DELETE SET NULL,
+  cohort_size INTEGER NOT NULL CHECK (cohort_size >= 0),
+  withheld BOOLEAN NOT NULL DEFAULT FALSE,
+  suppressed_cells TEXT[] NOT NULL DEFAULT '{}',
+  policy JSONB NOT NULL DEFAULT '{}',
+  viewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_aggregate_views_org
+  ON aggregate_views(organization_id, viewed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_aggregate_views_viewer
+  ON aggregate_views(organization_id, viewer_id, viewed_at DESC);
+
+-- RLS
+ALTER TABLE organization_privacy_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE aggregate_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization members can view privacy settings"
+  ON organization_privacy_settings FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_privacy_settings.organization_id
+        AND organization_members.user_id = (SELECT auth.uid())
+        AND organization_members.deactivated_at IS NULL
+    )
+  );
+
+CREATE POLICY "Organization admins can manage privacy settings"
+  ON organization_privacy_settings FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organization_privacy_settings.organization_id
+        AND organization_members.user_id = (SELECT auth.uid())
+        AND organization_members.role IN ('owner', 'admin')
+        AND organization_members.deactivated_at IS NULL
+    )
+  );
+
+-- Views are written by the server only; admins can read the trail
+CREATE POLICY "Organization admins can view the aggregate view log"
+  ON aggregate_views FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = aggregate_views.organization_id
+        AND organization_members.user_id = (SELECT auth.uid())
+        AND organization_members.role IN ('owner', 'admin')
+        AND organization_members.deactivated_at IS NULL
+    )
+  );
+
+-- Comments
+COMMENT ON TABLE organization_privacy_settings IS 'How aggregates about an organization''s members are protected';
+COMMENT ON COLUMN organization_privacy_settings.min_cohort_size IS 'Fewest people an aggregate or cell may describe (k-anonymity)';
+COMMENT ON COLUMN organization_privacy_settings.small_cell_handling IS 'suppress hides cells under the minimum; coarsen merges them into "other"';
+COMMENT ON COLUMN organization_privacy_settings.noise_epsilon IS 'Laplace noise budget per released value; NULL adds no noise';
+COMMENT ON TABLE aggregate_views IS 'Who viewed which member aggregate, and how it was protected';
+COMMENT ON COLUMN aggregate_views.resource_id IS 'Diagnostic or report viewed; NULL for energy analytics';
+COMMENT ON COLUMN aggregate_views.withheld IS 'The cohort was under the minimum size, so nothing but its size was shown';
+COMMENT ON COLUMN aggregate_views.policy IS 'Privacy policy applied to the view';
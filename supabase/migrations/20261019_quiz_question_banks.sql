@@ -0,0 +1,65 @@
+/**
+ * Quiz Question Banks
+ * Reusable question banks tagged by course or topic, pooled quizzes that draw
+ * random questions per attempt, and per-attempt question snapshots so grading
+ * stays reproducible after the quiz or bank is edited
+ */
+
+-- Question banks
+CREATE TABLE IF NOT EXISTS quiz_question_banks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  description TEXT,
+
+  -- Scope: a bank can belong to a course, or be shared across courses by topic tags
+  course_id UUID REFERENCES courses(id) ON DELETE SET NULL,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Questions within a bank
+CREATE TABLE IF NOT EXISTS quiz_bank_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id UUID NOT NULL REFERENCES quiz_question_banks(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  type VARCHAR(30) NOT NULL, -- 'multiple_choice', 'true_false', 'short_answer'
+  options JSONB,
+  correct_answer JSONB NOT NULL,
+  points INTEGER NOT NULL DEFAULT 1 CHECK (points > 0),
+  explanation TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}', -- Topic tags used to narrow a pool within a bank
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Pool configuration on quizzes
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS question_pools JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS shuffle_questions BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS shuffle_options BOOLEAN NOT NULL DEFAULT false;
+
+-- Per-attempt snapshots
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS questions JSONB,
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Indexes
+CREATE INDEX idx_quiz_question_banks_course ON quiz_question_banks(course_id);
+CREATE INDEX idx_quiz_question_banks_tags ON quiz_question_banks USING GIN(tags);
+CREATE INDEX idx_quiz_bank_questions_bank ON quiz_bank_questions(bank_id);
+CREATE INDEX idx_quiz_attempts_open ON quiz_attempts(user_id, quiz_id)
+  WHERE completed_at IS NULL;
+
+-- RLS Policies (service role only - managed through the instructor API)
+ALTER TABLE quiz_question_banks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_bank_questions ENABLE ROW LEVEL SECURITY;
+
+-- Comments
+COMMENT ON TABLE quiz_question_banks IS 'Reusable quiz question banks tagged by course or topic';
+COMMENT ON TABLE quiz_bank_questions IS 'Questions in a question bank; drawn into quiz attempts through quiz question pools';
+COMMENT ON COLUMN quizzes.question_pools IS 'Pools to draw from per attempt: [{ bank_id, draw_count, tags? }]; fixed questions are always included';
+COMMENT ON COLUMN quiz_attempts.questions IS 'Snapshot of the questions (with option order) served for this attempt; grading uses the snapshot';
+COMMENT ON COLUMN quiz_attempts.completed_at IS 'Null while the attempt is in progress';
@@ -0,0 +1,18 @@
+/**
+ * Quiz Question Types
+ * Fields for multi-select, matching, ordering, numeric and fill-in-the-blank
+ * questions in question banks (quiz questions are stored as JSON and need no
+ * schema change)
+ */
+
+ALTER TABLE quiz_bank_questions
+  ADD COLUMN IF NOT EXISTS items JSONB,
+  ADD COLUMN IF NOT EXISTS tolerance NUMERIC CHECK (tolerance IS NULL OR tolerance >= 0),
+  ADD COLUMN IF NOT EXISTS partial_credit BOOLEAN;
+
+-- Comments
+COMMENT ON COLUMN quiz_bank_questions.type IS 'multiple_choice, true_false, short_answer, multi_select, matching, ordering, numeric or fill_blank';
+COMMENT ON COLUMN quiz_bank_questions.items IS 'Left-hand items to match against options (matching questions)';
+COMMENT ON COLUMN quiz_bank_questions.correct_answer IS 'Option text, boolean, text, option list (multi-select, ordering), accepted answers (fill in the blank), number (numeric) or item-to-option map (matching)';
+COMMENT ON COLUMN quiz_bank_questions.tolerance IS 'Allowed absolute difference from the correct answer (numeric questions)';
+COMMENT ON COLUMN quiz_bank_questions.partial_credit IS 'Award proportional points for multi-select and matching questions; null means enabled';
@@ -0,0 +1,33 @@
+/**
+ * SAML AuthnRequest Tracking
+ * Records issued AuthnRequest IDs so SAML responses can be matched to a
+ * request we actually sent (InResponseTo) and replays can be rejected
+ */
+
+-- Outstanding SAML AuthnRequests
+CREATE TABLE IF NOT EXISTS sso_saml_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES sso_providers(id) ON DELETE CASCADE,
+
+  -- AuthnRequest ID sent to the IdP (echoed back as InResponseTo)
+  request_id TEXT NOT NULL,
+
+  -- Lifecycle
+  expires_at TIMESTAMPTZ NOT NULL,
+  consumed_at TIMESTAMPTZ, -- Set when a response for this request is accepted
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(provider_id, request_id)
+);
+
+-- Indexes
+CREATE INDEX idx_sso_saml_requests_expires ON sso_saml_requests(expires_at);
+
+-- RLS Policies (service role only - no user access)
+ALTER TABLE sso_saml_requests ENABLE ROW LEVEL SECURITY;
+
+-- Comments
+COMMENT ON TABLE sso_saml_requests IS 'Issued SAML AuthnRequest IDs for InResponseTo validation and replay protection';
+COMMENT ON COLUMN sso_saml_requests.consumed_at IS 'When a SAML response answering this request was accepted; a request can only be consumed once';
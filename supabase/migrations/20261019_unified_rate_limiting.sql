@@ -0,0 +1,35 @@
+/**
+ * Unified Rate Limiting
+ * Rate limit violations are recorded for every limiter scope (client IP,
+ * user, organization), not only organization API traffic. Counting moved to
+ * the application limiter (Redis or in-memory), so violations no longer need
+ * an organization.
+ */
+
+-- Violations from any scope
+ALTER TABLE rate_limit_violations
+  ALTER COLUMN organization_id DROP NOT NULL;
+
+ALTER TABLE rate_limit_violations
+  ADD COLUMN IF NOT EXISTS scope TEXT NOT NULL DEFAULT 'organization'
+    CHECK (scope IN ('ip', 'user', 'organization')),
+  ADD COLUMN IF NOT EXISTS identifier TEXT;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_rate_limit_violations_scope_created
+  ON rate_limit_violations(scope, created_at DESC);
+
+-- RLS Policies: platform admins can review violations from every scope
+CREATE POLICY "Admins can view rate limit violations"
+  ON rate_limit_violations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Comments
+COMMENT ON COLUMN rate_limit_violations.scope IS 'What the limit applied to: ip (proxy and public routes), user or organization';
+COMMENT ON COLUMN rate_limit_violations.identifier IS 'Limiter key that was exceeded, e.g. ip:203.0.113.7:auth or org:<uuid>';